@@ -17,6 +17,8 @@ import STEMNavigation from './components/STEMNavigation';
 // Import pages
 import ToolsPage from './pages/ToolsPage';
 import PartsPage from './pages/PartsPage';
+import StocktakePage from './pages/StocktakePage';
+import StorageLocationsPage from './pages/StorageLocationsPage';
 import SetsPage from './pages/SetsPage';
 import ShopPage from './pages/ShopPage';
 import OrderManagementPage from './pages/OrderManagementPage';
@@ -30,6 +32,7 @@ import UserProfile from './pages/UserProfile';
 import UserManagement from './pages/UserManagement';
 import AdminProviderManagement from './pages/AdminProviderManagement';
 import AIAssistantPage from './pages/AIAssistantPage';
+import AIInventoryDashboard from './pages/AIInventoryDashboard';
 import AnalyticsPage from './pages/AnalyticsPage';
 import AdminSetVisibilityManager from './components/AdminSetVisibilityManager';
 import ProviderDashboard from './pages/ProviderDashboard';
@@ -173,6 +176,22 @@ const App: React.FC = () => {
                           </RoleProtectedRoute>
                         } 
                       />
+                      <Route 
+                        path="/stocktake" 
+                        element={
+                          <RoleProtectedRoute allowedRoles={['admin', 'production']}>
+                            <StocktakePage />
+                          </RoleProtectedRoute>
+                        } 
+                      />
+                      <Route 
+                        path="/storage-locations" 
+                        element={
+                          <RoleProtectedRoute allowedRoles={['admin', 'production']}>
+                            <StorageLocationsPage />
+                          </RoleProtectedRoute>
+                        } 
+                      />
                       <Route 
                         path="/sets" 
                         element={
@@ -229,6 +248,14 @@ const App: React.FC = () => {
                           </RoleProtectedRoute>
                         }
                       />
+                      <Route 
+                        path="/ai-inventory" 
+                        element={
+                          <RoleProtectedRoute allowedRoles={['admin']}>
+                            <AIInventoryDashboard />
+                          </RoleProtectedRoute>
+                        }
+                      />
                       <Route 
                         path="/system-settings" 
                         element={
@@ -10,7 +10,7 @@ import {
   Schedule as ScheduleIcon, Download as DownloadIcon, Refresh as RefreshIcon,
   Notifications as NotificationsIcon, Visibility as VisibilityIcon, GetApp as GetAppIcon,
   CalendarMonth as CalendarMonthIcon, Receipt as ReceiptIcon, CheckCircle as CheckCircleIcon,
-  Error as ErrorIcon, Info as InfoIcon, ExpandMore as ExpandMoreIcon
+  Error as ErrorIcon, Info as InfoIcon, ExpandMore as ExpandMoreIcon, Build as BuildIcon
 } from '@mui/icons-material';
 import { ordersApi } from '../services/api';
 
@@ -192,6 +192,7 @@ const AutomatedReportingSection: React.FC = () => {
       case 'provider_payment': return <ReceiptIcon />;
       case 'invoice_generated': return <DownloadIcon />;
       case 'system_error': return <ErrorIcon />;
+      case 'tool_maintenance_overdue': return <BuildIcon />;
       default: return <InfoIcon />;
     }
   };
@@ -0,0 +1,488 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Alert,
+  CircularProgress,
+  TextField,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  IconButton,
+  Chip,
+  Select,
+  MenuItem,
+  ToggleButton,
+  ToggleButtonGroup,
+} from '@mui/material';
+import {
+  Close as CloseIcon,
+  Upload as UploadIcon,
+  Add as AddIcon,
+  Delete as DeleteIcon,
+} from '@mui/icons-material';
+import {
+  bankImportApi,
+  BankAllocation,
+  BankImportSummary,
+  BankOpenOrder,
+  BankTransaction,
+} from '../services/api';
+
+interface BankReconciliationDialogProps {
+  open: boolean;
+  onClose: () => void;
+  /** Called after payments were confirmed, so the order list can refresh */
+  onConfirmed?: () => void;
+}
+
+interface AllocationInput {
+  orderId: number | '';
+  amount: string;
+}
+
+const REASON_LABELS: Record<string, string> = {
+  order_number: 'Order no.',
+  invoice_number: 'Invoice no.',
+  exact_amount: 'Amount',
+  close_amount: 'Amount ≈',
+  name: 'Name',
+};
+
+const CONFIDENCE_COLORS: Record<string, 'success' | 'warning' | 'default'> = {
+  high: 'success',
+  medium: 'warning',
+  low: 'default',
+};
+
+const formatEuro = (value: number) => `€${Number(value).toFixed(2)}`;
+
+/** A single-order allocation takes the payment, but never more than the order still owes. */
+const allocationFor = (transaction: BankTransaction, orderId: number, outstanding: number): AllocationInput => ({
+  orderId,
+  amount: Math.min(transaction.amount, outstanding).toFixed(2),
+});
+
+/**
+ * Review imported bank transactions: confirm the suggested order, split a
+ * payment across several orders, or reject it. Payments are only recorded
+ * on the orders once confirmed here.
+ */
+const BankReconciliationDialog: React.FC<BankReconciliationDialogProps> = ({
+  open,
+  onClose,
+  onConfirmed,
+}) => {
+  const [status, setStatus] = useState<BankTransaction['status']>('pending');
+  const [transactions, setTransactions] = useState<BankTransaction[]>([]);
+  const [openOrders, setOpenOrders] = useState<BankOpenOrder[]>([]);
+  const [selected, setSelected] = useState<Record<number, number | ''>>({});
+  const [splitting, setSplitting] = useState<{ transactionId: number; rows: AllocationInput[] } | null>(null);
+  const [summary, setSummary] = useState<BankImportSummary | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTransactions = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await bankImportApi.getTransactions(status);
+      setTransactions(response.data.transactions);
+      setOpenOrders(response.data.openOrders);
+      setSelected(Object.fromEntries(response.data.transactions.map((transaction) => [
+        transaction.transaction_id,
+        transaction.suggestions.length > 0 ? transaction.suggestions[0].order_id : '',
+      ])));
+      setSplitting(null);
+    } catch (err: any) {
+      console.error('Failed to load bank transactions:', err);
+      setError(err.response?.data?.error || 'Failed to load bank transactions');
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    if (open) {
+      setSummary(null);
+    }
+  }, [open]);
+
+  // Reloads on opening and whenever the status filter changes
+  useEffect(() => {
+    if (open) {
+      loadTransactions();
+    }
+  }, [open, loadTransactions]);
+
+  const handleStatusChange = (nextStatus: BankTransaction['status'] | null) => {
+    if (!nextStatus) return;
+    setStatus(nextStatus);
+  };
+
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await bankImportApi.upload(file);
+      setSummary(response.data.summary);
+      if (status === 'pending') {
+        await loadTransactions();
+      } else {
+        setStatus('pending');
+      }
+    } catch (err: any) {
+      console.error('Bank statement upload failed:', err);
+      setError(err.response?.data?.error || 'Failed to import bank statement');
+      setLoading(false);
+    }
+  };
+
+  const confirm = async (transaction: BankTransaction, allocations: BankAllocation[]) => {
+    setBusyId(transaction.transaction_id);
+    setError(null);
+    try {
+      await bankImportApi.confirm(transaction.transaction_id, allocations);
+      onConfirmed?.();
+      await loadTransactions();
+    } catch (err: any) {
+      console.error('Failed to confirm payment:', err);
+      setError(err.response?.data?.error || 'Failed to confirm payment');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleConfirm = (transaction: BankTransaction) => {
+    const orderId = selected[transaction.transaction_id];
+    const order = openOrders.find((candidate) => candidate.order_id === orderId);
+    if (!order) return;
+    const allocation = allocationFor(transaction, order.order_id, order.outstanding);
+    confirm(transaction, [{ order_id: order.order_id, amount: Number(allocation.amount) }]);
+  };
+
+  const handleReject = async (transaction: BankTransaction) => {
+    setBusyId(transaction.transaction_id);
+    setError(null);
+    try {
+      await bankImportApi.reject(transaction.transaction_id);
+      await loadTransactions();
+    } catch (err: any) {
+      console.error('Failed to reject transaction:', err);
+      setError(err.response?.data?.error || 'Failed to reject transaction');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const startSplit = (transaction: BankTransaction) => {
+    const rows: AllocationInput[] = transaction.split
+      ? transaction.split.map((allocation) => ({ orderId: allocation.order_id, amount: allocation.amount.toFixed(2) }))
+      : [{ orderId: selected[transaction.transaction_id] ?? '', amount: '' }, { orderId: '', amount: '' }];
+    setSplitting({ transactionId: transaction.transaction_id, rows });
+  };
+
+  const updateSplitRow = (index: number, row: Partial<AllocationInput>) => {
+    setSplitting((prev) => prev && {
+      ...prev,
+      rows: prev.rows.map((current, i) => (i === index ? { ...current, ...row } : current)),
+    });
+  };
+
+  const splitAllocations = (splitting?.rows || [])
+    .filter((row) => row.orderId !== '' && Number(row.amount) > 0)
+    .map((row) => ({ order_id: Number(row.orderId), amount: Number(row.amount) }));
+  const splitTotal = splitAllocations.reduce((sum, allocation) => sum + allocation.amount, 0);
+
+  const renderSplitEditor = (transaction: BankTransaction) => {
+    if (!splitting) return null;
+    const overAllocated = Math.round(splitTotal * 100) > Math.round(transaction.amount * 100);
+    return (
+      <TableRow>
+        <TableCell colSpan={5} sx={{ bgcolor: 'action.hover' }}>
+          {splitting.rows.map((row, index) => (
+            <Box key={index} display="flex" gap={1} alignItems="center" mb={1}>
+              <Select
+                size="small"
+                value={row.orderId}
+                displayEmpty
+                onChange={(e) => {
+                  const orderId: number | '' = e.target.value ? Number(e.target.value) : '';
+                  const order = openOrders.find((candidate) => candidate.order_id === orderId);
+                  updateSplitRow(index, {
+                    orderId,
+                    ...(order && row.amount === '' ? { amount: order.outstanding.toFixed(2) } : {}),
+                  });
+                }}
+                sx={{ minWidth: 320 }}
+              >
+                <MenuItem value="">Select order</MenuItem>
+                {openOrders.map((order) => (
+                  <MenuItem key={order.order_id} value={order.order_id}>
+                    {order.order_number} – {order.customer_name} ({formatEuro(order.outstanding)} due)
+                  </MenuItem>
+                ))}
+              </Select>
+              <TextField
+                type="number"
+                size="small"
+                label="Amount (€)"
+                value={row.amount}
+                onChange={(e) => updateSplitRow(index, { amount: e.target.value })}
+                inputProps={{ min: 0, step: 0.01 }}
+                sx={{ width: 140 }}
+              />
+              <IconButton
+                size="small"
+                onClick={() => setSplitting({ ...splitting, rows: splitting.rows.filter((_, i) => i !== index) })}
+                disabled={splitting.rows.length <= 1}
+              >
+                <DeleteIcon fontSize="small" />
+              </IconButton>
+            </Box>
+          ))}
+          <Box display="flex" gap={1} alignItems="center">
+            <Button
+              size="small"
+              startIcon={<AddIcon />}
+              onClick={() => setSplitting({ ...splitting, rows: [...splitting.rows, { orderId: '', amount: '' }] })}
+            >
+              Add order
+            </Button>
+            <Typography variant="body2" color={overAllocated ? 'error' : 'text.secondary'} sx={{ flexGrow: 1 }}>
+              Allocated {formatEuro(splitTotal)} of {formatEuro(transaction.amount)}
+            </Typography>
+            <Button size="small" onClick={() => setSplitting(null)}>
+              Cancel
+            </Button>
+            <Button
+              size="small"
+              variant="contained"
+              disabled={busyId !== null || splitAllocations.length === 0 || overAllocated}
+              onClick={() => confirm(transaction, splitAllocations)}
+            >
+              Confirm Split
+            </Button>
+          </Box>
+        </TableCell>
+      </TableRow>
+    );
+  };
+
+  const renderMatch = (transaction: BankTransaction) => {
+    if (transaction.status === 'confirmed') {
+      return transaction.allocations.map((allocation) => (
+        <Typography key={allocation.order_id} variant="body2">
+          {allocation.order_number}: {formatEuro(allocation.amount)}
+        </Typography>
+      ));
+    }
+    if (transaction.status === 'rejected') {
+      return (
+        <Typography variant="body2" color="text.secondary">
+          Rejected {transaction.reviewed_at}{transaction.review_note && ` – ${transaction.review_note}`}
+        </Typography>
+      );
+    }
+
+    const current = transaction.suggestions.find(
+      (suggestion) => suggestion.order_id === selected[transaction.transaction_id]
+    );
+    return (
+      <>
+        <Select
+          size="small"
+          fullWidth
+          displayEmpty
+          value={selected[transaction.transaction_id] ?? ''}
+          onChange={(e) => setSelected((prev) => ({
+            ...prev,
+            [transaction.transaction_id]: e.target.value ? Number(e.target.value) : '',
+          }))}
+        >
+          <MenuItem value="">{transaction.suggestions.length > 0 ? 'Select order' : 'No match – select order'}</MenuItem>
+          {transaction.suggestions.map((suggestion) => (
+            <MenuItem key={suggestion.order_id} value={suggestion.order_id}>
+              {suggestion.order_number} – {suggestion.customer_name} ({formatEuro(suggestion.outstanding)} due)
+            </MenuItem>
+          ))}
+          {openOrders
+            .filter((order) => !transaction.suggestions.some((suggestion) => suggestion.order_id === order.order_id))
+            .map((order) => (
+              <MenuItem key={order.order_id} value={order.order_id}>
+                {order.order_number} – {order.customer_name} ({formatEuro(order.outstanding)} due)
+              </MenuItem>
+            ))}
+        </Select>
+        {current && (
+          <Box display="flex" gap={0.5} mt={0.5} flexWrap="wrap">
+            <Chip size="small" label={current.confidence} color={CONFIDENCE_COLORS[current.confidence]} />
+            {current.reasons.map((reason) => (
+              <Chip key={reason} size="small" variant="outlined" label={REASON_LABELS[reason] || reason} />
+            ))}
+          </Box>
+        )}
+        {transaction.split && (
+          <Typography variant="caption" display="block" color="text.secondary" mt={0.5}>
+            Possible split: {transaction.split.map((allocation) => `${allocation.order_number} ${formatEuro(allocation.amount)}`).join(' + ')}
+          </Typography>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle>
+        <Box display="flex" justifyContent="space-between" alignItems="center">
+          <Typography variant="h6">Bank Payments</Typography>
+          <IconButton onClick={onClose} size="small">
+            <CloseIcon />
+          </IconButton>
+        </Box>
+      </DialogTitle>
+
+      <DialogContent>
+        <Box display="flex" justifyContent="space-between" alignItems="center" mb={2} gap={2} flexWrap="wrap">
+          <Box>
+            <input
+              accept=".xml,.csv,.txt"
+              style={{ display: 'none' }}
+              id="bank-statement-file"
+              type="file"
+              onChange={handleUpload}
+            />
+            <label htmlFor="bank-statement-file">
+              <Button variant="outlined" component="span" startIcon={<UploadIcon />} disabled={loading}>
+                Import Statement
+              </Button>
+            </label>
+            <Typography variant="caption" display="block" color="text.secondary" mt={0.5}>
+              camt.053 XML or CSV export (Swedbank, SEB, LHV, Nordea, OP)
+            </Typography>
+          </Box>
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={status}
+            onChange={(_, value) => handleStatusChange(value)}
+          >
+            <ToggleButton value="pending">To review</ToggleButton>
+            <ToggleButton value="confirmed">Confirmed</ToggleButton>
+            <ToggleButton value="rejected">Rejected</ToggleButton>
+          </ToggleButtonGroup>
+        </Box>
+
+        {summary && (
+          <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSummary(null)}>
+            Imported {summary.imported} incoming payments from the {summary.format} file: {summary.matched} with
+            suggested orders, {summary.unmatched} without.
+            {summary.duplicates > 0 && ` ${summary.duplicates} were already imported.`}
+            {summary.outgoing > 0 && ` ${summary.outgoing} outgoing payments were ignored.`}
+          </Alert>
+        )}
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Box display="flex" justifyContent="center" p={3}>
+            <CircularProgress />
+          </Box>
+        ) : transactions.length === 0 ? (
+          <Typography color="text.secondary" align="center" sx={{ p: 3 }}>
+            {status === 'pending' ? 'No payments waiting for review' : `No ${status} payments`}
+          </Typography>
+        ) : (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Date</TableCell>
+                <TableCell>Payer</TableCell>
+                <TableCell>Reference / Description</TableCell>
+                <TableCell align="right">Amount</TableCell>
+                <TableCell sx={{ width: 360 }}>{status === 'pending' ? 'Match' : 'Result'}</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {transactions.map((transaction) => (
+                <React.Fragment key={transaction.transaction_id}>
+                  <TableRow>
+                    <TableCell>{transaction.booking_date}</TableCell>
+                    <TableCell>
+                      {transaction.counterparty_name || '—'}
+                      {transaction.counterparty_account && (
+                        <Typography variant="caption" display="block" color="text.secondary">
+                          {transaction.counterparty_account}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {transaction.reference && <Typography variant="body2">{transaction.reference}</Typography>}
+                      <Typography variant="body2" color="text.secondary">
+                        {transaction.description}
+                      </Typography>
+                    </TableCell>
+                    <TableCell align="right">{formatEuro(transaction.amount)}</TableCell>
+                    <TableCell>
+                      {renderMatch(transaction)}
+                      {transaction.status === 'pending' && (
+                        <Box display="flex" gap={1} mt={1}>
+                          <Button
+                            size="small"
+                            variant="contained"
+                            color="success"
+                            disabled={busyId !== null || selected[transaction.transaction_id] === ''}
+                            onClick={() => handleConfirm(transaction)}
+                          >
+                            {busyId === transaction.transaction_id ? <CircularProgress size={16} /> : 'Confirm'}
+                          </Button>
+                          <Button
+                            size="small"
+                            variant="outlined"
+                            disabled={busyId !== null}
+                            onClick={() => startSplit(transaction)}
+                          >
+                            Split
+                          </Button>
+                          <Button
+                            size="small"
+                            color="error"
+                            disabled={busyId !== null}
+                            onClick={() => handleReject(transaction)}
+                          >
+                            Reject
+                          </Button>
+                        </Box>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                  {splitting?.transactionId === transaction.transaction_id && renderSplitEditor(transaction)}
+                </React.Fragment>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default BankReconciliationDialog;
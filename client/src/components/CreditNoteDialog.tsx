@@ -0,0 +1,273 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Alert,
+  CircularProgress,
+  TextField,
+  Checkbox,
+  FormControlLabel,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  IconButton,
+  Link,
+} from '@mui/material';
+import { Close as CloseIcon } from '@mui/icons-material';
+import { Order, Invoice, CreditableItem, invoicesApi } from '../services/api';
+import { SimpleInvoiceService } from '../services/simpleInvoiceService';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface CreditNoteDialogProps {
+  open: boolean;
+  onClose: () => void;
+  order: Order | null;
+  onIssued?: (creditNote: Invoice) => void;
+}
+
+interface LineInput {
+  quantity: string;
+  amount: string;
+}
+
+/**
+ * Issue full or partial credit notes against an order's invoice. Quantities
+ * and amounts are limited to what has not been credited yet.
+ */
+const CreditNoteDialog: React.FC<CreditNoteDialogProps> = ({
+  open,
+  onClose,
+  order,
+  onIssued,
+}) => {
+  const { currentLanguage } = useLanguage();
+  const [invoiceNumber, setInvoiceNumber] = useState<string>('');
+  const [items, setItems] = useState<CreditableItem[]>([]);
+  const [creditNotes, setCreditNotes] = useState<Invoice[]>([]);
+  const [lines, setLines] = useState<Record<number, LineInput>>({});
+  const [reason, setReason] = useState('');
+  const [restock, setRestock] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const loadCreditNotes = async (orderId: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await invoicesApi.getCreditNotes(orderId);
+      setInvoiceNumber(response.data.invoiceNumber);
+      setItems(response.data.items);
+      setCreditNotes(response.data.creditNotes);
+      setLines({});
+    } catch (err: any) {
+      console.error('Failed to load credit notes:', err);
+      setItems([]);
+      setCreditNotes([]);
+      setError(err.response?.status === 404
+        ? 'This order has no invoice yet. Issue the invoice before crediting it.'
+        : 'Failed to load invoice lines');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (open && order) {
+      setReason('');
+      setRestock(false);
+      setSuccess(null);
+      loadCreditNotes(order.order_id);
+    }
+  }, [open, order]);
+
+  const updateLine = (orderItemId: number, field: keyof LineInput, value: string) => {
+    setLines((prev) => ({
+      ...prev,
+      [orderItemId]: { ...(prev[orderItemId] || { quantity: '', amount: '' }), [field]: value },
+    }));
+  };
+
+  const selectedLines = items
+    .filter((item) => Number(lines[item.orderItemId]?.quantity) > 0)
+    .map((item) => {
+      const input = lines[item.orderItemId];
+      return {
+        orderItemId: item.orderItemId,
+        quantity: Number(input.quantity),
+        ...(input.amount !== '' ? { amount: Number(input.amount) } : {}),
+      };
+    });
+
+  const handleIssue = async () => {
+    if (!order || selectedLines.length === 0) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await invoicesApi.createCreditNote(order.order_id, {
+        lines: selectedLines,
+        reason: reason.trim(),
+        restock,
+        language: currentLanguage,
+      });
+      setSuccess(`Credit note ${response.data.invoiceNumber} issued`);
+      onIssued?.(response.data.creditNote);
+      await loadCreditNotes(order.order_id);
+    } catch (err: any) {
+      console.error('Failed to issue credit note:', err);
+      setError(err.response?.data?.error || 'Failed to issue credit note');
+      setLoading(false);
+    }
+  };
+
+  const handlePreview = (creditNote: Invoice) => {
+    SimpleInvoiceService.previewInvoice(creditNote).catch((err) => console.error('Preview failed:', err));
+  };
+
+  if (!order) return null;
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>
+        <Box display="flex" justifyContent="space-between" alignItems="center">
+          <Typography variant="h6">
+            Credit Note {invoiceNumber && `for ${invoiceNumber}`}
+          </Typography>
+          <IconButton onClick={onClose} size="small">
+            <CloseIcon />
+          </IconButton>
+        </Box>
+      </DialogTitle>
+
+      <DialogContent>
+        {success && (
+          <Alert severity="success" sx={{ mb: 2 }}>
+            {success}
+          </Alert>
+        )}
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {loading && items.length === 0 ? (
+          <Box display="flex" justifyContent="center" p={3}>
+            <CircularProgress />
+          </Box>
+        ) : items.length > 0 && (
+          <>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Item</TableCell>
+                  <TableCell align="right">Invoiced</TableCell>
+                  <TableCell align="right">Credited</TableCell>
+                  <TableCell align="right">Quantity</TableCell>
+                  <TableCell align="right">Amount (€, optional)</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {items.map((item) => {
+                  const input = lines[item.orderItemId] || { quantity: '', amount: '' };
+                  const fullyCredited = item.remainingQuantity <= 0 || item.remainingAmount <= 0;
+                  return (
+                    <TableRow key={item.orderItemId}>
+                      <TableCell>
+                        {item.description}
+                        <Typography variant="caption" display="block" color="text.secondary">
+                          VAT {item.vatRate}%
+                        </Typography>
+                      </TableCell>
+                      <TableCell align="right">
+                        {item.quantity} × €{item.unitPrice.toFixed(2)} = €{item.total.toFixed(2)}
+                      </TableCell>
+                      <TableCell align="right">
+                        {item.creditedQuantity} / €{item.creditedAmount.toFixed(2)}
+                      </TableCell>
+                      <TableCell align="right" sx={{ width: 110 }}>
+                        <TextField
+                          type="number"
+                          size="small"
+                          value={input.quantity}
+                          disabled={fullyCredited}
+                          onChange={(e) => updateLine(item.orderItemId, 'quantity', e.target.value)}
+                          inputProps={{ min: 0, max: item.remainingQuantity, step: 1 }}
+                          helperText={`max ${item.remainingQuantity}`}
+                        />
+                      </TableCell>
+                      <TableCell align="right" sx={{ width: 150 }}>
+                        <TextField
+                          type="number"
+                          size="small"
+                          value={input.amount}
+                          disabled={fullyCredited || !(Number(input.quantity) > 0)}
+                          onChange={(e) => updateLine(item.orderItemId, 'amount', e.target.value)}
+                          inputProps={{ min: 0, max: item.remainingAmount, step: 0.01 }}
+                          helperText={`max €${item.remainingAmount.toFixed(2)}`}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+
+            <TextField
+              fullWidth
+              label="Reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Returned by customer, damaged in transit"
+              sx={{ mt: 2 }}
+            />
+            <FormControlLabel
+              control={<Checkbox checked={restock} onChange={(e) => setRestock(e.target.checked)} />}
+              label="Return the parts of credited sets to stock"
+            />
+          </>
+        )}
+
+        {creditNotes.length > 0 && (
+          <Box sx={{ mt: 2 }}>
+            <Typography variant="subtitle2" gutterBottom>
+              Issued credit notes
+            </Typography>
+            {creditNotes.map((creditNote) => (
+              <Typography key={creditNote.invoiceNumber} variant="body2">
+                <Link component="button" onClick={() => handlePreview(creditNote)}>
+                  {creditNote.invoiceNumber}
+                </Link>
+                {' '}({creditNote.issueDate}): €{creditNote.total.toFixed(2)}
+                {creditNote.notes && ` – ${creditNote.notes}`}
+              </Typography>
+            ))}
+          </Box>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose} disabled={loading}>
+          Close
+        </Button>
+        <Button
+          variant="contained"
+          color="warning"
+          onClick={handleIssue}
+          disabled={loading || selectedLines.length === 0}
+        >
+          {loading ? <CircularProgress size={20} /> : 'Issue Credit Note'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default CreditNoteDialog;
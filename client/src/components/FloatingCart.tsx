@@ -35,6 +35,7 @@ import {
 import { useLanguage } from '../contexts/LanguageContext';
 import { useCart } from '../contexts/CartContext';
 import { useAuth } from '../contexts/AuthContext';
+import ShippingOptions from './ShippingOptions';
 
 interface FloatingCartProps {
   onCheckout?: (orderData: any) => void;
@@ -43,7 +44,7 @@ interface FloatingCartProps {
 const FloatingCart: React.FC<FloatingCartProps> = ({ onCheckout }) => {
   const { t } = useLanguage();
   const { user } = useAuth();
-  const { items, getTotalItems, getTotalPrice, updateQuantity, removeFromCart, clearCart, validateStock, getShippingInfo } = useCart();
+  const { items, getTotalItems, getSubtotal, getTotalPrice, updateQuantity, removeFromCart, clearCart, validateStock, shippingQuote, shippingOption, shippingTerminal } = useCart();
   const [isExpanded, setIsExpanded] = useState(false);
   const [checkoutOpen, setCheckoutOpen] = useState(false);
   const [customerInfo, setCustomerInfo] = useState({
@@ -58,6 +59,7 @@ const FloatingCart: React.FC<FloatingCartProps> = ({ onCheckout }) => {
   const [loading, setLoading] = useState(false);
   const [success, setSuccess] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [quantityError, setQuantityError] = useState<string | null>(null);
   const [saveCustomerInfo, setSaveCustomerInfo] = useState(false);
 
   // Load saved customer info when dialog opens
@@ -70,17 +72,22 @@ const FloatingCart: React.FC<FloatingCartProps> = ({ onCheckout }) => {
     }
   }, [checkoutOpen]);
 
+  const changeQuantity = (setId: number, quantity: number) => {
+    setQuantityError(null);
+    updateQuantity(setId, quantity).catch((err: Error) => setQuantityError(err.message));
+  };
+
   const handleAddToCart = (setId: number) => {
     const item = items.find(i => i.set_id === setId);
     if (item) {
-      updateQuantity(setId, item.quantity + 1);
+      changeQuantity(setId, item.quantity + 1);
     }
   };
 
   const handleRemoveFromCart = (setId: number) => {
     const item = items.find(i => i.set_id === setId);
     if (item && item.quantity > 1) {
-      updateQuantity(setId, item.quantity - 1);
+      changeQuantity(setId, item.quantity - 1);
     } else {
       removeFromCart(setId);
     }
@@ -129,7 +136,7 @@ const FloatingCart: React.FC<FloatingCartProps> = ({ onCheckout }) => {
         unit_price: item.display_price || item.price || item.unit_price,
         line_total: item.total_price,
         provider_set_id: item.provider_set_id, // Include provider set ID for stock management
-        provider_id: item.provider_id, // Include provider ID
+        provider_id: item.provider_id ?? null, // Checkout places a sub-order per provider
       }));
 
       const orderData = {
@@ -147,7 +154,10 @@ const FloatingCart: React.FC<FloatingCartProps> = ({ onCheckout }) => {
         payment_method: 'credit_card',
         items: orderItems,
         total_amount: getTotalPrice(),
-        status: 'pending_payment', // Customer places order - admin must confirm payment
+        // The server quotes shipping again and charges the chosen option
+        shipping_country: shippingQuote?.country,
+        shipping_option: shippingOption?.id,
+        shipping_terminal_id: shippingTerminal?.terminal_id,
         set_type: items[0]?.provider_id === null ? 'admin' : 'provider' // Determine set type based on provider_id
       };
 
@@ -323,6 +333,11 @@ const FloatingCart: React.FC<FloatingCartProps> = ({ onCheckout }) => {
         {/* Expanded Cart Content */}
         <Slide direction="up" in={isExpanded} mountOnEnter unmountOnExit>
           <Box sx={{ maxHeight: 400, overflow: 'auto' }}>
+            {quantityError && (
+              <Alert severity="warning" sx={{ m: 1 }} onClose={() => setQuantityError(null)}>
+                {quantityError}
+              </Alert>
+            )}
             {items.length === 0 ? (
               <Box sx={{ p: 3, textAlign: 'center' }}>
                 <ShoppingCartIcon sx={{ fontSize: 48, color: 'text.secondary', mb: 2 }} />
@@ -388,28 +403,16 @@ const FloatingCart: React.FC<FloatingCartProps> = ({ onCheckout }) => {
 
             {items.length > 0 && (
               <Box sx={{ p: 2, backgroundColor: 'grey.50' }}>
-                {/* Shipping Information */}
-                {(() => {
-                  const shippingInfo = getShippingInfo();
-                  return (
-                    <Box sx={{ mb: 2, p: 2, backgroundColor: 'white', borderRadius: 1, border: '1px solid', borderColor: 'grey.200' }}>
-                      <Typography variant="subtitle2" fontWeight={600} color="primary" gutterBottom>
-                        📦 Shipping Information
-                      </Typography>
-                      <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
-                        {shippingInfo.description}
-                      </Typography>
-                      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
-                        <Typography variant="body2">
-                          Shipping Cost:
-                        </Typography>
-                        <Typography variant="body2" fontWeight={600}>
-                          €{shippingInfo.cost.toFixed(2)}
-                        </Typography>
-                      </Box>
-                    </Box>
-                  );
-                })()}
+                <ShippingOptions />
+
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                  <Typography variant="body2">Subtotal:</Typography>
+                  <Typography variant="body2">€{getSubtotal().toFixed(2)}</Typography>
+                </Box>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+                  <Typography variant="body2">Shipping:</Typography>
+                  <Typography variant="body2">{shippingOption ? (shippingOption.cost === 0 ? 'Free' : `€${shippingOption.cost.toFixed(2)}`) : '—'}</Typography>
+                </Box>
                 
                 <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
                   <Typography variant="h6" fontWeight={600}>
@@ -616,6 +619,17 @@ const FloatingCart: React.FC<FloatingCartProps> = ({ onCheckout }) => {
                         </Typography>
                       </ListItem>
                     ))}
+                    {shippingOption && (
+                      <ListItem sx={{ px: 0 }}>
+                        <ListItemText
+                          primary={`Shipping: ${shippingOption.name}${shippingOption.carrier ? ` (${shippingOption.carrier})` : ''}`}
+                          secondary={shippingOption.method === 'pickup' ? shippingOption.address : shippingQuote?.country}
+                        />
+                        <Typography variant="body2" fontWeight={600}>
+                          {shippingOption.cost === 0 ? 'Free' : `€${shippingOption.cost.toFixed(2)}`}
+                        </Typography>
+                      </ListItem>
+                    )}
                   </List>
                   <Divider sx={{ my: 2 }} />
                   <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
@@ -641,7 +655,7 @@ const FloatingCart: React.FC<FloatingCartProps> = ({ onCheckout }) => {
             <Button
               variant="contained"
               onClick={handleCheckout}
-              disabled={!validateForm() || loading}
+              disabled={!validateForm() || loading || (shippingOption?.delivery_type === 'terminal' && !shippingTerminal)}
               startIcon={<CheckoutIcon />}
             >
               {loading ? 'Processing...' : 'Place Order'}
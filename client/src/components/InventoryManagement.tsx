@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
   Box,
   Typography,
@@ -30,8 +30,21 @@ import {
   History as HistoryIcon,
   Warning as WarningIcon,
   Inventory as InventoryIcon,
+  SwapHoriz as TransferIcon,
+  Place as PlaceIcon,
+  Layers as LotIcon,
+  ManageSearch as TraceIcon,
 } from '@mui/icons-material';
-import { inventoryApi, InventoryPart, InventoryTransaction } from '../services/api';
+import {
+  inventoryApi,
+  storageLocationsApi,
+  InventoryPart,
+  InventoryTransaction,
+  StorageLocation,
+  PartLot,
+  PartLotBreakdown,
+  LotTrace,
+} from '../services/api';
 import { renderError } from '../utils/errorUtils';
 
 interface InventoryManagementProps {
@@ -47,13 +60,70 @@ const InventoryManagement: React.FC<InventoryManagementProps> = ({ part, onStock
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [transferDialogOpen, setTransferDialogOpen] = useState(false);
+  const [storageLocations, setStorageLocations] = useState<StorageLocation[]>([]);
+  const [lotBreakdown, setLotBreakdown] = useState<PartLotBreakdown | null>(null);
+  const [traceDialogOpen, setTraceDialogOpen] = useState(false);
+  const [lotSearch, setLotSearch] = useState('');
+  const [lotResults, setLotResults] = useState<PartLot[]>([]);
+  const [lotTrace, setLotTrace] = useState<LotTrace | null>(null);
+
+  // '' = unassigned stock (no location)
+  const [transferForm, setTransferForm] = useState({
+    from_location_id: '' as number | '',
+    to_location_id: '' as number | '',
+    quantity: 0,
+    notes: ''
+  });
+
+  useEffect(() => {
+    storageLocationsApi.getAll()
+      .then((response) => setStorageLocations(response.data.locations))
+      .catch((err) => console.error('Error loading storage locations:', err));
+  }, []);
+
+  const loadLots = useCallback(async () => {
+    try {
+      const response = await inventoryApi.getLots(part.part_id);
+      setLotBreakdown(response.data);
+    } catch (err) {
+      console.error('Error loading part lots:', err);
+    }
+  }, [part.part_id]);
+
+  useEffect(() => {
+    loadLots();
+  }, [loadLots]);
+
+  const tracksLots = Boolean(part.track_lots);
+  const partLots = lotBreakdown?.lots || [];
+
+  const partLocations = part.locations || [];
+  const unassignedQuantity = part.unassigned_quantity ?? part.stock_quantity;
+
+  // Stock moves change the per-location and per-lot split, so reload them with the new total
+  const refreshLocations = async (updatedPart: InventoryPart) => {
+    loadLots();
+    try {
+      const response = await inventoryApi.getLocations(part.part_id);
+      onStockUpdated({
+        ...updatedPart,
+        locations: response.data.locations,
+        unassigned_quantity: response.data.unassigned_quantity
+      });
+    } catch (err) {
+      console.error('Error loading part locations:', err);
+      onStockUpdated(updatedPart);
+    }
+  };
 
   // Adjust stock form
   const [adjustForm, setAdjustForm] = useState({
     adjustment_type: 'add' as 'add' | 'remove' | 'set',
     quantity: 0,
     reason: '',
-    notes: ''
+    notes: '',
+    location_id: '' as number | ''
   });
 
   // Income form
@@ -62,7 +132,10 @@ const InventoryManagement: React.FC<InventoryManagementProps> = ({ part, onStock
     supplier: '',
     cost_per_unit: 0,
     purchase_date: new Date().toISOString().split('T')[0], // Today's date in YYYY-MM-DD format
-    notes: ''
+    notes: '',
+    location_id: '' as number | '',
+    lot_number: '',
+    expiry_date: ''
   });
 
   const handleAdjustStock = async () => {
@@ -70,19 +143,22 @@ const InventoryManagement: React.FC<InventoryManagementProps> = ({ part, onStock
       setLoading(true);
       setError(null);
       
-      const response = await inventoryApi.adjustStock(part.part_id, adjustForm);
+      const response = await inventoryApi.adjustStock(part.part_id, {
+        ...adjustForm,
+        location_id: adjustForm.location_id || null
+      });
       
       // Update the part with new stock
       const updatedPart = {
         ...part,
         stock_quantity: response.data.new_stock
       };
-      onStockUpdated(updatedPart);
+      await refreshLocations(updatedPart);
       
       setSuccessMessage(`Stock ${adjustForm.adjustment_type === 'add' ? 'added' : 
         adjustForm.adjustment_type === 'remove' ? 'removed' : 'set'} successfully`);
       setAdjustDialogOpen(false);
-      setAdjustForm({ adjustment_type: 'add', quantity: 0, reason: '', notes: '' });
+      setAdjustForm({ adjustment_type: 'add', quantity: 0, reason: '', notes: '', location_id: '' });
     } catch (err: any) {
       setError(renderError(err.response?.data?.error || 'Failed to adjust stock'));
     } finally {
@@ -95,7 +171,12 @@ const InventoryManagement: React.FC<InventoryManagementProps> = ({ part, onStock
       setLoading(true);
       setError(null);
       
-      const response = await inventoryApi.addIncome(part.part_id, incomeForm);
+      const response = await inventoryApi.addIncome(part.part_id, {
+        ...incomeForm,
+        location_id: incomeForm.location_id || null,
+        lot_number: incomeForm.lot_number || undefined,
+        expiry_date: incomeForm.expiry_date || undefined
+      });
       
       // Update the part with new stock
       const updatedPart = {
@@ -104,11 +185,20 @@ const InventoryManagement: React.FC<InventoryManagementProps> = ({ part, onStock
         supplier: incomeForm.supplier || part.supplier,
         unit_cost: incomeForm.cost_per_unit || part.unit_cost
       };
-      onStockUpdated(updatedPart);
+      await refreshLocations(updatedPart);
       
       setSuccessMessage(`Stock income recorded successfully`);
       setIncomeDialogOpen(false);
-      setIncomeForm({ quantity: 0, supplier: '', cost_per_unit: 0, purchase_date: new Date().toISOString().split('T')[0], notes: '' });
+      setIncomeForm({
+        quantity: 0,
+        supplier: '',
+        cost_per_unit: 0,
+        purchase_date: new Date().toISOString().split('T')[0],
+        notes: '',
+        location_id: '',
+        lot_number: '',
+        expiry_date: ''
+      });
     } catch (err: any) {
       setError(renderError(err.response?.data?.error || 'Failed to record stock income'));
     } finally {
@@ -116,6 +206,64 @@ const InventoryManagement: React.FC<InventoryManagementProps> = ({ part, onStock
     }
   };
 
+  const handleTransfer = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await inventoryApi.transfer(part.part_id, {
+        from_location_id: transferForm.from_location_id || null,
+        to_location_id: transferForm.to_location_id || null,
+        quantity: transferForm.quantity,
+        notes: transferForm.notes
+      });
+
+      onStockUpdated({
+        ...part,
+        locations: response.data.locations,
+        unassigned_quantity: response.data.unassigned_quantity
+      });
+
+      setSuccessMessage('Stock transferred successfully');
+      setTransferDialogOpen(false);
+      setTransferForm({ from_location_id: '', to_location_id: '', quantity: 0, notes: '' });
+    } catch (err: any) {
+      setError(renderError(err.response?.data?.error || 'Failed to transfer stock'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const availableAt = (locationId: number | '') => (locationId === ''
+    ? unassignedQuantity
+    : partLocations.find((location) => location.location_id === locationId)?.quantity || 0);
+
+  const locationLabel = (locationId?: number | null, code?: string | null) => (locationId ? code || `#${locationId}` : 'Unassigned');
+
+  // Recalls: find a lot by number and list the orders its units went into
+  const searchLots = async () => {
+    try {
+      const response = await inventoryApi.searchLots(lotSearch.trim());
+      setLotResults(response.data.lots);
+    } catch (err: any) {
+      setError(renderError(err.response?.data?.error || 'Failed to search lots'));
+    }
+  };
+
+  const openTrace = async (lotId: number) => {
+    try {
+      const response = await inventoryApi.traceLot(lotId);
+      setLotTrace(response.data);
+      setTraceDialogOpen(true);
+    } catch (err: any) {
+      setError(renderError(err.response?.data?.error || 'Failed to trace lot'));
+    }
+  };
+
+  const lotLabel = (lot: { lot_number: string; expiry_date: string | null }) => (lot.expiry_date
+    ? `${lot.lot_number} (exp. ${lot.expiry_date})`
+    : lot.lot_number);
+
   const loadTransactionHistory = async () => {
     try {
       const response = await inventoryApi.getHistory(part.part_id);
@@ -146,6 +294,51 @@ const InventoryManagement: React.FC<InventoryManagementProps> = ({ part, onStock
         </Typography>
       </Box>
 
+      {/* Stock per location, in pick order */}
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 1, mb: 2 }}>
+        <Typography variant="body2" color="text.secondary">Locations:</Typography>
+        {partLocations.map((location) => (
+          <Chip
+            key={location.location_id}
+            icon={<PlaceIcon />}
+            label={`${location.path}: ${location.quantity}`}
+            size="small"
+            variant="outlined"
+          />
+        ))}
+        {unassignedQuantity > 0 && (
+          <Chip label={`Unassigned: ${unassignedQuantity}`} size="small" variant="outlined" color="warning" />
+        )}
+        {partLocations.length === 0 && unassignedQuantity <= 0 && (
+          <Typography variant="body2" color="text.secondary">No stock</Typography>
+        )}
+      </Box>
+
+      {/* Stock per lot, first-expired-first-out */}
+      {(tracksLots || partLots.length > 0) && (
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 1, mb: 2 }}>
+          <Typography variant="body2" color="text.secondary">Lots:</Typography>
+          {partLots.map((lot) => (
+            <Tooltip key={lot.lot_id} title={lot.is_expired ? 'Expired - not picked for orders' : 'Trace orders'}>
+              <Chip
+                icon={<LotIcon />}
+                label={`${lotLabel(lot)}: ${lot.quantity}`}
+                size="small"
+                variant="outlined"
+                color={lot.is_expired ? 'error' : 'default'}
+                onClick={() => openTrace(lot.lot_id)}
+              />
+            </Tooltip>
+          ))}
+          {(lotBreakdown?.untracked_quantity || 0) > 0 && (
+            <Chip label={`No lot: ${lotBreakdown?.untracked_quantity}`} size="small" variant="outlined" color="warning" />
+          )}
+          {partLots.length === 0 && (lotBreakdown?.untracked_quantity || 0) <= 0 && (
+            <Typography variant="body2" color="text.secondary">No lots</Typography>
+          )}
+        </Box>
+      )}
+
       {/* Action Buttons */}
       <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
         <Button
@@ -163,6 +356,25 @@ const InventoryManagement: React.FC<InventoryManagementProps> = ({ part, onStock
         >
           Adjust Stock
         </Button>
+        <Button
+          variant="outlined"
+          startIcon={<TransferIcon />}
+          onClick={() => setTransferDialogOpen(true)}
+          disabled={storageLocations.length === 0}
+        >
+          Transfer
+        </Button>
+        <Button
+          variant="outlined"
+          startIcon={<TraceIcon />}
+          onClick={() => {
+            setLotTrace(null);
+            setLotResults([]);
+            setTraceDialogOpen(true);
+          }}
+        >
+          Trace Lot
+        </Button>
         <Tooltip title="View Transaction History">
           <IconButton onClick={() => {
             setHistoryDialogOpen(true);
@@ -212,6 +424,30 @@ const InventoryManagement: React.FC<InventoryManagementProps> = ({ part, onStock
               required
             />
 
+            {adjustForm.adjustment_type !== 'set' && (
+              <FormControl fullWidth>
+                <InputLabel>Location</InputLabel>
+                <Select
+                  value={adjustForm.location_id}
+                  onChange={(e) => setAdjustForm({ ...adjustForm, location_id: e.target.value as number | '' })}
+                  label="Location"
+                >
+                  <MenuItem value="">
+                    {adjustForm.adjustment_type === 'add' ? 'Unassigned' : 'Any (pick order)'}
+                  </MenuItem>
+                  {(adjustForm.adjustment_type === 'add'
+                    ? storageLocations
+                    : storageLocations.filter((location) => availableAt(location.location_id) > 0)
+                  ).map((location) => (
+                    <MenuItem key={location.location_id} value={location.location_id}>
+                      {location.path}
+                      {adjustForm.adjustment_type === 'remove' && ` (${availableAt(location.location_id)})`}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            )}
+
             <TextField
               fullWidth
               label="Reason"
@@ -252,6 +488,40 @@ const InventoryManagement: React.FC<InventoryManagementProps> = ({ part, onStock
               required
             />
 
+            <FormControl fullWidth>
+              <InputLabel>Location</InputLabel>
+              <Select
+                value={incomeForm.location_id}
+                onChange={(e) => setIncomeForm({ ...incomeForm, location_id: e.target.value as number | '' })}
+                label="Location"
+              >
+                <MenuItem value="">Unassigned</MenuItem>
+                {storageLocations.map((location) => (
+                  <MenuItem key={location.location_id} value={location.location_id}>{location.path}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              <TextField
+                fullWidth
+                label="Lot Number"
+                value={incomeForm.lot_number}
+                onChange={(e) => setIncomeForm({ ...incomeForm, lot_number: e.target.value })}
+                required={tracksLots}
+                helperText={tracksLots ? 'Required: this part is lot-tracked' : 'Optional'}
+              />
+              <TextField
+                fullWidth
+                label="Expiry Date"
+                type="date"
+                value={incomeForm.expiry_date}
+                onChange={(e) => setIncomeForm({ ...incomeForm, expiry_date: e.target.value })}
+                InputLabelProps={{ shrink: true }}
+                disabled={!incomeForm.lot_number}
+              />
+            </Box>
+
             <TextField
               fullWidth
               label="Supplier"
@@ -291,12 +561,79 @@ const InventoryManagement: React.FC<InventoryManagementProps> = ({ part, onStock
         </DialogContent>
         <DialogActions>
           <Button onClick={() => setIncomeDialogOpen(false)}>Cancel</Button>
-          <Button onClick={handleAddIncome} variant="contained" disabled={loading}>
+          <Button onClick={handleAddIncome} variant="contained" disabled={loading || (tracksLots && !incomeForm.lot_number.trim())}>
             {loading ? 'Processing...' : 'Record Income'}
           </Button>
         </DialogActions>
       </Dialog>
 
+      {/* Transfer Dialog */}
+      <Dialog open={transferDialogOpen} onClose={() => setTransferDialogOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>Transfer Stock</DialogTitle>
+        <DialogContent>
+          <Box sx={{ pt: 2, display: 'flex', flexDirection: 'column', gap: 2 }}>
+            <FormControl fullWidth>
+              <InputLabel>From</InputLabel>
+              <Select
+                value={transferForm.from_location_id}
+                onChange={(e) => setTransferForm({ ...transferForm, from_location_id: e.target.value as number | '' })}
+                label="From"
+              >
+                <MenuItem value="">Unassigned ({unassignedQuantity})</MenuItem>
+                {partLocations.map((location) => (
+                  <MenuItem key={location.location_id} value={location.location_id}>
+                    {location.path} ({location.quantity})
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+
+            <FormControl fullWidth>
+              <InputLabel>To</InputLabel>
+              <Select
+                value={transferForm.to_location_id}
+                onChange={(e) => setTransferForm({ ...transferForm, to_location_id: e.target.value as number | '' })}
+                label="To"
+              >
+                <MenuItem value="">Unassigned</MenuItem>
+                {storageLocations.map((location) => (
+                  <MenuItem key={location.location_id} value={location.location_id}>{location.path}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+
+            <TextField
+              fullWidth
+              label="Quantity"
+              type="number"
+              value={transferForm.quantity}
+              onChange={(e) => setTransferForm({ ...transferForm, quantity: parseInt(e.target.value) || 0 })}
+              helperText={`${availableAt(transferForm.from_location_id)} available`}
+              required
+            />
+
+            <TextField
+              fullWidth
+              label="Notes"
+              multiline
+              rows={2}
+              value={transferForm.notes}
+              onChange={(e) => setTransferForm({ ...transferForm, notes: e.target.value })}
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setTransferDialogOpen(false)}>Cancel</Button>
+          <Button
+            onClick={handleTransfer}
+            variant="contained"
+            disabled={loading || transferForm.quantity <= 0 || transferForm.from_location_id === transferForm.to_location_id}
+          >
+            {loading ? 'Processing...' : 'Transfer'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
       {/* Transaction History Dialog */}
       <Dialog open={historyDialogOpen} onClose={() => setHistoryDialogOpen(false)} maxWidth="lg" fullWidth>
         <DialogTitle>Transaction History - {part.part_name}</DialogTitle>
@@ -311,6 +648,8 @@ const InventoryManagement: React.FC<InventoryManagementProps> = ({ part, onStock
                   <TableCell>Previous</TableCell>
                   <TableCell>New</TableCell>
                   <TableCell>Reason</TableCell>
+                  <TableCell>Location</TableCell>
+                  <TableCell>Lot</TableCell>
                   <TableCell>Supplier</TableCell>
                   <TableCell>Cost/Unit</TableCell>
                 </TableRow>
@@ -330,6 +669,12 @@ const InventoryManagement: React.FC<InventoryManagementProps> = ({ part, onStock
                     <TableCell>{transaction.previous_stock}</TableCell>
                     <TableCell>{transaction.new_stock}</TableCell>
                     <TableCell>{transaction.reason || '-'}</TableCell>
+                    <TableCell>
+                      {transaction.transaction_type === 'transfer'
+                        ? `${locationLabel(transaction.from_location_id, transaction.from_location_code)} → ${locationLabel(transaction.to_location_id, transaction.to_location_code)}`
+                        : transaction.to_location_code || transaction.from_location_code || '-'}
+                    </TableCell>
+                    <TableCell>{transaction.lot_number || '-'}</TableCell>
                     <TableCell>{transaction.supplier || '-'}</TableCell>
                     <TableCell>{transaction.cost_per_unit ? `€${transaction.cost_per_unit}` : '-'}</TableCell>
                   </TableRow>
@@ -342,6 +687,91 @@ const InventoryManagement: React.FC<InventoryManagementProps> = ({ part, onStock
           <Button onClick={() => setHistoryDialogOpen(false)}>Close</Button>
         </DialogActions>
       </Dialog>
+
+      {/* Lot Trace Dialog */}
+      <Dialog open={traceDialogOpen} onClose={() => setTraceDialogOpen(false)} maxWidth="md" fullWidth>
+        <DialogTitle>Lot Trace</DialogTitle>
+        <DialogContent>
+          <Box sx={{ pt: 2, display: 'flex', gap: 1, mb: 2 }}>
+            <TextField
+              fullWidth
+              size="small"
+              label="Lot or part number"
+              value={lotSearch}
+              onChange={(e) => setLotSearch(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  searchLots();
+                }
+              }}
+            />
+            <Button variant="outlined" onClick={searchLots}>Search</Button>
+          </Box>
+          {lotResults.length > 0 && (
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+              {lotResults.map((lot) => (
+                <Chip
+                  key={lot.lot_id}
+                  icon={<LotIcon />}
+                  label={`${lot.part_number} - ${lotLabel(lot)}`}
+                  size="small"
+                  color={lotTrace?.lot.lot_id === lot.lot_id ? 'primary' : 'default'}
+                  onClick={() => openTrace(lot.lot_id)}
+                />
+              ))}
+            </Box>
+          )}
+          {lotTrace && (
+            <>
+              <Typography variant="subtitle1" sx={{ mb: 1 }}>
+                {lotTrace.lot.part_number} {lotTrace.lot.part_name} - lot {lotLabel(lotTrace.lot)}
+              </Typography>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                Received {lotTrace.lot.received_quantity}, in stock {lotTrace.lot.quantity}, in orders {lotTrace.total_allocated}
+                {lotTrace.lot.supplier ? ` - supplier ${lotTrace.lot.supplier}` : ''}
+              </Typography>
+              <TableContainer component={Paper}>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Order</TableCell>
+                      <TableCell>Date</TableCell>
+                      <TableCell>Status</TableCell>
+                      <TableCell>Customer</TableCell>
+                      <TableCell>Email</TableCell>
+                      <TableCell align="right">Quantity</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {lotTrace.orders.map((order) => (
+                      <TableRow key={order.order_id}>
+                        <TableCell>{order.order_number}</TableCell>
+                        <TableCell>{order.created_at ? new Date(order.created_at).toLocaleDateString() : '-'}</TableCell>
+                        <TableCell>{order.status}</TableCell>
+                        <TableCell>
+                          {order.customer_company_name
+                            || [order.customer_first_name, order.customer_last_name].filter(Boolean).join(' ')
+                            || '-'}
+                        </TableCell>
+                        <TableCell>{order.customer_email || '-'}</TableCell>
+                        <TableCell align="right">{order.quantity}</TableCell>
+                      </TableRow>
+                    ))}
+                    {lotTrace.orders.length === 0 && (
+                      <TableRow>
+                        <TableCell colSpan={6} align="center">No orders have received units of this lot</TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setTraceDialogOpen(false)}>Close</Button>
+        </DialogActions>
+      </Dialog>
     </Box>
   );
 };
@@ -19,10 +19,11 @@ import {
   Print as PrintIcon,
   Email as EmailIcon,
   ContentCopy as CopyIcon,
+  Code as XmlIcon,
 } from '@mui/icons-material';
-import { Order } from '../services/api';
-import { SimpleInvoiceService, InvoiceData } from '../services/simpleInvoiceService';
-import { SystemSettingsService } from '../services/systemSettingsService';
+import { Order, Invoice, EInvoiceStandard } from '../services/api';
+import { SimpleInvoiceService, EInvoiceValidationError } from '../services/simpleInvoiceService';
+import { useLanguage } from '../contexts/LanguageContext';
 
 interface InvoiceGeneratorProps {
   open: boolean;
@@ -35,97 +36,62 @@ const InvoiceGenerator: React.FC<InvoiceGeneratorProps> = ({
   onClose,
   order,
 }) => {
-  const [invoiceData, setInvoiceData] = useState<InvoiceData | null>(null);
+  const { currentLanguage } = useLanguage();
+  const [invoiceData, setInvoiceData] = useState<Invoice | null>(null);
   const [loading, setLoading] = useState<boolean>(false);
   const [success, setSuccess] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [errorDetails, setErrorDetails] = useState<string[]>([]);
 
   useEffect(() => {
     if (open && order) {
-      const data = convertOrderToInvoiceData(order);
-      setInvoiceData(data);
+      setInvoiceData(null);
+      setError(null);
+      setLoading(true);
+      SimpleInvoiceService.getInvoiceForOrder(order.order_id, currentLanguage)
+        .then(setInvoiceData)
+        .catch((err) => {
+          console.error('Failed to load invoice:', err);
+          setError('Failed to load invoice');
+        })
+        .finally(() => setLoading(false));
     }
-  }, [open, order]);
-
-  const convertOrderToInvoiceData = (order: Order): InvoiceData => {
-    const settings = SystemSettingsService.getSettings();
-    const invoiceSettings = SystemSettingsService.getInvoiceSettings();
-    const companyInfo = SystemSettingsService.getCompanyInfo();
-    
-    const invoiceNumber = `${settings.invoicePrefix}-${order.order_id.toString().padStart(6, '0')}`;
-    const orderDate = order.created_at ? new Date(order.created_at).toLocaleDateString() : new Date().toLocaleDateString();
-    const dueDate = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toLocaleDateString();
-
-    return {
-      invoiceNumber,
-      orderNumber: order.order_number,
-      date: orderDate,
-      dueDate,
-      company: companyInfo,
-      customer: {
-        name: `${order.customer_first_name} ${order.customer_last_name}`,
-        company: order.company_name || '',
-        email: order.customer_email || '',
-        address: order.shipping_address || '',
-      },
-      items: order.items?.map(item => ({
-        description: item.set_name || 'Handling, Packaging & Transport',
-        quantity: item.quantity,
-        unitPrice: parseFloat(item.unit_price.toString()),
-        total: parseFloat(item.line_total.toString()),
-      })) || [],
-      subtotal: parseFloat(order.total_amount),
-      taxRate: invoiceSettings.taxRate,
-      taxAmount: parseFloat(order.total_amount) * invoiceSettings.taxRate,
-      total: parseFloat(order.total_amount) * (1 + invoiceSettings.taxRate),
-      notes: order.notes || '',
-      status: order.status,
-      paymentTerms: invoiceSettings.paymentTerms,
-    };
-  };
-
-  const handlePreview = () => {
-    if (invoiceData) {
-      const templateId = SystemSettingsService.getInvoiceSettings().template;
-      const html = SimpleInvoiceService.generateInvoiceHTML(invoiceData, templateId);
-      const previewWindow = window.open('', '_blank');
-      if (previewWindow) {
-        previewWindow.document.write(html);
-        previewWindow.document.close();
+  }, [open, order, currentLanguage]);
+
+  const runAction = async (action: (invoice: Invoice) => Promise<void>, message: string) => {
+    if (!invoiceData) return;
+    setLoading(true);
+    setError(null);
+    setErrorDetails([]);
+    try {
+      await action(invoiceData);
+      setSuccess(message);
+      setTimeout(() => setSuccess(null), 3000);
+    } catch (err) {
+      console.error('Invoice action failed:', err);
+      if (err instanceof EInvoiceValidationError) {
+        setError(err.message);
+        setErrorDetails(err.details);
+      } else {
+        setError('Invoice action failed');
       }
+    } finally {
+      setLoading(false);
     }
   };
 
-  const handleDownload = () => {
+  const handlePreview = () => {
     if (invoiceData) {
-      setLoading(true);
-      try {
-        const templateId = SystemSettingsService.getInvoiceSettings().template;
-        SimpleInvoiceService.downloadInvoice(invoiceData, templateId);
-        setSuccess('Invoice downloaded successfully!');
-        setTimeout(() => setSuccess(null), 3000);
-      } catch (error) {
-        console.error('Download failed:', error);
-      } finally {
-        setLoading(false);
-      }
+      SimpleInvoiceService.previewInvoice(invoiceData).catch((err) => console.error('Preview failed:', err));
     }
   };
 
-  const handlePrint = () => {
-    if (invoiceData) {
-      setLoading(true);
-      try {
-        const templateId = SystemSettingsService.getInvoiceSettings().template;
-        SimpleInvoiceService.printInvoice(invoiceData, templateId);
-        setSuccess('Invoice sent to printer!');
-        setTimeout(() => setSuccess(null), 3000);
-      } catch (error) {
-        console.error('Print failed:', error);
-      } finally {
-        setLoading(false);
-      }
-    }
-  };
+  const handleDownload = () => runAction((invoice) => SimpleInvoiceService.downloadInvoice(invoice), 'Invoice downloaded successfully!');
+
+  const handleEInvoice = (standard: EInvoiceStandard) =>
+    runAction((invoice) => SimpleInvoiceService.downloadEInvoice(invoice, standard), 'E-invoice downloaded successfully!');
+
+  const handlePrint = () => runAction((invoice) => SimpleInvoiceService.printInvoice(invoice), 'Invoice sent to printer!');
 
   const handleEmail = () => {
     if (invoiceData && invoiceData.customer.email) {
@@ -135,18 +101,7 @@ const InvoiceGenerator: React.FC<InvoiceGeneratorProps> = ({
     }
   };
 
-  const handleCopyToClipboard = async () => {
-    if (invoiceData) {
-      try {
-        const templateId = SystemSettingsService.getInvoiceSettings().template;
-        await SimpleInvoiceService.copyInvoiceToClipboard(invoiceData, templateId);
-        setSuccess('Invoice copied to clipboard!');
-        setTimeout(() => setSuccess(null), 3000);
-      } catch (error) {
-        console.error('Copy failed:', error);
-      }
-    }
-  };
+  const handleCopyToClipboard = () => runAction((invoice) => SimpleInvoiceService.copyInvoiceToClipboard(invoice), 'Invoice copied to clipboard!');
 
 
   if (!order) return null;
@@ -176,6 +131,18 @@ const InvoiceGenerator: React.FC<InvoiceGeneratorProps> = ({
             {success}
           </Alert>
         )}
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+            {errorDetails.length > 0 && (
+              <Box component="ul" sx={{ m: 0, mt: 1, pl: 2 }}>
+                {errorDetails.map((detail) => (
+                  <li key={detail}>{detail}</li>
+                ))}
+              </Box>
+            )}
+          </Alert>
+        )}
 
         <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
           {/* Invoice Information */}
@@ -187,12 +154,13 @@ const InvoiceGenerator: React.FC<InvoiceGeneratorProps> = ({
               <strong>Invoice #:</strong> {invoiceData?.invoiceNumber}<br/>
               <strong>Order #:</strong> {invoiceData?.orderNumber}<br/>
               <strong>Customer:</strong> {invoiceData?.customer.name}<br/>
-              <strong>Total:</strong> ${invoiceData?.total.toFixed(2)}<br/>
+              <strong>Issued:</strong> {invoiceData?.issueDate}<br/>
+              <strong>Total:</strong> €{invoiceData?.total.toFixed(2)}<br/>
               <strong>Company:</strong> {invoiceData?.company.name}<br/>
-              <strong>Template:</strong> {SystemSettingsService.getInvoiceSettings().template.charAt(0).toUpperCase() + SystemSettingsService.getInvoiceSettings().template.slice(1)}
+              <strong>Template:</strong> {invoiceData ? invoiceData.template.charAt(0).toUpperCase() + invoiceData.template.slice(1) : ''}
             </Typography>
             <Typography variant="caption" color="text.secondary" sx={{ mt: 1, display: 'block' }}>
-              Invoice template and company settings are configured by administrators in System Settings.
+              Invoices are issued once per order and cannot be changed afterwards. Template and company settings are configured by administrators in System Settings.
             </Typography>
           </Paper>
         </Box>
@@ -204,6 +172,7 @@ const InvoiceGenerator: React.FC<InvoiceGeneratorProps> = ({
         </Button>
         <Button 
           onClick={handlePreview} 
+          disabled={!invoiceData}
           startIcon={<PreviewIcon />}
           variant="outlined"
         >
@@ -211,6 +180,7 @@ const InvoiceGenerator: React.FC<InvoiceGeneratorProps> = ({
         </Button>
         <Button 
           onClick={handleCopyToClipboard} 
+          disabled={!invoiceData}
           startIcon={<CopyIcon />}
           variant="outlined"
         >
@@ -228,15 +198,31 @@ const InvoiceGenerator: React.FC<InvoiceGeneratorProps> = ({
           onClick={handlePrint} 
           startIcon={loading ? <CircularProgress size={16} /> : <PrintIcon />}
           variant="outlined"
-          disabled={loading}
+          disabled={loading || !invoiceData}
         >
           Print
         </Button>
+        <Button
+          onClick={() => handleEInvoice('e-invoice')}
+          startIcon={<XmlIcon />}
+          variant="outlined"
+          disabled={loading || !invoiceData}
+        >
+          E-invoice (EE)
+        </Button>
+        <Button
+          onClick={() => handleEInvoice('finvoice')}
+          startIcon={<XmlIcon />}
+          variant="outlined"
+          disabled={loading || !invoiceData}
+        >
+          Finvoice
+        </Button>
         <Button 
           onClick={handleDownload} 
           startIcon={loading ? <CircularProgress size={16} /> : <DownloadIcon />}
           variant="contained"
-          disabled={loading}
+          disabled={loading || !invoiceData}
         >
           Download
         </Button>
@@ -0,0 +1,163 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  MenuItem,
+  Select,
+  TextField,
+  Alert,
+  CircularProgress,
+} from '@mui/material';
+import { Print as PrintIcon } from '@mui/icons-material';
+import { labelsApi, LabelSymbology } from '../services/api';
+
+export interface LabelItem {
+  id: number;
+  code: string;
+  name?: string;
+}
+
+interface LabelPrintDialogProps {
+  open: boolean;
+  onClose: () => void;
+  type: 'parts' | 'tools';
+  items: LabelItem[];
+}
+
+/** Error message from a blob response (the API answers label errors as JSON) */
+const blobErrorMessage = async (err: any): Promise<string> => {
+  const data = err?.response?.data;
+  if (data instanceof Blob) {
+    try {
+      return JSON.parse(await data.text()).error || 'Failed to generate labels';
+    } catch {
+      return 'Failed to generate labels';
+    }
+  }
+  return data?.error || err?.message || 'Failed to generate labels';
+};
+
+const LabelPrintDialog: React.FC<LabelPrintDialogProps> = ({ open, onClose, type, items }) => {
+  // Items unticked since the dialog opened; everything else listed is selected
+  const [excluded, setExcluded] = useState<Set<number>>(new Set());
+  const [symbology, setSymbology] = useState<LabelSymbology>('code128');
+  const [copies, setCopies] = useState(1);
+  const [generating, setGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const labelItems = items.filter((item) => item.code && item.code.trim() !== '');
+  const selected = new Set(labelItems.filter((item) => !excluded.has(item.id)).map((item) => item.id));
+
+  // Start with every listed item selected each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setExcluded(new Set());
+      setError(null);
+    }
+  }, [open]);
+
+  const toggle = (id: number) => {
+    const next = new Set(excluded);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setExcluded(next);
+  };
+
+  const handleGenerate = async () => {
+    try {
+      setGenerating(true);
+      setError(null);
+      const response = await labelsApi.getSheet(type, { ids: Array.from(selected), symbology, copies });
+      const url = window.URL.createObjectURL(new Blob([response.data], { type: 'application/pdf' }));
+      window.open(url, '_blank');
+      // Keep the URL alive long enough for the new tab to load it
+      setTimeout(() => window.URL.revokeObjectURL(url), 60000);
+    } catch (err: any) {
+      console.error('Error generating labels:', err);
+      setError(await blobErrorMessage(err));
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const allSelected = labelItems.length > 0 && selected.size === labelItems.length;
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Print {type === 'parts' ? 'Part' : 'Tool'} Labels</DialogTitle>
+      <DialogContent>
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+        <Box sx={{ display: 'flex', gap: 2, mt: 1, mb: 2 }}>
+          <FormControl size="small" sx={{ minWidth: 160 }}>
+            <InputLabel>Code</InputLabel>
+            <Select
+              value={symbology}
+              label="Code"
+              onChange={(e) => setSymbology(e.target.value as LabelSymbology)}
+            >
+              <MenuItem value="code128">Code 128 barcode</MenuItem>
+              <MenuItem value="qr">QR code</MenuItem>
+            </Select>
+          </FormControl>
+          <TextField
+            size="small"
+            type="number"
+            label="Copies per label"
+            value={copies}
+            onChange={(e) => setCopies(Math.min(Math.max(parseInt(e.target.value) || 1, 1), 100))}
+            inputProps={{ min: 1, max: 100 }}
+            sx={{ width: 150 }}
+          />
+        </Box>
+        <FormControlLabel
+          control={
+            <Checkbox
+              checked={allSelected}
+              indeterminate={selected.size > 0 && !allSelected}
+              onChange={() => setExcluded(allSelected ? new Set(labelItems.map((item) => item.id)) : new Set())}
+            />
+          }
+          label={`${selected.size} of ${labelItems.length} selected (${selected.size * copies} labels)`}
+        />
+        <List dense sx={{ maxHeight: 320, overflow: 'auto', border: 1, borderColor: 'divider', borderRadius: 1 }}>
+          {labelItems.map((item) => (
+            <ListItem key={item.id} onClick={() => toggle(item.id)} sx={{ cursor: 'pointer' }}>
+              <ListItemIcon>
+                <Checkbox edge="start" checked={selected.has(item.id)} tabIndex={-1} disableRipple />
+              </ListItemIcon>
+              <ListItemText primary={item.code} secondary={item.name} />
+            </ListItem>
+          ))}
+        </List>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+        <Button
+          variant="contained"
+          startIcon={generating ? <CircularProgress size={16} /> : <PrintIcon />}
+          onClick={handleGenerate}
+          disabled={generating || selected.size === 0}
+        >
+          Generate Labels
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default LabelPrintDialog;
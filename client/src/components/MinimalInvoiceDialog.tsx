@@ -57,11 +57,11 @@ const MinimalInvoiceDialog: React.FC<MinimalInvoiceDialogProps> = ({
     switch (status.toLowerCase()) {
       case 'pending': return 'warning';
       case 'confirmed': return 'info';
-      case 'processing': return 'primary';
+      case 'in_production': return 'primary';
       case 'shipped': return 'success';
       case 'delivered': return 'success';
       case 'cancelled': return 'error';
-      case 'refunded': return 'error';
+      case 'returned': return 'error';
       default: return 'default';
     }
   };
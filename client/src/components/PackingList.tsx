@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   Box,
   Typography,
@@ -17,6 +17,7 @@ import {
   FormControlLabel,
   Switch,
   LinearProgress,
+  TextField,
 } from '@mui/material';
 import {
   Print as PrintIcon,
@@ -28,8 +29,13 @@ import {
   Description as DescriptionIcon,
   Engineering as EngineeringIcon,
   Security as SecurityIcon,
+  QrCodeScanner as ScanIcon,
+  Inventory2 as PackedIcon,
+  RestartAlt as ResetIcon,
+  Place as PlaceIcon,
+  Layers as LotIcon,
 } from '@mui/icons-material';
-import { ordersApi, PackingListItem, PackingListResponse } from '../services/api';
+import { ordersApi, PackingListItem, PackingListResponse, PackingScanResult } from '../services/api';
 import { useLanguage } from '../contexts/LanguageContext';
 
 interface PackingListProps {
@@ -43,8 +49,12 @@ const PackingList: React.FC<PackingListProps> = ({ orderId, open, onClose }) =>
   const [packingData, setPackingData] = useState<PackingListResponse | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [checkedItems, setCheckedItems] = useState<Set<number>>(new Set());
   const [showOptional, setShowOptional] = useState(true);
+  const [scanMode, setScanMode] = useState(false);
+  const [scanCode, setScanCode] = useState('');
+  const [lastScan, setLastScan] = useState<PackingScanResult | null>(null);
+  const [saving, setSaving] = useState(false);
+  const scanInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     if (open && orderId) {
@@ -73,29 +83,107 @@ const PackingList: React.FC<PackingListProps> = ({ orderId, open, onClose }) =>
     window.print();
   };
 
-  const handleItemCheck = (itemId: number) => {
-    const newChecked = new Set(checkedItems);
-    if (newChecked.has(itemId)) {
-      newChecked.delete(itemId);
-    } else {
-      newChecked.add(itemId);
+  const itemIdOf = (item: PackingListItem) => (item.type === 'part' ? item.part_id : item.tool_id);
+
+  // Apply a picked count returned by the server to the local packing list
+  const applyPick = (line: PackingListItem | null, picking: PackingListResponse['picking']) => {
+    setPackingData((current) => current && {
+      ...current,
+      picking,
+      packingList: line
+        ? current.packingList.map((item) =>
+            item.type === line.type && itemIdOf(item) === itemIdOf(line)
+              ? { ...item, picked_quantity: line.picked_quantity }
+              : item
+          )
+        : current.packingList,
+    });
+  };
+
+  // Manual fallback for items without a readable label: toggles the line between fully picked and not picked
+  const handleItemCheck = async (item: PackingListItem) => {
+    const picked = item.picked_quantity >= item.total_quantity_needed ? 0 : item.total_quantity_needed;
+    try {
+      setError(null);
+      const response = await ordersApi.setPicked(orderId, item.type, itemIdOf(item), picked);
+      applyPick(response.data.line, response.data.picking);
+    } catch (err: any) {
+      setError(err?.response?.data?.error || 'Failed to update picked quantity');
+    }
+  };
+
+  const handleScan = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const code = scanCode.trim();
+    if (!code) {
+      return;
+    }
+    setScanCode('');
+    try {
+      setError(null);
+      const response = await ordersApi.scanPacking(orderId, code);
+      setLastScan(response.data);
+      if (response.data.accepted) {
+        applyPick(response.data.line, response.data.picking);
+      }
+    } catch (err: any) {
+      setError(err?.response?.data?.error || 'Failed to record scan');
+    } finally {
+      scanInputRef.current?.focus();
     }
-    setCheckedItems(newChecked);
   };
 
-  const handleCheckAll = () => {
-    if (checkedItems.size === filteredPackingList.length) {
-      setCheckedItems(new Set());
-    } else {
-      const allItemIds = new Set(filteredPackingList.map(item => 
-        item.type === 'part' ? item.part_id : item.tool_id
-      ));
-      setCheckedItems(allItemIds);
+  const handleResetPicking = async () => {
+    if (!window.confirm('Clear all picked counts for this order?')) {
+      return;
+    }
+    try {
+      await ordersApi.resetPicking(orderId);
+      setLastScan(null);
+      await fetchPackingList();
+    } catch (err: any) {
+      setError(err?.response?.data?.error || 'Failed to reset picking');
     }
   };
 
+  const handleMarkPacked = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      const response = await ordersApi.completePacking(orderId, currentLanguage);
+      setPackingData(response.data);
+      setScanMode(false);
+    } catch (err: any) {
+      setError(err?.response?.data?.error || 'Failed to mark order packed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const scanSeverity = (scan: PackingScanResult) => {
+    if (scan.accepted) {
+      return 'success';
+    }
+    return scan.status === 'excess' ? 'warning' : 'error';
+  };
+
   const getStockStatus = (item: PackingListItem) => {
     if (item.type === 'tool') {
+      // Checked out elsewhere, overdue for maintenance or out of service
+      if (item.is_available === false) {
+        return {
+          icon: <WarningIcon />,
+          text: item.availability_reason || 'Not available',
+          color: 'error'
+        };
+      }
+      if (item.availability_status === 'checked_out_to_order') {
+        return {
+          icon: <CheckCircleIcon />,
+          text: 'Checked out for this order',
+          color: 'info'
+        };
+      }
       return {
         icon: <CheckCircleIcon />,
         text: item.condition_status || 'Unknown',
@@ -137,7 +225,8 @@ const PackingList: React.FC<PackingListProps> = ({ orderId, open, onClose }) =>
     );
   }
 
-  const { order, packingList } = packingData;
+  const { order, packingList, picking } = packingData;
+  const isPacked = Boolean(order.packed_at);
   const filteredPackingList = packingList.filter(item => 
     showOptional || !((item as any).is_optional || (item as any).is_required === false)
   );
@@ -211,15 +300,65 @@ const PackingList: React.FC<PackingListProps> = ({ orderId, open, onClose }) =>
               }
               label="Show Optional Items"
             />
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={scanMode}
+                  disabled={isPacked}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setScanMode(e.target.checked)}
+                />
+              }
+              label="Scan Mode"
+            />
             <Button
               variant="outlined"
-              onClick={handleCheckAll}
+              startIcon={<ResetIcon />}
+              onClick={handleResetPicking}
+              disabled={picking.picked_units === 0 && !isPacked}
             >
-              {checkedItems.size === filteredPackingList.length ? 'Uncheck All' : 'Check All'}
+              Reset Picking
             </Button>
           </Box>
         </Box>
 
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        {isPacked && (
+          <Alert severity="success" icon={<PackedIcon />} sx={{ mb: 2 }}>
+            Order packed on {new Date(order.packed_at as string).toLocaleString()}
+          </Alert>
+        )}
+
+        {/* Scanner input: a barcode scanner types the code and presses Enter */}
+        {scanMode && !isPacked && (
+          <Card sx={{ mb: 2, p: 2 }}>
+            <Box component="form" onSubmit={handleScan} sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+              <ScanIcon color="primary" />
+              <TextField
+                inputRef={scanInputRef}
+                autoFocus
+                fullWidth
+                size="small"
+                label="Scan part or tool code"
+                value={scanCode}
+                onChange={(e) => setScanCode(e.target.value)}
+              />
+              <Button type="submit" variant="contained" disabled={!scanCode.trim()}>
+                Add
+              </Button>
+            </Box>
+            {lastScan && (
+              <Alert severity={scanSeverity(lastScan)} sx={{ mt: 2 }}>
+                {lastScan.message}
+              </Alert>
+            )}
+          </Card>
+        )}
+
         {/* Progress Summary */}
         <Card sx={{ mb: 2, p: 2 }}>
           <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
@@ -228,11 +367,12 @@ const PackingList: React.FC<PackingListProps> = ({ orderId, open, onClose }) =>
             </Typography>
             <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
               <Typography variant="body2" color="text.secondary">
-                {checkedItems.size} of {filteredPackingList.length} items packed
+                {picking.completed_required_lines} of {picking.required_lines} required lines picked
+                ({picking.picked_units} / {picking.needed_units} units)
               </Typography>
               <LinearProgress 
                 variant="determinate" 
-                value={(checkedItems.size / filteredPackingList.length) * 100} 
+                value={picking.needed_units > 0 ? (picking.picked_units / picking.needed_units) * 100 : 0} 
                 sx={{ width: 200 }}
               />
             </Box>
@@ -265,9 +405,10 @@ const PackingList: React.FC<PackingListProps> = ({ orderId, open, onClose }) =>
         {/* Compact Checklist */}
         <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
           {filteredPackingList.map((item) => {
-            const itemId = item.type === 'part' ? item.part_id : item.tool_id;
+            const itemId = itemIdOf(item);
             const stockStatus = getStockStatus(item);
-            const isChecked = checkedItems.has(itemId);
+            const isChecked = item.picked_quantity >= item.total_quantity_needed;
+            const isPartlyPicked = item.picked_quantity > 0 && !isChecked;
 
             return (
               <Card 
@@ -283,7 +424,9 @@ const PackingList: React.FC<PackingListProps> = ({ orderId, open, onClose }) =>
                 <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
                   <Checkbox
                     checked={isChecked}
-                    onChange={() => handleItemCheck(itemId)}
+                    indeterminate={isPartlyPicked}
+                    disabled={isPacked}
+                    onChange={() => handleItemCheck(item)}
                     color="success"
                     sx={{ '&.Mui-checked': { color: 'success.main' } }}
                   />
@@ -302,8 +445,8 @@ const PackingList: React.FC<PackingListProps> = ({ orderId, open, onClose }) =>
                       <Typography variant="body1" sx={{ flex: 1 }}>
                         {item.type === 'part' ? item.part_name : item.tool_name}
                       </Typography>
-                      <Typography variant="h6" fontWeight="bold" color="primary">
-                        Qty: {item.total_quantity_needed}
+                      <Typography variant="h6" fontWeight="bold" color={isChecked ? 'success.main' : 'primary'}>
+                        Picked: {item.picked_quantity} / {item.total_quantity_needed}
                       </Typography>
                     </Box>
                     
@@ -327,6 +470,43 @@ const PackingList: React.FC<PackingListProps> = ({ orderId, open, onClose }) =>
                       )}
                     </Box>
 
+                    {/* Where to pick the part from, in pick order */}
+                    {item.type === 'part' && item.pick_locations && item.pick_locations.length > 0 && (
+                      <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', alignItems: 'center', mb: 1 }}>
+                        <Typography variant="body2" color="text.secondary">Pick from:</Typography>
+                        {item.pick_locations.map((pick) => (
+                          <Chip
+                            key={pick.location_id ?? 'unassigned'}
+                            icon={<PlaceIcon />}
+                            label={`${pick.code ? `${pick.code} · ` : ''}${pick.path}: ${pick.quantity}`}
+                            size="small"
+                            color={pick.location_id ? 'info' : 'default'}
+                            variant="outlined"
+                          />
+                        ))}
+                        {item.short_quantity > 0 && (
+                          <Chip label={`Short: ${item.short_quantity}`} size="small" color="error" variant="outlined" />
+                        )}
+                      </Box>
+                    )}
+
+                    {/* Lots this order's units were taken from (first-expired-first-out) */}
+                    {item.type === 'part' && item.lots && item.lots.length > 0 && (
+                      <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', alignItems: 'center', mb: 1 }}>
+                        <Typography variant="body2" color="text.secondary">Lots:</Typography>
+                        {item.lots.map((lot) => (
+                          <Chip
+                            key={lot.lot_id}
+                            icon={<LotIcon />}
+                            label={`${lot.lot_number}${lot.expiry_date ? ` (exp. ${lot.expiry_date})` : ''}: ${lot.quantity}`}
+                            size="small"
+                            color="secondary"
+                            variant="outlined"
+                          />
+                        ))}
+                      </Box>
+                    )}
+
                     {/* Used In Sets - Compact */}
                     <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
                       {item.used_in_sets.map((set, index) => (
@@ -393,12 +573,24 @@ const PackingList: React.FC<PackingListProps> = ({ orderId, open, onClose }) =>
       <DialogActions>
         <Button onClick={onClose}>Close</Button>
         <Button 
-          variant="contained" 
+          variant="outlined" 
           startIcon={<PrintIcon />}
           onClick={handlePrint}
         >
           Print
         </Button>
+        {!isPacked && (
+          <Button
+            variant="contained"
+            color="success"
+            startIcon={saving ? <CircularProgress size={16} /> : <PackedIcon />}
+            onClick={handleMarkPacked}
+            disabled={saving || !picking.complete}
+            title={picking.complete ? '' : `${picking.missing.length} required line(s) not fully picked`}
+          >
+            Mark as Packed
+          </Button>
+        )}
       </DialogActions>
     </Dialog>
   );
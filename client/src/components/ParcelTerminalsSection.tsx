@@ -0,0 +1,211 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box, Typography, Card, CardContent, Button, Table, TableHead, TableRow, TableCell, TableBody,
+  CircularProgress, Alert, TextField, FormControlLabel, Switch,
+} from '@mui/material';
+import {
+  Refresh as RefreshIcon,
+  Upload as UploadIcon,
+  PictureAsPdf as PdfIcon,
+} from '@mui/icons-material';
+import {
+  shippingApi,
+  ParcelTerminalSummary,
+  ShippingManifest,
+} from '../services/api';
+import { renderError } from '../utils/errorUtils';
+
+/**
+ * Parcel terminal lists imported from the carriers' downloads (checkout
+ * offers terminal rates from them) and the daily shipping manifests of the
+ * parcels production has booked.
+ */
+const ParcelTerminalsSection: React.FC = () => {
+  const [summary, setSummary] = useState<ParcelTerminalSummary[]>([]);
+  const [manifests, setManifests] = useState<ShippingManifest[]>([]);
+  const [carriers, setCarriers] = useState<Array<{ key: string; name: string }>>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [carrier, setCarrier] = useState('Omniva');
+  const [country, setCountry] = useState('');
+  const [replace, setReplace] = useState(true);
+  const [file, setFile] = useState<File | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [summaryResponse, manifestsResponse] = await Promise.all([
+        shippingApi.getTerminalSummary(),
+        shippingApi.getManifests(),
+      ]);
+      setSummary(summaryResponse.data.summary || []);
+      setManifests(manifestsResponse.data.manifests || []);
+      setCarriers(manifestsResponse.data.carriers || []);
+    } catch (err) {
+      setError(renderError(err));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const importTerminals = async () => {
+    if (!file) return;
+    setImporting(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const content = await file.text();
+      const response = await shippingApi.importTerminals({ carrier, content, country: country || undefined, replace });
+      const { imported, deactivated, skipped } = response.data;
+      setSuccess(`Imported ${imported} ${carrier} terminals`
+        + (deactivated ? `, deactivated ${deactivated} no longer listed` : '')
+        + (skipped ? `, skipped ${skipped} rows (post offices or rows without a code)` : ''));
+      setFile(null);
+      await load();
+    } catch (err) {
+      setError(renderError(err));
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const openManifest = async (manifest: ShippingManifest) => {
+    try {
+      const response = await shippingApi.getManifestPdf(manifest.manifest_id);
+      const url = window.URL.createObjectURL(new Blob([response.data], { type: 'application/pdf' }));
+      window.open(url, '_blank');
+      // Keep the URL alive long enough for the new tab to load it
+      setTimeout(() => window.URL.revokeObjectURL(url), 60000);
+    } catch (err) {
+      setError(renderError(err));
+    }
+  };
+
+  return (
+    <Card sx={{ mt: 3 }}>
+      <CardContent>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
+          <Typography variant="h6" sx={{ flex: 1 }}>Parcel Terminals & Manifests</Typography>
+          <Button variant="outlined" startIcon={<RefreshIcon />} onClick={load} disabled={loading}>
+            Refresh
+          </Button>
+        </Box>
+
+        {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>{error}</Alert>}
+        {success && <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess(null)}>{success}</Alert>}
+        {loading && <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}><CircularProgress size={24} /></Box>}
+
+        <Typography variant="subtitle1" fontWeight={600} sx={{ mb: 1 }}>Import a terminal list</Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Omniva's locations JSON, or a JSON / CSV file with the columns code, name, address, city, postal_code and
+          country. The carrier name must match the carrier of the parcel terminal rates.
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap', mb: 3 }}>
+          <TextField label="Carrier" size="small" value={carrier} onChange={(e) => setCarrier(e.target.value)} required />
+          <TextField
+            label="Country"
+            size="small"
+            value={country}
+            onChange={(e) => setCountry(e.target.value.toUpperCase())}
+            helperText="For rows without a country"
+            sx={{ width: 140 }}
+          />
+          <Button variant="outlined" component="label" startIcon={<UploadIcon />}>
+            {file ? file.name : 'Choose file'}
+            <input
+              type="file"
+              hidden
+              accept=".json,.csv,.txt"
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+            />
+          </Button>
+          <FormControlLabel
+            control={<Switch checked={replace} onChange={(e) => setReplace(e.target.checked)} />}
+            label="Deactivate terminals missing from the list"
+          />
+          <Button variant="contained" onClick={importTerminals} disabled={!file || !carrier.trim() || importing}>
+            {importing ? 'Importing…' : 'Import'}
+          </Button>
+        </Box>
+
+        <Table size="small" sx={{ mb: 3 }}>
+          <TableHead>
+            <TableRow>
+              <TableCell>Carrier</TableCell>
+              <TableCell>Country</TableCell>
+              <TableCell align="right">Active</TableCell>
+              <TableCell align="right">Total</TableCell>
+              <TableCell>Last import</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {summary.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={5}>
+                  <Typography variant="body2" color="text.secondary">
+                    No terminals imported: parcel terminal rates are not offered at checkout
+                  </Typography>
+                </TableCell>
+              </TableRow>
+            )}
+            {summary.map(row => (
+              <TableRow key={`${row.carrier}-${row.country}`}>
+                <TableCell>{row.carrier}</TableCell>
+                <TableCell>{row.country}</TableCell>
+                <TableCell align="right">{row.active}</TableCell>
+                <TableCell align="right">{row.total}</TableCell>
+                <TableCell>{new Date(row.updated_at).toLocaleString()}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <Typography variant="subtitle1" fontWeight={600} sx={{ mb: 1 }}>Shipping manifests</Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+          Parcels shipped from the production dashboard are listed on the day's manifest for the carrier to sign on pickup.
+          {carriers.length > 0 && ` Carrier integration: ${carriers.map(c => c.name).join(', ')}.`}
+        </Typography>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Manifest</TableCell>
+              <TableCell>Date</TableCell>
+              <TableCell align="right">Parcels</TableCell>
+              <TableCell />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {manifests.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={4}>
+                  <Typography variant="body2" color="text.secondary">No parcels shipped yet</Typography>
+                </TableCell>
+              </TableRow>
+            )}
+            {manifests.map(manifest => (
+              <TableRow key={manifest.manifest_id}>
+                <TableCell>{manifest.manifest_number}</TableCell>
+                <TableCell>{manifest.manifest_date}</TableCell>
+                <TableCell align="right">{manifest.shipment_count}</TableCell>
+                <TableCell align="right">
+                  <Button size="small" startIcon={<PdfIcon />} onClick={() => openManifest(manifest)}>
+                    PDF
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ParcelTerminalsSection;
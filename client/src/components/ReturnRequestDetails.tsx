@@ -0,0 +1,146 @@
+import React from 'react';
+import {
+  Box,
+  Typography,
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  List,
+  ListItem,
+  ListItemText,
+} from '@mui/material';
+import { ReturnRequest, ReturnStatus, ReturnReason, ReturnResolution } from '../services/api';
+
+export const RETURN_REASON_LABELS: Record<ReturnReason, string> = {
+  missing_part: 'Missing part',
+  damaged: 'Damaged',
+  wrong_item: 'Wrong item',
+  not_needed: 'No longer needed',
+  other: 'Other',
+};
+
+export const RETURN_RESOLUTION_LABELS: Record<ReturnResolution, string> = {
+  replacement: 'Replacement shipment',
+  refund: 'Refund',
+  restock: 'Restock',
+};
+
+export const RETURN_STATUS_LABELS: Record<ReturnStatus, string> = {
+  requested: 'Waiting for review',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+export const returnStatusColor = (status: ReturnStatus) => {
+  switch (status) {
+    case 'requested': return 'info';
+    case 'approved': return 'warning';
+    case 'completed': return 'success';
+    case 'rejected': return 'error';
+    default: return 'default';
+  }
+};
+
+interface ReturnRequestDetailsProps {
+  request: ReturnRequest;
+  /** Name the people in the history by role only (the customer's view) */
+  customerView?: boolean;
+}
+
+/**
+ * A return request as both the customer and production see it: what was
+ * reported, the photos, how it was resolved and its status history.
+ */
+const ReturnRequestDetails: React.FC<ReturnRequestDetailsProps> = ({ request, customerView = false }) => {
+  const changedBy = (entry: ReturnRequest['history'][number]) => {
+    if (!entry.changed_by) return 'System';
+    if (entry.changed_by === request.customer_id) return customerView ? 'You' : 'Customer';
+    if (customerView) return 'MakerLab';
+    return [entry.first_name, entry.last_name].filter(Boolean).join(' ') || `User ${entry.changed_by}`;
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', flexWrap: 'wrap', mb: 1 }}>
+        <Chip label={RETURN_STATUS_LABELS[request.status]} color={returnStatusColor(request.status) as any} size="small" />
+        <Typography variant="body2">{RETURN_REASON_LABELS[request.reason]}</Typography>
+        {request.resolution && (
+          <Typography variant="body2" color="text.secondary">
+            · {RETURN_RESOLUTION_LABELS[request.resolution]}
+            {request.resolution === 'refund' && request.restock ? ' (parts restocked)' : ''}
+          </Typography>
+        )}
+      </Box>
+      {request.description && (
+        <Typography variant="body2" sx={{ mb: 1, whiteSpace: 'pre-line' }}>{request.description}</Typography>
+      )}
+
+      <Table size="small" sx={{ mb: 2 }}>
+        <TableHead>
+          <TableRow>
+            <TableCell>Reported</TableCell>
+            <TableCell align="right">Quantity</TableCell>
+            {request.lines.some(line => line.amount !== null) && <TableCell align="right">Refund</TableCell>}
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {request.lines.map(line => (
+            <TableRow key={line.line_id}>
+              <TableCell>
+                {line.description}
+                <Typography variant="caption" color="text.secondary" sx={{ ml: 1 }}>
+                  {line.line_type === 'part' ? `Part ${line.part_number || line.part_id}` : 'Set'}
+                </Typography>
+              </TableCell>
+              <TableCell align="right">{line.quantity}</TableCell>
+              {request.lines.some(l => l.amount !== null) && (
+                <TableCell align="right">{line.amount !== null ? `€${Number(line.amount).toFixed(2)}` : 'Invoiced price'}</TableCell>
+              )}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {request.photos.length > 0 && (
+        <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 2 }}>
+          {request.photos.map(photo => (
+            <Box
+              key={photo.media_id}
+              component="img"
+              src={photo.file_url}
+              alt={`Photo for ${request.return_number}`}
+              onClick={() => window.open(photo.file_url, '_blank')}
+              sx={{ width: 96, height: 96, objectFit: 'cover', borderRadius: 1, cursor: 'pointer', border: 1, borderColor: 'divider' }}
+            />
+          ))}
+        </Box>
+      )}
+
+      {(request.tracking_number || request.credit_note_number) && (
+        <Typography variant="body2" sx={{ mb: 1 }}>
+          {request.tracking_number && <>Replacement tracking number: <strong>{request.tracking_number}</strong></>}
+          {request.credit_note_number && <>Credit note: <strong>{request.credit_note_number}</strong></>}
+        </Typography>
+      )}
+
+      <Typography variant="subtitle2" sx={{ mt: 1 }}>History</Typography>
+      <List dense disablePadding>
+        {request.history.map(entry => (
+          <ListItem key={entry.history_id} disableGutters>
+            <ListItemText
+              primary={`${RETURN_STATUS_LABELS[entry.new_status]} — ${changedBy(entry)}`}
+              secondary={[new Date(entry.changed_at).toLocaleString(), entry.notes].filter(Boolean).join(' · ')}
+            />
+          </ListItem>
+        ))}
+      </List>
+    </Box>
+  );
+};
+
+export default ReturnRequestDetails;
@@ -0,0 +1,294 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Alert,
+  CircularProgress,
+  TextField,
+  Checkbox,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  IconButton,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+} from '@mui/material';
+import { Close as CloseIcon, PhotoCamera as PhotoIcon } from '@mui/icons-material';
+import {
+  Order,
+  ReturnableLine,
+  ReturnReason,
+  ReturnRequest,
+  returnsApi,
+  mediaApi,
+} from '../services/api';
+import { useLanguage } from '../contexts/LanguageContext';
+import { renderError } from '../utils/errorUtils';
+import { RETURN_REASON_LABELS } from './ReturnRequestDetails';
+
+interface ReturnRequestDialogProps {
+  open: boolean;
+  onClose: () => void;
+  order: Order | null;
+  onSubmitted?: (request: ReturnRequest) => void;
+}
+
+interface Photo {
+  media_id: number;
+  file_url: string;
+  name: string;
+}
+
+const MAX_PHOTOS = 10;
+const lineKey = (line: Pick<ReturnableLine, 'type' | 'id'>) => `${line.type}:${line.id}`;
+
+/**
+ * Report a problem with a shipped order: whole sets or single parts from
+ * the packing list, a reason and photos. Production reviews the request.
+ */
+const ReturnRequestDialog: React.FC<ReturnRequestDialogProps> = ({
+  open,
+  onClose,
+  order,
+  onSubmitted,
+}) => {
+  const { currentLanguage } = useLanguage();
+  const [lines, setLines] = useState<ReturnableLine[]>([]);
+  const [reasons, setReasons] = useState<ReturnReason[]>([]);
+  const [selected, setSelected] = useState<Record<string, string>>({});
+  const [reason, setReason] = useState<ReturnReason | ''>('');
+  const [description, setDescription] = useState('');
+  const [photos, setPhotos] = useState<Photo[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || !order) return;
+    setSelected({});
+    setReason('');
+    setDescription('');
+    setPhotos([]);
+    setError(null);
+    setLoading(true);
+    returnsApi.getReturnable(order.order_id, currentLanguage)
+      .then(response => {
+        setLines(response.data.lines);
+        setReasons(response.data.reasons);
+      })
+      .catch(err => {
+        setLines([]);
+        setError(renderError(err));
+      })
+      .finally(() => setLoading(false));
+  }, [open, order, currentLanguage]);
+
+  const toggleLine = (line: ReturnableLine) => {
+    setSelected(prev => {
+      const next = { ...prev };
+      if (next[lineKey(line)] !== undefined) {
+        delete next[lineKey(line)];
+      } else {
+        next[lineKey(line)] = '1';
+      }
+      return next;
+    });
+  };
+
+  const uploadPhotos = async (files: FileList | null) => {
+    if (!files) return;
+    const room = MAX_PHOTOS - photos.length;
+    setUploading(true);
+    setError(null);
+    try {
+      for (const file of Array.from(files).slice(0, room)) {
+        const response = await mediaApi.upload(file, undefined, undefined, 'return_photo');
+        setPhotos(prev => [...prev, { media_id: response.data.media_id, file_url: response.data.file_url, name: file.name }]);
+      }
+    } catch (err) {
+      setError(renderError(err));
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const chosen = lines.filter(line => selected[lineKey(line)] !== undefined);
+  const invalid = chosen.some(line => {
+    const quantity = Number(selected[lineKey(line)]);
+    return !Number.isInteger(quantity) || quantity < 1 || quantity > line.returnable_quantity;
+  });
+
+  const submit = async () => {
+    if (!order || !reason) return;
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await returnsApi.create({
+        order_id: order.order_id,
+        reason,
+        description: description.trim() || undefined,
+        lines: chosen.map(line => ({ type: line.type, id: line.id, quantity: Number(selected[lineKey(line)]) })),
+        photo_ids: photos.map(photo => photo.media_id),
+      });
+      onSubmitted?.(response.data.request);
+      onClose();
+    } catch (err) {
+      setError(renderError(err));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const renderLines = (type: ReturnableLine['type'], title: string) => {
+    const ofType = lines.filter(line => line.type === type);
+    if (ofType.length === 0) return null;
+    return (
+      <Box sx={{ mb: 2 }}>
+        <Typography variant="subtitle1" fontWeight={600}>{title}</Typography>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell padding="checkbox" />
+              <TableCell>{type === 'item' ? 'Set' : 'Part'}</TableCell>
+              <TableCell align="right">In order</TableCell>
+              <TableCell align="right" sx={{ width: 120 }}>Quantity</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {ofType.map(line => {
+              const key = lineKey(line);
+              const checked = selected[key] !== undefined;
+              return (
+                <TableRow key={key}>
+                  <TableCell padding="checkbox">
+                    <Checkbox checked={checked} onChange={() => toggleLine(line)} disabled={line.returnable_quantity === 0} />
+                  </TableCell>
+                  <TableCell>
+                    <Typography variant="body2">{line.description}</Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      {type === 'part'
+                        ? [line.part_number, line.used_in_sets?.length ? `in ${Array.from(new Set(line.used_in_sets)).join(', ')}` : null].filter(Boolean).join(' · ')
+                        : line.order_number}
+                      {line.claimed_quantity > 0 && ` · ${line.claimed_quantity} already reported`}
+                    </Typography>
+                  </TableCell>
+                  <TableCell align="right">{line.quantity}</TableCell>
+                  <TableCell align="right">
+                    <TextField
+                      size="small"
+                      type="number"
+                      value={checked ? selected[key] : ''}
+                      disabled={!checked}
+                      onChange={(e) => setSelected(prev => ({ ...prev, [key]: e.target.value }))}
+                      inputProps={{ min: 1, max: line.returnable_quantity, step: 1 }}
+                      error={checked && (Number(selected[key]) < 1 || Number(selected[key]) > line.returnable_quantity)}
+                    />
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </Box>
+    );
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <Typography variant="h6">Report a problem - {order?.order_number}</Typography>
+          <IconButton onClick={onClose}>
+            <CloseIcon />
+          </IconButton>
+        </Box>
+      </DialogTitle>
+      <DialogContent>
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}><CircularProgress /></Box>
+        ) : lines.length === 0 ? (
+          !error && <Alert severity="info">Problems can be reported once the order has been shipped.</Alert>
+        ) : (
+          <>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              Select whole sets to return, or single parts from the packing list that are missing or damaged.
+            </Typography>
+            {renderLines('item', 'Sets')}
+            {renderLines('part', 'Parts')}
+
+            <FormControl fullWidth size="small" sx={{ mb: 2 }} required>
+              <InputLabel>Reason</InputLabel>
+              <Select value={reason} label="Reason" onChange={(e) => setReason(e.target.value as ReturnReason)}>
+                {reasons.map(value => (
+                  <MenuItem key={value} value={value}>{RETURN_REASON_LABELS[value]}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <TextField
+              label="What happened?"
+              fullWidth
+              multiline
+              minRows={2}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              required={reason === 'other'}
+              sx={{ mb: 2 }}
+            />
+
+            <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', flexWrap: 'wrap' }}>
+              <Button
+                variant="outlined"
+                component="label"
+                startIcon={uploading ? <CircularProgress size={18} /> : <PhotoIcon />}
+                disabled={uploading || photos.length >= MAX_PHOTOS}
+              >
+                Add photos
+                <input type="file" hidden multiple accept="image/*" onChange={(e) => uploadPhotos(e.target.files)} />
+              </Button>
+              {photos.map(photo => (
+                <Box key={photo.media_id} sx={{ position: 'relative' }}>
+                  <Box
+                    component="img"
+                    src={photo.file_url}
+                    alt={photo.name}
+                    sx={{ width: 64, height: 64, objectFit: 'cover', borderRadius: 1, border: 1, borderColor: 'divider' }}
+                  />
+                  <IconButton
+                    size="small"
+                    onClick={() => setPhotos(prev => prev.filter(p => p.media_id !== photo.media_id))}
+                    sx={{ position: 'absolute', top: -8, right: -8, bgcolor: 'background.paper' }}
+                  >
+                    <CloseIcon fontSize="small" />
+                  </IconButton>
+                </Box>
+              ))}
+            </Box>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          variant="contained"
+          onClick={submit}
+          disabled={submitting || uploading || chosen.length === 0 || invalid || !reason || (reason === 'other' && !description.trim())}
+        >
+          {submitting ? 'Sending…' : 'Send request'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ReturnRequestDialog;
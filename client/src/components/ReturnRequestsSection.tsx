@@ -0,0 +1,289 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Typography,
+  Card,
+  CardContent,
+  Button,
+  Table,
+  TableHead,
+  TableRow,
+  TableCell,
+  TableBody,
+  Chip,
+  CircularProgress,
+  Alert,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  FormControlLabel,
+  Switch,
+  ToggleButton,
+  ToggleButtonGroup,
+} from '@mui/material';
+import { Refresh as RefreshIcon, PictureAsPdf as PdfIcon } from '@mui/icons-material';
+import { returnsApi, ReturnRequest, ReturnResolution } from '../services/api';
+import { renderError } from '../utils/errorUtils';
+import ReturnRequestDetails, {
+  RETURN_REASON_LABELS,
+  RETURN_RESOLUTION_LABELS,
+  RETURN_STATUS_LABELS,
+  returnStatusColor,
+} from './ReturnRequestDetails';
+
+const COMPLETE_LABELS: Record<ReturnResolution, string> = {
+  replacement: 'Ship Replacement',
+  refund: 'Issue Credit Note',
+  restock: 'Restock Returned Parts',
+};
+
+/**
+ * Return requests from customers for production: approve with a
+ * replacement, refund or restock, or reject with a reason, then complete
+ * the approved ones once the resolution is carried out.
+ */
+const ReturnRequestsSection: React.FC = () => {
+  const [requests, setRequests] = useState<ReturnRequest[]>([]);
+  const [filter, setFilter] = useState<'open' | 'all'>('open');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<ReturnRequest | null>(null);
+  const [resolution, setResolution] = useState<ReturnResolution | ''>('');
+  const [restock, setRestock] = useState(false);
+  const [amounts, setAmounts] = useState<Record<number, string>>({});
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [dialogError, setDialogError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await returnsApi.getAll();
+      setRequests(response.data.requests);
+    } catch (err) {
+      setError(renderError(err));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const openRequest = (request: ReturnRequest) => {
+    setSelected(request);
+    setResolution(request.resolution || '');
+    setRestock(false);
+    setAmounts({});
+    setNotes('');
+    setDialogError(null);
+  };
+
+  const updateStatus = async (status: 'approved' | 'rejected' | 'completed') => {
+    if (!selected) return;
+    setSaving(true);
+    setDialogError(null);
+    try {
+      const response = await returnsApi.updateStatus(selected.return_id, {
+        status,
+        notes: notes.trim() || undefined,
+        ...(status === 'approved' ? {
+          resolution: resolution || undefined,
+          restock,
+          amounts: Object.entries(amounts)
+            .filter(([, amount]) => amount !== '')
+            .map(([lineId, amount]) => ({ line_id: Number(lineId), amount: Number(amount) })),
+        } : {}),
+      });
+      const updated = response.data.request;
+      setRequests(prev => prev.map(r => (r.return_id === updated.return_id ? updated : r)));
+      openRequest(updated);
+    } catch (err) {
+      setDialogError(renderError(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openLabel = async (request: ReturnRequest) => {
+    try {
+      const response = await returnsApi.getLabel(request.return_id);
+      const url = window.URL.createObjectURL(new Blob([response.data], { type: 'application/pdf' }));
+      window.open(url, '_blank');
+      // Keep the URL alive long enough for the new tab to load it
+      setTimeout(() => window.URL.revokeObjectURL(url), 60000);
+    } catch (err) {
+      setDialogError(renderError(err));
+    }
+  };
+
+  const shown = filter === 'open'
+    ? requests.filter(r => r.status === 'requested' || r.status === 'approved')
+    : requests;
+  const waiting = requests.filter(r => r.status === 'requested').length;
+
+  return (
+    <Card sx={{ mb: 4 }}>
+      <CardContent>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
+          <Typography variant="h6" sx={{ flex: 1 }}>
+            Return Requests {waiting > 0 && <Chip label={`${waiting} to review`} color="info" size="small" sx={{ ml: 1 }} />}
+          </Typography>
+          <ToggleButtonGroup size="small" exclusive value={filter} onChange={(e, value) => value && setFilter(value)}>
+            <ToggleButton value="open">Open</ToggleButton>
+            <ToggleButton value="all">All</ToggleButton>
+          </ToggleButtonGroup>
+          <Button variant="outlined" startIcon={<RefreshIcon />} onClick={load} disabled={loading}>
+            Refresh
+          </Button>
+        </Box>
+
+        {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>{error}</Alert>}
+        {loading && <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}><CircularProgress size={24} /></Box>}
+
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Request</TableCell>
+              <TableCell>Customer</TableCell>
+              <TableCell>Reason</TableCell>
+              <TableCell align="right">Lines</TableCell>
+              <TableCell>Status</TableCell>
+              <TableCell>Submitted</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {!loading && shown.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6}>
+                  <Typography variant="body2" color="text.secondary">
+                    {filter === 'open' ? 'No open return requests' : 'No return requests yet'}
+                  </Typography>
+                </TableCell>
+              </TableRow>
+            )}
+            {shown.map(request => (
+              <TableRow key={request.return_id} hover sx={{ cursor: 'pointer' }} onClick={() => openRequest(request)}>
+                <TableCell>
+                  <Typography variant="body2" fontWeight={600}>{request.return_number}</Typography>
+                </TableCell>
+                <TableCell>
+                  {[request.customer_first_name, request.customer_last_name].filter(Boolean).join(' ') || request.customer_email}
+                </TableCell>
+                <TableCell>{RETURN_REASON_LABELS[request.reason]}</TableCell>
+                <TableCell align="right">{request.lines.length}</TableCell>
+                <TableCell>
+                  <Chip label={RETURN_STATUS_LABELS[request.status]} color={returnStatusColor(request.status) as any} size="small" />
+                </TableCell>
+                <TableCell>{new Date(request.created_at).toLocaleDateString()}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <Dialog open={Boolean(selected)} onClose={() => setSelected(null)} maxWidth="md" fullWidth>
+        {selected && (
+          <>
+            <DialogTitle>
+              {selected.return_number}
+              <Typography variant="body2" color="text.secondary">
+                Order {selected.order_number} · {selected.customer_email}
+              </Typography>
+            </DialogTitle>
+            <DialogContent>
+              {dialogError && <Alert severity="error" sx={{ mb: 2 }}>{dialogError}</Alert>}
+              <ReturnRequestDetails request={selected} />
+
+              {selected.allowed_transitions.includes('approved') && (
+                <Box sx={{ mt: 2 }}>
+                  <FormControl fullWidth size="small" sx={{ mb: 2 }}>
+                    <InputLabel>Resolution</InputLabel>
+                    <Select
+                      value={resolution}
+                      label="Resolution"
+                      onChange={(e) => setResolution(e.target.value as ReturnResolution)}
+                    >
+                      {selected.allowed_resolutions.map(value => (
+                        <MenuItem key={value} value={value}>{RETURN_RESOLUTION_LABELS[value]}</MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                  {!selected.allowed_resolutions.includes('refund') && (
+                    <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 2 }}>
+                      Single parts cannot be refunded: credit notes credit whole sets.
+                    </Typography>
+                  )}
+                  {resolution === 'refund' && (
+                    <Box sx={{ mb: 2 }}>
+                      {selected.lines.map(line => (
+                        <TextField
+                          key={line.line_id}
+                          label={`Refund for ${line.quantity} × ${line.description} (€)`}
+                          size="small"
+                          type="number"
+                          value={amounts[line.line_id] ?? ''}
+                          onChange={(e) => setAmounts(prev => ({ ...prev, [line.line_id]: e.target.value }))}
+                          helperText="Leave empty to refund the invoiced price"
+                          inputProps={{ min: 0.01, step: 0.01 }}
+                          sx={{ mb: 1, mr: 1, minWidth: 280 }}
+                        />
+                      ))}
+                      <FormControlLabel
+                        control={<Switch checked={restock} onChange={(e) => setRestock(e.target.checked)} />}
+                        label="Put the returned sets' parts back to stock"
+                      />
+                    </Box>
+                  )}
+                </Box>
+              )}
+              {selected.allowed_transitions.length > 0 && (
+                <TextField
+                  label={selected.allowed_transitions.includes('rejected') ? 'Message to the customer (required to reject)' : 'Notes'}
+                  fullWidth
+                  multiline
+                  minRows={2}
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  sx={{ mt: 2 }}
+                />
+              )}
+            </DialogContent>
+            <DialogActions>
+              {selected.has_label && (
+                <Button startIcon={<PdfIcon />} onClick={() => openLabel(selected)}>Label</Button>
+              )}
+              <Box sx={{ flex: 1 }} />
+              <Button onClick={() => setSelected(null)}>Close</Button>
+              {selected.allowed_transitions.includes('rejected') && (
+                <Button color="error" onClick={() => updateStatus('rejected')} disabled={saving || !notes.trim()}>
+                  Reject
+                </Button>
+              )}
+              {selected.allowed_transitions.includes('approved') && (
+                <Button variant="contained" onClick={() => updateStatus('approved')} disabled={saving || !resolution}>
+                  Approve
+                </Button>
+              )}
+              {selected.allowed_transitions.includes('completed') && selected.resolution && (
+                <Button variant="contained" color="success" onClick={() => updateStatus('completed')} disabled={saving}>
+                  {saving ? 'Working…' : COMPLETE_LABELS[selected.resolution]}
+                </Button>
+              )}
+            </DialogActions>
+          </>
+        )}
+      </Dialog>
+    </Card>
+  );
+};
+
+export default ReturnRequestsSection;
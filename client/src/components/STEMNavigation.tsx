@@ -44,6 +44,8 @@ import {
   ExpandLess,
   ExpandMore,
   Inventory as InventoryIcon,
+  FactCheck as StocktakeIcon,
+  Warehouse as StorageLocationIcon,
   ShoppingCart as CartIcon,
   People as PeopleIcon,
   Assessment as ReportsIcon,
@@ -155,6 +157,20 @@ const STEMNavigation: React.FC<STEMNavigationProps> = ({
           path: '/parts',
           roles: ['admin', 'production'],
         },
+        {
+          id: 'stocktake',
+          label: 'Stocktake',
+          icon: StocktakeIcon,
+          path: '/stocktake',
+          roles: ['admin', 'production'],
+        },
+        {
+          id: 'storage-locations',
+          label: 'Storage Locations',
+          icon: StorageLocationIcon,
+          path: '/storage-locations',
+          roles: ['admin', 'production'],
+        },
         {
           id: 'tools',
           label: 'Tools',
@@ -270,7 +286,7 @@ const STEMNavigation: React.FC<STEMNavigationProps> = ({
           id: 'ai-inventory',
           label: 'AI Inventory',
           icon: InventoryIcon,
-          path: '/ai-assistant',
+          path: '/ai-inventory',
           roles: ['admin'],
         },
         {
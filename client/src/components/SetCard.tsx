@@ -142,6 +142,22 @@ const SetCard: React.FC<SetCardProps> = ({
           <Typography variant="h6" color="primary" sx={{ fontWeight: 'bold' }}>
             €{set.base_price?.toFixed(2) || '0.00'}
           </Typography>
+
+          {set.buildable_quantity !== undefined && (
+            <Box sx={{ mt: 1 }}>
+              <Chip
+                label={`${set.buildable_quantity} buildable`}
+                size="small"
+                color={set.buildable_quantity > 0 ? 'success' : 'error'}
+                variant="outlined"
+              />
+              {set.limiting_part && (
+                <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 0.5 }}>
+                  Limited by {set.limiting_part.part_name} ({set.limiting_part.available_quantity} free, {set.limiting_part.required_quantity} per set)
+                </Typography>
+              )}
+            </Box>
+          )}
           
           {/* Instructions & Manual Content */}
           {set.manual && set.manual.trim().length > 0 && (
@@ -0,0 +1,155 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box, Typography, Card, CardContent, Button, Table, TableHead, TableRow, TableCell, TableBody,
+  CircularProgress, Alert, Chip, TextField, Tooltip,
+} from '@mui/material';
+import { Refresh as RefreshIcon, Undo as UndoIcon } from '@mui/icons-material';
+import { systemSettingsApi, SettingChange } from '../services/systemSettingsApi';
+
+interface SettingsHistorySectionProps {
+  /** Called after a rollback so the page can reload the settings it shows */
+  onRolledBack?: () => void;
+}
+
+/**
+ * Versioned change history of the system settings. Reverting a change
+ * restores the value the setting had before it, validated against the current
+ * schema and recorded as a new version.
+ */
+const SettingsHistorySection: React.FC<SettingsHistorySectionProps> = ({ onRolledBack }) => {
+  const [history, setHistory] = useState<SettingChange[]>([]);
+  const [keyFilter, setKeyFilter] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [reverting, setReverting] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const loadHistory = useCallback(async (key?: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await systemSettingsApi.getSettingsHistory(key || undefined, 100);
+      setHistory(response.data || []);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load settings history');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  const handleRevert = async (change: SettingChange) => {
+    if (!window.confirm(`Restore ${change.setting_key} to the value before version ${change.version}?`)) {
+      return;
+    }
+    setReverting(change.audit_id);
+    setError(null);
+    try {
+      await systemSettingsApi.rollbackSetting(change.setting_key, change.version - 1);
+      setSuccess(`${change.setting_key} restored to version ${change.version - 1}`);
+      setTimeout(() => setSuccess(null), 3000);
+      await loadHistory(keyFilter.trim());
+      onRolledBack?.();
+    } catch (err: any) {
+      setError(err.message || 'Failed to roll back setting');
+    } finally {
+      setReverting(null);
+    }
+  };
+
+  const formatValue = (value: string | null) => (value === null ? <em>default</em> : value === '' ? <em>empty</em> : value);
+
+  return (
+    <Card>
+      <CardContent>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
+          <Typography variant="h6" sx={{ flex: 1 }}>Change History</Typography>
+          <TextField
+            size="small"
+            label="Setting key"
+            value={keyFilter}
+            onChange={(e) => setKeyFilter(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') loadHistory(keyFilter.trim());
+            }}
+          />
+          <Button
+            variant="outlined"
+            startIcon={loading ? <CircularProgress size={16} /> : <RefreshIcon />}
+            onClick={() => loadHistory(keyFilter.trim())}
+            disabled={loading}
+          >
+            Refresh
+          </Button>
+        </Box>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+        {success && (
+          <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess(null)}>
+            {success}
+          </Alert>
+        )}
+
+        {history.length === 0 && !loading ? (
+          <Typography variant="body2" color="text.secondary">
+            No setting changes recorded yet.
+          </Typography>
+        ) : (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Setting</TableCell>
+                <TableCell>Version</TableCell>
+                <TableCell>Old value</TableCell>
+                <TableCell>New value</TableCell>
+                <TableCell>Changed by</TableCell>
+                <TableCell>Changed at</TableCell>
+                <TableCell align="right" />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {history.map((change) => (
+                <TableRow key={change.audit_id}>
+                  <TableCell><code>{change.setting_key}</code></TableCell>
+                  <TableCell>
+                    v{change.version}
+                    {change.rollback_to !== null && (
+                      <Chip size="small" label={`restored v${change.rollback_to}`} sx={{ ml: 1 }} />
+                    )}
+                  </TableCell>
+                  <TableCell sx={{ maxWidth: 220, wordBreak: 'break-word' }}>{formatValue(change.old_value)}</TableCell>
+                  <TableCell sx={{ maxWidth: 220, wordBreak: 'break-word' }}>{formatValue(change.new_value)}</TableCell>
+                  <TableCell>{change.changed_by_username || 'system'}</TableCell>
+                  <TableCell>{new Date(change.changed_at.replace(' ', 'T') + 'Z').toLocaleString()}</TableCell>
+                  <TableCell align="right">
+                    <Tooltip title={`Restore the value before this change (v${change.version - 1})`}>
+                      <span>
+                        <Button
+                          size="small"
+                          startIcon={reverting === change.audit_id ? <CircularProgress size={14} /> : <UndoIcon />}
+                          onClick={() => handleRevert(change)}
+                          disabled={reverting !== null}
+                        >
+                          Revert
+                        </Button>
+                      </span>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SettingsHistorySection;
@@ -0,0 +1,210 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Autocomplete,
+  Box,
+  CircularProgress,
+  FormControlLabel,
+  Radio,
+  RadioGroup,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { useCart } from '../contexts/CartContext';
+import { ParcelTerminal, ShippingOption, shippingApi } from '../services/api';
+
+const deliveryTime = (option: ShippingOption) => {
+  if (option.delivery_days_min === null && option.delivery_days_max === null) {
+    return null;
+  }
+  const min = option.delivery_days_min ?? option.delivery_days_max;
+  const max = option.delivery_days_max ?? option.delivery_days_min;
+  return min === max ? `${min} working day${min === 1 ? '' : 's'}` : `${min}–${max} working days`;
+};
+
+const terminalPlace = (terminal: ParcelTerminal) =>
+  [terminal.address, [terminal.postal_code, terminal.city].filter(Boolean).join(' ')].filter(Boolean).join(', ');
+
+/**
+ * Destination country and shipping option picker for the cart, priced by the
+ * server's shipping quote, with the parcel terminal for terminal delivery.
+ */
+const ShippingOptions: React.FC = () => {
+  const {
+    shippingQuote,
+    shippingLoading,
+    shippingCountry,
+    setShippingCountry,
+    shippingOption,
+    selectShippingOption,
+    shippingTerminal,
+    selectShippingTerminal,
+    getProviderGroups,
+  } = useCart();
+  const providerGroups = getProviderGroups();
+  const [terminals, setTerminals] = useState<ParcelTerminal[]>([]);
+  const [terminalSearch, setTerminalSearch] = useState('');
+  const [terminalsLoading, setTerminalsLoading] = useState(false);
+
+  const countries = (shippingQuote?.countries || []).filter(country => country !== '*');
+  const terminalCarrier = shippingOption?.delivery_type === 'terminal' ? shippingOption.carrier : null;
+  const terminalCountry = shippingQuote?.country;
+
+  // The carrier's terminals in the destination country, searched on the server as the customer types
+  useEffect(() => {
+    if (!terminalCarrier || !terminalCountry) {
+      setTerminals([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      setTerminalsLoading(true);
+      shippingApi
+        .getTerminals({ carrier: terminalCarrier, country: terminalCountry, search: terminalSearch || undefined })
+        .then(response => {
+          if (!cancelled) {
+            setTerminals(response.data.terminals);
+          }
+        })
+        .catch(error => console.error('Error loading parcel terminals:', error))
+        .finally(() => {
+          if (!cancelled) {
+            setTerminalsLoading(false);
+          }
+        });
+    }, 250);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [terminalCarrier, terminalCountry, terminalSearch]);
+
+  return (
+    <Box sx={{ mb: 2, p: 2, backgroundColor: 'white', borderRadius: 1, border: '1px solid', borderColor: 'grey.200' }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+        <Typography variant="subtitle2" fontWeight={600} color="primary">
+          📦 Shipping
+        </Typography>
+        {shippingLoading && <CircularProgress size={16} />}
+      </Box>
+
+      <Autocomplete
+        freeSolo
+        size="small"
+        options={countries}
+        value={shippingCountry || shippingQuote?.country || ''}
+        onChange={(_, value) => value && setShippingCountry(String(value).trim().toUpperCase())}
+        onInputChange={(_, value, reason) => {
+          if (reason === 'input' && /^[A-Za-z]{2}$/.test(value.trim())) {
+            setShippingCountry(value.trim().toUpperCase());
+          }
+        }}
+        renderInput={(params) => (
+          <TextField
+            {...params}
+            label="Destination country"
+            helperText={shippingQuote?.zone ? `Shipping zone: ${shippingQuote.zone.name}` : 'Two-letter country code, e.g. EE'}
+          />
+        )}
+        sx={{ mb: 1 }}
+      />
+
+      {!shippingQuote ? (
+        <Typography variant="body2" color="text.secondary">
+          {shippingLoading ? 'Calculating shipping…' : 'Shipping could not be calculated; it will be quoted at checkout.'}
+        </Typography>
+      ) : (
+        <RadioGroup value={shippingOption?.id || ''} onChange={(e) => selectShippingOption(e.target.value)}>
+          {shippingQuote.options.map(option => (
+            <FormControlLabel
+              key={option.id}
+              value={option.id}
+              control={<Radio size="small" />}
+              sx={{ alignItems: 'flex-start', mr: 0, '& .MuiFormControlLabel-label': { flex: 1 } }}
+              label={
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', gap: 1, pt: 0.75 }}>
+                  <Box>
+                    <Typography variant="body2" fontWeight={600}>
+                      {option.name}
+                      {option.carrier && ` · ${option.carrier}`}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      {option.method === 'pickup'
+                        ? option.address || 'Collect from the lab'
+                        : [option.service_level, deliveryTime(option)].filter(Boolean).join(' · ')}
+                    </Typography>
+                  </Box>
+                  <Box sx={{ textAlign: 'right', whiteSpace: 'nowrap' }}>
+                    {option.free && option.original_cost > 0 && (
+                      <Typography variant="caption" color="text.secondary" sx={{ textDecoration: 'line-through', display: 'block' }}>
+                        €{option.original_cost.toFixed(2)}
+                      </Typography>
+                    )}
+                    <Typography variant="body2" fontWeight={600} color={option.cost === 0 ? 'success.main' : 'text.primary'}>
+                      {option.cost === 0 ? 'Free' : `€${option.cost.toFixed(2)}`}
+                    </Typography>
+                  </Box>
+                </Box>
+              }
+            />
+          ))}
+        </RadioGroup>
+      )}
+
+      {terminalCarrier && (
+        <Autocomplete
+          size="small"
+          options={terminals}
+          value={shippingTerminal}
+          loading={terminalsLoading}
+          filterOptions={(options) => options}
+          getOptionLabel={(terminal) => terminal.name}
+          isOptionEqualToValue={(option, value) => option.terminal_id === value.terminal_id}
+          onChange={(_, terminal) => selectShippingTerminal(terminal)}
+          onInputChange={(_, value, reason) => {
+            if (reason === 'input') {
+              setTerminalSearch(value);
+            }
+          }}
+          renderOption={(props, terminal) => (
+            <li {...props} key={terminal.terminal_id}>
+              <Box>
+                <Typography variant="body2">{terminal.name}</Typography>
+                <Typography variant="caption" color="text.secondary">{terminalPlace(terminal)}</Typography>
+              </Box>
+            </li>
+          )}
+          renderInput={(params) => (
+            <TextField
+              {...params}
+              label={`${terminalCarrier} parcel terminal`}
+              required
+              error={!shippingTerminal}
+              helperText={shippingTerminal ? terminalPlace(shippingTerminal) : 'Search by city, street or terminal name'}
+            />
+          )}
+          sx={{ mt: 1 }}
+        />
+      )}
+
+      {shippingOption?.amount_to_free ? (
+        <Typography variant="caption" color="success.main" sx={{ display: 'block', mt: 1 }}>
+          Add €{shippingOption.amount_to_free.toFixed(2)} more for free shipping
+        </Typography>
+      ) : null}
+      {shippingQuote && shippingQuote.parcel.chargeable_weight_g > 0 && (
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 0.5 }}>
+          Parcel: {(shippingQuote.parcel.chargeable_weight_g / 1000).toFixed(2)} kg
+          {shippingQuote.parcel.unknown_parts > 0 && ' (some parts have no weight recorded)'}
+        </Typography>
+      )}
+      {providerGroups.length > 1 && (
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 0.5 }}>
+          Ships separately from {providerGroups.map(group => group.provider_name).join(', ')}: one order and one payment,
+          a parcel from each.
+        </Typography>
+      )}
+    </Box>
+  );
+};
+
+export default ShippingOptions;
@@ -0,0 +1,378 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box, Typography, Card, CardContent, Button, Table, TableHead, TableRow, TableCell, TableBody,
+  CircularProgress, Alert, Chip, TextField, IconButton, Dialog, DialogTitle, DialogContent, DialogActions,
+  MenuItem, FormControlLabel, Switch, Tooltip,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  Refresh as RefreshIcon,
+} from '@mui/icons-material';
+import {
+  shippingApi,
+  ShippingZone,
+  ShippingZoneData,
+  ShippingRate,
+  ShippingRateData,
+  ShippingServiceLevel,
+  ShippingDeliveryType,
+} from '../services/api';
+import { renderError } from '../utils/errorUtils';
+
+const SERVICE_LEVELS: ShippingServiceLevel[] = ['economy', 'standard', 'express'];
+const DELIVERY_TYPES: Array<{ value: ShippingDeliveryType; label: string }> = [
+  { value: 'courier', label: 'Courier / post to the address' },
+  { value: 'terminal', label: "Parcel terminal (the carrier's imported terminals)" },
+];
+
+const EMPTY_ZONE: ShippingZoneData = { code: '', name: '', countries: '', sort_order: 0, is_active: true };
+const EMPTY_RATE: ShippingRateData = {
+  carrier: '',
+  name: '',
+  service_level: 'standard',
+  delivery_type: 'courier',
+  base_price: 0,
+  price_per_kg: 0,
+  max_weight_g: null,
+  max_length_mm: null,
+  free_over: null,
+  delivery_days_min: null,
+  delivery_days_max: null,
+  is_active: true,
+};
+
+const optionalNumber = (value: string) => (value === '' ? null : Number(value));
+
+/**
+ * Shipping zones (the countries they cover, * for the rest of the world) and
+ * the carrier rates priced per zone. Destinations no zone covers pay the flat
+ * shipping & handling cost.
+ */
+const ShippingRulesSection: React.FC = () => {
+  const [zones, setZones] = useState<ShippingZone[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [zoneDialog, setZoneDialog] = useState<{ zoneId: number | null; data: ShippingZoneData } | null>(null);
+  const [rateDialog, setRateDialog] = useState<{ rateId: number | null; data: ShippingRateData } | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const loadZones = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await shippingApi.getZones();
+      setZones(response.data.zones || []);
+    } catch (err) {
+      setError(renderError(err));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadZones();
+  }, [loadZones]);
+
+  const saveZone = async () => {
+    if (!zoneDialog) return;
+    setSaving(true);
+    setError(null);
+    try {
+      if (zoneDialog.zoneId) {
+        await shippingApi.updateZone(zoneDialog.zoneId, zoneDialog.data);
+      } else {
+        await shippingApi.createZone(zoneDialog.data);
+      }
+      setZoneDialog(null);
+      await loadZones();
+    } catch (err) {
+      setError(renderError(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveRate = async () => {
+    if (!rateDialog) return;
+    setSaving(true);
+    setError(null);
+    try {
+      if (rateDialog.rateId) {
+        await shippingApi.updateRate(rateDialog.rateId, rateDialog.data);
+      } else {
+        await shippingApi.createRate(rateDialog.data);
+      }
+      setRateDialog(null);
+      await loadZones();
+    } catch (err) {
+      setError(renderError(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteZone = async (zone: ShippingZone) => {
+    if (!window.confirm(`Delete zone ${zone.name} and its ${zone.rates.length} rate(s)?`)) {
+      return;
+    }
+    try {
+      await shippingApi.deleteZone(zone.zone_id);
+      await loadZones();
+    } catch (err) {
+      setError(renderError(err));
+    }
+  };
+
+  const deleteRate = async (rate: ShippingRate) => {
+    if (!window.confirm(`Delete rate ${rate.name}?`)) {
+      return;
+    }
+    try {
+      await shippingApi.deleteRate(rate.rate_id);
+      await loadZones();
+    } catch (err) {
+      setError(renderError(err));
+    }
+  };
+
+  const setZoneField = (field: keyof ShippingZoneData, value: string | number | boolean) =>
+    setZoneDialog(prev => (prev ? { ...prev, data: { ...prev.data, [field]: value } } : prev));
+  const setRateField = (field: keyof ShippingRateData, value: string | number | boolean | null) =>
+    setRateDialog(prev => (prev ? { ...prev, data: { ...prev.data, [field]: value } } : prev));
+
+  return (
+    <Card>
+      <CardContent>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
+          <Typography variant="h6" sx={{ flex: 1 }}>Shipping Zones & Rates</Typography>
+          <Button variant="outlined" startIcon={<RefreshIcon />} onClick={loadZones} disabled={loading}>
+            Refresh
+          </Button>
+          <Button variant="contained" startIcon={<AddIcon />} onClick={() => setZoneDialog({ zoneId: null, data: EMPTY_ZONE })}>
+            Add Zone
+          </Button>
+        </Box>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          The base price covers the first kilogram; each further started kilogram adds the per-kg price. The parcel
+          weighs its parts plus packaging, or its volumetric weight when that is higher.
+        </Typography>
+
+        {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>{error}</Alert>}
+        {loading && <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}><CircularProgress size={24} /></Box>}
+
+        {zones.map(zone => (
+          <Box key={zone.zone_id} sx={{ mb: 3, opacity: zone.is_active ? 1 : 0.6 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+              <Typography variant="subtitle1" fontWeight={600}>{zone.name}</Typography>
+              <Chip label={zone.code} size="small" />
+              {!zone.is_active && <Chip label="Inactive" size="small" color="default" />}
+              <Typography variant="body2" color="text.secondary" sx={{ flex: 1 }} noWrap>
+                {zone.countries === '*' ? 'Rest of the world' : zone.countries.split(',').join(', ')}
+              </Typography>
+              <Tooltip title="Add rate">
+                <IconButton size="small" onClick={() => setRateDialog({ rateId: null, data: { ...EMPTY_RATE, zone_id: zone.zone_id } })}>
+                  <AddIcon fontSize="small" />
+                </IconButton>
+              </Tooltip>
+              <Tooltip title="Edit zone">
+                <IconButton
+                  size="small"
+                  onClick={() => setZoneDialog({
+                    zoneId: zone.zone_id,
+                    data: { code: zone.code, name: zone.name, countries: zone.countries, sort_order: zone.sort_order, is_active: Boolean(zone.is_active) },
+                  })}
+                >
+                  <EditIcon fontSize="small" />
+                </IconButton>
+              </Tooltip>
+              <Tooltip title="Delete zone">
+                <IconButton size="small" color="error" onClick={() => deleteZone(zone)}>
+                  <DeleteIcon fontSize="small" />
+                </IconButton>
+              </Tooltip>
+            </Box>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Rate</TableCell>
+                  <TableCell>Service</TableCell>
+                  <TableCell align="right">Base (1 kg)</TableCell>
+                  <TableCell align="right">Per kg</TableCell>
+                  <TableCell align="right">Max weight</TableCell>
+                  <TableCell align="right">Free over</TableCell>
+                  <TableCell>Delivery</TableCell>
+                  <TableCell />
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {zone.rates.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={8}>
+                      <Typography variant="body2" color="text.secondary">No rates: only pickup is offered to this zone</Typography>
+                    </TableCell>
+                  </TableRow>
+                )}
+                {zone.rates.map(rate => (
+                  <TableRow key={rate.rate_id} sx={{ opacity: rate.is_active ? 1 : 0.5 }}>
+                    <TableCell>{rate.name}{rate.carrier ? ` · ${rate.carrier}` : ''}</TableCell>
+                    <TableCell>{rate.service_level}{rate.delivery_type === 'terminal' ? ' · parcel terminal' : ''}</TableCell>
+                    <TableCell align="right">€{Number(rate.base_price).toFixed(2)}</TableCell>
+                    <TableCell align="right">€{Number(rate.price_per_kg).toFixed(2)}</TableCell>
+                    <TableCell align="right">{rate.max_weight_g ? `${rate.max_weight_g / 1000} kg` : '—'}</TableCell>
+                    <TableCell align="right">{rate.free_over !== null ? `€${Number(rate.free_over).toFixed(2)}` : 'global'}</TableCell>
+                    <TableCell>
+                      {rate.delivery_days_min !== null || rate.delivery_days_max !== null
+                        ? `${rate.delivery_days_min ?? '?'}–${rate.delivery_days_max ?? '?'} days`
+                        : '—'}
+                    </TableCell>
+                    <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                      <IconButton size="small" onClick={() => setRateDialog({ rateId: rate.rate_id, data: { ...rate, is_active: Boolean(rate.is_active) } })}>
+                        <EditIcon fontSize="small" />
+                      </IconButton>
+                      <IconButton size="small" color="error" onClick={() => deleteRate(rate)}>
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Box>
+        ))}
+      </CardContent>
+
+      <Dialog open={Boolean(zoneDialog)} onClose={() => setZoneDialog(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>{zoneDialog?.zoneId ? 'Edit Zone' : 'Add Zone'}</DialogTitle>
+        <DialogContent>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              <TextField label="Code" value={zoneDialog?.data.code || ''} onChange={(e) => setZoneField('code', e.target.value)} required />
+              <TextField label="Name" fullWidth value={zoneDialog?.data.name || ''} onChange={(e) => setZoneField('name', e.target.value)} required />
+            </Box>
+            <TextField
+              label="Countries"
+              value={zoneDialog?.data.countries || ''}
+              onChange={(e) => setZoneField('countries', e.target.value)}
+              helperText="Comma-separated country codes (EE, LV, FI) or * for every country no other zone lists"
+              required
+            />
+            <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+              <TextField
+                label="Sort order"
+                type="number"
+                value={zoneDialog?.data.sort_order ?? 0}
+                onChange={(e) => setZoneField('sort_order', parseInt(e.target.value) || 0)}
+              />
+              <FormControlLabel
+                control={<Switch checked={Boolean(zoneDialog?.data.is_active)} onChange={(e) => setZoneField('is_active', e.target.checked)} />}
+                label="Active"
+              />
+            </Box>
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setZoneDialog(null)}>Cancel</Button>
+          <Button variant="contained" onClick={saveZone} disabled={saving}>Save</Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog open={Boolean(rateDialog)} onClose={() => setRateDialog(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>{rateDialog?.rateId ? 'Edit Rate' : 'Add Rate'}</DialogTitle>
+        <DialogContent>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              <TextField label="Name" fullWidth value={rateDialog?.data.name || ''} onChange={(e) => setRateField('name', e.target.value)} required />
+              <TextField label="Carrier" fullWidth value={rateDialog?.data.carrier || ''} onChange={(e) => setRateField('carrier', e.target.value)} />
+            </Box>
+            <TextField
+              select
+              label="Service level"
+              value={rateDialog?.data.service_level || 'standard'}
+              onChange={(e) => setRateField('service_level', e.target.value)}
+            >
+              {SERVICE_LEVELS.map(level => <MenuItem key={level} value={level}>{level}</MenuItem>)}
+            </TextField>
+            <TextField
+              select
+              label="Delivery"
+              value={rateDialog?.data.delivery_type || 'courier'}
+              onChange={(e) => setRateField('delivery_type', e.target.value)}
+              helperText="Terminal rates are offered where the carrier has imported terminals in the destination country"
+            >
+              {DELIVERY_TYPES.map(type => <MenuItem key={type.value} value={type.value}>{type.label}</MenuItem>)}
+            </TextField>
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              <TextField
+                label="Base price (first kg)"
+                type="number"
+                fullWidth
+                value={rateDialog?.data.base_price ?? 0}
+                onChange={(e) => setRateField('base_price', parseFloat(e.target.value) || 0)}
+                inputProps={{ min: 0, step: 0.01 }}
+              />
+              <TextField
+                label="Price per further kg"
+                type="number"
+                fullWidth
+                value={rateDialog?.data.price_per_kg ?? 0}
+                onChange={(e) => setRateField('price_per_kg', parseFloat(e.target.value) || 0)}
+                inputProps={{ min: 0, step: 0.01 }}
+              />
+            </Box>
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              <TextField
+                label="Max weight (g)"
+                type="number"
+                fullWidth
+                value={rateDialog?.data.max_weight_g ?? ''}
+                onChange={(e) => setRateField('max_weight_g', optionalNumber(e.target.value))}
+              />
+              <TextField
+                label="Max length (mm)"
+                type="number"
+                fullWidth
+                value={rateDialog?.data.max_length_mm ?? ''}
+                onChange={(e) => setRateField('max_length_mm', optionalNumber(e.target.value))}
+              />
+            </Box>
+            <TextField
+              label="Free over"
+              type="number"
+              value={rateDialog?.data.free_over ?? ''}
+              onChange={(e) => setRateField('free_over', optionalNumber(e.target.value))}
+              helperText="Order amount from which this rate is free; empty uses the global free shipping threshold"
+            />
+            <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+              <TextField
+                label="Delivery days (min)"
+                type="number"
+                fullWidth
+                value={rateDialog?.data.delivery_days_min ?? ''}
+                onChange={(e) => setRateField('delivery_days_min', optionalNumber(e.target.value))}
+              />
+              <TextField
+                label="Delivery days (max)"
+                type="number"
+                fullWidth
+                value={rateDialog?.data.delivery_days_max ?? ''}
+                onChange={(e) => setRateField('delivery_days_max', optionalNumber(e.target.value))}
+              />
+              <FormControlLabel
+                control={<Switch checked={Boolean(rateDialog?.data.is_active)} onChange={(e) => setRateField('is_active', e.target.checked)} />}
+                label="Active"
+              />
+            </Box>
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setRateDialog(null)}>Cancel</Button>
+          <Button variant="contained" onClick={saveRate} disabled={saving}>Save</Button>
+        </DialogActions>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default ShippingRulesSection;
@@ -35,6 +35,7 @@ import {
 } from '@mui/icons-material';
 import { useCart } from '../contexts/CartContext';
 import { useLanguage } from '../contexts/LanguageContext';
+import ShippingOptions from './ShippingOptions';
 
 interface ShoppingCartProps {
   onCheckout?: (orderData: any) => void;
@@ -48,11 +49,16 @@ const ShoppingCart: React.FC<ShoppingCartProps> = ({ onCheckout }) => {
     updateQuantity,
     clearCart,
     getTotalItems,
+    getSubtotal,
     getTotalPrice,
+    shippingQuote,
+    shippingOption,
+    shippingTerminal,
   } = useCart();
   
   const [open, setOpen] = useState(false);
   const [checkoutDialogOpen, setCheckoutDialogOpen] = useState(false);
+  const [quantityError, setQuantityError] = useState<string | null>(null);
   const [customerInfo, setCustomerInfo] = useState({
     first_name: '',
     last_name: '',
@@ -75,7 +81,11 @@ const ShoppingCart: React.FC<ShoppingCartProps> = ({ onCheckout }) => {
           set_id: item.set_id,
           quantity: item.quantity,
           unit_price: item.unit_price,
+          provider_id: item.provider_id ?? null,
         })),
+        shipping_country: shippingQuote?.country,
+        shipping_option: shippingOption?.id,
+        shipping_terminal_id: shippingTerminal?.terminal_id,
       };
 
       // Call the checkout callback if provided
@@ -94,7 +104,8 @@ const ShoppingCart: React.FC<ShoppingCartProps> = ({ onCheckout }) => {
     if (newQuantity <= 0) {
       removeFromCart(setId);
     } else {
-      updateQuantity(setId, newQuantity);
+      setQuantityError(null);
+      updateQuantity(setId, newQuantity).catch((err: Error) => setQuantityError(err.message));
     }
   };
 
@@ -129,6 +140,11 @@ const ShoppingCart: React.FC<ShoppingCartProps> = ({ onCheckout }) => {
         </DialogTitle>
         
         <DialogContent>
+          {quantityError && (
+            <Alert severity="warning" sx={{ mb: 2 }} onClose={() => setQuantityError(null)}>
+              {quantityError}
+            </Alert>
+          )}
           {items.length === 0 ? (
             <Box textAlign="center" py={4}>
               <CartIcon sx={{ fontSize: 64, color: 'text.secondary', mb: 2 }} />
@@ -227,8 +243,7 @@ const ShoppingCart: React.FC<ShoppingCartProps> = ({ onCheckout }) => {
                             Age: {item.recommended_age_min}-{item.recommended_age_max} years • 
                             Duration: {item.estimated_duration_minutes} min
                           </Typography>
-                          {item.set_id !== -1 && (
-                            <Box display="flex" alignItems="center" gap={1} mt={1}>
+                          <Box display="flex" alignItems="center" gap={1} mt={1}>
                               <IconButton
                                 size="small"
                                 onClick={() => handleQuantityChange(item.set_id, item.quantity - 1)}
@@ -245,13 +260,7 @@ const ShoppingCart: React.FC<ShoppingCartProps> = ({ onCheckout }) => {
                               >
                                 <AddIcon />
                               </IconButton>
-                            </Box>
-                          )}
-                          {item.set_id === -1 && (
-                            <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
-                              Fixed service fee
-                            </Typography>
-                          )}
+                          </Box>
                         </Box>
                       }
                     />
@@ -262,16 +271,14 @@ const ShoppingCart: React.FC<ShoppingCartProps> = ({ onCheckout }) => {
                       <Typography variant="body2" color="text.secondary">
                         €{(Number(item.unit_price) || 0).toFixed(2)} each
                       </Typography>
-                      {item.set_id !== -1 && (
-                        <IconButton
-                          size="small"
-                          onClick={() => removeFromCart(item.set_id)}
-                          color="error"
-                          sx={{ mt: 1 }}
-                        >
-                          <DeleteIcon />
-                        </IconButton>
-                      )}
+                      <IconButton
+                        size="small"
+                        onClick={() => removeFromCart(item.set_id)}
+                        color="error"
+                        sx={{ mt: 1 }}
+                      >
+                        <DeleteIcon />
+                      </IconButton>
                     </Box>
                   </ListItem>
                   {index < items.length - 1 && <Divider />}
@@ -284,7 +291,19 @@ const ShoppingCart: React.FC<ShoppingCartProps> = ({ onCheckout }) => {
         {items.length > 0 && (
           <DialogActions>
             <Box width="100%" p={2}>
+              <ShippingOptions />
+
               <Paper elevation={1} sx={{ p: 2, mb: 2 }}>
+                <Box display="flex" justifyContent="space-between" mb={0.5}>
+                  <Typography variant="body2">{t('cart.subtotal') || 'Subtotal'}:</Typography>
+                  <Typography variant="body2">€{getSubtotal().toFixed(2)}</Typography>
+                </Box>
+                <Box display="flex" justifyContent="space-between" mb={1}>
+                  <Typography variant="body2">{t('cart.shipping') || 'Shipping'}:</Typography>
+                  <Typography variant="body2">
+                    {shippingOption ? (shippingOption.cost === 0 ? 'Free' : `€${shippingOption.cost.toFixed(2)}`) : '—'}
+                  </Typography>
+                </Box>
                 <Box display="flex" justifyContent="space-between" alignItems="center">
                   <Typography variant="h6">
                     {t('cart.total') || 'Total'}:
@@ -336,15 +355,24 @@ const ShoppingCart: React.FC<ShoppingCartProps> = ({ onCheckout }) => {
             <Paper elevation={1} sx={{ p: 2, mb: 3 }}>
               {items.map(item => (
                 <Box key={item.set_id} display="flex" justifyContent="space-between" mb={1}>
-                  <Typography variant="body2" color={item.set_id === -1 ? "text.secondary" : "text.primary"}>
-                    {item.set_name} {item.set_id !== -1 && `x${item.quantity}`}
-                    {item.set_id === -1 && " (Fixed)"}
+                  <Typography variant="body2">
+                    {item.set_name} x{item.quantity}
                   </Typography>
                   <Typography variant="body2" fontWeight="bold">
                     €{(Number(item.total_price) || 0).toFixed(2)}
                   </Typography>
                 </Box>
               ))}
+              {shippingOption && (
+                <Box display="flex" justifyContent="space-between" mb={1}>
+                  <Typography variant="body2" color="text.secondary">
+                    {shippingOption.name}{shippingOption.carrier ? ` (${shippingOption.carrier})` : ''}
+                  </Typography>
+                  <Typography variant="body2" fontWeight="bold">
+                    €{shippingOption.cost.toFixed(2)}
+                  </Typography>
+                </Box>
+              )}
               <Divider sx={{ my: 1 }} />
               <Box display="flex" justifyContent="space-between">
                 <Typography variant="h6">
@@ -417,7 +445,8 @@ const ShoppingCart: React.FC<ShoppingCartProps> = ({ onCheckout }) => {
             onClick={handlePlaceOrder}
             variant="contained"
             color="primary"
-            disabled={!customerInfo.first_name || !customerInfo.last_name || !customerInfo.email}
+            disabled={!customerInfo.first_name || !customerInfo.last_name || !customerInfo.email
+              || (shippingOption?.delivery_type === 'terminal' && !shippingTerminal)}
           >
             {t('cart.placeOrder') || 'Place Order'}
           </Button>
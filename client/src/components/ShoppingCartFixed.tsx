@@ -24,6 +24,7 @@ import {
 import { useCart } from '../contexts/CartContext';
 import { useLanguage } from '../contexts/LanguageContext';
 import { useAuth } from '../contexts/AuthContext';
+import ShippingOptions from './ShippingOptions';
 
 interface ShoppingCartProps {
   onCheckout?: (orderData: any) => void;
@@ -41,7 +42,7 @@ interface CustomerInfo {
 const ShoppingCart: React.FC<ShoppingCartProps> = ({ onCheckout }) => {
   const { t } = useLanguage();
   const { user } = useAuth();
-  const { items, getTotalItems, clearCart, updateQuantity, removeFromCart, getTotalPrice } = useCart();
+  const { items, getTotalItems, clearCart, updateQuantity, removeFromCart, getTotalPrice, shippingQuote, shippingOption, shippingTerminal } = useCart();
   const [open, setOpen] = useState(false);
   const [checkoutOpen, setCheckoutOpen] = useState(false);
   const [customerInfo, setCustomerInfo] = useState<CustomerInfo>({
@@ -55,6 +56,12 @@ const ShoppingCart: React.FC<ShoppingCartProps> = ({ onCheckout }) => {
   const [errors, setErrors] = useState<Partial<CustomerInfo>>({});
   const [loading, setLoading] = useState(false);
   const [success, setSuccess] = useState<string | null>(null);
+  const [quantityError, setQuantityError] = useState<string | null>(null);
+
+  const changeQuantity = (setId: number, quantity: number) => {
+    setQuantityError(null);
+    updateQuantity(setId, quantity).catch((err: Error) => setQuantityError(err.message));
+  };
 
   const validateForm = (): boolean => {
     const newErrors: Partial<CustomerInfo> = {};
@@ -116,6 +123,7 @@ const ShoppingCart: React.FC<ShoppingCartProps> = ({ onCheckout }) => {
         quantity: item.quantity,
         unit_price: item.unit_price,
         line_total: item.total_price,
+        provider_id: item.provider_id ?? null, // Checkout places a sub-order per provider
       }));
 
       const orderData = {
@@ -132,7 +140,9 @@ const ShoppingCart: React.FC<ShoppingCartProps> = ({ onCheckout }) => {
         payment_method: 'credit_card',
         items: orderItems,
         total_amount: getTotalPrice(),
-        status: 'pending_payment', // Customer places order - admin must confirm payment
+        shipping_country: shippingQuote?.country,
+        shipping_option: shippingOption?.id,
+        shipping_terminal_id: shippingTerminal?.terminal_id,
         set_type: items[0]?.provider_id === null ? 'admin' : 'provider' // Determine set type based on provider_id
       };
 
@@ -194,6 +204,11 @@ const ShoppingCart: React.FC<ShoppingCartProps> = ({ onCheckout }) => {
         </DialogTitle>
         
         <DialogContent>
+          {quantityError && (
+            <Alert severity="warning" sx={{ mb: 2 }} onClose={() => setQuantityError(null)}>
+              {quantityError}
+            </Alert>
+          )}
           {items.length === 0 ? (
             <Box textAlign="center" py={4}>
               <CartIcon sx={{ fontSize: 64, color: 'text.secondary', mb: 2 }} />
@@ -224,7 +239,7 @@ const ShoppingCart: React.FC<ShoppingCartProps> = ({ onCheckout }) => {
                   <Box display="flex" alignItems="center" gap={1} mr={2}>
                     <IconButton 
                       size="small" 
-                      onClick={() => updateQuantity(item.set_id, item.quantity - 1)}
+                      onClick={() => changeQuantity(item.set_id, item.quantity - 1)}
                       disabled={item.quantity <= 1}
                     >
                       <RemoveIcon />
@@ -235,13 +250,13 @@ const ShoppingCart: React.FC<ShoppingCartProps> = ({ onCheckout }) => {
                       onChange={(e) => {
                         const newQuantity = parseInt(e.target.value) || 1;
                         if (newQuantity >= 1) {
-                          updateQuantity(item.set_id, newQuantity);
+                          changeQuantity(item.set_id, newQuantity);
                         }
                       }}
                       onBlur={(e) => {
                         const newQuantity = parseInt(e.target.value) || 1;
                         if (newQuantity < 1) {
-                          updateQuantity(item.set_id, 1);
+                          changeQuantity(item.set_id, 1);
                         }
                       }}
                       inputProps={{
@@ -253,7 +268,7 @@ const ShoppingCart: React.FC<ShoppingCartProps> = ({ onCheckout }) => {
                     />
                     <IconButton 
                       size="small" 
-                      onClick={() => updateQuantity(item.set_id, item.quantity + 1)}
+                      onClick={() => changeQuantity(item.set_id, item.quantity + 1)}
                     >
                       <AddIcon />
                     </IconButton>
@@ -389,6 +404,8 @@ const ShoppingCart: React.FC<ShoppingCartProps> = ({ onCheckout }) => {
             sx={{ mb: 2 }}
           />
 
+          <ShippingOptions />
+
           {/* Notes - Optional */}
           <TextField
             margin="dense"
@@ -441,7 +458,7 @@ const ShoppingCart: React.FC<ShoppingCartProps> = ({ onCheckout }) => {
             onClick={handlePlaceOrder}
             color="primary"
             variant="contained"
-            disabled={loading || !customerInfo.company_name.trim()}
+            disabled={loading || !customerInfo.company_name.trim() || (shippingOption?.delivery_type === 'terminal' && !shippingTerminal)}
             startIcon={loading ? <CircularProgress size={20} /> : undefined}
           >
             {loading ? (t('common.placingOrder') || 'Placing Order...') : (t('cart.placeOrder') || 'Place Order')}
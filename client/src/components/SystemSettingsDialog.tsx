@@ -33,7 +33,6 @@ import {
   TableRow,
   Paper,
 } from '@mui/material';
-import { apiUrl } from '../services/api';
 import {
   Close as CloseIcon,
   Save as SaveIcon,
@@ -54,7 +53,7 @@ import {
 } from '@mui/icons-material';
 import { stemColors } from '../theme/stemTheme';
 import { SystemSettingsService } from '../services/systemSettingsService';
-import { systemSettingsApi } from '../services/systemSettingsApi';
+import { systemSettingsApi, BackupRecord } from '../services/systemSettingsApi';
 import LibreTranslateStatusMonitor from './LibreTranslateStatusMonitor';
 import { AccessibilityProvider, useAccessibility } from './AccessibilityComponents';
 
@@ -103,12 +102,12 @@ interface Settings {
   companyEmail: string;
   companyWebsite: string;
   companyTaxId: string;
+  companyRegNumber: string;
   bankName: string;
   bankAccountNumber: string;
   bankIban: string;
   bankSwift: string;
   invoicePrefix: string;
-  defaultTaxRate: number;
   paymentTerms: string;
   defaultInvoiceTemplate: string;
   
@@ -290,8 +289,13 @@ const SystemSettingsDialog: React.FC<SystemSettingsDialogProps> = ({ open, onClo
   const [success, setSuccess] = useState<string | null>(null);
   
   // Backup & Restore state
-  const [backupHistory, setBackupHistory] = useState<any[]>([]);
+  const [backupHistory, setBackupHistory] = useState<BackupRecord[]>([]);
   const [backupLoading, setBackupLoading] = useState(false);
+  const [backupPolicy, setBackupPolicy] = useState({
+    backup_schedule_enabled: true,
+    backup_retention_count: 14,
+    backup_retention_days: 30,
+  });
   
   // Maintenance state
   const [maintenanceLogs, setMaintenanceLogs] = useState<any[]>([]);
@@ -341,12 +345,12 @@ const SystemSettingsDialog: React.FC<SystemSettingsDialogProps> = ({ open, onClo
       companyEmail: savedSettings.companyEmail,
       companyWebsite: savedSettings.companyWebsite,
       companyTaxId: savedSettings.companyTaxId,
+      companyRegNumber: savedSettings.companyRegNumber,
       bankName: savedSettings.bankName,
       bankAccountNumber: savedSettings.bankAccountNumber,
       bankIban: savedSettings.bankIban,
       bankSwift: savedSettings.bankSwift,
       invoicePrefix: savedSettings.invoicePrefix,
-      defaultTaxRate: savedSettings.defaultTaxRate,
       paymentTerms: savedSettings.paymentTerms,
       defaultInvoiceTemplate: savedSettings.defaultInvoiceTemplate,
       // Cart Settings
@@ -362,6 +366,7 @@ const SystemSettingsDialog: React.FC<SystemSettingsDialogProps> = ({ open, onClo
     if (open) {
       loadSystemSettings();
       loadBackupHistory();
+      loadBackupPolicy();
       loadMaintenanceLogs();
       loadSystemHealth();
     }
@@ -370,18 +375,9 @@ const SystemSettingsDialog: React.FC<SystemSettingsDialogProps> = ({ open, onClo
   const loadSystemSettings = useCallback(async () => {
     try {
       setLoading(true);
-      const response = await systemSettingsApi.getSettings();
-      if (response.success && response.data) {
-        // Only update if we're on the invoice tab and settings are empty
-        setSettings(prev => {
-          // Check if invoice fields are empty and update only those
-          if (!prev.companyName && response.data.company_name) {
-            return { ...prev, ...response.data };
-          }
-          // Otherwise, don't update to prevent losing focus
-          return prev;
-        });
-      }
+      // Server values replace the cached copy the form was initialised with
+      const savedSettings = await SystemSettingsService.loadSettings();
+      setSettings(prev => ({ ...prev, ...savedSettings }));
     } catch (error) {
       console.error('Error loading system settings:', error);
       // Don't show error on initial load failures
@@ -404,6 +400,34 @@ const SystemSettingsDialog: React.FC<SystemSettingsDialogProps> = ({ open, onClo
     }
   };
 
+  const loadBackupPolicy = async () => {
+    try {
+      const response = await systemSettingsApi.getSettings();
+      if (response.success && response.data) {
+        setBackupPolicy(prev => ({
+          backup_schedule_enabled: response.data.backup_schedule_enabled ?? prev.backup_schedule_enabled,
+          backup_retention_count: response.data.backup_retention_count ?? prev.backup_retention_count,
+          backup_retention_days: response.data.backup_retention_days ?? prev.backup_retention_days,
+        }));
+      }
+    } catch (error) {
+      console.error('Error loading backup policy:', error);
+    }
+  };
+
+  const handleSaveBackupPolicy = async () => {
+    try {
+      setBackupLoading(true);
+      setError(null);
+      await systemSettingsApi.updateSettings(backupPolicy);
+      setSuccess('Backup policy saved');
+    } catch (error: any) {
+      setError(error.message || 'Failed to save backup policy');
+    } finally {
+      setBackupLoading(false);
+    }
+  };
+
   const loadMaintenanceLogs = async () => {
     try {
       setMaintenanceLoading(true);
@@ -447,66 +471,24 @@ const SystemSettingsDialog: React.FC<SystemSettingsDialogProps> = ({ open, onClo
     setSuccess(null);
     
     try {
-      // Save each setting individually to /api/settings/:key endpoint
-      const authToken = localStorage.getItem('authToken');
-      const headers = {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${authToken}`
-      };
-      
-      // Define settings to save (only the ones that should be saved to backend)
-      const settingsToSave = [
-        { key: 'company_name', value: settings.companyName, type: 'string' },
-        { key: 'company_address', value: settings.companyAddress, type: 'string' },
-        { key: 'company_phone', value: settings.companyPhone, type: 'string' },
-        { key: 'company_email', value: settings.companyEmail, type: 'string' },
-        { key: 'company_website', value: settings.companyWebsite, type: 'string' },
-        { key: 'company_tax_id', value: settings.companyTaxId, type: 'string' },
-        { key: 'bank_name', value: settings.bankName, type: 'string' },
-        { key: 'bank_account_number', value: settings.bankAccountNumber, type: 'string' },
-        { key: 'bank_iban', value: settings.bankIban, type: 'string' },
-        { key: 'bank_swift', value: settings.bankSwift, type: 'string' },
-        { key: 'invoice_prefix', value: settings.invoicePrefix, type: 'string' },
-        { key: 'default_tax_rate', value: settings.defaultTaxRate, type: 'number' },
-        { key: 'payment_terms', value: settings.paymentTerms, type: 'string' },
-        { key: 'default_invoice_template', value: settings.defaultInvoiceTemplate, type: 'string' },
-      ];
-      
-      // Save each setting
-      for (const setting of settingsToSave) {
-        const response = await fetch(apiUrl(`/settings/${setting.key}`), {
-          method: 'PUT',
-          headers,
-          body: JSON.stringify({ 
-            value: String(setting.value), 
-            type: setting.type 
-          }),
-        });
-        
-        if (!response.ok) {
-          throw new Error(`Failed to save ${setting.key}`);
-        }
-      }
-      
-      // Also save to local storage for backward compatibility
-      const invoiceSettings = {
+      // Validated and audited on the server; the service refreshes the offline copy
+      const savedSettings = await SystemSettingsService.saveSettings({
         companyName: settings.companyName,
         companyAddress: settings.companyAddress,
         companyPhone: settings.companyPhone,
         companyEmail: settings.companyEmail,
         companyWebsite: settings.companyWebsite,
         companyTaxId: settings.companyTaxId,
+        companyRegNumber: settings.companyRegNumber,
         bankName: settings.bankName,
         bankAccountNumber: settings.bankAccountNumber,
         bankIban: settings.bankIban,
         bankSwift: settings.bankSwift,
         invoicePrefix: settings.invoicePrefix,
-        defaultTaxRate: settings.defaultTaxRate,
         paymentTerms: settings.paymentTerms,
         defaultInvoiceTemplate: settings.defaultInvoiceTemplate,
-      };
-      
-      SystemSettingsService.saveSettings(invoiceSettings);
+      });
+      setSettings(prev => ({ ...prev, ...savedSettings }));
       
       setSuccess('Settings saved successfully');
       setTimeout(() => {
@@ -564,12 +546,12 @@ const SystemSettingsDialog: React.FC<SystemSettingsDialogProps> = ({ open, onClo
       companyEmail: 'info@makerset.com',
       companyWebsite: 'www.makerset.com',
       companyTaxId: 'EE123456789',
+      companyRegNumber: '',
       bankName: 'Estonian Bank',
       bankAccountNumber: '1234567890',
       bankIban: 'EE123456789012345678',
       bankSwift: 'ESTBEE2X',
       invoicePrefix: 'INV',
-      defaultTaxRate: 20,
       paymentTerms: 'prepayment',
       defaultInvoiceTemplate: 'modern',
       // Cart Settings
@@ -605,7 +587,7 @@ const SystemSettingsDialog: React.FC<SystemSettingsDialogProps> = ({ open, onClo
       setError(null);
       const response = await systemSettingsApi.restoreBackup(backupId);
       if (response.success) {
-        setSuccess('Database restored successfully');
+        setSuccess('Database restored successfully; the previous state was saved as a pre-restore backup');
         loadBackupHistory(); // Refresh backup history
       }
     } catch (error: any) {
@@ -615,6 +597,23 @@ const SystemSettingsDialog: React.FC<SystemSettingsDialogProps> = ({ open, onClo
     }
   };
 
+  const handleDownloadBackup = async (backup: BackupRecord) => {
+    try {
+      setError(null);
+      const blob = await systemSettingsApi.downloadBackup(backup.id);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = backup.file_path?.split(/[\\/]/).pop() || `backup-${backup.id}.tar.gz`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      setError(error.message || 'Failed to download backup');
+    }
+  };
+
   // Maintenance functions
   const handleClearCache = async () => {
     try {
@@ -1132,20 +1131,45 @@ const SystemSettingsDialog: React.FC<SystemSettingsDialogProps> = ({ open, onClo
                 <Typography>Automated Backups</Typography>
               </AccordionSummary>
               <AccordionDetails>
-                <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: '1fr 1fr 1fr' }, gap: 2 }}>
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                  Each backup is a compressed archive of a database snapshot and the uploaded media, with a
+                  checksummed manifest. Old backups are pruned nightly by the retention policy below.
+                </Typography>
+                <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: '1fr 1fr 1fr' }, gap: 2, alignItems: 'center' }}>
                   <FormControlLabel
-                    control={<Switch defaultChecked />}
-                    label="Daily Backups"
+                    control={
+                      <Switch
+                        checked={backupPolicy.backup_schedule_enabled}
+                        onChange={(e) => setBackupPolicy(prev => ({ ...prev, backup_schedule_enabled: e.target.checked }))}
+                      />
+                    }
+                    label="Nightly Backup (3:00)"
                   />
-                  <FormControlLabel
-                    control={<Switch defaultChecked />}
-                    label="Weekly Backups"
+                  <TextField
+                    type="number"
+                    label="Backups to Keep"
+                    value={backupPolicy.backup_retention_count}
+                    onChange={(e) => setBackupPolicy(prev => ({ ...prev, backup_retention_count: parseInt(e.target.value) || 1 }))}
+                    inputProps={{ min: 1, max: 365 }}
                   />
-                  <FormControlLabel
-                    control={<Switch />}
-                    label="Monthly Backups"
+                  <TextField
+                    type="number"
+                    label="Delete Backups Older Than (days)"
+                    helperText="0 = keep regardless of age"
+                    value={backupPolicy.backup_retention_days}
+                    onChange={(e) => setBackupPolicy(prev => ({ ...prev, backup_retention_days: parseInt(e.target.value) || 0 }))}
+                    inputProps={{ min: 0, max: 3650 }}
                   />
                 </Box>
+                <Button
+                  variant="outlined"
+                  startIcon={<SaveIcon />}
+                  onClick={handleSaveBackupPolicy}
+                  disabled={backupLoading}
+                  sx={{ mt: 2 }}
+                >
+                  Save Backup Policy
+                </Button>
               </AccordionDetails>
             </Accordion>
             
@@ -1194,7 +1218,14 @@ const SystemSettingsDialog: React.FC<SystemSettingsDialogProps> = ({ open, onClo
                     <TableBody>
                       {backupHistory.map((backup) => (
                         <TableRow key={backup.id}>
-                          <TableCell>{backup.backup_name}</TableCell>
+                          <TableCell>
+                            {backup.backup_name}
+                            {backup.checksum && (
+                              <Typography variant="caption" color="text.secondary" display="block" title={backup.checksum}>
+                                sha256 {backup.checksum.slice(0, 12)}…
+                              </Typography>
+                            )}
+                          </TableCell>
                           <TableCell>
                             <Chip 
                               label={backup.backup_type} 
@@ -1213,18 +1244,32 @@ const SystemSettingsDialog: React.FC<SystemSettingsDialogProps> = ({ open, onClo
                             {backup.file_size ? `${(backup.file_size / 1024 / 1024).toFixed(2)} MB` : '-'}
                           </TableCell>
                           <TableCell>
-                            {new Date(backup.created_at).toLocaleString()}
+                            {new Date(backup.created_at.replace(' ', 'T') + 'Z').toLocaleString()}
                           </TableCell>
                           <TableCell>
                             {backup.status === 'completed' && (
-                              <Button
-                                size="small"
-                                color="error"
-                                onClick={() => handleRestoreBackup(backup.id)}
-                                disabled={backupLoading}
-                              >
-                                Restore
-                              </Button>
+                              <Box sx={{ display: 'flex', gap: 1 }}>
+                                <Button
+                                  size="small"
+                                  onClick={() => handleDownloadBackup(backup)}
+                                  disabled={backupLoading}
+                                >
+                                  Download
+                                </Button>
+                                <Button
+                                  size="small"
+                                  color="error"
+                                  onClick={() => handleRestoreBackup(backup.id)}
+                                  disabled={backupLoading}
+                                >
+                                  Restore
+                                </Button>
+                              </Box>
+                            )}
+                            {backup.status === 'failed' && backup.error_message && (
+                              <Typography variant="caption" color="error">
+                                {backup.error_message}
+                              </Typography>
                             )}
                           </TableCell>
                         </TableRow>
@@ -1608,6 +1653,23 @@ const SystemSettingsDialog: React.FC<SystemSettingsDialogProps> = ({ open, onClo
                   maxLength: 50
                 }}
               />
+              <TextField
+                fullWidth
+                id="company-reg-number"
+                name="companyRegNumber"
+                label="Registry Code / Business ID"
+                value={settings.companyRegNumber}
+                onChange={(e) => {
+                  const value = e.target.value;
+                  handleSettingChange('companyRegNumber', value);
+                }}
+                margin="normal"
+                autoComplete="off"
+                helperText="Required for Estonian e-invoices and Finvoice"
+                inputProps={{
+                  maxLength: 20
+                }}
+              />
             </Box>
             <Box>
               <Typography variant="h6" gutterBottom>
@@ -1703,25 +1765,6 @@ const SystemSettingsDialog: React.FC<SystemSettingsDialogProps> = ({ open, onClo
                   style: { textTransform: 'uppercase' }
                 }}
               />
-              <TextField
-                fullWidth
-                id="default-tax-rate"
-                name="defaultTaxRate"
-                type="number"
-                label="Default Tax Rate (%)"
-                value={settings.defaultTaxRate}
-                onChange={(e) => {
-                  const value = parseFloat(e.target.value) || 0;
-                  handleSettingChange('defaultTaxRate', value);
-                }}
-                margin="normal"
-                inputProps={{ 
-                  min: 0, 
-                  max: 100, 
-                  step: 0.1,
-                  inputMode: 'decimal'
-                }}
-              />
               <FormControl fullWidth margin="normal">
                 <InputLabel id="payment-terms-label">Payment Terms</InputLabel>
                 <Select
@@ -0,0 +1,388 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  IconButton,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  Delete as DeleteIcon,
+  Build as BuildIcon,
+  Logout as CheckOutIcon,
+  Login as CheckInIcon,
+} from '@mui/icons-material';
+import { toolMaintenanceApi, ToolMaintenanceDetails, ToolMaintenancePlan } from '../services/api';
+
+const CONDITIONS = ['excellent', 'good', 'fair', 'poor', 'needs_repair'];
+
+interface ToolMaintenanceDialogProps {
+  open: boolean;
+  toolId: number | null;
+  onClose: () => void;
+  /** Called after anything changes the tool's status */
+  onChanged?: () => void;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+/** "due 2026-05-01 / 3 uses left" */
+const planDueText = (plan: ToolMaintenancePlan) => {
+  const parts: string[] = [];
+  if (plan.due_date) parts.push(`due ${plan.due_date}`);
+  if (plan.uses_remaining !== null) parts.push(`${Math.max(plan.uses_remaining, 0)} uses left`);
+  return parts.join(' / ');
+};
+
+const ToolMaintenanceDialog: React.FC<ToolMaintenanceDialogProps> = ({ open, toolId, onClose, onChanged }) => {
+  const [details, setDetails] = useState<ToolMaintenanceDetails | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [planForm, setPlanForm] = useState({ name: '', interval_days: '', interval_uses: '' });
+  const [logForm, setLogForm] = useState({ plan_id: '' as number | '', performed_at: today(), condition_status: '', cost: '', notes: '' });
+  const [checkoutForm, setCheckoutForm] = useState({ order_id: '', workshop: '', due_back_at: '', notes: '' });
+  const [checkInCondition, setCheckInCondition] = useState('');
+
+  const load = useCallback(async () => {
+    if (!toolId) return;
+    try {
+      setLoading(true);
+      const response = await toolMaintenanceApi.getTool(toolId);
+      setDetails(response.data);
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to load tool maintenance');
+    } finally {
+      setLoading(false);
+    }
+  }, [toolId]);
+
+  useEffect(() => {
+    if (open && toolId) {
+      setError(null);
+      setDetails(null);
+      load();
+    }
+  }, [open, toolId, load]);
+
+  // Run a change, then reload the tool and tell the parent
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      setError(null);
+      await action();
+      await load();
+      onChanged?.();
+      return true;
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Request failed');
+      return false;
+    }
+  };
+
+  const handleAddPlan = async () => {
+    if (!toolId) return;
+    const ok = await run(() => toolMaintenanceApi.createPlan(toolId, {
+      name: planForm.name,
+      interval_days: planForm.interval_days ? Number(planForm.interval_days) : null,
+      interval_uses: planForm.interval_uses ? Number(planForm.interval_uses) : null,
+    }));
+    if (ok) setPlanForm({ name: '', interval_days: '', interval_uses: '' });
+  };
+
+  const handleLog = async () => {
+    if (!toolId) return;
+    const ok = await run(() => toolMaintenanceApi.logMaintenance(toolId, {
+      plan_id: logForm.plan_id || null,
+      performed_at: logForm.performed_at,
+      condition_status: logForm.condition_status || undefined,
+      cost: logForm.cost === '' ? null : Number(logForm.cost),
+      notes: logForm.notes || undefined,
+    }));
+    if (ok) setLogForm({ plan_id: '', performed_at: today(), condition_status: '', cost: '', notes: '' });
+  };
+
+  const handleCheckOut = async () => {
+    if (!toolId) return;
+    const ok = await run(() => toolMaintenanceApi.checkOut(toolId, {
+      order_id: checkoutForm.order_id ? Number(checkoutForm.order_id) : undefined,
+      workshop: checkoutForm.workshop || undefined,
+      due_back_at: checkoutForm.due_back_at || undefined,
+      notes: checkoutForm.notes || undefined,
+    }));
+    if (ok) setCheckoutForm({ order_id: '', workshop: '', due_back_at: '', notes: '' });
+  };
+
+  const handleCheckIn = async () => {
+    if (!toolId) return;
+    const ok = await run(() => toolMaintenanceApi.checkIn(toolId, { condition_status: checkInCondition || undefined }));
+    if (ok) setCheckInCondition('');
+  };
+
+  const availability = details?.availability;
+  const openCheckout = availability?.checkout;
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>
+        Maintenance - {details ? `${details.tool.tool_number} ${details.tool.tool_name}` : ''}
+      </DialogTitle>
+      <DialogContent>
+        {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>{error}</Alert>}
+        {loading && !details && <CircularProgress />}
+        {details && (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+            <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', flexWrap: 'wrap' }}>
+              <Chip
+                label={availability?.available ? 'Available' : 'Not available'}
+                color={availability?.available ? 'success' : 'error'}
+                size="small"
+              />
+              {availability?.reason && <Typography variant="body2">{availability.reason}</Typography>}
+              <Typography variant="body2" color="text.secondary">
+                Uses: {details.tool.use_count || 0} · Condition: {details.tool.condition_status || '-'}
+              </Typography>
+            </Box>
+
+            {/* Check-out / check-in */}
+            <Typography variant="subtitle1" fontWeight="bold">Check-out</Typography>
+            {openCheckout ? (
+              <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap' }}>
+                <Typography variant="body2">
+                  Out to {openCheckout.order_id ? `order ${openCheckout.order_number || openCheckout.order_id}` : openCheckout.workshop}
+                  {' '}since {new Date(openCheckout.checked_out_at).toLocaleDateString()}
+                  {openCheckout.due_back_at && `, due back ${openCheckout.due_back_at}`}
+                </Typography>
+                <TextField
+                  select
+                  size="small"
+                  label="Returned condition"
+                  value={checkInCondition}
+                  onChange={(e) => setCheckInCondition(e.target.value)}
+                  sx={{ minWidth: 180 }}
+                >
+                  <MenuItem value="">(unchanged)</MenuItem>
+                  {CONDITIONS.map((c) => <MenuItem key={c} value={c}>{c}</MenuItem>)}
+                </TextField>
+                <Button variant="contained" startIcon={<CheckInIcon />} onClick={handleCheckIn}>Check In</Button>
+              </Box>
+            ) : (
+              <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', flexWrap: 'wrap' }}>
+                <TextField
+                  size="small"
+                  label="Order ID"
+                  type="number"
+                  value={checkoutForm.order_id}
+                  onChange={(e) => setCheckoutForm({ ...checkoutForm, order_id: e.target.value })}
+                  sx={{ width: 120 }}
+                />
+                <TextField
+                  size="small"
+                  label="or Workshop"
+                  value={checkoutForm.workshop}
+                  onChange={(e) => setCheckoutForm({ ...checkoutForm, workshop: e.target.value })}
+                />
+                <TextField
+                  size="small"
+                  label="Due back"
+                  type="date"
+                  value={checkoutForm.due_back_at}
+                  onChange={(e) => setCheckoutForm({ ...checkoutForm, due_back_at: e.target.value })}
+                  InputLabelProps={{ shrink: true }}
+                />
+                <Button
+                  variant="outlined"
+                  startIcon={<CheckOutIcon />}
+                  onClick={handleCheckOut}
+                  disabled={!checkoutForm.order_id && !checkoutForm.workshop.trim()}
+                >
+                  Check Out
+                </Button>
+              </Box>
+            )}
+
+            <Divider />
+
+            {/* Plans */}
+            <Typography variant="subtitle1" fontWeight="bold">Maintenance Plans</Typography>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Plan</TableCell>
+                  <TableCell>Every</TableCell>
+                  <TableCell>Last done</TableCell>
+                  <TableCell>Next</TableCell>
+                  <TableCell />
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {details.plans.map((plan) => (
+                  <TableRow key={plan.plan_id}>
+                    <TableCell>{plan.name}</TableCell>
+                    <TableCell>
+                      {[plan.interval_days && `${plan.interval_days} days`, plan.interval_uses && `${plan.interval_uses} uses`]
+                        .filter(Boolean).join(' or ')}
+                    </TableCell>
+                    <TableCell>{plan.last_performed_at || '-'}</TableCell>
+                    <TableCell>
+                      <Chip
+                        label={planDueText(plan)}
+                        size="small"
+                        color={plan.is_overdue ? 'error' : plan.is_due_soon ? 'warning' : 'default'}
+                      />
+                    </TableCell>
+                    <TableCell align="right">
+                      <Tooltip title="Remove plan">
+                        <IconButton size="small" onClick={() => run(() => toolMaintenanceApi.deactivatePlan(plan.plan_id))}>
+                          <DeleteIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {details.plans.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={5} align="center">No maintenance plans</TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+            <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+              <TextField
+                size="small"
+                label="Plan name"
+                value={planForm.name}
+                onChange={(e) => setPlanForm({ ...planForm, name: e.target.value })}
+              />
+              <TextField
+                size="small"
+                label="Every N days"
+                type="number"
+                value={planForm.interval_days}
+                onChange={(e) => setPlanForm({ ...planForm, interval_days: e.target.value })}
+                sx={{ width: 130 }}
+              />
+              <TextField
+                size="small"
+                label="Every N uses"
+                type="number"
+                value={planForm.interval_uses}
+                onChange={(e) => setPlanForm({ ...planForm, interval_uses: e.target.value })}
+                sx={{ width: 130 }}
+              />
+              <Button
+                onClick={handleAddPlan}
+                disabled={!planForm.name.trim() || (!planForm.interval_days && !planForm.interval_uses)}
+              >
+                Add Plan
+              </Button>
+            </Box>
+
+            <Divider />
+
+            {/* Log */}
+            <Typography variant="subtitle1" fontWeight="bold">Maintenance Log</Typography>
+            <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', flexWrap: 'wrap' }}>
+              <TextField
+                select
+                size="small"
+                label="Plan"
+                value={logForm.plan_id}
+                onChange={(e) => setLogForm({ ...logForm, plan_id: e.target.value as number | '' })}
+                sx={{ minWidth: 160 }}
+              >
+                <MenuItem value="">Full service (all plans)</MenuItem>
+                {details.plans.map((plan) => <MenuItem key={plan.plan_id} value={plan.plan_id}>{plan.name}</MenuItem>)}
+              </TextField>
+              <TextField
+                size="small"
+                label="Date"
+                type="date"
+                value={logForm.performed_at}
+                onChange={(e) => setLogForm({ ...logForm, performed_at: e.target.value })}
+                InputLabelProps={{ shrink: true }}
+              />
+              <TextField
+                select
+                size="small"
+                label="Condition"
+                value={logForm.condition_status}
+                onChange={(e) => setLogForm({ ...logForm, condition_status: e.target.value })}
+                sx={{ minWidth: 140 }}
+              >
+                <MenuItem value="">(unchanged)</MenuItem>
+                {CONDITIONS.map((c) => <MenuItem key={c} value={c}>{c}</MenuItem>)}
+              </TextField>
+              <TextField
+                size="small"
+                label="Cost (€)"
+                type="number"
+                value={logForm.cost}
+                onChange={(e) => setLogForm({ ...logForm, cost: e.target.value })}
+                inputProps={{ step: '0.01', min: 0 }}
+                sx={{ width: 110 }}
+              />
+              <TextField
+                size="small"
+                label="Notes"
+                value={logForm.notes}
+                onChange={(e) => setLogForm({ ...logForm, notes: e.target.value })}
+                sx={{ flex: 1, minWidth: 160 }}
+              />
+              <Button variant="contained" startIcon={<BuildIcon />} onClick={handleLog}>Log</Button>
+            </Box>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Date</TableCell>
+                  <TableCell>Plan</TableCell>
+                  <TableCell>Condition</TableCell>
+                  <TableCell align="right">Cost</TableCell>
+                  <TableCell>Notes</TableCell>
+                  <TableCell>By</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {details.log.map((entry) => (
+                  <TableRow key={entry.log_id}>
+                    <TableCell>{entry.performed_at}</TableCell>
+                    <TableCell>{entry.plan_name || 'Full service'}</TableCell>
+                    <TableCell>{entry.condition_status || '-'}</TableCell>
+                    <TableCell align="right">{entry.cost !== null ? `€${Number(entry.cost).toFixed(2)}` : '-'}</TableCell>
+                    <TableCell>{entry.notes || '-'}</TableCell>
+                    <TableCell>
+                      {`${entry.performed_by_first_name || ''} ${entry.performed_by_last_name || ''}`.trim() || '-'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {details.log.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6} align="center">No maintenance logged</TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ToolMaintenanceDialog;
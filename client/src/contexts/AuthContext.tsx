@@ -13,6 +13,10 @@ interface User {
   city?: string;
   postal_code?: string;
   country?: string;
+  vat_id?: string;
+  customer_type?: 'private' | 'business' | 'education';
+  iban?: string;
+  bic?: string;
   role: 'admin' | 'customer' | 'provider' | 'production';
   created_at: string;
   last_login?: string;
@@ -1,5 +1,5 @@
 import React, { createContext, useContext, useState, ReactNode, useEffect } from 'react';
-import { Set as SetType, apiUrl, cartReservationApi, setsApi } from '../services/api';
+import { ParcelTerminal, Set as SetType, SetLimitingPart, ShippingOption, ShippingQuote, cartReservationApi, setsApi, shippingApi } from '../services/api';
 import { useAuth } from './AuthContext';
 
 export interface CartItem {
@@ -31,6 +31,8 @@ export interface StockValidationResult {
   valid: boolean;
   error?: string;
   parts_configured?: boolean;
+  buildable_quantity?: number;
+  limiting_part?: SetLimitingPart | null;
   insufficient_parts?: Array<{
     part_id: number;
     part_number: string;
@@ -51,24 +53,49 @@ export interface StockValidationResponse {
   };
 }
 
+export interface CartProviderGroup {
+  provider_id: number | null;
+  provider_name: string;
+  items: CartItem[];
+}
+
+const providerNameOf = (item: CartItem) => (item.provider_id
+  ? item.provider_code || item.provider_company || item.provider_name || 'Unknown Provider'
+  : 'MakerSet Platform');
+
 interface CartContextType {
   items: CartItem[];
   discount: number;
   discountCode: string | null;
   addToCart: (set: SetType, quantity?: number) => void;
   removeFromCart: (setId: number) => void;
-  updateQuantity: (setId: number, quantity: number) => void;
+  /** Rejects, with the quantity put back, when another cart holds the stock */
+  updateQuantity: (setId: number, quantity: number) => Promise<void>;
   clearCart: () => void;
   clearExpiredCart: () => boolean;
   getTotalItems: () => number;
+  /** Goods only */
+  getSubtotal: () => number;
+  /** Goods plus the selected shipping option */
   getTotalPrice: () => number;
   applyDiscount: (code: string, amount: number) => void;
   removeDiscount: () => void;
   isInCart: (setId: number) => boolean;
   getCartItem: (setId: number) => CartItem | undefined;
-  getShippingInfo: () => { cost: number; providerCount: number; description: string };
-  getCurrentProvider: () => { provider_id: number | null; provider_name: string | null } | null;
+  getShippingInfo: () => { cost: number; providerCount: number; description: string; option: ShippingOption | null };
+  shippingQuote: ShippingQuote | null;
+  shippingLoading: boolean;
+  shippingCountry: string;
+  setShippingCountry: (country: string) => void;
+  shippingOption: ShippingOption | null;
+  selectShippingOption: (optionId: string) => void;
+  /** Parcel terminal for a terminal delivery option; null when the option needs none or none is chosen */
+  shippingTerminal: ParcelTerminal | null;
+  selectShippingTerminal: (terminal: ParcelTerminal | null) => void;
+  /** Cart items by provider (platform sets together); checkout places a sub-order for each */
+  getProviderGroups: () => CartProviderGroup[];
   validateStock: () => Promise<StockValidationResponse>;
+  cartSessionId: string;
 }
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
@@ -86,29 +113,32 @@ interface CartProviderProps {
 }
 
 export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
-  const { isAuthenticated } = useAuth();
+  const { isAuthenticated, user } = useAuth();
   const [discount, setDiscount] = useState<number>(0);
   const [discountCode, setDiscountCode] = useState<string | null>(null);
-  const [shippingCost, setShippingCost] = useState<number>(15);
-  
-  // Fetch shipping cost from system settings
-  useEffect(() => {
-    const fetchShippingCost = async () => {
-      try {
-        const response = await fetch(apiUrl('/settings/shipping_handling_cost'));
-        if (response.ok) {
-          const data = await response.json();
-          const cost = parseFloat(data.setting?.setting_value || data.value || '15');
-          setShippingCost(cost);
-          console.log('✅ Loaded shipping cost from settings:', cost);
-        }
-      } catch (error) {
-        console.error('Error fetching shipping cost:', error);
-      }
-    };
-    
-    fetchShippingCost();
-  }, []);
+  const [shippingQuote, setShippingQuote] = useState<ShippingQuote | null>(null);
+  const [shippingLoading, setShippingLoading] = useState<boolean>(false);
+  const [shippingOptionId, setShippingOptionId] = useState<string | null>(() => localStorage.getItem('makerset_shipping_option'));
+  // Empty until chosen: the server then quotes to the user's country, or the company's own
+  const [shippingCountry, setShippingCountryState] = useState<string>(() => localStorage.getItem('makerset_shipping_country') || '');
+  const [savedTerminal, setSavedTerminal] = useState<ParcelTerminal | null>(() => {
+    try {
+      return JSON.parse(localStorage.getItem('makerset_shipping_terminal') || 'null');
+    } catch {
+      return null;
+    }
+  });
+
+  // Identifies this browser's cart to the server, which keeps stock holds per cart
+  const [cartSessionId] = useState<string>(() => {
+    const saved = localStorage.getItem('makerset_cart_session');
+    if (saved) {
+      return saved;
+    }
+    const created = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+    localStorage.setItem('makerset_cart_session', created);
+    return created;
+  });
   
   const [items, setItems] = useState<CartItem[]>(() => {
     // Load cart from localStorage on initialization
@@ -121,22 +151,8 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
         const maxAge = 7 * 24 * 60 * 60 * 1000; // 7 days in milliseconds
         
         if (cartAge < maxAge) {
-          const loadedItems: CartItem[] = JSON.parse(savedCart);
-          
-          // Validate that all items are from the same provider
-          const regularItems = loadedItems.filter(item => item.set_id !== -1);
-          if (regularItems.length > 0) {
-            const firstProviderId = regularItems[0].provider_id;
-            const hasMixedProviders = regularItems.some(item => item.provider_id !== firstProviderId);
-            
-            if (hasMixedProviders) {
-              console.warn('🛒 Cart contains items from different providers, clearing cart');
-              localStorage.removeItem('makerset_cart');
-              localStorage.removeItem('makerset_cart_timestamp');
-              return [];
-            }
-          }
-          
+          // Carts saved before shipping was quoted carry a handling fee line (set_id -1)
+          const loadedItems: CartItem[] = JSON.parse(savedCart).filter((item: CartItem) => item.set_id !== -1);
           return loadedItems;
         } else {
           // Cart is too old, clear it
@@ -161,6 +177,42 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
     }
   }, [items]);
 
+  // Quote shipping again whenever the cart or the destination changes
+  const destination = shippingCountry || user?.country || '';
+  useEffect(() => {
+    if (items.length === 0) {
+      setShippingQuote(null);
+      return;
+    }
+    let cancelled = false;
+    setShippingLoading(true);
+    shippingApi
+      .quote({
+        items: items.map(item => ({ set_id: item.set_id, quantity: item.quantity })),
+        country: destination || undefined,
+        subtotal: items.reduce((total, item) => total + item.total_price, 0),
+      })
+      .then((response) => {
+        if (!cancelled) {
+          setShippingQuote(response.data);
+        }
+      })
+      .catch((error) => {
+        console.error('Error quoting shipping:', error);
+        if (!cancelled) {
+          setShippingQuote(null);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setShippingLoading(false);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [items, destination]);
+
   const addToCart = async (set: SetType, quantity: number = 1) => {
     console.log('🛒 addToCart called with:', { set: set.name, quantity, isAuthenticated });
     console.log('🛒 Set parts:', set.parts);
@@ -188,17 +240,6 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
       }
     }
 
-    // Reserve stock on server (non-blocking for now)
-    try {
-      await cartReservationApi.reserve({ set_id: set.set_id, quantity });
-      console.log('✅ Stock reserved for set:', set.set_id);
-    } catch (error: any) {
-      console.error('❌ Failed to reserve stock:', error);
-      // Don't block adding to cart if reservation fails - just log it
-      // The stock will be checked at checkout time
-      console.warn('⚠️ Stock reservation failed, but continuing with cart addition');
-    }
-
     // Check if parts are configured for this set
     if (!set.parts || set.parts.length === 0) {
       console.log('🛒 Parts validation failed - no parts configured');
@@ -216,39 +257,26 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
       throw new Error('Cannot add to cart: No required parts configured for this set');
     }
 
-    console.log('🛒 All validations passed, checking provider restrictions...');
+    console.log('🛒 All validations passed, adding to cart...');
 
-    setItems(prevItems => {
-      // Check for single-provider restriction
-      const regularItems = prevItems.filter(item => item.set_id !== -1); // Exclude handling fees
-      
-      if (regularItems.length > 0) {
-        // Get the provider_id of the first item in cart
-        const firstItemProviderId = regularItems[0].provider_id;
-        const currentItemProviderId = set.provider_id;
-        
-        // Check if trying to add item from different provider
-        if (firstItemProviderId !== currentItemProviderId) {
-          // Use the same logic as getCurrentProvider for consistent naming
-          const firstItemProviderName = regularItems[0].provider_id === null 
-            ? 'MakerSet Platform'
-            : (regularItems[0].provider_code || regularItems[0].provider_company || regularItems[0].provider_name || 'Unknown Provider');
-          
-          const currentItemProviderName = set.provider_id === null
-            ? 'MakerSet Platform' 
-            : (set.provider_code || set.provider_company || set.provider_name || 'Unknown Provider');
-          
-          console.log('🛒 Provider restriction violated:', { 
-            firstItemProviderId, 
-            currentItemProviderId,
-            firstItemProviderName,
-            currentItemProviderName
-          });
-          
-          throw new Error(`Cannot add items from different providers to the same order. Your cart contains items from ${firstItemProviderName}. Please complete your current order or clear your cart before adding items from ${currentItemProviderName}.`);
-        }
+    // Hold the stock on the server; another cart already holding it blocks the add
+    try {
+      await cartReservationApi.reserve({
+        set_id: set.set_id,
+        quantity,
+        provider_set_id: set.provider_set_id,
+        session_id: cartSessionId,
+      });
+    } catch (error: any) {
+      if (error.response?.status === 409) {
+        throw new Error(error.response.data?.error || 'Not enough stock available');
       }
+      console.error('❌ Failed to reserve stock:', error);
+      // Other failures don't block adding to cart - the stock is checked again at checkout
+      console.warn('⚠️ Stock reservation failed, but continuing with cart addition');
+    }
 
+    setItems(prevItems => {
       const existingItem = prevItems.find(item => item.set_id === set.set_id);
       let updatedItems: CartItem[];
       
@@ -293,81 +321,60 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
         updatedItems = [...prevItems, newItem];
       }
       
-      // Check if we need to add handling fee
-      const finalItems = addHandlingFeeIfNeeded(updatedItems);
-      console.log('🛒 Items after adding to cart:', finalItems);
-      return finalItems;
+      console.log('🛒 Items after adding to cart:', updatedItems);
+      return updatedItems;
     });
   };
 
-  // Helper function to add or update handling fee
-  const addHandlingFeeIfNeeded = (items: CartItem[]): CartItem[] => {
-    const hasRegularItems = items.some(item => item.set_id !== -1);
-    
-    if (!hasRegularItems) {
-      // No regular items, remove any handling fees
-      return items.filter(item => item.set_id !== -1);
+  const removeFromCart = (setId: number) => {
+    if (isAuthenticated) {
+      cartReservationApi.release(setId, cartSessionId).catch((error) => {
+        console.error('Error releasing reservation:', error);
+      });
     }
-    
-    // Get shipping cost from state (loaded from system settings)
-    const currentShippingCost = shippingCost;
-    const shippingDescription = 'Handling, packaging, and transport costs for your order';
-    
-    // Create or update handling fee item
-    const handlingFeeItem: CartItem = {
-      set_id: -1, // Special ID for handling fee
-      set_name: 'Handling, Packaging & Transport',
-      set_description: shippingDescription,
-      category: 'Service',
-      difficulty_level: 'N/A',
-      recommended_age_min: 0,
-      recommended_age_max: 0,
-      estimated_duration_minutes: 0,
-      quantity: 1,
-      unit_price: currentShippingCost,
-      total_price: currentShippingCost,
-      image_url: undefined,
-    };
-    
-    // Remove any existing handling fees and add the new one
-    const itemsWithoutHandlingFee = items.filter(item => item.set_id !== -1);
-    return [...itemsWithoutHandlingFee, handlingFeeItem];
+    setItems(prevItems => prevItems.filter(item => item.set_id !== setId));
   };
 
-  const removeFromCart = (setId: number) => {
-    setItems(prevItems => {
-      const filteredItems = prevItems.filter(item => item.set_id !== setId);
-      return addHandlingFeeIfNeeded(filteredItems);
-    });
+  const setItemQuantity = (setId: number, quantity: number) => {
+    setItems(prevItems => prevItems.map(item =>
+      item.set_id === setId
+        ? {
+            ...item,
+            quantity,
+            total_price: quantity * item.unit_price
+          }
+        : item
+    ));
   };
 
-  const updateQuantity = (setId: number, quantity: number) => {
+  const updateQuantity = async (setId: number, quantity: number) => {
     if (quantity <= 0) {
       removeFromCart(setId);
       return;
     }
 
-    setItems(prevItems => {
-      const updatedItems = prevItems.map(item =>
-        item.set_id === setId
-          ? {
-              ...item,
-              quantity,
-              total_price: quantity * item.unit_price
-            }
-          : item
-      );
-      
-      return addHandlingFeeIfNeeded(updatedItems);
-    });
+    const item = items.find(cartItem => cartItem.set_id === setId);
+    setItemQuantity(setId, quantity);
+    if (!isAuthenticated || !item) {
+      return;
+    }
+
+    try {
+      await cartReservationApi.update(setId, { quantity, provider_set_id: item.provider_set_id, session_id: cartSessionId });
+    } catch (error: any) {
+      if (error.response?.status === 409) {
+        setItemQuantity(setId, item.quantity);
+        throw new Error(error.response.data?.error || 'Not enough stock available');
+      }
+      console.error('Error updating reservation:', error);
+    }
   };
 
   const clearCart = async () => {
     // Release reservations on server
     if (isAuthenticated) {
       try {
-        await cartReservationApi.releaseAll();
-        console.log('✅ Released cart reservations');
+        await cartReservationApi.releaseAll(cartSessionId);
       } catch (error) {
         console.error('Error releasing reservations:', error);
       }
@@ -402,10 +409,46 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
     return items.reduce((total, item) => total + item.quantity, 0);
   };
 
-  const getTotalPrice = () => {
+  // The chosen option while the quote still offers it, else the cheapest delivery
+  const shippingOption = shippingQuote
+    ? shippingQuote.options.find(option => option.id === shippingOptionId) || shippingQuote.options[0] || null
+    : null;
+
+  const selectShippingOption = (optionId: string) => {
+    setShippingOptionId(optionId);
+    localStorage.setItem('makerset_shipping_option', optionId);
+  };
+
+  // A saved terminal counts only for a terminal option of its carrier in the quoted country
+  const shippingTerminal = savedTerminal
+    && shippingOption?.delivery_type === 'terminal'
+    && savedTerminal.carrier.toLowerCase() === (shippingOption.carrier || '').toLowerCase()
+    && savedTerminal.country === shippingQuote?.country
+    ? savedTerminal
+    : null;
+
+  const selectShippingTerminal = (terminal: ParcelTerminal | null) => {
+    setSavedTerminal(terminal);
+    if (terminal) {
+      localStorage.setItem('makerset_shipping_terminal', JSON.stringify(terminal));
+    } else {
+      localStorage.removeItem('makerset_shipping_terminal');
+    }
+  };
+
+  const setShippingCountry = (country: string) => {
+    setShippingCountryState(country);
+    localStorage.setItem('makerset_shipping_country', country);
+  };
+
+  const getSubtotal = () => {
     return items.reduce((total, item) => total + item.total_price, 0);
   };
 
+  const getTotalPrice = () => {
+    return getSubtotal() + (shippingOption ? shippingOption.cost : 0);
+  };
+
   const isInCart = (setId: number) => {
     return items.some(item => item.set_id === setId);
   };
@@ -429,7 +472,7 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
         quantity: item.quantity
       }));
 
-      const response = await setsApi.validateStock(itemsToValidate);
+      const response = await setsApi.validateStock(itemsToValidate, cartSessionId);
       return response.data;
     } catch (error) {
       console.error('Error validating stock:', error);
@@ -438,44 +481,27 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
   };
 
   const getShippingInfo = () => {
-    const regularItems = items.filter(item => item.set_id !== -1);
-    
-    if (regularItems.length === 0) {
-      return { cost: 0, providerCount: 0, description: 'No items in cart' };
+    if (items.length === 0) {
+      return { cost: 0, providerCount: 0, description: 'No items in cart', option: null };
     }
-    
-    // Get shipping cost from state (loaded from system settings)
-    const currentShippingCost = shippingCost;
-    const description = 'Single shipment from one provider';
-    
-    return { cost: currentShippingCost, providerCount: 1, description };
+    const description = shippingOption
+      ? `${shippingOption.name}${shippingOption.carrier ? ` (${shippingOption.carrier})` : ''}`
+      : 'Shipping is quoted for your destination';
+    return { cost: shippingOption ? shippingOption.cost : 0, providerCount: getProviderGroups().length, description, option: shippingOption };
   };
 
-  const getCurrentProvider = () => {
-    const regularItems = items.filter(item => item.set_id !== -1); // Exclude handling fees
-    
-    if (regularItems.length === 0) {
-      return null; // No items in cart
-    }
-    
-    // Return the provider info from the first item
-    const firstItem = regularItems[0];
-    
-    // Handle admin sets (provider_id is null)
-    if (firstItem.provider_id === null) {
-      return {
-        provider_id: null,
-        provider_name: 'MakerSet Platform'
-      };
-    }
-    
-    // Handle provider sets
-    const result = {
-      provider_id: firstItem.provider_id || null,
-      provider_name: firstItem.provider_code || firstItem.provider_company || firstItem.provider_name || 'Unknown Provider'
-    };
-    
-    return result;
+  const getProviderGroups = () => {
+    const groups: CartProviderGroup[] = [];
+    items.forEach(item => {
+      const providerId = item.provider_id || null;
+      const group = groups.find(candidate => candidate.provider_id === providerId);
+      if (group) {
+        group.items.push(item);
+      } else {
+        groups.push({ provider_id: providerId, provider_name: providerNameOf(item), items: [item] });
+      }
+    });
+    return groups;
   };
 
   const applyDiscount = (code: string, amount: number) => {
@@ -498,14 +524,24 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
     clearCart,
     clearExpiredCart,
     getTotalItems,
+    getSubtotal,
     getTotalPrice,
     applyDiscount,
     removeDiscount,
     isInCart,
     getCartItem,
     getShippingInfo,
-    getCurrentProvider,
-    validateStock
+    shippingQuote,
+    shippingLoading,
+    shippingCountry: destination,
+    setShippingCountry,
+    shippingOption,
+    selectShippingOption,
+    shippingTerminal,
+    selectShippingTerminal,
+    getProviderGroups,
+    validateStock,
+    cartSessionId
   };
 
   return (
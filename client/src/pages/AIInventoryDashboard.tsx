@@ -1,11 +1,11 @@
 import React, { useState, useEffect } from 'react';
+import { renderError } from '../utils/errorUtils';
 import {
   Box,
   Card,
   CardContent,
   Typography,
   Grid,
-  LinearProgress,
   Alert,
   Button,
   CircularProgress,
@@ -17,49 +17,351 @@ import {
   TableRow,
   Paper,
   Chip,
-  IconButton,
   Tooltip,
+  TextField,
+  FormControlLabel,
+  Switch,
 } from '@mui/material';
 import {
   Refresh as RefreshIcon,
   TrendingUp as TrendingUpIcon,
-  TrendingDown as TrendingDownIcon,
   Warning as WarningIcon,
-  CheckCircle as CheckCircleIcon,
   Inventory as InventoryIcon,
-  AttachMoney as MoneyIcon,
   Assessment as AssessmentIcon,
 } from '@mui/icons-material';
+import { aiInventoryApi, DemandForecast, ForecastRange, PartDemandForecast, SchoolPhase } from '../services/api';
 
-interface AIInventoryAnalysis {
-  timestamp: string;
-  totalParts: number;
-  criticalRiskItems: number;
-  totalInventoryValue: number;
-  recommendations: string[];
-  riskAnalysis: any[];
-  costOptimization: any[];
-}
-
-interface AIInventorySummary {
-  totalParts: number;
-  criticalRiskItems: number;
-  totalInventoryValue: number;
-  lastUpdated: string;
-}
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const PHASE_LABELS: Record<SchoolPhase, string> = {
+  term: 'Term',
+  year_end: 'Year end',
+  summer_break: 'Summer break',
+  back_to_school: 'Back to school',
+};
+
+const PHASE_COLORS: Record<SchoolPhase, string> = {
+  term: '#1976d2',
+  year_end: '#9c27b0',
+  summer_break: '#ed6c02',
+  back_to_school: '#2e7d32',
+};
+
+// School year order: September first
+const SCHOOL_YEAR_MONTHS = [9, 10, 11, 12, 1, 2, 3, 4, 5, 6, 7, 8];
+
+const formatRange = (range: ForecastRange) =>
+  `${Math.round(range.point)} (${Math.round(range.lower)}–${Math.round(range.upper)})`;
+
+const formatPercent = (value: number | null | undefined) =>
+  value === null || value === undefined ? '—' : `${Math.round(value * 100)}%`;
+
+const skillColor = (skill: number | null | undefined): 'success' | 'warning' | 'error' | 'default' => {
+  if (skill === null || skill === undefined) {
+    return 'default';
+  }
+  if (skill > 0.2) {
+    return 'success';
+  }
+  return skill > 0 ? 'warning' : 'error';
+};
+
+const monthLabel = (month: string) => `${MONTH_NAMES[Number(month.slice(5, 7)) - 1]} ${month.slice(2, 4)}`;
 
 const AIInventoryDashboard: React.FC = () => {
+  const [forecast, setForecast] = useState<DemandForecast | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [reorderOnly, setReorderOnly] = useState(false);
+  const [selected, setSelected] = useState<PartDemandForecast | null>(null);
+
+  const loadForecast = async (refresh = false) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await aiInventoryApi.getForecast(refresh);
+      setForecast(response.data.data);
+      setSelected(null);
+    } catch (err) {
+      setError(renderError(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadForecast();
+  }, []);
+
+  const parts = (forecast?.parts || []).filter((part) => {
+    const term = search.trim().toLowerCase();
+    const matches = !term
+      || part.part_number.toLowerCase().includes(term)
+      || (part.part_name || '').toLowerCase().includes(term);
+    return matches && (!reorderOnly || part.reorder.needs_reorder);
+  });
+  const needsReorder = (forecast?.parts || []).filter((part) => part.reorder.needs_reorder).length;
+  const demand90 = (forecast?.parts || []).reduce((sum, part) => sum + part.forecast_90.point, 0);
+  const confidence = Math.round((forecast?.confidence || 0.9) * 100);
+  const profile = new Map((forecast?.seasonal_profile || []).map((entry) => [entry.month, entry]));
+  const maxIndex = Math.max(1, ...(forecast?.seasonal_profile || []).map((entry) => entry.index));
+
   return (
     <Box p={3}>
-      <Typography variant="h4" gutterBottom>
-        AI Inventory Dashboard
-      </Typography>
-      <Alert severity="info">
-        AI Inventory Dashboard is temporarily disabled due to compatibility issues. 
-        The main shopping cart and order functionality is working correctly.
-      </Alert>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
+        <Box>
+          <Typography variant="h4">AI Inventory Dashboard</Typography>
+          {forecast && (
+            <Typography variant="body2" color="text.secondary">
+              Demand forecast from order history through {forecast.history_through} · school year {forecast.school_year} · {confidence}% intervals
+            </Typography>
+          )}
+        </Box>
+        <Button
+          variant="outlined"
+          startIcon={loading ? <CircularProgress size={16} /> : <RefreshIcon />}
+          onClick={() => loadForecast(true)}
+          disabled={loading}
+        >
+          Refit
+        </Button>
+      </Box>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>{error}</Alert>}
+
+      {loading && !forecast && (
+        <Box display="flex" justifyContent="center" p={4}><CircularProgress /></Box>
+      )}
+
+      {forecast && (
+        <>
+          <Grid container spacing={2} sx={{ mb: 3 }}>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <Card>
+                <CardContent>
+                  <Box display="flex" alignItems="center" gap={1}>
+                    <InventoryIcon color="primary" />
+                    <Typography variant="subtitle2" color="text.secondary">Parts forecast</Typography>
+                  </Box>
+                  <Typography variant="h5">{forecast.parts.length}</Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <Card>
+                <CardContent>
+                  <Box display="flex" alignItems="center" gap={1}>
+                    <WarningIcon color={needsReorder > 0 ? 'warning' : 'disabled'} />
+                    <Typography variant="subtitle2" color="text.secondary">At or below reorder point</Typography>
+                  </Box>
+                  <Typography variant="h5">{needsReorder}</Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <Card>
+                <CardContent>
+                  <Box display="flex" alignItems="center" gap={1}>
+                    <TrendingUpIcon color="primary" />
+                    <Typography variant="subtitle2" color="text.secondary">Demand next 90 days</Typography>
+                  </Box>
+                  <Typography variant="h5">{Math.round(demand90)} units</Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <Card>
+                <CardContent>
+                  <Box display="flex" alignItems="center" gap={1}>
+                    <AssessmentIcon color="primary" />
+                    <Typography variant="subtitle2" color="text.secondary">Back-test</Typography>
+                  </Box>
+                  <Typography variant="h5">
+                    {forecast.backtest.mape === null ? '—' : `${forecast.backtest.mape}% MAPE`}
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary">
+                    {forecast.backtest.parts_tested} parts · skill {formatPercent(forecast.backtest.skill)} vs. naive ·
+                    {' '}{formatPercent(forecast.backtest.interval_coverage)} within interval
+                  </Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+          </Grid>
+
+          <Card sx={{ mb: 3 }}>
+            <CardContent>
+              <Typography variant="h6" gutterBottom>School-year seasonal profile</Typography>
+              <Typography variant="body2" color="text.secondary" gutterBottom>
+                Demand per month relative to an average month (1.0), all parts pooled
+              </Typography>
+              {profile.size === 0 ? (
+                <Alert severity="info">No order history yet.</Alert>
+              ) : (
+                <Box display="flex" alignItems="flex-end" gap={1} sx={{ height: 160, mt: 2 }}>
+                  {SCHOOL_YEAR_MONTHS.map((month) => {
+                    const entry = profile.get(month);
+                    if (!entry) {
+                      return null;
+                    }
+                    return (
+                      <Tooltip key={month} title={`${PHASE_LABELS[entry.school_phase]}: ${entry.index.toFixed(2)}`}>
+                        <Box flex={1} textAlign="center">
+                          <Typography variant="caption">{entry.index.toFixed(2)}</Typography>
+                          <Box
+                            sx={{
+                              height: `${(entry.index / maxIndex) * 110}px`,
+                              bgcolor: PHASE_COLORS[entry.school_phase],
+                              borderRadius: 0.5,
+                            }}
+                          />
+                          <Typography variant="caption">{MONTH_NAMES[month - 1]}</Typography>
+                        </Box>
+                      </Tooltip>
+                    );
+                  })}
+                </Box>
+              )}
+              <Box display="flex" gap={1} mt={1} flexWrap="wrap">
+                {(Object.keys(PHASE_LABELS) as SchoolPhase[]).map((phase) => (
+                  <Chip
+                    key={phase}
+                    size="small"
+                    label={PHASE_LABELS[phase]}
+                    sx={{ bgcolor: PHASE_COLORS[phase], color: '#fff' }}
+                  />
+                ))}
+              </Box>
+            </CardContent>
+          </Card>
+
+          <Box display="flex" gap={2} alignItems="center" mb={2}>
+            <TextField
+              size="small"
+              label="Search parts"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+            <FormControlLabel
+              control={<Switch checked={reorderOnly} onChange={(e) => setReorderOnly(e.target.checked)} />}
+              label="Needs reorder only"
+            />
+          </Box>
+
+          <TableContainer component={Paper} sx={{ mb: 3 }}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Part</TableCell>
+                  <TableCell align="right">Stock</TableCell>
+                  <TableCell align="right">Next 30 days</TableCell>
+                  <TableCell align="right">Next 90 days</TableCell>
+                  <TableCell align="right">Back-test MAPE</TableCell>
+                  <TableCell align="right">Skill</TableCell>
+                  <TableCell align="right">Lead-time demand</TableCell>
+                  <TableCell align="right">Safety stock</TableCell>
+                  <TableCell align="right">Reorder point</TableCell>
+                  <TableCell align="right">Days of cover</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {parts.map((part) => (
+                  <TableRow
+                    key={part.part_id}
+                    hover
+                    selected={selected?.part_id === part.part_id}
+                    onClick={() => setSelected(part)}
+                    sx={{ cursor: 'pointer' }}
+                  >
+                    <TableCell>
+                      <Typography variant="body2" fontWeight="bold">{part.part_number}</Typography>
+                      <Typography variant="caption" color="text.secondary">
+                        {part.part_name} · {part.history_months} months of history
+                      </Typography>
+                    </TableCell>
+                    <TableCell align="right">{part.stock_quantity}</TableCell>
+                    <TableCell align="right">{formatRange(part.forecast_30)}</TableCell>
+                    <TableCell align="right">{formatRange(part.forecast_90)}</TableCell>
+                    <TableCell align="right">
+                      {part.backtest?.mape === null || part.backtest?.mape === undefined ? '—' : `${part.backtest.mape}%`}
+                    </TableCell>
+                    <TableCell align="right">
+                      <Chip size="small" color={skillColor(part.backtest?.skill)} label={formatPercent(part.backtest?.skill)} />
+                    </TableCell>
+                    <TableCell align="right">
+                      {part.reorder.lead_time_demand === null ? '—' : Math.round(part.reorder.lead_time_demand)}
+                      <Typography variant="caption" color="text.secondary" display="block">
+                        {part.reorder.lead_time_days} days
+                      </Typography>
+                    </TableCell>
+                    <TableCell align="right">
+                      {part.reorder.safety_stock === null ? '—' : Math.round(part.reorder.safety_stock)}
+                    </TableCell>
+                    <TableCell align="right">
+                      {part.reorder.needs_reorder ? (
+                        <Tooltip title={`Order ${part.reorder.suggested_quantity}`}>
+                          <Chip size="small" color="warning" label={part.reorder.reorder_point} />
+                        </Tooltip>
+                      ) : part.reorder.reorder_point}
+                    </TableCell>
+                    <TableCell align="right">{part.reorder.days_of_cover ?? '—'}</TableCell>
+                  </TableRow>
+                ))}
+                {parts.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={10} align="center">
+                      <Typography color="text.secondary">No parts with order history</Typography>
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </TableContainer>
+
+          {selected && (
+            <Card>
+              <CardContent>
+                <Typography variant="h6" gutterBottom>
+                  {selected.part_number} {selected.part_name}: next six months
+                </Typography>
+                <Typography variant="body2" color="text.secondary" gutterBottom>
+                  Fitted on orders since {selected.fitted_from} · {selected.total_usage_12_months} units in the last 12 months
+                  · last used {selected.last_used_date}
+                  {selected.backtest && ` · back-tested on ${selected.backtest.months_tested} months, bias ${selected.backtest.bias}`}
+                </Typography>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Month</TableCell>
+                      <TableCell>Phase</TableCell>
+                      <TableCell align="right">Forecast</TableCell>
+                      <TableCell align="right">{confidence}% interval</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {selected.monthly.map((month) => (
+                      <TableRow key={month.month}>
+                        <TableCell>{monthLabel(month.month)}</TableCell>
+                        <TableCell>
+                          <Chip
+                            size="small"
+                            label={PHASE_LABELS[month.school_phase]}
+                            sx={{ bgcolor: PHASE_COLORS[month.school_phase], color: '#fff' }}
+                          />
+                        </TableCell>
+                        <TableCell align="right">{Math.round(month.point)}</TableCell>
+                        <TableCell align="right">{Math.round(month.lower)}–{Math.round(month.upper)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
     </Box>
   );
 };
 
-export default AIInventoryDashboard;
\ No newline at end of file
+export default AIInventoryDashboard;
@@ -33,13 +33,7 @@ import {
   TextField,
   DialogContentText,
   Divider,
-  List,
-  ListItem,
-  ListItemText,
   ListItemSecondaryAction,
-  Accordion,
-  AccordionSummary,
-  AccordionDetails,
 } from '@mui/material';
 import {
   TrendingUp as TrendingUpIcon,
@@ -58,13 +52,12 @@ import {
   Warning as WarningIcon,
   CheckCircle as CheckCircleIcon,
   Upload as UploadIcon,
-  ExpandMore as ExpandMoreIcon,
   FileUpload as FileUploadIcon,
   Schedule as ScheduleIcon,
   Share as ShareIcon,
 } from '@mui/icons-material';
 import { useLanguage } from '../contexts/LanguageContext';
-import api, { setsApi, partsApi, ordersApi, authApi, setPartsApi } from '../services/api';
+import api, { setsApi, partsApi, ordersApi, authApi, setPartsApi, bankImportApi, BankImportSummary } from '../services/api';
 import AutomatedReportingSection from '../components/AutomatedReportingSection';
 
 interface ProviderStats {
@@ -214,7 +207,7 @@ const AnalyticsPage: React.FC = () => {
     payment_date: ''
   });
   const [bankImportDialogOpen, setBankImportDialogOpen] = useState(false);
-  const [bankImportResults, setBankImportResults] = useState<any>(null);
+  const [bankImportResults, setBankImportResults] = useState<{ message: string; summary: BankImportSummary } | null>(null);
   const [bankImportFile, setBankImportFile] = useState<File | null>(null);
   const [bankImportLoading, setBankImportLoading] = useState(false);
   const [socialShareStats, setSocialShareStats] = useState<any>(null);
@@ -240,7 +233,7 @@ const AnalyticsPage: React.FC = () => {
       const [setsResponse, partsResponse, ordersResponse, usersResponse, providerStatsResponse, salesManagementResponse] = await Promise.all([
         setsApi.getAll(),
         partsApi.getAll(),
-        ordersApi.getAll(),
+        ordersApi.getAll({ level: 'customer' }),
         authApi.getUsers().catch(() => ({ data: [] })), // Handle auth error gracefully
         ordersApi.getProviderStats().catch(() => ({ data: { provider_stats: [], total_providers: 0, total_revenue: 0, total_orders: 0, total_payout_amount: 0 } })), // Handle provider stats error gracefully
         ordersApi.getSalesManagement().catch(() => ({ data: { sales: [], total_orders: 0, total_amount: 0, paid_amount: 0, pending_amount: 0 } })) // Handle sales management error gracefully
@@ -716,75 +709,16 @@ const AnalyticsPage: React.FC = () => {
     }
   };
 
-  const parseCSVFile = (file: File): Promise<any[]> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        try {
-          const text = e.target?.result as string;
-          const lines = text.split('\n').filter(line => line.trim());
-          const headers = lines[0].split(',').map(h => h.trim().replace(/"/g, ''));
-          
-          const transactions = lines.slice(1).map(line => {
-            const values = line.split(',').map(v => v.trim().replace(/"/g, ''));
-            const transaction: any = {};
-            
-            headers.forEach((header, index) => {
-              const value = values[index] || '';
-              switch (header.toLowerCase()) {
-                case 'amount':
-                case 'sum':
-                case 'value':
-                  transaction.amount = value;
-                  break;
-                case 'date':
-                case 'transaction_date':
-                case 'payment_date':
-                  transaction.date = value;
-                  break;
-                case 'reference':
-                case 'ref':
-                case 'payment_reference':
-                  transaction.reference = value;
-                  break;
-                case 'description':
-                case 'memo':
-                case 'note':
-                  transaction.description = value;
-                  break;
-                default:
-                  transaction[header.toLowerCase()] = value;
-              }
-            });
-            
-            return transaction;
-          }).filter(t => t.amount && t.date);
-          
-          resolve(transactions);
-        } catch (error) {
-          reject(error);
-        }
-      };
-      reader.onerror = () => reject(new Error('Failed to read file'));
-      reader.readAsText(file);
-    });
-  };
-
   const handleBankImport = async () => {
     if (!bankImportFile) return;
 
     setBankImportLoading(true);
     try {
-      const transactions = await parseCSVFile(bankImportFile);
-      
-      const response = await ordersApi.processBankImport(transactions);
+      const response = await bankImportApi.upload(bankImportFile);
       setBankImportResults(response.data);
-      
-      // Refresh analytics data
-      await fetchAnalyticsData();
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error processing bank import:', error);
-      setError('Failed to process bank import');
+      setError(error.response?.data?.error || 'Failed to process bank import');
     } finally {
       setBankImportLoading(false);
     }
@@ -1052,14 +986,14 @@ const AnalyticsPage: React.FC = () => {
         </DialogTitle>
         <DialogContent>
           <DialogContentText sx={{ mb: 2 }}>
-            Upload a CSV file with bank transactions to automatically match and mark payments for orders.
+            Upload a bank statement to match incoming payments to orders. Matches are confirmed under Order Management → Bank Payments.
           </DialogContentText>
           
           {!bankImportResults ? (
             <Box>
               <Box sx={{ mb: 2 }}>
                 <input
-                  accept=".csv"
+                  accept=".xml,.csv,.txt"
                   style={{ display: 'none' }}
                   id="bank-import-file"
                   type="file"
@@ -1072,7 +1006,7 @@ const AnalyticsPage: React.FC = () => {
                     startIcon={<UploadIcon />}
                     sx={{ mb: 2 }}
                   >
-                    Choose CSV File
+                    Choose Statement File
                   </Button>
                 </label>
                 {bankImportFile && (
@@ -1084,12 +1018,12 @@ const AnalyticsPage: React.FC = () => {
               
               <Alert severity="info" sx={{ mb: 2 }}>
                 <Typography variant="body2">
-                  <strong>CSV Format Requirements:</strong><br/>
-                  • Amount column (amount, sum, value)<br/>
-                  • Date column (date, transaction_date, payment_date)<br/>
-                  • Reference column (reference, ref, payment_reference) - optional<br/>
-                  • Description column (description, memo, note) - optional<br/><br/>
-                  The system will match transactions to orders based on amount (±€0.01) and date (±30 days).
+                  <strong>Supported formats:</strong><br/>
+                  • ISO 20022 camt.053 XML statements<br/>
+                  • CSV exports from Swedbank, SEB, LHV, Nordea and OP<br/>
+                  • Other CSV files with date and amount columns (reference and description optional)<br/><br/>
+                  Incoming payments are matched to unpaid orders by order or invoice number, amount and payer name.
+                  Statement lines that were imported before are skipped.
                 </Typography>
               </Alert>
             </Box>
@@ -1107,85 +1041,29 @@ const AnalyticsPage: React.FC = () => {
               <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: 2, mb: 2 }}>
                 <Box textAlign="center">
                   <Typography variant="h4" color="primary">
-                    {bankImportResults.results.processed}
+                    {bankImportResults.summary.imported}
                   </Typography>
-                  <Typography variant="body2">Processed</Typography>
+                  <Typography variant="body2">Imported</Typography>
                 </Box>
                 <Box textAlign="center">
                   <Typography variant="h4" color="success.main">
-                    {bankImportResults.results.matched}
+                    {bankImportResults.summary.matched}
                   </Typography>
-                  <Typography variant="body2">Matched</Typography>
+                  <Typography variant="body2">With Suggested Orders</Typography>
                 </Box>
                 <Box textAlign="center">
                   <Typography variant="h4" color="warning.main">
-                    {bankImportResults.results.unmatched}
+                    {bankImportResults.summary.unmatched}
                   </Typography>
                   <Typography variant="body2">Unmatched</Typography>
                 </Box>
                 <Box textAlign="center">
-                  <Typography variant="h4" color="error.main">
-                    {bankImportResults.results.errors}
+                  <Typography variant="h4" color="text.secondary">
+                    {bankImportResults.summary.duplicates}
                   </Typography>
-                  <Typography variant="body2">Errors</Typography>
+                  <Typography variant="body2">Already Imported</Typography>
                 </Box>
               </Box>
-
-              {bankImportResults.results.matches.length > 0 && (
-                <Accordion sx={{ mb: 2 }}>
-                  <AccordionSummary expandIcon={<ExpandMoreIcon />}>
-                    <Typography variant="h6">
-                      Successfully Matched ({bankImportResults.results.matches.length})
-                    </Typography>
-                  </AccordionSummary>
-                  <AccordionDetails>
-                    <List>
-                      {bankImportResults.results.matches.map((match: any, index: number) => (
-                        <ListItem key={index}>
-                          <ListItemText
-                            primary={`Order ${match.order.order_number} - ${match.order.customer_name}`}
-                            secondary={`€${match.transaction.amount} - ${match.order.provider_company}`}
-                          />
-                        </ListItem>
-                      ))}
-                    </List>
-                  </AccordionDetails>
-                </Accordion>
-              )}
-
-              {bankImportResults.results.unmatched_transactions.length > 0 && (
-                <Accordion>
-                  <AccordionSummary expandIcon={<ExpandMoreIcon />}>
-                    <Typography variant="h6">
-                      Unmatched Transactions ({bankImportResults.results.unmatched_transactions.length})
-                    </Typography>
-                  </AccordionSummary>
-                  <AccordionDetails>
-                    <List>
-                      {bankImportResults.results.unmatched_transactions.map((unmatched: any, index: number) => (
-                        <ListItem key={index}>
-                          <ListItemText
-                            primary={`€${unmatched.transaction.amount} - ${unmatched.transaction.date}`}
-                            secondary={`Reason: ${unmatched.reason}`}
-                          />
-                          {unmatched.matching_orders && (
-                            <Box sx={{ mt: 1 }}>
-                              <Typography variant="caption" color="textSecondary">
-                                Possible matches:
-                              </Typography>
-                              {unmatched.matching_orders.map((order: any, orderIndex: number) => (
-                                <Typography key={orderIndex} variant="caption" display="block">
-                                  • Order {order.order_number} - €{order.amount} - {order.customer_name}
-                                </Typography>
-                              ))}
-                            </Box>
-                          )}
-                        </ListItem>
-                      ))}
-                    </List>
-                  </AccordionDetails>
-                </Accordion>
-              )}
             </Box>
           )}
         </DialogContent>
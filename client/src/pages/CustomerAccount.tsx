@@ -48,14 +48,16 @@ import {
   Settings as SettingsIcon,
   Close as CloseIcon,
   Receipt as ReceiptIcon,
+  AssignmentReturn as ReturnIcon,
 } from '@mui/icons-material';
 import { useNavigate } from 'react-router-dom';
 import { useLanguage } from '../contexts/LanguageContext';
 import { useAuth } from '../contexts/AuthContext';
-import { ordersApi, setsApi, favoritesApi, creditsApi, Set as SetType, Order, OrderItem } from '../services/api';
-import { SimpleInvoiceService, InvoiceData } from '../services/simpleInvoiceService';
-import { SystemSettingsService } from '../services/systemSettingsService';
+import { ordersApi, setsApi, favoritesApi, creditsApi, returnsApi, Set as SetType, Order, OrderItem, ReturnRequest } from '../services/api';
+import { SimpleInvoiceService } from '../services/simpleInvoiceService';
 import LibreTranslateStatus from '../components/LibreTranslateStatus';
+import ReturnRequestDialog from '../components/ReturnRequestDialog';
+import ReturnRequestDetails from '../components/ReturnRequestDetails';
 import LocalOfferIcon from '@mui/icons-material/LocalOffer';
 
 interface FavoriteSet {
@@ -67,7 +69,7 @@ interface FavoriteSet {
 }
 
 const CustomerAccount: React.FC = () => {
-  const { t } = useLanguage();
+  const { t, currentLanguage } = useLanguage();
   const { user, updateProfile } = useAuth();
   const navigate = useNavigate();
   const [loading, setLoading] = useState(false);
@@ -76,6 +78,9 @@ const CustomerAccount: React.FC = () => {
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [orderDetailsOpen, setOrderDetailsOpen] = useState(false);
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
+  const [orderReturns, setOrderReturns] = useState<ReturnRequest[]>([]);
+  const [returnDialogOpen, setReturnDialogOpen] = useState(false);
+  const [cancellingReturnId, setCancellingReturnId] = useState<number | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [invoiceLoading, setInvoiceLoading] = useState<number | null>(null);
@@ -93,6 +98,10 @@ const CustomerAccount: React.FC = () => {
     city: (user as any)?.city || '',
     postal_code: (user as any)?.postal_code || '',
     country: (user as any)?.country || '',
+    vat_id: user?.vat_id || '',
+    customer_type: user?.customer_type || 'private',
+    iban: user?.iban || '',
+    bic: user?.bic || '',
     country_code: (user as any)?.country_code || '+372', // Default to Estonia
   });
 
@@ -189,6 +198,10 @@ const CustomerAccount: React.FC = () => {
         city: (user as any)?.city || '',
         postal_code: (user as any)?.postal_code || '',
         country: (user as any)?.country || '',
+        vat_id: user.vat_id || '',
+        customer_type: user.customer_type || 'private',
+        iban: user.iban || '',
+        bic: user.bic || '',
         country_code: phoneData.countryCode,
       });
     }
@@ -209,6 +222,10 @@ const CustomerAccount: React.FC = () => {
         city: (user as any)?.city || '',
         postal_code: (user as any)?.postal_code || '',
         country: (user as any)?.country || '',
+        vat_id: user.vat_id || '',
+        customer_type: user.customer_type || 'private',
+        iban: user.iban || '',
+        bic: user.bic || '',
         country_code: phoneData.countryCode,
       });
     }
@@ -218,7 +235,7 @@ const CustomerAccount: React.FC = () => {
     setLoading(true);
     try {
       // Fetch orders for the current user using customer_id parameter
-      const ordersResponse = await ordersApi.getAll({ customer_id: user?.user_id });
+      const ordersResponse = await ordersApi.getAll({ customer_id: user?.user_id, level: 'customer' });
       const userOrders = ordersResponse.data.orders || [];
       
       setOrders(userOrders);
@@ -294,6 +311,10 @@ const CustomerAccount: React.FC = () => {
         city: (user as any)?.city || '',
         postal_code: (user as any)?.postal_code || '',
         country: (user as any)?.country || '',
+        vat_id: user.vat_id || '',
+        customer_type: user.customer_type || 'private',
+        iban: user.iban || '',
+        bic: user.bic || '',
         country_code: phoneData.countryCode,
       };
       
@@ -331,7 +352,11 @@ const CustomerAccount: React.FC = () => {
       console.log('Order data:', orderData);
       
       setSelectedOrder(orderData);
+      setOrderReturns([]);
       setOrderDetailsOpen(true);
+      returnsApi.getAll({ order_id: order.order_id })
+        .then(returnsResponse => setOrderReturns(returnsResponse.data.requests))
+        .catch(returnsError => console.error('Error fetching return requests:', returnsError));
       console.log('Order details dialog opened');
     } catch (error: any) {
       console.error('Error fetching order details:', error);
@@ -342,12 +367,31 @@ const CustomerAccount: React.FC = () => {
   };
 
 
+  // Problems can be reported once any parcel of the order has gone out
+  const canReportProblem = (order: Order) => [order, ...(order.sub_orders || [])]
+    .some(o => ['shipped', 'delivered'].includes(String(o.status).toLowerCase()));
+
+  const handleCancelReturn = async (request: ReturnRequest) => {
+    setCancellingReturnId(request.return_id);
+    try {
+      const response = await returnsApi.updateStatus(request.return_id, { status: 'cancelled' });
+      setOrderReturns(prev => prev.map(r => (r.return_id === request.return_id ? response.data.request : r)));
+    } catch (err) {
+      setError(renderError(err));
+    } finally {
+      setCancellingReturnId(null);
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status.toLowerCase()) {
-      case 'completed': return 'success';
-      case 'processing': return 'warning';
+      case 'delivered': return 'success';
+      case 'shipped': return 'primary';
+      case 'confirmed':
+      case 'in_production': return 'warning';
       case 'pending': return 'info';
-      case 'cancelled': return 'error';
+      case 'cancelled':
+      case 'returned': return 'error';
       default: return 'default';
     }
   };
@@ -362,54 +406,9 @@ const CustomerAccount: React.FC = () => {
         throw new Error('Invalid order data');
       }
 
-      // Get system settings for invoice
-      const settings = SystemSettingsService.getSettings();
-      const invoiceSettings = SystemSettingsService.getInvoiceSettings();
-      
-      // Create invoice data
-      const invoiceData: InvoiceData = {
-        invoiceNumber: `INV-${order.order_id.toString().padStart(6, '0')}`,
-        orderNumber: order.order_number || `ORD-${order.order_id}`,
-        date: order.created_at ? new Date(order.created_at).toLocaleDateString() : new Date().toLocaleDateString(),
-        dueDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toLocaleDateString(), // 30 days from now
-        company: {
-          name: settings.companyName || 'MakerSet Solutions',
-          address: settings.companyAddress || '123 Innovation Street, Tech City, TC 12345, Estonia',
-          phone: settings.companyPhone || '+372 123 4567',
-          email: settings.companyEmail || 'info@makerset.com',
-          website: settings.companyWebsite || 'www.makerset.com',
-          taxId: settings.companyTaxId || 'EE123456789',
-          bankAccount: {
-            bankName: settings.bankName || 'Estonian Bank',
-            accountNumber: settings.bankAccountNumber || '1234567890',
-            iban: settings.bankIban || 'EE123456789012345678',
-            swift: settings.bankSwift || 'ESTBEE2X'
-          }
-        },
-        customer: {
-          name: `${order.customer_first_name || 'Customer'} ${order.customer_last_name || 'Name'}`,
-          company: order.company_name || '',
-          email: order.customer_email || 'customer@example.com',
-          address: order.shipping_address || 'No address provided'
-        },
-        items: (order.items && Array.isArray(order.items)) ? order.items.map(item => ({
-          description: item.set_name || 'Maker Set',
-          quantity: item.quantity,
-          unitPrice: parseFloat(item.unit_price?.toString() || '0'),
-          total: parseFloat(item.line_total?.toString() || item.unit_price?.toString() || '0')
-        })) : [],
-        subtotal: parseFloat(order.total_amount?.toString() || '0'),
-        taxRate: invoiceSettings.taxRate || 0.20, // Default 20% VAT
-        taxAmount: parseFloat(order.total_amount?.toString() || '0') * (invoiceSettings.taxRate || 0.20),
-        total: parseFloat(order.total_amount?.toString() || '0') * (1 + (invoiceSettings.taxRate || 0.20)),
-        notes: order.notes || '',
-        status: order.status,
-        paymentTerms: invoiceSettings.paymentTerms || 'Payment due within 30 days'
-      };
-
-      // Generate and download invoice
-      const templateId = invoiceSettings.template || 'modern';
-      SimpleInvoiceService.downloadInvoice(invoiceData, templateId);
+      // The server issues the invoice once and returns the stored copy afterwards
+      const invoice = await SimpleInvoiceService.getInvoiceForOrder(order.order_id, currentLanguage);
+      await SimpleInvoiceService.downloadInvoice(invoice);
       
       setSuccess('Invoice downloaded successfully!');
       setTimeout(() => setSuccess(null), 3000);
@@ -451,6 +450,13 @@ const CustomerAccount: React.FC = () => {
         city: profileData.city.trim(),
         postal_code: profileData.postal_code.trim(),
         country: profileData.country.trim(),
+        vat_id: profileData.vat_id.trim(),
+        customer_type: profileData.customer_type,
+        // Provider payouts are sent by SEPA transfer to this account
+        ...(user?.role === 'provider' && {
+          iban: profileData.iban.trim(),
+          bic: profileData.bic.trim(),
+        }),
       };
       
       console.log('Data being sent to API:', dataToSend);
@@ -730,6 +736,12 @@ const CustomerAccount: React.FC = () => {
                             color={getStatusColor(order.status) as any}
                             size="small"
                           />
+                          {(order.sub_orders?.length || 0) > 0 && (
+                            <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 0.5 }}>
+                              {order.sub_orders!.filter(subOrder => ['shipped', 'delivered'].includes(subOrder.status)).length}
+                              {' of '}{order.sub_orders!.length} parcels shipped
+                            </Typography>
+                          )}
                         </TableCell>
                         <TableCell>
                           <IconButton
@@ -939,6 +951,55 @@ const CustomerAccount: React.FC = () => {
                 </Select>
               </FormControl>
             </Box>
+            <Box>
+              <FormControl fullWidth>
+                <InputLabel htmlFor="customer-type">Customer Type</InputLabel>
+                <Select
+                  id="customer-type"
+                  name="customer-type"
+                  value={profileData.customer_type}
+                  label="Customer Type"
+                  onChange={(e) => setProfileData(prev => ({ ...prev, customer_type: e.target.value as 'private' | 'business' | 'education' }))}
+                >
+                  <MenuItem value="private">Private person</MenuItem>
+                  <MenuItem value="business">Business</MenuItem>
+                  <MenuItem value="education">Educational institution</MenuItem>
+                </Select>
+              </FormControl>
+            </Box>
+            <Box>
+              <TextField
+                fullWidth
+                label="EU VAT ID (Optional)"
+                value={profileData.vat_id}
+                onChange={(e) => setProfileData(prev => ({ ...prev, vat_id: e.target.value }))}
+                placeholder="e.g. FI12345678"
+                helperText="Businesses in other EU countries with a valid VAT ID are invoiced under reverse charge"
+              />
+            </Box>
+            {user?.role === 'provider' && (
+              <>
+                <Box>
+                  <TextField
+                    fullWidth
+                    label="IBAN"
+                    value={profileData.iban}
+                    onChange={(e) => setProfileData(prev => ({ ...prev, iban: e.target.value }))}
+                    placeholder="e.g. EE38 2200 2210 2014 5685"
+                    helperText="Monthly payouts are transferred to this account"
+                  />
+                </Box>
+                <Box>
+                  <TextField
+                    fullWidth
+                    label="BIC (Optional)"
+                    value={profileData.bic}
+                    onChange={(e) => setProfileData(prev => ({ ...prev, bic: e.target.value }))}
+                    placeholder="e.g. HABAEE2X"
+                  />
+                </Box>
+              </>
+            )}
           </Box>
         </DialogContent>
         <DialogActions>
@@ -1003,10 +1064,58 @@ const CustomerAccount: React.FC = () => {
                         €{Number(selectedOrder.total_amount || 0).toFixed(2)}
                       </Typography>
                     </Box>
+                    {selectedOrder.shipping_method && (
+                      <Box>
+                        <Typography variant="body2" color="text.secondary">Shipping</Typography>
+                        <Typography variant="body1">
+                          {selectedOrder.shipping_method === 'pickup'
+                            ? 'Pickup from the lab'
+                            : [selectedOrder.shipping_carrier, selectedOrder.shipping_method, selectedOrder.shipping_country].filter(Boolean).join(' · ')}
+                          {' — '}
+                          {Number(selectedOrder.shipping_cost || 0) === 0 ? 'Free' : `€${Number(selectedOrder.shipping_cost).toFixed(2)}`}
+                        </Typography>
+                      </Box>
+                    )}
                   </Box>
                 </CardContent>
               </Card>
 
+              {/* Split orders ship a parcel per provider */}
+              {selectedOrder.sub_orders && selectedOrder.sub_orders.length > 0 && (
+                <Card sx={{ mb: 3 }}>
+                  <CardContent>
+                    <Typography variant="h6" gutterBottom>Deliveries</Typography>
+                    <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+                      Your order is paid as one and ships as a parcel from each provider.
+                    </Typography>
+                    <TableContainer>
+                      <Table size="small">
+                        <TableHead>
+                          <TableRow>
+                            <TableCell>Parcel</TableCell>
+                            <TableCell>From</TableCell>
+                            <TableCell>Status</TableCell>
+                            <TableCell>Tracking</TableCell>
+                          </TableRow>
+                        </TableHead>
+                        <TableBody>
+                          {selectedOrder.sub_orders.map(subOrder => (
+                            <TableRow key={subOrder.order_id}>
+                              <TableCell>{subOrder.order_number}</TableCell>
+                              <TableCell>{subOrder.provider_id ? subOrder.provider_name || 'Provider' : 'MakerSet Platform'}</TableCell>
+                              <TableCell>
+                                <Chip label={subOrder.status} color={getStatusColor(subOrder.status) as any} size="small" />
+                              </TableCell>
+                              <TableCell>{subOrder.tracking_number || '—'}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </TableContainer>
+                  </CardContent>
+                </Card>
+              )}
+
               {/* Order Items */}
               {selectedOrder.items && selectedOrder.items.length > 0 && (
                 <Card>
@@ -1029,6 +1138,11 @@ const CustomerAccount: React.FC = () => {
                                 <Typography variant="body2" fontWeight={600}>
                                   {item.set_name || `Set ${item.set_id}`}
                                 </Typography>
+                                {item.sub_order_number && (
+                                  <Typography variant="caption" color="text.secondary">
+                                    {item.provider_name || 'MakerSet Platform'} · {item.sub_order_number}
+                                  </Typography>
+                                )}
                               </TableCell>
                               <TableCell>{item.quantity}</TableCell>
                               <TableCell>€{Number(item.unit_price || 0).toFixed(2)}</TableCell>
@@ -1054,6 +1168,39 @@ const CustomerAccount: React.FC = () => {
                 </Card>
               )}
 
+              {/* Return requests and their history */}
+              {orderReturns.length > 0 && (
+                <Card sx={{ mt: 3 }}>
+                  <CardContent>
+                    <Typography variant="h6" gutterBottom>Returns & Problems</Typography>
+                    {orderReturns.map((request, index) => (
+                      <Box key={request.return_id}>
+                        {index > 0 && <Divider sx={{ my: 2 }} />}
+                        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+                          <Typography variant="subtitle1" fontWeight={600}>
+                            {request.return_number}
+                            <Typography component="span" variant="body2" color="text.secondary" sx={{ ml: 1 }}>
+                              {new Date(request.created_at).toLocaleDateString()}
+                            </Typography>
+                          </Typography>
+                          {request.allowed_transitions.includes('cancelled') && (
+                            <Button
+                              size="small"
+                              color="error"
+                              onClick={() => handleCancelReturn(request)}
+                              disabled={cancellingReturnId === request.return_id}
+                            >
+                              Withdraw
+                            </Button>
+                          )}
+                        </Box>
+                        <ReturnRequestDetails request={request} customerView />
+                      </Box>
+                    ))}
+                  </CardContent>
+                </Card>
+              )}
+
               {/* Notes */}
               {selectedOrder.notes && (
                 <Card sx={{ mt: 3 }}>
@@ -1070,6 +1217,11 @@ const CustomerAccount: React.FC = () => {
         </DialogContent>
         <DialogActions>
           <Button onClick={() => setOrderDetailsOpen(false)}>Close</Button>
+          {selectedOrder && canReportProblem(selectedOrder) && (
+            <Button startIcon={<ReturnIcon />} onClick={() => setReturnDialogOpen(true)}>
+              Report a Problem
+            </Button>
+          )}
           {selectedOrder && (
             <Button
               variant="contained"
@@ -1084,6 +1236,17 @@ const CustomerAccount: React.FC = () => {
         </DialogActions>
       </Dialog>
 
+      <ReturnRequestDialog
+        open={returnDialogOpen}
+        onClose={() => setReturnDialogOpen(false)}
+        order={selectedOrder}
+        onSubmitted={(request) => {
+          setOrderReturns(prev => [request, ...prev]);
+          setSuccess(`Return request ${request.return_number} sent. We will get back to you after reviewing it.`);
+          setTimeout(() => setSuccess(null), 5000);
+        }}
+      />
+
     </Box>
   );
 };
@@ -36,6 +36,8 @@ import { useAuth } from '../contexts/AuthContext';
 import { useOrderNotification } from '../contexts/OrderNotificationContext';
 import PackingList from '../components/PackingList';
 import InvoiceGenerator from '../components/InvoiceGenerator';
+import CreditNoteDialog from '../components/CreditNoteDialog';
+import BankReconciliationDialog from '../components/BankReconciliationDialog';
 import {
   Add as AddIcon,
   Edit as EditIcon,
@@ -51,9 +53,12 @@ import {
   Receipt as InvoiceIcon,
   Payment as PaymentIcon,
   Warning as WarningIcon,
+  Undo as CreditNoteIcon,
+  AccountBalance as BankIcon,
+  Build as ProductionIcon,
 } from '@mui/icons-material';
-import { setsApi, ordersApi, Set as SetType, Order } from '../services/api';
-import { pdfTemplateService, InvoiceData } from '../services/pdfTemplateService';
+import { setsApi, ordersApi, Set as SetType, Order, OrderStatus } from '../services/api';
+import { pdfTemplateService } from '../services/pdfTemplateService';
 
 interface FormOrderItem {
   item_id: number;
@@ -64,17 +69,36 @@ interface FormOrderItem {
   total_price: number;
 }
 
-/** Order status values allowed by the order-status Select (backend may still return legacy 'pending'). */
-const ORDER_STATUS_SELECT_VALUES = ['pending_payment', 'payment_received', 'shipped', 'delivered', 'cancelled'] as const;
-function orderStatusForSelect(status: string | undefined): string {
-  if (!status) return 'pending_payment';
-  if (ORDER_STATUS_SELECT_VALUES.includes(status as any)) return status;
-  if (status === 'pending') return 'pending_payment';
-  return 'pending_payment';
+/** Order lifecycle statuses, in order (orders stored before the lifecycle may still carry legacy names). */
+const ORDER_STATUS_SELECT_VALUES: OrderStatus[] = ['pending', 'confirmed', 'in_production', 'shipped', 'delivered', 'cancelled', 'returned'];
+const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: 'Pending',
+  confirmed: 'Confirmed',
+  in_production: 'In Production',
+  shipped: 'Shipped',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+  returned: 'Returned',
+};
+const LEGACY_ORDER_STATUSES: Record<string, OrderStatus> = {
+  pending_payment: 'pending',
+  payment_received: 'confirmed',
+  processing: 'in_production',
+  completed: 'delivered',
+  payment_pending: 'delivered',
+  payment_completed: 'delivered',
+};
+function orderStatusForSelect(status: string | undefined): OrderStatus {
+  if (status && ORDER_STATUS_SELECT_VALUES.includes(status as OrderStatus)) return status as OrderStatus;
+  return (status && LEGACY_ORDER_STATUSES[status]) || 'pending';
 }
+/** Status filter of the production view: orders on their way out. */
+const PRODUCTION_FILTER_STATUSES: OrderStatus[] = ['confirmed', 'in_production', 'shipped'];
+/** Statuses the order can still be cancelled from (before it ships). */
+const CANCELLABLE_STATUSES: string[] = ['pending', 'confirmed', 'in_production'];
 
 const OrderManagementPage: React.FC = () => {
-  const { t } = useLanguage();
+  const { t, currentLanguage } = useLanguage();
   const { isAdmin, isProduction } = useRole();
   const { user } = useAuth();
   const { refreshOrderCount } = useOrderNotification();
@@ -93,10 +117,12 @@ const OrderManagementPage: React.FC = () => {
     customer_last_name: '',
     customer_email: '',
     company_name: '',
-    status: 'pending_payment',
+    status: 'pending' as OrderStatus,
     shipping_address: '',
     notes: '',
   });
+  // Statuses the signed-in user may move the edited order to next (from the server's lifecycle)
+  const [editAllowedStatuses, setEditAllowedStatuses] = useState<OrderStatus[]>([]);
 
   const [sets, setSets] = useState<SetType[]>([]);
   const [orderItems, setOrderItems] = useState<FormOrderItem[]>([]);
@@ -105,6 +131,8 @@ const OrderManagementPage: React.FC = () => {
   const [invoiceDialogOpen, setInvoiceDialogOpen] = useState(false);
   const [selectedOrderForInvoice, setSelectedOrderForInvoice] = useState<Order | null>(null);
   const [pdfLoading, setPdfLoading] = useState<number | null>(null);
+  const [creditNoteOrder, setCreditNoteOrder] = useState<Order | null>(null);
+  const [bankDialogOpen, setBankDialogOpen] = useState(false);
   const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false);
   const [orderToDelete, setOrderToDelete] = useState<Order | null>(null);
 
@@ -162,9 +190,9 @@ const OrderManagementPage: React.FC = () => {
   useEffect(() => {
     if (currentViewMode) {
       const validValues = currentViewMode === 'production'
-        ? ['', 'pending_payment', 'payment_received', 'shipped']
+        ? ['', ...PRODUCTION_FILTER_STATUSES]
         : currentViewMode === 'admin'
-        ? ['', 'pending_payment', 'payment_received', 'shipped', 'delivered', 'cancelled']
+        ? ['', ...ORDER_STATUS_SELECT_VALUES]
         : [''];
       if (!validValues.includes(filterStatus)) {
         setFilterStatus('');
@@ -249,7 +277,7 @@ const OrderManagementPage: React.FC = () => {
       customer_last_name: '',
       customer_email: '',
       company_name: '',
-      status: 'pending_payment',
+      status: 'pending',
       shipping_address: '',
       notes: '',
     });
@@ -273,7 +301,7 @@ const OrderManagementPage: React.FC = () => {
       customer_last_name: '',
       customer_email: '',
       company_name: '',
-      status: 'pending_payment',
+      status: 'pending',
       shipping_address: '',
       notes: '',
     });
@@ -300,8 +328,13 @@ const OrderManagementPage: React.FC = () => {
     
     // Set error to null and open dialog immediately
     setError(null);
+    setEditAllowedStatuses([]);
     setDialogOpen(true);
     
+    ordersApi.getStatusHistory(order.order_id)
+      .then((response) => setEditAllowedStatuses(response.data.allowedTransitions || []))
+      .catch((err) => console.error('Error fetching allowed status changes:', err));
+    
     // Fetch order items with proper error handling
     try {
       const response = await ordersApi.getById(order.order_id);
@@ -352,167 +385,20 @@ const OrderManagementPage: React.FC = () => {
     }
   };
 
-  const sendOrderStatusNotification = async (orderId: number, newStatus: string) => {
-    try {
-      // Get order details to determine who to notify
-      const orderResponse = await ordersApi.getById(orderId);
-      const order = orderResponse.data.order || orderResponse.data;
-      
-      if (!order) return;
-      
-      const notifications = [];
-      
-      // Determine order type and who should be notified
-      if (order.items && order.items.length > 0) {
-        const setIds = order.items.map((item: any) => item.set_id).filter(Boolean);
-        
-        if (setIds.length > 0) {
-          try {
-            // Get set details to find provider information
-            const setsResponse = await setsApi.getAll('en');
-            const allSets = setsResponse.data.sets || [];
-            
-            // Find sets in this order
-            const orderSets = allSets.filter((set: any) => setIds.includes(set.set_id));
-            const providerSets = orderSets.filter((set: any) => set.set_type === 'provider');
-            const adminSets = orderSets.filter((set: any) => set.set_type === 'admin');
-            
-            // Determine order type
-            const isProviderOrder = providerSets.length > 0;
-            const isProductionOrder = adminSets.length > 0;
-            
-            if (isProviderOrder) {
-              // Provider Order Workflow
-              const providerIds = Array.from(new Set(providerSets.map((set: any) => set.provider_id).filter(Boolean)));
-              
-              if (newStatus === 'payment_received') {
-                // Notify provider that payment is confirmed and they can ship
-                for (const providerId of providerIds) {
-                  notifications.push({
-                    type: 'payment_confirmed',
-                    title: `💰 Payment Confirmed - Order #${orderId}`,
-                    message: `Payment confirmed for your order #${orderId}. You can now prepare and ship the items.`,
-                    created_for: providerId,
-                    priority: 'high'
-                  });
-                }
-              } else if (newStatus === 'shipped') {
-                // Notify customer that their order has been shipped
-                notifications.push({
-                  type: 'order_shipped',
-                  title: `🚚 Order Shipped - Order #${orderId}`,
-                  message: `Your order #${orderId} has been shipped by the provider. Track your delivery!`,
-                  created_for: order.customer_id,
-                  priority: 'medium'
-                });
-              } else if (newStatus === 'delivered') {
-                // Notify customer that their order has been delivered
-                notifications.push({
-                  type: 'order_delivered',
-                  title: `✅ Order Delivered - Order #${orderId}`,
-                  message: `Your order #${orderId} has been delivered successfully!`,
-                  created_for: order.customer_id,
-                  priority: 'medium'
-                });
-              } else if (newStatus === 'payment_pending') {
-                // Notify admin that provider is requesting payment
-                notifications.push({
-                  type: 'provider_payment_request',
-                  title: `💰 Payment Request - Order #${orderId}`,
-                  message: `Provider is requesting payment for delivered order #${orderId}. Review and process payment.`,
-                  created_for: null, // All admins
-                  priority: 'high'
-                });
-              } else if (newStatus === 'payment_completed') {
-                // Notify provider that payment has been completed
-                for (const providerId of providerIds) {
-                  notifications.push({
-                    type: 'payment_completed',
-                    title: `💳 Payment Completed - Order #${orderId}`,
-                    message: `Payment for order #${orderId} has been completed and processed.`,
-                    created_for: providerId,
-                    priority: 'high'
-                  });
-                }
-              }
-            }
-            
-            if (isProductionOrder) {
-              // Production Order Workflow
-              if (newStatus === 'payment_received') {
-                // Notify production team that payment is confirmed
-                notifications.push({
-                  type: 'production_order_confirmed',
-                  title: `🏭 Production Order Confirmed - Order #${orderId}`,
-                  message: `Payment confirmed for production order #${orderId}. Prepare items for shipping.`,
-                  created_for: null, // All production staff
-                  priority: 'high'
-                });
-              } else if (newStatus === 'shipped') {
-                // Notify customer that their order has been shipped
-                notifications.push({
-                  type: 'order_shipped',
-                  title: `🚚 Order Shipped - Order #${orderId}`,
-                  message: `Your order #${orderId} has been shipped by MakerSet production. Track your delivery!`,
-                  created_for: order.customer_id,
-                  priority: 'medium'
-                });
-              } else if (newStatus === 'delivered') {
-                // Notify customer that their order has been delivered
-                notifications.push({
-                  type: 'order_delivered',
-                  title: `✅ Order Delivered - Order #${orderId}`,
-                  message: `Your order #${orderId} has been delivered successfully!`,
-                  created_for: order.customer_id,
-                  priority: 'medium'
-                });
-              }
-            }
-          } catch (err) {
-            console.error('Error fetching set details for notifications:', err);
-          }
-        }
-      }
-      
-      // Always notify admins about status changes
-      notifications.push({
-        type: 'order_status_change',
-        title: `Order #${orderId} Status Update`,
-        message: `Order #${orderId} status has been updated to: ${newStatus}`,
-        created_for: null, // All admins
-        priority: 'medium'
-      });
-      
-      // Send notifications via API
-      for (const notification of notifications) {
-        try {
-          await ordersApi.createNotification(notification);
-        } catch (err) {
-          console.error('Error sending notification:', err);
-        }
-      }
-      
-    } catch (err) {
-      console.error('Error preparing notifications:', err);
-    }
-  };
-
-  const handleQuickStatusChange = async (orderId: number, newStatus: string) => {
+  const handleQuickStatusChange = async (orderId: number, newStatus: OrderStatus) => {
     try {
-      await ordersApi.updateStatus(orderId, newStatus, `Status changed to ${newStatus}`, 1);
+      // The server checks the transition and notifies the customer, provider and production
+      await ordersApi.updateStatus(orderId, newStatus, `Status changed to ${ORDER_STATUS_LABELS[newStatus]}`);
       
       // Show success message
       setError(null);
-      setSuccess(`Order #${orderId} status updated to ${newStatus}!`);
+      setSuccess(`Order #${orderId} status updated to ${ORDER_STATUS_LABELS[newStatus]}!`);
       setTimeout(() => setSuccess(null), 3000);
       
       // Refresh orders and notification count
       await fetchOrders();
       refreshOrderCount();
       
-      // Send notifications to providers/production
-      await sendOrderStatusNotification(orderId, newStatus);
-      
     } catch (err: any) {
       console.error('Error updating order status:', err);
       setError(err.response?.data?.error || err.message || 'Failed to update order status');
@@ -551,19 +437,17 @@ const OrderManagementPage: React.FC = () => {
           )
         );
         
-        // If status changed, also update it via status API for notifications
+        // Status changes go through the lifecycle, which also sends the notifications
         if (statusChanged) {
           try {
-            await ordersApi.updateStatus(editingOrder.order_id, formData.status, 'Status updated via edit dialog', 1);
-            
-            // Send notifications for status change
-            await sendOrderStatusNotification(editingOrder.order_id, formData.status);
+            await ordersApi.updateStatus(editingOrder.order_id, formData.status, 'Status updated via edit dialog');
             
             // Refresh notification count after status change
             refreshOrderCount();
-          } catch (statusError) {
+          } catch (statusError: any) {
             console.error('Error updating status:', statusError);
             // Don't fail the entire operation if status update fails
+            setError(statusError.response?.data?.error || 'Failed to update order status');
           }
         }
         
@@ -719,65 +603,12 @@ const OrderManagementPage: React.FC = () => {
         throw new Error('Invalid order data');
       }
 
-        // Generate invoice using the pdf template service
-        console.log('Generating invoice using PDF template service');
-        
-        // Create proper InvoiceData structure
-        const invoiceData: InvoiceData = {
-          invoiceNumber: `INV-${order.order_id.toString().padStart(6, '0')}`,
-          orderNumber: order.order_number || `ORD-${order.order_id}`,
-          date: order.created_at ? new Date(order.created_at).toLocaleDateString() : new Date().toLocaleDateString(),
-          dueDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toLocaleDateString(), // 30 days from now
-          company: {
-            name: 'MakerSet Solutions',
-            address: '123 Innovation Street, Tech City, TC 12345, Estonia',
-            phone: '+372 123 4567',
-            email: 'info@makerset.com',
-            website: 'www.makerset.com',
-            taxId: 'EE123456789',
-            bankAccount: {
-              bankName: 'Estonian Bank',
-              accountNumber: '1234567890',
-              iban: 'EE123456789012345678',
-              swift: 'ESTBEE2X'
-            }
-          },
-          customer: {
-            name: `${order.customer_first_name || 'Customer'} ${order.customer_last_name || 'Name'}`,
-            company: order.company_name || '',
-            email: order.customer_email || 'customer@example.com',
-            address: order.shipping_address || 'No address provided'
-          },
-          items: (order.items && Array.isArray(order.items) && order.items.length > 0) 
-            ? order.items.map((item: any) => ({
-                description: item.set_name || item.name || `Set #${item.set_id || 'Unknown'}`,
-                quantity: Number(item.quantity) || 1,
-                unitPrice: Number(item.unit_price) || Number(item.price) || 0,
-                total: (Number(item.quantity) || 1) * (Number(item.unit_price) || Number(item.price) || 0)
-              }))
-            : [{
-                description: 'Order Items',
-                quantity: 1,
-                unitPrice: Number(order.total_amount) || 0,
-                total: Number(order.total_amount) || 0
-              }],
-          subtotal: Number(order.total_amount) || 0,
-          taxRate: 20, // 20% VAT
-          taxAmount: (Number(order.total_amount) || 0) * 0.2,
-          total: (Number(order.total_amount) || 0) * 1.2,
-          notes: order.notes || 'Thank you for your business!',
-          status: order.status || 'pending',
-          paymentTerms: 'prepayment'
-        };
+      // Invoices are issued and rendered on the server; this fetches the stored PDF
+      const { invoice, pdfBytes } = await pdfTemplateService.generateInvoicePDF(order.order_id, currentLanguage);
+      const filename = `Invoice_${invoice.invoiceNumber}_${invoice.orderNumber || order.order_number}.pdf`;
+      await pdfTemplateService.downloadPDF(pdfBytes, filename);
 
-        // Generate PDF using template service
-        const pdfBytes = await pdfTemplateService.generateInvoicePDF(invoiceData);
-        
-        // Download the PDF
-        const filename = `Invoice_${invoiceData.invoiceNumber}_${invoiceData.orderNumber}.pdf`;
-        await pdfTemplateService.downloadPDF(pdfBytes, filename);
-        
-        console.log('PDF generated successfully');
+      console.log('PDF generated successfully');
       setError(null);
     } catch (err) {
       console.error('Error generating invoice:', err);
@@ -851,27 +682,31 @@ const OrderManagementPage: React.FC = () => {
   };
 
   const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'pending_payment': return 'warning';
-      case 'payment_received': return 'success';
+    switch (orderStatusForSelect(status)) {
+      case 'pending': return 'warning';
+      case 'confirmed': return 'success';
+      case 'in_production': return 'primary';
+      case 'shipped': return 'info';
       case 'delivered': return 'success';
-      case 'payment_completed': return 'success';
       case 'cancelled': return 'error';
+      case 'returned': return 'error';
       default: return 'default';
     }
   };
 
-  const getNextStatus = (currentStatus: string): string | null => {
+  // Next step along the lifecycle; cancelling and returning stay explicit actions
+  const getNextStatus = (currentStatus: string): OrderStatus | null => {
     switch (currentStatus) {
-      case 'pending_payment': return 'payment_received';
-      case 'payment_received': return 'delivered'; // Skip shipped for now
-      case 'delivered': return 'payment_completed';
-      case 'payment_completed': return null; // No next status after payment completed
-      case 'cancelled': return null; // No next status after cancelled
+      case 'pending': return 'confirmed';
+      case 'confirmed': return 'in_production';
+      case 'in_production': return 'shipped';
+      case 'shipped': return 'delivered';
       default: return null;
     }
   };
 
+  const isReadyToShip = (order: Order) => order.status === 'confirmed' || order.status === 'in_production';
+
   const handleStatusClick = async (orderId: number, currentStatus: string) => {
     console.log('Status clicked:', { orderId, currentStatus });
     const nextStatus = getNextStatus(currentStatus);
@@ -885,12 +720,14 @@ const OrderManagementPage: React.FC = () => {
   };
 
   const getStatusIcon = (status: string) => {
-    switch (status) {
-      case 'pending_payment': return <PendingIcon />;
-      case 'payment_received': return <PaymentIcon />;
+    switch (orderStatusForSelect(status)) {
+      case 'pending': return <PendingIcon />;
+      case 'confirmed': return <PaymentIcon />;
+      case 'in_production': return <ProductionIcon />;
+      case 'shipped': return <ShippingIcon />;
       case 'delivered': return <CompletedIcon />;
-      case 'payment_completed': return <CompletedIcon />;
       case 'cancelled': return <CancelledIcon />;
+      case 'returned': return <CreditNoteIcon />;
       default: return <PendingIcon />;
     }
   };
@@ -995,6 +832,20 @@ const OrderManagementPage: React.FC = () => {
                 </Button>
               </Box>
             )}
+
+            {/* Bank Payments Review - Only for Admin */}
+            {isAdmin && (
+              <Box sx={{ minWidth: 200 }}>
+                <Button
+                  variant="outlined"
+                  startIcon={<BankIcon />}
+                  onClick={() => setBankDialogOpen(true)}
+                  fullWidth
+                >
+                  Bank Payments
+                </Button>
+              </Box>
+            )}
             
             {/* Status Filter */}
             {(currentViewMode === 'production' || currentViewMode === 'admin') && (
@@ -1008,10 +859,10 @@ const OrderManagementPage: React.FC = () => {
                   value={(() => {
                     // Ensure value matches a MenuItem ('' or specific status)
                     if (currentViewMode === 'production') {
-                      return ['', 'pending_payment', 'payment_received', 'shipped'].includes(filterStatus) ? filterStatus : '';
+                      return ['', ...PRODUCTION_FILTER_STATUSES].includes(filterStatus) ? filterStatus : '';
                     }
                     if (currentViewMode === 'admin') {
-                      return ['', 'pending_payment', 'payment_received', 'shipped', 'delivered', 'cancelled'].includes(filterStatus) ? filterStatus : '';
+                      return ['', ...ORDER_STATUS_SELECT_VALUES].includes(filterStatus) ? filterStatus : '';
                     }
                     return '';
                   })()}
@@ -1019,29 +870,9 @@ const OrderManagementPage: React.FC = () => {
                   displayEmpty
                 >
                   <MenuItem value="">All Orders</MenuItem>
-                  {currentViewMode === 'production' ? (
-                    <>
-                      <MenuItem value="pending_payment">Payment Pending</MenuItem>
-                      <MenuItem value="payment_received">Payment Received</MenuItem>
-                      <MenuItem value="shipped">Shipped</MenuItem>
-                    </>
-                  ) : currentViewMode === 'admin' ? (
-                    <>
-                      <MenuItem value="pending_payment">Payment Pending</MenuItem>
-                      <MenuItem value="payment_received">Payment Received</MenuItem>
-                      <MenuItem value="shipped">Shipped</MenuItem>
-                      <MenuItem value="delivered">Delivered</MenuItem>
-                      <MenuItem value="cancelled">Cancelled</MenuItem>
-                    </>
-                  ) : (
-                    <>
-                      <MenuItem value="pending_payment">Payment Pending</MenuItem>
-                      <MenuItem value="payment_received">Payment Received</MenuItem>
-                      <MenuItem value="shipped">Shipped</MenuItem>
-                      <MenuItem value="delivered">Delivered</MenuItem>
-                      <MenuItem value="cancelled">Cancelled</MenuItem>
-                    </>
-                  )}
+                  {(currentViewMode === 'production' ? PRODUCTION_FILTER_STATUSES : ORDER_STATUS_SELECT_VALUES).map((status) => (
+                    <MenuItem key={status} value={status}>{ORDER_STATUS_LABELS[status]}</MenuItem>
+                  ))}
                 </Select>
               </FormControl>
             </Box>
@@ -1110,7 +941,7 @@ const OrderManagementPage: React.FC = () => {
                     </Typography>
                     <Chip
                       icon={getStatusIcon(order.status)}
-                      label={order.status.charAt(0).toUpperCase() + order.status.slice(1)}
+                      label={ORDER_STATUS_LABELS[orderStatusForSelect(order.status)]}
                       color={getStatusColor(order.status) as any}
                       size="small"
                       sx={{ 
@@ -1122,7 +953,7 @@ const OrderManagementPage: React.FC = () => {
                         } : {}
                       }}
                       onClick={() => handleStatusClick(order.order_id, order.status)}
-                      title={getNextStatus(order.status) ? `Click to advance to ${getNextStatus(order.status)?.replace('_', ' ')}` : 'No next status available'}
+                      title={getNextStatus(order.status) ? `Click to advance to ${ORDER_STATUS_LABELS[getNextStatus(order.status)!]}` : 'No next status available'}
                     />
                   </Box>
                   
@@ -1228,6 +1059,19 @@ const OrderManagementPage: React.FC = () => {
                   >
                     Show Invoice
                   </Button>
+                  {isAdmin && (
+                    <Button 
+                      size="small" 
+                      color="warning" 
+                      variant="outlined"
+                      startIcon={<CreditNoteIcon />}
+                      onClick={() => setCreditNoteOrder(order)}
+                      title="Issue a credit note (full or partial refund)"
+                      sx={{ minWidth: 'auto' }}
+                    >
+                      Credit Note
+                    </Button>
+                  )}
                   {isAdmin && (
                     <Button 
                       size="small" 
@@ -1247,18 +1091,22 @@ const OrderManagementPage: React.FC = () => {
                     
                     {/* Dynamic Status Update Button for Admin */}
                     {isAdmin && (() => {
-                      let nextStatus = '';
+                      let nextStatus: OrderStatus;
                       let buttonText = '';
                       let buttonColor: 'success' | 'info' | 'warning' | 'primary' = 'success';
                       
                       switch (order.status) {
                         case 'pending':
-                        case 'pending_payment':
-                          nextStatus = 'payment_received';
+                          nextStatus = 'confirmed';
                           buttonText = '✓ Confirm Payment Received';
                           buttonColor = 'success';
                           break;
-                        case 'payment_received':
+                        case 'confirmed':
+                          nextStatus = 'in_production';
+                          buttonText = '🏭 Start Production';
+                          buttonColor = 'primary';
+                          break;
+                        case 'in_production':
                           nextStatus = 'shipped';
                           buttonText = '🚚 Mark as Shipped';
                           buttonColor = 'info';
@@ -1269,22 +1117,16 @@ const OrderManagementPage: React.FC = () => {
                           buttonColor = 'success';
                           break;
                         case 'delivered':
-                          nextStatus = 'payment_pending';
-                          buttonText = '💰 Mark Payment Pending';
+                          nextStatus = 'returned';
+                          buttonText = '↩ Mark as Returned';
                           buttonColor = 'warning';
                           break;
-                        case 'payment_pending':
-                          nextStatus = 'payment_completed';
-                          buttonText = '💳 Complete Payment';
-                          buttonColor = 'success';
-                          break;
                         default:
                           return null;
                       }
                       
-                      // Check if status is one of the final states (use type assertion since TypeScript narrows the type in switch statement)
-                      const isFinalStatus = (order.status as string) === 'payment_completed' || (order.status as string) === 'cancelled';
-                      const showCancel = !isFinalStatus;
+                      // Orders can be cancelled until they ship
+                      const showCancel = CANCELLABLE_STATUSES.includes(order.status);
                       
                       return (
                         <>
@@ -1317,10 +1159,10 @@ const OrderManagementPage: React.FC = () => {
                       <>
                         <Button 
                           size="small" 
-                          variant={order.status === 'payment_received' ? 'contained' : 'outlined'}
+                          variant={isReadyToShip(order) ? 'contained' : 'outlined'}
                           color="info"
                           onClick={() => handleQuickStatusChange(order.order_id, 'shipped')}
-                          disabled={order.status !== 'payment_received'}
+                          disabled={!isReadyToShip(order)}
                           sx={{ minWidth: 'auto', fontSize: '0.75rem' }}
                         >
                           🚚 Ship Order
@@ -1336,17 +1178,7 @@ const OrderManagementPage: React.FC = () => {
                         >
                           ✅ Confirm Delivery
                         </Button>
-                        
-                        <Button 
-                          size="small" 
-                          variant={order.status === 'delivered' ? 'contained' : 'outlined'}
-                          color="warning"
-                          onClick={() => handleQuickStatusChange(order.order_id, 'payment_pending')}
-                          disabled={order.status !== 'delivered'}
-                          sx={{ minWidth: 'auto', fontSize: '0.75rem' }}
-                        >
-                          💰 Request Payment
-                        </Button>
+
                       </>
                     )}
                     
@@ -1355,10 +1187,10 @@ const OrderManagementPage: React.FC = () => {
                       <>
                         <Button 
                           size="small" 
-                          variant={order.status === 'payment_received' ? 'contained' : 'outlined'}
+                          variant={isReadyToShip(order) ? 'contained' : 'outlined'}
                           color="info"
                           onClick={() => handleQuickStatusChange(order.order_id, 'shipped')}
-                          disabled={order.status !== 'payment_received'}
+                          disabled={!isReadyToShip(order)}
                           sx={{ minWidth: 'auto', fontSize: '0.75rem' }}
                         >
                           🏭 Ship from Production
@@ -1405,6 +1237,14 @@ const OrderManagementPage: React.FC = () => {
                     <Typography variant="subtitle2" fontWeight={600}>
                       #{order.order_id}
                     </Typography>
+                    {order.parent_order_number && (
+                      <Typography variant="caption" color="text.secondary">Part of {order.parent_order_number}</Typography>
+                    )}
+                    {(order.sub_orders?.length || 0) > 0 && (
+                      <Typography variant="caption" color="text.secondary">
+                        Split into {order.sub_orders!.map(subOrder => subOrder.order_number).join(', ')}
+                      </Typography>
+                    )}
                   </TableCell>
                   <TableCell>
                     <Typography variant="body2">
@@ -1429,7 +1269,7 @@ const OrderManagementPage: React.FC = () => {
                   <TableCell>
                     <Chip
                       icon={getStatusIcon(order.status)}
-                      label={order.status.charAt(0).toUpperCase() + order.status.slice(1)}
+                      label={ORDER_STATUS_LABELS[orderStatusForSelect(order.status)]}
                       color={getStatusColor(order.status) as any}
                       size="small"
                       sx={{ 
@@ -1441,7 +1281,7 @@ const OrderManagementPage: React.FC = () => {
                         } : {}
                       }}
                       onClick={() => handleStatusClick(order.order_id, order.status)}
-                      title={getNextStatus(order.status) ? `Click to advance to ${getNextStatus(order.status)?.replace('_', ' ')}` : 'No next status available'}
+                      title={getNextStatus(order.status) ? `Click to advance to ${ORDER_STATUS_LABELS[getNextStatus(order.status)!]}` : 'No next status available'}
                     />
                   </TableCell>
                   <TableCell>
@@ -1459,20 +1299,20 @@ const OrderManagementPage: React.FC = () => {
                       {/* Quick Status Change Buttons - Step by Step Only */}
                       {isAdmin && (
                         <>
-                          {/* Step 1: Payment Pending → Payment Received */}
-                          {order.status === 'pending_payment' && (
+                          {/* Step 1: Pending → Confirmed */}
+                          {order.status === 'pending' && (
                             <IconButton 
                               size="small" 
                               color="success"
-                              onClick={() => handleQuickStatusChange(order.order_id, 'payment_received')}
+                              onClick={() => handleQuickStatusChange(order.order_id, 'confirmed')}
                               title="Confirm Payment Received"
                             >
                               <PaymentIcon fontSize="small" />
                             </IconButton>
                           )}
                           
-                          {/* Step 2: Payment Received → Shipped */}
-                          {order.status === 'payment_received' && (
+                          {/* Step 2: Confirmed / In Production → Shipped */}
+                          {isReadyToShip(order) && (
                             <IconButton 
                               size="small" 
                               color="info"
@@ -1495,8 +1335,8 @@ const OrderManagementPage: React.FC = () => {
                             </IconButton>
                           )}
                           
-                          {/* Cancel Available at Any Step (except cancelled) */}
-                          {order.status !== 'cancelled' && (
+                          {/* Cancel Available until the order ships */}
+                          {CANCELLABLE_STATUSES.includes(order.status) && (
                             <IconButton 
                               size="small" 
                               color="error"
@@ -1535,6 +1375,16 @@ const OrderManagementPage: React.FC = () => {
                     >
                       <InvoiceIcon fontSize="small" />
                     </IconButton>
+                    {isAdmin && (
+                      <IconButton 
+                        size="small" 
+                        onClick={() => setCreditNoteOrder(order)}
+                        title="Credit Note"
+                        sx={{ color: 'warning.main' }}
+                      >
+                        <CreditNoteIcon fontSize="small" />
+                      </IconButton>
+                    )}
                     {isAdmin && (
                         <IconButton 
                           size="small" 
@@ -1607,14 +1457,14 @@ const OrderManagementPage: React.FC = () => {
                   name="order-status"
                   labelId="order-status-label"
                   value={orderStatusForSelect(formData.status)}
-                  onChange={(e) => setFormData({ ...formData, status: e.target.value as Order['status'] })}
+                  onChange={(e) => setFormData({ ...formData, status: e.target.value as OrderStatus })}
                 >
-                  {/* Always show all status options */}
-                  <MenuItem value="pending_payment">Payment Pending</MenuItem>
-                  <MenuItem value="payment_received">Payment Received</MenuItem>
-                  <MenuItem value="shipped">{t('orders.shipped')}</MenuItem>
-                  <MenuItem value="delivered">{t('orders.delivered')}</MenuItem>
-                  <MenuItem value="cancelled">{t('orders.cancelled')}</MenuItem>
+                  {/* The current status and the ones the lifecycle lets this user move to */}
+                  {ORDER_STATUS_SELECT_VALUES
+                    .filter((status) => status === orderStatusForSelect(editingOrder?.status) || editAllowedStatuses.includes(status))
+                    .map((status) => (
+                      <MenuItem key={status} value={status}>{ORDER_STATUS_LABELS[status]}</MenuItem>
+                    ))}
                 </Select>
               </FormControl>
             </Box>
@@ -1837,6 +1687,21 @@ const OrderManagementPage: React.FC = () => {
         onClose={handleCloseInvoiceDialog}
         order={selectedOrderForInvoice}
       />
+
+      {/* Credit Note Dialog */}
+      <CreditNoteDialog
+        open={Boolean(creditNoteOrder)}
+        onClose={() => setCreditNoteOrder(null)}
+        order={creditNoteOrder}
+        onIssued={() => fetchOrders()}
+      />
+
+      {/* Bank Payments Review Dialog */}
+      <BankReconciliationDialog
+        open={bankDialogOpen}
+        onClose={() => setBankDialogOpen(false)}
+        onConfirmed={() => fetchOrders()}
+      />
     </Box>
   );
 };
@@ -18,6 +18,8 @@ import {
   Autocomplete,
   Chip,
   Collapse,
+  FormControlLabel,
+  Checkbox,
 } from '@mui/material';
 import {
   Add as AddIcon,
@@ -27,9 +29,11 @@ import {
   Inventory as InventoryIcon,
   ExpandMore as ExpandMoreIcon,
   ExpandLess as ExpandLessIcon,
+  QrCode2 as LabelIcon,
 } from '@mui/icons-material';
 import { partsApi, Part, PartCreationData, inventoryApi, InventoryPart } from '../services/api';
 import InventoryManagement from '../components/InventoryManagement';
+import LabelPrintDialog from '../components/LabelPrintDialog';
 
 const PartsPageSimple: React.FC = () => {
   const [parts, setParts] = useState<Part[]>([]);
@@ -43,6 +47,7 @@ const PartsPageSimple: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [availableCategories, setAvailableCategories] = useState<string[]>([]);
   const [expandedParts, setExpandedParts] = useState<Set<number>>(new Set());
+  const [labelDialogOpen, setLabelDialogOpen] = useState(false);
 
   // Simplified form data
   const [formData, setFormData] = useState<PartCreationData>({
@@ -54,6 +59,11 @@ const PartsPageSimple: React.FC = () => {
     supplier_part_number: '',
     stock_quantity: 1,
     minimum_stock_level: 1,
+    track_lots: false,
+    weight_g: null,
+    length_mm: null,
+    width_mm: null,
+    height_mm: null,
     image_url: '',
     instruction_pdf: '',
     drawing_pdf: '',
@@ -159,6 +169,11 @@ const PartsPageSimple: React.FC = () => {
         supplier_part_number: part.supplier_part_number || '',
         stock_quantity: part.stock_quantity,
         minimum_stock_level: part.minimum_stock_level,
+        track_lots: Boolean(part.track_lots),
+        weight_g: part.weight_g ?? null,
+        length_mm: part.length_mm ?? null,
+        width_mm: part.width_mm ?? null,
+        height_mm: part.height_mm ?? null,
         image_url: part.image_url || '',
         instruction_pdf: part.instruction_pdf || '',
         drawing_pdf: part.drawing_pdf || '',
@@ -179,6 +194,11 @@ const PartsPageSimple: React.FC = () => {
         supplier_part_number: '',
         stock_quantity: 1,
         minimum_stock_level: 1,
+        track_lots: false,
+        weight_g: null,
+        length_mm: null,
+        width_mm: null,
+        height_mm: null,
         image_url: '',
         instruction_pdf: '',
         drawing_pdf: '',
@@ -264,13 +284,22 @@ const PartsPageSimple: React.FC = () => {
         <Typography variant="h4" component="h1">
           Parts Inventory
         </Typography>
-        <Button
-          variant="contained"
-          startIcon={<AddIcon />}
-          onClick={() => handleOpenDialog()}
-        >
-          Add New Part
-        </Button>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Button
+            variant="outlined"
+            startIcon={<LabelIcon />}
+            onClick={() => setLabelDialogOpen(true)}
+          >
+            Print Labels
+          </Button>
+          <Button
+            variant="contained"
+            startIcon={<AddIcon />}
+            onClick={() => handleOpenDialog()}
+          >
+            Add New Part
+          </Button>
+        </Box>
       </Box>
 
       {/* Search */}
@@ -389,6 +418,14 @@ const PartsPageSimple: React.FC = () => {
         })}
       </Box>
 
+      {/* Label sheet for the parts currently listed */}
+      <LabelPrintDialog
+        open={labelDialogOpen}
+        onClose={() => setLabelDialogOpen(false)}
+        type="parts"
+        items={filteredParts.map((part) => ({ id: part.part_id, code: part.part_number, name: part.part_name }))}
+      />
+
       {/* Add/Edit Part Dialog */}
       <Dialog open={openDialog} onClose={handleCloseDialog} maxWidth="sm" fullWidth>
         <DialogTitle>
@@ -499,6 +536,37 @@ const PartsPageSimple: React.FC = () => {
               onChange={(e) => setFormData({ ...formData, supplier: e.target.value })}
             />
 
+            {/* Lot tracking (batteries, glue, sensors on a firmware version) */}
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={Boolean(formData.track_lots)}
+                  onChange={(e) => setFormData({ ...formData, track_lots: e.target.checked })}
+                />
+              }
+              label="Track lots and expiry dates (a lot number is required on every income)"
+            />
+
+            {/* Weight and size of one unit, for shipping quotes */}
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              {([
+                ['weight_g', 'Weight (g)'],
+                ['length_mm', 'Length (mm)'],
+                ['width_mm', 'Width (mm)'],
+                ['height_mm', 'Height (mm)'],
+              ] as const).map(([field, label]) => (
+                <TextField
+                  key={field}
+                  fullWidth
+                  label={label}
+                  type="number"
+                  value={formData[field] ?? ''}
+                  onChange={(e) => setFormData({ ...formData, [field]: e.target.value === '' ? null : parseFloat(e.target.value) || 0 })}
+                  inputProps={{ min: 0 }}
+                />
+              ))}
+            </Box>
+
             {/* Description */}
             <TextField
               fullWidth
@@ -40,7 +40,8 @@ import {
 import { useNavigate } from 'react-router-dom';
 import { useLanguage } from '../contexts/LanguageContext';
 import { useAuth } from '../contexts/AuthContext';
-import { setsApi, partsApi, toolsApi, ordersApi } from '../services/api';
+import { setsApi, partsApi, toolsApi, ordersApi, shippingApi, Shipment } from '../services/api';
+import ReturnRequestsSection from '../components/ReturnRequestsSection';
 
 interface ProductionStats {
   totalSets: number;
@@ -97,6 +98,9 @@ const ProductionDashboard: React.FC = () => {
   const [ordersToFulfill, setOrdersToFulfill] = useState<any[]>([]);
   const [fulfillmentLoading, setFulfillmentLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [shippingOrderId, setShippingOrderId] = useState<number | null>(null);
+  const [shipped, setShipped] = useState<{ orderNumber: string; shipment: Shipment | null } | null>(null);
+  const [shipError, setShipError] = useState<string | null>(null);
 
   useEffect(() => {
     fetchProductionData();
@@ -106,15 +110,14 @@ const ProductionDashboard: React.FC = () => {
   const fetchOrdersToFulfill = async () => {
     try {
       setFulfillmentLoading(true);
-      // Fetch orders with payment_received status for admin sets (set_type = 'admin')
-      const response = await ordersApi.getAll();
+      // Fetch confirmed orders for admin sets (set_type = 'admin'); split orders as their sub-orders
+      const response = await ordersApi.getAll({ level: 'fulfilment' });
       const allOrders = response.data?.orders || [];
       
-      // Filter for admin orders that are ready to ship (payment_received, not yet shipped)
+      // Filter for admin orders that are ready to ship (confirmed or in production)
       const orders = allOrders.filter((order: any) => 
-        order.status === 'payment_received' && 
-        order.set_type === 'admin' &&
-        order.status !== 'shipped'
+        (order.status === 'confirmed' || order.status === 'in_production') && 
+        order.set_type === 'admin'
       );
       
       console.log('✅ Orders to fulfill fetched:', orders.length);
@@ -127,13 +130,50 @@ const ProductionDashboard: React.FC = () => {
     }
   };
 
+  const openPdf = (data: Blob) => {
+    const url = window.URL.createObjectURL(new Blob([data], { type: 'application/pdf' }));
+    window.open(url, '_blank');
+    // Keep the URL alive long enough for the new tab to load it
+    setTimeout(() => window.URL.revokeObjectURL(url), 60000);
+  };
+
+  const openShippingLabel = async (orderId: number) => {
+    try {
+      const response = await ordersApi.getShippingLabel(orderId);
+      openPdf(response.data);
+    } catch (error) {
+      console.error('Error opening shipping label:', error);
+      setShipError('The order was shipped but its label could not be opened');
+    }
+  };
+
+  const openManifest = async (manifestId: number) => {
+    try {
+      const response = await shippingApi.getManifestPdf(manifestId);
+      openPdf(response.data);
+    } catch (error) {
+      console.error('Error opening shipping manifest:', error);
+      setShipError('Failed to open the shipping manifest');
+    }
+  };
+
+  // Books the parcel with the carrier, marks the order shipped and opens the label to print
   const handleMarkAsShipped = async (orderId: number) => {
     try {
-      await ordersApi.updateStatus(orderId, 'shipped', 'Order shipped by production', user?.user_id || 1);
+      setShippingOrderId(orderId);
+      setShipError(null);
+      const response = await ordersApi.ship(orderId, 'Order shipped by production');
+      setShipped({ orderNumber: response.data.order.order_number, shipment: response.data.shipment });
+      if (response.data.shipment) {
+        await openShippingLabel(orderId);
+      }
       await fetchOrdersToFulfill();
       await fetchProductionData();
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error marking order as shipped:', error);
+      setShipError(error.response?.data?.error || 'Failed to ship the order');
+    } finally {
+      setShippingOrderId(null);
     }
   };
 
@@ -143,7 +183,7 @@ const ProductionDashboard: React.FC = () => {
     }
     
     try {
-      await ordersApi.updateStatus(orderId, 'cancelled', 'Order cancelled by production', user?.user_id || 1);
+      await ordersApi.updateStatus(orderId, 'cancelled', 'Order cancelled by production');
       await fetchOrdersToFulfill();
       await fetchProductionData();
     } catch (error) {
@@ -161,7 +201,7 @@ const ProductionDashboard: React.FC = () => {
         setsApi.getAll(),
         partsApi.getAll(),
         toolsApi.getAll(),
-        ordersApi.getAll(),
+        ordersApi.getAll({ level: 'fulfilment' }),
       ]);
 
       const sets = setsResponse.data?.sets || [];
@@ -174,7 +214,7 @@ const ProductionDashboard: React.FC = () => {
       const activeSets = sets.filter(set => set.active).length;
       const totalOrders = orders.length;
       const pendingOrders = orders.filter(order => order.status === 'pending').length;
-      const completedOrders = orders.filter(order => order.status === 'completed').length;
+      const completedOrders = orders.filter(order => order.status === 'delivered').length;
       const totalParts = parts.length;
       const lowStockParts = parts.filter((part: any) => 
         part.stock_quantity <= part.minimum_stock_level
@@ -398,6 +438,35 @@ const ProductionDashboard: React.FC = () => {
       </Box>
 
       {/* Orders to Fulfill */}
+      {shipError && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setShipError(null)}>
+          {shipError}
+        </Alert>
+      )}
+      {shipped && (
+        <Alert
+          severity="success"
+          sx={{ mb: 3 }}
+          onClose={() => setShipped(null)}
+          action={shipped.shipment ? (
+            <Box sx={{ display: 'flex', gap: 1 }}>
+              <Button color="inherit" size="small" onClick={() => openShippingLabel(shipped.shipment!.order_id)}>
+                Label
+              </Button>
+              {shipped.shipment.manifest_id && (
+                <Button color="inherit" size="small" onClick={() => openManifest(shipped.shipment!.manifest_id!)}>
+                  Manifest {shipped.shipment.manifest_number}
+                </Button>
+              )}
+            </Box>
+          ) : undefined}
+        >
+          {shipped.shipment
+            ? `Order ${shipped.orderNumber} shipped with tracking number ${shipped.shipment.tracking_number}.`
+            : `Order ${shipped.orderNumber} is ready for pickup from the lab.`}
+        </Alert>
+      )}
+
       {ordersToFulfill.length > 0 && (
         <Card sx={{ mb: 4 }}>
           <CardContent>
@@ -427,15 +496,23 @@ const ProductionDashboard: React.FC = () => {
                           <strong>Shipping Address:</strong> {order.shipping_address}
                         </Typography>
                         )}
+                        {(order.shipping_method || order.shipping_terminal) && (
+                          <Typography variant="body2" color="text.secondary">
+                            <strong>Shipping:</strong>{' '}
+                            {order.shipping_method === 'pickup'
+                              ? 'Pickup from the lab'
+                              : [order.shipping_carrier, order.shipping_terminal || order.shipping_method].filter(Boolean).join(' · ')}
+                          </Typography>
+                        )}
                       </Box>
                       <Box sx={{ display: 'flex', gap: 1, ml: 2 }}>
                         <Button
                           variant="contained"
                           color="success"
                           onClick={() => handleMarkAsShipped(order.order_id)}
-                          disabled={fulfillmentLoading}
+                          disabled={fulfillmentLoading || shippingOrderId !== null}
                         >
-                          Mark as Shipped
+                          {shippingOrderId === order.order_id ? 'Shipping…' : 'Mark as Shipped'}
                         </Button>
                         <Button
                           variant="outlined"
@@ -455,6 +532,8 @@ const ProductionDashboard: React.FC = () => {
         </Card>
       )}
 
+      <ReturnRequestsSection />
+
       <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: '2fr 1fr' }, gap: 3 }}>
         {/* Recent Orders */}
         <Box>
@@ -500,8 +579,8 @@ const ProductionDashboard: React.FC = () => {
                         <TableCell>
                           <Chip
                             label={order.status}
-                            color={order.status === 'completed' ? 'success' : 
-                                   order.status === 'processing' ? 'warning' : 'info'}
+                            color={order.status === 'delivered' ? 'success' : 
+                                   order.status === 'in_production' ? 'warning' : 'info'}
                             size="small"
                           />
                         </TableCell>
@@ -122,7 +122,7 @@ const ProviderAnalyticsPage: React.FC = () => {
       // Fetch provider-specific sets and orders data
       const [providerSetsResponse, ordersResponse] = await Promise.all([
         providerApi.getProviderSets(user.user_id),
-        ordersApi.getAll()
+        ordersApi.getAll({ level: 'fulfilment' })
       ]);
       
       const providerSets = providerSetsResponse.data?.provider_sets || [];
@@ -168,7 +168,7 @@ const ProviderAnalyticsPage: React.FC = () => {
     });
 
     // Calculate average order value
-    const completedOrders = orders.filter(order => order.status === 'completed');
+    const completedOrders = orders.filter(order => order.status === 'delivered');
     const averageOrderValue = completedOrders.length > 0 
       ? completedOrders.reduce((sum, order) => sum + Number(order.total_amount || 0), 0) / completedOrders.length
       : 0;
@@ -182,9 +182,9 @@ const ProviderDashboardPage: React.FC = () => {
       const response = await ordersApi.getByProvider(user.user_id, 'all');
       const allOrders = response.data?.orders || [];
       
-      // Filter to only show orders that are ready to ship (payment_received) and not yet shipped
+      // Only confirmed (paid) orders and those in production are ready to ship
       const orders = allOrders.filter((order: any) => 
-        order.status === 'payment_received' && order.status !== 'shipped'
+        order.status === 'confirmed' || order.status === 'in_production'
       );
       
       console.log('✅ Orders to fulfill fetched:', orders.length);
@@ -209,7 +209,7 @@ const ProviderDashboardPage: React.FC = () => {
     try {
       setUpdatingStatus(true);
       
-      const response = await ordersApi.updateProviderStatus(
+      await ordersApi.updateStatus(
         shippingDialog.order.order_id,
         'shipped',
         shippingNotes || undefined,
@@ -219,19 +219,7 @@ const ProviderDashboardPage: React.FC = () => {
       // Refresh the orders list
       await fetchOrdersToFulfill();
       
-      // Show success message
-      const notificationsSent = response.data?.notifications_sent;
-      let message = `Order #${shippingDialog.order.order_id} marked as shipped successfully!`;
-      
-      if (notificationsSent) {
-        message += ` Notifications sent to admin`;
-        if (notificationsSent.customer) {
-          message += ` and customer`;
-        }
-        message += `.`;
-      }
-      
-      setSuccessMessage(message);
+      setSuccessMessage(`Order #${shippingDialog.order.order_id} marked as shipped successfully! The customer has been notified.`);
       
       // Close dialog
       setShippingDialog({ open: false, order: null });
@@ -645,11 +633,11 @@ const ProviderDashboardPage: React.FC = () => {
                     </Box>
                     <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1, alignItems: 'flex-end' }}>
                       <Chip 
-                        label={order.status === 'shipped' ? 'Shipped' : order.status === 'payment_received' ? 'Payment Received' : order.status}
-                        color={order.status === 'shipped' ? 'primary' : order.status === 'payment_received' ? 'success' : 'default'} 
+                        label={order.status === 'in_production' ? 'In Production' : order.status === 'confirmed' ? 'Confirmed' : order.status}
+                        color={order.status === 'in_production' ? 'primary' : order.status === 'confirmed' ? 'success' : 'default'} 
                         size="small" 
                       />
-                      {order.status !== 'shipped' && (
+                      {(order.status === 'confirmed' || order.status === 'in_production') && (
                         <Button
                           variant="contained"
                           size="small"
@@ -693,7 +681,7 @@ const ProviderDashboardPage: React.FC = () => {
                 No orders ready for fulfillment
               </Typography>
               <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
-                Orders with "Payment Received" status will appear here
+                Confirmed orders will appear here
               </Typography>
             </Box>
           )}
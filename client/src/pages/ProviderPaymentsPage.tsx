@@ -43,8 +43,10 @@ import {
   Upload as UploadIcon,
   BarChart as BarChartIcon,
   PieChart as PieChartIcon,
+  AccountBalance as BankIcon,
+  CheckCircle as ApproveIcon,
 } from '@mui/icons-material';
-import { apiUrl, ordersApi, providerPaymentsApi, setsApi } from '../services/api';
+import { apiUrl, ordersApi, providerPaymentsApi, setsApi, PayoutBatch } from '../services/api';
 import { useAuth } from '../contexts/AuthContext';
 
 interface ProviderPaymentData {
@@ -52,9 +54,13 @@ interface ProviderPaymentData {
   provider_name: string;
   provider_company: string;
   provider_email: string;
+  /** Whether the provider's profile has a valid IBAN for SEPA payouts */
+  provider_has_iban?: boolean;
   provider_markup_percentage: number;
   total_orders: number;
   total_revenue: number;
+  /** Credit notes issued this month on the provider's orders */
+  total_refunds?: number;
   platform_fee_percentage: number;
   platform_fee_amount: number;
   provider_payment: number;
@@ -66,6 +72,20 @@ interface ProviderPaymentData {
     status: string;
     payment_status: string;
   }>;
+  credit_notes?: Array<{
+    invoice_number: string;
+    issued_at: string;
+    order_id: number;
+    order_number: string;
+    amount: number;
+  }>;
+  /** The provider's payment in this month's payout batch, if one exists */
+  payout?: {
+    batch_id: number;
+    batch_reference: string;
+    status: PayoutBatch['status'];
+    amount: number;
+  } | null;
 }
 
 interface MonthlyReport {
@@ -73,11 +93,20 @@ interface MonthlyReport {
   year: number;
   total_providers: number;
   total_revenue: number;
+  total_refunds?: number;
   total_platform_fees: number;
   total_provider_payments: number;
   providers: ProviderPaymentData[];
+  payout_batch?: PayoutBatch | null;
 }
 
+const PAYOUT_STATUS_COLORS: Record<PayoutBatch['status'], 'default' | 'info' | 'success' | 'warning'> = {
+  draft: 'warning',
+  approved: 'info',
+  paid: 'success',
+  cancelled: 'default',
+};
+
 const ProviderPaymentsPage: React.FC = () => {
   const { user } = useAuth();
   const [loading, setLoading] = useState(false);
@@ -90,6 +119,8 @@ const ProviderPaymentsPage: React.FC = () => {
   const [selectedProvider, setSelectedProvider] = useState<ProviderPaymentData | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  const [payoutLoading, setPayoutLoading] = useState(false);
+  const [executionDate, setExecutionDate] = useState('');
 
   // Generate months and years for selection
   const months = [
@@ -282,19 +313,77 @@ const ProviderPaymentsPage: React.FC = () => {
     }
   };
 
+  /** Show a changed payout batch on the report and its provider rows */
+  const applyPayoutBatch = (batch: PayoutBatch | null) => {
+    setCurrentReport(prev => prev && {
+      ...prev,
+      payout_batch: batch,
+      providers: prev.providers.map((provider) => {
+        const item = batch?.items.find((candidate) => candidate.provider_id === provider.provider_id);
+        return {
+          ...provider,
+          payout: batch && item
+            ? { batch_id: batch.batch_id, batch_reference: batch.batch_reference, status: batch.status, amount: item.amount }
+            : null,
+        };
+      }),
+    });
+  };
+
+  const runPayoutAction = async (action: () => Promise<{ data: { batch: PayoutBatch; message: string } }>) => {
+    try {
+      setPayoutLoading(true);
+      setError(null);
+      const response = await action();
+      applyPayoutBatch(response.data.batch.status === 'cancelled' ? null : response.data.batch);
+      setSuccess(response.data.message);
+    } catch (error: any) {
+      console.error('Error updating payout batch:', error);
+      setError(error.response?.data?.error || 'Failed to update payout batch');
+    } finally {
+      setPayoutLoading(false);
+    }
+  };
+
+  const createPayoutBatch = () => runPayoutAction(() => providerPaymentsApi.createPayoutBatch({
+    year: selectedYear,
+    month: months.indexOf(selectedMonth) + 1,
+  }));
+
+  const approvePayoutBatch = (batch: PayoutBatch) =>
+    runPayoutAction(() => providerPaymentsApi.approvePayoutBatch(batch.batch_id, executionDate || undefined));
+
+  const downloadPain001 = async (batch: PayoutBatch) => {
+    try {
+      const response = await providerPaymentsApi.downloadPain001(batch.batch_id);
+      const url = window.URL.createObjectURL(new Blob([response.data], { type: 'application/xml' }));
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${batch.batch_reference}.xml`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error) {
+      console.error('Error downloading payment file:', error);
+      setError('Failed to download SEPA payment file');
+    }
+  };
+
   const exportReportToCSV = (report: MonthlyReport) => {
     // Create CSV content
     let csv = 'Provider Payment Report\n\n';
     csv += `Month: ${selectedMonth} ${selectedYear}\n`;
     csv += `Total Revenue: €${report.total_revenue.toFixed(2)}\n`;
+    csv += `Refunds: €${(report.total_refunds || 0).toFixed(2)}\n`;
     csv += `Platform Fees: €${report.total_platform_fees.toFixed(2)}\n`;
     csv += `Provider Payments: €${report.total_provider_payments.toFixed(2)}\n`;
     csv += `Active Providers: ${report.total_providers}\n\n`;
     
-    csv += 'Provider,Company,Total Orders,Revenue,Platform Fee,Provider Payment\n';
+    csv += 'Provider,Company,Total Orders,Revenue,Refunds,Platform Fee,Provider Payment\n';
     
     report.providers.forEach(provider => {
-      csv += `"${provider.provider_name}","${provider.provider_company}",${provider.total_orders},${provider.total_revenue},${provider.platform_fee_amount},${provider.provider_payment}\n`;
+      csv += `"${provider.provider_name}","${provider.provider_company}",${provider.total_orders},${provider.total_revenue},${provider.total_refunds || 0},${provider.platform_fee_amount},${provider.provider_payment}\n`;
     });
     
     // Create and download file
@@ -465,6 +554,99 @@ const ProviderPaymentsPage: React.FC = () => {
               Notify All Providers
             </Button>
           </Box>
+
+          {/* SEPA Payout Batch */}
+          <Card sx={{ mb: 3 }}>
+            <CardContent>
+              <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: 2 }}>
+                <Box>
+                  <Typography variant="h6" sx={{ display: 'flex', alignItems: 'center' }}>
+                    <BankIcon sx={{ mr: 1, color: 'primary.main' }} />
+                    SEPA Payout
+                  </Typography>
+                  {currentReport.payout_batch ? (
+                    <Typography variant="body2" color="text.secondary">
+                      {currentReport.payout_batch.batch_reference}: {currentReport.payout_batch.payment_count} payments,
+                      {' '}€{currentReport.payout_batch.total_amount.toFixed(2)}
+                      {currentReport.payout_batch.execution_date && ` - execution ${currentReport.payout_batch.execution_date}`}
+                      {' '}
+                      <Chip
+                        label={currentReport.payout_batch.status}
+                        size="small"
+                        color={PAYOUT_STATUS_COLORS[currentReport.payout_batch.status]}
+                      />
+                    </Typography>
+                  ) : (
+                    <Typography variant="body2" color="text.secondary">
+                      No payout batch for this month yet. Create a draft, review it and approve it to generate the pain.001 file for the bank.
+                    </Typography>
+                  )}
+                </Box>
+                <Stack direction="row" spacing={1} alignItems="center">
+                  {(!currentReport.payout_batch || currentReport.payout_batch.status === 'draft') && (
+                    <Button variant="outlined" onClick={createPayoutBatch} disabled={payoutLoading}>
+                      {currentReport.payout_batch ? 'Recreate Draft' : 'Create Draft Batch'}
+                    </Button>
+                  )}
+                  {currentReport.payout_batch?.status === 'draft' && (
+                    <>
+                      <TextField
+                        type="date"
+                        size="small"
+                        label="Execution date"
+                        value={executionDate}
+                        onChange={(e) => setExecutionDate(e.target.value)}
+                        InputLabelProps={{ shrink: true }}
+                        helperText="Defaults to the next business day"
+                      />
+                      <Button
+                        variant="text"
+                        color="error"
+                        onClick={() => runPayoutAction(() => providerPaymentsApi.cancelPayoutBatch(currentReport.payout_batch!.batch_id))}
+                        disabled={payoutLoading}
+                      >
+                        Cancel Draft
+                      </Button>
+                      <Button
+                        variant="contained"
+                        startIcon={payoutLoading ? <CircularProgress size={20} /> : <ApproveIcon />}
+                        onClick={() => approvePayoutBatch(currentReport.payout_batch!)}
+                        disabled={payoutLoading || currentReport.payout_batch.items.some((item) => !item.iban_valid)}
+                      >
+                        Approve & Generate File
+                      </Button>
+                    </>
+                  )}
+                  {currentReport.payout_batch?.has_file && (
+                    <Button
+                      variant="outlined"
+                      startIcon={<DownloadIcon />}
+                      onClick={() => downloadPain001(currentReport.payout_batch!)}
+                    >
+                      Download pain.001
+                    </Button>
+                  )}
+                  {currentReport.payout_batch?.status === 'approved' && (
+                    <Button
+                      variant="contained"
+                      color="success"
+                      onClick={() => runPayoutAction(() => providerPaymentsApi.markPayoutBatchPaid(currentReport.payout_batch!.batch_id))}
+                      disabled={payoutLoading}
+                    >
+                      Mark as Paid
+                    </Button>
+                  )}
+                </Stack>
+              </Box>
+              {currentReport.payout_batch?.status === 'draft' && currentReport.payout_batch.items.some((item) => !item.iban_valid) && (
+                <Alert severity="warning" sx={{ mt: 2 }}>
+                  Missing or invalid IBAN for:{' '}
+                  {currentReport.payout_batch.items.filter((item) => !item.iban_valid).map((item) => item.provider_name).join(', ')}.
+                  {' '}Providers add their IBAN in their account profile.
+                </Alert>
+              )}
+            </CardContent>
+          </Card>
         </>
       )}
 
@@ -482,6 +664,7 @@ const ProviderPaymentsPage: React.FC = () => {
                     <TableCell>Provider</TableCell>
                     <TableCell align="right">Orders</TableCell>
                     <TableCell align="right">Revenue</TableCell>
+                    <TableCell align="right">Refunds</TableCell>
                     <TableCell align="right">Platform Fee</TableCell>
                     <TableCell align="right">Provider Payment</TableCell>
                     <TableCell align="center">Actions</TableCell>
@@ -513,6 +696,15 @@ const ProviderPaymentsPage: React.FC = () => {
                           €{provider.total_revenue.toFixed(2)}
                         </Typography>
                       </TableCell>
+                      <TableCell align="right">
+                        <Typography
+                          variant="subtitle2"
+                          color={provider.total_refunds ? 'error.main' : 'text.secondary'}
+                          title={(provider.credit_notes || []).map((note) => `${note.invoice_number} (${note.order_number}): €${note.amount.toFixed(2)}`).join('\n')}
+                        >
+                          {provider.total_refunds ? `-€${provider.total_refunds.toFixed(2)}` : '€0.00'}
+                        </Typography>
+                      </TableCell>
                       <TableCell align="right">
                         <Typography variant="subtitle2" color="success.main">
                           €{provider.platform_fee_amount.toFixed(2)}
@@ -525,6 +717,19 @@ const ProviderPaymentsPage: React.FC = () => {
                         <Typography variant="subtitle2" color="info.main" fontWeight="bold">
                           €{provider.provider_payment.toFixed(2)}
                         </Typography>
+                        {provider.payout ? (
+                          <Chip
+                            label={provider.payout.batch_reference}
+                            size="small"
+                            variant="outlined"
+                            color={PAYOUT_STATUS_COLORS[provider.payout.status]}
+                            title={`Payout ${provider.payout.status}: €${provider.payout.amount.toFixed(2)}`}
+                          />
+                        ) : provider.provider_payment > 0 && provider.provider_has_iban === false && (
+                          <Typography variant="caption" color="warning.main" sx={{ display: 'block' }}>
+                            IBAN missing
+                          </Typography>
+                        )}
                       </TableCell>
                       <TableCell align="center">
                         <Stack direction="row" spacing={1} justifyContent="center">
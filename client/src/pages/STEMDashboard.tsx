@@ -149,7 +149,7 @@ const STEMDashboard: React.FC = () => {
 
   const fetchPendingOrders = async () => {
     try {
-      const response = await ordersApi.getAll();
+      const response = await ordersApi.getAll({ level: 'customer' });
       const orders = response.data?.orders || response.data || [];
       const pending = orders.filter((order: any) => 
         order.payment_status === 'pending' && order.invoice_required
@@ -62,7 +62,7 @@ import { getProviderDisplayName } from '../utils/shopNameGenerator';
 
 const ShopPage: React.FC = () => {
   const { t, currentLanguage } = useLanguage();
-  const { addToCart, isInCart, getTotalItems, getTotalPrice, getCurrentProvider, clearCart } = useCart();
+  const { addToCart, isInCart, getTotalItems, getTotalPrice, cartSessionId, shippingCountry } = useCart();
   const { refreshOrderCount } = useOrderNotification();
   const { user, isAuthenticated } = useAuth();
   const navigate = useNavigate();
@@ -513,12 +513,9 @@ const ShopPage: React.FC = () => {
         return;
       }
 
-      // Calculate total with handling fee
       const setPrice = set.price || set.base_price || 0;
-      const handlingFee = 15.00;
-      const totalAmount = setPrice + handlingFee;
 
-      // Create order data with invoice generation
+      // Create order data with invoice generation; the server adds the cheapest shipping to the cart's destination
       const orderData = {
         customer_id: user.user_id,
         items: [
@@ -528,23 +525,16 @@ const ShopPage: React.FC = () => {
             price: setPrice,
             set_type: set.set_type,
             provider_id: set.provider_id || null
-          },
-          {
-            set_id: null, // Special handling fee item
-            quantity: 1,
-            price: handlingFee,
-            set_type: 'handling_fee',
-            provider_id: null,
-            description: 'Shipment handling and transport'
           }
         ],
-        total_amount: totalAmount,
-        status: 'pending_payment', // New status for invoice generation
+        total_amount: setPrice,
+        shipping_country: shippingCountry || undefined,
         payment_method: 'invoice',
         payment_status: 'pending',
-        notes: `Purchase request for ${set.name} (${set.set_type === 'admin' ? 'Platform Set' : 'Provider Set'}) - Includes €${handlingFee} handling fee`,
+        notes: `Purchase request for ${set.name} (${set.set_type === 'admin' ? 'Platform Set' : 'Provider Set'})`,
         invoice_required: true,
-        set_type: set.set_type
+        set_type: set.set_type,
+        language: currentLanguage
       };
 
       // Create the order with invoice
@@ -552,8 +542,10 @@ const ShopPage: React.FC = () => {
       
       const orderId = response.data.order_id || response.data.id;
       const invoiceData = response.data.invoice;
+      const totalAmount = Number(response.data.total_amount ?? setPrice);
+      const shippingCost = Number(response.data.shipping?.cost ?? 0);
       
-      setSuccess(`Order created successfully! Order ID: ${orderId}. Total: €${totalAmount.toFixed(2)} (including €${handlingFee} handling fee). Invoice generated and opened automatically.`);
+      setSuccess(`Order created successfully! Order ID: ${orderId}. Total: €${totalAmount.toFixed(2)} (including €${shippingCost.toFixed(2)} shipping). Invoice generated and opened automatically.`);
       setTimeout(() => setSuccess(null), 8000);
       
       // Store invoice URL for manual access
@@ -622,8 +614,8 @@ const ShopPage: React.FC = () => {
     try {
       console.log('🛒 Placing order:', orderData);
       
-      // Use the proper API service instead of direct fetch
-      const response = await ordersApi.create(orderData);
+      // Use the proper API service instead of direct fetch; the cart session lets the server use this cart's stock holds
+      const response = await ordersApi.create({ ...orderData, cart_session_id: cartSessionId });
       
       console.log('✅ Order created successfully:', response.data);
       
@@ -658,16 +650,6 @@ const ShopPage: React.FC = () => {
     console.log('ShopPage - Starting filtering with', sets.length, 'sets');
     let filtered = sets;
     
-    // Apply provider filter based on cart contents
-    const currentProvider = getCurrentProvider();
-    if (currentProvider) {
-      filtered = filtered.filter(set => {
-        // Only show sets from the same provider/admin as what's in the cart
-        return set.provider_id === currentProvider.provider_id;
-      });
-      console.log('ShopPage - After provider filter:', filtered.length, 'sets (filtering for provider:', currentProvider.provider_name, ')');
-    }
-    
     // Apply search filter
     if (searchTerm.trim()) {
       const searchLower = searchTerm.toLowerCase();
@@ -741,7 +723,7 @@ const ShopPage: React.FC = () => {
         return 0;
       }
     });
-  }, [sets, sortBy, sortOrder, searchTerm, filterCategory, filterDifficulty, currentLanguage, favorites, getCurrentProvider]);
+  }, [sets, sortBy, sortOrder, searchTerm, filterCategory, filterDifficulty, currentLanguage, favorites]);
 
   if (loading) {
     return (
@@ -887,30 +869,6 @@ const ShopPage: React.FC = () => {
           <Typography variant="body2" color="text.secondary">
             ({filteredAndSortedSets.length} sets)
           </Typography>
-          
-          {/* Provider filter indicator */}
-          {getCurrentProvider() && (
-            <Alert 
-              severity="info" 
-              sx={{ mt: 1, mb: 2 }}
-              action={
-                <Button 
-                  color="inherit" 
-                  size="small" 
-                  onClick={() => {
-                    if (window.confirm('Clear your cart to see all available sets?')) {
-                      clearCart();
-                    }
-                  }}
-                >
-                  Clear Cart
-                </Button>
-              }
-            >
-              Showing sets from <strong>{getCurrentProvider()?.provider_name}</strong> only. 
-              Clear your cart to see all available sets.
-            </Alert>
-          )}
         </Box>
       </Box>
 
@@ -0,0 +1,485 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { renderError } from '../utils/errorUtils';
+import {
+  Box,
+  Typography,
+  Button,
+  Card,
+  CardContent,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  FormControlLabel,
+  Switch,
+  Alert,
+  CircularProgress,
+  Stack,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  QrCodeScanner as ScannerIcon,
+  Save as SaveIcon,
+  Send as SendIcon,
+  CheckCircle as ApproveIcon,
+  Cancel as RejectIcon,
+  PostAdd as PostIcon,
+  Replay as ReopenIcon,
+} from '@mui/icons-material';
+import {
+  stocktakesApi,
+  storageLocationsApi,
+  Stocktake,
+  StocktakeLine,
+  StocktakeScope,
+  StocktakeStatus,
+  StorageLocation,
+} from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+
+const STATUS_COLORS: Record<StocktakeStatus, 'default' | 'info' | 'success' | 'warning'> = {
+  counting: 'info',
+  review: 'warning',
+  posted: 'success',
+  cancelled: 'default',
+};
+
+const formatMoney = (value: number | null | undefined) => `€${(Number(value) || 0).toFixed(2)}`;
+
+const lineLabel = (line: StocktakeLine) =>
+  line.item_type === 'part'
+    ? `${line.part_number || ''} ${line.part_name || ''}`.trim()
+    : `${line.tool_number || ''} ${line.tool_name || ''}`.trim();
+
+const StocktakePage: React.FC = () => {
+  const { user } = useAuth();
+  const isAdmin = user?.role === 'admin';
+  const [stocktakes, setStocktakes] = useState<Stocktake[]>([]);
+  const [current, setCurrent] = useState<Stocktake | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [createOpen, setCreateOpen] = useState(false);
+  // location_id '' = every location
+  const [createForm, setCreateForm] = useState<{ scope: StocktakeScope; location_id: number | ''; category: string; name: string }>({
+    scope: 'parts',
+    location_id: '',
+    category: '',
+    name: '',
+  });
+  // Counts typed in the batch entry table, by line id, until saved
+  const [draftCounts, setDraftCounts] = useState<Record<number, string>>({});
+  const [scanCode, setScanCode] = useState('');
+  const [scanLocation, setScanLocation] = useState('');
+  const [varianceOnly, setVarianceOnly] = useState(false);
+  const [storageLocations, setStorageLocations] = useState<StorageLocation[]>([]);
+  const scanInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    fetchStocktakes();
+    storageLocationsApi.getAll()
+      .then((response) => setStorageLocations(response.data.locations))
+      .catch((err) => console.error('Error loading storage locations:', err));
+  }, []);
+
+  const fetchStocktakes = async () => {
+    try {
+      setLoading(true);
+      const response = await stocktakesApi.getAll(1, 50);
+      setStocktakes(response.data.stocktakes);
+    } catch (err) {
+      setError(renderError(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openStocktake = async (stocktakeId: number) => {
+    try {
+      const response = await stocktakesApi.getById(stocktakeId);
+      setCurrent(response.data);
+      setDraftCounts({});
+    } catch (err) {
+      setError(renderError(err));
+    }
+  };
+
+  // Run a stocktake action, then show the returned stocktake and refresh the list
+  const runAction = async (action: () => Promise<{ data: { stocktake: Stocktake } }>, message: string) => {
+    try {
+      setError(null);
+      const response = await action();
+      setCurrent(response.data.stocktake);
+      setDraftCounts({});
+      setSuccess(message);
+      fetchStocktakes();
+    } catch (err: any) {
+      setError(err.response?.data?.error || renderError(err));
+    }
+  };
+
+  const handleCreate = async () => {
+    await runAction(
+      () => stocktakesApi.create({
+        scope: createForm.scope,
+        location_id: createForm.location_id || undefined,
+        category: createForm.category || undefined,
+        name: createForm.name || undefined,
+      }),
+      'Stocktake started; expected stock frozen'
+    );
+    setCreateOpen(false);
+  };
+
+  const handleSaveCounts = async () => {
+    if (!current) return;
+    const counts = Object.entries(draftCounts)
+      .filter(([, value]) => value !== '')
+      .map(([lineId, value]) => ({ line_id: Number(lineId), counted_quantity: Number(value) }));
+    if (counts.length === 0) return;
+    await runAction(() => stocktakesApi.saveCounts(current.stocktake_id, counts), `${counts.length} count(s) saved`);
+  };
+
+  // Scanners type the code and press Enter; each scan counts one more
+  const handleScan = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!current || !scanCode.trim()) return;
+    try {
+      setError(null);
+      const response = await stocktakesApi.scan(current.stocktake_id, {
+        code: scanCode.trim(),
+        location: scanLocation || undefined,
+      });
+      const line = response.data.line;
+      setSuccess(`${lineLabel(line)}: ${line.counted_quantity} counted`);
+      await openStocktake(current.stocktake_id);
+    } catch (err: any) {
+      setError(err.response?.data?.error || renderError(err));
+    } finally {
+      setScanCode('');
+      scanInput.current?.focus();
+    }
+  };
+
+  const visibleLines = (current?.lines || []).filter((line) => !varianceOnly || line.variance);
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+        <Typography variant="h4">Stocktake</Typography>
+        <Button variant="contained" startIcon={<AddIcon />} onClick={() => setCreateOpen(true)}>
+          New Stocktake
+        </Button>
+      </Box>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>{error}</Alert>}
+      {success && <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess(null)}>{success}</Alert>}
+
+      <Card sx={{ mb: 3 }}>
+        <CardContent>
+          {loading ? (
+            <CircularProgress />
+          ) : (
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Number</TableCell>
+                    <TableCell>Name</TableCell>
+                    <TableCell>Scope</TableCell>
+                    <TableCell>Location</TableCell>
+                    <TableCell align="right">Counted</TableCell>
+                    <TableCell align="right">Variances</TableCell>
+                    <TableCell>Status</TableCell>
+                    <TableCell>Started</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {stocktakes.map((stocktake) => (
+                    <TableRow
+                      key={stocktake.stocktake_id}
+                      hover
+                      selected={current?.stocktake_id === stocktake.stocktake_id}
+                      onClick={() => openStocktake(stocktake.stocktake_id)}
+                      sx={{ cursor: 'pointer' }}
+                    >
+                      <TableCell>{stocktake.stocktake_number}</TableCell>
+                      <TableCell>{stocktake.name || '-'}</TableCell>
+                      <TableCell>{stocktake.scope}</TableCell>
+                      <TableCell>{stocktake.location || 'All'}</TableCell>
+                      <TableCell align="right">{stocktake.counted_count ?? 0} / {stocktake.line_count ?? 0}</TableCell>
+                      <TableCell align="right">{stocktake.variance_count ?? 0}</TableCell>
+                      <TableCell>
+                        <Chip label={stocktake.status} size="small" color={STATUS_COLORS[stocktake.status]} />
+                      </TableCell>
+                      <TableCell>{new Date(stocktake.created_at).toLocaleDateString()}</TableCell>
+                    </TableRow>
+                  ))}
+                  {stocktakes.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={8} align="center">No stocktakes yet</TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      {current && (
+        <Card>
+          <CardContent>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2, flexWrap: 'wrap', gap: 1 }}>
+              <Typography variant="h6">
+                {current.stocktake_number} {current.name ? `- ${current.name}` : ''}{' '}
+                <Chip label={current.status} size="small" color={STATUS_COLORS[current.status]} />
+              </Typography>
+              <Stack direction="row" spacing={1}>
+                {current.status === 'counting' && (
+                  <>
+                    <Button startIcon={<SaveIcon />} onClick={handleSaveCounts} disabled={Object.keys(draftCounts).length === 0}>
+                      Save Counts
+                    </Button>
+                    <Button
+                      variant="contained"
+                      startIcon={<SendIcon />}
+                      onClick={() => runAction(() => stocktakesApi.submit(current.stocktake_id), 'Submitted for review')}
+                    >
+                      Submit for Review
+                    </Button>
+                  </>
+                )}
+                {current.status === 'review' && (
+                  <>
+                    <Button
+                      startIcon={<ReopenIcon />}
+                      onClick={() => runAction(() => stocktakesApi.reopen(current.stocktake_id), 'Reopened for counting')}
+                    >
+                      Recount
+                    </Button>
+                    {isAdmin && (
+                      <>
+                        <Button
+                          color="success"
+                          startIcon={<ApproveIcon />}
+                          onClick={() => runAction(() => stocktakesApi.review(current.stocktake_id, true), 'All variances approved')}
+                        >
+                          Approve All
+                        </Button>
+                        <Button
+                          variant="contained"
+                          startIcon={<PostIcon />}
+                          disabled={!current.summary?.approved_lines}
+                          onClick={() => runAction(() => stocktakesApi.post(current.stocktake_id), 'Approved adjustments posted to stock')}
+                        >
+                          Post Adjustments
+                        </Button>
+                      </>
+                    )}
+                  </>
+                )}
+                {isAdmin && (current.status === 'counting' || current.status === 'review') && (
+                  <Button
+                    color="error"
+                    onClick={() => runAction(() => stocktakesApi.cancel(current.stocktake_id), 'Stocktake cancelled')}
+                  >
+                    Cancel
+                  </Button>
+                )}
+              </Stack>
+            </Box>
+
+            {current.summary && (
+              <Stack direction="row" spacing={1} sx={{ mb: 2, flexWrap: 'wrap' }}>
+                <Chip label={`Counted ${current.summary.counted_lines} / ${current.summary.total_lines}`} />
+                <Chip label={`Variances ${current.summary.variance_lines}`} color={current.summary.variance_lines ? 'warning' : 'default'} />
+                <Chip label={`Approved ${current.summary.approved_lines}`} />
+                <Chip label={`Gain ${formatMoney(current.summary.value_gain)}`} color="success" variant="outlined" />
+                <Chip label={`Loss ${formatMoney(current.summary.value_loss)}`} color="error" variant="outlined" />
+                <Chip label={`Net ${formatMoney(current.summary.net_value_impact)}`} variant="outlined" />
+              </Stack>
+            )}
+
+            {current.status === 'counting' && (
+              <Box component="form" onSubmit={handleScan} sx={{ display: 'flex', gap: 2, mb: 2 }}>
+                <TextField
+                  inputRef={scanInput}
+                  label="Scan or type part / tool number"
+                  value={scanCode}
+                  onChange={(e) => setScanCode(e.target.value)}
+                  size="small"
+                  autoFocus
+                  InputProps={{ startAdornment: <ScannerIcon sx={{ mr: 1, color: 'text.secondary' }} /> }}
+                  sx={{ flex: 1 }}
+                />
+                <TextField
+                  label="Found at location"
+                  value={scanLocation}
+                  onChange={(e) => setScanLocation(e.target.value)}
+                  size="small"
+                />
+                <Button type="submit" variant="outlined">Count</Button>
+              </Box>
+            )}
+
+            <FormControlLabel
+              control={<Switch checked={varianceOnly} onChange={(e) => setVarianceOnly(e.target.checked)} />}
+              label="Variances only"
+            />
+
+            <TableContainer component={Paper} variant="outlined">
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Location</TableCell>
+                    <TableCell>Item</TableCell>
+                    <TableCell align="right">Expected</TableCell>
+                    <TableCell align="right">Counted</TableCell>
+                    <TableCell align="right">Variance</TableCell>
+                    <TableCell align="right">Value Impact</TableCell>
+                    <TableCell>Status</TableCell>
+                    {isAdmin && current.status === 'review' && <TableCell align="right">Review</TableCell>}
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {visibleLines.map((line) => (
+                    <TableRow key={line.line_id}>
+                      <TableCell>
+                        {line.location || '-'}
+                        {line.counted_location && line.counted_location !== line.location && (
+                          <Typography variant="caption" display="block" color="text.secondary">
+                            found at {line.counted_location}
+                          </Typography>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {lineLabel(line)}
+                        {line.item_type === 'tool' && <Chip label="tool" size="small" sx={{ ml: 1 }} />}
+                      </TableCell>
+                      <TableCell align="right">{line.expected_quantity}</TableCell>
+                      <TableCell align="right">
+                        {current.status === 'counting' ? (
+                          <TextField
+                            type="number"
+                            size="small"
+                            value={draftCounts[line.line_id] ?? (line.counted_quantity ?? '')}
+                            onChange={(e) => setDraftCounts((prev) => ({ ...prev, [line.line_id]: e.target.value }))}
+                            inputProps={{ min: 0, style: { textAlign: 'right', width: 70 } }}
+                          />
+                        ) : (
+                          line.counted_quantity ?? '-'
+                        )}
+                      </TableCell>
+                      <TableCell
+                        align="right"
+                        sx={{ color: line.variance ? (line.variance > 0 ? 'success.main' : 'error.main') : undefined }}
+                      >
+                        {line.variance === null ? '-' : line.variance > 0 ? `+${line.variance}` : line.variance}
+                      </TableCell>
+                      <TableCell align="right">{line.value_impact === null ? '-' : formatMoney(line.value_impact)}</TableCell>
+                      <TableCell>{line.status}</TableCell>
+                      {isAdmin && current.status === 'review' && (
+                        <TableCell align="right">
+                          {line.variance ? (
+                            <>
+                              <Button
+                                size="small"
+                                color="success"
+                                startIcon={<ApproveIcon />}
+                                disabled={line.status === 'approved'}
+                                onClick={() => runAction(() => stocktakesApi.review(current.stocktake_id, true, [line.line_id]), 'Variance approved')}
+                              >
+                                Approve
+                              </Button>
+                              <Button
+                                size="small"
+                                color="error"
+                                startIcon={<RejectIcon />}
+                                disabled={line.status === 'rejected'}
+                                onClick={() => runAction(() => stocktakesApi.review(current.stocktake_id, false, [line.line_id]), 'Variance rejected')}
+                              >
+                                Reject
+                              </Button>
+                            </>
+                          ) : null}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={createOpen} onClose={() => setCreateOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>New Stocktake</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            The current stock of everything in scope is frozen as the expected quantity.
+          </Typography>
+          <FormControl fullWidth sx={{ mb: 2 }}>
+            <InputLabel>Scope</InputLabel>
+            <Select
+              value={createForm.scope}
+              label="Scope"
+              onChange={(e) => setCreateForm({ ...createForm, scope: e.target.value as StocktakeScope })}
+            >
+              <MenuItem value="parts">Parts</MenuItem>
+              <MenuItem value="tools">Tools</MenuItem>
+              <MenuItem value="all">Parts and tools</MenuItem>
+            </Select>
+          </FormControl>
+          <TextField
+            fullWidth
+            label="Name"
+            value={createForm.name}
+            onChange={(e) => setCreateForm({ ...createForm, name: e.target.value })}
+            sx={{ mb: 2 }}
+          />
+          {/* A location covers the bins inside it */}
+          <TextField
+            select
+            fullWidth
+            label="Location"
+            value={createForm.location_id}
+            onChange={(e) => setCreateForm({ ...createForm, location_id: Number(e.target.value) || '' })}
+            sx={{ mb: 2 }}
+          >
+            <MenuItem value="">All</MenuItem>
+            {storageLocations.map((location) => (
+              <MenuItem key={location.location_id} value={location.location_id}>{location.path}</MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            fullWidth
+            label="Category (empty = all)"
+            value={createForm.category}
+            onChange={(e) => setCreateForm({ ...createForm, category: e.target.value })}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setCreateOpen(false)}>Cancel</Button>
+          <Button variant="contained" onClick={handleCreate}>Start</Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default StocktakePage;
@@ -0,0 +1,347 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { renderError } from '../utils/errorUtils';
+import {
+  Box,
+  Typography,
+  Button,
+  Card,
+  CardContent,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  FormControlLabel,
+  Switch,
+  Alert,
+  CircularProgress,
+  IconButton,
+  Tooltip,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Block as DeactivateIcon,
+  Inventory as StockIcon,
+} from '@mui/icons-material';
+import {
+  storageLocationsApi,
+  StorageLocation,
+  StorageLocationData,
+  StorageLocationType,
+  LocationStock,
+} from '../services/api';
+
+const TYPE_LABELS: Record<StorageLocationType, string> = {
+  room: 'Room',
+  warehouse: 'Warehouse',
+  bin: 'Bin',
+};
+
+const emptyForm: StorageLocationData = {
+  code: '',
+  name: '',
+  location_type: 'room',
+  parent_id: null,
+  pick_sequence: 0,
+  notes: '',
+};
+
+const StorageLocationsPage: React.FC = () => {
+  const [locations, setLocations] = useState<StorageLocation[]>([]);
+  const [includeInactive, setIncludeInactive] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<StorageLocation | null>(null);
+  const [form, setForm] = useState<StorageLocationData>(emptyForm);
+  const [stockLocation, setStockLocation] = useState<StorageLocation | null>(null);
+  const [stock, setStock] = useState<LocationStock[]>([]);
+
+  const fetchLocations = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await storageLocationsApi.getAll(includeInactive);
+      setLocations(response.data.locations);
+    } catch (err) {
+      setError(renderError(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [includeInactive]);
+
+  useEffect(() => {
+    fetchLocations();
+  }, [fetchLocations]);
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(emptyForm);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (location: StorageLocation) => {
+    setEditing(location);
+    setForm({
+      code: location.code,
+      name: location.name,
+      location_type: location.location_type,
+      parent_id: location.parent_id,
+      pick_sequence: location.pick_sequence,
+      notes: location.notes || '',
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    try {
+      setError(null);
+      if (editing) {
+        await storageLocationsApi.update(editing.location_id, form);
+        setSuccess(`Location ${form.code} updated`);
+      } else {
+        await storageLocationsApi.create(form);
+        setSuccess(`Location ${form.code} created`);
+      }
+      setDialogOpen(false);
+      fetchLocations();
+    } catch (err: any) {
+      setError(err.response?.data?.error || renderError(err));
+    }
+  };
+
+  const handleDeactivate = async (location: StorageLocation) => {
+    if (!window.confirm(`Deactivate location ${location.code}?`)) return;
+    try {
+      setError(null);
+      await storageLocationsApi.deactivate(location.location_id);
+      setSuccess(`Location ${location.code} deactivated`);
+      fetchLocations();
+    } catch (err: any) {
+      setError(err.response?.data?.error || renderError(err));
+    }
+  };
+
+  const openStock = async (location: StorageLocation) => {
+    try {
+      setError(null);
+      const response = await storageLocationsApi.getStock(location.location_id);
+      setStock(response.data.stock);
+      setStockLocation(location);
+    } catch (err: any) {
+      setError(err.response?.data?.error || renderError(err));
+    }
+  };
+
+  // A location cannot be moved inside itself or one of its own bins
+  const parentOptions = locations.filter((location) =>
+    Number(location.is_active) === 1
+    && location.location_type !== 'bin'
+    && (!editing || (location.location_id !== editing.location_id && !location.path.startsWith(`${editing.path} / `))));
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+        <Typography variant="h4">Storage Locations</Typography>
+        <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+          <FormControlLabel
+            control={<Switch checked={includeInactive} onChange={(e) => setIncludeInactive(e.target.checked)} />}
+            label="Show inactive"
+          />
+          <Button variant="contained" startIcon={<AddIcon />} onClick={openCreate}>
+            New Location
+          </Button>
+        </Box>
+      </Box>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>{error}</Alert>}
+      {success && <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess(null)}>{success}</Alert>}
+
+      <Card>
+        <CardContent>
+          {loading ? (
+            <CircularProgress />
+          ) : (
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Code</TableCell>
+                    <TableCell>Location</TableCell>
+                    <TableCell>Type</TableCell>
+                    <TableCell align="right">Pick Order</TableCell>
+                    <TableCell align="right">Parts</TableCell>
+                    <TableCell align="right">Units</TableCell>
+                    <TableCell>Status</TableCell>
+                    <TableCell align="right">Actions</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {locations.map((location) => (
+                    <TableRow key={location.location_id}>
+                      <TableCell>{location.code}</TableCell>
+                      <TableCell>{location.path}</TableCell>
+                      <TableCell>{TYPE_LABELS[location.location_type] || location.location_type}</TableCell>
+                      <TableCell align="right">{location.pick_sequence}</TableCell>
+                      <TableCell align="right">{location.part_count || 0}</TableCell>
+                      <TableCell align="right">{location.total_quantity || 0}</TableCell>
+                      <TableCell>
+                        <Chip
+                          label={Number(location.is_active) === 1 ? 'Active' : 'Inactive'}
+                          color={Number(location.is_active) === 1 ? 'success' : 'default'}
+                          size="small"
+                        />
+                      </TableCell>
+                      <TableCell align="right">
+                        <Tooltip title="Stock held here">
+                          <IconButton size="small" onClick={() => openStock(location)}>
+                            <StockIcon />
+                          </IconButton>
+                        </Tooltip>
+                        <Tooltip title="Edit">
+                          <IconButton size="small" onClick={() => openEdit(location)}>
+                            <EditIcon />
+                          </IconButton>
+                        </Tooltip>
+                        {Number(location.is_active) === 1 && (
+                          <Tooltip title="Deactivate">
+                            <IconButton size="small" onClick={() => handleDeactivate(location)}>
+                              <DeactivateIcon />
+                            </IconButton>
+                          </Tooltip>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {locations.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={8} align="center">No storage locations yet</TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>{editing ? `Edit ${editing.code}` : 'New Storage Location'}</DialogTitle>
+        <DialogContent>
+          <Box sx={{ pt: 2, display: 'flex', flexDirection: 'column', gap: 2 }}>
+            <TextField
+              label="Code"
+              value={form.code}
+              onChange={(e) => setForm({ ...form, code: e.target.value })}
+              helperText="Short code printed on shelves and bins, e.g. WH-A-03"
+              required
+            />
+            <TextField
+              label="Name"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              required
+            />
+            <FormControl fullWidth>
+              <InputLabel>Type</InputLabel>
+              <Select
+                value={form.location_type}
+                label="Type"
+                onChange={(e) => setForm({ ...form, location_type: e.target.value as StorageLocationType })}
+              >
+                {(Object.keys(TYPE_LABELS) as StorageLocationType[]).map((type) => (
+                  <MenuItem key={type} value={type}>{TYPE_LABELS[type]}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <FormControl fullWidth>
+              <InputLabel>Inside</InputLabel>
+              <Select
+                value={form.parent_id || ''}
+                label="Inside"
+                onChange={(e) => setForm({ ...form, parent_id: Number(e.target.value) || null })}
+              >
+                <MenuItem value="">(top level)</MenuItem>
+                {parentOptions.map((location) => (
+                  <MenuItem key={location.location_id} value={location.location_id}>{location.path}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <TextField
+              label="Pick Order"
+              type="number"
+              value={form.pick_sequence}
+              onChange={(e) => setForm({ ...form, pick_sequence: parseInt(e.target.value) || 0 })}
+              helperText="Lower numbers are picked from first"
+            />
+            <TextField
+              label="Notes"
+              multiline
+              rows={2}
+              value={form.notes}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={handleSave}
+            disabled={!form.code.trim() || !form.name.trim() || (form.location_type === 'bin' && !form.parent_id)}
+          >
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Stock Dialog */}
+      <Dialog open={Boolean(stockLocation)} onClose={() => setStockLocation(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>Stock at {stockLocation?.path}</DialogTitle>
+        <DialogContent>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Part Number</TableCell>
+                <TableCell>Part</TableCell>
+                <TableCell align="right">Quantity</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {stock.map((row) => (
+                <TableRow key={row.part_id}>
+                  <TableCell>{row.part_number}</TableCell>
+                  <TableCell>{row.part_name}</TableCell>
+                  <TableCell align="right">{row.quantity} {row.unit_of_measure}</TableCell>
+                </TableRow>
+              ))}
+              {stock.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={3} align="center">Empty</TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setStockLocation(null)}>Close</Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default StorageLocationsPage;
@@ -19,17 +19,28 @@ import {
   Refresh as RefreshIcon,
   AutoAwesome as AutoIcon,
   Share as ShareIcon,
+  History as HistoryIcon,
+  LocalShipping as ShippingIcon,
 } from '@mui/icons-material';
 import { Switch, FormControlLabel } from '@mui/material';
 import { useLanguage } from '../contexts/LanguageContext';
 import api, { apiUrl, setApiBaseUrl } from '../services/api';
+import { settingsErrorMessage } from '../services/systemSettingsApi';
+import SettingsHistorySection from '../components/SettingsHistorySection';
+import ShippingRulesSection from '../components/ShippingRulesSection';
+import ParcelTerminalsSection from '../components/ParcelTerminalsSection';
 
 interface SystemSettings {
   shipping_handling_cost: number;
   minimum_order_amount: number;
   free_shipping_threshold: number;
+  cart_reservation_minutes: number;
+  shipping_pickup_enabled: boolean;
+  shipping_pickup_address: string;
+  shipping_packaging_weight_g: number;
   currency: string;
-  tax_rate: number;
+  /** VAT rate overrides as JSON text, e.g. {"EE": {"standard": 24}}; empty for the built-in rates */
+  vat_rates: string;
   automatic_report_enabled: boolean;
   social_share_required: number;
   social_share_reward_amount: number;
@@ -53,8 +64,12 @@ const SystemSettingsPage: React.FC = () => {
     shipping_handling_cost: 15,
     minimum_order_amount: 0,
     free_shipping_threshold: 0,
+    cart_reservation_minutes: 30,
+    shipping_pickup_enabled: true,
+    shipping_pickup_address: '',
+    shipping_packaging_weight_g: 250,
     currency: 'EUR',
-    tax_rate: 0,
+    vat_rates: '',
     automatic_report_enabled: true,
     social_share_required: 3,
     social_share_reward_amount: 5,
@@ -107,7 +122,12 @@ const SystemSettingsPage: React.FC = () => {
 
       const res = await api.get('/system-settings');
       const next = (res.data as any).settings || {};
-      setSettings(prev => ({ ...prev, ...next, public_url: next.public_url ?? prev.public_url ?? '' }));
+      setSettings(prev => ({
+        ...prev,
+        ...next,
+        public_url: next.public_url ?? prev.public_url ?? '',
+        vat_rates: next.vat_rates && typeof next.vat_rates === 'object' ? JSON.stringify(next.vat_rates) : (next.vat_rates || ''),
+      }));
       if (next.public_url) {
         setApiBaseUrl(next.public_url);
       }
@@ -130,8 +150,12 @@ const SystemSettingsPage: React.FC = () => {
         { key: 'shipping_handling_cost', value: settings.shipping_handling_cost.toString(), type: 'number' },
         { key: 'minimum_order_amount', value: settings.minimum_order_amount.toString(), type: 'number' },
         { key: 'free_shipping_threshold', value: settings.free_shipping_threshold.toString(), type: 'number' },
+        { key: 'cart_reservation_minutes', value: settings.cart_reservation_minutes.toString(), type: 'number' },
+        { key: 'shipping_pickup_enabled', value: settings.shipping_pickup_enabled.toString(), type: 'boolean' },
+        { key: 'shipping_pickup_address', value: settings.shipping_pickup_address || '', type: 'string' },
+        { key: 'shipping_packaging_weight_g', value: settings.shipping_packaging_weight_g.toString(), type: 'number' },
         { key: 'currency', value: settings.currency, type: 'string' },
-        { key: 'tax_rate', value: settings.tax_rate.toString(), type: 'number' },
+        { key: 'vat_rates', value: settings.vat_rates.trim(), type: 'json' },
         { key: 'automatic_report_enabled', value: settings.automatic_report_enabled.toString(), type: 'boolean', description: 'Enable automatic monthly report generation and email delivery to providers' },
         { key: 'social_share_required', value: settings.social_share_required.toString(), type: 'number' },
         { key: 'social_share_reward_amount', value: settings.social_share_reward_amount.toString(), type: 'number' },
@@ -156,7 +180,7 @@ const SystemSettingsPage: React.FC = () => {
       setTimeout(() => setSuccess(null), 3000);
     } catch (error) {
       console.error('Error saving settings:', error);
-      setError('Failed to save settings');
+      setError(settingsErrorMessage(error, 'Failed to save settings'));
     } finally {
       setSaving(false);
     }
@@ -196,7 +220,9 @@ const SystemSettingsPage: React.FC = () => {
         <Tabs value={activeTab} onChange={(e, newValue) => setActiveTab(newValue)} sx={{ mb: 3 }}>
           <Tab label="General" icon={<SettingsIcon />} iconPosition="start" />
           <Tab label="Financial Settings" icon={<SettingsIcon />} iconPosition="start" />
+          <Tab label="Shipping Zones" icon={<ShippingIcon />} iconPosition="start" />
           <Tab label="Social Share Messages" icon={<ShareIcon />} iconPosition="start" />
+          <Tab label="Change History" icon={<HistoryIcon />} iconPosition="start" />
         </Tabs>
 
         {error && (
@@ -249,7 +275,7 @@ const SystemSettingsPage: React.FC = () => {
               InputProps={{
                 startAdornment: <Chip label={settings.currency} size="small" sx={{ mr: 1 }} />,
               }}
-              helperText="Cost applied to each order for handling, packaging, and transport"
+              helperText="Flat rate for destinations no shipping zone covers (zone rates are set under Shipping Zones)"
               sx={{ mb: 2 }}
             />
 
@@ -275,8 +301,51 @@ const SystemSettingsPage: React.FC = () => {
               InputProps={{
                 startAdornment: <Chip label={settings.currency} size="small" sx={{ mr: 1 }} />,
               }}
-              helperText="Order amount above which shipping is free (0 = not applicable)"
+              helperText="Order amount above which shipping is free (0 = not applicable); a rate's own threshold takes precedence"
+              sx={{ mb: 2 }}
+            />
+
+            <TextField
+              fullWidth
+              label="Cart Reservation (Minutes)"
+              type="number"
+              value={settings.cart_reservation_minutes}
+              onChange={(e) => handleChange('cart_reservation_minutes', parseInt(e.target.value) || 30)}
+              helperText="How long sets added to a cart stay reserved for that customer"
+              inputProps={{ min: 5, max: 1440 }}
+              sx={{ mb: 2 }}
+            />
+
+            <TextField
+              fullWidth
+              label="Packaging Weight (g)"
+              type="number"
+              value={settings.shipping_packaging_weight_g}
+              onChange={(e) => handleChange('shipping_packaging_weight_g', parseInt(e.target.value) || 0)}
+              helperText="Box and filling added to the parts' weight of every parcel"
+              inputProps={{ min: 0, max: 10000 }}
+              sx={{ mb: 2 }}
+            />
+
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={settings.shipping_pickup_enabled}
+                  onChange={(e) => handleChange('shipping_pickup_enabled', e.target.checked)}
+                />
+              }
+              label="Offer free pickup from the lab"
             />
+            {settings.shipping_pickup_enabled && (
+              <TextField
+                fullWidth
+                label="Pickup Address"
+                value={settings.shipping_pickup_address}
+                onChange={(e) => handleChange('shipping_pickup_address', e.target.value)}
+                helperText="Shown to customers choosing pickup; empty uses the company address"
+                sx={{ mt: 1 }}
+              />
+            )}
           </CardContent>
         </Card>
 
@@ -299,17 +368,13 @@ const SystemSettingsPage: React.FC = () => {
 
             <TextField
               fullWidth
-              label="Tax Rate (%)"
-              type="number"
-              value={settings.tax_rate}
-              onChange={(e) => handleChange('tax_rate', parseFloat(e.target.value) || 0)}
-              helperText="Default tax rate percentage"
+              label="VAT Rate Overrides"
+              value={settings.vat_rates}
+              onChange={(e) => handleChange('vat_rates', e.target.value)}
+              helperText='Invoices use the built-in EU rates; override them per country, e.g. {"EE": {"standard": 24, "reduced": 9}}'
+              multiline
+              minRows={2}
               sx={{ mb: 2 }}
-              inputProps={{
-                min: 0,
-                max: 100,
-                step: 0.01,
-              }}
             />
 
             <Box sx={{ mt: 3, p: 2, bgcolor: 'primary.light', borderRadius: 1, opacity: 0.8 }}>
@@ -440,6 +505,13 @@ const SystemSettingsPage: React.FC = () => {
       )}
 
       {activeTab === 2 && (
+        <>
+          <ShippingRulesSection />
+          <ParcelTerminalsSection />
+        </>
+      )}
+
+      {activeTab === 3 && (
         <>
           <Card>
             <CardContent>
@@ -559,7 +631,8 @@ const SystemSettingsPage: React.FC = () => {
                     });
                     
                     if (!response.ok) {
-                      throw new Error(`Failed to save ${msg.key}`);
+                      const body = await response.json().catch(() => ({}));
+                      throw new Error(settingsErrorMessage({ response: { data: body } }, `Failed to save ${msg.key}`));
                     }
                   }
 
@@ -567,7 +640,7 @@ const SystemSettingsPage: React.FC = () => {
                   setTimeout(() => setSuccess(null), 3000);
                 } catch (error) {
                   console.error('Error saving messages:', error);
-                  setError('Failed to save messages');
+                  setError(error instanceof Error ? error.message : 'Failed to save messages');
                 } finally {
                   setSaving(false);
                 }
@@ -579,6 +652,8 @@ const SystemSettingsPage: React.FC = () => {
           </Box>
         </>
       )}
+
+      {activeTab === 4 && <SettingsHistorySection onRolledBack={fetchSettings} />}
     </Box>
   );
 };
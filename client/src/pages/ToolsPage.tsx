@@ -16,14 +16,28 @@ import {
   CircularProgress,
   Snackbar,
   Autocomplete,
+  MenuItem,
+  Chip,
 } from '@mui/material';
 import {
   Add as AddIcon,
   Edit as EditIcon,
   Delete as DeleteIcon,
   Search as SearchIcon,
+  QrCode2 as LabelIcon,
+  Build as MaintenanceIcon,
 } from '@mui/icons-material';
-import { toolsApi, Tool, ToolCreationData } from '../services/api';
+import {
+  toolsApi,
+  storageLocationsApi,
+  toolMaintenanceApi,
+  Tool,
+  ToolCreationData,
+  StorageLocation,
+  ToolMaintenanceOverview,
+} from '../services/api';
+import LabelPrintDialog from '../components/LabelPrintDialog';
+import ToolMaintenanceDialog from '../components/ToolMaintenanceDialog';
 
 const ToolsPageSimple: React.FC = () => {
   const [tools, setTools] = useState<Tool[]>([]);
@@ -35,6 +49,10 @@ const ToolsPageSimple: React.FC = () => {
   const [submitting, setSubmitting] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [availableCategories, setAvailableCategories] = useState<string[]>([]);
+  const [labelDialogOpen, setLabelDialogOpen] = useState(false);
+  const [storageLocations, setStorageLocations] = useState<StorageLocation[]>([]);
+  const [maintenance, setMaintenance] = useState<Record<number, ToolMaintenanceOverview>>({});
+  const [maintenanceToolId, setMaintenanceToolId] = useState<number | null>(null);
 
   // Simplified form data
   const [formData, setFormData] = useState<ToolCreationData>({
@@ -43,6 +61,7 @@ const ToolsPageSimple: React.FC = () => {
     tool_type: '',
     condition_status: 'good',
     location: '',
+    location_id: null,
     purchase_date: '',
     last_maintenance_date: '',
     next_maintenance_date: '',
@@ -71,8 +90,22 @@ const ToolsPageSimple: React.FC = () => {
     }
   };
 
+  // Maintenance status and check-outs per tool, for the status chips
+  const fetchMaintenance = async () => {
+    try {
+      const response = await toolMaintenanceApi.getOverview();
+      setMaintenance(Object.fromEntries(response.data.tools.map((t) => [t.tool_id, t])));
+    } catch (err) {
+      console.error('Error fetching tool maintenance:', err);
+    }
+  };
+
   useEffect(() => {
     fetchTools();
+    fetchMaintenance();
+    storageLocationsApi.getAll()
+      .then((response) => setStorageLocations(response.data.locations))
+      .catch((err) => console.error('Error loading storage locations:', err));
   }, []);
 
   // Handle category change and auto-generate tool number
@@ -139,6 +172,7 @@ const ToolsPageSimple: React.FC = () => {
         tool_type: tool.tool_type || '',
         condition_status: tool.condition_status || 'good',
         location: tool.location || '',
+        location_id: tool.location_id || null,
         purchase_date: tool.purchase_date || '',
         last_maintenance_date: tool.last_maintenance_date || '',
         next_maintenance_date: tool.next_maintenance_date || '',
@@ -156,6 +190,7 @@ const ToolsPageSimple: React.FC = () => {
         tool_type: '',
         condition_status: 'good',
         location: '',
+        location_id: null,
         purchase_date: '',
         last_maintenance_date: '',
         next_maintenance_date: '',
@@ -212,6 +247,14 @@ const ToolsPageSimple: React.FC = () => {
         <Typography variant="h4" component="h1">
           Tools Inventory
           </Typography>
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <Button
+              variant="outlined"
+              startIcon={<LabelIcon />}
+              onClick={() => setLabelDialogOpen(true)}
+            >
+              Print Labels
+            </Button>
             <Button
               variant="contained"
               startIcon={<AddIcon />}
@@ -219,6 +262,7 @@ const ToolsPageSimple: React.FC = () => {
             >
           Add New Tool
             </Button>
+          </Box>
         </Box>
 
       {/* Search */}
@@ -265,6 +309,18 @@ const ToolsPageSimple: React.FC = () => {
                   Location: {tool.location}
                   </Typography>
               )}
+              {maintenance[tool.tool_id] && (
+                <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mt: 1 }}>
+                  {maintenance[tool.tool_id].availability.checkout && (
+                    <Chip size="small" color="info" label={maintenance[tool.tool_id].availability.reason} />
+                  )}
+                  {maintenance[tool.tool_id].maintenance_overdue ? (
+                    <Chip size="small" color="error" label="Maintenance overdue" />
+                  ) : maintenance[tool.tool_id].maintenance_due_soon && (
+                    <Chip size="small" color="warning" label="Maintenance due soon" />
+                  )}
+                </Box>
+              )}
               {tool.description && (
                 <Typography variant="body2" sx={{ mt: 1 }}>
                   {tool.description}
@@ -287,11 +343,36 @@ const ToolsPageSimple: React.FC = () => {
               >
                 Delete
               </Button>
+              <Button
+                size="small"
+                startIcon={<MaintenanceIcon />}
+                onClick={() => setMaintenanceToolId(tool.tool_id)}
+              >
+                Maintenance
+              </Button>
             </CardActions>
           </Card>
         ))}
       </Box>
 
+      <ToolMaintenanceDialog
+        open={maintenanceToolId !== null}
+        toolId={maintenanceToolId}
+        onClose={() => setMaintenanceToolId(null)}
+        onChanged={() => {
+          fetchMaintenance();
+          fetchTools();
+        }}
+      />
+
+      {/* Label sheet for the tools currently listed */}
+      <LabelPrintDialog
+        open={labelDialogOpen}
+        onClose={() => setLabelDialogOpen(false)}
+        type="tools"
+        items={filteredTools.map((tool) => ({ id: tool.tool_id, code: tool.tool_number, name: tool.tool_name }))}
+      />
+
       {/* Add/Edit Tool Dialog */}
       <Dialog open={openDialog} onClose={handleCloseDialog} maxWidth="sm" fullWidth>
         <DialogTitle>
@@ -397,13 +478,30 @@ const ToolsPageSimple: React.FC = () => {
               )}
             />
 
-            {/* Location */}
-                <TextField
-                  fullWidth
-                  label="Location"
-                  value={formData.location}
-                  onChange={(e) => setFormData({ ...formData, location: e.target.value })}
-                />
+            {/* Location: a storage location, or free text when none is picked */}
+            <TextField
+              select
+              fullWidth
+              label="Storage Location"
+              value={formData.location_id || ''}
+              onChange={(e) => {
+                const locationId = Number(e.target.value) || null;
+                const location = storageLocations.find((l) => l.location_id === locationId);
+                setFormData({ ...formData, location_id: locationId, location: location ? location.path : formData.location });
+              }}
+            >
+              <MenuItem value="">(none)</MenuItem>
+              {storageLocations.map((location) => (
+                <MenuItem key={location.location_id} value={location.location_id}>{location.path}</MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              fullWidth
+              label="Location"
+              value={formData.location}
+              onChange={(e) => setFormData({ ...formData, location: e.target.value })}
+              disabled={Boolean(formData.location_id)}
+            />
 
             {/* Description */}
             <TextField
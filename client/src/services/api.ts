@@ -148,6 +148,18 @@ export interface CustomerFeedback {
   date: string;
 }
 
+// The required part that caps how many kits of a set can be built
+export interface SetLimitingPart {
+  part_id: number;
+  part_number: string;
+  part_name: string;
+  stock_quantity: number;
+  held_quantity: number;
+  available_quantity: number;
+  required_quantity: number;
+  buildable_quantity: number;
+}
+
 export interface Set {
   set_id: number;
   name: string;
@@ -161,6 +173,7 @@ export interface Set {
   base_price?: number;
   video_url?: string;
   learning_outcomes?: string[];
+  vat_category?: 'standard' | 'reduced' | 'zero';
   average_rating?: number;
   review_count?: number;
   latest_review_text?: string;
@@ -175,6 +188,8 @@ export interface Set {
   provider_visible?: boolean;
   tested_by_makerset?: boolean;
   available_quantity?: number;
+  buildable_quantity?: number;
+  limiting_part?: SetLimitingPart | null;
   share_count?: number;
   created_at: string;
   updated_at: string;
@@ -192,7 +207,6 @@ export interface Set {
   provider_id?: number;
   price?: number;
   display_price?: number;
-  provider_available_quantity?: number;
   provider_name?: string;
   provider_username?: string;
   provider_company?: string;
@@ -223,9 +237,17 @@ export interface Part {
   unit_of_measure: string;
   unit_cost?: number;
   supplier?: string;
+  supplier_id?: number | null;
   supplier_part_number?: string;
   stock_quantity: number;
   minimum_stock_level: number;
+  /** Lot-tracked parts need a lot number on every income */
+  track_lots?: boolean | number;
+  /** Weight (g) and size (mm) of one unit, for shipping quotes */
+  weight_g?: number | null;
+  length_mm?: number | null;
+  width_mm?: number | null;
+  height_mm?: number | null;
   image_url?: string;
   instruction_pdf?: string;
   drawing_pdf?: string;
@@ -254,6 +276,7 @@ export interface Tool {
   tool_type: string;
   condition_status: string;
   location?: string;
+  location_id?: number | null;
   purchase_date?: string;
   last_maintenance_date?: string;
   next_maintenance_date?: string;
@@ -274,6 +297,9 @@ export interface Tool {
   };
 }
 
+/** draft: entered only; confirmed: stock income posted; cancelled: posted income reversed */
+export type ReceiptStatus = 'draft' | 'confirmed' | 'cancelled';
+
 export interface Receipt {
   receipt_id: number;
   receipt_number?: string;
@@ -285,6 +311,11 @@ export interface Receipt {
   payment_method?: string;
   notes?: string;
   receipt_image_url?: string;
+  purchase_order_id?: number | null;
+  status: ReceiptStatus;
+  confirmed_at?: string | null;
+  cancelled_at?: string | null;
+  item_count?: number;
   created_at: string;
   items?: ReceiptItem[];
 }
@@ -292,9 +323,12 @@ export interface Receipt {
 export interface ReceiptItem {
   receipt_item_id?: number;
   part_id?: number;
+  po_item_id?: number | null;
   quantity: number;
   unit_price: number;
   line_total: number;
+  lot_number?: string | null;
+  expiry_date?: string | null;
   notes?: string;
   part_number?: string;
   part_name?: string;
@@ -304,6 +338,85 @@ export interface ReceiptItem {
   supplier_part_number?: string;
 }
 
+export interface Supplier {
+  supplier_id: number;
+  name: string;
+  contact_name?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  address?: string | null;
+  website?: string | null;
+  vat_number?: string | null;
+  currency: string;
+  lead_time_days: number;
+  minimum_order_quantity: number;
+  notes?: string | null;
+  is_active: number | boolean;
+  part_count?: number;
+  open_order_count?: number;
+  parts?: Part[];
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partially_received' | 'received' | 'cancelled';
+
+export interface PurchaseOrderItem {
+  po_item_id?: number;
+  part_id: number;
+  quantity_ordered: number;
+  quantity_received?: number;
+  unit_price: number;
+  line_total?: number;
+  notes?: string | null;
+  part_number?: string;
+  part_name?: string;
+  unit_of_measure?: string;
+  supplier_part_number?: string;
+  stock_quantity?: number;
+}
+
+export interface PurchaseOrder {
+  po_id: number;
+  po_number: string;
+  supplier_id: number;
+  supplier_name?: string;
+  supplier_email?: string | null;
+  status: PurchaseOrderStatus;
+  order_date?: string | null;
+  expected_date?: string | null;
+  currency: string;
+  total_amount: number;
+  notes?: string | null;
+  item_count?: number;
+  items?: PurchaseOrderItem[];
+  receipts?: Pick<Receipt, 'receipt_id' | 'receipt_number' | 'purchase_date' | 'total_amount' | 'status'>[];
+  created_at: string;
+  sent_at?: string | null;
+  received_at?: string | null;
+  cancelled_at?: string | null;
+}
+
+export interface ReorderSuggestion {
+  part_id: number;
+  part_number: string;
+  part_name?: string;
+  unit_of_measure?: string;
+  unit_cost?: number | null;
+  stock_quantity: number;
+  minimum_stock_level: number;
+  supplier_id: number | null;
+  supplier_name: string | null;
+  lead_time_days: number | null;
+  minimum_order_quantity: number | null;
+  usage_6_months: number;
+  on_order: number;
+  daily_usage: number;
+  reorder_point: number;
+  economic_order_quantity: number;
+  suggested_quantity: number;
+}
+
 export interface Instruction {
   instruction_id: number;
   step_order: number;
@@ -369,6 +482,7 @@ export interface ToolCreationData {
   tool_type: string;
   condition_status?: string;
   location?: string;
+  location_id?: number | null;
   purchase_date?: string;
   last_maintenance_date?: string;
   next_maintenance_date?: string;
@@ -388,9 +502,15 @@ export interface PartCreationData {
   unit_of_measure: string;
   unit_cost?: number;
   supplier?: string;
+  supplier_id?: number | null;
   supplier_part_number?: string;
   stock_quantity: number;
   minimum_stock_level: number;
+  track_lots?: boolean;
+  weight_g?: number | null;
+  length_mm?: number | null;
+  width_mm?: number | null;
+  height_mm?: number | null;
   image_url?: string;
   instruction_pdf?: string;
   drawing_pdf?: string;
@@ -414,8 +534,8 @@ export const setsApi = {
   updateProviderVisibility: (provider_set_id: number, provider_visible: boolean) => api.put(`/provider-sets/${provider_set_id}/visibility`, { provider_visible }),
   updateTrustCertification: (id: number, tested_by_makerset: boolean) => api.put(`/sets/${id}/trust-certification`, { tested_by_makerset }),
   delete: (id: number) => api.delete(`/sets/${id}`),
-  validateStock: (items: Array<{ set_id: number; quantity: number }>) => 
-    api.post('/sets/validate-stock', { sets: items }),
+  validateStock: (items: Array<{ set_id: number; quantity: number }>, sessionId?: string) =>
+    api.post('/sets/validate-stock', { sets: items, session_id: sessionId }),
   confirmPayment: (orderId: number, paymentData: { payment_reference: string; payment_amount: number; payment_method?: string }) => 
     api.put(`/orders/${orderId}/confirm-payment`, paymentData)
 };
@@ -462,14 +582,121 @@ export const toolsApi = {
   getBySetId: (setId: number, language?: string) => api.get<Tool[]>(`/tools/set/${setId}`, { params: { language } }),
 };
 
+// Tool Maintenance API
+export type ToolAvailabilityStatus =
+  | 'available'
+  | 'checked_out_to_order'
+  | 'checked_out'
+  | 'maintenance_overdue'
+  | 'out_of_service';
+
+export interface ToolMaintenancePlan {
+  plan_id: number;
+  tool_id: number;
+  name: string;
+  interval_days: number | null;
+  interval_uses: number | null;
+  last_performed_at: string | null;
+  use_count_at_service: number;
+  is_active: number;
+  notes?: string | null;
+  due_date: string | null;
+  days_remaining: number | null;
+  uses_since_service: number;
+  uses_remaining: number | null;
+  is_overdue: boolean;
+  is_due_soon: boolean;
+}
+
+export interface ToolMaintenanceLogEntry {
+  log_id: number;
+  tool_id: number;
+  plan_id: number | null;
+  plan_name?: string | null;
+  performed_at: string;
+  performed_by_first_name?: string | null;
+  performed_by_last_name?: string | null;
+  condition_status?: string | null;
+  cost: number | null;
+  notes?: string | null;
+}
+
+export interface ToolCheckout {
+  checkout_id: number;
+  tool_id: number;
+  order_id: number | null;
+  order_number?: string | null;
+  workshop: string | null;
+  checked_out_at: string;
+  due_back_at: string | null;
+  checked_in_at: string | null;
+  condition_in?: string | null;
+  notes?: string | null;
+  checked_out_by_first_name?: string | null;
+  checked_out_by_last_name?: string | null;
+}
+
+export interface ToolAvailability {
+  status: ToolAvailabilityStatus;
+  available: boolean;
+  reason: string | null;
+  checkout: ToolCheckout | null;
+  maintenance_overdue: boolean;
+}
+
+export interface ToolMaintenanceOverview {
+  tool_id: number;
+  tool_number: string;
+  tool_name: string;
+  condition_status?: string;
+  use_count: number;
+  last_maintenance_date?: string | null;
+  next_maintenance_date?: string | null;
+  plans: ToolMaintenancePlan[];
+  maintenance_overdue: boolean;
+  maintenance_due_soon: boolean;
+  availability: ToolAvailability;
+}
+
+export interface ToolMaintenanceDetails {
+  tool: { tool_id: number; tool_number: string; tool_name: string; condition_status?: string; use_count: number };
+  plans: ToolMaintenancePlan[];
+  log: ToolMaintenanceLogEntry[];
+  checkouts: ToolCheckout[];
+  availability: ToolAvailability;
+}
+
+export const toolMaintenanceApi = {
+  getOverview: () => api.get<{ tools: ToolMaintenanceOverview[] }>('/tool-maintenance/overview'),
+  getTool: (toolId: number) => api.get<ToolMaintenanceDetails>(`/tool-maintenance/tools/${toolId}`),
+  createPlan: (toolId: number, data: { name: string; interval_days?: number | null; interval_uses?: number | null; notes?: string }) =>
+    api.post<{ plan: ToolMaintenancePlan }>(`/tool-maintenance/tools/${toolId}/plans`, data),
+  deactivatePlan: (planId: number) => api.delete(`/tool-maintenance/plans/${planId}`),
+  /** No plan_id = a full service covering every plan of the tool */
+  logMaintenance: (toolId: number, data: { plan_id?: number | null; performed_at?: string; condition_status?: string; cost?: number | null; notes?: string }) =>
+    api.post<{ entry: ToolMaintenanceLogEntry }>(`/tool-maintenance/tools/${toolId}/log`, data),
+  checkOut: (toolId: number, data: { order_id?: number; workshop?: string; due_back_at?: string; notes?: string }) =>
+    api.post<{ checkout: ToolCheckout }>(`/tool-maintenance/tools/${toolId}/check-out`, data),
+  checkIn: (toolId: number, data: { condition_status?: string; notes?: string }) =>
+    api.post<{ checkout: ToolCheckout }>(`/tool-maintenance/tools/${toolId}/check-in`, data),
+};
+
 // Receipts API
 export const receiptsApi = {
-  getAll: (page?: number, limit?: number, supplier?: string, startDate?: string, endDate?: string) =>
-    api.get<Receipt[]>('/receipts', { params: { page, limit, supplier, start_date: startDate, end_date: endDate } }),
+  getAll: (page?: number, limit?: number, supplier?: string, startDate?: string, endDate?: string, status?: ReceiptStatus) =>
+    api.get<{ receipts: Receipt[]; pagination: { page: number; limit: number; total: number; pages: number } }>('/receipts', {
+      params: { page, limit, supplier, start_date: startDate, end_date: endDate, status },
+    }),
   getById: (id: number, language?: string) => api.get<Receipt>(`/receipts/${id}`, { params: { language } }),
   getNextNumber: () => api.get<{next_number: string}>('/receipts/next-number'),
-  create: (data: Partial<Receipt>) => api.post('/receipts', data),
-  update: (id: number, data: Partial<Receipt>) => api.put(`/receipts/${id}`, data),
+  // status 'confirmed' posts the stock straight away; otherwise the receipt is saved as a draft
+  create: (data: Partial<Receipt>) => api.post<{ receipt_id: number; receipt: Receipt }>('/receipts', data),
+  // New items on a confirmed receipt reverse the old stock income and post the new lines
+  update: (id: number, data: Partial<Receipt>) => api.put<{ receipt: Receipt }>(`/receipts/${id}`, data),
+  // Post one stock income per line and update part unit costs (weighted average)
+  confirm: (id: number) => api.post<{ receipt: Receipt }>(`/receipts/${id}/confirm`),
+  // Reverses the stock income of a confirmed receipt
+  cancel: (id: number) => api.post<{ receipt: Receipt }>(`/receipts/${id}/cancel`),
   delete: (id: number) => api.delete(`/receipts/${id}`),
   uploadImage: (id: number, file: File) => {
     const formData = new FormData();
@@ -480,6 +707,200 @@ export const receiptsApi = {
   },
 };
 
+// Suppliers API
+export const suppliersApi = {
+  getAll: (search?: string, includeInactive?: boolean) =>
+    api.get<Supplier[]>('/suppliers', { params: { search, include_inactive: includeInactive } }),
+  getById: (id: number) => api.get<Supplier>(`/suppliers/${id}`),
+  create: (data: Partial<Supplier>) => api.post<{ supplier: Supplier }>('/suppliers', data),
+  // Renaming a supplier also renames it on its parts
+  update: (id: number, data: Partial<Supplier>) => api.put<{ supplier: Supplier }>(`/suppliers/${id}`, data),
+  assignParts: (id: number, partIds: number[]) => api.post<{ supplier: Supplier }>(`/suppliers/${id}/parts`, { part_ids: partIds }),
+  // Suppliers with purchase orders can only be deactivated
+  delete: (id: number) => api.delete(`/suppliers/${id}`),
+};
+
+// Purchase Orders API
+export const purchaseOrdersApi = {
+  getAll: (page?: number, limit?: number, status?: PurchaseOrderStatus, supplierId?: number) =>
+    api.get<{ purchase_orders: PurchaseOrder[]; pagination: { page: number; limit: number; total: number; pages: number } }>('/purchase-orders', {
+      params: { page, limit, status, supplier_id: supplierId },
+    }),
+  getById: (id: number) => api.get<PurchaseOrder>(`/purchase-orders/${id}`),
+  getNextNumber: () => api.get<{next_number: string}>('/purchase-orders/next-number'),
+  getReorderSuggestions: () => api.get<ReorderSuggestion[]>('/purchase-orders/reorder-suggestions'),
+  // One draft per supplier for the parts at or below their reorder point
+  generate: (supplierIds?: number[]) =>
+    api.post<{ purchase_orders: PurchaseOrder[]; unassigned: ReorderSuggestion[] }>('/purchase-orders/generate', { supplier_ids: supplierIds }),
+  create: (data: Partial<PurchaseOrder>) => api.post<{ purchase_order: PurchaseOrder }>('/purchase-orders', data),
+  update: (id: number, data: Partial<PurchaseOrder>) => api.put<{ purchase_order: PurchaseOrder }>(`/purchase-orders/${id}`, data),
+  send: (id: number) => api.post<{ purchase_order: PurchaseOrder }>(`/purchase-orders/${id}/send`),
+  // Creates a confirmed receipt (stock income); without items everything outstanding is received
+  receive: (id: number, data?: { items?: { po_item_id: number; quantity: number; unit_price?: number; lot_number?: string; expiry_date?: string }[]; purchase_date?: string; receipt_number?: string; notes?: string }) =>
+    api.post<{ purchase_order: PurchaseOrder; receipt: Receipt }>(`/purchase-orders/${id}/receive`, data || {}),
+  cancel: (id: number) => api.post<{ purchase_order: PurchaseOrder }>(`/purchase-orders/${id}/cancel`),
+  delete: (id: number) => api.delete(`/purchase-orders/${id}`),
+};
+
+export type StocktakeStatus = 'counting' | 'review' | 'posted' | 'cancelled';
+export type StocktakeScope = 'parts' | 'tools' | 'all';
+
+export interface StocktakeLine {
+  line_id: number;
+  stocktake_id: number;
+  item_type: 'part' | 'tool';
+  part_id?: number | null;
+  tool_id?: number | null;
+  part_number?: string | null;
+  part_name?: string | null;
+  unit_of_measure?: string | null;
+  tool_number?: string | null;
+  tool_name?: string | null;
+  /** Storage location the line counts; null = unassigned stock or a tool */
+  location_id?: number | null;
+  /** Location path of a part line, the tool's location of a tool line */
+  location?: string | null;
+  counted_location?: string | null;
+  expected_quantity: number;
+  unit_cost: number;
+  counted_quantity: number | null;
+  current_stock?: number | null;
+  status: 'pending' | 'counted' | 'approved' | 'rejected' | 'posted';
+  /** counted - expected; null while not counted */
+  variance: number | null;
+  value_impact: number | null;
+  notes?: string | null;
+  counted_at?: string | null;
+}
+
+export interface StocktakeSummary {
+  total_lines: number;
+  counted_lines: number;
+  uncounted_lines: number;
+  variance_lines: number;
+  approved_lines: number;
+  value_gain: number;
+  value_loss: number;
+  net_value_impact: number;
+}
+
+export interface Stocktake {
+  stocktake_id: number;
+  stocktake_number: string;
+  name?: string | null;
+  scope: StocktakeScope;
+  location?: string | null;
+  category?: string | null;
+  status: StocktakeStatus;
+  notes?: string | null;
+  created_at: string;
+  submitted_at?: string | null;
+  posted_at?: string | null;
+  line_count?: number;
+  counted_count?: number;
+  variance_count?: number;
+  summary?: StocktakeSummary;
+  lines?: StocktakeLine[];
+}
+
+export interface StocktakeCount {
+  line_id?: number;
+  part_id?: number;
+  tool_id?: number;
+  /** Part or tool number, e.g. from a scanner */
+  code?: string;
+  counted_quantity: number;
+  /** Picks the line of a part counted at several locations */
+  location_id?: number;
+  location?: string;
+  notes?: string;
+}
+
+// Stocktakes (cycle counts): counting -> review -> posted
+export const stocktakesApi = {
+  getAll: (page?: number, limit?: number, status?: StocktakeStatus) =>
+    api.get<{ stocktakes: Stocktake[]; pagination: { page: number; limit: number; total: number; pages: number } }>('/stocktakes', {
+      params: { page, limit, status },
+    }),
+  getById: (id: number, varianceOnly?: boolean) =>
+    api.get<Stocktake>(`/stocktakes/${id}`, { params: { variance_only: varianceOnly || undefined } }),
+  // Freezes the expected stock of everything in scope; a location covers its bins
+  create: (data: { scope: StocktakeScope; location_id?: number; category?: string; name?: string; notes?: string }) =>
+    api.post<{ stocktake: Stocktake }>('/stocktakes', data),
+  saveCounts: (id: number, counts: StocktakeCount[]) => api.put<{ stocktake: Stocktake }>(`/stocktakes/${id}/counts`, { counts }),
+  // Adds quantity (default 1) to the count of the scanned part or tool number
+  scan: (id: number, data: { code: string; quantity?: number; location?: string }) =>
+    api.post<{ line: StocktakeLine }>(`/stocktakes/${id}/scan`, data),
+  submit: (id: number) => api.post<{ stocktake: Stocktake }>(`/stocktakes/${id}/submit`),
+  reopen: (id: number) => api.post<{ stocktake: Stocktake }>(`/stocktakes/${id}/reopen`),
+  // Without lineIds every variance is approved or rejected
+  review: (id: number, approved: boolean, lineIds?: number[]) =>
+    api.post<{ stocktake: Stocktake }>(`/stocktakes/${id}/review`, { approved, line_ids: lineIds }),
+  post: (id: number) => api.post<{ stocktake: Stocktake }>(`/stocktakes/${id}/post`),
+  cancel: (id: number) => api.post<{ stocktake: Stocktake }>(`/stocktakes/${id}/cancel`),
+};
+
+// Storage Locations API
+export type StorageLocationType = 'room' | 'warehouse' | 'bin';
+
+export interface StorageLocation {
+  location_id: number;
+  code: string;
+  name: string;
+  location_type: StorageLocationType;
+  parent_id: number | null;
+  pick_sequence: number;
+  is_active: number;
+  notes?: string | null;
+  path: string;
+  parent_path?: string | null;
+  part_count?: number;
+  total_quantity?: number;
+}
+
+export interface StorageLocationData {
+  code: string;
+  name: string;
+  location_type: StorageLocationType;
+  parent_id?: number | null;
+  pick_sequence?: number;
+  notes?: string;
+}
+
+export interface LocationStock {
+  part_id: number;
+  part_number: string;
+  part_name: string;
+  unit_of_measure?: string;
+  quantity: number;
+}
+
+export const storageLocationsApi = {
+  getAll: (includeInactive?: boolean) =>
+    api.get<{ locations: StorageLocation[] }>('/storage-locations', { params: { include_inactive: includeInactive } }),
+  getStock: (id: number) => api.get<{ stock: LocationStock[] }>(`/storage-locations/${id}/stock`),
+  create: (data: StorageLocationData) => api.post<{ location: StorageLocation }>('/storage-locations', data),
+  update: (id: number, data: StorageLocationData) => api.put<{ location: StorageLocation }>(`/storage-locations/${id}`, data),
+  deactivate: (id: number) => api.delete<{ location: StorageLocation }>(`/storage-locations/${id}`),
+};
+
+// Labels API
+export type LabelSymbology = 'code128' | 'qr';
+
+export const labelsApi = {
+  /** A4 label sheet (PDF) for the given parts or tools; no ids = all */
+  getSheet: (type: 'parts' | 'tools', params: { ids?: number[]; symbology?: LabelSymbology; copies?: number; category?: string }) =>
+    api.get<Blob>(`/labels/${type}`, {
+      params: {
+        ids: params.ids && params.ids.length > 0 ? params.ids.join(',') : undefined,
+        symbology: params.symbology,
+        copies: params.copies,
+        category: params.category,
+      },
+      responseType: 'blob',
+    }),
+};
+
 // Instructions API
 export const instructionsApi = {
   getBySetId: (setId: number, language?: string, type?: string) =>
@@ -493,6 +914,9 @@ export const languagesApi = {
 
 // Media API
 // Order interfaces
+/** Order lifecycle: pending → confirmed → in_production → shipped → delivered, or cancelled / returned */
+export type OrderStatus = 'pending' | 'confirmed' | 'in_production' | 'shipped' | 'delivered' | 'cancelled' | 'returned';
+
 export interface Order {
   order_id: number;
   order_number: string;
@@ -507,6 +931,13 @@ export interface Order {
   billing_address?: string;
   notes?: string;
   company_name?: string;
+  /** Total of credit notes issued for the order (VAT incl.) */
+  refunded_amount?: number;
+  /** pending, partial (paid in part) or confirmed */
+  payment_status?: string;
+  /** Received so far (EUR) */
+  payment_amount?: number;
+  payment_reference?: string;
   created_at: string;
   updated_at: string;
   // Status-specific timestamps
@@ -515,6 +946,20 @@ export interface Order {
   shipped_at?: string;
   delivered_at?: string;
   cancelled_at?: string;
+  returned_at?: string;
+  tracking_number?: string;
+  // Shipping quoted at checkout; shipping_cost is part of total_amount
+  shipping_cost?: number;
+  shipping_option?: string;
+  /** economy | standard | express, flat (no zone covers the country) or pickup */
+  shipping_method?: string;
+  shipping_carrier?: string | null;
+  shipping_zone?: string | null;
+  shipping_country?: string;
+  shipping_weight_g?: number;
+  /** Parcel terminal delivery: the terminal chosen at checkout and its description */
+  shipping_terminal_id?: number | null;
+  shipping_terminal?: string | null;
   // Customer information
   customer_first_name?: string;
   customer_last_name?: string;
@@ -530,7 +975,33 @@ export interface Order {
   provider_first_name?: string;
   provider_last_name?: string;
   provider_email?: string;
-  // Order items
+  // Split orders: a mixed cart is one parent order the customer pays, with a sub-order per provider
+  /** 'mixed' on the parent of a split order */
+  set_type?: string;
+  parent_order_id?: number | null;
+  parent_order_number?: string | null;
+  /** Empty unless this is a split order's parent */
+  sub_orders?: SubOrder[];
+  // Order items (a split order's items are those of its sub-orders)
+  items?: OrderItem[];
+}
+
+/** A provider's part of a split order, packed, shipped and paid out on its own */
+export interface SubOrder {
+  order_id: number;
+  parent_order_id: number;
+  order_number: string;
+  provider_id: number | null;
+  /** admin for platform sets */
+  set_type: string;
+  provider_name: string;
+  status: string;
+  total_amount: number;
+  shipping_cost: number;
+  tracking_number?: string | null;
+  shipped_at?: string | null;
+  delivered_at?: string | null;
+  /** Only on the order returned by getById */
   items?: OrderItem[];
 }
 
@@ -552,6 +1023,9 @@ export interface OrderItem {
   student_manual_pdf?: string;
   production_manual_pdf?: string;
   drawing_pdf?: string;
+  /** On a split order: the sub-order the item is on and its provider */
+  sub_order_number?: string;
+  provider_name?: string;
 }
 
 export interface OrderStatusHistory {
@@ -567,6 +1041,22 @@ export interface OrderStatusHistory {
   email?: string;
 }
 
+/** Where to pick part of a packing line from; location_id null = unassigned stock */
+export interface PickLocation {
+  location_id: number | null;
+  code: string | null;
+  path: string;
+  quantity: number;
+}
+
+/** Units of an order taken from one lot */
+export interface OrderLotAllocation {
+  lot_id: number;
+  lot_number: string;
+  expiry_date: string | null;
+  quantity: number;
+}
+
 export interface PackingListPart {
   type: 'part';
   part_id: number;
@@ -585,8 +1075,15 @@ export interface PackingListPart {
   drawing_pdf?: string;
   assembly_notes?: string;
   safety_notes?: string;
+  location?: string | null;
   total_quantity_needed: number;
+  picked_quantity: number;
   is_optional: boolean;
+  pick_locations: PickLocation[];
+  short_quantity: number;
+  track_lots?: number;
+  /** Lots the order's units were taken from (FEFO), for recalls */
+  lots: OrderLotAllocation[];
   used_in_sets: Array<{
     set_id: number;
     set_name: string;
@@ -608,6 +1105,7 @@ export interface PackingListTool {
   tool_type?: string;
   condition_status?: string;
   location?: string;
+  location_id?: number | null;
   purchase_date?: string;
   last_maintenance_date?: string;
   next_maintenance_date?: string;
@@ -615,7 +1113,14 @@ export interface PackingListTool {
   image_url?: string;
   safety_instructions?: string;
   total_quantity_needed: number;
+  picked_quantity: number;
   is_required: boolean;
+  is_optional?: boolean;
+  /** Whether the tool can go out with this order (not checked out elsewhere, not overdue for maintenance) */
+  availability_status: ToolAvailabilityStatus;
+  is_available: boolean;
+  availability_reason?: string | null;
+  checkout?: ToolCheckout | null;
   used_in_sets: Array<{
     set_id: number;
     set_name: string;
@@ -629,13 +1134,45 @@ export interface PackingListTool {
 
 export type PackingListItem = PackingListPart | PackingListTool;
 
+/** Picking progress of a packing list; complete once every required line is fully picked */
+export interface PickingProgress {
+  total_lines: number;
+  completed_lines: number;
+  required_lines: number;
+  completed_required_lines: number;
+  needed_units: number;
+  picked_units: number;
+  missing: Array<{
+    type: 'part' | 'tool';
+    item_id: number;
+    code: string;
+    name: string;
+    needed_quantity: number;
+    picked_quantity: number;
+  }>;
+  complete: boolean;
+}
+
 export interface PackingListResponse {
-  order: Order;
+  order: Order & { packed_at?: string | null; packed_by?: number | null };
   items: OrderItem[];
   packingList: PackingListItem[];
+  picking: PickingProgress;
+}
+
+/** Wrong items, unknown codes and excess quantities come back with accepted: false and are not counted */
+export interface PackingScanResult {
+  status: 'picked' | 'line_complete' | 'excess' | 'wrong_item' | 'unknown_code';
+  accepted: boolean;
+  line: PackingListItem | null;
+  picked_quantity: number | null;
+  remaining_quantity: number | null;
+  message: string;
+  picking: PickingProgress;
 }
 
 export const ordersApi = {
+  /** params.level: customer (split orders as their parent) or fulfilment (as their sub-orders) */
   getAll: (params?: any) => api.get<OrdersResponse>('/orders', { params }),
   getById: (id: number, language?: string) => api.get<{ order: Order }>(`/orders/${id}`, { params: { language } }),
   getByProvider: (providerId: number, status?: string) => api.get<OrdersResponse>(`/orders/provider/${providerId}`, { params: { status } }),
@@ -644,14 +1181,29 @@ export const ordersApi = {
   delete: (id: number) => api.delete(`/orders/${id}`),
   permanentDelete: (id: number, putPartsBackToStock: boolean = true) => 
     api.delete(`/orders/${id}/permanent`, { data: { putPartsBackToStock } }),
-  updateStatus: (id: number, status: string, notes?: string, updatedBy?: number) => 
-    api.put(`/orders/${id}/status`, { status, notes, updated_by: updatedBy }),
-  updateProviderStatus: (id: number, status: string, notes?: string, trackingNumber?: string) => 
-    api.put(`/orders/${id}/provider-status`, { status, notes, tracking_number: trackingNumber }),
+  /** Rejected with 409 (and the allowed statuses) when the lifecycle does not allow the move */
+  updateStatus: (id: number, status: OrderStatus, notes?: string, trackingNumber?: string) => 
+    api.put<{ order: Order; from: OrderStatus; to: OrderStatus }>(`/orders/${id}/status`, { status, notes, tracking_number: trackingNumber }),
   getStatusHistory: (id: number) => 
-    api.get<{ statusHistory: OrderStatusHistory[] }>(`/orders/${id}/status-history`),
+    api.get<{ statusHistory: OrderStatusHistory[]; allowedTransitions: OrderStatus[] }>(`/orders/${id}/status-history`),
   getPackingList: (id: number, language?: string) => 
     api.get<PackingListResponse>(`/orders/${id}/packing-list`, { params: { language } }),
+  scanPacking: (id: number, code: string, quantity: number = 1) =>
+    api.post<PackingScanResult>(`/orders/${id}/packing/scan`, { code, quantity }),
+  setPicked: (id: number, type: 'part' | 'tool', itemId: number, pickedQuantity: number) =>
+    api.put<{ line: PackingListItem; picking: PickingProgress }>(`/orders/${id}/packing/picks`, {
+      type,
+      item_id: itemId,
+      picked_quantity: pickedQuantity,
+    }),
+  resetPicking: (id: number) => api.delete(`/orders/${id}/packing/picks`),
+  completePacking: (id: number, language?: string) =>
+    api.post<PackingListResponse & { message: string }>(`/orders/${id}/packing/complete`, {}, { params: { language } }),
+  /** Book the parcel with the carrier and mark the order shipped; 502 when the carrier rejects it */
+  ship: (id: number, notes?: string) =>
+    api.post<{ message: string; order: Order; shipment: Shipment | null; label_url: string | null }>(`/orders/${id}/ship`, { notes }),
+  /** Shipping label PDF of a shipped order */
+  getShippingLabel: (id: number) => api.get<Blob>(`/orders/${id}/shipment/label`, { responseType: 'blob' }),
   getStats: () => api.get('/orders/stats'),
   getProviderStats: (params?: { date_from?: string; date_to?: string }) => 
     api.get('/orders/stats/by-providers', { params }),
@@ -673,13 +1225,6 @@ export const ordersApi = {
     payment_date?: string;
     notes?: string;
   }) => api.put(`/orders/${id}/payment-status`, paymentData),
-  processBankImport: (bankTransactions: Array<{
-    amount: string;
-    date: string;
-    reference?: string;
-    description?: string;
-    payment_method?: string;
-  }>) => api.post('/orders/bank-import', { bankTransactions }),
   
   // Automated reporting methods
   getMonthlyReports: () => api.get('/monthly-reports'),
@@ -700,6 +1245,37 @@ export const ordersApi = {
   }) => api.post('/notifications', notification),
 };
 
+export interface PayoutBatchItem {
+  item_id: number;
+  batch_id: number;
+  provider_id: number;
+  provider_name: string;
+  amount: number;
+  /** Drafts show the IBAN currently on the provider's profile; approved batches the snapshot */
+  iban: string | null;
+  bic: string | null;
+  iban_valid: boolean;
+  end_to_end_id: string;
+  remittance_info: string;
+}
+
+/** Monthly SEPA payout batch: draft -> approved (pain.001 generated) -> paid */
+export interface PayoutBatch {
+  batch_id: number;
+  batch_reference: string;
+  period: string;
+  status: 'draft' | 'approved' | 'paid' | 'cancelled';
+  currency: string;
+  total_amount: number;
+  payment_count: number;
+  execution_date: string | null;
+  has_file: boolean;
+  created_at: string;
+  approved_at: string | null;
+  paid_at: string | null;
+  items: PayoutBatchItem[];
+}
+
 export const providerPaymentsApi = {
   getReports: (params?: any) => api.get('/provider-payments/reports', { params }),
   getPayments: (params?: any) => api.get('/provider-payments/payments', { params }),
@@ -712,6 +1288,219 @@ export const providerPaymentsApi = {
     payment_reference?: string;
     notes?: string;
   }) => api.post('/provider-payments/complete-payment', data),
+  getPayoutBatches: (params?: { year?: number; month?: number }) =>
+    api.get<{ batches: PayoutBatch[] }>('/provider-payments/payout-batches', { params }),
+  createPayoutBatch: (data: { year: number; month: number }) =>
+    api.post<{ batch: PayoutBatch; message: string }>('/provider-payments/payout-batches', data),
+  approvePayoutBatch: (batchId: number, executionDate?: string) =>
+    api.post<{ batch: PayoutBatch; message: string }>(`/provider-payments/payout-batches/${batchId}/approve`, { execution_date: executionDate }),
+  downloadPain001: (batchId: number) =>
+    api.get<Blob>(`/provider-payments/payout-batches/${batchId}/pain001`, { responseType: 'blob' }),
+  markPayoutBatchPaid: (batchId: number) =>
+    api.post<{ batch: PayoutBatch; message: string }>(`/provider-payments/payout-batches/${batchId}/mark-paid`),
+  cancelPayoutBatch: (batchId: number) =>
+    api.delete<{ batch: PayoutBatch; message: string }>(`/provider-payments/payout-batches/${batchId}`),
+};
+
+export interface InvoiceLine {
+  orderItemId?: number;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+  vatRate?: number;
+}
+
+export interface InvoiceVatRow {
+  rate: number;
+  net: number;
+  vat: number;
+  gross: number;
+}
+
+/** Issued invoice as stored on the server (immutable snapshot). */
+export interface Invoice {
+  invoiceId: number;
+  invoiceNumber: string;
+  invoiceType: 'order' | 'provider_payout' | 'credit_note';
+  language: string;
+  orderId?: number;
+  orderNumber?: string;
+  /** Credit notes: number of the invoice being credited */
+  creditedInvoiceNumber?: string;
+  period?: string;
+  issueDate: string;
+  dueDate: string;
+  currency: string;
+  template: string;
+  company: {
+    name: string;
+    address: string;
+    phone: string;
+    email: string;
+    website: string;
+    taxId: string;
+    /** Business registry code, used by e-invoice exports */
+    regNumber?: string;
+    country?: string;
+    bankAccount?: {
+      bankName: string;
+      accountNumber: string;
+      iban: string;
+      swift: string;
+    };
+  };
+  customer: {
+    name: string;
+    company?: string;
+    email?: string;
+    address?: string;
+    country?: string;
+    vatId?: string | null;
+  };
+  items: InvoiceLine[];
+  /** Net amount (excl. VAT) */
+  subtotal: number;
+  /** Single VAT rate, or null when the invoice mixes rates */
+  taxRate: number | null;
+  taxAmount: number;
+  total: number;
+  vat?: {
+    treatment: 'domestic' | 'distance_sale' | 'reverse_charge' | 'exempt' | 'export';
+    breakdown: InvoiceVatRow[];
+  };
+  notes?: string;
+  paymentTerms?: string;
+  paymentReference?: string;
+  contentHash: string;
+  createdAt: string;
+}
+
+/** An invoiced order line with what has been credited so far. */
+export interface CreditableItem {
+  orderItemId: number;
+  setId: number | null;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+  vatRate: number;
+  creditedQuantity: number;
+  creditedAmount: number;
+  remainingQuantity: number;
+  remainingAmount: number;
+}
+
+export interface CreditNoteRequest {
+  /** `amount` (VAT incl.) defaults to the invoiced price of `quantity` */
+  lines: Array<{ orderItemId: number; quantity: number; amount?: number }>;
+  reason?: string;
+  /** Return the sets' parts to stock */
+  restock?: boolean;
+  language?: string;
+}
+
+/** Estonian e-invoice 1.2 or Finvoice 3.0 */
+export type EInvoiceStandard = 'e-invoice' | 'finvoice';
+
+export const invoicesApi = {
+  /**
+   * Issue the invoice for an order; returns the existing one if already issued.
+   * `language` (et/en/ru/fi) only applies when the invoice is first issued.
+   */
+  generateForOrder: (orderId: number, language?: string) =>
+    api.post<{ success: boolean; invoiceNumber: string; contentHash: string; invoice: Invoice }>(`/invoices/generate/${orderId}`, { language }),
+  getForOrder: (orderId: number) => api.get<Invoice>(`/invoices/order/${orderId}`),
+  getByNumber: (invoiceNumber: string) => api.get<Invoice>(`/invoices/${encodeURIComponent(invoiceNumber)}`),
+  getHtml: (invoiceNumber: string) =>
+    api.get<string>(`/invoices/${encodeURIComponent(invoiceNumber)}/html`, { responseType: 'text' }),
+  getPdf: (invoiceNumber: string) =>
+    api.get<Blob>(`/invoices/${encodeURIComponent(invoiceNumber)}/pdf`, { responseType: 'blob' }),
+  /** Machine-readable invoice; 400 with `details` when the document fails the schema check */
+  getXml: (invoiceNumber: string, standard: EInvoiceStandard) =>
+    api.get<Blob>(`/invoices/${encodeURIComponent(invoiceNumber)}/xml/${standard}`, { responseType: 'blob' }),
+  verify: (invoiceNumber: string) =>
+    api.get<{ valid: boolean; contentHash: string; actualHash: string }>(`/invoices/${encodeURIComponent(invoiceNumber)}/verify`),
+  getCreditNotes: (orderId: number) =>
+    api.get<{ invoiceNumber: string; items: CreditableItem[]; creditNotes: Invoice[] }>(`/invoices/credit-notes/order/${orderId}`),
+  createCreditNote: (orderId: number, data: CreditNoteRequest) =>
+    api.post<{ success: boolean; invoiceNumber: string; creditNote: Invoice }>(`/invoices/credit-notes/order/${orderId}`, data),
+};
+
+export interface BankMatchSuggestion {
+  order_id: number;
+  order_number: string;
+  invoice_number: string | null;
+  customer_name: string;
+  order_total: number;
+  /** What is still unpaid on the order */
+  outstanding: number;
+  score: number;
+  confidence: 'high' | 'medium' | 'low';
+  /** order_number, invoice_number, exact_amount, close_amount, name */
+  reasons: string[];
+}
+
+export interface BankAllocation {
+  order_id: number;
+  order_number?: string;
+  amount: number;
+}
+
+export interface BankTransaction {
+  transaction_id: number;
+  import_id: number;
+  filename: string | null;
+  booking_date: string;
+  amount: number;
+  currency: string;
+  counterparty_name: string | null;
+  counterparty_account: string | null;
+  reference: string | null;
+  description: string | null;
+  bank_reference: string | null;
+  status: 'pending' | 'confirmed' | 'rejected';
+  reviewed_at: string | null;
+  review_note: string | null;
+  allocations: BankAllocation[];
+  suggestions: BankMatchSuggestion[];
+  /** Proposed when one transfer pays several orders */
+  split: BankAllocation[] | null;
+}
+
+export interface BankOpenOrder {
+  order_id: number;
+  order_number: string;
+  customer_name: string;
+  outstanding: number;
+}
+
+export interface BankImportSummary {
+  format: 'camt.053' | 'csv';
+  imported: number;
+  duplicates: number;
+  outgoing: number;
+  skipped: number;
+  matched: number;
+  unmatched: number;
+}
+
+export const bankImportApi = {
+  /** Upload a camt.053 XML or CSV statement; transactions stay pending until reviewed */
+  upload: (file: File) => {
+    const formData = new FormData();
+    formData.append('statement', file);
+    return api.post<{ success: boolean; message: string; summary: BankImportSummary }>('/bank-import/upload', formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+  },
+  getTransactions: (status?: BankTransaction['status']) =>
+    api.get<{ transactions: BankTransaction[]; openOrders: BankOpenOrder[] }>('/bank-import/transactions', { params: { status } }),
+  /** Several allocations split the payment across orders */
+  confirm: (transactionId: number, allocations: BankAllocation[]) =>
+    api.post<{ success: boolean; transaction: BankTransaction }>(`/bank-import/transactions/${transactionId}/confirm`, { allocations }),
+  reject: (transactionId: number, note?: string) =>
+    api.post<{ success: boolean; transaction: BankTransaction }>(`/bank-import/transactions/${transactionId}/reject`, { note }),
 };
 
 export const favoritesApi = {
@@ -768,6 +1557,77 @@ export const aiTranslationApi = {
   clearCache: () => api.delete('/ai/translate/cache')
 };
 
+// AI Inventory API
+export type SchoolPhase = 'term' | 'year_end' | 'summer_break' | 'back_to_school';
+
+export interface ForecastRange {
+  point: number;
+  lower: number;
+  upper: number;
+}
+
+export interface ForecastMonth extends ForecastRange {
+  month: string;
+  school_phase: SchoolPhase;
+}
+
+export interface ForecastBacktest {
+  months_tested: number;
+  mae: number;
+  mape: number | null;
+  bias: number;
+  interval_coverage: number;
+  naive_mae: number;
+  skill: number | null;
+}
+
+export interface PartDemandForecast {
+  part_id: number;
+  part_number: string;
+  part_name: string;
+  stock_quantity: number;
+  history_months: number;
+  fitted_from: string;
+  total_usage_12_months: number;
+  last_used_date: string;
+  daily_rate: number;
+  forecast_30: ForecastRange;
+  forecast_60: ForecastRange;
+  forecast_90: ForecastRange;
+  monthly: ForecastMonth[];
+  seasonal_indices: number[];
+  backtest: ForecastBacktest | null;
+  reorder: {
+    lead_time_days: number;
+    lead_time_demand: number | null;
+    safety_stock: number | null;
+    reorder_point: number;
+    needs_reorder: boolean;
+    suggested_quantity: number;
+    days_of_cover: number | null;
+  };
+}
+
+export interface DemandForecast {
+  generated_at: string;
+  school_year: string;
+  history_through: string;
+  confidence: number;
+  seasonal_profile: { month: number; index: number; school_phase: SchoolPhase }[];
+  backtest: {
+    parts_tested: number;
+    mape: number | null;
+    skill: number | null;
+    interval_coverage: number | null;
+  };
+  parts: PartDemandForecast[];
+}
+
+export const aiInventoryApi = {
+  getForecast: (refresh = false) =>
+    api.get<{ success: boolean; data: DemandForecast }>('/ai/inventory/forecast', { params: refresh ? { refresh: 'true' } : {} }),
+};
+
 export const setPartsApi = {
   getBySetId: (setId: number, language?: string) => 
     api.get(`/set-parts/set/${setId}`, { params: { language } }),
@@ -990,15 +1850,82 @@ export interface InventoryPart {
   supplier?: string;
   supplier_part_number?: string;
   image_url?: string;
+  locations: PartLocationStock[];
+  unassigned_quantity: number;
+  track_lots: number;
   inventory_value: number;
   is_low_stock: boolean;
   is_out_of_stock: boolean;
 }
 
+export interface PartLocationStock {
+  location_id: number;
+  code: string;
+  name: string;
+  path: string;
+  location_type: StorageLocationType;
+  pick_sequence: number;
+  quantity: number;
+}
+
+export interface PartLocationBreakdown {
+  locations: PartLocationStock[];
+  unassigned_quantity: number;
+  total: number;
+}
+
+export interface PartLot {
+  lot_id: number;
+  part_id: number;
+  lot_number: string;
+  expiry_date: string | null;
+  received_quantity: number;
+  /** What the lot still holds */
+  quantity: number;
+  received_at: string;
+  supplier?: string | null;
+  source_type?: 'income' | 'receipt_item' | null;
+  source_id?: number | null;
+  notes?: string | null;
+  part_number?: string;
+  part_name?: string;
+  is_expired: boolean;
+}
+
+export interface PartLotBreakdown {
+  part_id: number;
+  part_number: string;
+  track_lots: boolean;
+  /** First-expired-first-out order */
+  lots: PartLot[];
+  /** Stock not booked to any lot */
+  untracked_quantity: number;
+  total: number;
+}
+
+export interface LotTraceOrder {
+  order_id: number;
+  order_number: string;
+  status: string;
+  created_at: string;
+  packed_at?: string | null;
+  customer_email?: string | null;
+  customer_first_name?: string | null;
+  customer_last_name?: string | null;
+  customer_company_name?: string | null;
+  quantity: number;
+}
+
+export interface LotTrace {
+  lot: PartLot;
+  orders: LotTraceOrder[];
+  total_allocated: number;
+}
+
 export interface InventoryTransaction {
   transaction_id: number;
   part_id: number;
-  transaction_type: 'add' | 'remove' | 'set' | 'income';
+  transaction_type: 'add' | 'remove' | 'set' | 'income' | 'income_reversal' | 'stocktake' | 'transfer';
   quantity: number;
   previous_stock: number;
   new_stock: number;
@@ -1007,6 +1934,13 @@ export interface InventoryTransaction {
   supplier?: string;
   cost_per_unit?: number;
   purchase_date?: string;
+  from_location_id?: number | null;
+  to_location_id?: number | null;
+  from_location_code?: string | null;
+  to_location_code?: string | null;
+  lot_id?: number | null;
+  lot_number?: string | null;
+  expiry_date?: string | null;
   created_at: string;
   part_number: string;
   part_name: string;
@@ -1027,6 +1961,8 @@ export const inventoryApi = {
     quantity: number;
     reason?: string;
     notes?: string;
+    /** Where 'add' puts the stock / 'remove' takes it from */
+    location_id?: number | null;
   }) => api.post(`/inventory/parts/${partId}/adjust`, data),
   addIncome: (partId: number, data: {
     quantity: number;
@@ -1034,9 +1970,25 @@ export const inventoryApi = {
     cost_per_unit?: number;
     purchase_date?: string;
     notes?: string;
+    location_id?: number | null;
+    /** Required for lot-tracked parts */
+    lot_number?: string;
+    expiry_date?: string;
   }) => api.post(`/inventory/parts/${partId}/income`, data),
+  getLocations: (partId: number) => api.get<PartLocationBreakdown>(`/inventory/parts/${partId}/locations`),
+  /** null location = unassigned stock; the part's total does not change */
+  transfer: (partId: number, data: {
+    from_location_id: number | null;
+    to_location_id: number | null;
+    quantity: number;
+    notes?: string;
+  }) => api.post<PartLocationBreakdown>(`/inventory/parts/${partId}/transfer`, data),
+  getLots: (partId: number) => api.get<PartLotBreakdown>(`/inventory/parts/${partId}/lots`),
+  searchLots: (search: string) => api.get<{ lots: PartLot[] }>('/inventory/lots', { params: { search } }),
+  /** Orders and customers that received units of a lot, for recalls */
+  traceLot: (lotId: number) => api.get<LotTrace>(`/inventory/lots/${lotId}/trace`),
   getHistory: (partId: number, params?: { limit?: number; offset?: number }) => 
-    api.get<{ transactions: InventoryTransaction[] }>(`/inventory/parts/${partId}/transactions`, { params }),
+    api.get<{ transactions: InventoryTransaction[] }>(`/inventory/parts/${partId}/history`, { params }),
   getSummary: () => api.get<InventorySummary>('/inventory/summary'),
 };
 
@@ -1047,9 +1999,277 @@ export const creditsApi = {
   claimReward: () => api.post('/social-shares/claim-reward'),
 };
 
+export interface CartReservation {
+  reservation_id: number;
+  set_id: number;
+  set_name?: string;
+  provider_set_id?: number | null;
+  quantity: number;
+  expires_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Holds are kept per cart: the signed-in user plus the browser's cart session id
 export const cartReservationApi = {
-  reserve: (data: { set_id: number; quantity: number }) => api.post('/cart/reserve', data),
-  releaseAll: () => api.delete('/cart/reservations'),
+  list: (sessionId?: string) =>
+    api.get<{ reservations: CartReservation[]; ttl_minutes: number }>('/cart/reservations', { params: { session_id: sessionId } }),
+  reserve: (data: { set_id: number; quantity: number; provider_set_id?: number; session_id?: string }) =>
+    api.post<{ reserved: boolean; reservation: CartReservation; expires_at: string }>('/cart/reserve', data),
+  update: (setId: number, data: { quantity: number; provider_set_id?: number; session_id?: string }) =>
+    api.put<{ reserved: boolean; reservation: CartReservation | null; expires_at: string | null }>(`/cart/reservations/${setId}`, data),
+  release: (setId: number, sessionId?: string) =>
+    api.delete(`/cart/reservations/${setId}`, { params: { session_id: sessionId } }),
+  releaseAll: (sessionId?: string) => api.delete('/cart/reservations', { params: { session_id: sessionId } }),
+};
+
+export type ShippingServiceLevel = 'economy' | 'standard' | 'express';
+export type ShippingDeliveryType = 'courier' | 'terminal';
+
+export interface ShippingOption {
+  /** rate:<rate_id>, flat or pickup */
+  id: string;
+  rate_id: number | null;
+  method: ShippingServiceLevel | 'flat' | 'pickup';
+  service_level: ShippingServiceLevel | null;
+  carrier: string | null;
+  /** terminal: the customer picks one of the carrier's parcel terminals */
+  delivery_type: ShippingDeliveryType | 'pickup';
+  name: string;
+  cost: number;
+  /** Cost before a free-shipping threshold applied */
+  original_cost: number;
+  free: boolean;
+  free_over: number | null;
+  /** Goods still needed for free shipping */
+  amount_to_free: number | null;
+  delivery_days_min: number | null;
+  delivery_days_max: number | null;
+  /** Pickup only */
+  address?: string;
+}
+
+export interface ShippingParcel {
+  weight_g: number;
+  volume_cm3: number;
+  longest_mm: number;
+  volumetric_weight_g: number;
+  chargeable_weight_g: number;
+  /** Parts without a weight or size; the parcel may be heavier than quoted */
+  unknown_parts: number;
+}
+
+export interface ShippingQuote {
+  country: string;
+  zone: { zone_id: number; code: string; name: string } | null;
+  parcel: ShippingParcel;
+  /** Cheapest delivery first, pickup last */
+  options: ShippingOption[];
+  /** Countries a zone ships to; '*' when every country is covered */
+  countries: string[];
+}
+
+export interface ShippingRate {
+  rate_id: number;
+  zone_id: number;
+  carrier: string | null;
+  name: string;
+  service_level: ShippingServiceLevel;
+  delivery_type: ShippingDeliveryType;
+  max_weight_g: number | null;
+  max_length_mm: number | null;
+  base_price: number;
+  price_per_kg: number;
+  free_over: number | null;
+  delivery_days_min: number | null;
+  delivery_days_max: number | null;
+  is_active: number;
+}
+
+export interface ShippingZone {
+  zone_id: number;
+  code: string;
+  name: string;
+  /** Comma-separated country codes; * for the rest of the world */
+  countries: string;
+  is_active: number;
+  sort_order: number;
+  rates: ShippingRate[];
+}
+
+export interface ParcelTerminal {
+  terminal_id: number;
+  carrier: string;
+  code: string;
+  name: string;
+  address: string | null;
+  city: string | null;
+  postal_code: string | null;
+  country: string;
+  latitude: number | null;
+  longitude: number | null;
+  is_active: number;
+}
+
+export interface ParcelTerminalSummary {
+  carrier: string;
+  country: string;
+  active: number;
+  total: number;
+  updated_at: string;
+}
+
+/** A parcel booked with a carrier adapter when production shipped the order */
+export interface Shipment {
+  shipment_id: number;
+  order_id: number;
+  adapter: string;
+  carrier: string | null;
+  tracking_number: string;
+  terminal_id: number | null;
+  weight_g: number | null;
+  manifest_id: number | null;
+  manifest_number: string | null;
+  created_at: string;
+}
+
+export interface ShippingManifest {
+  manifest_id: number;
+  manifest_number: string;
+  adapter: string;
+  manifest_date: string;
+  shipment_count: number;
+  updated_at: string;
+}
+
+export type ShippingZoneData = Partial<Pick<ShippingZone, 'code' | 'name' | 'countries' | 'sort_order'>> & { is_active?: boolean | number };
+export type ShippingRateData = Partial<Omit<ShippingRate, 'rate_id' | 'is_active'>> & { is_active?: boolean | number };
+
+// Shipping quotes for the cart and the zones / rates they are priced from (admin)
+export const shippingApi = {
+  quote: (data: { items: Array<{ set_id: number; quantity: number }>; country?: string; subtotal?: number }) =>
+    api.post<ShippingQuote>('/shipping/quote', data),
+  getZones: () => api.get<{ zones: ShippingZone[] }>('/shipping/zones'),
+  createZone: (data: ShippingZoneData) => api.post<{ zone: ShippingZone }>('/shipping/zones', data),
+  updateZone: (id: number, data: ShippingZoneData) => api.put<{ zone: ShippingZone }>(`/shipping/zones/${id}`, data),
+  deleteZone: (id: number) => api.delete(`/shipping/zones/${id}`),
+  createRate: (data: ShippingRateData) => api.post<{ rate: ShippingRate }>('/shipping/rates', data),
+  updateRate: (id: number, data: ShippingRateData) => api.put<{ rate: ShippingRate }>(`/shipping/rates/${id}`, data),
+  deleteRate: (id: number) => api.delete(`/shipping/rates/${id}`),
+  getTerminals: (params: { carrier?: string; country?: string; search?: string }) =>
+    api.get<{ terminals: ParcelTerminal[] }>('/shipping/terminals', { params }),
+  getTerminalSummary: () => api.get<{ summary: ParcelTerminalSummary[] }>('/shipping/terminals/summary'),
+  /** content: the carrier's terminal list (Omniva JSON, or JSON / CSV with code, name, address, city, postal_code, country) */
+  importTerminals: (data: { carrier: string; content: string; country?: string; replace?: boolean }) =>
+    api.post<{ message: string; imported: number; deactivated: number; skipped: number }>('/shipping/terminals/import', data),
+  getManifests: () =>
+    api.get<{ manifests: ShippingManifest[]; carriers: Array<{ key: string; name: string }> }>('/shipping/manifests'),
+  getManifestPdf: (id: number) => api.get<Blob>(`/shipping/manifests/${id}/pdf`, { responseType: 'blob' }),
+};
+
+export type ReturnStatus = 'requested' | 'approved' | 'rejected' | 'completed' | 'cancelled';
+export type ReturnReason = 'missing_part' | 'damaged' | 'wrong_item' | 'not_needed' | 'other';
+export type ReturnResolution = 'replacement' | 'refund' | 'restock';
+
+/** An order item (id = order_item_id) or packing list part (id = part_id) that can be reported */
+export interface ReturnableLine {
+  type: 'item' | 'part';
+  id: number;
+  description: string;
+  quantity: number;
+  claimed_quantity: number;
+  returnable_quantity: number;
+  set_id?: number;
+  unit_price?: number;
+  order_number?: string;
+  part_number?: string;
+  image_url?: string | null;
+  used_in_sets?: string[];
+}
+
+export interface ReturnRequestLine {
+  line_id: number;
+  line_type: 'item' | 'part';
+  order_item_id: number | null;
+  part_id: number | null;
+  part_number: string | null;
+  set_id: number | null;
+  description: string;
+  quantity: number;
+  /** Refund amount production set for the line; the invoiced price when null */
+  amount: number | null;
+}
+
+export interface ReturnRequestHistoryEntry {
+  history_id: number;
+  old_status: ReturnStatus | null;
+  new_status: ReturnStatus;
+  changed_by: number | null;
+  notes: string | null;
+  changed_at: string;
+  first_name?: string | null;
+  last_name?: string | null;
+  role?: string | null;
+}
+
+/** A customer's report of missing parts or a return (RMA) and how production resolved it */
+export interface ReturnRequest {
+  return_id: number;
+  return_number: string;
+  order_id: number;
+  order_number: string;
+  customer_id: number;
+  customer_first_name?: string | null;
+  customer_last_name?: string | null;
+  customer_email?: string | null;
+  status: ReturnStatus;
+  reason: ReturnReason;
+  description: string | null;
+  resolution: ReturnResolution | null;
+  resolution_notes: string | null;
+  restock: number;
+  credit_note_number: string | null;
+  tracking_number: string | null;
+  has_label: boolean;
+  created_at: string;
+  approved_at: string | null;
+  rejected_at: string | null;
+  completed_at: string | null;
+  cancelled_at: string | null;
+  lines: ReturnRequestLine[];
+  photos: Array<{ media_id: number; file_name: string; mime_type: string; file_url: string }>;
+  history: ReturnRequestHistoryEntry[];
+  allowed_transitions: ReturnStatus[];
+  allowed_resolutions: ReturnResolution[];
+}
+
+export interface ReturnRequestData {
+  order_id: number;
+  reason: ReturnReason;
+  description?: string;
+  lines: Array<{ type: 'item' | 'part'; id: number; quantity: number }>;
+  /** media_id of photos uploaded with mediaApi.upload */
+  photo_ids?: number[];
+}
+
+// Return requests (RMA): customers report problems with shipped orders, production resolves them
+export const returnsApi = {
+  getAll: (params?: { status?: ReturnStatus; order_id?: number }) =>
+    api.get<{ requests: ReturnRequest[] }>('/returns', { params }),
+  getById: (id: number) => api.get<{ request: ReturnRequest }>(`/returns/${id}`),
+  getReturnable: (orderId: number, language?: string) =>
+    api.get<{ lines: ReturnableLine[]; reasons: ReturnReason[] }>(`/returns/order/${orderId}/returnable`, { params: { language } }),
+  create: (data: ReturnRequestData) =>
+    api.post<{ message: string; request: ReturnRequest }>('/returns', data),
+  /** Approving takes the resolution (and refund amounts per line); completing carries it out */
+  updateStatus: (id: number, data: {
+    status: ReturnStatus;
+    notes?: string;
+    resolution?: ReturnResolution;
+    restock?: boolean;
+    amounts?: Array<{ line_id: number; amount: number }>;
+  }) => api.put<{ message: string; request: ReturnRequest }>(`/returns/${id}/status`, data),
+  getLabel: (id: number) => api.get<Blob>(`/returns/${id}/label`, { responseType: 'blob' }),
 };
 
 // Request interceptor to add auth token
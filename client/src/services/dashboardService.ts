@@ -259,8 +259,8 @@ class DashboardService {
   private calculateOrdersMetrics(orders: any[]) {
     const total = orders.length;
     const pending = orders.filter(order => order.status === 'pending').length;
-    const processing = orders.filter(order => order.status === 'processing').length;
-    const completed = orders.filter(order => order.status === 'completed').length;
+    const processing = orders.filter(order => order.status === 'in_production').length;
+    const completed = orders.filter(order => order.status === 'delivered').length;
     const totalRevenue = orders.reduce((sum, order) => sum + (Number(order.total_amount) || 0), 0);
     
     const efficiency = total > 0 ? Math.round((completed / total) * 100) : 100;
@@ -345,8 +345,8 @@ class DashboardService {
         action: `Order ${order.status}`,
         item: `Order #${order.order_id}`,
         time: this.getTimeAgo(order.created_at),
-        status: order.status === 'completed' ? 'success' : 
-                order.status === 'processing' ? 'info' : 'warning'
+        status: order.status === 'delivered' ? 'success' : 
+                order.status === 'in_production' ? 'info' : 'warning'
       });
     });
 
@@ -7,6 +7,66 @@
 import axios from 'axios';
 import { getApiBaseUrl } from '../services/api';
 
+/** One audited change of a system setting; secret values come back masked */
+export interface SettingChange {
+  audit_id: number;
+  setting_key: string;
+  /** Per-key version this change created */
+  version: number;
+  old_value: string | null;
+  new_value: string | null;
+  /** Version that was restored, when the change was a rollback */
+  rollback_to: number | null;
+  changed_by: number | null;
+  changed_by_username: string | null;
+  changed_at: string;
+}
+
+/** Declared setting as described by GET /system/settings/schema */
+export interface SettingDefinition {
+  type: 'string' | 'number' | 'integer' | 'boolean' | 'json';
+  category: string;
+  default: string | number | boolean | null;
+  required: boolean;
+  min?: number;
+  max?: number;
+  maxLength?: number;
+  pattern?: string;
+  values?: string[];
+  secret: boolean;
+  roles: string[];
+}
+
+/** Backup archive (SQLite snapshot + uploads) as listed by GET /system/backup-history */
+export interface BackupRecord {
+  id: number;
+  backup_name: string;
+  /** manual, automated or pre_restore (taken automatically before a restore) */
+  backup_type: string;
+  status: 'pending' | 'completed' | 'failed';
+  file_path: string | null;
+  file_size: number | null;
+  /** sha256 of the .tar.gz archive */
+  checksum: string | null;
+  manifest: {
+    database: { path: string; size: number; sha256: string };
+    uploads: { files: number; size: number };
+  } | null;
+  error_message: string | null;
+  created_by_email: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+/** "error: detail; detail" for schema rejections, otherwise the server's error */
+export function settingsErrorMessage(error: any, fallback: string): string {
+  const data = error?.response?.data;
+  if (Array.isArray(data?.details) && data.details.length > 0) {
+    return `${data.error}: ${data.details.join('; ')}`;
+  }
+  return data?.error || fallback;
+}
+
 function getAuthHeaders(): Record<string, string> {
   const token = localStorage.getItem('authToken');
   const headers: Record<string, string> = { 'Content-Type': 'application/json' };
@@ -33,7 +93,7 @@ class SystemSettingsApiService {
   }
 
   /**
-   * Update system settings
+   * Update system settings; validation failures list each rejected setting
    */
   async updateSettings(settings: Record<string, any>) {
     try {
@@ -41,7 +101,48 @@ class SystemSettingsApiService {
       return response.data;
     } catch (error: any) {
       console.error('Error updating system settings:', error);
-      throw new Error(error.response?.data?.error || 'Failed to update system settings');
+      throw new Error(settingsErrorMessage(error, 'Failed to update system settings'));
+    }
+  }
+
+  /**
+   * Get who changed which setting, newest first
+   */
+  async getSettingsHistory(key?: string, limit: number = 50): Promise<{ success: boolean; data: SettingChange[] }> {
+    try {
+      const params = new URLSearchParams({ limit: String(limit) });
+      if (key) params.set('key', key);
+      const response = await axios.get(`${this.baseURL}/settings/history?${params}`, { headers: getAuthHeaders() });
+      return response.data;
+    } catch (error: any) {
+      console.error('Error fetching settings history:', error);
+      throw new Error(error.response?.data?.error || 'Failed to fetch settings history');
+    }
+  }
+
+  /**
+   * Get the declared settings schema
+   */
+  async getSettingsSchema(): Promise<{ success: boolean; data: Record<string, SettingDefinition> }> {
+    try {
+      const response = await axios.get(`${this.baseURL}/settings/schema`, { headers: getAuthHeaders() });
+      return response.data;
+    } catch (error: any) {
+      console.error('Error fetching settings schema:', error);
+      throw new Error(error.response?.data?.error || 'Failed to fetch settings schema');
+    }
+  }
+
+  /**
+   * Restore a setting to the value it had at `version` (0 = before its first change)
+   */
+  async rollbackSetting(key: string, version: number) {
+    try {
+      const response = await axios.post(`${this.baseURL}/settings/${encodeURIComponent(key)}/rollback`, { version }, { headers: getAuthHeaders() });
+      return response.data;
+    } catch (error: any) {
+      console.error('Error rolling back setting:', error);
+      throw new Error(settingsErrorMessage(error, 'Failed to roll back setting'));
     }
   }
 
@@ -67,14 +168,39 @@ class SystemSettingsApiService {
       return response.data;
     } catch (error: any) {
       console.error('Error restoring backup:', error);
-      throw new Error(error.response?.data?.error || 'Failed to restore backup');
+      throw new Error(settingsErrorMessage(error, 'Failed to restore backup'));
+    }
+  }
+
+  /**
+   * Download a backup archive (.tar.gz)
+   */
+  async downloadBackup(backupId: number): Promise<Blob> {
+    try {
+      const response = await axios.get(`${this.baseURL}/backups/${backupId}/download`, {
+        headers: getAuthHeaders(),
+        responseType: 'blob',
+      });
+      return response.data;
+    } catch (error: any) {
+      console.error('Error downloading backup:', error);
+      let message = 'Failed to download backup';
+      // Blob responses carry the JSON error body as a blob too
+      if (error.response?.data instanceof Blob) {
+        try {
+          message = JSON.parse(await error.response.data.text()).error || message;
+        } catch {
+          // not a JSON error body
+        }
+      }
+      throw new Error(message);
     }
   }
 
   /**
    * Get backup history
    */
-  async getBackupHistory(limit: number = 20) {
+  async getBackupHistory(limit: number = 20): Promise<{ success: boolean; data: BackupRecord[] }> {
     try {
       const response = await axios.get(`${this.baseURL}/backup-history?limit=${limit}`, { headers: getAuthHeaders() });
       return response.data;
@@ -1,3 +1,5 @@
+import { systemSettingsApi } from './systemSettingsApi';
+
 export interface SystemSettings {
   // Invoice Settings
   companyName: string;
@@ -6,23 +8,48 @@ export interface SystemSettings {
   companyEmail: string;
   companyWebsite: string;
   companyTaxId: string;
+  companyRegNumber: string;
   bankName: string;
   bankAccountNumber: string;
   bankIban: string;
   bankSwift: string;
   invoicePrefix: string;
-  defaultTaxRate: number;
   paymentTerms: string;
   defaultInvoiceTemplate: string;
-  
+
   // Cart Settings
   handlingFee: number;
   handlingFeeDescription: string;
 }
 
+/** Server setting key (system_settings.setting_key) for each field */
+const SETTING_KEYS: Record<keyof SystemSettings, string> = {
+  companyName: 'company_name',
+  companyAddress: 'company_address',
+  companyPhone: 'company_phone',
+  companyEmail: 'company_email',
+  companyWebsite: 'company_website',
+  companyTaxId: 'company_tax_id',
+  companyRegNumber: 'company_reg_number',
+  bankName: 'bank_name',
+  bankAccountNumber: 'bank_account_number',
+  bankIban: 'bank_iban',
+  bankSwift: 'bank_swift',
+  invoicePrefix: 'invoice_prefix',
+  paymentTerms: 'payment_terms',
+  defaultInvoiceTemplate: 'default_invoice_template',
+  handlingFee: 'shipping_handling_cost',
+  handlingFeeDescription: 'handling_fee_description',
+};
+
+/**
+ * Company, bank, tax and handling-fee settings. The server is the source of
+ * truth (validated and audited there); the last loaded copy is kept in
+ * localStorage so the values are still available offline.
+ */
 export class SystemSettingsService {
   private static readonly STORAGE_KEY = 'system_settings';
-  
+
   private static defaultSettings: SystemSettings = {
     companyName: 'MakerSet Solutions',
     companyAddress: '123 Innovation Street, Tech City, TC 12345, Estonia',
@@ -30,20 +57,50 @@ export class SystemSettingsService {
     companyEmail: 'info@makerset.com',
     companyWebsite: 'www.makerset.com',
     companyTaxId: 'EE123456789',
+    companyRegNumber: '',
     bankName: 'Estonian Bank',
     bankAccountNumber: '1234567890',
     bankIban: 'EE123456789012345678',
     bankSwift: 'ESTBEE2X',
     invoicePrefix: 'INV',
-    defaultTaxRate: 20, // 20%
     paymentTerms: 'prepayment',
     defaultInvoiceTemplate: 'modern',
-    
+
     // Cart Settings
     handlingFee: 15, // 15€ handling fee
     handlingFeeDescription: 'Handling, Packaging & Transport',
   };
 
+  private static fromServer(values: Record<string, any>): Partial<SystemSettings> {
+    const settings: Record<string, any> = {};
+    (Object.keys(SETTING_KEYS) as Array<keyof SystemSettings>).forEach((field) => {
+      const value = values[SETTING_KEYS[field]];
+      if (value !== undefined && value !== null) {
+        settings[field] = value;
+      }
+    });
+    return settings as Partial<SystemSettings>;
+  }
+
+  private static toServer(settings: Partial<SystemSettings>): Record<string, any> {
+    const values: Record<string, any> = {};
+    (Object.keys(settings) as Array<keyof SystemSettings>).forEach((field) => {
+      if (SETTING_KEYS[field]) {
+        values[SETTING_KEYS[field]] = settings[field];
+      }
+    });
+    return values;
+  }
+
+  private static cacheSettings(settings: SystemSettings): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+      console.error('Error caching system settings:', error);
+    }
+  }
+
+  /** Last settings loaded from the server (defaults if never loaded). */
   static getSettings(): SystemSettings {
     try {
       const stored = localStorage.getItem(this.STORAGE_KEY);
@@ -57,16 +114,32 @@ export class SystemSettingsService {
     return this.defaultSettings;
   }
 
-  static saveSettings(settings: Partial<SystemSettings>): void {
+  /** Fetch settings from the server and refresh the offline copy; falls back to the cache. */
+  static async loadSettings(): Promise<SystemSettings> {
     try {
-      const currentSettings = this.getSettings();
-      const updatedSettings = { ...currentSettings, ...settings };
-      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(updatedSettings));
+      const response = await systemSettingsApi.getSettings();
+      if (response.success && response.data) {
+        const settings = { ...this.defaultSettings, ...this.fromServer(response.data) };
+        this.cacheSettings(settings);
+        return settings;
+      }
     } catch (error) {
-      console.error('Error saving system settings:', error);
+      console.error('Error loading system settings from server:', error);
     }
+    return this.getSettings();
+  }
+
+  /** Save to the server; throws with the server's validation messages if rejected. */
+  static async saveSettings(settings: Partial<SystemSettings>): Promise<SystemSettings> {
+    const response = await systemSettingsApi.updateSettings(this.toServer(settings));
+    const saved = response.data?.settings
+      ? { ...this.defaultSettings, ...this.fromServer(response.data.settings) }
+      : { ...this.getSettings(), ...settings };
+    this.cacheSettings(saved);
+    return saved;
   }
 
+  /** Drop the offline copy; the next load fetches from the server again. */
   static resetSettings(): void {
     try {
       localStorage.removeItem(this.STORAGE_KEY);
@@ -84,6 +157,7 @@ export class SystemSettingsService {
       email: settings.companyEmail,
       website: settings.companyWebsite,
       taxId: settings.companyTaxId,
+      regNumber: settings.companyRegNumber,
       bankAccount: {
         bankName: settings.bankName,
         accountNumber: settings.bankAccountNumber,
@@ -97,7 +171,6 @@ export class SystemSettingsService {
     const settings = this.getSettings();
     return {
       prefix: settings.invoicePrefix,
-      taxRate: settings.defaultTaxRate / 100, // Convert percentage to decimal
       paymentTerms: settings.paymentTerms,
       template: settings.defaultInvoiceTemplate,
     };
@@ -2,14 +2,36 @@
  * AI-Powered Inventory Optimization Engine
  *
  * This module provides intelligent inventory management capabilities including:
- * - Demand forecasting based on historical data
- * - Optimal reorder point calculations
+ * - Demand forecasting based on order history, with a school-year seasonal
+ *   model, confidence intervals and back-testing (utils/demandForecast)
+ * - Optimal reorder point calculations from the forecast over the lead time
  * - Economic order quantity optimization
  * - Seasonal pattern analysis
  * - Risk assessment and recommendations
  */
 
 const pool = require('../models/database');
+const {
+  monthKey,
+  addMonths,
+  schoolYearOf,
+  schoolPhase,
+  monthlySeries,
+  seasonalIndices,
+  fitDemandModel,
+  forecastRange,
+  forecastMonths,
+  backtest
+} = require('../utils/demandForecast');
+const { DEFAULT_LEAD_TIME_DAYS } = require('../utils/purchasePlanning');
+
+// Orders that never turned into demand
+const NON_DEMAND_STATUSES = ['cancelled'];
+
+function round(value, places = 2) {
+  const factor = 10 ** places;
+  return Math.round((Number(value) || 0) * factor) / factor;
+}
 
 class InventoryOptimizationAI {
   constructor() {
@@ -46,219 +68,296 @@ class InventoryOptimizationAI {
   }
 
   /**
-   * Analyze demand patterns for parts based on historical usage
+   * Daily demand per part from order history: order_items exploded through
+   * set_parts (optional parts left out), cancelled orders excluded.
+   * Returns [{ part_id, day, quantity, order_count }].
+   */
+  async getDailyDemand() {
+    const result = await pool.query(`
+      SELECT
+        sp.part_id,
+        date(COALESCE(o.order_date, o.created_at)) as day,
+        SUM(sp.quantity * oi.quantity) as quantity,
+        COUNT(DISTINCT o.order_id) as order_count
+      FROM order_items oi
+      INNER JOIN orders o ON oi.order_id = o.order_id
+      INNER JOIN set_parts sp ON sp.set_id = oi.set_id AND COALESCE(sp.is_optional, 0) = 0
+      WHERE COALESCE(o.status, '') NOT IN (${NON_DEMAND_STATUSES.map(() => '?').join(', ')})
+        AND COALESCE(o.order_date, o.created_at) IS NOT NULL
+      GROUP BY sp.part_id, day
+      ORDER BY sp.part_id, day
+    `, NON_DEMAND_STATUSES);
+    return result.rows;
+  }
+
+  /**
+   * Demand model of every part with order history (utils/demandForecast),
+   * fitted on complete months up to the month before `today`. The seasonal
+   * prior is the profile of all parts pooled. Cached for cacheExpiry.
+   * Returns { history_through, prior, parts: Map<part_id, { series, model,
+   * daily }> }.
+   */
+  async getDemandModels(today = new Date()) {
+    const lastMonth = addMonths(monthKey(today), -1);
+    const cacheKey = `demand-models:${lastMonth}`;
+    const cached = this.analysisCache.get(cacheKey);
+    if (cached && Date.now() - cached.timestamp < this.cacheExpiry) {
+      return cached.data;
+    }
+
+    const daily = await this.getDailyDemand();
+    const byPart = new Map();
+    daily.forEach(row => {
+      const partId = Number(row.part_id);
+      if (!byPart.has(partId)) {
+        byPart.set(partId, []);
+      }
+      byPart.get(partId).push({ date: row.day, quantity: Number(row.quantity) || 0, order_count: Number(row.order_count) || 0 });
+    });
+
+    const pooled = monthlySeries(daily.map(row => ({ date: row.day, quantity: row.quantity })), lastMonth);
+    const prior = pooled.length > 0 ? seasonalIndices(pooled) : null;
+    const parts = new Map();
+    byPart.forEach((points, partId) => {
+      const series = monthlySeries(points, lastMonth);
+      parts.set(partId, { series, model: fitDemandModel(series, { prior }), daily: points });
+    });
+
+    const data = { history_through: lastMonth, prior, parts };
+    this.analysisCache.set(cacheKey, { timestamp: Date.now(), data });
+    return data;
+  }
+
+  /** Forecast demand of a part over its lead time from today ({ point, lower, upper }), or null without a model. */
+  leadTimeForecast(demand, partId, leadTimeDays, today = new Date()) {
+    const entry = demand && demand.parts.get(Number(partId));
+    if (!entry || !entry.model) {
+      return null;
+    }
+    return forecastRange(entry.model, today, leadTimeDays);
+  }
+
+  /**
+   * Demand forecast for the dashboard: per part the 30/60/90-day forecast
+   * with its 90% interval, the next six months, the seasonal indices, the
+   * back-test and the reorder plan the forecast leads to; overall the
+   * school-year seasonal profile and the back-test across parts.
+   */
+  async forecastDemand(today = new Date()) {
+    // Required here: purchaseOrderService requires this module
+    const purchaseOrderService = require('../services/purchaseOrderService');
+    const demand = await this.getDemandModels(today);
+    const plans = await purchaseOrderService.getReorderPlans();
+    const yearAgo = new Date(today.getTime() - 365 * 86400000).toISOString().slice(0, 10);
+    const currentMonth = monthKey(today);
+
+    const parts = plans
+      .filter(plan => demand.parts.has(Number(plan.part_id)) && demand.parts.get(Number(plan.part_id)).model)
+      .map(plan => {
+        const { series, model, daily } = demand.parts.get(Number(plan.part_id));
+        const forecast90 = forecastRange(model, today, 90);
+        const dailyForecast = forecast90.point / 90;
+        return {
+          part_id: plan.part_id,
+          part_number: plan.part_number,
+          part_name: plan.part_name || plan.part_number,
+          stock_quantity: Number(plan.stock_quantity) || 0,
+          history_months: model.months,
+          fitted_from: model.fitted_from,
+          total_usage_12_months: daily.filter(point => point.date >= yearAgo).reduce((sum, point) => sum + point.quantity, 0),
+          last_used_date: daily[daily.length - 1].date,
+          daily_rate: round(model.level, 3),
+          forecast_30: forecastRange(model, today, 30),
+          forecast_60: forecastRange(model, today, 60),
+          forecast_90: forecast90,
+          monthly: forecastMonths(model, currentMonth, 6),
+          seasonal_indices: model.indices.map(index => round(index)),
+          backtest: backtest(series),
+          reorder: {
+            lead_time_days: Number(plan.lead_time_days) > 0 ? Number(plan.lead_time_days) : DEFAULT_LEAD_TIME_DAYS,
+            lead_time_demand: plan.lead_time_demand,
+            safety_stock: plan.safety_stock,
+            reorder_point: plan.reorder_point,
+            needs_reorder: plan.needs_reorder,
+            suggested_quantity: plan.suggested_quantity,
+            days_of_cover: dailyForecast > 0 ? Math.floor((Number(plan.stock_quantity) || 0) / dailyForecast) : null
+          }
+        };
+      })
+      .sort((a, b) => b.forecast_30.point - a.forecast_30.point);
+
+    const tested = parts.filter(part => part.backtest);
+    const average = values => (values.length > 0 ? round(values.reduce((sum, value) => sum + value, 0) / values.length) : null);
+    return {
+      generated_at: new Date().toISOString(),
+      school_year: schoolYearOf(currentMonth),
+      history_through: demand.history_through,
+      confidence: 0.9,
+      seasonal_profile: (demand.prior || []).map((index, m) => ({
+        month: m + 1,
+        index: round(index),
+        school_phase: schoolPhase(m + 1)
+      })),
+      backtest: {
+        parts_tested: tested.length,
+        mape: average(tested.map(part => part.backtest.mape).filter(value => value !== null)),
+        skill: average(tested.map(part => part.backtest.skill).filter(value => value !== null)),
+        interval_coverage: average(tested.map(part => part.backtest.interval_coverage))
+      },
+      parts
+    };
+  }
+
+  /**
+   * Analyze demand patterns for parts based on the last 12 months of usage
+   * and their demand forecast
    */
   async analyzeDemandPatterns() {
-    const query = `
-      WITH part_usage AS (
-        SELECT 
-          sp.part_id,
-          pt.part_name,
-          SUM(sp.quantity * COALESCE(oi.quantity, 0)) as total_usage,
-          COUNT(DISTINCT oi.order_id) as order_count,
-          AVG(sp.quantity * COALESCE(oi.quantity, 0)) as avg_usage_per_order,
-          MAX(o.order_date) as last_used_date,
-          MIN(o.order_date) as first_used_date
-        FROM set_parts sp
-        LEFT JOIN order_items oi ON sp.set_id = oi.set_id
-        LEFT JOIN orders o ON oi.order_id = o.order_id
-        LEFT JOIN part_translations pt ON sp.part_id = pt.part_id
-        LEFT JOIN languages l ON pt.language_id = l.language_id AND l.language_code = 'en'
-        WHERE o.order_date >= CURRENT_DATE - INTERVAL '12 months'
-        GROUP BY sp.part_id, pt.part_name
-      ),
-      demand_trends AS (
-        SELECT 
-          part_id,
-          part_name,
-          total_usage,
-          order_count,
-          avg_usage_per_order,
-          CASE 
-            WHEN total_usage = 0 THEN 'No Usage'
-            WHEN total_usage < 10 THEN 'Low Usage'
-            WHEN total_usage < 50 THEN 'Medium Usage'
-            ELSE 'High Usage'
-          END as usage_category,
-          CASE 
-            WHEN last_used_date IS NULL THEN 'Never Used'
-            WHEN last_used_date < CURRENT_DATE - INTERVAL '3 months' THEN 'Stale'
-            WHEN last_used_date < CURRENT_DATE - INTERVAL '1 month' THEN 'Recent'
-            ELSE 'Active'
-          END as usage_status,
-          -- Calculate demand trend (simplified)
-          CASE 
-            WHEN order_count = 0 THEN 0
-            ELSE total_usage / GREATEST(EXTRACT(DAYS FROM (last_used_date - first_used_date)), 1)
-          END as daily_demand_rate
-        FROM part_usage
-      )
-      SELECT 
-        part_id,
-        part_name,
-        total_usage,
-        order_count,
-        avg_usage_per_order,
-        usage_category,
-        usage_status,
-        daily_demand_rate,
-        -- AI Prediction: Forecast next 30 days demand
-        CASE 
-          WHEN daily_demand_rate = 0 THEN 0
-          ELSE GREATEST(1, ROUND(daily_demand_rate * 30))
-        END as predicted_30_day_demand
-      FROM demand_trends
-      ORDER BY predicted_30_day_demand DESC, total_usage DESC;
-    `;
+    const demand = await this.getDemandModels();
+    const names = await this.getPartNames();
+    const today = new Date();
+    const yearAgo = new Date(today.getTime() - 365 * 86400000).toISOString().slice(0, 10);
+    const daysAgo = days => new Date(today.getTime() - days * 86400000).toISOString().slice(0, 10);
 
-    const result = await pool.query(query);
-    return result.rows;
+    const rows = [];
+    demand.parts.forEach(({ model, daily }, partId) => {
+      const recent = daily.filter(point => point.date >= yearAgo);
+      if (recent.length === 0) {
+        return;
+      }
+      const totalUsage = recent.reduce((sum, point) => sum + point.quantity, 0);
+      const orderCount = recent.reduce((sum, point) => sum + point.order_count, 0);
+      const lastUsed = recent[recent.length - 1].date;
+      const forecast = forecastRange(model, today, 30);
+
+      let usageCategory = 'High Usage';
+      if (totalUsage === 0) {
+        usageCategory = 'No Usage';
+      } else if (totalUsage < 10) {
+        usageCategory = 'Low Usage';
+      } else if (totalUsage < 50) {
+        usageCategory = 'Medium Usage';
+      }
+      let usageStatus = 'Active';
+      if (lastUsed < daysAgo(90)) {
+        usageStatus = 'Stale';
+      } else if (lastUsed < daysAgo(30)) {
+        usageStatus = 'Recent';
+      }
+
+      rows.push({
+        part_id: partId,
+        part_name: names.get(partId) || null,
+        total_usage: totalUsage,
+        order_count: orderCount,
+        avg_usage_per_order: orderCount > 0 ? round(totalUsage / orderCount) : 0,
+        usage_category: usageCategory,
+        usage_status: usageStatus,
+        daily_demand_rate: round(model.level, 3),
+        predicted_30_day_demand: forecast.point > 0 ? Math.max(1, Math.round(forecast.point)) : 0,
+        predicted_30_day_lower: forecast.lower,
+        predicted_30_day_upper: forecast.upper
+      });
+    });
+
+    return rows.sort((a, b) => b.predicted_30_day_demand - a.predicted_30_day_demand || b.total_usage - a.total_usage);
+  }
+
+  /** Part names by part id */
+  async getPartNames() {
+    const result = await pool.query('SELECT part_id, COALESCE(name, part_number) as part_name FROM parts');
+    return new Map(result.rows.map(row => [Number(row.part_id), row.part_name]));
   }
 
   /**
-   * Calculate optimal reorder points using AI algorithms
+   * Calculate optimal reorder points from the demand forecast over each
+   * supplier's lead time (see purchaseOrderService.getReorderPlans)
    */
   async calculateOptimalReorderPoints() {
-    const query = `
-      WITH part_analysis AS (
-        SELECT 
-          p.part_id,
-          pt.part_name,
-          p.stock_quantity,
-          p.minimum_stock_level,
-          p.unit_cost,
-          p.supplier,
-          -- Calculate historical usage rate
-          COALESCE(
-            (SELECT SUM(sp.quantity * COALESCE(oi.quantity, 0))
-             FROM set_parts sp
-             LEFT JOIN order_items oi ON sp.set_id = oi.set_id
-             LEFT JOIN orders o ON oi.order_id = o.order_id
-             WHERE sp.part_id = p.part_id 
-             AND o.order_date >= CURRENT_DATE - INTERVAL '6 months'
-            ), 0
-          ) as usage_6_months,
-          -- Calculate lead time (simplified - assume 7 days average)
-          7 as estimated_lead_time_days,
-          -- Calculate safety stock multiplier based on usage variability
-          CASE 
-            WHEN p.stock_quantity = 0 AND p.minimum_stock_level = 0 THEN 2.0
-            WHEN p.minimum_stock_level > 0 THEN 1.5
-            ELSE 1.0
-          END as safety_multiplier
-        FROM parts p
-        LEFT JOIN part_translations pt ON p.part_id = pt.part_id
-        LEFT JOIN languages l ON pt.language_id = l.language_id AND l.language_code = 'en'
-        WHERE p.stock_quantity IS NOT NULL
-      )
-      SELECT 
-        part_id,
-        part_name,
-        stock_quantity,
-        minimum_stock_level,
-        unit_cost,
-        supplier,
-        usage_6_months,
-        estimated_lead_time_days,
-        safety_multiplier,
-        -- AI Calculation: Daily usage rate
-        CASE 
-          WHEN usage_6_months = 0 THEN 0
-          ELSE GREATEST(0.1, usage_6_months / 180.0) -- 6 months = ~180 days
-        END as daily_usage_rate,
-        -- AI Calculation: Optimal reorder point
-        CASE 
-          WHEN usage_6_months = 0 THEN 
-            CASE 
-              WHEN minimum_stock_level > 0 THEN minimum_stock_level
-              ELSE 1
-            END
-          ELSE 
-            GREATEST(
-              minimum_stock_level,
-              CEILING(
-                (GREATEST(0.1, usage_6_months / 180.0) * estimated_lead_time_days * safety_multiplier)
-              )
-            )
-          END as ai_optimal_reorder_point,
-        -- AI Calculation: Economic Order Quantity (simplified)
-        CASE 
-          WHEN usage_6_months = 0 THEN 1
-          WHEN unit_cost = 0 THEN CEILING(GREATEST(0.1, usage_6_months / 180.0) * 30)
-          ELSE CEILING(SQRT((2 * GREATEST(0.1, usage_6_months / 180.0) * 30 * 10) / unit_cost))
-        END as ai_economic_order_quantity,
-        -- Risk Assessment
-        CASE 
-          WHEN stock_quantity = 0 THEN 'Critical'
-          WHEN stock_quantity <= minimum_stock_level THEN 'High Risk'
-          WHEN stock_quantity <= CEILING(GREATEST(0.1, usage_6_months / 180.0) * 14) THEN 'Medium Risk'
-          ELSE 'Low Risk'
-        END as risk_level
-      FROM part_analysis
-      ORDER BY risk_level DESC, ai_optimal_reorder_point DESC;
-    `;
+    // Required here: purchaseOrderService requires this module
+    const purchaseOrderService = require('../services/purchaseOrderService');
+    const plans = await purchaseOrderService.getReorderPlans();
+    const riskRank = { Critical: 0, 'High Risk': 1, 'Medium Risk': 2, 'Low Risk': 3 };
 
-    const result = await pool.query(query);
-    return result.rows;
+    return plans
+      .map(plan => {
+        const stock = Number(plan.stock_quantity) || 0;
+        const minimum = Number(plan.minimum_stock_level) || 0;
+        let riskLevel = 'Low Risk';
+        if (stock === 0) {
+          riskLevel = 'Critical';
+        } else if (stock <= minimum) {
+          riskLevel = 'High Risk';
+        } else if (stock <= plan.reorder_point) {
+          riskLevel = 'Medium Risk';
+        }
+        return {
+          part_id: plan.part_id,
+          part_name: plan.part_name || plan.part_number,
+          stock_quantity: stock,
+          minimum_stock_level: minimum,
+          unit_cost: plan.unit_cost,
+          supplier: plan.supplier_name,
+          usage_6_months: plan.usage_6_months,
+          estimated_lead_time_days: Number(plan.lead_time_days) > 0 ? Number(plan.lead_time_days) : DEFAULT_LEAD_TIME_DAYS,
+          daily_usage_rate: plan.daily_usage,
+          lead_time_demand: plan.lead_time_demand,
+          safety_stock: plan.safety_stock,
+          ai_optimal_reorder_point: plan.reorder_point,
+          ai_economic_order_quantity: plan.economic_order_quantity,
+          risk_level: riskLevel
+        };
+      })
+      .sort((a, b) => riskRank[a.risk_level] - riskRank[b.risk_level] || b.ai_optimal_reorder_point - a.ai_optimal_reorder_point);
   }
 
   /**
-   * Analyze seasonal patterns in part usage
+   * Analyze seasonal patterns in part usage: per part and calendar month
+   * with history, the school-year seasonal index and the forecast for that
+   * month's next occurrence
    */
   async analyzeSeasonalPatterns() {
-    const query = `
-      WITH monthly_usage AS (
-        SELECT 
-          sp.part_id,
-          pt.part_name,
-          EXTRACT(MONTH FROM o.order_date) as month,
-          EXTRACT(YEAR FROM o.order_date) as year,
-          SUM(sp.quantity * COALESCE(oi.quantity, 0)) as monthly_usage
-        FROM set_parts sp
-        LEFT JOIN order_items oi ON sp.set_id = oi.set_id
-        LEFT JOIN orders o ON oi.order_id = o.order_id
-        LEFT JOIN part_translations pt ON sp.part_id = pt.part_id
-        LEFT JOIN languages l ON pt.language_id = l.language_id AND l.language_code = 'en'
-        WHERE o.order_date >= CURRENT_DATE - INTERVAL '24 months'
-        GROUP BY sp.part_id, pt.part_name, EXTRACT(MONTH FROM o.order_date), EXTRACT(YEAR FROM o.order_date)
-      ),
-      seasonal_patterns AS (
-        SELECT 
-          part_id,
-          part_name,
-          month,
-          AVG(monthly_usage) as avg_monthly_usage,
-          STDDEV(monthly_usage) as usage_volatility,
-          COUNT(*) as data_points
-        FROM monthly_usage
-        GROUP BY part_id, part_name, month
-        HAVING COUNT(*) >= 1
-      )
-      SELECT 
-        part_id,
-        part_name,
-        month,
-        avg_monthly_usage,
-        usage_volatility,
-        data_points,
-        -- AI Analysis: Seasonal trend
-        CASE 
-          WHEN avg_monthly_usage = 0 THEN 'No Seasonal Pattern'
-          WHEN usage_volatility / NULLIF(avg_monthly_usage, 0) > 0.5 THEN 'High Variability'
-          WHEN usage_volatility / NULLIF(avg_monthly_usage, 0) > 0.2 THEN 'Medium Variability'
-          ELSE 'Low Variability'
-        END as seasonal_pattern,
-        -- AI Prediction: Next month forecast
-        CASE 
-          WHEN avg_monthly_usage = 0 THEN 0
-          ELSE GREATEST(0, ROUND(avg_monthly_usage + (usage_volatility * 0.5)))
-        END as predicted_next_month_usage
-      FROM seasonal_patterns
-      ORDER BY part_id, month;
-    `;
+    const demand = await this.getDemandModels();
+    const names = await this.getPartNames();
+    const currentMonth = monthKey(new Date());
 
-    const result = await pool.query(query);
-    return result.rows;
+    const rows = [];
+    demand.parts.forEach(({ series, model }, partId) => {
+      for (let m = 1; m <= 12; m++) {
+        const points = series.filter(point => Number(point.month.slice(5, 7)) === m);
+        if (points.length === 0) {
+          continue;
+        }
+        const avgMonthlyUsage = points.reduce((sum, point) => sum + point.quantity, 0) / points.length;
+        const index = model.indices[m - 1];
+        let seasonalPattern = 'Low Variability';
+        if (avgMonthlyUsage === 0) {
+          seasonalPattern = 'No Seasonal Pattern';
+        } else if (Math.abs(index - 1) > 0.5) {
+          seasonalPattern = 'High Variability';
+        } else if (Math.abs(index - 1) > 0.2) {
+          seasonalPattern = 'Medium Variability';
+        }
+        let next = currentMonth;
+        while (Number(next.slice(5, 7)) !== m) {
+          next = addMonths(next, 1);
+        }
+        const [forecast] = forecastMonths(model, next, 1);
+        rows.push({
+          part_id: partId,
+          part_name: names.get(partId) || null,
+          month: m,
+          school_phase: schoolPhase(m),
+          avg_monthly_usage: round(avgMonthlyUsage),
+          seasonal_index: round(index),
+          data_points: points.length,
+          seasonal_pattern: seasonalPattern,
+          predicted_next_month_usage: Math.round(forecast.point)
+        });
+      }
+    });
+
+    return rows.sort((a, b) => a.part_id - b.part_id || a.month - b.month);
   }
 
   /**
@@ -0,0 +1,54 @@
+/**
+ * Carrier adapters
+ *
+ * Shipments are booked through an adapter per carrier integration, chosen
+ * with the shipping_carrier_adapter setting. An adapter is an object with:
+ *
+ * - key: the setting value selecting it; name: shown to admins
+ * - createShipment({ order, parcel, sender, recipient, terminal, service }):
+ *   books one parcel and resolves with { trackingNumber, label } where label
+ *   is the printable label PDF (Buffer). `order` is the orders row, `parcel`
+ *   { weight_g }, sender and recipient { name, address, city, postal_code,
+ *   country, phone, email }, `terminal` the parcel_terminals row or null for
+ *   door delivery, `service` { carrier, name, service_level }.
+ * - createManifest({ manifestNumber, date, shipments, sender }): resolves
+ *   with { pdf } (Buffer), the hand-over list of the day's shipments
+ *   ({ tracking_number, order_number, recipient, terminal, weight_g }).
+ *
+ * Adapters throw an Error with a message the production user can act on
+ * when the carrier rejects a parcel.
+ */
+
+const mockCarrier = require('./mockCarrier');
+
+const adapters = new Map();
+
+/** Add (or replace) an adapter under its key. */
+function registerCarrier(adapter) {
+  if (!adapter || !adapter.key || typeof adapter.createShipment !== 'function' || typeof adapter.createManifest !== 'function') {
+    throw new Error('A carrier adapter needs a key, createShipment() and createManifest()');
+  }
+  adapters.set(adapter.key, adapter);
+  return adapter;
+}
+
+/** The adapter registered under `key`. */
+function getCarrier(key) {
+  const adapter = adapters.get(key);
+  if (!adapter) {
+    throw new Error(`No carrier adapter "${key}"; registered: ${[...adapters.keys()].join(', ')}`);
+  }
+  return adapter;
+}
+
+function listCarriers() {
+  return [...adapters.values()].map((adapter) => ({ key: adapter.key, name: adapter.name }));
+}
+
+registerCarrier(mockCarrier);
+
+module.exports = {
+  registerCarrier,
+  getCarrier,
+  listCarriers,
+};
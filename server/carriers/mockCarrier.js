@@ -0,0 +1,98 @@
+/**
+ * Mock carrier
+ *
+ * A carrier adapter that books nothing: each shipment and manifest request
+ * is written as JSON to MOCK_CARRIER_DIR (generated-shipping/mock-carrier by
+ * default) next to the PDF it returns, so tests and demos can check what a
+ * real carrier would have received. Tracking numbers follow the UPU S10
+ * layout (two letters, eight serial digits, a check digit, the sender's
+ * country), numbered from a counter file in the same directory.
+ */
+
+const fs = require('fs').promises;
+const path = require('path');
+const { renderShippingLabel, renderManifest } = require('../utils/shippingLabelRenderer');
+
+const S10_WEIGHTS = [8, 6, 4, 2, 3, 5, 9, 7];
+
+function outputDir() {
+  return process.env.MOCK_CARRIER_DIR
+    ? path.resolve(process.env.MOCK_CARRIER_DIR)
+    : path.join(__dirname, '..', 'generated-shipping', 'mock-carrier');
+}
+
+function s10CheckDigit(serial) {
+  const sum = String(serial).split('').reduce((total, digit, index) => total + Number(digit) * S10_WEIGHTS[index], 0);
+  const check = 11 - (sum % 11);
+  if (check === 10) {
+    return 0;
+  }
+  return check === 11 ? 5 : check;
+}
+
+async function nextSerial(dir) {
+  const counterPath = path.join(dir, 'counter');
+  let last = 0;
+  try {
+    last = Number(await fs.readFile(counterPath, 'utf8')) || 0;
+  } catch (error) {
+    if (error.code !== 'ENOENT') {
+      throw error;
+    }
+  }
+  const serial = (last + 1) % 100000000;
+  await fs.writeFile(counterPath, String(serial), 'utf8');
+  return String(serial).padStart(8, '0');
+}
+
+async function writeRequest(dir, name, request, pdf) {
+  await fs.writeFile(path.join(dir, `${name}.json`), `${JSON.stringify(request, null, 2)}\n`, 'utf8');
+  await fs.writeFile(path.join(dir, `${name}.pdf`), pdf);
+}
+
+module.exports = {
+  key: 'mock',
+  name: 'Mock carrier (files only)',
+
+  async createShipment({ order, parcel, sender, recipient, terminal = null, service = {} }) {
+    const dir = outputDir();
+    await fs.mkdir(dir, { recursive: true });
+    const serial = await nextSerial(dir);
+    const country = /^[A-Z]{2}$/.test(sender.country || '') ? sender.country : 'EE';
+    const trackingNumber = `MK${serial}${s10CheckDigit(serial)}${country}`;
+    const label = await renderShippingLabel({
+      trackingNumber,
+      orderNumber: order.order_number,
+      carrier: service.carrier || 'Mock carrier',
+      service: service.name || service.service_level || '',
+      weightG: parcel.weight_g,
+      sender,
+      recipient,
+      terminal,
+    });
+    await writeRequest(dir, `shipment-${trackingNumber}`, {
+      type: 'shipment',
+      tracking_number: trackingNumber,
+      order_number: order.order_number,
+      service,
+      parcel,
+      sender,
+      recipient,
+      terminal: terminal ? { code: terminal.code, name: terminal.name, carrier: terminal.carrier } : null,
+    }, label);
+    return { trackingNumber, label };
+  },
+
+  async createManifest({ manifestNumber, date, shipments, sender }) {
+    const dir = outputDir();
+    await fs.mkdir(dir, { recursive: true });
+    const pdf = await renderManifest({ manifestNumber, date, carrier: 'Mock carrier', sender, shipments });
+    await writeRequest(dir, `manifest-${manifestNumber}`, {
+      type: 'manifest',
+      manifest_number: manifestNumber,
+      date,
+      tracking_numbers: shipments.map((shipment) => shipment.tracking_number),
+    }, pdf);
+    return { pdf };
+  },
+};
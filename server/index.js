@@ -9,6 +9,9 @@ require('dotenv').config();
 const globalErrorHandler = require('./middleware/globalErrorHandler');
 const connectionManager = require('./utils/sqliteConnectionManager');
 const { startup } = require('./scripts/startup');
+const { authenticateToken } = require('./middleware/auth');
+const systemSettingsService = require('./services/systemSettingsService');
+const { SETTINGS_SCHEMA, settingType, settingDefaults, serializeSettingValue, maskSecrets } = require('./utils/settingsSchema');
 
 const app = express();
 const PORT = process.env.PORT || 5001;
@@ -111,22 +114,31 @@ app.use('/api/parts', require('./routes/parts-sqlite'));
 app.use('/api/set-parts', require('./routes/set-parts-sqlite'));
 app.use('/api/set-tools', require('./routes/set-tools-sqlite'));
 app.use('/api/receipts', require('./routes/receipts-sqlite'));
+app.use('/api/suppliers', require('./routes/suppliers-sqlite'));
+app.use('/api/purchase-orders', require('./routes/purchase-orders-sqlite'));
+app.use('/api/stocktakes', require('./routes/stocktakes-sqlite'));
+app.use('/api/storage-locations', require('./routes/storage-locations-sqlite'));
+app.use('/api/labels', require('./routes/labels-sqlite'));
 app.use('/api/languages', require('./routes/languages-sqlite'));
 app.use('/api/instructions', require('./routes/instructions-sqlite'));
 app.use('/api/media', require('./routes/media'));
 app.use('/api/tools', require('./routes/tools-sqlite'));
+app.use('/api/tool-maintenance', require('./routes/tool-maintenance-sqlite'));
 app.use('/api/ratings', require('./routes/ratings-sqlite'));
 app.use('/api/favorites', require('./routes/favorites-sqlite'));
 app.use('/api/cart', require('./routes/cart-sqlite'));
+app.use('/api/shipping', require('./routes/shipping-sqlite'));
 
 // Authentication and User Management Routes - All SQLite Compatible
 app.use('/api/users', require('./routes/users-sqlite'));
 app.use('/api/user-credits', require('./routes/user-credits-sqlite'));
 app.use('/api/social-shares', require('./routes/social-shares-sqlite'));
 app.use('/api/orders', require('./routes/orders-sqlite'));
+app.use('/api/bank-import', require('./routes/bank-import-sqlite'));
 app.use('/api/monthly-reports', require('./routes/monthly-reports-sqlite'));
 app.use('/api/notifications', require('./routes/notifications-sqlite'));
 app.use('/api/invoices', require('./routes/invoices-sqlite'));
+app.use('/api/returns', require('./routes/returns-sqlite'));
 app.use('/api/provider-sets', require('./routes/provider-sets-sqlite'));
 app.use('/api/provider-payments', require('./routes/provider-payments-sqlite'));
 app.use('/api/messages', require('./routes/messages-sqlite'));
@@ -144,53 +156,15 @@ app.use('/api/dashboard', require('./routes/dashboard-simple'));
 app.use('/api/system', require('./routes/system-settings'));
 
 // System settings bulk (SystemSettings page expects GET /api/system-settings -> { settings: {...} })
+const defaultPublicUrl = () => process.env.PUBLIC_URL || `http://localhost:${process.env.PORT || 5001}`;
+
 app.get('/api/system-settings', async (req, res) => {
   try {
-    const connectionManager = require('./utils/sqliteConnectionManager');
-    const { rows } = await connectionManager.query('SELECT setting_key, setting_value, setting_type FROM system_settings', []);
-    const port = process.env.PORT || 5001;
-    const defaults = {
-      shipping_handling_cost: 15,
-      minimum_order_amount: 0,
-      free_shipping_threshold: 0,
-      currency: 'EUR',
-      tax_rate: 0,
-      automatic_report_enabled: true,
-      social_share_required: 3,
-      social_share_reward_amount: 5,
-      social_share_message: '📱 Share 3 sets & get €5 off!',
-      credit_validity_days: 90,
-      default_provider_set_visible: true,
-      public_url: process.env.PUBLIC_URL || `http://localhost:${port}`,
-    };
-    const settings = { ...defaults };
-    (rows || []).forEach((row) => {
-      let value = row.setting_value;
-      const type = (row.setting_type || 'string').toLowerCase();
-      if (type === 'number') value = parseFloat(value) || 0;
-      else if (type === 'boolean') value = value === '1' || value === 'true' || value === true;
-      settings[row.setting_key] = value;
-    });
-    res.json({ settings });
+    const settings = maskSecrets(await systemSettingsService.getSettings(), { drop: true });
+    res.json({ settings: { ...settings, public_url: settings.public_url || defaultPublicUrl() } });
   } catch (error) {
     console.error('Error fetching system settings:', error);
-    const port = process.env.PORT || 5001;
-    res.status(500).json({
-      settings: {
-        shipping_handling_cost: 15,
-        minimum_order_amount: 0,
-        free_shipping_threshold: 0,
-        currency: 'EUR',
-        tax_rate: 0,
-        automatic_report_enabled: true,
-        social_share_required: 3,
-        social_share_reward_amount: 5,
-        social_share_message: '📱 Share 3 sets & get €5 off!',
-        credit_validity_days: 90,
-        default_provider_set_visible: true,
-        public_url: process.env.PUBLIC_URL || `http://localhost:${port}`,
-      },
-    });
+    res.status(500).json({ settings: { ...maskSecrets(settingDefaults(), { drop: true }), public_url: defaultPublicUrl() } });
   }
 });
 
@@ -203,12 +177,14 @@ app.get('/api/settings/:key', async (req, res) => {
     const query = 'SELECT * FROM system_settings WHERE setting_key = ?';
     const { rows } = await connectionManager.query(query, [key]);
     
-    if (!rows || rows.length === 0) {
+    const secret = Boolean(SETTINGS_SCHEMA[key] && SETTINGS_SCHEMA[key].secret);
+    if (!rows || rows.length === 0 || secret) {
+      const fallback = SETTINGS_SCHEMA[key] && !secret ? SETTINGS_SCHEMA[key].default : null;
       return res.status(200).json({
         success: true,
         setting: null,
-        value: null,
-        setting_value: null
+        value: fallback,
+        setting_value: fallback
       });
     }
 
@@ -230,27 +206,25 @@ app.get('/api/settings/:key', async (req, res) => {
 });
 
 // Update a single setting by key (for SystemSettingsDialog save)
-app.put('/api/settings/:key', async (req, res) => {
+app.put('/api/settings/:key', authenticateToken, async (req, res) => {
   try {
     const { key } = req.params;
-    const { value, type = 'string' } = req.body || {};
-    const connectionManager = require('./utils/sqliteConnectionManager');
-
-    const sql = `
-      INSERT INTO system_settings (setting_key, setting_value, setting_type, updated_at)
-      VALUES (?, ?, ?, datetime('now'))
-      ON CONFLICT(setting_key) DO UPDATE SET
-        setting_value = excluded.setting_value,
-        setting_type = excluded.setting_type,
-        updated_at = datetime('now')
-    `;
-    await connectionManager.run(sql, [key, value != null ? String(value) : '', type]);
-    if (key === 'public_url' && value) {
-      const url = String(value).trim().replace(/\/$/, '');
+    const { value } = req.body || {};
+    const { settings } = await systemSettingsService.updateSettings({ [key]: value }, req.user);
+    const stored = settings[key];
+    if (key === 'public_url' && stored) {
+      const url = String(stored).trim().replace(/\/$/, '');
       app.set('baseUrl', url);
     }
-    res.json({ success: true, key, value: value != null ? String(value) : '', type });
+    res.json({ success: true, key, value: serializeSettingValue(stored), type: settingType(key) });
   } catch (error) {
+    if (error.name === 'ValidationError' || error.name === 'ForbiddenError') {
+      return res.status(error.name === 'ValidationError' ? 400 : 403).json({
+        success: false,
+        error: error.message,
+        details: error.details || []
+      });
+    }
     console.error('Error updating setting:', error);
     res.status(500).json({
       success: false,
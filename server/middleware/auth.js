@@ -25,6 +25,28 @@ const authenticateToken = (req, res, next) => {
   });
 };
 
+// Middleware to read the JWT token when one is sent; anonymous requests continue without req.user
+const optionalAuth = (req, res, next) => {
+  const authHeader = req.headers['authorization'];
+  const token = authHeader && authHeader.split(' ')[1];
+
+  if (!token) {
+    return next();
+  }
+
+  jwt.verify(token, process.env.JWT_SECRET || 'your-super-secret-jwt-key-here', (err, user) => {
+    if (!err) {
+      const userId = user.userId ?? user.user_id ?? user.id;
+      req.user = {
+        ...user,
+        userId,
+        user_id: userId,
+      };
+    }
+    next();
+  });
+};
+
 // Middleware to check if user is admin
 const requireAdmin = (req, res, next) => {
   if (!req.user || req.user.role !== 'admin') {
@@ -63,6 +85,7 @@ const requireRole = (allowedRoles) => {
 
 module.exports = {
   authenticateToken,
+  optionalAuth,
   requireAdmin,
   requireAdminOrSelf,
   requireRole
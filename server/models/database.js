@@ -4,6 +4,10 @@ const connectionManager = require('../utils/sqliteConnectionManager');
 module.exports = {
   query: (text, params) => connectionManager.query(text, params),
   run: (text, params) => connectionManager.run(text, params),
+  transaction: (task) => connectionManager.transaction(task),
+  afterCommit: (callback) => connectionManager.afterCommit(callback),
+  snapshot: (targetPath) => connectionManager.snapshot(targetPath),
+  restoreFrom: (sourcePath) => connectionManager.restoreFrom(sourcePath),
   getConnection: () => connectionManager.getConnection(),
   getStatus: () => connectionManager.getStatus(),
   shutdown: () => connectionManager.shutdown(),
@@ -2,6 +2,7 @@ const express = require('express');
 const router = express.Router();
 const db = require('../utils/sqliteConnectionManager');
 const { authenticateToken, requireRole } = require('../middleware/auth');
+const setAvailabilityService = require('../services/setAvailabilityService');
 
 // Apply authentication and admin role requirement to all routes
 router.use(authenticateToken);
@@ -37,7 +38,6 @@ router.get('/', async (req, res) => {
         ps.provider_id,
         ps.set_id,
         ps.price,
-        ps.available_quantity,
         ps.is_active,
         ps.provider_visible,
         ps.admin_visible,
@@ -87,7 +87,8 @@ router.get('/', async (req, res) => {
     console.log(`✅ Found ${result.rows.length} provider sets (total: ${total})`);
     
     res.json({
-      provider_sets: result.rows,
+      // Buildable quantity from the bill of materials, not the stored figure
+      provider_sets: await setAvailabilityService.attachAvailability(result.rows),
       pagination: {
         page: parseInt(page),
         limit: parseInt(limit),
@@ -168,7 +169,8 @@ router.get('/:id', async (req, res) => {
       return res.status(404).json({ error: 'Provider set not found' });
     }
     
-    res.json({ provider_set: result.rows[0] });
+    const [providerSet] = await setAvailabilityService.attachAvailability(result.rows);
+    res.json({ provider_set: providerSet });
     
   } catch (error) {
     console.error('❌ Error fetching provider set:', error);
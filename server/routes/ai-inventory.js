@@ -83,6 +83,35 @@ router.get('/demand-forecast', async(req, res) => {
   }
 });
 
+/**
+ * GET /api/ai/inventory/forecast
+ * Get the per-part demand forecast from order history: seasonal model,
+ * confidence intervals, back-test and the reorder plan it leads to
+ * (?refresh=true refits the models)
+ */
+router.get('/forecast', async(req, res) => {
+  try {
+    console.log('📈 Fetching demand forecast...');
+    if (req.query.refresh === 'true') {
+      inventoryAI.analysisCache.clear();
+    }
+    const forecast = await inventoryAI.forecastDemand();
+
+    res.json({
+      success: true,
+      data: forecast,
+      message: 'Demand forecast retrieved successfully'
+    });
+  } catch (error) {
+    console.error('Error fetching demand forecast:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch demand forecast',
+      details: error.message
+    });
+  }
+});
+
 /**
  * GET /api/ai/inventory/reorder-optimization
  * Get AI reorder point optimization
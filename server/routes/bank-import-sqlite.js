@@ -0,0 +1,118 @@
+const express = require('express');
+const router = express.Router();
+const multer = require('multer');
+const path = require('path');
+const bankImportService = require('../services/bankImportService');
+const { authenticateToken, requireAdmin } = require('../middleware/auth');
+
+// Bank statements are parsed in memory and only the transactions are stored
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024 // 5MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    if (/\.(xml|csv|txt)$/.test(path.extname(file.originalname).toLowerCase())) {
+      return cb(null, true);
+    }
+    cb(new Error('Only camt.053 XML and CSV bank statements are allowed'));
+  }
+});
+
+router.use(authenticateToken, requireAdmin);
+
+// Upload a camt.053 XML or CSV statement (multipart field "statement")
+router.post('/upload', (req, res, next) => {
+  upload.single('statement')(req, res, (err) => {
+    if (err) {
+      return res.status(400).json({ error: err.message });
+    }
+    next();
+  });
+}, async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ error: 'No statement file uploaded' });
+    }
+
+    const result = await bankImportService.importStatement(req.file.buffer, {
+      filename: req.file.originalname,
+      importedBy: req.user.user_id ?? req.user.userId,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: `Imported ${result.summary.imported} incoming payments (${result.summary.duplicates} already imported)`,
+      ...result,
+    });
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error importing bank statement:', error);
+    res.status(500).json({ error: 'Failed to import bank statement' });
+  }
+});
+
+// Imported transactions with match suggestions, plus the open orders to allocate to.
+// Query: status (pending/confirmed/rejected), import_id
+router.get('/transactions', async (req, res) => {
+  try {
+    const transactions = await bankImportService.listTransactions({
+      status: req.query.status || null,
+      importId: req.query.import_id || null,
+    });
+    const openOrders = await bankImportService.getOpenOrderOptions();
+    res.json({ transactions, openOrders });
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error fetching bank transactions:', error);
+    res.status(500).json({ error: 'Failed to fetch bank transactions' });
+  }
+});
+
+// Confirm a transaction as payment: { allocations: [{ order_id, amount }] }; several allocations split it
+router.post('/transactions/:id/confirm', async (req, res) => {
+  try {
+    const transaction = await bankImportService.confirmTransaction(
+      req.params.id,
+      (req.body || {}).allocations,
+      req.user.user_id ?? req.user.userId
+    );
+    if (!transaction) {
+      return res.status(404).json({ error: 'Bank transaction not found' });
+    }
+    res.json({ success: true, message: 'Payment confirmed', transaction });
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error confirming bank transaction:', error);
+    res.status(500).json({ error: 'Failed to confirm bank transaction' });
+  }
+});
+
+// Reject a transaction that is not an order payment: { note? }
+router.post('/transactions/:id/reject', async (req, res) => {
+  try {
+    const { note } = req.body || {};
+    const transaction = await bankImportService.rejectTransaction(req.params.id, {
+      note: note ? String(note) : null,
+      reviewedBy: req.user.user_id ?? req.user.userId,
+    });
+    if (!transaction) {
+      return res.status(404).json({ error: 'Bank transaction not found' });
+    }
+    res.json({ success: true, message: 'Transaction rejected', transaction });
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error rejecting bank transaction:', error);
+    res.status(500).json({ error: 'Failed to reject bank transaction' });
+  }
+});
+
+module.exports = router;
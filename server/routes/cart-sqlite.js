@@ -1,26 +1,91 @@
 const express = require('express');
 const router = express.Router();
+const stockReservationService = require('../services/stockReservationService');
+const { authenticateToken } = require('../middleware/auth');
 
-// POST /api/cart/reserve - Reserve stock for a set (stub: always succeeds; real reservation at checkout)
-router.post('/reserve', async (req, res) => {
+// Reservations belong to a signed-in user's cart
+router.use(authenticateToken);
+
+// Map reservation errors to 400 / 409; returns false for unexpected errors
+function sendReservationError(res, error) {
+  if (error.name === 'ValidationError') {
+    res.status(400).json({ error: error.message });
+    return true;
+  }
+  if (error.name === 'ConflictError') {
+    res.status(409).json({ error: error.message, set_id: error.setId, available: error.available });
+    return true;
+  }
+  return false;
+}
+
+// The cart is the user plus the browser's cart session (body or query session_id)
+function ownerOf(req) {
+  return {
+    userId: req.user.user_id ?? req.user.userId,
+    sessionId: (req.body && req.body.session_id) || req.query.session_id,
+  };
+}
+
+// GET /api/cart/reservations - Active holds of the cart, with their expiry
+router.get('/reservations', async(req, res) => {
   try {
-    const { set_id, quantity } = req.body || {};
-    if (set_id == null || quantity == null) {
-      return res.status(400).json({ error: 'set_id and quantity are required' });
-    }
-    // Stub: no persistent reservation table yet; stock checked at checkout
-    res.status(200).json({ reserved: true, set_id: Number(set_id), quantity: Number(quantity) });
+    const reservations = await stockReservationService.listReservations(ownerOf(req));
+    res.json({ reservations, ttl_minutes: await stockReservationService.getTtlMinutes() });
   } catch (err) {
+    console.error('Cart reservations error:', err);
+    res.status(500).json({ error: 'Failed to fetch reservations' });
+  }
+});
+
+// POST /api/cart/reserve - Add to the cart's hold on a set. Body: { set_id, quantity, provider_set_id?, session_id? }
+router.post('/reserve', async(req, res) => {
+  try {
+    const reservation = await stockReservationService.reserve(ownerOf(req), req.body || {}, { mode: 'add' });
+    res.status(200).json({ reserved: true, reservation, expires_at: reservation.expires_at });
+  } catch (err) {
+    if (sendReservationError(res, err)) {
+      return;
+    }
     console.error('Cart reserve error:', err);
     res.status(500).json({ error: 'Failed to reserve' });
   }
 });
 
-// DELETE /api/cart/reservations - Release all reservations for current user/session (stub)
-router.delete('/reservations', async (req, res) => {
+// PUT /api/cart/reservations/:setId - Set the held quantity (0 releases). Body: { quantity, provider_set_id?, session_id? }
+router.put('/reservations/:setId', async(req, res) => {
+  try {
+    const reservation = await stockReservationService.reserve(
+      ownerOf(req),
+      { ...req.body, set_id: Number(req.params.setId) },
+      { mode: 'set' }
+    );
+    res.json({ reserved: Boolean(reservation), reservation, expires_at: reservation ? reservation.expires_at : null });
+  } catch (err) {
+    if (sendReservationError(res, err)) {
+      return;
+    }
+    console.error('Cart reservation update error:', err);
+    res.status(500).json({ error: 'Failed to update reservation' });
+  }
+});
+
+// DELETE /api/cart/reservations/:setId - Release the cart's hold on one set
+router.delete('/reservations/:setId', async(req, res) => {
+  try {
+    const released = await stockReservationService.release(ownerOf(req), Number(req.params.setId));
+    res.status(200).json({ released: true, count: released });
+  } catch (err) {
+    console.error('Cart release error:', err);
+    res.status(500).json({ error: 'Failed to release reservation' });
+  }
+});
+
+// DELETE /api/cart/reservations - Release all holds of the cart
+router.delete('/reservations', async(req, res) => {
   try {
-    // Stub: no persistent reservations; always success
-    res.status(200).json({ released: true });
+    const released = await stockReservationService.releaseAll(ownerOf(req));
+    res.status(200).json({ released: true, count: released });
   } catch (err) {
     console.error('Cart release error:', err);
     res.status(500).json({ error: 'Failed to release reservations' });
@@ -1,6 +1,22 @@
 const express = require('express');
 const router = express.Router();
 const db = require('../models/database');
+const { receiveAtAverageCost } = require('../utils/stockCosting');
+const stockLocationService = require('../services/stockLocationService');
+const partLotService = require('../services/partLotService');
+
+// Map stock location and lot errors to 400 / 404; returns false for unexpected errors
+function sendLocationError(res, error) {
+  if (error.name === 'ValidationError') {
+    res.status(400).json({ error: error.message });
+    return true;
+  }
+  if (error.name === 'NotFoundError') {
+    res.status(404).json({ error: error.message });
+    return true;
+  }
+  return false;
+}
 
 // GET /api/inventory/parts - Get all parts with inventory details
 router.get('/parts', async (req, res) => {
@@ -18,12 +34,14 @@ router.get('/parts', async (req, res) => {
         supplier,
         supplier_part_number,
         image_url,
-        translations
+        translations,
+        COALESCE(track_lots, 0) AS track_lots
       FROM parts 
       ORDER BY COALESCE(name, part_number, '')
     `;
     
     const result = await db.query(query);
+    const breakdowns = await stockLocationService.getBreakdowns(result.rows.map((part) => part.part_id));
     
     // Parse translations and extract English name
     const processedParts = result.rows.map(part => {
@@ -40,9 +58,12 @@ router.get('/parts', async (req, res) => {
         }
       }
       
+      const breakdown = breakdowns.get(Number(part.part_id)) || { locations: [], unassigned_quantity: part.stock_quantity };
       return {
         ...part,
         part_name,
+        locations: breakdown.locations,
+        unassigned_quantity: breakdown.unassigned_quantity,
         inventory_value: part.stock_quantity * part.unit_cost,
         is_low_stock: part.stock_quantity <= part.minimum_stock_level && part.minimum_stock_level > 0,
         is_out_of_stock: part.stock_quantity === 0
@@ -60,7 +81,7 @@ router.get('/parts', async (req, res) => {
 router.post('/parts/:id/adjust', async (req, res) => {
   try {
     const { id } = req.params;
-    const { adjustment_type, quantity, reason, notes } = req.body;
+    const { adjustment_type, quantity, reason, notes, location_id } = req.body;
     
     if (!adjustment_type || !quantity || quantity <= 0) {
       return res.status(400).json({ 
@@ -101,22 +122,37 @@ router.post('/parts/:id/adjust', async (req, res) => {
           error: 'Invalid adjustment_type. Use: add, remove, or set' 
         });
     }
+
+    // A removal naming its location comes out of that location, not the first in pick order
+    const locationId = location_id && adjustment_type !== 'set' ? location_id : null;
+    if (locationId && adjustment_type === 'remove') {
+      await stockLocationService.removeAt(id, locationId, quantity);
+    }
     
     // Update stock quantity
     const updateQuery = 'UPDATE parts SET stock_quantity = ? WHERE part_id = ?';
     await db.run(updateQuery, [newStock, id]);
+    if (newStock < currentStock) {
+      await partLotService.normalize(id);
+    }
+
+    if (locationId && adjustment_type === 'add') {
+      await stockLocationService.addAt(id, locationId, quantity);
+    }
     
     // Record inventory transaction
     const transactionQuery = `
       INSERT INTO inventory_transactions (
         part_id, transaction_type, quantity, previous_stock, new_stock, 
-        reason, notes, created_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+        reason, notes, from_location_id, to_location_id, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
     `;
     
     await db.run(transactionQuery, [
       id, adjustment_type, quantity, currentStock, newStock, 
-      reason || '', notes || ''
+      reason || '', notes || '',
+      adjustment_type === 'remove' ? locationId : null,
+      adjustment_type === 'add' ? locationId : null
     ]);
     
     res.json({
@@ -130,6 +166,9 @@ router.post('/parts/:id/adjust', async (req, res) => {
     });
     
   } catch (error) {
+    if (sendLocationError(res, error)) {
+      return;
+    }
     console.error('Error adjusting stock:', error);
     res.status(500).json({ error: 'Failed to adjust stock' });
   }
@@ -139,13 +178,16 @@ router.post('/parts/:id/adjust', async (req, res) => {
 router.post('/parts/:id/income', async (req, res) => {
   try {
     const { id } = req.params;
-    const { quantity, supplier, cost_per_unit, purchase_date, notes } = req.body;
+    const { quantity, supplier, cost_per_unit, purchase_date, notes, location_id, lot_number, expiry_date } = req.body;
     
     if (!quantity || quantity <= 0) {
       return res.status(400).json({ 
         error: 'Positive quantity is required' 
       });
     }
+    if (location_id) {
+      await stockLocationService.getActiveLocation(location_id);
+    }
     
     // Get current part details
     const partQuery = 'SELECT * FROM parts WHERE part_id = ?';
@@ -158,33 +200,48 @@ router.post('/parts/:id/income', async (req, res) => {
     const part = partResult.rows[0];
     const currentStock = part.stock_quantity;
     const newStock = currentStock + quantity;
+
+    // Lot-tracked parts need a lot number; the lot is booked before the total goes up
+    const lot = await partLotService.validateLot(id, { lot_number, expiry_date });
+    const lotRecord = lot
+      ? await partLotService.receive(id, lot, quantity, { supplier, sourceType: 'income', notes })
+      : null;
     
     // Update stock quantity
     const updateQuery = 'UPDATE parts SET stock_quantity = ? WHERE part_id = ?';
     await db.run(updateQuery, [newStock, id]);
+
+    // Received goods go to the named location; without one they stay unassigned
+    if (location_id) {
+      await stockLocationService.addAt(id, location_id, quantity);
+    }
     
-    // Update supplier and cost if provided
+    // Update supplier if provided; a purchase price is blended into the weighted-average unit cost
     if (supplier || cost_per_unit) {
+      const unitCost = cost_per_unit
+        ? receiveAtAverageCost({ stock: currentStock, unitCost: part.unit_cost, quantity: Number(quantity), unitPrice: Number(cost_per_unit) }).unitCost
+        : null;
       const updatePartQuery = `
         UPDATE parts 
         SET supplier = COALESCE(?, supplier), 
             unit_cost = COALESCE(?, unit_cost)
         WHERE part_id = ?
       `;
-      await db.run(updatePartQuery, [supplier, cost_per_unit, id]);
+      await db.run(updatePartQuery, [supplier || null, unitCost, id]);
     }
     
     // Record inventory transaction
     const transactionQuery = `
       INSERT INTO inventory_transactions (
         part_id, transaction_type, quantity, previous_stock, new_stock, 
-        reason, notes, supplier, cost_per_unit, purchase_date, created_at
-      ) VALUES (?, 'income', ?, ?, ?, 'New stock income', ?, ?, ?, ?, CURRENT_TIMESTAMP)
+        reason, notes, supplier, cost_per_unit, purchase_date, to_location_id, lot_id, created_at
+      ) VALUES (?, 'income', ?, ?, ?, 'New stock income', ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
     `;
     
     await db.run(transactionQuery, [
       id, quantity, currentStock, newStock, 
-      notes || '', supplier || '', cost_per_unit || null, purchase_date || null
+      notes || '', supplier || '', cost_per_unit || null, purchase_date || null, location_id || null,
+      lotRecord ? lotRecord.lot_id : null
     ]);
     
     res.json({
@@ -193,15 +250,83 @@ router.post('/parts/:id/income', async (req, res) => {
       previous_stock: currentStock,
       new_stock: newStock,
       added_quantity: quantity,
+      lot: lotRecord,
       total_cost: cost_per_unit ? quantity * cost_per_unit : null
     });
     
   } catch (error) {
+    if (sendLocationError(res, error)) {
+      return;
+    }
     console.error('Error recording stock income:', error);
     res.status(500).json({ error: 'Failed to record stock income' });
   }
 });
 
+// GET /api/inventory/parts/:id/locations - Stock of a part per storage location
+router.get('/parts/:id/locations', async(req, res) => {
+  try {
+    res.json(await stockLocationService.getBreakdown(req.params.id));
+  } catch (error) {
+    if (sendLocationError(res, error)) {
+      return;
+    }
+    console.error('Error fetching part locations:', error);
+    res.status(500).json({ error: 'Failed to fetch part locations' });
+  }
+});
+
+// POST /api/inventory/parts/:id/transfer - Move stock between locations (total stock unchanged)
+// Body: { from_location_id | null (unassigned), to_location_id | null (unassigned), quantity, notes? }
+router.post('/parts/:id/transfer', async(req, res) => {
+  try {
+    const breakdown = await stockLocationService.transfer(req.params.id, req.body || {});
+    res.json({ message: 'Stock transferred', ...breakdown });
+  } catch (error) {
+    if (sendLocationError(res, error)) {
+      return;
+    }
+    console.error('Error transferring stock:', error);
+    res.status(500).json({ error: 'Failed to transfer stock' });
+  }
+});
+
+// GET /api/inventory/parts/:id/lots - Lots of a part in FEFO order, plus stock not in any lot
+router.get('/parts/:id/lots', async(req, res) => {
+  try {
+    res.json(await partLotService.getPartLots(req.params.id));
+  } catch (error) {
+    if (sendLocationError(res, error)) {
+      return;
+    }
+    console.error('Error fetching part lots:', error);
+    res.status(500).json({ error: 'Failed to fetch part lots' });
+  }
+});
+
+// GET /api/inventory/lots?search= - Find lots by lot or part number
+router.get('/lots', async(req, res) => {
+  try {
+    res.json({ lots: await partLotService.searchLots(req.query.search || '') });
+  } catch (error) {
+    console.error('Error searching lots:', error);
+    res.status(500).json({ error: 'Failed to search lots' });
+  }
+});
+
+// GET /api/inventory/lots/:lotId/trace - Orders and customers that received units of a lot (recalls)
+router.get('/lots/:lotId/trace', async(req, res) => {
+  try {
+    res.json(await partLotService.traceLot(req.params.lotId));
+  } catch (error) {
+    if (sendLocationError(res, error)) {
+      return;
+    }
+    console.error('Error tracing lot:', error);
+    res.status(500).json({ error: 'Failed to trace lot' });
+  }
+});
+
 // GET /api/inventory/parts/:id/history - Get inventory transaction history
 router.get('/parts/:id/history', async (req, res) => {
   try {
@@ -212,9 +337,16 @@ router.get('/parts/:id/history', async (req, res) => {
       SELECT 
         it.*,
         p.part_number,
-        p.name as part_name
+        p.name as part_name,
+        fl.code as from_location_code,
+        tl.code as to_location_code,
+        pl.lot_number,
+        pl.expiry_date
       FROM inventory_transactions it
       JOIN parts p ON it.part_id = p.part_id
+      LEFT JOIN storage_locations fl ON it.from_location_id = fl.location_id
+      LEFT JOIN storage_locations tl ON it.to_location_id = tl.location_id
+      LEFT JOIN part_lots pl ON it.lot_id = pl.lot_id
       WHERE it.part_id = ?
       ORDER BY it.created_at DESC
       LIMIT ? OFFSET ?
@@ -0,0 +1,28 @@
+const express = require('express');
+const router = express.Router();
+const labelService = require('../services/labelService');
+const { authenticateToken, requireRole } = require('../middleware/auth');
+
+router.use(authenticateToken, requireRole(['admin', 'production']));
+
+// Printable A4 label sheet (PDF) for parts or tools
+// Query: ids (comma-separated, default all), category, symbology (code128|qr), copies, download=1
+router.get('/:type(parts|tools)', async(req, res) => {
+  try {
+    const { ids, category, symbology, copies } = req.query;
+    const labels = await labelService.renderLabels(req.params.type, { ids, category, symbology, copies });
+
+    res.set('Content-Type', 'application/pdf');
+    res.set('Access-Control-Expose-Headers', 'Content-Disposition');
+    res.set('Content-Disposition', `${req.query.download ? 'attachment' : 'inline'}; filename="${labels.filename}"`);
+    res.send(labels.pdf);
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error rendering labels:', error);
+    res.status(500).json({ error: 'Failed to render labels' });
+  }
+});
+
+module.exports = router;
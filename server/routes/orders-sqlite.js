@@ -1,11 +1,122 @@
 const express = require('express');
 const router = express.Router();
 const db = require('../utils/sqliteConnectionManager');
+const invoiceService = require('../services/invoiceService');
+const orderPaymentService = require('../services/orderPaymentService');
+const stockReservationService = require('../services/stockReservationService');
+const shippingService = require('../services/shippingService');
+const packingService = require('../services/packingService');
+const shipmentService = require('../services/shipmentService');
+const orderStatusService = require('../services/orderStatusService');
+const { INITIAL_STATUS } = require('../utils/orderLifecycle');
+const { groupByProvider, allocateAmount, subOrderNumber } = require('../utils/orderSplit');
+const { authenticateToken, requireAdmin, requireRole } = require('../middleware/auth');
+
+const requirePackingRole = [authenticateToken, requireRole(['admin', 'production'])];
+
+// Map packing service errors to 400 / 404 / 409; returns false for unexpected errors
+function sendPackingError(res, error) {
+  if (error.name === 'ValidationError') {
+    res.status(400).json({ error: error.message });
+    return true;
+  }
+  if (error.name === 'NotFoundError') {
+    res.status(404).json({ error: error.message });
+    return true;
+  }
+  if (error.name === 'ConflictError') {
+    res.status(409).json({ error: error.message, missing: error.details });
+    return true;
+  }
+  return false;
+}
+
+// Map order status errors to 400 / 403 / 404 / 409 (with the statuses allowed next); returns false for unexpected errors
+function sendStatusError(res, error) {
+  if (error.name === 'ForbiddenError') {
+    res.status(403).json({ error: error.message });
+    return true;
+  }
+  if (error.name === 'ConflictError') {
+    res.status(409).json({ error: error.message, allowed: error.details ? error.details.allowed : undefined });
+    return true;
+  }
+  return sendPackingError(res, error);
+}
+
+// Map shipment errors to 502 when the carrier rejects the parcel, otherwise like status errors
+function sendShipmentError(res, error) {
+  if (error.name === 'CarrierError') {
+    res.status(502).json({ error: error.message });
+    return true;
+  }
+  return sendStatusError(res, error);
+}
+
+// Insert an order row; every order starts the lifecycle as pending. `order.shipping` is the
+// option chosen at checkout with its zone, country and terminal.
+async function insertOrder(order) {
+  const { shipping } = order;
+  const result = await db.run(
+    `INSERT INTO orders (
+      order_number, parent_order_id, customer_id, provider_id, customer_email, customer_phone,
+      shipping_address, billing_address, total_amount, currency, status,
+      payment_method, payment_status, notes, invoice_required, set_type,
+      billing_country, customer_vat_id, customer_type,
+      shipping_cost, shipping_option, shipping_method, shipping_carrier,
+      shipping_zone, shipping_country, shipping_weight_g, shipping_terminal_id, shipping_terminal
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      order.order_number, order.parent_order_id || null, order.customer_id, order.provider_id, order.customer_email, order.customer_phone,
+      order.shipping_address, order.billing_address, order.total_amount, 'EUR', INITIAL_STATUS,
+      order.payment_method, order.payment_status, order.notes, order.invoice_required, order.set_type,
+      order.billing_country || null, order.customer_vat_id || null, order.customer_type || null,
+      order.shipping_cost, shipping.id, shipping.method, shipping.carrier,
+      shipping.zone ? shipping.zone.code : null, shipping.country, order.shipping_weight_g,
+      shipping.terminal ? shipping.terminal.terminal_id : null, shipping.terminal ? shipping.terminal.label : null,
+    ]
+  );
+  return result.lastID;
+}
+
+// Give each order its sub-orders (empty unless it is a split order's parent), with provider
+// names and, when `withItems`, their items
+async function attachSubOrders(orders, { withItems = false } = {}) {
+  if (orders.length === 0) {
+    return;
+  }
+  const { rows: subOrders } = await db.query(
+    `SELECT o.order_id, o.parent_order_id, o.order_number, o.provider_id, o.set_type, o.status, o.total_amount,
+      o.shipping_cost, o.tracking_number, o.shipped_at, o.delivered_at,
+      COALESCE(p.company_name, TRIM(COALESCE(p.first_name, '') || ' ' || COALESCE(p.last_name, ''))) AS provider_name
+    FROM orders o
+    LEFT JOIN users p ON o.provider_id = p.user_id
+    WHERE o.parent_order_id IN (${orders.map(() => '?').join(', ')})
+    ORDER BY o.order_id`,
+    orders.map((order) => order.order_id)
+  );
+  if (withItems && subOrders.length > 0) {
+    const { rows: items } = await db.query(
+      `SELECT oi.*, s.name as set_name
+      FROM order_items oi
+      LEFT JOIN sets s ON oi.set_id = s.set_id
+      WHERE oi.order_id IN (${subOrders.map(() => '?').join(', ')})
+      ORDER BY oi.order_item_id`,
+      subOrders.map((subOrder) => subOrder.order_id)
+    );
+    subOrders.forEach((subOrder) => {
+      subOrder.items = items.filter((item) => item.order_id === subOrder.order_id);
+    });
+  }
+  orders.forEach((order) => {
+    order.sub_orders = subOrders.filter((subOrder) => subOrder.parent_order_id === order.order_id);
+  });
+}
 
 // Get all orders (simplified for SQLite)
 router.get('/', async (req, res) => {
   try {
-    const { page = 1, limit = 20, status, customer_id, provider_id } = req.query;
+    const { page = 1, limit = 20, status, customer_id, provider_id, level } = req.query;
     const offset = (page - 1) * limit;
 
     // Build WHERE clause
@@ -24,6 +135,13 @@ router.get('/', async (req, res) => {
       whereConditions.push('o.provider_id = ?');
       queryParams.push(provider_id);
     }
+    // customer: orders as placed (split orders as their parent); fulfilment: orders as packed and shipped
+    // (split orders as their sub-orders). Without a level both parents and sub-orders are listed.
+    if (level === 'customer') {
+      whereConditions.push('o.parent_order_id IS NULL');
+    } else if (level === 'fulfilment') {
+      whereConditions.push('NOT EXISTS (SELECT 1 FROM orders so WHERE so.parent_order_id = o.order_id)');
+    }
 
     const whereClause = whereConditions.length > 0 ? 'WHERE ' + whereConditions.join(' AND ') : '';
 
@@ -39,10 +157,12 @@ router.get('/', async (req, res) => {
         p.first_name as provider_first_name,
         p.last_name as provider_last_name,
         p.email as provider_email,
-        p.company_name as provider_company_name
+        p.company_name as provider_company_name,
+        po.order_number as parent_order_number
       FROM orders o
       LEFT JOIN users c ON o.customer_id = c.user_id
       LEFT JOIN users p ON o.provider_id = p.user_id
+      LEFT JOIN orders po ON o.parent_order_id = po.order_id
       ${whereClause}
       ORDER BY o.created_at DESC
       LIMIT ? OFFSET ?
@@ -50,6 +170,7 @@ router.get('/', async (req, res) => {
 
     queryParams.push(parseInt(limit), offset);
     const result = await db.query(query, queryParams);
+    await attachSubOrders(result.rows);
 
     // Get total count for pagination
     const countQuery = `
@@ -105,9 +226,9 @@ router.get('/stats/by-providers', async (req, res) => {
         u.company_name AS provider_company,
         COALESCE(u.company_name, (u.first_name || ' ' || u.last_name), u.username) AS provider_name,
         COUNT(o.order_id) AS total_orders,
-        SUM(CASE WHEN o.status = 'pending' OR o.status = 'pending_payment' THEN 1 ELSE 0 END) AS pending_orders,
-        SUM(CASE WHEN o.status = 'payment_received' OR o.status = 'confirmed' THEN 1 ELSE 0 END) AS confirmed_orders,
-        SUM(CASE WHEN o.status = 'processing' THEN 1 ELSE 0 END) AS processing_orders,
+        SUM(CASE WHEN o.status = 'pending' THEN 1 ELSE 0 END) AS pending_orders,
+        SUM(CASE WHEN o.status = 'confirmed' THEN 1 ELSE 0 END) AS confirmed_orders,
+        SUM(CASE WHEN o.status = 'in_production' THEN 1 ELSE 0 END) AS processing_orders,
         SUM(CASE WHEN o.status = 'shipped' THEN 1 ELSE 0 END) AS shipped_orders,
         SUM(CASE WHEN o.status = 'delivered' THEN 1 ELSE 0 END) AS delivered_orders,
         SUM(CASE WHEN o.status = 'cancelled' THEN 1 ELSE 0 END) AS cancelled_orders,
@@ -193,6 +314,8 @@ router.get('/sales-management', async (req, res) => {
     const { provider_id, payment_status, date_from, date_to } = req.query;
     const whereConditions = [];
     const queryParams = [];
+    // A split order's sales are its sub-orders
+    whereConditions.push('NOT EXISTS (SELECT 1 FROM orders so WHERE so.parent_order_id = o.order_id)');
     if (provider_id) {
       whereConditions.push('o.provider_id = ?');
       queryParams.push(provider_id);
@@ -246,7 +369,7 @@ router.get('/sales-management', async (req, res) => {
       }));
       const amt = Number(o.total_amount) || 0;
       total_amount += amt;
-      const paid = ['delivered', 'shipped', 'payment_received'].includes(o.order_status) ? amt : 0;
+      const paid = ['confirmed', 'in_production', 'shipped', 'delivered'].includes(o.order_status) ? amt : 0;
       paid_amount += paid;
       pending_amount += amt - paid;
 
@@ -391,10 +514,12 @@ router.get('/:id', async (req, res) => {
         p.first_name as provider_first_name,
         p.last_name as provider_last_name,
         p.email as provider_email,
-        p.company_name as provider_company_name
+        p.company_name as provider_company_name,
+        po.order_number as parent_order_number
       FROM orders o
       LEFT JOIN users c ON o.customer_id = c.user_id
       LEFT JOIN users p ON o.provider_id = p.user_id
+      LEFT JOIN orders po ON o.parent_order_id = po.order_id
       WHERE o.order_id = ?
     `;
 
@@ -419,6 +544,16 @@ router.get('/:id', async (req, res) => {
     const itemsResult = await db.query(itemsQuery, [id]);
     order.items = itemsResult.rows;
 
+    // A split order's items are on its sub-orders
+    await attachSubOrders([order], { withItems: true });
+    if (order.sub_orders.length > 0) {
+      order.items = order.sub_orders.flatMap((subOrder) => subOrder.items.map((item) => ({
+        ...item,
+        sub_order_number: subOrder.order_number,
+        provider_name: subOrder.provider_name,
+      })));
+    }
+
     res.json({ order });
 
   } catch (error) {
@@ -438,137 +573,150 @@ router.post('/', async (req, res) => {
       shipping_address,
       billing_address,
       items,
-      total_amount,
-      status = 'pending',
       payment_method,
       payment_status,
       notes,
       invoice_required,
-      set_type
+      set_type,
+      language,
+      billing_country,
+      customer_vat_id,
+      customer_type,
+      cart_session_id,
+      shipping_country,
+      shipping_option,
+      shipping_terminal_id
     } = req.body;
 
-    // Insert order
-    const orderQuery = `
-      INSERT INTO orders (
-        order_number, customer_id, provider_id, customer_email, customer_phone,
-        shipping_address, billing_address, total_amount, currency, status,
-        payment_method, payment_status, notes, invoice_required, set_type
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `;
+    // Shipping is quoted here from the sets' parts rather than taken from the cart;
+    // handling-fee lines sent by older carts are replaced by it
+    const setItems = (items || []).filter((item) => Number(item.set_id) > 0);
+    const subtotal = setItems.reduce((sum, item) => sum + Number(item.price ?? item.unit_price ?? 0) * Number(item.quantity), 0);
+    let shipping;
+    try {
+      const quote = await shippingService.quote({
+        items: setItems,
+        country: shipping_country || billing_country,
+        subtotal,
+      });
+      shipping = { ...shippingService.chooseOption(quote, shipping_option), zone: quote.zone, country: quote.country, parcel: quote.parcel };
+      shipping.terminal = await shippingService.chooseTerminal(shipping, shipping_terminal_id, quote.country);
+    } catch (error) {
+      if (error.name === 'ValidationError') {
+        return res.status(400).json({ error: error.message });
+      }
+      throw error;
+    }
+    const orderTotal = Math.round((subtotal + shipping.cost) * 100) / 100;
+
+    // Hold the ordered sets against every other cart before taking the stock,
+    // so two checkouts cannot both get the last kit
+    const cartOwner = { userId: customer_id, sessionId: cart_session_id };
+    try {
+      await stockReservationService.claimForCheckout(cartOwner, items);
+    } catch (error) {
+      if (error.name === 'ConflictError') {
+        return res.status(409).json({ error: error.message, set_id: error.setId, available: error.available });
+      }
+      throw error;
+    }
 
     // Generate order number
     const orderNumber = `ORD-${Date.now()}-${Math.random().toString(36).substr(2, 5).toUpperCase()}`;
+    const orderRow = {
+      customer_id, customer_email, customer_phone, shipping_address, billing_address,
+      payment_method, payment_status, notes, billing_country, customer_vat_id, customer_type, shipping,
+    };
+
+    // A cart mixing providers (or platform sets with provider sets) becomes a parent order the
+    // customer pays, with a sub-order per provider to pack, ship and pay out (utils/orderSplit)
+    const groups = groupByProvider(setItems, { fallbackProviderId: provider_id });
+    const split = groups.length > 1;
+    const orderId = await insertOrder({
+      ...orderRow,
+      order_number: orderNumber,
+      provider_id: split ? null : provider_id,
+      set_type: split ? 'mixed' : set_type,
+      total_amount: orderTotal,
+      invoice_required,
+      shipping_cost: shipping.cost,
+      shipping_weight_g: shipping.parcel.chargeable_weight_g,
+    });
 
-    const orderResult = await db.run(orderQuery, [
-      orderNumber, customer_id, provider_id, customer_email, customer_phone,
-      shipping_address, billing_address, total_amount, 'EUR', status,
-      payment_method, payment_status, notes, invoice_required, set_type
-    ]);
-
-    const orderId = orderResult.lastID;
+    let fulfilment = [{ orderId, items: setItems }];
+    if (split) {
+      const shippingShares = allocateAmount(shipping.cost, groups.map((group) => group.subtotal));
+      fulfilment = [];
+      for (const [index, group] of groups.entries()) {
+        const parcel = await shippingService.getParcel(group.items);
+        const subOrderId = await insertOrder({
+          ...orderRow,
+          order_number: subOrderNumber(orderNumber, index),
+          parent_order_id: orderId,
+          provider_id: group.provider_id,
+          set_type: group.set_type,
+          total_amount: Math.round((group.subtotal + shippingShares[index]) * 100) / 100,
+          invoice_required: 0,
+          shipping_cost: shippingShares[index],
+          shipping_weight_g: parcel.chargeable_weight_g,
+        });
+        fulfilment.push({ orderId: subOrderId, items: group.items });
+      }
+    }
 
-    // Insert order items
-    if (items && items.length > 0) {
-      for (const item of items) {
+    // Insert order items (on the sub-orders of a split order)
+    for (const { orderId: itemsOrderId, items: orderItems } of fulfilment) {
+      for (const item of orderItems) {
         const itemQuery = `
           INSERT INTO order_items (
             order_id, set_id, quantity, unit_price, line_total
           ) VALUES (?, ?, ?, ?, ?)
         `;
-        
-        const lineTotal = item.price * item.quantity;
+
+        const unitPrice = Number(item.price ?? item.unit_price ?? 0);
+        const lineTotal = unitPrice * item.quantity;
         await db.run(itemQuery, [
-          orderId, item.set_id, item.quantity, item.price, lineTotal
+          itemsOrderId, item.set_id, item.quantity, unitPrice, lineTotal
         ]);
       }
     }
 
-    // Automatically reduce stock for ordered sets
+    // Record the orders as placed and take their stock
     try {
       console.log(`📦 Reducing stock for order ${orderId}`);
-      
-      // Get all set items from the order (exclude handling fees)
-      const setItemsQuery = `
-        SELECT set_id, quantity 
-        FROM order_items 
-        WHERE order_id = ? AND set_id IS NOT NULL
-      `;
-      
-      const setItemsResult = await db.query(setItemsQuery, [orderId]);
-      const setItems = setItemsResult.rows;
-      
-      for (const setItem of setItems) {
-        // Get all parts required for this set
-        const partsQuery = `
-          SELECT part_id, quantity as required_quantity
-          FROM set_parts 
-          WHERE set_id = ? AND is_optional = 0
-        `;
-        
-        const partsResult = await db.query(partsQuery, [setItem.set_id]);
-        const requiredParts = partsResult.rows;
-        
-        for (const part of requiredParts) {
-          // Calculate total quantity needed (set quantity * part quantity per set)
-          const totalQuantityNeeded = Math.ceil(setItem.quantity * part.required_quantity);
-          
-          // Check current stock
-          const stockQuery = 'SELECT stock_quantity FROM parts WHERE part_id = ?';
-          const stockResult = await db.query(stockQuery, [part.part_id]);
-          
-          if (stockResult.rows.length > 0) {
-            const currentStock = stockResult.rows[0].stock_quantity;
-            const newStock = Math.max(0, currentStock - totalQuantityNeeded);
-            
-            // Update stock
-            await db.run(
-              'UPDATE parts SET stock_quantity = ? WHERE part_id = ?',
-              [newStock, part.part_id]
-            );
-            
-            console.log(`📦 Reduced stock for part ${part.part_id}: ${currentStock} → ${newStock} (used ${totalQuantityNeeded})`);
-            
-            // Log inventory transaction
-            await db.run(`
-              INSERT INTO inventory_transactions (
-                part_id, transaction_type, quantity, reason, reference_id, reference_type
-              ) VALUES (?, 'out', ?, ?, ?, 'order')
-            `, [
-              part.part_id,
-              totalQuantityNeeded,
-              `Order ${orderNumber} - Set ${setItem.set_id}`,
-              orderId
-            ]);
-          }
+      await orderStatusService.recordCreated(orderId, customer_id);
+      if (split) {
+        for (const { orderId: subOrderId } of fulfilment) {
+          await orderStatusService.recordCreated(subOrderId, customer_id);
         }
       }
-      
       console.log(`✅ Stock reduction completed for order ${orderId}`);
     } catch (error) {
       console.error('Error reducing stock:', error);
       // Don't fail the order creation if stock reduction fails
     }
 
+    // The order has its stock now; the cart's holds are used up
+    try {
+      await stockReservationService.convertToOrder(cartOwner, orderId);
+    } catch (error) {
+      console.error('Error converting cart reservations:', error);
+    }
+
     // Automatically generate invoice if required
     let invoiceData = null;
     if (invoice_required) {
       try {
         console.log(`📄 Auto-generating invoice for order ${orderId}`);
         
-        // Make internal API call to generate invoice
-        const invoiceResponse = await fetch(`http://localhost:${process.env.PORT || 5001}/api/invoices/generate/${orderId}`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json'
-          }
-        });
-        
-        if (invoiceResponse.ok) {
-          invoiceData = await invoiceResponse.json();
-          console.log(`✅ Invoice generated: ${invoiceData.invoiceNumber}`);
-        } else {
-          console.error('Failed to generate invoice:', await invoiceResponse.text());
-        }
+        const invoice = await invoiceService.issueOrderInvoice(orderId, null, language);
+        invoiceData = {
+          invoiceNumber: invoice.invoiceNumber,
+          downloadUrl: `/api/invoices/${encodeURIComponent(invoice.invoiceNumber)}/html`,
+          pdfUrl: `/api/invoices/${encodeURIComponent(invoice.invoiceNumber)}/pdf`,
+          invoice
+        };
+        console.log(`✅ Invoice generated: ${invoice.invoiceNumber}`);
       } catch (error) {
         console.error('Error auto-generating invoice:', error);
         // Don't fail the order creation if invoice generation fails
@@ -578,6 +726,10 @@ router.post('/', async (req, res) => {
     res.status(201).json({
       message: 'Order created successfully',
       order_id: orderId,
+      order_number: orderNumber,
+      sub_orders: split ? await orderStatusService.getSubOrders(orderId) : [],
+      total_amount: orderTotal,
+      shipping,
       invoice_generated: invoice_required,
       invoice: invoiceData
     });
@@ -588,117 +740,189 @@ router.post('/', async (req, res) => {
   }
 });
 
-// Update order status
-router.put('/:id/status', async (req, res) => {
+// Move an order along its lifecycle (utils/orderLifecycle). Body: { status, notes?, tracking_number? }
+// 409 with the allowed statuses for an illegal jump, 403 when the user's role may not make the change
+router.put('/:id/status', authenticateToken, async (req, res) => {
   try {
-    const { id } = req.params;
-    const { status } = req.body;
+    const { status, notes, tracking_number } = req.body || {};
+    const result = await orderStatusService.transition(req.params.id, status, {
+      user: { role: req.user.role, userId: req.user.user_id ?? req.user.userId },
+      notes,
+      trackingNumber: tracking_number,
+    });
+    res.json({ message: 'Order status updated successfully', ...result });
+  } catch (error) {
+    if (sendStatusError(res, error)) {
+      return;
+    }
+    console.error('Error updating order status:', error);
+    res.status(500).json({ error: 'Failed to update order status' });
+  }
+});
 
-    // Get current order status
-    const currentOrderQuery = 'SELECT status FROM orders WHERE order_id = ?';
-    const currentOrderResult = await db.query(currentOrderQuery, [id]);
-    
-    if (currentOrderResult.rows.length === 0) {
+// Status changes of an order and the statuses the user may move it to next
+router.get('/:id/status-history', authenticateToken, async (req, res) => {
+  try {
+    const order = await orderStatusService.getOrder(req.params.id);
+    const user = { role: req.user.role, userId: req.user.user_id ?? req.user.userId };
+    if (!orderStatusService.canActOn(order, user)) {
+      return res.status(403).json({ error: 'You can only view the history of your own orders' });
+    }
+    res.json({
+      statusHistory: await orderStatusService.getHistory(req.params.id),
+      allowedTransitions: orderStatusService.getAllowedTransitions(order, user),
+    });
+  } catch (error) {
+    if (sendStatusError(res, error)) {
+      return;
+    }
+    console.error('Error fetching order status history:', error);
+    res.status(500).json({ error: 'Failed to fetch order status history' });
+  }
+});
+
+// Confirm a payment received for an order: { payment_reference, payment_amount, payment_method? }
+// Partial payments accumulate until the order total is covered.
+router.put('/:id/confirm-payment', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { payment_reference, payment_amount, payment_method = 'bank_transfer' } = req.body || {};
+    if (!payment_reference || !payment_amount) {
+      return res.status(400).json({ error: 'Payment reference and amount are required' });
+    }
+
+    const result = await orderPaymentService.recordPayment(req.params.id, {
+      amount: payment_amount,
+      reference: String(payment_reference),
+      method: payment_method,
+      confirmedBy: req.user.user_id ?? req.user.userId,
+    });
+    if (!result) {
       return res.status(404).json({ error: 'Order not found' });
     }
-    
-    const currentStatus = currentOrderResult.rows[0].status;
-    
-    // Update order status
-    const query = 'UPDATE orders SET status = ? WHERE order_id = ?';
-    await db.run(query, [status, id]);
 
-    // Handle stock restoration for cancelled/failed orders
-    if (shouldRestoreStock(currentStatus, status)) {
-      try {
-        console.log(`🔄 Restoring stock for order ${id} (${currentStatus} → ${status})`);
-        await restoreStockForOrder(id);
-        console.log(`✅ Stock restoration completed for order ${id}`);
-      } catch (error) {
-        console.error('Error restoring stock:', error);
-        // Don't fail the status update if stock restoration fails
-      }
+    res.json({
+      success: true,
+      message: result.fullyPaid ? 'Payment confirmed successfully' : 'Partial payment recorded',
+      order: result.order,
+    });
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ error: error.message });
     }
+    console.error('Error confirming payment:', error);
+    res.status(500).json({ error: 'Failed to confirm payment' });
+  }
+});
 
-    res.json({ message: 'Order status updated successfully' });
+// Packing list: one line per part and tool over all sets of the order, with picked counts
+// and picking progress. Query: language
+router.get('/:id/packing-list', ...requirePackingRole, async(req, res) => {
+  try {
+    res.json(await packingService.getPackingList(req.params.id, req.query.language || 'en'));
+  } catch (error) {
+    if (sendPackingError(res, error)) {
+      return;
+    }
+    console.error('Error fetching packing list:', error);
+    res.status(500).json({ error: 'Failed to fetch packing list' });
+  }
+});
 
+// Scanner input while packing. Body: { code, quantity? }
+// Wrong items and excess quantities come back with accepted: false and are not counted
+router.post('/:id/packing/scan', ...requirePackingRole, async(req, res) => {
+  try {
+    const userId = req.user.user_id ?? req.user.userId;
+    res.json(await packingService.scan(req.params.id, req.body || {}, userId, req.query.language || 'en'));
   } catch (error) {
-    console.error('Error updating order status:', error);
-    res.status(500).json({ error: 'Failed to update order status' });
+    if (sendPackingError(res, error)) {
+      return;
+    }
+    console.error('Error recording packing scan:', error);
+    res.status(500).json({ error: 'Failed to record scan' });
   }
 });
 
-// Helper function to determine if stock should be restored
-function shouldRestoreStock(currentStatus, newStatus) {
-  // Restore stock when moving from a "reserved" status to a "cancelled" status
-  const reservedStatuses = ['pending', 'pending_payment', 'payment_received'];
-  const cancelledStatuses = ['cancelled', 'failed', 'payment_failed', 'refunded'];
-  
-  return reservedStatuses.includes(currentStatus) && cancelledStatuses.includes(newStatus);
-}
+// Set a line's picked count. Body: { type: part|tool, item_id, picked_quantity } or { code, picked_quantity }
+router.put('/:id/packing/picks', ...requirePackingRole, async(req, res) => {
+  try {
+    const userId = req.user.user_id ?? req.user.userId;
+    res.json(await packingService.setPicked(req.params.id, req.body || {}, userId, req.query.language || 'en'));
+  } catch (error) {
+    if (sendPackingError(res, error)) {
+      return;
+    }
+    console.error('Error updating picked quantity:', error);
+    res.status(500).json({ error: 'Failed to update picked quantity' });
+  }
+});
 
-// Function to restore stock for a cancelled order
-async function restoreStockForOrder(orderId) {
-  // Get order number for logging
-  const orderNumberQuery = 'SELECT order_number FROM orders WHERE order_id = ?';
-  const orderNumberResult = await db.query(orderNumberQuery, [orderId]);
-  const orderNumber = orderNumberResult.rows[0]?.order_number || `ORDER-${orderId}`;
-  
-  // Get all set items from the order (exclude handling fees)
-  const setItemsQuery = `
-    SELECT set_id, quantity 
-    FROM order_items 
-    WHERE order_id = ? AND set_id IS NOT NULL
-  `;
-  
-  const setItemsResult = await db.query(setItemsQuery, [orderId]);
-  const setItems = setItemsResult.rows;
-  
-  for (const setItem of setItems) {
-    // Get all parts required for this set
-    const partsQuery = `
-      SELECT part_id, quantity as required_quantity
-      FROM set_parts 
-      WHERE set_id = ? AND is_optional = 0
-    `;
-    
-    const partsResult = await db.query(partsQuery, [setItem.set_id]);
-    const requiredParts = partsResult.rows;
-    
-    for (const part of requiredParts) {
-      // Calculate total quantity to restore (set quantity * part quantity per set)
-      const totalQuantityToRestore = Math.ceil(setItem.quantity * part.required_quantity);
-      
-      // Check current stock
-      const stockQuery = 'SELECT stock_quantity FROM parts WHERE part_id = ?';
-      const stockResult = await db.query(stockQuery, [part.part_id]);
-      
-      if (stockResult.rows.length > 0) {
-        const currentStock = stockResult.rows[0].stock_quantity;
-        const newStock = currentStock + totalQuantityToRestore;
-        
-        // Update stock
-        await db.run(
-          'UPDATE parts SET stock_quantity = ? WHERE part_id = ?',
-          [newStock, part.part_id]
-        );
-        
-        console.log(`🔄 Restored stock for part ${part.part_id}: ${currentStock} → ${newStock} (restored ${totalQuantityToRestore})`);
-        
-        // Log inventory transaction
-        await db.run(`
-          INSERT INTO inventory_transactions (
-            part_id, transaction_type, quantity, reason, reference_id, reference_type
-          ) VALUES (?, 'in', ?, ?, ?, 'order_cancellation')
-        `, [
-          part.part_id,
-          totalQuantityToRestore,
-          `Order ${orderNumber} cancelled - Set ${setItem.set_id}`,
-          orderId
-        ]);
-      }
+// Start packing over: clears the picked counts and the packed mark
+router.delete('/:id/packing/picks', ...requirePackingRole, async(req, res) => {
+  try {
+    await packingService.resetPicking(req.params.id);
+    res.json({ message: 'Picking reset' });
+  } catch (error) {
+    if (sendPackingError(res, error)) {
+      return;
     }
+    console.error('Error resetting picking:', error);
+    res.status(500).json({ error: 'Failed to reset picking' });
   }
-}
+});
+
+// Mark the order packed; 409 with the missing lines while a required line is not fully picked
+router.post('/:id/packing/complete', ...requirePackingRole, async(req, res) => {
+  try {
+    const userId = req.user.user_id ?? req.user.userId;
+    const packing = await packingService.markPacked(req.params.id, userId, req.query.language || 'en');
+    res.json({ message: 'Order packed', ...packing });
+  } catch (error) {
+    if (sendPackingError(res, error)) {
+      return;
+    }
+    console.error('Error completing packing:', error);
+    res.status(500).json({ error: 'Failed to mark order packed' });
+  }
+});
+
+// Ship an order: book the parcel with the carrier adapter, move the order to shipped with the
+// tracking number and add it to today's manifest. Body: { notes? }. Pickup orders get no parcel.
+router.post('/:id/ship', ...requirePackingRole, async(req, res) => {
+  try {
+    const result = await shipmentService.shipOrder(req.params.id, {
+      user: { role: req.user.role, userId: req.user.user_id ?? req.user.userId },
+      notes: req.body ? req.body.notes : null,
+    });
+    res.json({
+      message: 'Order shipped',
+      ...result,
+      label_url: result.shipment ? `/api/orders/${req.params.id}/shipment/label` : null,
+    });
+  } catch (error) {
+    if (sendShipmentError(res, error)) {
+      return;
+    }
+    console.error('Error shipping order:', error);
+    res.status(500).json({ error: 'Failed to ship order' });
+  }
+});
+
+// The shipping label PDF of a shipped order
+router.get('/:id/shipment/label', ...requirePackingRole, async(req, res) => {
+  try {
+    const { shipment, content } = await shipmentService.getLabel(req.params.id);
+    res.set('Content-Type', 'application/pdf');
+    res.set('Access-Control-Expose-Headers', 'Content-Disposition');
+    res.set('Content-Disposition', `${req.query.download ? 'attachment' : 'inline'}; filename="label-${shipment.tracking_number}.pdf"`);
+    res.send(content);
+  } catch (error) {
+    if (sendShipmentError(res, error)) {
+      return;
+    }
+    console.error('Error fetching shipping label:', error);
+    res.status(500).json({ error: 'Failed to fetch shipping label' });
+  }
+});
 
 module.exports = router;
@@ -2,6 +2,17 @@ const express = require('express');
 const router = express.Router();
 const db = require('../models/database');
 
+// Weight and size of one unit, used to build the parcel for shipping quotes
+const PARCEL_FIELDS = ['weight_g', 'length_mm', 'width_mm', 'height_mm'];
+
+// Set the parcel fields given in `body`; empty or invalid values clear them
+async function updateParcelFields(partId, body) {
+  for (const field of PARCEL_FIELDS.filter((name) => body[name] !== undefined)) {
+    const value = Number(body[field]);
+    await db.query(`UPDATE parts SET ${field} = ? WHERE part_id = ?`, [body[field] !== '' && value > 0 ? value : null, partId]);
+  }
+}
+
 // Get all parts with pagination and filtering
 router.get('/', async (req, res) => {
   try {
@@ -171,6 +182,7 @@ router.post('/', async (req, res) => {
       unit_of_measure,
       unit_cost,
       supplier,
+      supplier_id,
       supplier_part_number,
       stock_quantity,
       minimum_stock_level,
@@ -179,7 +191,8 @@ router.post('/', async (req, res) => {
       drawing_pdf,
       assembly_notes,
       safety_notes,
-      translations
+      translations,
+      track_lots
     } = req.body;
 
     // Insert the main part record with translations
@@ -201,6 +214,21 @@ router.post('/', async (req, res) => {
 
     const partId = result.lastID;
 
+    // Link to a supplier record when given (the free-text supplier follows its name)
+    if (supplier_id !== undefined) {
+      await db.query(
+        'UPDATE parts SET supplier_id = ?, supplier = COALESCE((SELECT name FROM suppliers WHERE supplier_id = ?), supplier) WHERE part_id = ?',
+        [supplier_id || null, supplier_id || null, partId]
+      );
+    }
+
+    // Lot-tracked parts need a lot number on every income
+    if (track_lots !== undefined) {
+      await db.query('UPDATE parts SET track_lots = ? WHERE part_id = ?', [track_lots ? 1 : 0, partId]);
+    }
+
+    await updateParcelFields(partId, req.body);
+
     res.status(201).json({
       message: 'Part created successfully',
       part_id: partId
@@ -222,6 +250,7 @@ router.put('/:id', async (req, res) => {
       unit_of_measure,
       unit_cost,
       supplier,
+      supplier_id,
       supplier_part_number,
       stock_quantity,
       minimum_stock_level,
@@ -230,7 +259,8 @@ router.put('/:id', async (req, res) => {
       drawing_pdf,
       assembly_notes,
       safety_notes,
-      translations
+      translations,
+      track_lots
     } = req.body;
 
     const query = `
@@ -256,6 +286,21 @@ router.put('/:id', async (req, res) => {
       await db.query('UPDATE parts SET translations = ? WHERE part_id = ?', [translationsJson, id]);
     }
 
+    // Link to a supplier record when given (the free-text supplier follows its name)
+    if (supplier_id !== undefined) {
+      await db.query(
+        'UPDATE parts SET supplier_id = ?, supplier = COALESCE((SELECT name FROM suppliers WHERE supplier_id = ?), supplier) WHERE part_id = ?',
+        [supplier_id || null, supplier_id || null, id]
+      );
+    }
+
+    // Lot-tracked parts need a lot number on every income
+    if (track_lots !== undefined) {
+      await db.query('UPDATE parts SET track_lots = ? WHERE part_id = ?', [track_lots ? 1 : 0, id]);
+    }
+
+    await updateParcelFields(id, req.body);
+
     res.json({ message: 'Part updated successfully' });
 
   } catch (error) {
@@ -1,6 +1,8 @@
 const express = require('express');
 const router = express.Router();
 const db = require('../utils/sqliteConnectionManager');
+const providerPayoutService = require('../services/providerPayoutService');
+const orderPaymentService = require('../services/orderPaymentService');
 const { authenticateToken, requireAdmin } = require('../middleware/auth');
 
 /**
@@ -81,6 +83,12 @@ router.get('/reports', authenticateToken, async (req, res) => {
     const totalRevenue = salesResult.rows.reduce((sum, order) => sum + (order.line_total || 0), 0);
     const pendingPayments = salesResult.rows.filter(order => order.status === 'payment_pending').length;
     const completedPayments = salesResult.rows.filter(order => order.status === 'payment_completed').length;
+    const refunds = await providerPayoutService.getProviderRefunds(
+      targetProviderId,
+      targetYear.toString(),
+      targetMonth.toString().padStart(2, '0'),
+      ['delivered', 'payment_pending', 'payment_completed']
+    );
 
     // Get provider info
     const providerQuery = 'SELECT username, company_name, provider_code FROM users WHERE user_id = ?';
@@ -118,7 +126,10 @@ router.get('/reports', authenticateToken, async (req, res) => {
         total_revenue: totalRevenue,
         pending_payments: pendingPayments,
         completed_payments: completedPayments,
-        orders: salesResult.rows
+        total_refunds: refunds.total,
+        net_revenue: totalRevenue - refunds.total,
+        orders: salesResult.rows,
+        credit_notes: refunds.creditNotes
       },
       ai_motivation: randomMotivation,
       generated_at: new Date().toISOString()
@@ -192,79 +203,31 @@ router.get('/payments', authenticateToken, async (req, res) => {
 });
 
 // Generate monthly report (client calls POST /generate-report with { month, year })
+// The report carries the month's payout batch and each provider's batch reference, if one exists.
 router.post('/generate-report', authenticateToken, requireAdmin, async (req, res) => {
   try {
     const { year, month } = req.body;
     const currentDate = new Date();
     const targetYear = year != null ? Number(year) : currentDate.getFullYear();
     const targetMonth = month != null ? Number(month) : (currentDate.getMonth() === 0 ? 12 : currentDate.getMonth());
-    const monthStr = targetMonth.toString().padStart(2, '0');
-    const yearStr = targetYear.toString();
-    const monthNames = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
 
-    const providersQuery = `
-      SELECT DISTINCT u.user_id, u.username, u.company_name, u.email
-      FROM users u
-      JOIN provider_sets ps ON u.user_id = ps.provider_id
-      WHERE u.role = 'provider' AND (u.is_active = 1 OR u.is_active IS NULL)
-    `;
-    const providersResult = await db.query(providersQuery);
-    const providerRows = providersResult.rows || [];
-    const providers = [];
-    let total_revenue = 0;
-    let total_platform_fees = 0;
-    let total_provider_payments = 0;
-
-    for (const p of providerRows) {
-      const ordersResult = await db.query(
-        `SELECT o.order_id, o.order_number, o.order_date, o.total_amount, o.status
-         FROM orders o
-         WHERE o.provider_id = ? AND strftime('%Y', o.order_date) = ? AND strftime('%m', o.order_date) = ?
-         AND o.status IN ('delivered', 'shipped', 'payment_received', 'payment_completed')`,
-        [p.user_id, yearStr, monthStr]
-      );
-      const orders = ordersResult.rows || [];
-      const rev = orders.reduce((sum, o) => sum + (parseFloat(o.total_amount) || 0), 0);
-      const platformPct = 20;
-      const providerPct = 80;
-      const platform_fee_amount = rev * (platformPct / 100);
-      const provider_payment = rev * (providerPct / 100);
-      total_revenue += rev;
-      total_platform_fees += platform_fee_amount;
-      total_provider_payments += provider_payment;
-      providers.push({
-        provider_id: p.user_id,
-        provider_name: p.username || '',
-        provider_company: p.company_name || '',
-        provider_email: p.email || '',
-        provider_markup_percentage: providerPct,
-        total_orders: orders.length,
-        total_revenue: rev,
-        platform_fee_percentage: platformPct,
-        platform_fee_amount,
-        provider_payment,
-        orders: orders.map((o) => ({
-          order_id: o.order_id,
-          order_number: o.order_number,
-          order_date: o.order_date,
-          total_amount: parseFloat(o.total_amount) || 0,
-          status: o.status,
-          payment_status: o.status,
-        })),
-      });
-    }
-
-    const report = {
-      month: monthNames[targetMonth - 1] || `Month ${targetMonth}`,
-      year: targetYear,
-      total_providers: providers.length,
-      total_revenue,
-      total_platform_fees,
-      total_provider_payments,
-      providers,
-    };
+    const report = await providerPayoutService.calculateMonthlyReport(targetYear, targetMonth);
+    const batch = await providerPayoutService.getActiveBatch(targetYear, targetMonth);
+    report.payout_batch = batch;
+    report.providers = report.providers.map((provider) => {
+      const item = batch ? batch.items.find((candidate) => candidate.provider_id === provider.provider_id) : null;
+      return {
+        ...provider,
+        payout: item
+          ? { batch_id: batch.batch_id, batch_reference: batch.batch_reference, status: batch.status, amount: item.amount }
+          : null,
+      };
+    });
     res.json(report);
   } catch (err) {
+    if (err.name === 'ValidationError') {
+      return res.status(400).json({ success: false, error: err.message });
+    }
     console.error('Error generating report:', err);
     res.status(500).json({ success: false, error: err.message || 'Failed to generate report' });
   }
@@ -380,40 +343,147 @@ router.post('/generate-monthly-reports', authenticateToken, requireAdmin, async
   }
 });
 
-// Mark payment as completed (Admin only)
-router.post('/complete-payment', requireAdmin, async (req, res) => {
+// SEPA payout batches (Admin only). Query: year, month
+router.get('/payout-batches', authenticateToken, requireAdmin, async (req, res) => {
   try {
-    const { order_id, payment_amount, payment_method, payment_reference, notes } = req.body;
+    const batches = await providerPayoutService.listBatches({
+      year: req.query.year || null,
+      month: req.query.month || null,
+    });
+    res.json({ batches });
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error fetching payout batches:', error);
+    res.status(500).json({ error: 'Failed to fetch payout batches' });
+  }
+});
 
-    if (!order_id) {
-      return res.status(400).json({ error: 'Order ID is required' });
+// Create (or recreate) the draft payout batch for a month: { year, month }
+router.post('/payout-batches', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { year, month } = req.body || {};
+    const batch = await providerPayoutService.createDraftBatch(year, month, tokenUserId(req));
+    res.status(201).json({ success: true, message: `Draft payout batch ${batch.batch_reference} created`, batch });
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ error: error.message });
     }
+    console.error('Error creating payout batch:', error);
+    res.status(500).json({ error: 'Failed to create payout batch' });
+  }
+});
 
-    // Update order status to payment_completed
-    const updateQuery = `
-      UPDATE orders 
-      SET status = 'payment_completed', 
-          payment_completed_at = datetime('now'),
-          payment_method = ?,
-          payment_reference = ?,
-          notes = ?
-      WHERE order_id = ?
-    `;
+// Approve a draft and generate its pain.001 file: { execution_date? }
+router.post('/payout-batches/:id/approve', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const batch = await providerPayoutService.approveBatch(req.params.id, {
+      executionDate: (req.body || {}).execution_date || null,
+      approvedBy: tokenUserId(req),
+    });
+    if (!batch) {
+      return res.status(404).json({ error: 'Payout batch not found' });
+    }
+    res.json({ success: true, message: `Payout batch ${batch.batch_reference} approved`, batch });
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error approving payout batch:', error);
+    res.status(500).json({ error: 'Failed to approve payout batch' });
+  }
+});
 
-    await db.run(updateQuery, [payment_method, payment_reference, notes, order_id]);
+// Download the pain.001 XML of an approved batch
+router.get('/payout-batches/:id/pain001', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const file = await providerPayoutService.getPain001(req.params.id);
+    if (!file) {
+      return res.status(404).json({ error: 'Payout batch not found' });
+    }
+    res.setHeader('Content-Type', 'application/xml; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    res.send(file.xml);
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error downloading payout file:', error);
+    res.status(500).json({ error: 'Failed to download payout file' });
+  }
+});
 
-    // Get order details for notification
-    const orderQuery = 'SELECT * FROM orders WHERE order_id = ?';
-    const orderResult = await db.query(orderQuery, [order_id]);
-    const order = orderResult.rows[0];
+// Mark an approved batch as executed by the bank
+router.post('/payout-batches/:id/mark-paid', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const batch = await providerPayoutService.markPaid(req.params.id);
+    if (!batch) {
+      return res.status(404).json({ error: 'Payout batch not found' });
+    }
+    res.json({ success: true, message: `Payout batch ${batch.batch_reference} marked as paid`, batch });
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error marking payout batch paid:', error);
+    res.status(500).json({ error: 'Failed to mark payout batch as paid' });
+  }
+});
+
+// Cancel a draft batch
+router.delete('/payout-batches/:id', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const batch = await providerPayoutService.cancelBatch(req.params.id);
+    if (!batch) {
+      return res.status(404).json({ error: 'Payout batch not found' });
+    }
+    res.json({ success: true, message: `Payout batch ${batch.batch_reference} cancelled`, batch });
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error cancelling payout batch:', error);
+    res.status(500).json({ error: 'Failed to cancel payout batch' });
+  }
+});
+
+// Mark payment as completed (Admin only). Recorded like any other order payment,
+// so the order's status only moves through the lifecycle (pending -> confirmed once paid)
+router.post('/complete-payment', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { order_id, payment_amount, payment_method = 'bank_transfer', payment_reference, notes } = req.body;
+
+    if (!order_id) {
+      return res.status(400).json({ error: 'Order ID is required' });
+    }
+
+    const { rows } = await db.query('SELECT total_amount, payment_amount FROM orders WHERE order_id = ?', [order_id]);
+    if (rows.length === 0) {
+      return res.status(404).json({ error: 'Order not found' });
+    }
+    // Without an amount the payment covers whatever is still outstanding
+    const amount = payment_amount ?? (Number(rows[0].total_amount) || 0) - (Number(rows[0].payment_amount) || 0);
+
+    const result = await orderPaymentService.recordPayment(order_id, {
+      amount,
+      reference: payment_reference ? String(payment_reference) : null,
+      method: payment_method,
+      confirmedBy: tokenUserId(req),
+      notes,
+    });
 
     res.json({
-      message: 'Payment marked as completed successfully',
-      order_id: order_id,
-      status: 'payment_completed'
+      message: result.fullyPaid ? 'Payment marked as completed successfully' : 'Partial payment recorded',
+      order_id: result.order.order_id,
+      status: result.order.status,
+      payment_status: result.order.payment_status
     });
 
   } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Error completing payment:', error);
     res.status(500).json({ error: 'Failed to complete payment' });
   }
@@ -2,6 +2,7 @@ const express = require('express');
 const router = express.Router();
 const db = require('../models/database');
 const { authenticateToken } = require('../middleware/auth');
+const setAvailabilityService = require('../services/setAvailabilityService');
 
 function tokenUserId(req) {
   return req.user?.user_id ?? req.user?.userId ?? req.user?.id;
@@ -97,7 +98,8 @@ router.get('/', authenticateToken, async (req, res) => {
     const total = parseInt(countResult.rows[0].total, 10);
 
     res.json({
-      provider_sets: result.rows,
+      // Buildable quantity from the bill of materials, not the stored figure
+      provider_sets: await setAvailabilityService.attachAvailability(result.rows),
       pagination: {
         page: parseInt(page, 10),
         limit: parseInt(limit, 10),
@@ -144,7 +146,8 @@ router.get('/:id', authenticateToken, async (req, res) => {
       return res.status(404).json({ error: 'Provider set not found' });
     }
 
-    res.json({ provider_set: result.rows[0] });
+    const [providerSet] = await setAvailabilityService.attachAvailability(result.rows);
+    res.json({ provider_set: providerSet });
   } catch (error) {
     console.error('Error fetching provider set:', error);
     res.status(500).json({ error: 'Failed to fetch provider set' });
@@ -0,0 +1,176 @@
+const express = require('express');
+const router = express.Router();
+const purchaseOrderService = require('../services/purchaseOrderService');
+const { authenticateToken, requireRole } = require('../middleware/auth');
+
+// Purchase orders commit spend and post stock: admin and production staff only
+router.use(authenticateToken, requireRole(['admin', 'production']));
+
+// Map purchase order service errors to 400 / 404; returns false for unexpected errors
+function sendPurchaseOrderError(res, error) {
+  if (error.name === 'ValidationError') {
+    res.status(400).json({ error: error.message });
+    return true;
+  }
+  if (error.name === 'NotFoundError') {
+    res.status(404).json({ error: error.message });
+    return true;
+  }
+  return false;
+}
+
+function userIdOf(req) {
+  return req.user.user_id ?? req.user.userId;
+}
+
+// Get all purchase orders
+// Query: page, limit, status (draft/sent/partially_received/received/cancelled), supplier_id
+router.get('/', async(req, res) => {
+  try {
+    const { page, limit, status, supplier_id } = req.query;
+    res.json(await purchaseOrderService.listPurchaseOrders({ page, limit, status, supplierId: supplier_id }));
+  } catch (error) {
+    if (sendPurchaseOrderError(res, error)) {
+      return;
+    }
+    console.error('Error fetching purchase orders:', error);
+    res.status(500).json({ error: 'Failed to fetch purchase orders' });
+  }
+});
+
+// Next free purchase order number
+router.get('/next-number', async(req, res) => {
+  try {
+    res.json({ next_number: await purchaseOrderService.getNextNumber() });
+  } catch (error) {
+    console.error('Error generating purchase order number:', error);
+    res.status(500).json({ error: 'Failed to generate purchase order number' });
+  }
+});
+
+// Parts at or below their reorder point, with suggested order quantities
+router.get('/reorder-suggestions', async(req, res) => {
+  try {
+    res.json(await purchaseOrderService.getReorderSuggestions());
+  } catch (error) {
+    console.error('Error calculating reorder suggestions:', error);
+    res.status(500).json({ error: 'Failed to calculate reorder suggestions' });
+  }
+});
+
+// Create draft purchase orders (one per supplier) from low-stock parts. Body: { supplier_ids?: number[] }
+router.post('/generate', async(req, res) => {
+  try {
+    const result = await purchaseOrderService.generateFromLowStock(userIdOf(req), { supplierIds: req.body.supplier_ids });
+    res.status(201).json({
+      message: `${result.purchase_orders.length} purchase order(s) created`,
+      ...result,
+    });
+  } catch (error) {
+    if (sendPurchaseOrderError(res, error)) {
+      return;
+    }
+    console.error('Error generating purchase orders:', error);
+    res.status(500).json({ error: 'Failed to generate purchase orders' });
+  }
+});
+
+// Get purchase order by ID, with its lines and receipts
+router.get('/:id', async(req, res) => {
+  try {
+    res.json(await purchaseOrderService.getPurchaseOrder(req.params.id));
+  } catch (error) {
+    if (sendPurchaseOrderError(res, error)) {
+      return;
+    }
+    console.error('Error fetching purchase order:', error);
+    res.status(500).json({ error: 'Failed to fetch purchase order' });
+  }
+});
+
+// Create a draft purchase order
+router.post('/', async(req, res) => {
+  try {
+    const purchaseOrder = await purchaseOrderService.createPurchaseOrder(req.body, userIdOf(req));
+    res.status(201).json({ message: 'Purchase order created successfully', purchase_order: purchaseOrder });
+  } catch (error) {
+    if (sendPurchaseOrderError(res, error)) {
+      return;
+    }
+    console.error('Error creating purchase order:', error);
+    res.status(500).json({ error: 'Failed to create purchase order' });
+  }
+});
+
+// Update a draft purchase order
+router.put('/:id', async(req, res) => {
+  try {
+    const purchaseOrder = await purchaseOrderService.updatePurchaseOrder(req.params.id, req.body);
+    res.json({ message: 'Purchase order updated successfully', purchase_order: purchaseOrder });
+  } catch (error) {
+    if (sendPurchaseOrderError(res, error)) {
+      return;
+    }
+    console.error('Error updating purchase order:', error);
+    res.status(500).json({ error: 'Failed to update purchase order' });
+  }
+});
+
+// Mark a draft as sent to the supplier
+router.post('/:id/send', async(req, res) => {
+  try {
+    const purchaseOrder = await purchaseOrderService.sendPurchaseOrder(req.params.id);
+    res.json({ message: 'Purchase order sent', purchase_order: purchaseOrder });
+  } catch (error) {
+    if (sendPurchaseOrderError(res, error)) {
+      return;
+    }
+    console.error('Error sending purchase order:', error);
+    res.status(500).json({ error: 'Failed to send purchase order' });
+  }
+});
+
+// Receive goods: creates a confirmed receipt (stock income) for the lines received
+// Body: { items?: [{ po_item_id, quantity, unit_price?, lot_number?, expiry_date? }], purchase_date?, receipt_number?, tax_amount?, notes? }
+router.post('/:id/receive', async(req, res) => {
+  try {
+    const result = await purchaseOrderService.receivePurchaseOrder(req.params.id, req.body, userIdOf(req));
+    res.status(201).json({ message: 'Goods received and stock posted', ...result });
+  } catch (error) {
+    if (sendPurchaseOrderError(res, error)) {
+      return;
+    }
+    console.error('Error receiving purchase order:', error);
+    res.status(500).json({ error: 'Failed to receive purchase order' });
+  }
+});
+
+// Cancel a purchase order nothing has been received against
+router.post('/:id/cancel', async(req, res) => {
+  try {
+    const purchaseOrder = await purchaseOrderService.cancelPurchaseOrder(req.params.id);
+    res.json({ message: 'Purchase order cancelled', purchase_order: purchaseOrder });
+  } catch (error) {
+    if (sendPurchaseOrderError(res, error)) {
+      return;
+    }
+    console.error('Error cancelling purchase order:', error);
+    res.status(500).json({ error: 'Failed to cancel purchase order' });
+  }
+});
+
+// Delete a draft or cancelled purchase order
+router.delete('/:id', async(req, res) => {
+  try {
+    await purchaseOrderService.deletePurchaseOrder(req.params.id);
+    res.json({ message: 'Purchase order deleted successfully' });
+  } catch (error) {
+    if (sendPurchaseOrderError(res, error)) {
+      return;
+    }
+    console.error('Error deleting purchase order:', error);
+    res.status(500).json({ error: 'Failed to delete purchase order' });
+  }
+});
+
+module.exports = router;
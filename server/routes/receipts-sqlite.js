@@ -1,184 +1,145 @@
 const express = require('express');
 const router = express.Router();
-const db = require('../models/database');
+const receiptService = require('../services/receiptService');
+const purchaseOrderService = require('../services/purchaseOrderService');
+const { authenticateToken, requireRole } = require('../middleware/auth');
+
+// Purchase receipts change stock and part costs: admin and production staff only
+router.use(authenticateToken, requireRole(['admin', 'production']));
+
+// Map receipt service errors to 400 / 404; returns false for unexpected errors
+function sendReceiptError(res, error) {
+  if (error.name === 'ValidationError') {
+    res.status(400).json({ error: error.message });
+    return true;
+  }
+  if (error.name === 'NotFoundError') {
+    res.status(404).json({ error: error.message });
+    return true;
+  }
+  return false;
+}
 
 // Get all receipts
-router.get('/', async (req, res) => {
+// Query: page, limit, supplier, start_date, end_date, status (draft/confirmed/cancelled), sort_by, sort_order
+router.get('/', async(req, res) => {
   try {
-    const { page = 1, limit = 20, user_id, order_id, sort_by = 'created_at', sort_order = 'DESC' } = req.query;
-    const offset = (page - 1) * limit;
-
-    let whereConditions = [];
-    let queryParams = [];
-
-    if (user_id) {
-      whereConditions.push('r.user_id = ?');
-      queryParams.push(user_id);
-    }
-
-    if (order_id) {
-      whereConditions.push('r.order_id = ?');
-      queryParams.push(order_id);
-    }
-
-    const whereClause = whereConditions.length > 0 ? 'WHERE ' + whereConditions.join(' AND ') : '';
-
-    const query = `
-      SELECT 
-        r.*,
-        u.first_name,
-        u.last_name,
-        u.email,
-        o.order_number,
-        o.total_amount
-      FROM receipts r
-      LEFT JOIN users u ON r.user_id = u.user_id
-      LEFT JOIN orders o ON r.order_id = o.order_id
-      ${whereClause}
-      ORDER BY r.${sort_by} ${sort_order}
-      LIMIT ? OFFSET ?
-    `;
-
-    queryParams.push(parseInt(limit), offset);
-    const result = await db.query(query, queryParams);
-
-    // Get total count for pagination
-    const countQuery = `
-      SELECT COUNT(*) as total
-      FROM receipts r
-      ${whereClause}
-    `;
-
-    const countResult = await db.query(countQuery, queryParams.slice(0, -2));
-    const total = parseInt(countResult.rows[0].total);
-
-    res.json({
-      receipts: result.rows,
-      pagination: {
-        page: parseInt(page),
-        limit: parseInt(limit),
-        total,
-        pages: Math.ceil(total / limit)
-      }
+    const { page, limit, supplier, start_date, end_date, status, sort_by, sort_order } = req.query;
+    const result = await receiptService.listReceipts({
+      page,
+      limit,
+      supplier,
+      startDate: start_date,
+      endDate: end_date,
+      status,
+      sortBy: sort_by,
+      sortOrder: sort_order,
     });
-
+    res.json(result);
   } catch (error) {
     console.error('Error fetching receipts:', error);
     res.status(500).json({ error: 'Failed to fetch receipts' });
   }
 });
 
-// Get receipt by ID
-router.get('/:id', async (req, res) => {
+// Next free receipt number
+router.get('/next-number', async(req, res) => {
   try {
-    const { id } = req.params;
-
-    const query = `
-      SELECT 
-        r.*,
-        u.first_name,
-        u.last_name,
-        u.email,
-        o.order_number,
-        o.total_amount
-      FROM receipts r
-      LEFT JOIN users u ON r.user_id = u.user_id
-      LEFT JOIN orders o ON r.order_id = o.order_id
-      WHERE r.receipt_id = ?
-    `;
-
-    const result = await db.query(query, [id]);
-    
-    if (result.rows.length === 0) {
-      return res.status(404).json({ error: 'Receipt not found' });
-    }
-
-    res.json({ receipt: result.rows[0] });
+    res.json({ next_number: await receiptService.getNextNumber() });
+  } catch (error) {
+    console.error('Error generating receipt number:', error);
+    res.status(500).json({ error: 'Failed to generate receipt number' });
+  }
+});
 
+// Get receipt by ID, with its lines
+router.get('/:id', async(req, res) => {
+  try {
+    res.json(await receiptService.getReceipt(req.params.id));
   } catch (error) {
+    if (sendReceiptError(res, error)) {
+      return;
+    }
     console.error('Error fetching receipt:', error);
     res.status(500).json({ error: 'Failed to fetch receipt' });
   }
 });
 
-// Create new receipt
-router.post('/', async (req, res) => {
+// Create new receipt (draft; status "confirmed" posts the stock straight away)
+router.post('/', async(req, res) => {
   try {
-    const {
-      user_id,
-      order_id,
-      receipt_number,
-      amount,
-      currency = 'EUR',
-      payment_method,
-      payment_reference,
-      file_path,
-      notes
-    } = req.body;
-
-    const query = `
-      INSERT INTO receipts (
-        user_id, order_id, receipt_number, amount, currency, payment_method, payment_reference, file_path, notes
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `;
-
-    const result = await db.query(query, [
-      user_id, order_id, receipt_number, amount, currency, payment_method, payment_reference, file_path, notes
-    ]);
-
-    const receiptId = result.rows[0].id || result.lastID;
-
+    const receipt = await receiptService.createReceipt(req.body, req.user.user_id ?? req.user.userId);
     res.status(201).json({
-      message: 'Receipt created successfully',
-      receipt_id: receiptId
+      message: receipt.status === 'confirmed' ? 'Receipt created and stock posted' : 'Receipt created successfully',
+      receipt_id: receipt.receipt_id,
+      receipt,
     });
-
   } catch (error) {
+    if (sendReceiptError(res, error)) {
+      return;
+    }
     console.error('Error creating receipt:', error);
     res.status(500).json({ error: 'Failed to create receipt' });
   }
 });
 
-// Update receipt
-router.put('/:id', async (req, res) => {
+// Update receipt; new lines on a confirmed receipt reverse the old stock income and post the new
+router.put('/:id', async(req, res) => {
   try {
-    const { id } = req.params;
-    const {
-      receipt_number,
-      amount,
-      currency,
-      payment_method,
-      payment_reference,
-      file_path,
-      notes
-    } = req.body;
-
-    const query = `
-      UPDATE receipts 
-      SET receipt_number = ?, amount = ?, currency = ?, payment_method = ?, payment_reference = ?, file_path = ?, notes = ?, updated_at = CURRENT_TIMESTAMP
-      WHERE receipt_id = ?
-    `;
-
-    await db.query(query, [receipt_number, amount, currency, payment_method, payment_reference, file_path, notes, id]);
-
-    res.json({ message: 'Receipt updated successfully' });
-
+    const receipt = await receiptService.updateReceipt(req.params.id, req.body);
+    if (receipt.purchase_order_id) {
+      await purchaseOrderService.refreshReceiving(receipt.purchase_order_id);
+    }
+    res.json({ message: 'Receipt updated successfully', receipt });
   } catch (error) {
+    if (sendReceiptError(res, error)) {
+      return;
+    }
     console.error('Error updating receipt:', error);
     res.status(500).json({ error: 'Failed to update receipt' });
   }
 });
 
-// Delete receipt
-router.delete('/:id', async (req, res) => {
+// Confirm a draft receipt: post one stock income per line and update part costs
+router.post('/:id/confirm', async(req, res) => {
   try {
-    const { id } = req.params;
+    const receipt = await receiptService.confirmReceipt(req.params.id);
+    res.json({ message: 'Receipt confirmed and stock posted', receipt });
+  } catch (error) {
+    if (sendReceiptError(res, error)) {
+      return;
+    }
+    console.error('Error confirming receipt:', error);
+    res.status(500).json({ error: 'Failed to confirm receipt' });
+  }
+});
 
-    await db.query('DELETE FROM receipts WHERE receipt_id = ?', [id]);
+// Cancel a receipt; a confirmed receipt has its stock income reversed (and its purchase order reopened)
+router.post('/:id/cancel', async(req, res) => {
+  try {
+    const receipt = await receiptService.cancelReceipt(req.params.id);
+    if (receipt.purchase_order_id) {
+      await purchaseOrderService.refreshReceiving(receipt.purchase_order_id);
+    }
+    res.json({ message: 'Receipt cancelled', receipt });
+  } catch (error) {
+    if (sendReceiptError(res, error)) {
+      return;
+    }
+    console.error('Error cancelling receipt:', error);
+    res.status(500).json({ error: 'Failed to cancel receipt' });
+  }
+});
 
+// Delete a draft or cancelled receipt
+router.delete('/:id', async(req, res) => {
+  try {
+    await receiptService.deleteReceipt(req.params.id);
     res.json({ message: 'Receipt deleted successfully' });
-
   } catch (error) {
+    if (sendReceiptError(res, error)) {
+      return;
+    }
     console.error('Error deleting receipt:', error);
     res.status(500).json({ error: 'Failed to delete receipt' });
   }
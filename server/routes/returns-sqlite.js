@@ -0,0 +1,156 @@
+const express = require('express');
+const router = express.Router();
+const returnService = require('../services/returnService');
+const { authenticateToken } = require('../middleware/auth');
+
+function currentUser(req) {
+  return { role: req.user.role, userId: req.user.user_id ?? req.user.userId };
+}
+
+function getBaseUrl(req) {
+  return (req && req.app && req.app.get('baseUrl')) || process.env.PUBLIC_URL || `http://localhost:${process.env.PORT || 5001}`;
+}
+
+// Photo links for the client, like /api/media/upload returns them
+function withPhotoUrls(req, request) {
+  const baseUrl = getBaseUrl(req);
+  return {
+    ...request,
+    photos: request.photos.map((photo) => ({ ...photo, file_url: `${baseUrl}/uploads/${photo.file_name}` })),
+  };
+}
+
+// Map return service errors to 400 / 403 / 404 / 409 (with the statuses allowed next) / 502; returns false for unexpected errors
+function sendReturnError(res, error) {
+  if (error.name === 'ValidationError') {
+    res.status(400).json({ error: error.message });
+    return true;
+  }
+  if (error.name === 'ForbiddenError') {
+    res.status(403).json({ error: error.message });
+    return true;
+  }
+  if (error.name === 'NotFoundError') {
+    res.status(404).json({ error: error.message });
+    return true;
+  }
+  if (error.name === 'ConflictError') {
+    res.status(409).json({ error: error.message, allowed: error.details ? error.details.allowed : undefined });
+    return true;
+  }
+  if (error.name === 'CarrierError') {
+    res.status(502).json({ error: error.message });
+    return true;
+  }
+  return false;
+}
+
+// Return requests, newest first: a customer's own, or all for production. Query: status?, order_id?
+router.get('/', authenticateToken, async(req, res) => {
+  try {
+    const requests = await returnService.listRequests(
+      { status: req.query.status || null, orderId: req.query.order_id || null },
+      currentUser(req)
+    );
+    res.json({ requests: requests.map((request) => withPhotoUrls(req, request)) });
+  } catch (error) {
+    if (sendReturnError(res, error)) {
+      return;
+    }
+    console.error('Error fetching return requests:', error);
+    res.status(500).json({ error: 'Failed to fetch return requests' });
+  }
+});
+
+// What can be reported on an order: its shipped items and packing list parts with the quantity
+// still returnable, and the reasons to choose from. Query: language
+router.get('/order/:orderId/returnable', authenticateToken, async(req, res) => {
+  try {
+    res.json(await returnService.getReturnable(req.params.orderId, currentUser(req), req.query.language || 'en'));
+  } catch (error) {
+    if (sendReturnError(res, error)) {
+      return;
+    }
+    console.error('Error fetching returnable lines:', error);
+    res.status(500).json({ error: 'Failed to fetch returnable items' });
+  }
+});
+
+// Open a return request. Body: { order_id, reason, description?, lines: [{ type: item|part, id, quantity }],
+// photo_ids?: media ids from /api/media/upload }
+router.post('/', authenticateToken, async(req, res) => {
+  try {
+    const { order_id: orderId, reason, description, lines, photo_ids: photoIds } = req.body || {};
+    if (!orderId) {
+      return res.status(400).json({ error: 'order_id is required' });
+    }
+    const request = await returnService.createRequest(
+      orderId,
+      { reason, description, lines, photoIds: Array.isArray(photoIds) ? photoIds : [] },
+      currentUser(req),
+      req.query.language || 'en'
+    );
+    res.status(201).json({ message: 'Return request submitted', request: withPhotoUrls(req, request) });
+  } catch (error) {
+    if (sendReturnError(res, error)) {
+      return;
+    }
+    console.error('Error creating return request:', error);
+    res.status(500).json({ error: 'Failed to submit return request' });
+  }
+});
+
+// A return request with its lines, photos, history and the statuses the user may move it to
+router.get('/:id', authenticateToken, async(req, res) => {
+  try {
+    res.json({ request: withPhotoUrls(req, await returnService.getRequest(req.params.id, currentUser(req))) });
+  } catch (error) {
+    if (sendReturnError(res, error)) {
+      return;
+    }
+    console.error('Error fetching return request:', error);
+    res.status(500).json({ error: 'Failed to fetch return request' });
+  }
+});
+
+// Move a return request on. Body: { status, notes?, resolution?, restock?, amounts?: [{ line_id, amount }] }
+// Approving takes the resolution (replacement | refund | restock); completing carries it out.
+router.put('/:id/status', authenticateToken, async(req, res) => {
+  try {
+    const { status, notes, resolution, restock, amounts } = req.body || {};
+    const request = await returnService.transition(req.params.id, status, {
+      user: currentUser(req),
+      notes,
+      resolution,
+      restock: Boolean(restock),
+      amounts: Array.isArray(amounts) ? amounts : [],
+      language: req.query.language || null,
+    });
+    res.json({ message: 'Return request updated', request: withPhotoUrls(req, request) });
+  } catch (error) {
+    if (sendReturnError(res, error)) {
+      return;
+    }
+    console.error('Error updating return request:', error);
+    res.status(500).json({ error: 'Failed to update return request' });
+  }
+});
+
+// The shipping label PDF of a replacement parcel
+router.get('/:id/label', authenticateToken, async(req, res) => {
+  try {
+    const { request, content } = await returnService.getLabel(req.params.id, currentUser(req));
+    res.set('Content-Type', 'application/pdf');
+    res.set('Access-Control-Expose-Headers', 'Content-Disposition');
+    res.set('Content-Disposition', `${req.query.download ? 'attachment' : 'inline'}; filename="label-${request.tracking_number}.pdf"`);
+    res.send(content);
+  } catch (error) {
+    if (sendReturnError(res, error)) {
+      return;
+    }
+    console.error('Error fetching return label:', error);
+    res.status(500).json({ error: 'Failed to fetch shipping label' });
+  }
+});
+
+module.exports = router;
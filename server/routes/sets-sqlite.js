@@ -1,6 +1,8 @@
 const express = require('express');
 const router = express.Router();
 const db = require('../models/database');
+const setAvailabilityService = require('../services/setAvailabilityService');
+const { optionalAuth } = require('../middleware/auth');
 
 // Get real rating data for a set (SQLite compatible)
 async function getRealRatingData(setId) {
@@ -92,18 +94,9 @@ router.get('/', async (req, res) => {
         (SELECT COUNT(*) FROM set_parts WHERE set_id = s.set_id) as part_count,
         (SELECT COUNT(*) FROM set_tools WHERE set_id = s.set_id) as tool_count,
         (SELECT COUNT(*) FROM set_media WHERE set_id = s.set_id) as media_count,
-        COALESCE(
-          ps.available_quantity,
-          (SELECT MIN(FLOOR(p.stock_quantity / sp.quantity))
-           FROM set_parts sp
-           JOIN parts p ON sp.part_id = p.part_id
-           WHERE sp.set_id = s.set_id AND sp.is_optional = 0 AND p.stock_quantity > 0
-          ), 0
-        ) as available_quantity,
         ps.provider_set_id,
         ps.provider_id,
         ps.price as provider_price,
-        ps.available_quantity as provider_available_quantity,
         ps.provider_visible,
         u.username as provider_username,
         u.first_name as provider_first_name,
@@ -133,9 +126,10 @@ router.get('/', async (req, res) => {
     const countResult = await db.query(countQuery, queryParams.slice(0, -2));
     const total = parseInt(countResult.rows[0].total);
 
-    // Get rating data for each set
+    // Buildable quantity from the bill of materials, then rating data for each set
+    const setsWithAvailability = await setAvailabilityService.attachAvailability(result.rows);
     const setsWithRatings = await Promise.all(
-      result.rows.map(async (set) => {
+      setsWithAvailability.map(async (set) => {
         const ratingData = await getRealRatingData(set.set_id);
         return {
           ...set,
@@ -161,93 +155,25 @@ router.get('/', async (req, res) => {
   }
 });
 
-// Validate stock availability for cart/checkout
-router.post('/validate-stock', async (req, res) => {
+// Validate stock availability for cart/checkout: the buildable quantity of each set after
+// other carts' holds. Signed-in callers pass their cart session_id so their own holds don't count.
+router.post('/validate-stock', optionalAuth, async (req, res) => {
   try {
-    const { sets } = req.body || {};
+    const { sets, session_id } = req.body || {};
     if (!sets || !Array.isArray(sets)) {
       return res.status(400).json({ error: 'Sets array is required' });
     }
 
-    const results = [];
-    let validCount = 0;
-    let invalidCount = 0;
+    const excludeOwner = req.user ? { userId: req.user.user_id, sessionId: session_id || '' } : null;
+    const results = await setAvailabilityService.validateLines(sets, { excludeOwner });
+    const validCount = results.filter((result) => result.valid).length;
+    const invalidCount = results.length - validCount;
 
-    for (const item of sets) {
-      const { set_id, quantity } = item;
-      if (set_id == null || quantity == null) {
-        results.push({ set_id: set_id ?? 0, valid: false, error: 'Missing set_id or quantity' });
-        invalidCount++;
-        continue;
-      }
-
-      if (set_id === -1) {
-        results.push({ set_id, valid: true, parts_configured: true });
-        validCount++;
-        continue;
-      }
-
-      const partsQuery = `
-        SELECT
-          sp.part_id,
-          sp.quantity as required_quantity,
-          p.stock_quantity,
-          COALESCE(p.name, p.part_number) as part_name,
-          p.part_number
-        FROM set_parts sp
-        JOIN parts p ON sp.part_id = p.part_id
-        WHERE sp.set_id = ?
-      `;
-      const partsResult = await db.query(partsQuery, [set_id]);
-      const parts = partsResult.rows || [];
-
-      if (parts.length === 0) {
-        results.push({
-          set_id,
-          valid: false,
-          parts_configured: false,
-          error: 'No parts configured for this set'
-        });
-        invalidCount++;
-        continue;
-      }
-
-      const insufficientParts = [];
-      for (const part of parts) {
-        const totalRequired = (part.required_quantity || 0) * quantity;
-        const available = part.stock_quantity ?? 0;
-        if (available < totalRequired) {
-          insufficientParts.push({
-            part_id: part.part_id,
-            part_number: part.part_number || '',
-            part_name: part.part_name || part.part_number || '',
-            required: totalRequired,
-            available,
-            shortfall: totalRequired - available
-          });
-        }
-      }
-
-      if (insufficientParts.length > 0) {
-        results.push({
-          set_id,
-          valid: false,
-          parts_configured: true,
-          insufficient_parts: insufficientParts
-        });
-        invalidCount++;
-      } else {
-        results.push({ set_id, valid: true, parts_configured: true });
-        validCount++;
-      }
-    }
-
-    const totalItems = results.length;
     res.json({
       valid: invalidCount === 0,
       results,
       summary: {
-        total_items: totalItems,
+        total_items: results.length,
         valid_items: validCount,
         invalid_items: invalidCount
       }
@@ -278,7 +204,8 @@ router.get('/:id', async (req, res) => {
       return res.status(404).json({ error: 'Set not found' });
     }
 
-    const set = setResult.rows[0];
+    // Buildable quantity and the part that limits it, from the bill of materials
+    const [set] = await setAvailabilityService.attachAvailability(setResult.rows);
 
     // Get parts for this set (set_parts has is_optional; alias is_required for API compatibility)
     try {
@@ -444,17 +371,23 @@ router.put('/:id', async (req, res) => {
       estimated_duration_minutes,
       base_price,
       video_url,
-      learning_outcomes
+      learning_outcomes,
+      vat_category
     } = req.body;
 
+    if (vat_category !== undefined && !['standard', 'reduced', 'zero'].includes(vat_category)) {
+      return res.status(400).json({ error: 'vat_category must be one of: standard, reduced, zero' });
+    }
+
     const query = `
       UPDATE sets 
       SET name = ?, description = ?, category = ?, difficulty_level = ?,
-          estimated_duration_minutes = ?, base_price = ?, video_url = ?, learning_outcomes = ?, updated_at = CURRENT_TIMESTAMP
+          estimated_duration_minutes = ?, base_price = ?, video_url = ?, learning_outcomes = ?,
+          vat_category = COALESCE(?, vat_category), updated_at = CURRENT_TIMESTAMP
       WHERE set_id = ?
     `;
 
-    await db.query(query, [name, description, category, difficulty_level, estimated_duration_minutes, base_price, video_url, learning_outcomes, id]);
+    await db.query(query, [name, description, category, difficulty_level, estimated_duration_minutes, base_price, video_url, learning_outcomes, vat_category ?? null, id]);
 
     res.json({ message: 'Set updated successfully' });
 
@@ -0,0 +1,197 @@
+const express = require('express');
+const router = express.Router();
+const shippingService = require('../services/shippingService');
+const shipmentService = require('../services/shipmentService');
+const { listCarriers } = require('../carriers');
+const { authenticateToken, requireAdmin, requireRole } = require('../middleware/auth');
+
+// Map shipping service errors to 400 / 404; returns false for unexpected errors
+function sendShippingError(res, error) {
+  if (error.name === 'ValidationError') {
+    res.status(400).json({ error: error.message });
+    return true;
+  }
+  if (error.name === 'NotFoundError') {
+    res.status(404).json({ error: error.message });
+    return true;
+  }
+  return false;
+}
+
+// Quote shipping for a cart. Body: { items: [{ set_id, quantity }], country?, subtotal? }
+router.post('/quote', async(req, res) => {
+  try {
+    const { items, country, subtotal } = req.body || {};
+    if (!Array.isArray(items)) {
+      return res.status(400).json({ error: 'items must be an array' });
+    }
+    const quote = await shippingService.quote({ items, country, subtotal });
+    res.json({ ...quote, countries: await shippingService.listCountries() });
+  } catch (error) {
+    if (sendShippingError(res, error)) {
+      return;
+    }
+    console.error('Error quoting shipping:', error);
+    res.status(500).json({ error: 'Failed to quote shipping' });
+  }
+});
+
+// Active parcel terminals for the checkout picker. Query: carrier?, country?, search?
+router.get('/terminals', async(req, res) => {
+  try {
+    const { carrier, country, search } = req.query;
+    res.json({ terminals: await shippingService.listTerminals({ carrier, country, search }) });
+  } catch (error) {
+    console.error('Error fetching parcel terminals:', error);
+    res.status(500).json({ error: 'Failed to fetch parcel terminals' });
+  }
+});
+
+// Terminal counts per carrier and country
+router.get('/terminals/summary', authenticateToken, requireAdmin, async(req, res) => {
+  try {
+    res.json({ summary: await shippingService.getTerminalSummary() });
+  } catch (error) {
+    console.error('Error fetching parcel terminal summary:', error);
+    res.status(500).json({ error: 'Failed to fetch parcel terminal summary' });
+  }
+});
+
+// Import a downloaded terminal list. Body: { carrier, content: JSON or CSV text, country?, replace? }
+router.post('/terminals/import', authenticateToken, requireAdmin, async(req, res) => {
+  try {
+    const { carrier, content, country, replace } = req.body || {};
+    const result = await shippingService.importTerminals({ carrier, content, defaultCountry: country, replace: Boolean(replace) });
+    res.json({ message: `Imported ${result.imported} parcel terminals`, ...result });
+  } catch (error) {
+    if (sendShippingError(res, error)) {
+      return;
+    }
+    console.error('Error importing parcel terminals:', error);
+    res.status(500).json({ error: 'Failed to import parcel terminals' });
+  }
+});
+
+// Daily shipping manifests, newest first, and the carrier adapters available
+router.get('/manifests', authenticateToken, requireRole(['admin', 'production']), async(req, res) => {
+  try {
+    res.json({ manifests: await shipmentService.listManifests(), carriers: listCarriers() });
+  } catch (error) {
+    console.error('Error fetching shipping manifests:', error);
+    res.status(500).json({ error: 'Failed to fetch shipping manifests' });
+  }
+});
+
+// A manifest PDF
+router.get('/manifests/:id/pdf', authenticateToken, requireRole(['admin', 'production']), async(req, res) => {
+  try {
+    const { manifest, content } = await shipmentService.getManifestPdf(req.params.id);
+    res.set('Content-Type', 'application/pdf');
+    res.set('Access-Control-Expose-Headers', 'Content-Disposition');
+    res.set('Content-Disposition', `${req.query.download ? 'attachment' : 'inline'}; filename="${manifest.manifest_number}.pdf"`);
+    res.send(content);
+  } catch (error) {
+    if (sendShippingError(res, error)) {
+      return;
+    }
+    console.error('Error fetching shipping manifest:', error);
+    res.status(500).json({ error: 'Failed to fetch shipping manifest' });
+  }
+});
+
+// Shipping zones with their rates, inactive ones included
+router.get('/zones', authenticateToken, requireAdmin, async(req, res) => {
+  try {
+    res.json({ zones: await shippingService.listZones({ includeInactive: true }) });
+  } catch (error) {
+    console.error('Error fetching shipping zones:', error);
+    res.status(500).json({ error: 'Failed to fetch shipping zones' });
+  }
+});
+
+// Create a zone. Body: { code, name, countries: 'EE,LV' | ['EE', 'LV'] | '*', is_active?, sort_order? }
+router.post('/zones', authenticateToken, requireAdmin, async(req, res) => {
+  try {
+    const zone = await shippingService.createZone(req.body);
+    res.status(201).json({ message: 'Shipping zone created', zone });
+  } catch (error) {
+    if (sendShippingError(res, error)) {
+      return;
+    }
+    console.error('Error creating shipping zone:', error);
+    res.status(500).json({ error: 'Failed to create shipping zone' });
+  }
+});
+
+// Update a zone
+router.put('/zones/:id', authenticateToken, requireAdmin, async(req, res) => {
+  try {
+    const zone = await shippingService.updateZone(req.params.id, req.body);
+    res.json({ message: 'Shipping zone updated', zone });
+  } catch (error) {
+    if (sendShippingError(res, error)) {
+      return;
+    }
+    console.error('Error updating shipping zone:', error);
+    res.status(500).json({ error: 'Failed to update shipping zone' });
+  }
+});
+
+// Delete a zone with its rates
+router.delete('/zones/:id', authenticateToken, requireAdmin, async(req, res) => {
+  try {
+    const zone = await shippingService.deleteZone(req.params.id);
+    res.json({ message: 'Shipping zone deleted', zone });
+  } catch (error) {
+    if (sendShippingError(res, error)) {
+      return;
+    }
+    console.error('Error deleting shipping zone:', error);
+    res.status(500).json({ error: 'Failed to delete shipping zone' });
+  }
+});
+
+// Create a rate. Body: { zone_id, name, carrier?, service_level: economy|standard|express, delivery_type?: courier|terminal, base_price,
+// price_per_kg?, max_weight_g?, max_length_mm?, free_over?, delivery_days_min?, delivery_days_max?, is_active? }
+router.post('/rates', authenticateToken, requireAdmin, async(req, res) => {
+  try {
+    const rate = await shippingService.createRate(req.body);
+    res.status(201).json({ message: 'Shipping rate created', rate });
+  } catch (error) {
+    if (sendShippingError(res, error)) {
+      return;
+    }
+    console.error('Error creating shipping rate:', error);
+    res.status(500).json({ error: 'Failed to create shipping rate' });
+  }
+});
+
+// Update a rate
+router.put('/rates/:id', authenticateToken, requireAdmin, async(req, res) => {
+  try {
+    const rate = await shippingService.updateRate(req.params.id, req.body);
+    res.json({ message: 'Shipping rate updated', rate });
+  } catch (error) {
+    if (sendShippingError(res, error)) {
+      return;
+    }
+    console.error('Error updating shipping rate:', error);
+    res.status(500).json({ error: 'Failed to update shipping rate' });
+  }
+});
+
+// Delete a rate
+router.delete('/rates/:id', authenticateToken, requireAdmin, async(req, res) => {
+  try {
+    const rate = await shippingService.deleteRate(req.params.id);
+    res.json({ message: 'Shipping rate deleted', rate });
+  } catch (error) {
+    if (sendShippingError(res, error)) {
+      return;
+    }
+    console.error('Error deleting shipping rate:', error);
+    res.status(500).json({ error: 'Failed to delete shipping rate' });
+  }
+});
+
+module.exports = router;
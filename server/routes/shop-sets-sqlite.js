@@ -3,6 +3,7 @@ const path = require('path');
 const router = express.Router();
 const db = require('../models/database');
 const connectionManager = require('../utils/sqliteConnectionManager');
+const setAvailabilityService = require('../services/setAvailabilityService');
 
 /**
  * GET /api/shop-sets
@@ -94,18 +95,9 @@ router.get('/', async (req, res) => {
         (SELECT AVG(rating) FROM ratings WHERE set_id = s.set_id) as average_rating,
         (SELECT review_text FROM ratings WHERE set_id = s.set_id ORDER BY created_at DESC LIMIT 1) as latest_review_text,
         (SELECT (COALESCE(u.first_name,'') || ' ' || COALESCE(u.last_name,'')) FROM ratings r JOIN users u ON r.user_id = u.user_id WHERE r.set_id = s.set_id ORDER BY r.created_at DESC LIMIT 1) as latest_reviewer_name,
-        COALESCE(
-          ps.available_quantity,
-          (SELECT MIN(FLOOR(p.stock_quantity / sp.quantity))
-           FROM set_parts sp
-           JOIN parts p ON sp.part_id = p.part_id
-           WHERE sp.set_id = s.set_id AND sp.is_optional = 0 AND p.stock_quantity > 0
-          ), 0
-        ) as available_quantity,
         ps.provider_set_id,
         ps.provider_id,
         ps.price as provider_price,
-        ps.available_quantity as provider_available_quantity,
         ps.provider_visible,
         CASE 
           WHEN ps.provider_set_id IS NOT NULL THEN ps.admin_visible 
@@ -155,8 +147,9 @@ router.get('/', async (req, res) => {
 
     console.log(`🔍 Filtered to ${filteredSets.length} sets after admin visibility check`);
 
-    // Add set_type field based on whether there's a provider_sets entry
-    const setsWithType = filteredSets.map(set => ({
+    // Buildable quantity from the bill of materials; set_type from whether there's a provider_sets entry
+    const setsWithAvailability = await setAvailabilityService.attachAvailability(filteredSets);
+    const setsWithType = setsWithAvailability.map(set => ({
       ...set,
       set_type: set.provider_set_id ? 'provider' : 'admin',
       price: set.provider_price || set.base_price || 0,
@@ -274,7 +267,8 @@ router.get('/:id', async (req, res) => {
       });
     }
 
-    const set = setResult.rows[0];
+    // Buildable quantity and the part that limits it, from the bill of materials
+    const [set] = await setAvailabilityService.attachAvailability(setResult.rows);
 
     // Get parts for this set
     const partsQuery = `
@@ -0,0 +1,168 @@
+const express = require('express');
+const router = express.Router();
+const stocktakeService = require('../services/stocktakeService');
+const { authenticateToken, requireRole } = require('../middleware/auth');
+
+// Production staff count stock; approving and posting variances is for admins
+router.use(authenticateToken, requireRole(['admin', 'production']));
+const requireAdminRole = requireRole(['admin']);
+
+// Map stocktake service errors to 400 / 404; returns false for unexpected errors
+function sendStocktakeError(res, error) {
+  if (error.name === 'ValidationError') {
+    res.status(400).json({ error: error.message });
+    return true;
+  }
+  if (error.name === 'NotFoundError') {
+    res.status(404).json({ error: error.message });
+    return true;
+  }
+  return false;
+}
+
+function userIdOf(req) {
+  return req.user.user_id ?? req.user.userId;
+}
+
+// Get all stocktakes
+// Query: page, limit, status (counting/review/posted/cancelled)
+router.get('/', async(req, res) => {
+  try {
+    const { page, limit, status } = req.query;
+    res.json(await stocktakeService.listStocktakes({ page, limit, status }));
+  } catch (error) {
+    if (sendStocktakeError(res, error)) {
+      return;
+    }
+    console.error('Error fetching stocktakes:', error);
+    res.status(500).json({ error: 'Failed to fetch stocktakes' });
+  }
+});
+
+// Get stocktake by ID with its lines, variances and value impact. Query: variance_only=true
+router.get('/:id', async(req, res) => {
+  try {
+    res.json(await stocktakeService.getStocktake(req.params.id, { varianceOnly: req.query.variance_only === 'true' }));
+  } catch (error) {
+    if (sendStocktakeError(res, error)) {
+      return;
+    }
+    console.error('Error fetching stocktake:', error);
+    res.status(500).json({ error: 'Failed to fetch stocktake' });
+  }
+});
+
+// Start a stocktake, freezing the expected stock. Body: { scope: parts|tools|all, location_id?, category?, name?, notes? }
+router.post('/', async(req, res) => {
+  try {
+    const stocktake = await stocktakeService.createStocktake(req.body || {}, userIdOf(req));
+    res.status(201).json({ message: 'Stocktake started', stocktake });
+  } catch (error) {
+    if (sendStocktakeError(res, error)) {
+      return;
+    }
+    console.error('Error creating stocktake:', error);
+    res.status(500).json({ error: 'Failed to start stocktake' });
+  }
+});
+
+// Batch entry of counted quantities
+// Body: { counts: [{ line_id | part_id | tool_id | code, counted_quantity, location_id?, location?, notes? }] }
+router.put('/:id/counts', async(req, res) => {
+  try {
+    const stocktake = await stocktakeService.recordCounts(req.params.id, (req.body || {}).counts, userIdOf(req));
+    res.json({ message: 'Counts saved', stocktake });
+  } catch (error) {
+    if (sendStocktakeError(res, error)) {
+      return;
+    }
+    console.error('Error saving stocktake counts:', error);
+    res.status(500).json({ error: 'Failed to save counts' });
+  }
+});
+
+// Scanner input: adds quantity (default 1) to the count of the scanned part or tool number
+// Body: { code, quantity?, location? }
+router.post('/:id/scan', async(req, res) => {
+  try {
+    res.json({ line: await stocktakeService.scan(req.params.id, req.body || {}, userIdOf(req)) });
+  } catch (error) {
+    if (sendStocktakeError(res, error)) {
+      return;
+    }
+    console.error('Error recording stocktake scan:', error);
+    res.status(500).json({ error: 'Failed to record scan' });
+  }
+});
+
+// Finish counting and send the variances to review
+router.post('/:id/submit', async(req, res) => {
+  try {
+    const stocktake = await stocktakeService.submitStocktake(req.params.id);
+    res.json({ message: 'Stocktake submitted for review', stocktake });
+  } catch (error) {
+    if (sendStocktakeError(res, error)) {
+      return;
+    }
+    console.error('Error submitting stocktake:', error);
+    res.status(500).json({ error: 'Failed to submit stocktake' });
+  }
+});
+
+// Reopen a stocktake in review for recounting
+router.post('/:id/reopen', async(req, res) => {
+  try {
+    const stocktake = await stocktakeService.reopenStocktake(req.params.id);
+    res.json({ message: 'Stocktake reopened for counting', stocktake });
+  } catch (error) {
+    if (sendStocktakeError(res, error)) {
+      return;
+    }
+    console.error('Error reopening stocktake:', error);
+    res.status(500).json({ error: 'Failed to reopen stocktake' });
+  }
+});
+
+// Approve or reject variances. Body: { line_ids?: number[], approved: boolean } (no line_ids = all variances)
+router.post('/:id/review', requireAdminRole, async(req, res) => {
+  try {
+    const stocktake = await stocktakeService.reviewLines(req.params.id, req.body || {});
+    res.json({ message: 'Variances reviewed', stocktake });
+  } catch (error) {
+    if (sendStocktakeError(res, error)) {
+      return;
+    }
+    console.error('Error reviewing stocktake:', error);
+    res.status(500).json({ error: 'Failed to review variances' });
+  }
+});
+
+// Post the approved variances into stock as one batch
+router.post('/:id/post', requireAdminRole, async(req, res) => {
+  try {
+    const stocktake = await stocktakeService.postStocktake(req.params.id, userIdOf(req));
+    res.json({ message: 'Stocktake posted', stocktake });
+  } catch (error) {
+    if (sendStocktakeError(res, error)) {
+      return;
+    }
+    console.error('Error posting stocktake:', error);
+    res.status(500).json({ error: 'Failed to post stocktake' });
+  }
+});
+
+// Cancel a stocktake that has not been posted
+router.post('/:id/cancel', requireAdminRole, async(req, res) => {
+  try {
+    const stocktake = await stocktakeService.cancelStocktake(req.params.id);
+    res.json({ message: 'Stocktake cancelled', stocktake });
+  } catch (error) {
+    if (sendStocktakeError(res, error)) {
+      return;
+    }
+    console.error('Error cancelling stocktake:', error);
+    res.status(500).json({ error: 'Failed to cancel stocktake' });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,91 @@
+const express = require('express');
+const router = express.Router();
+const stockLocationService = require('../services/stockLocationService');
+const { authenticateToken, requireRole } = require('../middleware/auth');
+
+router.use(authenticateToken, requireRole(['admin', 'production']));
+
+// Map stock location service errors to 400 / 404 / 409; returns false for unexpected errors
+function sendLocationError(res, error) {
+  if (error.name === 'ValidationError') {
+    res.status(400).json({ error: error.message });
+    return true;
+  }
+  if (error.name === 'NotFoundError') {
+    res.status(404).json({ error: error.message });
+    return true;
+  }
+  if (error.name === 'ConflictError') {
+    res.status(409).json({ error: error.message });
+    return true;
+  }
+  return false;
+}
+
+// Get all storage locations with their path and stock held. Query: include_inactive=true
+router.get('/', async(req, res) => {
+  try {
+    const locations = await stockLocationService.listLocations({ includeInactive: req.query.include_inactive === 'true' });
+    res.json({ locations });
+  } catch (error) {
+    console.error('Error fetching storage locations:', error);
+    res.status(500).json({ error: 'Failed to fetch storage locations' });
+  }
+});
+
+// Parts held at a location
+router.get('/:id/stock', async(req, res) => {
+  try {
+    res.json({ stock: await stockLocationService.getLocationStock(req.params.id) });
+  } catch (error) {
+    if (sendLocationError(res, error)) {
+      return;
+    }
+    console.error('Error fetching location stock:', error);
+    res.status(500).json({ error: 'Failed to fetch location stock' });
+  }
+});
+
+// Create a location. Body: { code, name, location_type: room|warehouse|bin, parent_id?, pick_sequence?, notes? }
+router.post('/', async(req, res) => {
+  try {
+    const location = await stockLocationService.createLocation(req.body);
+    res.status(201).json({ message: 'Location created', location });
+  } catch (error) {
+    if (sendLocationError(res, error)) {
+      return;
+    }
+    console.error('Error creating storage location:', error);
+    res.status(500).json({ error: 'Failed to create location' });
+  }
+});
+
+// Update a location
+router.put('/:id', async(req, res) => {
+  try {
+    const location = await stockLocationService.updateLocation(req.params.id, req.body);
+    res.json({ message: 'Location updated', location });
+  } catch (error) {
+    if (sendLocationError(res, error)) {
+      return;
+    }
+    console.error('Error updating storage location:', error);
+    res.status(500).json({ error: 'Failed to update location' });
+  }
+});
+
+// Deactivate an empty location
+router.delete('/:id', async(req, res) => {
+  try {
+    const location = await stockLocationService.deactivateLocation(req.params.id);
+    res.json({ message: 'Location deactivated', location });
+  } catch (error) {
+    if (sendLocationError(res, error)) {
+      return;
+    }
+    console.error('Error deactivating storage location:', error);
+    res.status(500).json({ error: 'Failed to deactivate location' });
+  }
+});
+
+module.exports = router;
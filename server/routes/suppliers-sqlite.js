@@ -0,0 +1,106 @@
+const express = require('express');
+const router = express.Router();
+const supplierService = require('../services/supplierService');
+const { authenticateToken, requireRole } = require('../middleware/auth');
+
+// Suppliers are part of purchasing: admin and production staff only
+router.use(authenticateToken, requireRole(['admin', 'production']));
+
+// Map supplier service errors to 400 / 404; returns false for unexpected errors
+function sendSupplierError(res, error) {
+  if (error.name === 'ValidationError') {
+    res.status(400).json({ error: error.message });
+    return true;
+  }
+  if (error.name === 'NotFoundError') {
+    res.status(404).json({ error: error.message });
+    return true;
+  }
+  return false;
+}
+
+// Get all suppliers
+// Query: search, include_inactive
+router.get('/', async(req, res) => {
+  try {
+    const suppliers = await supplierService.listSuppliers({
+      search: req.query.search,
+      includeInactive: req.query.include_inactive === 'true',
+    });
+    res.json(suppliers);
+  } catch (error) {
+    console.error('Error fetching suppliers:', error);
+    res.status(500).json({ error: 'Failed to fetch suppliers' });
+  }
+});
+
+// Get supplier by ID, with its parts
+router.get('/:id', async(req, res) => {
+  try {
+    res.json(await supplierService.getSupplier(req.params.id));
+  } catch (error) {
+    if (sendSupplierError(res, error)) {
+      return;
+    }
+    console.error('Error fetching supplier:', error);
+    res.status(500).json({ error: 'Failed to fetch supplier' });
+  }
+});
+
+// Create supplier
+router.post('/', async(req, res) => {
+  try {
+    const supplier = await supplierService.createSupplier(req.body);
+    res.status(201).json({ message: 'Supplier created successfully', supplier });
+  } catch (error) {
+    if (sendSupplierError(res, error)) {
+      return;
+    }
+    console.error('Error creating supplier:', error);
+    res.status(500).json({ error: 'Failed to create supplier' });
+  }
+});
+
+// Update supplier (renaming also renames the supplier on its parts)
+router.put('/:id', async(req, res) => {
+  try {
+    const supplier = await supplierService.updateSupplier(req.params.id, req.body);
+    res.json({ message: 'Supplier updated successfully', supplier });
+  } catch (error) {
+    if (sendSupplierError(res, error)) {
+      return;
+    }
+    console.error('Error updating supplier:', error);
+    res.status(500).json({ error: 'Failed to update supplier' });
+  }
+});
+
+// Link parts to this supplier. Body: { part_ids: number[] }
+router.post('/:id/parts', async(req, res) => {
+  try {
+    const supplier = await supplierService.assignParts(req.params.id, req.body.part_ids);
+    res.json({ message: 'Parts linked to supplier', supplier });
+  } catch (error) {
+    if (sendSupplierError(res, error)) {
+      return;
+    }
+    console.error('Error linking parts to supplier:', error);
+    res.status(500).json({ error: 'Failed to link parts to supplier' });
+  }
+});
+
+// Delete a supplier without purchase orders
+router.delete('/:id', async(req, res) => {
+  try {
+    await supplierService.deleteSupplier(req.params.id);
+    res.json({ message: 'Supplier deleted successfully' });
+  } catch (error) {
+    if (sendSupplierError(res, error)) {
+      return;
+    }
+    console.error('Error deleting supplier:', error);
+    res.status(500).json({ error: 'Failed to delete supplier' });
+  }
+});
+
+module.exports = router;
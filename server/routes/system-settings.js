@@ -8,6 +8,71 @@ const express = require('express');
 const router = express.Router();
 const systemSettingsService = require('../services/systemSettingsService');
 const { authenticateToken, requireAdmin } = require('../middleware/auth');
+const { SETTINGS_SCHEMA, describeSchema } = require('../utils/settingsSchema');
+
+// Map settings service errors to 400 / 403; returns false for unexpected errors
+function sendSettingsError(res, error) {
+  if (error.name === 'ValidationError' || error.name === 'ForbiddenError') {
+    res.status(error.name === 'ValidationError' ? 400 : 403).json({
+      success: false,
+      error: error.message,
+      details: error.details || []
+    });
+    return true;
+  }
+  return false;
+}
+
+// Settings change history (?key= to filter, ?limit=)
+router.get('/settings/history', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { key, limit = 50 } = req.query;
+    const history = await systemSettingsService.getSettingsHistory({ key: key || null, limit: parseInt(limit) || 50 });
+    res.json({
+      success: true,
+      data: history,
+      message: 'Settings history retrieved successfully'
+    });
+  } catch (error) {
+    console.error('Error fetching settings history:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch settings history',
+      details: error.message
+    });
+  }
+});
+
+// Declared settings: type, range, allowed values, default, secret flag and roles
+router.get('/settings/schema', authenticateToken, requireAdmin, (req, res) => {
+  res.json({
+    success: true,
+    data: describeSchema(),
+    message: 'Settings schema retrieved successfully'
+  });
+});
+
+// Restore a setting to the value it had at a version (0 = before its first change)
+router.post('/settings/:key/rollback', authenticateToken, async (req, res) => {
+  try {
+    const result = await systemSettingsService.rollbackSetting(req.params.key, req.body.version, req.user);
+    res.json({
+      success: true,
+      data: result,
+      message: `${req.params.key} restored to version ${req.body.version}`
+    });
+  } catch (error) {
+    if (sendSettingsError(res, error)) {
+      return;
+    }
+    console.error('Error rolling back setting:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to roll back setting',
+      details: error.message
+    });
+  }
+});
 
 // Get a single setting by key (public, no auth required for certain settings)
 router.get('/settings/:key', async (req, res) => {
@@ -18,7 +83,7 @@ router.get('/settings/:key', async (req, res) => {
     const query = 'SELECT * FROM system_settings WHERE setting_key = ?';
     const { rows } = await connectionManager.query(query, [key]);
     
-    if (!rows || rows.length === 0) {
+    if (!rows || rows.length === 0 || (SETTINGS_SCHEMA[key] && SETTINGS_SCHEMA[key].secret)) {
       return res.status(404).json({ 
         success: false,
         error: 'Setting not found',
@@ -63,17 +128,20 @@ router.get('/settings', authenticateToken, requireAdmin, async (req, res) => {
   }
 });
 
-// Update system settings
-router.put('/settings', authenticateToken, requireAdmin, async (req, res) => {
+// Update system settings (validated against the settings schema, including which roles may change each key)
+router.put('/settings', authenticateToken, async (req, res) => {
   try {
     const settings = req.body;
-    const result = await systemSettingsService.updateSettings(settings);
+    const result = await systemSettingsService.updateSettings(settings, req.user);
     res.json({
       success: true,
       data: result,
       message: 'System settings updated successfully'
     });
   } catch (error) {
+    if (sendSettingsError(res, error)) {
+      return;
+    }
     console.error('Error updating system settings:', error);
     res.status(500).json({
       success: false,
@@ -118,6 +186,10 @@ router.post('/restore/:backupId', authenticateToken, requireAdmin, async (req, r
       message: 'Database restored successfully'
     });
   } catch (error) {
+    // Missing archive or failed integrity check: 400 with the problems found
+    if (sendSettingsError(res, error)) {
+      return;
+    }
     console.error('Error restoring backup:', error);
     res.status(500).json({
       success: false,
@@ -127,6 +199,24 @@ router.post('/restore/:backupId', authenticateToken, requireAdmin, async (req, r
   }
 });
 
+// Download a backup archive (.tar.gz); its sha256 is listed in the backup history
+router.get('/backups/:backupId/download', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { filePath, fileName } = await systemSettingsService.getBackupFile(req.params.backupId);
+    res.download(filePath, fileName);
+  } catch (error) {
+    if (sendSettingsError(res, error)) {
+      return;
+    }
+    console.error('Error downloading backup:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to download backup',
+      details: error.message
+    });
+  }
+});
+
 // Get backup history
 router.get('/backups', authenticateToken, requireAdmin, async (req, res) => {
   try {
@@ -0,0 +1,136 @@
+const express = require('express');
+const router = express.Router();
+const toolMaintenanceService = require('../services/toolMaintenanceService');
+const { authenticateToken, requireRole } = require('../middleware/auth');
+
+router.use(authenticateToken, requireRole(['admin', 'production']));
+
+// Map tool maintenance service errors to 400 / 404 / 409; returns false for unexpected errors
+function sendMaintenanceError(res, error) {
+  if (error.name === 'ValidationError') {
+    res.status(400).json({ error: error.message });
+    return true;
+  }
+  if (error.name === 'NotFoundError') {
+    res.status(404).json({ error: error.message });
+    return true;
+  }
+  if (error.name === 'ConflictError') {
+    res.status(409).json({ error: error.message });
+    return true;
+  }
+  return false;
+}
+
+function userIdOf(req) {
+  return req.user.user_id ?? req.user.userId;
+}
+
+// All active tools with their maintenance plans, open check-out and availability
+router.get('/overview', async(req, res) => {
+  try {
+    res.json({ tools: await toolMaintenanceService.getOverview() });
+  } catch (error) {
+    console.error('Error fetching tool maintenance overview:', error);
+    res.status(500).json({ error: 'Failed to fetch tool maintenance overview' });
+  }
+});
+
+// Plans, maintenance log and check-outs of one tool
+router.get('/tools/:id', async(req, res) => {
+  try {
+    res.json(await toolMaintenanceService.getToolMaintenance(req.params.id));
+  } catch (error) {
+    if (sendMaintenanceError(res, error)) {
+      return;
+    }
+    console.error('Error fetching tool maintenance:', error);
+    res.status(500).json({ error: 'Failed to fetch tool maintenance' });
+  }
+});
+
+// Add a maintenance plan. Body: { name, interval_days?, interval_uses?, last_performed_at?, notes? }
+router.post('/tools/:id/plans', async(req, res) => {
+  try {
+    const plan = await toolMaintenanceService.createPlan(req.params.id, req.body);
+    res.status(201).json({ message: 'Maintenance plan created', plan });
+  } catch (error) {
+    if (sendMaintenanceError(res, error)) {
+      return;
+    }
+    console.error('Error creating maintenance plan:', error);
+    res.status(500).json({ error: 'Failed to create maintenance plan' });
+  }
+});
+
+// Update a maintenance plan
+router.put('/plans/:planId', async(req, res) => {
+  try {
+    const plan = await toolMaintenanceService.updatePlan(req.params.planId, req.body);
+    res.json({ message: 'Maintenance plan updated', plan });
+  } catch (error) {
+    if (sendMaintenanceError(res, error)) {
+      return;
+    }
+    console.error('Error updating maintenance plan:', error);
+    res.status(500).json({ error: 'Failed to update maintenance plan' });
+  }
+});
+
+// Deactivate a maintenance plan (its log entries are kept)
+router.delete('/plans/:planId', async(req, res) => {
+  try {
+    const plan = await toolMaintenanceService.deactivatePlan(req.params.planId);
+    res.json({ message: 'Maintenance plan deactivated', plan });
+  } catch (error) {
+    if (sendMaintenanceError(res, error)) {
+      return;
+    }
+    console.error('Error deactivating maintenance plan:', error);
+    res.status(500).json({ error: 'Failed to deactivate maintenance plan' });
+  }
+});
+
+// Log maintenance. Body: { plan_id? (none = all plans), performed_at?, condition_status?, cost?, notes? }
+router.post('/tools/:id/log', async(req, res) => {
+  try {
+    const entry = await toolMaintenanceService.logMaintenance(req.params.id, req.body, userIdOf(req));
+    res.status(201).json({ message: 'Maintenance logged', entry });
+  } catch (error) {
+    if (sendMaintenanceError(res, error)) {
+      return;
+    }
+    console.error('Error logging maintenance:', error);
+    res.status(500).json({ error: 'Failed to log maintenance' });
+  }
+});
+
+// Check a tool out. Body: { order_id? | workshop?, due_back_at?, notes? }
+router.post('/tools/:id/check-out', async(req, res) => {
+  try {
+    const checkout = await toolMaintenanceService.checkOut(req.params.id, req.body, userIdOf(req));
+    res.status(201).json({ message: 'Tool checked out', checkout });
+  } catch (error) {
+    if (sendMaintenanceError(res, error)) {
+      return;
+    }
+    console.error('Error checking out tool:', error);
+    res.status(500).json({ error: 'Failed to check out tool' });
+  }
+});
+
+// Check a tool back in. Body: { condition_status?, notes? }
+router.post('/tools/:id/check-in', async(req, res) => {
+  try {
+    const checkout = await toolMaintenanceService.checkIn(req.params.id, req.body, userIdOf(req));
+    res.json({ message: 'Tool checked in', checkout });
+  } catch (error) {
+    if (sendMaintenanceError(res, error)) {
+      return;
+    }
+    console.error('Error checking in tool:', error);
+    res.status(500).json({ error: 'Failed to check in tool' });
+  }
+});
+
+module.exports = router;
@@ -1,6 +1,7 @@
 const express = require('express');
 const router = express.Router();
 const db = require('../models/database');
+const stockLocationService = require('../services/stockLocationService');
 
 // Get all tools with pagination and filtering
 router.get('/', async (req, res) => {
@@ -176,6 +177,7 @@ router.post('/', async (req, res) => {
       tool_type,
       condition_status,
       location,
+      location_id,
       purchase_date,
       last_maintenance_date,
       next_maintenance_date,
@@ -204,17 +206,20 @@ router.post('/', async (req, res) => {
       }
     }
     
+    // A storage location replaces the free-text location with its path
+    const locationText = location_id ? await stockLocationService.toolLocationText(location_id) : location;
+
     const query = `
       INSERT INTO tools (
-        tool_name, tool_number, category, tool_type, condition_status, location,
+        tool_name, tool_number, category, tool_type, condition_status, location, location_id,
         purchase_date, last_maintenance_date, next_maintenance_date,
         notes, image_url, safety_instructions, translations, active
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1)
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1)
     `;
 
     const result = await db.run(query, [
       tool_name, tool_number || '', category, tool_type || '', condition_status || 'good',
-      location || '', purchase_date || '', last_maintenance_date || '',
+      locationText || '', location_id || null, purchase_date || '', last_maintenance_date || '',
       next_maintenance_date || '', notes || '', image_url || '',
       safety_instructions || '', translationsJson
     ]);
@@ -227,6 +232,9 @@ router.post('/', async (req, res) => {
     });
 
   } catch (error) {
+    if (error.name === 'ValidationError' || error.name === 'NotFoundError') {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Error creating tool:', error);
     res.status(500).json({ error: 'Failed to create tool' });
   }
@@ -251,9 +259,23 @@ router.put('/:id', async (req, res) => {
 
     await db.query(query, [tool_name, description, category, image_url, id]);
 
+    // location_id: null clears the storage location, leaving the text as it was
+    if (Object.prototype.hasOwnProperty.call(req.body, 'location_id')) {
+      const { location_id } = req.body;
+      if (location_id) {
+        const locationText = await stockLocationService.toolLocationText(location_id);
+        await db.run('UPDATE tools SET location_id = ?, location = ? WHERE tool_id = ?', [location_id, locationText, id]);
+      } else {
+        await db.run('UPDATE tools SET location_id = NULL WHERE tool_id = ?', [id]);
+      }
+    }
+
     res.json({ message: 'Tool updated successfully' });
 
   } catch (error) {
+    if (error.name === 'ValidationError' || error.name === 'NotFoundError') {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Error updating tool:', error);
     res.status(500).json({ error: 'Failed to update tool' });
   }
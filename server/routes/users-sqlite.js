@@ -2,6 +2,10 @@ const express = require('express');
 const router = express.Router();
 const db = require('../models/database');
 const authenticateToken = require('../middleware/auth').authenticateToken;
+const { validateVatId } = require('../utils/vatEngine');
+const { validateIban, validateBic } = require('../utils/sepaPain001');
+
+const CUSTOMER_TYPES = ['private', 'business', 'education'];
 
 // Get current user profile
 router.get('/profile', authenticateToken, async (req, res) => {
@@ -14,6 +18,15 @@ router.get('/profile', authenticateToken, async (req, res) => {
         first_name,
         last_name,
         company_name,
+        phone,
+        address,
+        city,
+        postal_code,
+        country,
+        vat_id,
+        COALESCE(customer_type, 'private') as customer_type,
+        iban,
+        bic,
         role,
         created_at,
         updated_at,
@@ -37,6 +50,110 @@ router.get('/profile', authenticateToken, async (req, res) => {
   }
 });
 
+// Update current user profile (contact details, VAT information and payout bank account)
+router.put('/profile', authenticateToken, async (req, res) => {
+  try {
+    const userId = req.user.user_id ?? req.user.userId;
+    const {
+      first_name,
+      last_name,
+      company_name,
+      phone,
+      address,
+      city,
+      postal_code,
+      country,
+      vat_id,
+      customer_type,
+      iban,
+      bic
+    } = req.body;
+
+    if (customer_type !== undefined && !CUSTOMER_TYPES.includes(customer_type)) {
+      return res.status(400).json({ error: `customer_type must be one of: ${CUSTOMER_TYPES.join(', ')}` });
+    }
+
+    let vatIdValue = vat_id;
+    if (vat_id) {
+      const vat = validateVatId(vat_id);
+      if (!vat.valid) {
+        return res.status(400).json({ error: 'Invalid EU VAT ID format' });
+      }
+      vatIdValue = vat.vatId;
+    }
+
+    // Providers are paid out by SEPA transfer to this account
+    let ibanValue = iban;
+    if (iban) {
+      const account = validateIban(iban);
+      if (!account.valid) {
+        return res.status(400).json({ error: 'Invalid IBAN' });
+      }
+      ibanValue = account.iban;
+    }
+
+    let bicValue = bic;
+    if (bic) {
+      const bank = validateBic(bic);
+      if (!bank.valid) {
+        return res.status(400).json({ error: 'Invalid BIC' });
+      }
+      bicValue = bank.bic;
+    }
+
+    await db.run(`
+      UPDATE users
+      SET first_name = COALESCE(?, first_name),
+          last_name = COALESCE(?, last_name),
+          company_name = COALESCE(?, company_name),
+          phone = COALESCE(?, phone),
+          address = COALESCE(?, address),
+          city = COALESCE(?, city),
+          postal_code = COALESCE(?, postal_code),
+          country = COALESCE(?, country),
+          vat_id = COALESCE(?, vat_id),
+          customer_type = COALESCE(?, customer_type),
+          iban = COALESCE(?, iban),
+          bic = COALESCE(?, bic),
+          updated_at = CURRENT_TIMESTAMP
+      WHERE user_id = ?
+    `, [
+      first_name ?? null,
+      last_name ?? null,
+      company_name ?? null,
+      phone ?? null,
+      address ?? null,
+      city ?? null,
+      postal_code ?? null,
+      country ?? null,
+      vatIdValue ?? null,
+      customer_type ?? null,
+      ibanValue ?? null,
+      bicValue ?? null,
+      userId
+    ]);
+
+    // The client replaces its user object with this response
+    const result = await db.query(`
+      SELECT user_id, email, username, first_name, last_name, company_name, phone, address, city,
+             postal_code, country, vat_id, COALESCE(customer_type, 'private') as customer_type, iban, bic, role,
+             created_at, last_login, COALESCE(provider_markup_percentage, 0) as provider_markup_percentage, provider_code
+      FROM users
+      WHERE user_id = ?
+    `, [userId]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    res.json(result.rows[0]);
+
+  } catch (error) {
+    console.error('Error updating user profile:', error);
+    res.status(500).json({ error: 'Failed to update user profile' });
+  }
+});
+
 // Get all users with pagination and filtering
 router.get('/', async (req, res) => {
   try {
@@ -94,6 +94,7 @@ function ensureSetsColumns() {
         { name: 'updated_at', def: 'TEXT DEFAULT CURRENT_TIMESTAMP' },
         { name: 'tested_by_makerset', def: 'INTEGER DEFAULT 0' },
         { name: 'admin_visible', def: 'INTEGER DEFAULT 1' },
+        { name: 'vat_category', def: "TEXT DEFAULT 'standard'" },
       ];
       const toAdd = required.filter((r) => !have.has(r.name));
       if (toAdd.length === 0) {
@@ -359,6 +360,10 @@ function ensureUsersColumns() {
         { name: 'postal_code', def: 'TEXT' },
         { name: 'country', def: 'TEXT' },
         { name: 'last_login', def: 'TEXT' },
+        { name: 'vat_id', def: 'TEXT' },
+        { name: 'customer_type', def: "TEXT DEFAULT 'private'" },
+        { name: 'iban', def: 'TEXT' },
+        { name: 'bic', def: 'TEXT' },
       ];
       const toAdd = required.filter((r) => !have.has(r.name));
       if (toAdd.length === 0) {
@@ -553,6 +558,1403 @@ function ensureInventoryTransactionsTable() {
   });
 }
 
+/** Add columns the order routes write that the base orders table lacks. */
+function ensureOrdersColumns() {
+  return new Promise((resolve, reject) => {
+    const db = connectionManager.getConnection();
+    db.all('PRAGMA table_info(orders)', [], (err, rows) => {
+      if (err) {
+        resolve();
+        return;
+      }
+      const have = new Set((rows || []).map((r) => r.name));
+      const required = [
+        { name: 'customer_phone', def: 'TEXT' },
+        { name: 'payment_method', def: 'TEXT' },
+        { name: 'payment_status', def: "TEXT DEFAULT 'pending'" },
+        { name: 'invoice_required', def: 'INTEGER DEFAULT 0' },
+        { name: 'invoice_generated', def: 'INTEGER DEFAULT 0' },
+        { name: 'set_type', def: 'TEXT' },
+        { name: 'billing_country', def: 'TEXT' },
+        { name: 'customer_vat_id', def: 'TEXT' },
+        { name: 'customer_type', def: 'TEXT' },
+        { name: 'refunded_amount', def: 'REAL DEFAULT 0' },
+        { name: 'payment_reference', def: 'TEXT' },
+        { name: 'payment_amount', def: 'REAL DEFAULT 0' },
+        { name: 'payment_confirmed_by', def: 'INTEGER' },
+        { name: 'payment_confirmed_at', def: 'TEXT' },
+        { name: 'packed_at', def: 'TEXT' },
+        { name: 'packed_by', def: 'INTEGER' },
+      ];
+      const toAdd = required.filter((r) => !have.has(r.name));
+      if (toAdd.length === 0) {
+        console.log('✅ orders table columns up to date');
+        resolve();
+        return;
+      }
+      let i = 0;
+      const next = () => {
+        if (i >= toAdd.length) {
+          console.log('✅ orders table columns updated');
+          resolve();
+          return;
+        }
+        const col = toAdd[i++];
+        db.run(`ALTER TABLE orders ADD COLUMN ${col.name} ${col.def}`, [], (alterErr) => {
+          if (alterErr && !String(alterErr.message).includes('duplicate column')) {
+            console.error(`❌ Failed adding orders.${col.name}:`, alterErr.message);
+            reject(alterErr);
+            return;
+          }
+          next();
+        });
+      };
+      next();
+    });
+  });
+}
+
+/** Create invoices table: immutable issued invoices (JSON snapshot + content hash). */
+function ensureInvoicesTable() {
+  return new Promise((resolve, reject) => {
+    const db = connectionManager.getConnection();
+    const sql = `CREATE TABLE IF NOT EXISTS invoices (
+      invoice_id INTEGER PRIMARY KEY AUTOINCREMENT,
+      invoice_number TEXT UNIQUE NOT NULL,
+      invoice_type TEXT NOT NULL DEFAULT 'order',
+      order_id INTEGER REFERENCES orders(order_id),
+      provider_id INTEGER REFERENCES users(user_id),
+      period TEXT,
+      issued_at TEXT NOT NULL,
+      currency TEXT DEFAULT 'EUR',
+      subtotal REAL NOT NULL,
+      tax_amount REAL NOT NULL DEFAULT 0,
+      total REAL NOT NULL,
+      snapshot TEXT NOT NULL,
+      content_hash TEXT NOT NULL,
+      html_path TEXT,
+      pdf_path TEXT,
+      created_by INTEGER,
+      created_at TEXT DEFAULT (datetime('now'))
+    )`;
+    db.run(sql, [], (err) => {
+      if (err) {
+        console.error('❌ invoices table create failed:', err.message);
+        reject(err);
+        return;
+      }
+      db.run('CREATE INDEX IF NOT EXISTS idx_invoices_order_id ON invoices(order_id)', [], (indexErr) => {
+        if (indexErr) {
+          reject(indexErr);
+          return;
+        }
+        // One invoice per order, also when two requests issue it at the same time (credit notes share the order_id)
+        db.run(
+          'CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_order_invoice ON invoices(order_id) WHERE invoice_type = \'order\'',
+          [],
+          (uniqueErr) => {
+            if (uniqueErr) {
+              // Issued invoices are never changed, so duplicates from before the index have to be sorted out by hand
+              console.warn('⚠️ Orders with more than one invoice; one invoice per order is not enforced:', uniqueErr.message);
+            }
+            console.log('✅ invoices table ensured');
+            resolve();
+          }
+        );
+      });
+    });
+  });
+}
+
+/**
+ * Create credit_note_lines: what each credit note refunds per order item, so
+ * partial refunds can never exceed the invoiced quantity or amount.
+ */
+function ensureCreditNoteLinesTable() {
+  return new Promise((resolve, reject) => {
+    const db = connectionManager.getConnection();
+    const sql = `CREATE TABLE IF NOT EXISTS credit_note_lines (
+      credit_note_line_id INTEGER PRIMARY KEY AUTOINCREMENT,
+      invoice_id INTEGER NOT NULL REFERENCES invoices(invoice_id),
+      order_id INTEGER NOT NULL REFERENCES orders(order_id),
+      order_item_id INTEGER NOT NULL REFERENCES order_items(order_item_id),
+      quantity REAL NOT NULL,
+      amount REAL NOT NULL,
+      restocked INTEGER DEFAULT 0,
+      created_at TEXT DEFAULT (datetime('now'))
+    )`;
+    db.run(sql, [], (err) => {
+      if (err) {
+        console.error('❌ credit_note_lines table create failed:', err.message);
+        reject(err);
+        return;
+      }
+      db.run('CREATE INDEX IF NOT EXISTS idx_credit_note_lines_order_id ON credit_note_lines(order_id)', [], (indexErr) => {
+        if (indexErr) {
+          reject(indexErr);
+        } else {
+          console.log('✅ credit_note_lines table ensured');
+          resolve();
+        }
+      });
+    });
+  });
+}
+
+/**
+ * Create bank statement import tables. Imported transactions wait in
+ * bank_transactions for review; confirming one records how it was allocated
+ * to orders in bank_transaction_allocations. dedupe_key stops the same
+ * statement line being imported twice.
+ */
+function ensureBankImportTables() {
+  return new Promise((resolve, reject) => {
+    const db = connectionManager.getConnection();
+    const statements = [
+      `CREATE TABLE IF NOT EXISTS bank_imports (
+        import_id INTEGER PRIMARY KEY AUTOINCREMENT,
+        filename TEXT,
+        format TEXT NOT NULL,
+        statement_id TEXT,
+        account TEXT,
+        transaction_count INTEGER DEFAULT 0,
+        duplicate_count INTEGER DEFAULT 0,
+        imported_by INTEGER REFERENCES users(user_id),
+        imported_at TEXT DEFAULT (datetime('now'))
+      )`,
+      `CREATE TABLE IF NOT EXISTS bank_transactions (
+        transaction_id INTEGER PRIMARY KEY AUTOINCREMENT,
+        import_id INTEGER NOT NULL REFERENCES bank_imports(import_id),
+        dedupe_key TEXT UNIQUE NOT NULL,
+        booking_date TEXT NOT NULL,
+        amount REAL NOT NULL,
+        currency TEXT DEFAULT 'EUR',
+        counterparty_name TEXT,
+        counterparty_account TEXT,
+        reference TEXT,
+        description TEXT,
+        bank_reference TEXT,
+        status TEXT NOT NULL DEFAULT 'pending',
+        reviewed_by INTEGER REFERENCES users(user_id),
+        reviewed_at TEXT,
+        review_note TEXT,
+        created_at TEXT DEFAULT (datetime('now'))
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_bank_transactions_status ON bank_transactions(status)',
+      `CREATE TABLE IF NOT EXISTS bank_transaction_allocations (
+        allocation_id INTEGER PRIMARY KEY AUTOINCREMENT,
+        transaction_id INTEGER NOT NULL REFERENCES bank_transactions(transaction_id),
+        order_id INTEGER NOT NULL REFERENCES orders(order_id),
+        amount REAL NOT NULL,
+        created_at TEXT DEFAULT (datetime('now'))
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_bank_transaction_allocations_order_id ON bank_transaction_allocations(order_id)',
+    ];
+    let i = 0;
+    const next = () => {
+      if (i >= statements.length) {
+        console.log('✅ bank import tables ensured');
+        resolve();
+        return;
+      }
+      db.run(statements[i++], [], (err) => {
+        if (err) {
+          console.error('❌ bank import tables create failed:', err.message);
+          reject(err);
+          return;
+        }
+        next();
+      });
+    };
+    next();
+  });
+}
+
+function ensurePayoutBatchTables() {
+  return new Promise((resolve, reject) => {
+    const db = connectionManager.getConnection();
+    const statements = [
+      `CREATE TABLE IF NOT EXISTS payout_batches (
+        batch_id INTEGER PRIMARY KEY AUTOINCREMENT,
+        batch_reference TEXT UNIQUE,
+        period TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'draft',
+        currency TEXT DEFAULT 'EUR',
+        total_amount REAL NOT NULL DEFAULT 0,
+        payment_count INTEGER NOT NULL DEFAULT 0,
+        execution_date TEXT,
+        message_id TEXT,
+        pain001_xml TEXT,
+        created_by INTEGER REFERENCES users(user_id),
+        created_at TEXT DEFAULT (datetime('now')),
+        approved_by INTEGER REFERENCES users(user_id),
+        approved_at TEXT,
+        paid_at TEXT
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_payout_batches_period ON payout_batches(period)',
+      `CREATE TABLE IF NOT EXISTS payout_batch_items (
+        item_id INTEGER PRIMARY KEY AUTOINCREMENT,
+        batch_id INTEGER NOT NULL REFERENCES payout_batches(batch_id),
+        provider_id INTEGER NOT NULL REFERENCES users(user_id),
+        provider_name TEXT,
+        amount REAL NOT NULL,
+        iban TEXT,
+        bic TEXT,
+        end_to_end_id TEXT,
+        remittance_info TEXT,
+        created_at TEXT DEFAULT (datetime('now'))
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_payout_batch_items_batch_id ON payout_batch_items(batch_id)',
+    ];
+    let i = 0;
+    const next = () => {
+      if (i >= statements.length) {
+        console.log('✅ payout batch tables ensured');
+        resolve();
+        return;
+      }
+      db.run(statements[i++], [], (err) => {
+        if (err) {
+          console.error('❌ payout batch tables create failed:', err.message);
+          reject(err);
+          return;
+        }
+        next();
+      });
+    };
+    next();
+  });
+}
+
+function ensureSystemSettingsAuditTable() {
+  return new Promise((resolve, reject) => {
+    const db = connectionManager.getConnection();
+    const statements = [
+      `CREATE TABLE IF NOT EXISTS system_settings_audit (
+        audit_id INTEGER PRIMARY KEY AUTOINCREMENT,
+        setting_key TEXT NOT NULL,
+        version INTEGER,
+        old_value TEXT,
+        new_value TEXT,
+        changed_by INTEGER REFERENCES users(user_id),
+        changed_at TEXT DEFAULT (datetime('now')),
+        rollback_to INTEGER
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_system_settings_audit_key ON system_settings_audit(setting_key)',
+    ];
+    let i = 0;
+    const next = () => {
+      if (i >= statements.length) {
+        console.log('✅ system_settings_audit table ensured');
+        resolve();
+        return;
+      }
+      db.run(statements[i++], [], (err) => {
+        if (err) {
+          console.error('❌ system_settings_audit create failed:', err.message);
+          reject(err);
+          return;
+        }
+        next();
+      });
+    };
+    next();
+  });
+}
+
+/** Per-key version numbers for settings history (rows written before versions were added get numbered in order). */
+function ensureSystemSettingsAuditColumns() {
+  return new Promise((resolve, reject) => {
+    const db = connectionManager.getConnection();
+    db.all('PRAGMA table_info(system_settings_audit)', [], (err, rows) => {
+      if (err) {
+        resolve();
+        return;
+      }
+      const have = new Set((rows || []).map((r) => r.name));
+      const required = [
+        { name: 'version', def: 'INTEGER' },
+        { name: 'rollback_to', def: 'INTEGER' },
+      ];
+      const toAdd = required.filter((r) => !have.has(r.name));
+      let i = 0;
+      const next = () => {
+        if (i >= toAdd.length) {
+          db.run(`UPDATE system_settings_audit SET version = (
+              SELECT COUNT(*) FROM system_settings_audit earlier
+              WHERE earlier.setting_key = system_settings_audit.setting_key
+                AND earlier.audit_id <= system_settings_audit.audit_id
+            ) WHERE version IS NULL`, [], (updateErr) => {
+            if (updateErr) {
+              console.error('❌ system_settings_audit version backfill failed:', updateErr.message);
+              reject(updateErr);
+              return;
+            }
+            console.log('✅ system_settings_audit columns up to date');
+            resolve();
+          });
+          return;
+        }
+        const col = toAdd[i++];
+        db.run(`ALTER TABLE system_settings_audit ADD COLUMN ${col.name} ${col.def}`, [], (alterErr) => {
+          if (alterErr && !String(alterErr.message).includes('duplicate column')) {
+            console.error(`❌ Failed adding system_settings_audit.${col.name}:`, alterErr.message);
+            reject(alterErr);
+            return;
+          }
+          next();
+        });
+      };
+      next();
+    });
+  });
+}
+
+/**
+ * Purchase receipts post stock income when confirmed: add the status and
+ * timestamps the receipts route tracks. Receipts entered before this stay
+ * 'draft' so their stock is not posted twice.
+ */
+function ensureReceiptsColumns() {
+  return new Promise((resolve, reject) => {
+    const db = connectionManager.getConnection();
+    db.all('PRAGMA table_info(receipts)', [], (err, rows) => {
+      if (err || !rows || rows.length === 0) {
+        resolve();
+        return;
+      }
+      const have = new Set(rows.map((r) => r.name));
+      const required = [
+        { name: 'status', def: "TEXT DEFAULT 'draft'" },
+        { name: 'created_by', def: 'INTEGER' },
+        { name: 'created_at', def: 'TEXT' },
+        { name: 'updated_at', def: 'TEXT' },
+        { name: 'confirmed_at', def: 'TEXT' },
+        { name: 'cancelled_at', def: 'TEXT' },
+      ];
+      const toAdd = required.filter((r) => !have.has(r.name));
+      if (toAdd.length === 0) {
+        console.log('✅ receipts table columns up to date');
+        resolve();
+        return;
+      }
+      let i = 0;
+      const next = () => {
+        if (i >= toAdd.length) {
+          console.log('✅ receipts table columns updated');
+          resolve();
+          return;
+        }
+        const col = toAdd[i++];
+        db.run(`ALTER TABLE receipts ADD COLUMN ${col.name} ${col.def}`, [], (alterErr) => {
+          if (alterErr && !String(alterErr.message).includes('duplicate column')) {
+            console.error(`❌ Failed adding receipts.${col.name}:`, alterErr.message);
+            reject(alterErr);
+            return;
+          }
+          next();
+        });
+      };
+      next();
+    });
+  });
+}
+
+/** Links to suppliers and purchase orders: parts.supplier_id, receipts.purchase_order_id, receipt_items.po_item_id. */
+function ensurePurchasingColumns() {
+  const db = connectionManager.getConnection();
+  const tables = [
+    { table: 'parts', name: 'supplier_id', def: 'INTEGER' },
+    { table: 'receipts', name: 'purchase_order_id', def: 'INTEGER' },
+    { table: 'receipt_items', name: 'po_item_id', def: 'INTEGER' },
+  ];
+  const addColumn = ({ table, name, def }) => new Promise((resolve, reject) => {
+    db.all(`PRAGMA table_info(${table})`, [], (err, rows) => {
+      if (err || !rows || rows.length === 0 || rows.some((r) => r.name === name)) {
+        resolve();
+        return;
+      }
+      db.run(`ALTER TABLE ${table} ADD COLUMN ${name} ${def}`, [], (alterErr) => {
+        if (alterErr && !String(alterErr.message).includes('duplicate column')) {
+          console.error(`❌ Failed adding ${table}.${name}:`, alterErr.message);
+          reject(alterErr);
+          return;
+        }
+        console.log(`✅ ${table}.${name} added`);
+        resolve();
+      });
+    });
+  });
+  return tables.reduce((chain, column) => chain.then(() => addColumn(column)), Promise.resolve());
+}
+
+/**
+ * Suppliers and purchase orders. Suppliers named in the free-text
+ * parts.supplier are created once and linked through parts.supplier_id.
+ */
+function ensurePurchasingTables() {
+  return new Promise((resolve, reject) => {
+    const db = connectionManager.getConnection();
+    const statements = [
+      `CREATE TABLE IF NOT EXISTS suppliers (
+        supplier_id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT UNIQUE NOT NULL,
+        contact_name TEXT,
+        email TEXT,
+        phone TEXT,
+        address TEXT,
+        website TEXT,
+        vat_number TEXT,
+        currency TEXT DEFAULT 'EUR',
+        lead_time_days INTEGER DEFAULT 7,
+        minimum_order_quantity INTEGER DEFAULT 0,
+        notes TEXT,
+        is_active INTEGER DEFAULT 1,
+        created_at TEXT DEFAULT (datetime('now')),
+        updated_at TEXT DEFAULT (datetime('now'))
+      )`,
+      `CREATE TABLE IF NOT EXISTS purchase_orders (
+        po_id INTEGER PRIMARY KEY AUTOINCREMENT,
+        po_number TEXT UNIQUE NOT NULL,
+        supplier_id INTEGER NOT NULL REFERENCES suppliers(supplier_id),
+        status TEXT NOT NULL DEFAULT 'draft',
+        order_date TEXT,
+        expected_date TEXT,
+        currency TEXT DEFAULT 'EUR',
+        total_amount REAL NOT NULL DEFAULT 0,
+        notes TEXT,
+        created_by INTEGER REFERENCES users(user_id),
+        created_at TEXT DEFAULT (datetime('now')),
+        updated_at TEXT DEFAULT (datetime('now')),
+        sent_at TEXT,
+        received_at TEXT,
+        cancelled_at TEXT
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_purchase_orders_supplier_id ON purchase_orders(supplier_id)',
+      'CREATE INDEX IF NOT EXISTS idx_purchase_orders_status ON purchase_orders(status)',
+      `CREATE TABLE IF NOT EXISTS purchase_order_items (
+        po_item_id INTEGER PRIMARY KEY AUTOINCREMENT,
+        po_id INTEGER NOT NULL REFERENCES purchase_orders(po_id) ON DELETE CASCADE,
+        part_id INTEGER NOT NULL REFERENCES parts(part_id),
+        quantity_ordered REAL NOT NULL,
+        quantity_received REAL NOT NULL DEFAULT 0,
+        unit_price REAL NOT NULL DEFAULT 0,
+        line_total REAL NOT NULL DEFAULT 0,
+        notes TEXT
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_purchase_order_items_po_id ON purchase_order_items(po_id)',
+      `INSERT OR IGNORE INTO suppliers (name)
+        SELECT DISTINCT TRIM(supplier) FROM parts WHERE supplier IS NOT NULL AND TRIM(supplier) != ''`,
+      `UPDATE parts SET supplier_id = (SELECT s.supplier_id FROM suppliers s WHERE s.name = TRIM(parts.supplier))
+        WHERE supplier_id IS NULL AND supplier IS NOT NULL AND TRIM(supplier) != ''`,
+    ];
+    let i = 0;
+    const next = () => {
+      if (i >= statements.length) {
+        console.log('✅ suppliers and purchase order tables ensured');
+        resolve();
+        return;
+      }
+      db.run(statements[i++], [], (err) => {
+        if (err) {
+          console.error('❌ purchasing tables create failed:', err.message);
+          reject(err);
+          return;
+        }
+        next();
+      });
+    };
+    next();
+  });
+}
+
+/** Cart stock holds: active until expires_at, then released, expired or converted into an order. */
+function ensureStockReservationsTable() {
+  return new Promise((resolve, reject) => {
+    const db = connectionManager.getConnection();
+    const statements = [
+      `CREATE TABLE IF NOT EXISTS stock_reservations (
+        reservation_id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL REFERENCES users(user_id),
+        session_id TEXT NOT NULL DEFAULT '',
+        set_id INTEGER NOT NULL REFERENCES sets(set_id),
+        provider_set_id INTEGER REFERENCES provider_sets(provider_set_id),
+        quantity INTEGER NOT NULL,
+        status TEXT NOT NULL DEFAULT 'active',
+        order_id INTEGER REFERENCES orders(order_id),
+        expires_at TEXT NOT NULL,
+        created_at TEXT DEFAULT (datetime('now')),
+        updated_at TEXT DEFAULT (datetime('now')),
+        released_at TEXT
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_stock_reservations_active ON stock_reservations(status, expires_at)',
+      'CREATE INDEX IF NOT EXISTS idx_stock_reservations_owner ON stock_reservations(user_id, session_id)',
+    ];
+    let i = 0;
+    const next = () => {
+      if (i >= statements.length) {
+        console.log('✅ stock_reservations table ensured');
+        resolve();
+        return;
+      }
+      db.run(statements[i++], [], (err) => {
+        if (err) {
+          console.error('❌ stock_reservations table create failed:', err.message);
+          reject(err);
+          return;
+        }
+        next();
+      });
+    };
+    next();
+  });
+}
+
+/**
+ * Storage locations (rooms, warehouses and their bins) and the stock of each
+ * part per location. Transfers between locations are inventory transactions
+ * with a from/to location; tools point at the location they are kept in.
+ */
+function ensureStorageLocationTables() {
+  return new Promise((resolve, reject) => {
+    const db = connectionManager.getConnection();
+    const statements = [
+      `CREATE TABLE IF NOT EXISTS storage_locations (
+        location_id INTEGER PRIMARY KEY AUTOINCREMENT,
+        code TEXT UNIQUE NOT NULL,
+        name TEXT NOT NULL,
+        location_type TEXT NOT NULL DEFAULT 'room',
+        parent_id INTEGER REFERENCES storage_locations(location_id),
+        pick_sequence INTEGER NOT NULL DEFAULT 0,
+        is_active INTEGER NOT NULL DEFAULT 1,
+        notes TEXT,
+        created_at TEXT DEFAULT (datetime('now')),
+        updated_at TEXT DEFAULT (datetime('now'))
+      )`,
+      `CREATE TABLE IF NOT EXISTS part_stock (
+        part_stock_id INTEGER PRIMARY KEY AUTOINCREMENT,
+        part_id INTEGER NOT NULL REFERENCES parts(part_id) ON DELETE CASCADE,
+        location_id INTEGER NOT NULL REFERENCES storage_locations(location_id),
+        quantity REAL NOT NULL DEFAULT 0,
+        updated_at TEXT DEFAULT (datetime('now')),
+        UNIQUE(part_id, location_id)
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_part_stock_location_id ON part_stock(location_id)',
+    ];
+    const columns = [
+      { table: 'inventory_transactions', name: 'from_location_id', def: 'INTEGER REFERENCES storage_locations(location_id)' },
+      { table: 'inventory_transactions', name: 'to_location_id', def: 'INTEGER REFERENCES storage_locations(location_id)' },
+      { table: 'tools', name: 'location_id', def: 'INTEGER REFERENCES storage_locations(location_id)' },
+    ];
+    const addColumn = (col, done) => {
+      db.all(`PRAGMA table_info(${col.table})`, [], (err, existing) => {
+        if (err || !existing || existing.length === 0 || existing.some((c) => c.name === col.name)) {
+          done();
+          return;
+        }
+        db.run(`ALTER TABLE ${col.table} ADD COLUMN ${col.name} ${col.def}`, [], (alterErr) => {
+          if (alterErr && !String(alterErr.message).includes('duplicate column')) {
+            console.error(`❌ Failed adding ${col.table}.${col.name}:`, alterErr.message);
+            reject(alterErr);
+            return;
+          }
+          done();
+        });
+      });
+    };
+    let i = 0;
+    const next = () => {
+      if (i < statements.length) {
+        db.run(statements[i++], [], (err) => {
+          if (err) {
+            console.error('❌ storage location tables create failed:', err.message);
+            reject(err);
+            return;
+          }
+          next();
+        });
+        return;
+      }
+      if (i - statements.length < columns.length) {
+        addColumn(columns[i++ - statements.length], next);
+        return;
+      }
+      console.log('✅ storage location tables ensured');
+      resolve();
+    };
+    next();
+  });
+}
+
+/**
+ * Tool maintenance plans (every N days and/or N uses), the maintenance log
+ * and tool check-outs against an order or a workshop. tools.use_count counts
+ * returned check-outs, which is what use-based plans are measured against.
+ */
+function ensureToolMaintenanceTables() {
+  return new Promise((resolve, reject) => {
+    const db = connectionManager.getConnection();
+    const statements = [
+      `CREATE TABLE IF NOT EXISTS tool_maintenance_plans (
+        plan_id INTEGER PRIMARY KEY AUTOINCREMENT,
+        tool_id INTEGER NOT NULL REFERENCES tools(tool_id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        interval_days INTEGER,
+        interval_uses INTEGER,
+        last_performed_at TEXT,
+        use_count_at_service INTEGER NOT NULL DEFAULT 0,
+        overdue_notified_at TEXT,
+        is_active INTEGER NOT NULL DEFAULT 1,
+        notes TEXT,
+        created_at TEXT DEFAULT (datetime('now')),
+        updated_at TEXT DEFAULT (datetime('now'))
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_tool_maintenance_plans_tool_id ON tool_maintenance_plans(tool_id)',
+      `CREATE TABLE IF NOT EXISTS tool_maintenance_log (
+        log_id INTEGER PRIMARY KEY AUTOINCREMENT,
+        tool_id INTEGER NOT NULL REFERENCES tools(tool_id) ON DELETE CASCADE,
+        plan_id INTEGER REFERENCES tool_maintenance_plans(plan_id) ON DELETE SET NULL,
+        performed_at TEXT NOT NULL,
+        performed_by INTEGER REFERENCES users(user_id),
+        condition_status TEXT,
+        cost REAL,
+        notes TEXT,
+        created_at TEXT DEFAULT (datetime('now'))
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_tool_maintenance_log_tool_id ON tool_maintenance_log(tool_id)',
+      `CREATE TABLE IF NOT EXISTS tool_checkouts (
+        checkout_id INTEGER PRIMARY KEY AUTOINCREMENT,
+        tool_id INTEGER NOT NULL REFERENCES tools(tool_id) ON DELETE CASCADE,
+        order_id INTEGER REFERENCES orders(order_id) ON DELETE SET NULL,
+        workshop TEXT,
+        checked_out_by INTEGER REFERENCES users(user_id),
+        checked_out_at TEXT DEFAULT (datetime('now')),
+        due_back_at TEXT,
+        checked_in_by INTEGER REFERENCES users(user_id),
+        checked_in_at TEXT,
+        condition_in TEXT,
+        notes TEXT
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_tool_checkouts_tool_id ON tool_checkouts(tool_id, checked_in_at)',
+      'CREATE INDEX IF NOT EXISTS idx_tool_checkouts_order_id ON tool_checkouts(order_id)',
+    ];
+    const next = (i) => {
+      if (i < statements.length) {
+        db.run(statements[i], [], (err) => {
+          if (err) {
+            console.error('❌ tool maintenance tables create failed:', err.message);
+            reject(err);
+            return;
+          }
+          next(i + 1);
+        });
+        return;
+      }
+      db.all('PRAGMA table_info(tools)', [], (err, columns) => {
+        if (err || !columns || columns.length === 0 || columns.some((c) => c.name === 'use_count')) {
+          console.log('✅ tool maintenance tables ensured');
+          resolve();
+          return;
+        }
+        db.run('ALTER TABLE tools ADD COLUMN use_count INTEGER NOT NULL DEFAULT 0', [], (alterErr) => {
+          if (alterErr && !String(alterErr.message).includes('duplicate column')) {
+            console.error('❌ Failed adding tools.use_count:', alterErr.message);
+            reject(alterErr);
+            return;
+          }
+          console.log('✅ tool maintenance tables ensured');
+          resolve();
+        });
+      });
+    };
+    next(0);
+  });
+}
+
+/**
+ * Lot and expiry tracking: part_lots holds the remaining quantity of each
+ * received lot of a part, order_lot_allocations which lots went into which
+ * order (for recalls). parts.track_lots makes a lot number required on
+ * income; inventory transactions and receipt lines carry the lot.
+ */
+function ensurePartLotTables() {
+  return new Promise((resolve, reject) => {
+    const db = connectionManager.getConnection();
+    const statements = [
+      `CREATE TABLE IF NOT EXISTS part_lots (
+        lot_id INTEGER PRIMARY KEY AUTOINCREMENT,
+        part_id INTEGER NOT NULL REFERENCES parts(part_id) ON DELETE CASCADE,
+        lot_number TEXT NOT NULL,
+        expiry_date TEXT,
+        received_quantity REAL NOT NULL DEFAULT 0,
+        quantity REAL NOT NULL DEFAULT 0,
+        received_at TEXT DEFAULT (datetime('now')),
+        supplier TEXT,
+        source_type TEXT,
+        source_id INTEGER,
+        notes TEXT,
+        updated_at TEXT DEFAULT (datetime('now')),
+        UNIQUE(part_id, lot_number)
+      )`,
+      `CREATE TABLE IF NOT EXISTS order_lot_allocations (
+        allocation_id INTEGER PRIMARY KEY AUTOINCREMENT,
+        order_id INTEGER NOT NULL REFERENCES orders(order_id) ON DELETE CASCADE,
+        part_id INTEGER NOT NULL REFERENCES parts(part_id),
+        lot_id INTEGER NOT NULL REFERENCES part_lots(lot_id),
+        quantity REAL NOT NULL,
+        created_at TEXT DEFAULT (datetime('now'))
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_order_lot_allocations_order_id ON order_lot_allocations(order_id)',
+      'CREATE INDEX IF NOT EXISTS idx_order_lot_allocations_lot_id ON order_lot_allocations(lot_id)',
+    ];
+    const columns = [
+      { table: 'parts', name: 'track_lots', def: 'INTEGER NOT NULL DEFAULT 0' },
+      { table: 'inventory_transactions', name: 'lot_id', def: 'INTEGER REFERENCES part_lots(lot_id)' },
+      { table: 'receipt_items', name: 'lot_number', def: 'TEXT' },
+      { table: 'receipt_items', name: 'expiry_date', def: 'TEXT' },
+    ];
+    const addColumn = (col, done) => {
+      db.all(`PRAGMA table_info(${col.table})`, [], (err, existing) => {
+        if (err || !existing || existing.length === 0 || existing.some((c) => c.name === col.name)) {
+          done();
+          return;
+        }
+        db.run(`ALTER TABLE ${col.table} ADD COLUMN ${col.name} ${col.def}`, [], (alterErr) => {
+          if (alterErr && !String(alterErr.message).includes('duplicate column')) {
+            console.error(`❌ Failed adding ${col.table}.${col.name}:`, alterErr.message);
+            reject(alterErr);
+            return;
+          }
+          done();
+        });
+      });
+    };
+    let i = 0;
+    const next = () => {
+      if (i < statements.length) {
+        db.run(statements[i++], [], (err) => {
+          if (err) {
+            console.error('❌ part lot tables create failed:', err.message);
+            reject(err);
+            return;
+          }
+          next();
+        });
+        return;
+      }
+      if (i - statements.length < columns.length) {
+        addColumn(columns[i++ - statements.length], next);
+        return;
+      }
+      console.log('✅ part lot tables ensured');
+      resolve();
+    };
+    next();
+  });
+}
+
+/**
+ * Order lifecycle (utils/orderLifecycle): order_status_history, the
+ * per-status timestamps and tracking number on orders, and statuses written
+ * before the lifecycle mapped onto it. payment_pending/payment_completed stay
+ * as they are: the provider payout pages read them.
+ */
+function ensureOrderLifecycleTables() {
+  return new Promise((resolve, reject) => {
+    const db = connectionManager.getConnection();
+    const statements = [
+      `CREATE TABLE IF NOT EXISTS order_status_history (
+        status_history_id INTEGER PRIMARY KEY AUTOINCREMENT,
+        order_id INTEGER NOT NULL REFERENCES orders(order_id) ON DELETE CASCADE,
+        old_status TEXT,
+        new_status TEXT NOT NULL,
+        changed_by INTEGER REFERENCES users(user_id),
+        changed_at TEXT DEFAULT (datetime('now')),
+        notes TEXT
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_order_status_history_order_id ON order_status_history(order_id)',
+      `UPDATE orders SET status = 'pending'
+      WHERE status IS NULL OR status = 'pending_payment'`,
+      `UPDATE orders SET status = 'confirmed'
+      WHERE status = 'payment_received'`,
+      `UPDATE orders SET status = 'in_production'
+      WHERE status = 'processing'`,
+      `UPDATE orders SET status = 'cancelled'
+      WHERE status IN ('failed', 'payment_failed', 'refunded')`,
+      `UPDATE orders SET status = 'delivered'
+      WHERE status = 'completed'`,
+    ];
+    const columns = [
+      { table: 'orders', name: 'confirmed_at', def: 'TEXT' },
+      { table: 'orders', name: 'in_production_at', def: 'TEXT' },
+      { table: 'orders', name: 'shipped_at', def: 'TEXT' },
+      { table: 'orders', name: 'delivered_at', def: 'TEXT' },
+      { table: 'orders', name: 'cancelled_at', def: 'TEXT' },
+      { table: 'orders', name: 'returned_at', def: 'TEXT' },
+      { table: 'orders', name: 'tracking_number', def: 'TEXT' },
+    ];
+    const addColumn = (col, done) => {
+      db.all(`PRAGMA table_info(${col.table})`, [], (err, existing) => {
+        if (err || !existing || existing.length === 0 || existing.some((c) => c.name === col.name)) {
+          done();
+          return;
+        }
+        db.run(`ALTER TABLE ${col.table} ADD COLUMN ${col.name} ${col.def}`, [], (alterErr) => {
+          if (alterErr && !String(alterErr.message).includes('duplicate column')) {
+            console.error(`❌ Failed adding ${col.table}.${col.name}:`, alterErr.message);
+            reject(alterErr);
+            return;
+          }
+          done();
+        });
+      });
+    };
+    let i = 0;
+    const next = () => {
+      if (i < statements.length) {
+        db.run(statements[i++], [], (err) => {
+          if (err) {
+            console.error('❌ order lifecycle tables create failed:', err.message);
+            reject(err);
+            return;
+          }
+          next();
+        });
+        return;
+      }
+      if (i - statements.length < columns.length) {
+        addColumn(columns[i++ - statements.length], next);
+        return;
+      }
+      console.log('✅ order lifecycle tables ensured');
+      resolve();
+    };
+    next();
+  });
+}
+
+/**
+ * Create shipping_zones and shipping_rates (destination countries and the
+ * carrier rates that ship there, seeded with domestic, EU and rest-of-world
+ * rates on first run), the parcel size columns on parts and the shipping
+ * quote columns on orders.
+ */
+function ensureShippingTables() {
+  return new Promise((resolve, reject) => {
+    const db = connectionManager.getConnection();
+    const statements = [
+      `CREATE TABLE IF NOT EXISTS shipping_zones (
+        zone_id INTEGER PRIMARY KEY AUTOINCREMENT,
+        code TEXT NOT NULL UNIQUE,
+        name TEXT NOT NULL,
+        countries TEXT NOT NULL DEFAULT '',
+        is_active INTEGER NOT NULL DEFAULT 1,
+        sort_order INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT DEFAULT (datetime('now')),
+        updated_at TEXT DEFAULT (datetime('now'))
+      )`,
+      `CREATE TABLE IF NOT EXISTS shipping_rates (
+        rate_id INTEGER PRIMARY KEY AUTOINCREMENT,
+        zone_id INTEGER NOT NULL REFERENCES shipping_zones(zone_id) ON DELETE CASCADE,
+        carrier TEXT,
+        name TEXT NOT NULL,
+        service_level TEXT NOT NULL DEFAULT 'standard' CHECK (service_level IN ('economy', 'standard', 'express')),
+        delivery_type TEXT NOT NULL DEFAULT 'courier' CHECK (delivery_type IN ('courier', 'terminal')),
+        max_weight_g INTEGER,
+        max_length_mm INTEGER,
+        base_price REAL NOT NULL DEFAULT 0,
+        price_per_kg REAL NOT NULL DEFAULT 0,
+        free_over REAL,
+        delivery_days_min INTEGER,
+        delivery_days_max INTEGER,
+        is_active INTEGER NOT NULL DEFAULT 1,
+        created_at TEXT DEFAULT (datetime('now')),
+        updated_at TEXT DEFAULT (datetime('now'))
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_shipping_rates_zone_id ON shipping_rates(zone_id)',
+      `INSERT INTO shipping_zones (code, name, countries, sort_order)
+      SELECT * FROM (VALUES
+        ('DOMESTIC', 'Estonia', 'EE', 1),
+        ('EU', 'European Union', 'AT,BE,BG,CY,CZ,DE,DK,ES,FI,FR,GR,HR,HU,IE,IT,LT,LU,LV,MT,NL,PL,PT,RO,SE,SI,SK', 2),
+        ('WORLD', 'Rest of the world', '*', 3))
+      WHERE NOT EXISTS (SELECT 1 FROM shipping_zones)`,
+      `INSERT INTO shipping_rates (
+        zone_id, carrier, name, service_level, max_weight_g, max_length_mm,
+        base_price, price_per_kg, delivery_days_min, delivery_days_max
+      )
+      SELECT z.zone_id, r.column2, r.column3, r.column4, r.column5, r.column6, r.column7, r.column8, r.column9, r.column10
+      FROM (VALUES
+        ('DOMESTIC', 'Omniva', 'Parcel terminal', 'standard', 30000, 640, 4.90, 1.00, 1, 3),
+        ('DOMESTIC', 'DPD', 'Courier', 'express', 31500, 1750, 9.90, 1.50, 1, 1),
+        ('EU', 'Omniva', 'International parcel', 'standard', 30000, 1500, 12.90, 2.50, 3, 7),
+        ('WORLD', 'Omniva', 'International parcel', 'standard', 20000, 1050, 24.90, 6.00, 7, 21)) r
+      JOIN shipping_zones z ON z.code = r.column1
+      WHERE NOT EXISTS (SELECT 1 FROM shipping_rates)`,
+    ];
+    const columns = [
+      { table: 'parts', name: 'weight_g', def: 'REAL' },
+      { table: 'parts', name: 'length_mm', def: 'REAL' },
+      { table: 'parts', name: 'width_mm', def: 'REAL' },
+      { table: 'parts', name: 'height_mm', def: 'REAL' },
+      { table: 'orders', name: 'shipping_cost', def: 'REAL DEFAULT 0' },
+      { table: 'orders', name: 'shipping_option', def: 'TEXT' },
+      { table: 'orders', name: 'shipping_method', def: 'TEXT' },
+      { table: 'orders', name: 'shipping_carrier', def: 'TEXT' },
+      { table: 'orders', name: 'shipping_zone', def: 'TEXT' },
+      { table: 'orders', name: 'shipping_country', def: 'TEXT' },
+      { table: 'orders', name: 'shipping_weight_g', def: 'INTEGER' },
+      { table: 'shipping_rates', name: 'delivery_type', def: 'TEXT NOT NULL DEFAULT \'courier\'' },
+    ];
+    const addColumn = (col, done) => {
+      db.all(`PRAGMA table_info(${col.table})`, [], (err, existing) => {
+        if (err || !existing || existing.length === 0 || existing.some((c) => c.name === col.name)) {
+          done();
+          return;
+        }
+        db.run(`ALTER TABLE ${col.table} ADD COLUMN ${col.name} ${col.def}`, [], (alterErr) => {
+          if (alterErr && !String(alterErr.message).includes('duplicate column')) {
+            console.error(`❌ Failed adding ${col.table}.${col.name}:`, alterErr.message);
+            reject(alterErr);
+            return;
+          }
+          done();
+        });
+      });
+    };
+    let i = 0;
+    const next = () => {
+      if (i < statements.length) {
+        db.run(statements[i++], [], (err) => {
+          if (err) {
+            console.error('❌ shipping tables create failed:', err.message);
+            reject(err);
+            return;
+          }
+          next();
+        });
+        return;
+      }
+      if (i - statements.length < columns.length) {
+        addColumn(columns[i++ - statements.length], next);
+        return;
+      }
+      console.log('✅ shipping tables ensured');
+      resolve();
+    };
+    next();
+  });
+}
+
+/**
+ * Create parcel terminal, shipment and shipping manifest tables. Terminals are
+ * imported from the carriers' downloadable lists; a shipment is the parcel
+ * booked with a carrier adapter when production ships an order (tracking
+ * number and label), and the day's shipments per adapter are handed over
+ * with one manifest.
+ */
+function ensureParcelTerminalTables() {
+  return new Promise((resolve, reject) => {
+    const db = connectionManager.getConnection();
+    const statements = [
+      `CREATE TABLE IF NOT EXISTS parcel_terminals (
+        terminal_id INTEGER PRIMARY KEY AUTOINCREMENT,
+        carrier TEXT NOT NULL,
+        code TEXT NOT NULL,
+        name TEXT NOT NULL,
+        address TEXT,
+        city TEXT,
+        postal_code TEXT,
+        country TEXT NOT NULL,
+        latitude REAL,
+        longitude REAL,
+        is_active INTEGER NOT NULL DEFAULT 1,
+        created_at TEXT DEFAULT (datetime('now')),
+        updated_at TEXT DEFAULT (datetime('now')),
+        UNIQUE (carrier, code)
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_parcel_terminals_carrier_country ON parcel_terminals(carrier, country)',
+      `CREATE TABLE IF NOT EXISTS shipping_manifests (
+        manifest_id INTEGER PRIMARY KEY AUTOINCREMENT,
+        manifest_number TEXT NOT NULL UNIQUE,
+        adapter TEXT NOT NULL,
+        manifest_date TEXT NOT NULL,
+        file_path TEXT,
+        shipment_count INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT DEFAULT (datetime('now')),
+        updated_at TEXT DEFAULT (datetime('now')),
+        UNIQUE (adapter, manifest_date)
+      )`,
+      `CREATE TABLE IF NOT EXISTS shipments (
+        shipment_id INTEGER PRIMARY KEY AUTOINCREMENT,
+        order_id INTEGER NOT NULL UNIQUE REFERENCES orders(order_id) ON DELETE CASCADE,
+        adapter TEXT NOT NULL,
+        carrier TEXT,
+        tracking_number TEXT,
+        terminal_id INTEGER REFERENCES parcel_terminals(terminal_id),
+        weight_g INTEGER,
+        label_path TEXT,
+        manifest_id INTEGER REFERENCES shipping_manifests(manifest_id),
+        created_by INTEGER REFERENCES users(user_id),
+        created_at TEXT DEFAULT (datetime('now'))
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_shipments_manifest_id ON shipments(manifest_id)',
+      // The seeded Omniva terminal rate delivers to terminals, unless an admin has edited it since
+      `UPDATE shipping_rates SET delivery_type = 'terminal'
+      WHERE carrier = 'Omniva' AND name = 'Parcel terminal' AND delivery_type = 'courier' AND created_at = updated_at`,
+    ];
+    const columns = [
+      { table: 'orders', name: 'shipping_terminal_id', def: 'INTEGER' },
+      { table: 'orders', name: 'shipping_terminal', def: 'TEXT' },
+    ];
+    const addColumn = (col, done) => {
+      db.all(`PRAGMA table_info(${col.table})`, [], (err, existing) => {
+        if (err || !existing || existing.length === 0 || existing.some((c) => c.name === col.name)) {
+          done();
+          return;
+        }
+        db.run(`ALTER TABLE ${col.table} ADD COLUMN ${col.name} ${col.def}`, [], (alterErr) => {
+          if (alterErr && !String(alterErr.message).includes('duplicate column')) {
+            console.error(`❌ Failed adding ${col.table}.${col.name}:`, alterErr.message);
+            reject(alterErr);
+            return;
+          }
+          done();
+        });
+      });
+    };
+    let i = 0;
+    const next = () => {
+      if (i < statements.length) {
+        db.run(statements[i++], [], (err) => {
+          if (err) {
+            console.error('❌ parcel terminal tables create failed:', err.message);
+            reject(err);
+            return;
+          }
+          next();
+        });
+        return;
+      }
+      if (i - statements.length < columns.length) {
+        addColumn(columns[i++ - statements.length], next);
+        return;
+      }
+      console.log('✅ parcel terminal and shipment tables ensured');
+      resolve();
+    };
+    next();
+  });
+}
+
+/**
+ * Link per-provider sub-orders to the parent order a mixed cart checks out
+ * as (see utils/orderSplit).
+ */
+function ensureSubOrderColumns() {
+  return new Promise((resolve, reject) => {
+    const db = connectionManager.getConnection();
+    db.all('PRAGMA table_info(orders)', [], (err, existing) => {
+      if (err || !existing || existing.length === 0) {
+        resolve();
+        return;
+      }
+      const createIndex = () => {
+        db.run('CREATE INDEX IF NOT EXISTS idx_orders_parent_order_id ON orders(parent_order_id)', [], (indexErr) => {
+          if (indexErr) {
+            console.error('❌ orders parent index create failed:', indexErr.message);
+            reject(indexErr);
+            return;
+          }
+          console.log('✅ sub-order columns ensured');
+          resolve();
+        });
+      };
+      if (existing.some((c) => c.name === 'parent_order_id')) {
+        createIndex();
+        return;
+      }
+      db.run('ALTER TABLE orders ADD COLUMN parent_order_id INTEGER REFERENCES orders(order_id)', [], (alterErr) => {
+        if (alterErr && !String(alterErr.message).includes('duplicate column')) {
+          console.error('❌ Failed adding orders.parent_order_id:', alterErr.message);
+          reject(alterErr);
+          return;
+        }
+        createIndex();
+      });
+    });
+  });
+}
+
+/**
+ * Return requests (utils/returnRequests): what the customer reports missing
+ * or sends back per order item or packing list part, the photos attached
+ * from media_files, the status history, and how production resolved it
+ * (credit note, replacement parcel or restock).
+ */
+function ensureReturnTables() {
+  return new Promise((resolve, reject) => {
+    const db = connectionManager.getConnection();
+    const statements = [
+      `CREATE TABLE IF NOT EXISTS return_requests (
+        return_id INTEGER PRIMARY KEY AUTOINCREMENT,
+        return_number TEXT NOT NULL UNIQUE,
+        order_id INTEGER NOT NULL REFERENCES orders(order_id),
+        customer_id INTEGER REFERENCES users(user_id),
+        status TEXT NOT NULL DEFAULT 'requested',
+        reason TEXT NOT NULL,
+        description TEXT,
+        resolution TEXT,
+        resolution_notes TEXT,
+        restock INTEGER NOT NULL DEFAULT 0,
+        credit_note_id INTEGER REFERENCES invoices(invoice_id),
+        tracking_number TEXT,
+        weight_g INTEGER,
+        label_path TEXT,
+        manifest_id INTEGER REFERENCES shipping_manifests(manifest_id),
+        decided_by INTEGER REFERENCES users(user_id),
+        approved_at TEXT,
+        rejected_at TEXT,
+        completed_at TEXT,
+        cancelled_at TEXT,
+        created_at TEXT DEFAULT (datetime('now')),
+        updated_at TEXT DEFAULT (datetime('now'))
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_return_requests_order_id ON return_requests(order_id)',
+      'CREATE INDEX IF NOT EXISTS idx_return_requests_status ON return_requests(status)',
+      `CREATE TABLE IF NOT EXISTS return_request_lines (
+        line_id INTEGER PRIMARY KEY AUTOINCREMENT,
+        return_id INTEGER NOT NULL REFERENCES return_requests(return_id) ON DELETE CASCADE,
+        line_type TEXT NOT NULL,
+        order_item_id INTEGER REFERENCES order_items(order_item_id),
+        part_id INTEGER REFERENCES parts(part_id),
+        description TEXT,
+        quantity INTEGER NOT NULL,
+        amount REAL
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_return_request_lines_return_id ON return_request_lines(return_id)',
+      `CREATE TABLE IF NOT EXISTS return_request_photos (
+        return_id INTEGER NOT NULL REFERENCES return_requests(return_id) ON DELETE CASCADE,
+        media_id INTEGER NOT NULL REFERENCES media_files(media_id),
+        PRIMARY KEY (return_id, media_id)
+      )`,
+      `CREATE TABLE IF NOT EXISTS return_request_history (
+        history_id INTEGER PRIMARY KEY AUTOINCREMENT,
+        return_id INTEGER NOT NULL REFERENCES return_requests(return_id) ON DELETE CASCADE,
+        old_status TEXT,
+        new_status TEXT NOT NULL,
+        changed_by INTEGER REFERENCES users(user_id),
+        notes TEXT,
+        changed_at TEXT DEFAULT (datetime('now'))
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_return_request_history_return_id ON return_request_history(return_id)',
+    ];
+    let i = 0;
+    const next = () => {
+      if (i >= statements.length) {
+        console.log('✅ return request tables ensured');
+        resolve();
+        return;
+      }
+      db.run(statements[i++], [], (err) => {
+        if (err) {
+          console.error('❌ return request tables create failed:', err.message);
+          reject(err);
+          return;
+        }
+        next();
+      });
+    };
+    next();
+  });
+}
+
+/** Create order_picks table: picked quantity per packing list line (part or tool) of an order. */
+function ensureOrderPicksTable() {
+  return new Promise((resolve, reject) => {
+    const db = connectionManager.getConnection();
+    const sql = `CREATE TABLE IF NOT EXISTS order_picks (
+      pick_id INTEGER PRIMARY KEY AUTOINCREMENT,
+      order_id INTEGER NOT NULL REFERENCES orders(order_id) ON DELETE CASCADE,
+      item_type TEXT NOT NULL,
+      item_id INTEGER NOT NULL,
+      picked_quantity INTEGER NOT NULL DEFAULT 0,
+      updated_by INTEGER REFERENCES users(user_id),
+      updated_at TEXT DEFAULT (datetime('now')),
+      UNIQUE(order_id, item_type, item_id)
+    )`;
+    db.run(sql, [], (err) => {
+      if (err) {
+        console.error('❌ order_picks table create failed:', err.message);
+        reject(err);
+        return;
+      }
+      console.log('✅ order_picks table ensured');
+      resolve();
+    });
+  });
+}
+
+/**
+ * Stocktakes (cycle counts): a snapshot of the expected stock per part or
+ * tool and location, the counted quantities and which variances are
+ * approved. A part line is its stock at one storage location (location_id;
+ * none for its unassigned stock), with the location's path as text.
+ */
+function ensureStocktakeTables() {
+  return new Promise((resolve, reject) => {
+    const db = connectionManager.getConnection();
+    const statements = [
+      `CREATE TABLE IF NOT EXISTS stocktakes (
+        stocktake_id INTEGER PRIMARY KEY AUTOINCREMENT,
+        stocktake_number TEXT UNIQUE NOT NULL,
+        name TEXT,
+        scope TEXT NOT NULL DEFAULT 'parts',
+        location TEXT,
+        category TEXT,
+        status TEXT NOT NULL DEFAULT 'counting',
+        notes TEXT,
+        created_by INTEGER REFERENCES users(user_id),
+        posted_by INTEGER REFERENCES users(user_id),
+        created_at TEXT DEFAULT (datetime('now')),
+        updated_at TEXT DEFAULT (datetime('now')),
+        submitted_at TEXT,
+        posted_at TEXT,
+        cancelled_at TEXT
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_stocktakes_status ON stocktakes(status)',
+      `CREATE TABLE IF NOT EXISTS stocktake_lines (
+        line_id INTEGER PRIMARY KEY AUTOINCREMENT,
+        stocktake_id INTEGER NOT NULL REFERENCES stocktakes(stocktake_id) ON DELETE CASCADE,
+        item_type TEXT NOT NULL,
+        part_id INTEGER REFERENCES parts(part_id),
+        tool_id INTEGER REFERENCES tools(tool_id),
+        location_id INTEGER REFERENCES storage_locations(location_id),
+        location TEXT,
+        expected_quantity REAL NOT NULL DEFAULT 0,
+        unit_cost REAL NOT NULL DEFAULT 0,
+        counted_quantity REAL,
+        counted_location TEXT,
+        counted_by INTEGER REFERENCES users(user_id),
+        counted_at TEXT,
+        status TEXT NOT NULL DEFAULT 'pending',
+        notes TEXT
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_stocktake_lines_stocktake_id ON stocktake_lines(stocktake_id)',
+    ];
+    const addLineLocationId = (done) => {
+      db.all('PRAGMA table_info(stocktake_lines)', [], (err, cols) => {
+        if (err || !cols || cols.length === 0 || cols.some((c) => c.name === 'location_id')) {
+          done();
+          return;
+        }
+        db.run('ALTER TABLE stocktake_lines ADD COLUMN location_id INTEGER REFERENCES storage_locations(location_id)', [], (alterErr) => {
+          if (alterErr && !String(alterErr.message).includes('duplicate column')) {
+            console.error('❌ Failed adding stocktake_lines.location_id:', alterErr.message);
+            reject(alterErr);
+            return;
+          }
+          done();
+        });
+      });
+    };
+    let i = 0;
+    const next = () => {
+      if (i >= statements.length) {
+        addLineLocationId(() => {
+          console.log('✅ stocktake tables ensured');
+          resolve();
+        });
+        return;
+      }
+      db.run(statements[i++], [], (err) => {
+        if (err) {
+          console.error('❌ stocktake tables create failed:', err.message);
+          reject(err);
+          return;
+        }
+        next();
+      });
+    };
+    next();
+  });
+}
+
+/** Backup archives (database snapshot + uploads) and the maintenance operations log. */
+function ensureBackupTables() {
+  return new Promise((resolve, reject) => {
+    const db = connectionManager.getConnection();
+    const statements = [
+      `CREATE TABLE IF NOT EXISTS backup_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        backup_name TEXT NOT NULL,
+        backup_type TEXT NOT NULL DEFAULT 'manual',
+        file_path TEXT,
+        file_size INTEGER,
+        checksum TEXT,
+        manifest TEXT,
+        status TEXT DEFAULT 'pending',
+        error_message TEXT,
+        created_by INTEGER REFERENCES users(user_id),
+        created_at TEXT DEFAULT (datetime('now')),
+        completed_at TEXT
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_backup_history_created ON backup_history(created_at)',
+      `CREATE TABLE IF NOT EXISTS maintenance_logs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        operation TEXT NOT NULL,
+        status TEXT DEFAULT 'pending',
+        details TEXT,
+        executed_by INTEGER REFERENCES users(user_id),
+        started_at TEXT DEFAULT (datetime('now')),
+        completed_at TEXT,
+        duration_ms INTEGER,
+        error_message TEXT
+      )`,
+    ];
+    let i = 0;
+    const next = () => {
+      if (i >= statements.length) {
+        console.log('✅ backup_history and maintenance_logs tables ensured');
+        resolve();
+        return;
+      }
+      db.run(statements[i++], [], (err) => {
+        if (err) {
+          console.error('❌ backup tables create failed:', err.message);
+          reject(err);
+          return;
+        }
+        next();
+      });
+    };
+    next();
+  });
+}
+
+/**
+ * Move parts' old free-text locations into storage locations, then take
+ * stock sold or removed since the last run back off the locations that held it.
+ */
+async function normalizeStockLocations() {
+  try {
+    const stockLocationService = require('../services/stockLocationService');
+    await stockLocationService.migratePartLocationText();
+    await stockLocationService.normalizeOverallocated();
+  } catch (error) {
+    console.warn('⚠️ Could not reconcile stock locations:', error.message);
+  }
+}
+
+/** Take stock removed without naming a lot since the last run off the lots. */
+async function normalizePartLots() {
+  try {
+    const partLotService = require('../services/partLotService');
+    await partLotService.normalizeOverallocated();
+  } catch (error) {
+    console.warn('⚠️ Could not reconcile part lots:', error.message);
+  }
+}
+
 async function startup() {
   console.log('🚀 Starting MakerLab STEM Platform...');
   console.log('=' .repeat(50));
@@ -580,8 +1982,32 @@ async function startup() {
     await ensureRatingsTable();
     await ensureFavoritesTable();
     await ensureInventoryTransactionsTable();
+    await ensureReceiptsColumns();
+    await ensurePurchasingColumns();
+    await ensurePurchasingTables();
+    await ensureOrdersColumns();
+    await ensureStockReservationsTable();
+    await ensureOrderPicksTable();
+    await ensureStocktakeTables();
+    await ensureStorageLocationTables();
+    await ensureToolMaintenanceTables();
+    await ensurePartLotTables();
+    await ensureOrderLifecycleTables();
+    await ensureShippingTables();
+    await ensureParcelTerminalTables();
+    await ensureSubOrderColumns();
+    await ensureInvoicesTable();
+    await ensureCreditNoteLinesTable();
+    await ensureReturnTables();
+    await ensureBankImportTables();
+    await ensurePayoutBatchTables();
+    await ensureSystemSettingsAuditTable();
+    await ensureSystemSettingsAuditColumns();
+    await ensureBackupTables();
     await ensureMediaFilesColumns();
     await ensureSystemCommissionPart();
+    await normalizeStockLocations();
+    await normalizePartLots();
   } else {
     console.error('❌ Database connection failed');
     console.log('🔄 Will attempt reconnection in background');
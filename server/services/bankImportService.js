@@ -0,0 +1,317 @@
+/**
+ * Bank Import Service
+ *
+ * Stores transactions from uploaded bank statements (camt.053 or CSV) and
+ * keeps them pending until an admin reviews them. Match suggestions are
+ * computed when transactions are listed, so they always reflect which orders
+ * are still unpaid. Confirming a transaction allocates it to one or more
+ * orders and records the payments; rejecting it just closes it.
+ */
+
+const crypto = require('crypto');
+const db = require('../utils/sqliteConnectionManager');
+const orderPaymentService = require('./orderPaymentService');
+const { parseBankStatement } = require('../utils/bankStatementParser');
+const { matchTransaction, outstanding } = require('../utils/paymentMatcher');
+
+const TRANSACTION_STATUSES = ['pending', 'confirmed', 'rejected'];
+
+function roundMoney(value) {
+  return Math.round((Number(value) || 0) * 100) / 100;
+}
+
+function validationError(message) {
+  const error = new Error(message);
+  error.name = 'ValidationError';
+  return error;
+}
+
+/** Archive ids are unique per bank; without one, the line's content identifies it. */
+function dedupeKey(transaction) {
+  if (transaction.bankReference) {
+    return `ref:${transaction.bankReference}`;
+  }
+  const content = [
+    transaction.bookingDate,
+    transaction.amount.toFixed(2),
+    transaction.counterpartyAccount,
+    transaction.counterpartyName,
+    transaction.reference,
+    transaction.description,
+  ].join('|');
+  return `hash:${crypto.createHash('sha256').update(content).digest('hex')}`;
+}
+
+function toMatcherTransaction(row) {
+  return {
+    amount: row.amount,
+    counterpartyName: row.counterparty_name,
+    reference: row.reference,
+    description: row.description,
+  };
+}
+
+class BankImportService {
+  /**
+   * Parse and store a statement. Outgoing payments and lines imported before
+   * are skipped.
+   *
+   * @returns {Promise<{import: Object, summary: Object}>}
+   */
+  async importStatement(buffer, { filename = null, importedBy = null } = {}) {
+    let statement;
+    try {
+      statement = parseBankStatement(buffer);
+    } catch (error) {
+      throw validationError(error.message);
+    }
+
+    const credits = statement.transactions.filter((transaction) => transaction.direction === 'credit');
+    if (credits.length === 0) {
+      throw validationError('The statement contains no incoming payments');
+    }
+
+    const importResult = await db.run(
+      `INSERT INTO bank_imports (filename, format, statement_id, account, imported_by)
+      VALUES (?, ?, ?, ?, ?)`,
+      [filename, statement.format, statement.statementId, statement.account, importedBy]
+    );
+    const importId = importResult.lastID;
+
+    let imported = 0;
+    let duplicates = 0;
+    for (const transaction of credits) {
+      const key = dedupeKey(transaction);
+      const existing = await db.query('SELECT transaction_id FROM bank_transactions WHERE dedupe_key = ?', [key]);
+      if (existing.rows.length > 0) {
+        duplicates++;
+        continue;
+      }
+      await db.run(
+        `INSERT INTO bank_transactions (
+          import_id, dedupe_key, booking_date, amount, currency, counterparty_name,
+          counterparty_account, reference, description, bank_reference
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          importId, key, transaction.bookingDate, transaction.amount, transaction.currency,
+          transaction.counterpartyName || null, transaction.counterpartyAccount || null,
+          transaction.reference || null, transaction.description || null, transaction.bankReference || null,
+        ]
+      );
+      imported++;
+    }
+
+    await db.run(
+      'UPDATE bank_imports SET transaction_count = ?, duplicate_count = ? WHERE import_id = ?',
+      [imported, duplicates, importId]
+    );
+
+    const transactions = await this.listTransactions({ importId });
+    const { rows } = await db.query('SELECT * FROM bank_imports WHERE import_id = ?', [importId]);
+    return {
+      import: rows[0],
+      summary: {
+        format: statement.format,
+        imported,
+        duplicates,
+        outgoing: statement.transactions.length - credits.length,
+        skipped: statement.skipped,
+        matched: transactions.filter((transaction) => transaction.suggestions.length > 0 || transaction.split).length,
+        unmatched: transactions.filter((transaction) => transaction.suggestions.length === 0 && !transaction.split).length,
+      },
+    };
+  }
+
+  /** Orders still waiting for (the rest of) their payment, with what the matcher needs; sub-orders are paid through their parent. */
+  async getOpenOrders() {
+    const { rows } = await db.query(`
+      SELECT
+        o.order_id,
+        o.order_number,
+        o.total_amount,
+        COALESCE(o.payment_amount, 0) AS payment_amount,
+        o.customer_email,
+        o.order_date,
+        c.first_name AS customer_first_name,
+        c.last_name AS customer_last_name,
+        c.company_name AS customer_company_name,
+        i.invoice_number
+      FROM orders o
+      LEFT JOIN users c ON o.customer_id = c.user_id
+      LEFT JOIN invoices i ON i.order_id = o.order_id AND i.invoice_type = 'order'
+      WHERE o.status = 'pending'
+        AND COALESCE(o.payment_status, 'pending') <> 'confirmed'
+        AND o.parent_order_id IS NULL
+      ORDER BY o.order_date DESC
+    `, []);
+    return rows;
+  }
+
+  /** Open orders as allocation targets for manual matches and splits. */
+  async getOpenOrderOptions() {
+    const orders = await this.getOpenOrders();
+    return orders.map((order) => ({
+      order_id: order.order_id,
+      order_number: order.order_number,
+      customer_name: [order.customer_first_name, order.customer_last_name].filter(Boolean).join(' ')
+        || order.customer_company_name || order.customer_email || '',
+      outstanding: outstanding(order),
+    }));
+  }
+
+  /**
+   * Transactions with their allocations; pending ones also carry match
+   * suggestions and, where one transfer pays several orders, a split.
+   */
+  async listTransactions({ status = null, importId = null } = {}) {
+    if (status && !TRANSACTION_STATUSES.includes(status)) {
+      throw validationError(`Status must be one of: ${TRANSACTION_STATUSES.join(', ')}`);
+    }
+
+    const conditions = [];
+    const params = [];
+    if (status) {
+      conditions.push('t.status = ?');
+      params.push(status);
+    }
+    if (importId) {
+      conditions.push('t.import_id = ?');
+      params.push(importId);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const { rows } = await db.query(
+      `SELECT t.*, b.filename
+      FROM bank_transactions t
+      JOIN bank_imports b ON b.import_id = t.import_id
+      ${where}
+      ORDER BY t.booking_date DESC, t.transaction_id DESC`,
+      params
+    );
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const { rows: allocations } = await db.query(
+      `SELECT a.transaction_id, a.order_id, a.amount, o.order_number
+      FROM bank_transaction_allocations a
+      JOIN orders o ON o.order_id = a.order_id
+      WHERE a.transaction_id IN (${rows.map(() => '?').join(', ')})
+      ORDER BY a.allocation_id`,
+      rows.map((row) => row.transaction_id)
+    );
+    const openOrders = rows.some((row) => row.status === 'pending') ? await this.getOpenOrders() : [];
+
+    return rows.map((row) => {
+      const match = row.status === 'pending'
+        ? matchTransaction(toMatcherTransaction(row), openOrders)
+        : { suggestions: [], split: null };
+      return {
+        ...row,
+        allocations: allocations.filter((allocation) => allocation.transaction_id === row.transaction_id),
+        suggestions: match.suggestions,
+        split: match.split,
+      };
+    });
+  }
+
+  async getTransaction(transactionId) {
+    const { rows } = await db.query('SELECT * FROM bank_transactions WHERE transaction_id = ?', [transactionId]);
+    return rows[0] || null;
+  }
+
+  /**
+   * Confirm a transaction as payment for one or more orders.
+   *
+   * @param {number} transactionId
+   * @param {Array<{order_id: number, amount: number}>} allocations - may not exceed the transaction amount
+   * @param {number} [confirmedBy]
+   * @returns {Promise<Object|null>} the updated transaction, or null when it does not exist
+   */
+  async confirmTransaction(transactionId, allocations, confirmedBy = null) {
+    const transaction = await this.getTransaction(transactionId);
+    if (!transaction) {
+      return null;
+    }
+    if (transaction.status !== 'pending') {
+      throw validationError(`Transaction has already been ${transaction.status}`);
+    }
+    if (!Array.isArray(allocations) || allocations.length === 0) {
+      throw validationError('Allocate the payment to at least one order');
+    }
+
+    const orderIds = allocations.map((allocation) => Number(allocation.order_id));
+    if (new Set(orderIds).size !== orderIds.length) {
+      throw validationError('Each order can only be allocated once');
+    }
+    const amounts = allocations.map((allocation) => roundMoney(allocation.amount));
+    if (amounts.some((amount) => !(amount > 0))) {
+      throw validationError('Allocated amounts must be greater than zero');
+    }
+    const allocated = roundMoney(amounts.reduce((sum, amount) => sum + amount, 0));
+    if (allocated > roundMoney(transaction.amount)) {
+      throw validationError(`Allocated €${allocated.toFixed(2)} exceeds the payment of €${roundMoney(transaction.amount).toFixed(2)}`);
+    }
+
+    const { rows: orders } = await db.query(
+      `SELECT * FROM orders WHERE order_id IN (${orderIds.map(() => '?').join(', ')})`,
+      orderIds
+    );
+    // Every order is checked before any payment is recorded
+    for (const orderId of orderIds) {
+      const order = orders.find((candidate) => candidate.order_id === orderId);
+      if (!order) {
+        throw validationError(`Order ${orderId} not found`);
+      }
+      await orderPaymentService.checkPayable(order);
+    }
+
+    const reference = transaction.bank_reference || transaction.reference || `BANK-${transaction.transaction_id}`;
+    // All payments and the status change commit together, so a failure leaves
+    // the transaction pending with nothing recorded and it can be confirmed again
+    await db.transaction(async() => {
+      const confirmed = await db.run(
+        `UPDATE bank_transactions
+        SET status = 'confirmed', reviewed_by = ?, reviewed_at = CURRENT_TIMESTAMP
+        WHERE transaction_id = ? AND status = 'pending'`,
+        [confirmedBy, transactionId]
+      );
+      if (!confirmed.changes) {
+        throw validationError('Transaction has already been reviewed');
+      }
+      for (let i = 0; i < orderIds.length; i++) {
+        await orderPaymentService.recordPayment(orderIds[i], {
+          amount: amounts[i],
+          reference,
+          method: 'bank_transfer',
+          confirmedBy,
+        });
+        await db.run(
+          'INSERT INTO bank_transaction_allocations (transaction_id, order_id, amount) VALUES (?, ?, ?)',
+          [transactionId, orderIds[i], amounts[i]]
+        );
+      }
+    });
+    return this.getTransaction(transactionId);
+  }
+
+  /** Mark a transaction as not being an order payment. */
+  async rejectTransaction(transactionId, { note = null, reviewedBy = null } = {}) {
+    const transaction = await this.getTransaction(transactionId);
+    if (!transaction) {
+      return null;
+    }
+    if (transaction.status !== 'pending') {
+      throw validationError(`Transaction has already been ${transaction.status}`);
+    }
+    await db.run(
+      `UPDATE bank_transactions
+      SET status = 'rejected', reviewed_by = ?, reviewed_at = CURRENT_TIMESTAMP, review_note = ?
+      WHERE transaction_id = ?`,
+      [reviewedBy, note, transactionId]
+    );
+    return this.getTransaction(transactionId);
+  }
+}
+
+module.exports = new BankImportService();
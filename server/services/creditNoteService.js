@@ -0,0 +1,280 @@
+/**
+ * Credit Note Service
+ *
+ * Reverses all or part of an issued order invoice. A credit note is stored
+ * like any other invoice (sequential number with the "-C" prefix, immutable
+ * snapshot, content hash, shared renderer) and names the invoice it credits.
+ * credit_note_lines records what each credit note refunds per order item, so
+ * an item can never be credited beyond what was invoiced. Returned parts can
+ * optionally go back to stock through inventory_transactions.
+ */
+
+const db = require('../utils/sqliteConnectionManager');
+const invoiceService = require('./invoiceService');
+const { normalizeLanguage } = require('../utils/invoiceLabels');
+const { summarizeVat } = require('../utils/vatEngine');
+const { normalizeStatus } = require('../utils/orderLifecycle');
+
+// Parts come back through a credit note only once the order has gone out;
+// until then cancelling the order is what restores its stock
+const RESTOCK_ORDER_STATUSES = ['shipped', 'delivered', 'returned'];
+
+function roundMoney(value) {
+  return Math.round((Number(value) || 0) * 100) / 100;
+}
+
+function validationError(message) {
+  const error = new Error(message);
+  error.name = 'ValidationError';
+  return error;
+}
+
+class CreditNoteService {
+  /**
+   * Invoiced lines of an order with what has already been credited. Amounts
+   * come from the issued invoice, not from order_items, which may have been
+   * edited since. Returns null when the order has no invoice.
+   */
+  async getCreditableItems(orderId) {
+    const invoice = await invoiceService.getInvoiceForOrder(orderId);
+    if (!invoice) {
+      return null;
+    }
+
+    // Items of a split order are on its sub-orders
+    const { rows: orderItems } = await db.query(
+      `SELECT order_item_id, set_id FROM order_items
+      WHERE order_id = ? OR order_id IN (SELECT order_id FROM orders WHERE parent_order_id = ?)
+      ORDER BY order_item_id`,
+      [orderId, orderId]
+    );
+    const { rows: credited } = await db.query(
+      `SELECT order_item_id, SUM(quantity) AS quantity, SUM(amount) AS amount
+      FROM credit_note_lines
+      WHERE order_id = ?
+      GROUP BY order_item_id`,
+      [orderId]
+    );
+    const creditedByItem = new Map(credited.map((row) => [row.order_item_id, row]));
+
+    const items = (invoice.items || []).map((line, index) => {
+      // Invoices issued before lines carried orderItemId list items in order_item_id order
+      const orderItem = line.orderItemId
+        ? orderItems.find((item) => item.order_item_id === line.orderItemId)
+        : orderItems[index];
+      const orderItemId = line.orderItemId || (orderItem && orderItem.order_item_id);
+      const done = creditedByItem.get(orderItemId) || { quantity: 0, amount: 0 };
+      const creditedQuantity = Number(done.quantity) || 0;
+      const creditedAmount = roundMoney(done.amount);
+      return {
+        orderItemId,
+        setId: orderItem ? orderItem.set_id : null,
+        description: line.description,
+        quantity: line.quantity,
+        unitPrice: line.unitPrice,
+        total: line.total,
+        vatRate: line.vatRate !== undefined ? line.vatRate : (invoice.taxRate || 0),
+        creditedQuantity,
+        creditedAmount,
+        remainingQuantity: Math.max(0, line.quantity - creditedQuantity),
+        remainingAmount: Math.max(0, roundMoney(line.total - creditedAmount)),
+      };
+    }).filter((item) => item.orderItemId);
+
+    return { invoice, items };
+  }
+
+  async getCreditNotesForOrder(orderId) {
+    const { rows } = await db.query(
+      'SELECT * FROM invoices WHERE order_id = ? AND invoice_type = ? ORDER BY invoice_id',
+      [orderId, 'credit_note']
+    );
+    return rows.map((row) => invoiceService.toInvoice(row));
+  }
+
+  /**
+   * Issue a credit note against an order's invoice.
+   *
+   * @param {number} orderId
+   * @param {Object} options
+   * @param {Array<{orderItemId: number, quantity: number, amount?: number}>} options.lines -
+   *   quantity to credit per order item; `amount` (VAT incl.) defaults to the
+   *   invoiced price of that quantity and may be lower for a partial refund
+   * @param {string} [options.reason]
+   * @param {boolean} [options.restock] - return the sets' parts to stock
+   * @param {number} [options.createdBy]
+   * @param {string} [options.language]
+   * @returns {Promise<Object|null>} the credit note, or null when the order has no invoice
+   */
+  async issueCreditNote(orderId, options) {
+    // What is left to credit is read and used up in one transaction, so two
+    // concurrent credit notes cannot both take the same remainder
+    return db.transaction(() => this.creditInTransaction(orderId, options));
+  }
+
+  async creditInTransaction(orderId, { lines, reason = '', restock = false, createdBy = null, language = null }) {
+    const creditable = await this.getCreditableItems(orderId);
+    if (!creditable) {
+      return null;
+    }
+    const { invoice, items } = creditable;
+
+    if (!Array.isArray(lines) || lines.length === 0) {
+      throw validationError('At least one order item must be credited');
+    }
+
+    const creditLines = lines.map((requested) => {
+      const item = items.find((candidate) => candidate.orderItemId === Number(requested.orderItemId));
+      if (!item) {
+        throw validationError(`Order item ${requested.orderItemId} is not on invoice ${invoice.invoiceNumber}`);
+      }
+      if (item.remainingQuantity <= 0 || item.remainingAmount <= 0) {
+        throw validationError(`"${item.description}" has already been fully credited`);
+      }
+      const quantity = Number(requested.quantity);
+      if (!(quantity > 0) || quantity > item.remainingQuantity) {
+        throw validationError(`Quantity for "${item.description}" must be between 1 and ${item.remainingQuantity}`);
+      }
+      // Crediting everything that is left takes the exact remainder, avoiding rounding leftovers
+      const fullAmount = quantity === item.remainingQuantity
+        ? item.remainingAmount
+        : roundMoney((item.total / item.quantity) * quantity);
+      const amount = requested.amount === undefined || requested.amount === null || requested.amount === ''
+        ? fullAmount
+        : roundMoney(requested.amount);
+      if (!(amount > 0) || amount > item.remainingAmount) {
+        throw validationError(`Amount for "${item.description}" must be between 0.01 and ${item.remainingAmount.toFixed(2)}`);
+      }
+      return { item, quantity, amount };
+    });
+
+    if (restock) {
+      await this.checkRestock(invoice.orderId);
+    }
+
+    const settings = await invoiceService.getSettings();
+    const issueDate = new Date().toISOString().slice(0, 10);
+    const snapshotLines = creditLines.map(({ item, quantity, amount }) => ({
+      orderItemId: item.orderItemId,
+      description: item.description,
+      quantity,
+      unitPrice: -roundMoney(amount / quantity),
+      total: -amount,
+      vatRate: item.vatRate,
+    }));
+    const vat = summarizeVat(snapshotLines);
+
+    const snapshot = {
+      invoiceType: 'credit_note',
+      orderId: invoice.orderId,
+      orderNumber: invoice.orderNumber,
+      creditedInvoiceNumber: invoice.invoiceNumber,
+      language: normalizeLanguage(language || invoice.language),
+      issueDate,
+      dueDate: issueDate,
+      currency: invoice.currency,
+      template: invoice.template,
+      // Same parties as the credited invoice
+      company: invoice.company,
+      customer: invoice.customer,
+      items: snapshotLines,
+      subtotal: vat.net,
+      taxRate: vat.breakdown.length === 1 ? vat.breakdown[0].rate : null,
+      taxAmount: vat.vat,
+      total: vat.gross,
+      notes: reason,
+      paymentTerms: invoice.paymentTerms,
+      paymentReference: invoice.paymentReference,
+    };
+    if (invoice.vat) {
+      snapshot.vat = { treatment: invoice.vat.treatment, breakdown: vat.breakdown };
+    }
+
+    const creditNote = await invoiceService.createInvoice(snapshot, `${settings.invoice_prefix}-C`, {
+      orderId: invoice.orderId,
+      createdBy,
+    });
+
+    for (const { item, quantity, amount } of creditLines) {
+      const restocked = restock && item.setId ? await this.restockSet(item.setId, quantity, creditNote) : false;
+      await db.run(
+        `INSERT INTO credit_note_lines (invoice_id, order_id, order_item_id, quantity, amount, restocked)
+        VALUES (?, ?, ?, ?, ?, ?)`,
+        [creditNote.invoiceId, invoice.orderId, item.orderItemId, quantity, amount, restocked ? 1 : 0]
+      );
+    }
+
+    await db.run(
+      'UPDATE orders SET refunded_amount = COALESCE(refunded_amount, 0) + ? WHERE order_id = ?',
+      [roundMoney(-creditNote.total), invoice.orderId]
+    );
+
+    return creditNote;
+  }
+
+  /** Throw unless the order's returned sets can go back to stock. */
+  async checkRestock(orderId) {
+    const { rows } = await db.query('SELECT order_number, status FROM orders WHERE order_id = ?', [orderId]);
+    const status = rows.length > 0 ? normalizeStatus(rows[0].status) : null;
+    if (await this.stockRestoredOnCancel(orderId)) {
+      throw validationError('Stock for this order was already restored when it was cancelled');
+    }
+    if (!RESTOCK_ORDER_STATUSES.includes(status)) {
+      throw validationError(
+        `Order ${rows.length > 0 ? rows[0].order_number : orderId} has not been shipped; cancel it to put its stock back`
+      );
+    }
+  }
+
+  /**
+   * True when cancelling the order already put its parts back
+   * (orderStatusService.restoreStock). A split order is cancelled sub-order
+   * by sub-order, so their cancellations count for the parent.
+   */
+  async stockRestoredOnCancel(orderId) {
+    const { rows } = await db.query(
+      `SELECT 1 FROM inventory_transactions
+      WHERE reference_type = ?
+        AND (reference_id = ? OR reference_id IN (SELECT order_id FROM orders WHERE parent_order_id = ?))
+      LIMIT 1`,
+      ['order_cancellation', orderId, orderId]
+    );
+    return rows.length > 0;
+  }
+
+  /** Put the required parts of `quantity` returned sets back to stock. */
+  async restockSet(setId, quantity, creditNote) {
+    const { rows: parts } = await db.query(
+      'SELECT part_id, quantity AS required_quantity FROM set_parts WHERE set_id = ? AND is_optional = 0',
+      [setId]
+    );
+
+    for (const part of parts) {
+      const quantityToRestore = Math.ceil(quantity * part.required_quantity);
+      const stockResult = await db.query('SELECT stock_quantity FROM parts WHERE part_id = ?', [part.part_id]);
+      if (stockResult.rows.length === 0) {
+        continue;
+      }
+      const currentStock = Number(stockResult.rows[0].stock_quantity) || 0;
+      const newStock = currentStock + quantityToRestore;
+
+      await db.run('UPDATE parts SET stock_quantity = ? WHERE part_id = ?', [newStock, part.part_id]);
+      await db.run(`
+        INSERT INTO inventory_transactions (
+          part_id, transaction_type, quantity, previous_stock, new_stock, reason, reference_id, reference_type
+        ) VALUES (?, 'in', ?, ?, ?, ?, ?, 'credit_note')
+      `, [
+        part.part_id,
+        quantityToRestore,
+        currentStock,
+        newStock,
+        `Credit note ${creditNote.invoiceNumber} (order ${creditNote.orderNumber}) - Set ${setId}`,
+        creditNote.invoiceId,
+      ]);
+      console.log(`🔄 Restocked part ${part.part_id}: ${currentStock} → ${newStock} (credit note ${creditNote.invoiceNumber})`);
+    }
+    return parts.length > 0;
+  }
+}
+
+module.exports = new CreditNoteService();
@@ -0,0 +1,545 @@
+/**
+ * Invoice Service
+ *
+ * Issues invoices and keeps them immutable. Each invoice is stored as a JSON
+ * snapshot (company, customer, lines, totals) with a sequential number and a
+ * SHA-256 content hash; HTML and PDF are always rendered from that snapshot
+ * by utils/invoiceRenderer, so re-downloading an invoice months later yields
+ * the same document even if settings or prices have changed since.
+ */
+
+const crypto = require('crypto');
+const fs = require('fs').promises;
+const path = require('path');
+const db = require('../utils/sqliteConnectionManager');
+const { renderInvoiceHTML, renderInvoicePDF } = require('../utils/invoiceRenderer');
+const { normalizeLanguage } = require('../utils/invoiceLabels');
+const { calculateVat, countryToCode } = require('../utils/vatEngine');
+const { renderEInvoice } = require('../utils/eInvoiceXml');
+const { settingDefaults, validateSetting } = require('../utils/settingsSchema');
+
+const COMPANY_SETTING_DEFAULTS = settingDefaults([
+  'company_name',
+  'company_address',
+  'company_phone',
+  'company_email',
+  'company_website',
+  'company_tax_id',
+  'company_reg_number',
+  'company_country',
+  'bank_name',
+  'bank_account_number',
+  'bank_iban',
+  'bank_swift',
+  'invoice_prefix',
+  'invoice_due_days',
+  'vat_rates',
+  'payment_terms',
+  'default_invoice_template',
+  'invoice_language',
+  'currency',
+]);
+
+const E_INVOICE_NAMES = {
+  'e-invoice': 'Estonian e-invoice',
+  finvoice: 'Finvoice',
+};
+
+function validationError(message) {
+  const error = new Error(message);
+  error.name = 'ValidationError';
+  return error;
+}
+
+function roundMoney(value) {
+  return Math.round((Number(value) || 0) * 100) / 100;
+}
+
+function addDays(isoDate, days) {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/** JSON with object keys sorted, so the hash does not depend on property order. */
+function canonicalJson(value) {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map((key) => `${JSON.stringify(key)}:${canonicalJson(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value === undefined ? null : value);
+}
+
+function hashSnapshot(snapshot) {
+  return crypto.createHash('sha256').update(canonicalJson(snapshot)).digest('hex');
+}
+
+/** Whether a database error is a UNIQUE violation on `column` (e.g. invoices.order_id). */
+function isUniqueViolation(error, column) {
+  const message = String(error && error.message);
+  return message.includes('UNIQUE') && message.includes(column);
+}
+
+class InvoiceService {
+  constructor() {
+    this.outputDir = path.join(__dirname, '..', 'generated-invoices');
+  }
+
+  async getSettings() {
+    const settings = { ...COMPANY_SETTING_DEFAULTS };
+    const { rows } = await db.query(
+      `SELECT setting_key, setting_value FROM system_settings WHERE setting_key IN (${Object.keys(COMPANY_SETTING_DEFAULTS).map(() => '?').join(', ')})`,
+      Object.keys(COMPANY_SETTING_DEFAULTS)
+    );
+    rows.forEach((row) => {
+      if (row.setting_value !== null && row.setting_value !== '') {
+        settings[row.setting_key] = row.setting_value;
+      }
+    });
+    return settings;
+  }
+
+  buildCompany(settings) {
+    return {
+      name: settings.company_name,
+      address: settings.company_address,
+      phone: settings.company_phone,
+      email: settings.company_email,
+      website: settings.company_website,
+      taxId: settings.company_tax_id,
+      regNumber: settings.company_reg_number,
+      country: countryToCode(settings.company_country) || 'EE',
+      bankAccount: {
+        bankName: settings.bank_name,
+        accountNumber: settings.bank_account_number,
+        iban: settings.bank_iban,
+        swift: settings.bank_swift,
+      },
+    };
+  }
+
+  /**
+   * Next sequential number for the prefix and year, e.g. INV-2026-000042.
+   */
+  async nextInvoiceNumber(prefix, year) {
+    const pattern = `${prefix}-${year}-`;
+    const { rows } = await db.query(
+      'SELECT invoice_number FROM invoices WHERE invoice_number LIKE ? ORDER BY invoice_number DESC LIMIT 1',
+      [`${pattern}%`]
+    );
+    const last = rows.length > 0 ? parseInt(rows[0].invoice_number.slice(pattern.length), 10) || 0 : 0;
+    return `${pattern}${String(last + 1).padStart(6, '0')}`;
+  }
+
+  /**
+   * Persist a new invoice snapshot under the next free number and render its files.
+   */
+  async createInvoice(snapshotWithoutNumber, prefix, meta) {
+    const year = snapshotWithoutNumber.issueDate.slice(0, 4);
+    // Retry on the unlikely UNIQUE clash when two invoices are issued concurrently
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const invoiceNumber = await this.nextInvoiceNumber(prefix, year);
+      const snapshot = { ...snapshotWithoutNumber, invoiceNumber };
+      const contentHash = hashSnapshot(snapshot);
+      try {
+        await db.run(
+          `INSERT INTO invoices (
+            invoice_number, invoice_type, order_id, provider_id, period, issued_at, currency,
+            subtotal, tax_amount, total, snapshot, content_hash, created_by
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            invoiceNumber,
+            snapshot.invoiceType,
+            meta.orderId || null,
+            meta.providerId || null,
+            meta.period || null,
+            snapshot.issueDate,
+            snapshot.currency,
+            snapshot.subtotal,
+            snapshot.taxAmount,
+            snapshot.total,
+            JSON.stringify(snapshot),
+            contentHash,
+            meta.createdBy || null,
+          ]
+        );
+      } catch (error) {
+        if (isUniqueViolation(error, 'invoices.invoice_number') && attempt < 2) {
+          continue;
+        }
+        throw error;
+      }
+      const invoice = await this.getInvoice(invoiceNumber);
+      await this.writeFiles(invoice);
+      return invoice;
+    }
+    throw new Error('Could not allocate an invoice number');
+  }
+
+  /**
+   * Issue the invoice for an order. Idempotent: an order has at most one
+   * invoice (idx_invoices_order_invoice) and later or concurrent calls
+   * return the already issued one unchanged.
+   * `language` (et/en/ru/fi) is fixed on the invoice when it is issued.
+   */
+  async issueOrderInvoice(orderId, createdBy = null, language = null) {
+    const existing = await this.getInvoiceForOrder(orderId);
+    if (existing) {
+      return existing;
+    }
+
+    const orderResult = await db.query(
+      `SELECT o.*,
+        c.first_name AS customer_first_name,
+        c.last_name AS customer_last_name,
+        c.email AS user_email,
+        c.company_name AS customer_company_name,
+        c.country AS user_country,
+        c.vat_id AS user_vat_id,
+        c.customer_type AS user_customer_type
+      FROM orders o
+      LEFT JOIN users c ON o.customer_id = c.user_id
+      WHERE o.order_id = ?`,
+      [orderId]
+    );
+    if (orderResult.rows.length === 0) {
+      return null;
+    }
+    const order = orderResult.rows[0];
+
+    // A split order is invoiced as one: its items are on its sub-orders
+    const itemsResult = await db.query(
+      `SELECT oi.*, s.name AS set_name, s.vat_category
+      FROM order_items oi
+      LEFT JOIN sets s ON oi.set_id = s.set_id
+      WHERE oi.order_id = ? OR oi.order_id IN (SELECT order_id FROM orders WHERE parent_order_id = ?)
+      ORDER BY oi.order_item_id`,
+      [orderId, orderId]
+    );
+
+    const settings = await this.getSettings();
+    const issueDate = new Date().toISOString().slice(0, 10);
+    const company = this.buildCompany(settings);
+
+    const items = itemsResult.rows.map((item) => {
+      let description;
+      if (item.set_id === null || item.set_id === '') {
+        description = 'Shipment handling and transport';
+      } else {
+        description = item.set_name || 'MakerSet Product';
+      }
+      return {
+        orderItemId: item.order_item_id,
+        description,
+        quantity: item.quantity,
+        unitPrice: roundMoney(item.unit_price),
+        total: roundMoney(item.line_total),
+        vatCategory: item.vat_category || 'standard',
+      };
+    });
+    // Shipping quoted at checkout is its own line, not an order item
+    if (Number(order.shipping_cost) > 0) {
+      items.push({
+        description: order.shipping_carrier
+          ? `Shipping (${order.shipping_carrier}, ${order.shipping_method})`
+          : 'Shipment handling and transport',
+        quantity: 1,
+        unitPrice: roundMoney(order.shipping_cost),
+        total: roundMoney(order.shipping_cost),
+        vatCategory: 'standard',
+      });
+    }
+
+    // Order-level billing details win over the customer's profile
+    const vat = calculateVat(items, {
+      sellerCountry: company.country,
+      customerCountry: order.billing_country || order.user_country,
+      customerVatId: order.customer_vat_id || order.user_vat_id,
+      customerType: order.customer_type || order.user_customer_type,
+      rateOverrides: this.parseRateOverrides(settings.vat_rates),
+    });
+    const customerName = [order.customer_first_name, order.customer_last_name].filter(Boolean).join(' ');
+
+    const snapshot = {
+      invoiceType: 'order',
+      orderId: order.order_id,
+      orderNumber: order.order_number,
+      language: normalizeLanguage(language || settings.invoice_language),
+      issueDate,
+      dueDate: addDays(issueDate, parseInt(settings.invoice_due_days, 10) || 0),
+      currency: order.currency || settings.currency,
+      template: settings.default_invoice_template,
+      company,
+      customer: {
+        name: customerName || 'Customer',
+        company: order.customer_company_name || '',
+        email: order.customer_email || order.user_email || '',
+        address: order.billing_address || order.shipping_address || '',
+        country: vat.customerCountry,
+        vatId: vat.customerVatId || '',
+      },
+      items: vat.lines.map((line) => ({
+        orderItemId: line.orderItemId,
+        description: line.description,
+        quantity: line.quantity,
+        unitPrice: line.unitPrice,
+        total: line.total,
+        vatRate: line.vatRate,
+      })),
+      subtotal: vat.net,
+      // Single rate when all lines share one; otherwise see vat.breakdown
+      taxRate: vat.breakdown.length === 1 ? vat.breakdown[0].rate : null,
+      taxAmount: vat.vat,
+      total: vat.gross,
+      vat: {
+        treatment: vat.treatment,
+        breakdown: vat.breakdown,
+      },
+      notes: order.notes || '',
+      paymentTerms: settings.payment_terms,
+      paymentReference: order.order_number,
+    };
+
+    let invoice;
+    try {
+      invoice = await this.createInvoice(snapshot, settings.invoice_prefix, { orderId: order.order_id, createdBy });
+    } catch (error) {
+      // Another call issued the order's invoice since the check above
+      if (isUniqueViolation(error, 'invoices.order_id')) {
+        return this.getInvoiceForOrder(order.order_id);
+      }
+      throw error;
+    }
+    await db.run('UPDATE orders SET invoice_generated = 1 WHERE order_id = ?', [order.order_id]);
+    return invoice;
+  }
+
+  /**
+   * Issue the monthly payment invoice for a provider (see AutomatedScheduler).
+   * Idempotent per provider and period.
+   */
+  async issueProviderInvoice(provider, reportData, createdBy = null) {
+    const period = `${reportData.year}-${String(reportData.month).padStart(2, '0')}`;
+    const existing = await db.query(
+      'SELECT invoice_number FROM invoices WHERE invoice_type = ? AND provider_id = ? AND period = ?',
+      ['provider_payout', provider.provider_id, period]
+    );
+    if (existing.rows.length > 0) {
+      return this.getInvoice(existing.rows[0].invoice_number);
+    }
+
+    const settings = await this.getSettings();
+    const issueDate = new Date().toISOString().slice(0, 10);
+    const markup = Number(provider.provider_markup_percentage) || 0;
+    const revenue = roundMoney(provider.total_revenue);
+    const refunds = roundMoney(provider.total_refunds);
+    const platformFee = roundMoney(provider.platform_fee_amount);
+    const payment = roundMoney(provider.provider_payment);
+    const refundItems = refunds > 0
+      ? [{ description: 'Refunds (credit notes)', quantity: 1, unitPrice: -refunds, total: -refunds }]
+      : [];
+
+    const snapshot = {
+      invoiceType: 'provider_payout',
+      period,
+      language: normalizeLanguage(settings.invoice_language),
+      issueDate,
+      // Payouts are due on the 15th of the month following the period
+      dueDate: new Date(Date.UTC(reportData.year, reportData.month, 15)).toISOString().slice(0, 10),
+      currency: settings.currency,
+      template: settings.default_invoice_template,
+      company: this.buildCompany(settings),
+      customer: {
+        name: provider.provider_name || '',
+        company: provider.provider_company || '',
+        email: provider.provider_email || '',
+        address: '',
+      },
+      items: [
+        {
+          description: `Total revenue generated (${provider.total_orders} orders delivered)`,
+          quantity: 1,
+          unitPrice: revenue,
+          total: revenue,
+        },
+        ...refundItems,
+        {
+          description: `Platform fee (${(100 - markup).toFixed(1)}%)`,
+          quantity: 1,
+          unitPrice: -platformFee,
+          total: -platformFee,
+        },
+      ],
+      subtotal: payment,
+      taxRate: 0,
+      taxAmount: 0,
+      total: payment,
+      notes: '',
+      paymentTerms: 'Bank transfer',
+      paymentReference: `MS-${period}-${provider.provider_id}`,
+    };
+
+    return this.createInvoice(snapshot, `${settings.invoice_prefix}-P`, {
+      providerId: provider.provider_id,
+      period,
+      createdBy,
+    });
+  }
+
+  /**
+   * Rate overrides from the vat_rates setting. Writes are validated, but a
+   * value stored before that stops invoicing instead of quietly falling
+   * back to the built-in rates.
+   */
+  parseRateOverrides(value) {
+    if (!value) {
+      return {};
+    }
+    const { value: overrides, error } = validateSetting('vat_rates', value);
+    if (error) {
+      throw new Error(`Invalid vat_rates setting (${error}); correct it in the system settings`);
+    }
+    return overrides || {};
+  }
+
+  toInvoice(row) {
+    if (!row) {
+      return null;
+    }
+    return {
+      ...JSON.parse(row.snapshot),
+      invoiceId: row.invoice_id,
+      contentHash: row.content_hash,
+      createdAt: row.created_at,
+    };
+  }
+
+  async getInvoice(invoiceNumber) {
+    const { rows } = await db.query('SELECT * FROM invoices WHERE invoice_number = ?', [invoiceNumber]);
+    return this.toInvoice(rows[0]);
+  }
+
+  /** Order and provider an issued invoice belongs to (see canAccess), or null when there is no such invoice. */
+  async getInvoiceOwner(invoiceNumber) {
+    const { rows } = await db.query('SELECT order_id, provider_id FROM invoices WHERE invoice_number = ?', [invoiceNumber]);
+    if (rows.length === 0) {
+      return null;
+    }
+    return { orderId: rows[0].order_id, providerId: rows[0].provider_id };
+  }
+
+  /**
+   * Whether a user may see the invoices of an order or provider, or issue
+   * an order's invoice: admin and production all of them, customers those
+   * of their own orders, providers their own payout invoices.
+   */
+  async canAccess({ orderId = null, providerId = null }, { role, userId }) {
+    if (role === 'admin' || role === 'production') {
+      return true;
+    }
+    if (providerId) {
+      return Number(providerId) === Number(userId);
+    }
+    if (!orderId) {
+      return false;
+    }
+    const { rows } = await db.query('SELECT customer_id FROM orders WHERE order_id = ?', [orderId]);
+    return rows.length > 0 && Number(rows[0].customer_id) === Number(userId);
+  }
+
+  async getInvoiceForOrder(orderId) {
+    const { rows } = await db.query(
+      'SELECT * FROM invoices WHERE order_id = ? AND invoice_type = ? ORDER BY invoice_id LIMIT 1',
+      [orderId, 'order']
+    );
+    return this.toInvoice(rows[0]);
+  }
+
+  /**
+   * Check that a stored snapshot still matches its content hash.
+   */
+  async verifyInvoice(invoiceNumber) {
+    const { rows } = await db.query('SELECT snapshot, content_hash FROM invoices WHERE invoice_number = ?', [invoiceNumber]);
+    if (rows.length === 0) {
+      return null;
+    }
+    const actual = hashSnapshot(JSON.parse(rows[0].snapshot));
+    return { valid: actual === rows[0].content_hash, contentHash: rows[0].content_hash, actualHash: actual };
+  }
+
+  filePath(invoiceNumber, format) {
+    return path.join(this.outputDir, `${invoiceNumber}.${format}`);
+  }
+
+  async writeFiles(invoice) {
+    await fs.mkdir(this.outputDir, { recursive: true });
+    const htmlPath = this.filePath(invoice.invoiceNumber, 'html');
+    const pdfPath = this.filePath(invoice.invoiceNumber, 'pdf');
+    await fs.writeFile(htmlPath, renderInvoiceHTML(invoice), 'utf8');
+    await fs.writeFile(pdfPath, await renderInvoicePDF(invoice));
+    await db.run(
+      'UPDATE invoices SET html_path = ?, pdf_path = ? WHERE invoice_number = ?',
+      [htmlPath, pdfPath, invoice.invoiceNumber]
+    );
+    return { htmlPath, pdfPath };
+  }
+
+  /**
+   * Invoice or credit note as Estonian e-invoice (1.2) or Finvoice (3.0) XML.
+   * The registry code was added to settings after the first invoices were
+   * issued, so snapshots without one take it from the current settings.
+   * Documents failing the schema check are not returned: the ValidationError
+   * lists the problems in `details`.
+   */
+  async getEInvoice(invoiceNumber, standard) {
+    const invoice = await this.getInvoice(invoiceNumber);
+    if (!invoice) {
+      return null;
+    }
+    if (invoice.invoiceType === 'provider_payout') {
+      throw validationError('Only customer invoices and credit notes can be exported as e-invoices');
+    }
+
+    let company = invoice.company;
+    if (!company.regNumber) {
+      const settings = await this.getSettings();
+      company = { ...company, regNumber: settings.company_reg_number };
+    }
+    const { xml, errors } = renderEInvoice({ ...invoice, company }, standard);
+    if (errors.length > 0) {
+      const error = validationError(`${invoiceNumber} does not pass the ${E_INVOICE_NAMES[standard]} schema check`);
+      error.details = errors;
+      throw error;
+    }
+    return { invoice, xml, filename: `${invoiceNumber}-${standard}.xml` };
+  }
+
+  /**
+   * Rendered file for an invoice; re-rendered from the snapshot when missing
+   * (e.g. after a redeploy wiped generated-invoices/). A `language` other than
+   * the invoice's own renders a translated copy on the fly without storing it.
+   */
+  async getRendered(invoiceNumber, format, language = null) {
+    const invoice = await this.getInvoice(invoiceNumber);
+    if (!invoice) {
+      return null;
+    }
+    if (language && normalizeLanguage(language) !== normalizeLanguage(invoice.language)) {
+      const content = format === 'pdf'
+        ? await renderInvoicePDF(invoice, language)
+        : Buffer.from(renderInvoiceHTML(invoice, language), 'utf8');
+      return { invoice, content };
+    }
+    const target = this.filePath(invoiceNumber, format);
+    try {
+      await fs.access(target);
+    } catch {
+      await this.writeFiles(invoice);
+    }
+    return { invoice, content: await fs.readFile(target) };
+  }
+}
+
+module.exports = new InvoiceService();
@@ -0,0 +1,109 @@
+/**
+ * Label Service
+ *
+ * Label sheets for parts (by part_number) and tools (by tool_number), for
+ * shelves, bins and tool cases. The codes printed are the ones the packing
+ * list and stocktake scanners look up.
+ */
+
+const db = require('../utils/sqliteConnectionManager');
+const stockLocationService = require('./stockLocationService');
+const { code128Values } = require('../utils/barcode');
+const { SYMBOLOGIES, renderLabelSheet } = require('../utils/labelRenderer');
+
+const MAX_COPIES = 100;
+
+function validationError(message) {
+  const error = new Error(message);
+  error.name = 'ValidationError';
+  return error;
+}
+
+/** Ids from a list or comma-separated string; empty means "all". */
+function parseIds(ids) {
+  const list = Array.isArray(ids) ? ids : String(ids || '').split(',');
+  return [...new Set(list.map((id) => Number(String(id).trim())).filter((id) => Number.isInteger(id) && id > 0))];
+}
+
+class LabelService {
+  /**
+   * Labels ({ code, name, location }) of the given parts or tools
+   * (type 'parts' | 'tools'); without ids, every part or every active tool,
+   * optionally of one category. A part's location is the first it is
+   * picked from.
+   */
+  async getLabels(type, { ids, category } = {}) {
+    const idList = parseIds(ids);
+    const where = [];
+    const params = [];
+    let sql;
+    let codeColumn;
+    if (type === 'parts') {
+      codeColumn = 'part_number';
+      sql = `SELECT part_id AS id, part_number AS code, COALESCE(name, part_number) AS name
+        FROM parts`;
+      if (idList.length > 0) {
+        where.push(`part_id IN (${idList.map(() => '?').join(', ')})`);
+        params.push(...idList);
+      }
+    } else if (type === 'tools') {
+      codeColumn = 'tool_number';
+      sql = `SELECT tool_id AS id, tool_number AS code, COALESCE(tool_name, tool_number) AS name, location
+        FROM tools`;
+      if (idList.length > 0) {
+        where.push(`tool_id IN (${idList.map(() => '?').join(', ')})`);
+        params.push(...idList);
+      } else {
+        where.push('COALESCE(active, 1) = 1');
+      }
+    } else {
+      throw validationError('type must be parts or tools');
+    }
+    if (category) {
+      where.push('category = ?');
+      params.push(category);
+    }
+    where.push(`${codeColumn} IS NOT NULL`, `TRIM(${codeColumn}) <> ''`);
+
+    const { rows } = await db.query(`${sql} WHERE ${where.join(' AND ')} ORDER BY ${codeColumn}`, params);
+    if (type === 'parts') {
+      const breakdowns = await stockLocationService.getBreakdowns(rows.map((row) => row.id));
+      return rows.map((row) => {
+        const [first] = (breakdowns.get(Number(row.id)) || { locations: [] }).locations;
+        return { ...row, location: first ? first.path : null };
+      });
+    }
+    return rows;
+  }
+
+  /**
+   * Label sheet PDF for parts or tools. Options: ids, category,
+   * symbology (code128 | qr), copies per label (1-100).
+   */
+  async renderLabels(type, { ids, category, symbology = 'code128', copies = 1 } = {}) {
+    if (!SYMBOLOGIES.includes(symbology)) {
+      throw validationError(`symbology must be one of: ${SYMBOLOGIES.join(', ')}`);
+    }
+    const copyCount = Number(copies);
+    if (!Number.isInteger(copyCount) || copyCount < 1 || copyCount > MAX_COPIES) {
+      throw validationError(`copies must be a whole number from 1 to ${MAX_COPIES}`);
+    }
+    const labels = await this.getLabels(type, { ids, category });
+    if (labels.length === 0) {
+      throw validationError(`No ${type} with a number to label`);
+    }
+    if (symbology === 'code128') {
+      labels.forEach((label) => {
+        try {
+          code128Values(label.code);
+        } catch (error) {
+          throw validationError(`${label.code}: ${error.message}`);
+        }
+      });
+    }
+    const pdf = await renderLabelSheet(labels, { symbology, copies: copyCount, title: `${type === 'parts' ? 'Part' : 'Tool'} labels` });
+    return { pdf, count: labels.length * copyCount, filename: `${type}-labels-${symbology}.pdf` };
+  }
+}
+
+module.exports = new LabelService();
@@ -0,0 +1,112 @@
+/**
+ * Order Payment Service
+ *
+ * Records payments received for orders, whether confirmed by hand or from an
+ * imported bank statement. Payments accumulate in orders.payment_amount; an
+ * order that is only partly paid stays open with payment_status 'partial'.
+ * Once the total is covered the payment is 'confirmed' and an order still
+ * waiting for payment moves on to 'confirmed' (see orderStatusService).
+ * Sub-orders of a split order are paid through their parent, which the
+ * customer pays as one order; they are marked paid with it.
+ */
+
+const db = require('../utils/sqliteConnectionManager');
+const orderStatusService = require('./orderStatusService');
+const { normalizeStatus } = require('../utils/orderLifecycle');
+
+function roundMoney(value) {
+  return Math.round((Number(value) || 0) * 100) / 100;
+}
+
+function validationError(message) {
+  const error = new Error(message);
+  error.name = 'ValidationError';
+  return error;
+}
+
+class OrderPaymentService {
+  /** Throws unless payments can be recorded for the order (a row from orders). */
+  async checkPayable(order) {
+    if (order.parent_order_id) {
+      const parent = await db.query('SELECT order_number FROM orders WHERE order_id = ?', [order.parent_order_id]);
+      const parentNumber = parent.rows[0] ? parent.rows[0].order_number : order.parent_order_id;
+      throw validationError(`Order ${order.order_number} is part of order ${parentNumber}; record the payment there`);
+    }
+    if (normalizeStatus(order.status) === 'cancelled') {
+      throw validationError(`Order ${order.order_number} is cancelled`);
+    }
+  }
+
+  /**
+   * Record a payment for an order.
+   *
+   * @param {number} orderId
+   * @param {Object} payment
+   * @param {number} payment.amount - amount received (EUR)
+   * @param {string} [payment.reference] - bank archive id or payment reference
+   * @param {string} [payment.method]
+   * @param {number} [payment.confirmedBy]
+   * @param {string} [payment.notes] - for the status history when the payment confirms the order
+   * @returns {Promise<{order: Object, fullyPaid: boolean}|null>} null when the order does not exist
+   */
+  async recordPayment(orderId, { amount, reference = null, method = 'bank_transfer', confirmedBy = null, notes = null }) {
+    const { rows } = await db.query('SELECT * FROM orders WHERE order_id = ?', [orderId]);
+    if (rows.length === 0) {
+      return null;
+    }
+    const order = rows[0];
+
+    const received = roundMoney(amount);
+    if (!(received > 0)) {
+      throw validationError('Payment amount must be greater than zero');
+    }
+    await this.checkPayable(order);
+
+    const paid = roundMoney((Number(order.payment_amount) || 0) + received);
+    const fullyPaid = paid >= roundMoney(order.total_amount);
+    // Keep every reference when an order is paid in instalments
+    const references = [order.payment_reference, reference]
+      .filter(Boolean)
+      .filter((value, index, all) => all.indexOf(value) === index)
+      .join(', ');
+
+    await db.run(
+      `UPDATE orders
+      SET payment_amount = ?,
+          payment_reference = ?,
+          payment_method = ?,
+          payment_status = ?,
+          payment_confirmed_by = ?,
+          payment_confirmed_at = CURRENT_TIMESTAMP,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE order_id = ?`,
+      [paid, references || null, method, fullyPaid ? 'confirmed' : 'partial', confirmedBy, orderId]
+    );
+    if (fullyPaid) {
+      // A split order's sub-orders are paid with it
+      await db.run(
+        `UPDATE orders
+        SET payment_amount = total_amount,
+            payment_reference = ?,
+            payment_method = ?,
+            payment_status = 'confirmed',
+            payment_confirmed_by = ?,
+            payment_confirmed_at = CURRENT_TIMESTAMP,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE parent_order_id = ?`,
+        [references || null, method, confirmedBy, orderId]
+      );
+    }
+    if (fullyPaid && normalizeStatus(order.status) === 'pending') {
+      await orderStatusService.transition(orderId, 'confirmed', {
+        changedBy: confirmedBy,
+        notes: notes || (reference ? `Payment received (${reference})` : 'Payment received'),
+      });
+    }
+
+    const updated = await db.query('SELECT * FROM orders WHERE order_id = ?', [orderId]);
+    return { order: updated.rows[0], fullyPaid };
+  }
+}
+
+module.exports = new OrderPaymentService();
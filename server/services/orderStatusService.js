@@ -0,0 +1,367 @@
+/**
+ * Order Status Service
+ *
+ * Moves orders through the lifecycle in utils/orderLifecycle. Every status
+ * change goes through transition(): illegal jumps and roles that may not
+ * perform a transition are rejected, and the transition's side effects run
+ * with it (timestamp column, stock going back on cancellation, customer /
+ * provider / production notifications, an order_status_history row). New
+ * orders start as pending and take their stock then (recordCreated).
+ *
+ * A mixed cart checks out as a parent order with one sub-order per provider
+ * (utils/orderSplit). A change made on the parent is made on each sub-order
+ * that can take it, and the parent's status follows its sub-orders.
+ */
+
+const db = require('../utils/sqliteConnectionManager');
+const partLotService = require('./partLotService');
+const {
+  ORDER_STATUSES,
+  INITIAL_STATUS,
+  STATUS_TIMESTAMPS,
+  normalizeStatus,
+  getTransition,
+  allowedTransitions,
+} = require('../utils/orderLifecycle');
+const { rollupStatus } = require('../utils/orderSplit');
+
+const STATUS_LABELS = {
+  pending: 'pending',
+  confirmed: 'confirmed',
+  in_production: 'in production',
+  shipped: 'shipped',
+  delivered: 'delivered',
+  cancelled: 'cancelled',
+  returned: 'returned',
+};
+
+function validationError(message) {
+  const error = new Error(message);
+  error.name = 'ValidationError';
+  return error;
+}
+
+function notFoundError(message) {
+  const error = new Error(message);
+  error.name = 'NotFoundError';
+  return error;
+}
+
+function forbiddenError(message) {
+  const error = new Error(message);
+  error.name = 'ForbiddenError';
+  return error;
+}
+
+function conflictError(message, details) {
+  const error = new Error(message);
+  error.name = 'ConflictError';
+  error.details = details;
+  return error;
+}
+
+class OrderStatusService {
+  constructor() {
+    this.notificationService = null;
+  }
+
+  // Loaded on first use: the notification service opens its own connection to the database file
+  getNotificationService() {
+    if (!this.notificationService) {
+      const NotificationService = require('../utils/notificationService');
+      this.notificationService = new NotificationService();
+    }
+    return this.notificationService;
+  }
+
+  async getOrder(orderId) {
+    const { rows } = await db.query('SELECT * FROM orders WHERE order_id = ?', [orderId]);
+    if (rows.length === 0) {
+      throw notFoundError('Order not found');
+    }
+    return rows[0];
+  }
+
+  /** Whether a user may act on an order: providers and customers only on their own. */
+  canActOn(order, { role, userId }) {
+    if (role === 'admin' || role === 'production') {
+      return true;
+    }
+    if (role === 'provider') {
+      return Number(order.provider_id) === Number(userId);
+    }
+    if (role === 'customer') {
+      return Number(order.customer_id) === Number(userId);
+    }
+    return false;
+  }
+
+  /** Statuses the user may move the order to next. */
+  getAllowedTransitions(order, user = null) {
+    if (user && !this.canActOn(order, user)) {
+      return [];
+    }
+    return allowedTransitions(normalizeStatus(order.status) || INITIAL_STATUS, user ? user.role : null);
+  }
+
+  /**
+   * The transition of `order` to `status`, checked against the lifecycle and
+   * (when given) the user's role and ownership; throws like transition().
+   * Returns { from, to, transition }.
+   */
+  checkTransition(order, status, user = null) {
+    const to = normalizeStatus(status);
+    if (!to) {
+      throw validationError(`Unknown order status: ${status || '(none)'}. Use one of ${ORDER_STATUSES.join(', ')}`);
+    }
+    const from = normalizeStatus(order.status) || INITIAL_STATUS;
+    if (from === to) {
+      throw conflictError(`Order ${order.order_number} is already ${STATUS_LABELS[to]}`, { allowed: this.getAllowedTransitions(order, user) });
+    }
+    const transition = getTransition(from, to);
+    if (!transition) {
+      throw conflictError(
+        `Order ${order.order_number} cannot go from ${STATUS_LABELS[from]} to ${STATUS_LABELS[to]}`,
+        { allowed: this.getAllowedTransitions(order, user) }
+      );
+    }
+    if (user && (!transition.roles.includes(user.role) || !this.canActOn(order, user))) {
+      throw forbiddenError(`You may not mark order ${order.order_number} as ${STATUS_LABELS[to]}`);
+    }
+    return { from, to, transition };
+  }
+
+  /**
+   * Move an order to `status`. `user` ({ role, userId }) is checked against
+   * the transition's roles and the order's owner; without a user the change
+   * is made by the system (e.g. a confirmed payment, recorded as made by
+   * `changedBy`). Returns { order, from, to }.
+   */
+  async transition(orderId, status, { user = null, changedBy = null, notes = null, trackingNumber = null } = {}) {
+    const order = await this.getOrder(orderId);
+    const { from, to, transition } = this.checkTransition(order, status, user);
+    const subOrders = await this.getSubOrders(orderId);
+    if (subOrders.length > 0) {
+      return this.transitionParent(order, subOrders, { from, to, transition }, { user, changedBy, notes });
+    }
+
+    await this.applyTransition(order, transition, { user, changedBy, notes, trackingNumber });
+    const updated = await this.getOrder(orderId);
+    await this.notify(updated, transition);
+    if (order.parent_order_id) {
+      await this.syncParent(order.parent_order_id, user ? user.userId : changedBy);
+    }
+    return { order: updated, from, to };
+  }
+
+  /** Write a checked transition and run its side effects, notifications aside. */
+  async applyTransition(order, transition, { user, changedBy, notes, trackingNumber = null }) {
+    // Guarded by the status read above, so two concurrent changes cannot both apply
+    const result = await db.run(
+      `UPDATE orders
+      SET status = ?, ${transition.timestamp} = datetime('now'),
+        tracking_number = COALESCE(?, tracking_number), updated_at = datetime('now')
+      WHERE order_id = ? AND status IS ?`,
+      [transition.to, trackingNumber || null, order.order_id, order.status]
+    );
+    if (!result.changes) {
+      throw conflictError(`Order ${order.order_number} was changed meanwhile; reload and try again`);
+    }
+
+    if (transition.restoreStock) {
+      await this.restoreStock(order.order_id);
+    }
+    await this.addHistory(order.order_id, order.status, transition.to, user ? user.userId : changedBy, notes);
+  }
+
+  /**
+   * A change made on a parent order: each sub-order that can make the
+   * transition makes it (a sub-order already shipped is not cancelled with
+   * the rest), then the parent takes the status of its sub-orders. Providers
+   * and production hear about their sub-orders, the customer once about the
+   * parent.
+   */
+  async transitionParent(parent, subOrders, { from, transition }, { user, changedBy, notes }) {
+    for (const subOrder of subOrders) {
+      const subTransition = getTransition(subOrder.status, transition.to);
+      if (!subTransition) {
+        continue;
+      }
+      await this.applyTransition(subOrder, subTransition, { user, changedBy, notes });
+      await this.notify(await this.getOrder(subOrder.order_id), subTransition, subTransition.notify.filter((audience) => audience !== 'customer'));
+    }
+    const updated = await this.syncParent(parent.order_id, user ? user.userId : changedBy, notes);
+    const to = normalizeStatus(updated.status);
+    if (to === transition.to) {
+      await this.notify(updated, transition, transition.notify.filter((audience) => audience === 'customer'));
+    }
+    return { order: updated, from, to };
+  }
+
+  /** Sub-orders of a parent order, in checkout order; empty for any other order. */
+  async getSubOrders(orderId) {
+    const { rows } = await db.query('SELECT * FROM orders WHERE parent_order_id = ? ORDER BY order_id', [orderId]);
+    return rows;
+  }
+
+  /**
+   * Give a parent order the status of its sub-orders (see rollupStatus),
+   * with a history row when it changes. Returns the parent.
+   */
+  async syncParent(parentId, changedBy = null, notes = null) {
+    const parent = await this.getOrder(parentId);
+    const status = rollupStatus((await this.getSubOrders(parentId)).map((subOrder) => subOrder.status));
+    if (!status || status === normalizeStatus(parent.status)) {
+      return parent;
+    }
+    const timestamp = STATUS_TIMESTAMPS[status];
+    await db.run(
+      `UPDATE orders
+      SET status = ?, ${timestamp} = COALESCE(${timestamp}, datetime('now')), updated_at = datetime('now')
+      WHERE order_id = ?`,
+      [status, parentId]
+    );
+    await this.addHistory(parentId, parent.status, status, changedBy, notes || 'Status of its sub-orders');
+    return this.getOrder(parentId);
+  }
+
+  /** A new order: record it as pending and take its stock. */
+  async recordCreated(orderId, userId = null) {
+    await this.addHistory(orderId, null, INITIAL_STATUS, userId, 'Order placed');
+    await this.deductStock(orderId);
+  }
+
+  async addHistory(orderId, oldStatus, newStatus, changedBy, notes) {
+    await db.run(
+      `INSERT INTO order_status_history (order_id, old_status, new_status, changed_by, notes)
+      VALUES (?, ?, ?, ?, ?)`,
+      [orderId, oldStatus || null, newStatus, changedBy || null, notes || null]
+    );
+  }
+
+  /** Status changes of an order, oldest first, with who made them. */
+  async getHistory(orderId) {
+    await this.getOrder(orderId);
+    const { rows } = await db.query(
+      `SELECT h.*, u.first_name, u.last_name, u.email
+      FROM order_status_history h
+      LEFT JOIN users u ON h.changed_by = u.user_id
+      WHERE h.order_id = ?
+      ORDER BY h.changed_at, h.status_history_id`,
+      [orderId]
+    );
+    return rows;
+  }
+
+  /** Required parts of every set on the order with the quantity the order needs. */
+  async getOrderParts(orderId) {
+    const { rows } = await db.query(
+      `SELECT oi.set_id, oi.quantity AS set_quantity, sp.part_id, sp.quantity AS required_quantity
+      FROM order_items oi
+      JOIN set_parts sp ON sp.set_id = oi.set_id AND sp.is_optional = 0
+      WHERE oi.order_id = ? AND oi.set_id IS NOT NULL`,
+      [orderId]
+    );
+    return rows.map((row) => ({ ...row, quantity: Math.ceil(row.set_quantity * row.required_quantity) }));
+  }
+
+  /**
+   * Take the order's parts out of stock (lot-tracked parts first-expired-first-out).
+   * Stock never goes below zero; the 'out' transaction records what was
+   * actually taken, which is all restoreStock gives back.
+   */
+  async deductStock(orderId) {
+    const order = await this.getOrder(orderId);
+    for (const part of await this.getOrderParts(orderId)) {
+      const stockResult = await db.query('SELECT stock_quantity FROM parts WHERE part_id = ?', [part.part_id]);
+      if (stockResult.rows.length === 0) {
+        continue;
+      }
+      const currentStock = stockResult.rows[0].stock_quantity;
+      const newStock = Math.max(0, currentStock - part.quantity);
+      const taken = currentStock - newStock;
+      await db.run('UPDATE parts SET stock_quantity = ? WHERE part_id = ?', [newStock, part.part_id]);
+      console.log(`📦 Reduced stock for part ${part.part_id}: ${currentStock} → ${newStock} (used ${taken} of ${part.quantity})`);
+      await db.run(
+        `INSERT INTO inventory_transactions (
+          part_id, transaction_type, quantity, reason, reference_id, reference_type
+        ) VALUES (?, 'out', ?, ?, ?, 'order')`,
+        [part.part_id, taken, `Order ${order.order_number} - Set ${part.set_id}`, orderId]
+      );
+      // Lot-tracked stock goes out first-expired-first-out; the lots are recorded for recalls
+      await partLotService.allocateForOrder(orderId, part.part_id, taken);
+    }
+  }
+
+  /** Put what a cancelled order took out of stock back, and into the lots it came from. */
+  async restoreStock(orderId) {
+    const order = await this.getOrder(orderId);
+    const { rows: taken } = await db.query(
+      `SELECT part_id, SUM(quantity) AS quantity FROM inventory_transactions
+      WHERE reference_type = 'order' AND reference_id = ? AND transaction_type = 'out'
+      GROUP BY part_id`,
+      [orderId]
+    );
+    const remaining = new Map(taken.map((row) => [row.part_id, row.quantity]));
+    for (const part of await this.getOrderParts(orderId)) {
+      const quantity = Math.min(part.quantity, remaining.get(part.part_id) || 0);
+      if (quantity <= 0) {
+        continue;
+      }
+      remaining.set(part.part_id, remaining.get(part.part_id) - quantity);
+      const stockResult = await db.query('SELECT stock_quantity FROM parts WHERE part_id = ?', [part.part_id]);
+      if (stockResult.rows.length === 0) {
+        continue;
+      }
+      const currentStock = stockResult.rows[0].stock_quantity;
+      const newStock = currentStock + quantity;
+      await db.run('UPDATE parts SET stock_quantity = ? WHERE part_id = ?', [newStock, part.part_id]);
+      console.log(`🔄 Restored stock for part ${part.part_id}: ${currentStock} → ${newStock} (restored ${quantity})`);
+      await db.run(
+        `INSERT INTO inventory_transactions (
+          part_id, transaction_type, quantity, reason, reference_id, reference_type
+        ) VALUES (?, 'in', ?, ?, ?, 'order_cancellation')`,
+        [part.part_id, quantity, `Order ${order.order_number} cancelled - Set ${part.set_id}`, orderId]
+      );
+    }
+    await partLotService.releaseOrder(orderId);
+  }
+
+  /** Notify the transition's audience (or part of it); a failed notification does not undo the change. */
+  async notify(order, transition, audience = transition.notify) {
+    const label = STATUS_LABELS[transition.to];
+    const data = { order_id: order.order_id, order_number: order.order_number, from: transition.from, to: transition.to };
+    const recipients = [];
+    if (audience.includes('customer') && order.customer_id) {
+      recipients.push({ createdFor: order.customer_id, message: `Your order ${order.order_number} is ${label}.` });
+    }
+    if (audience.includes('provider') && order.provider_id) {
+      recipients.push({ createdFor: order.provider_id, message: `Order ${order.order_number} is ${label}.` });
+    }
+    if (audience.includes('production')) {
+      recipients.push({ createdFor: null, message: `Order ${order.order_number} is ${label} and can be prepared for shipping.` });
+    }
+    // The notification service writes through its own connection, so inside a
+    // transaction (a bank payment, say) it waits for the commit
+    await db.afterCommit(async() => {
+      for (const recipient of recipients) {
+        try {
+          await this.getNotificationService().createNotification({
+            type: `order_${transition.to}`,
+            title: `Order ${order.order_number} ${label}`,
+            message: order.tracking_number && transition.to === 'shipped'
+              ? `${recipient.message} Tracking number: ${order.tracking_number}`
+              : recipient.message,
+            data,
+            createdFor: recipient.createdFor,
+            priority: transition.to === 'cancelled' ? 'high' : 'normal',
+          });
+        } catch (error) {
+          console.error('Error sending order status notification:', error);
+        }
+      }
+    });
+  }
+}
+
+module.exports = new OrderStatusService();
@@ -0,0 +1,350 @@
+/**
+ * Packing Service
+ *
+ * Packing list of an order (its sets exploded through set_parts and
+ * set_tools into one line per part or tool) and the picking done against
+ * it. Picked counts are kept in order_picks so a scan session survives a
+ * reload or a second packing station; marking the order packed
+ * (orders.packed_at) is refused until every required line is picked.
+ */
+
+const db = require('../utils/sqliteConnectionManager');
+const { evaluateScan, pickingProgress, findLineByCode, lineCode, lineItemId } = require('../utils/packingPick');
+const { pickPlan } = require('../utils/stockLocations');
+const stockLocationService = require('./stockLocationService');
+const toolMaintenanceService = require('./toolMaintenanceService');
+const partLotService = require('./partLotService');
+
+const ITEM_TYPES = ['part', 'tool'];
+const PART_FIELDS = [
+  'part_id', 'part_number', 'part_description', 'part_category', 'unit_of_measure', 'unit_cost', 'supplier',
+  'supplier_part_number', 'stock_quantity', 'minimum_stock_level', 'image_url', 'instruction_pdf',
+  'drawing_pdf', 'assembly_notes', 'safety_notes', 'track_lots',
+];
+const TOOL_FIELDS = [
+  'tool_id', 'tool_number', 'tool_description', 'tool_category', 'tool_type', 'condition_status', 'location', 'location_id',
+  'purchase_date', 'last_maintenance_date', 'next_maintenance_date', 'tool_maintenance_notes', 'image_url',
+  'safety_instructions',
+];
+
+function validationError(message) {
+  const error = new Error(message);
+  error.name = 'ValidationError';
+  return error;
+}
+
+function notFoundError(message) {
+  const error = new Error(message);
+  error.name = 'NotFoundError';
+  return error;
+}
+
+function conflictError(message, details) {
+  const error = new Error(message);
+  error.name = 'ConflictError';
+  error.details = details;
+  return error;
+}
+
+function pickFields(row, fields) {
+  return Object.fromEntries(fields.map((field) => [field, row[field]]));
+}
+
+/** Name in `language` from the translations JSON, else the stored name. */
+function translatedName(translations, language, field, fallback) {
+  if (translations) {
+    try {
+      const list = JSON.parse(translations);
+      const match = Array.isArray(list) && list.find((t) => t.language_code === language);
+      if (match && match[field]) {
+        return match[field];
+      }
+    } catch (error) {
+      // Malformed translations fall back to the stored name
+    }
+  }
+  return fallback;
+}
+
+class PackingService {
+  async getOrder(orderId) {
+    const { rows } = await db.query(
+      `SELECT
+        o.*,
+        c.first_name as customer_first_name,
+        c.last_name as customer_last_name,
+        COALESCE(o.customer_email, c.email) as customer_email,
+        c.phone as customer_phone,
+        c.company_name as customer_company_name
+      FROM orders o
+      LEFT JOIN users c ON o.customer_id = c.user_id
+      WHERE o.order_id = ?`,
+      [orderId]
+    );
+    if (rows.length === 0) {
+      throw notFoundError('Order not found');
+    }
+    return rows[0];
+  }
+
+  /**
+   * { order, items, packingList, picking }: one packing line per part and
+   * tool with its total_quantity_needed over all order lines, the sets it
+   * comes from and picked_quantity (parts also pick_locations: where to
+   * pick them from, and lots: which lots the order's units were taken
+   * from; tools whether they are available); picking is the progress
+   * summary.
+   */
+  async getPackingList(orderId, language = 'en') {
+    const order = await this.getOrder(orderId);
+    const { rows: items } = await db.query(
+      `SELECT oi.*, COALESCE(s.name, 'Handling, Packaging & Transport') as set_name
+      FROM order_items oi
+      LEFT JOIN sets s ON oi.set_id = s.set_id
+      WHERE oi.order_id = ?
+      ORDER BY oi.order_item_id`,
+      [orderId]
+    );
+    const setItems = items.filter((item) => Number(item.set_id) > 0);
+    const setIds = [...new Set(setItems.map((item) => Number(item.set_id)))];
+    if (setIds.length === 0) {
+      return { order, items, packingList: [], picking: pickingProgress([]) };
+    }
+    const placeholders = setIds.map(() => '?').join(', ');
+
+    const { rows: partRows } = await db.query(
+      `SELECT sp.set_id, sp.quantity AS quantity_per_set, COALESCE(sp.is_optional, 0) AS is_optional, sp.notes,
+        p.part_id, p.part_number, COALESCE(p.name, p.part_number) AS part_name, p.translations,
+        p.description AS part_description, p.category AS part_category, p.unit_of_measure, p.unit_cost,
+        p.supplier, p.supplier_part_number, p.stock_quantity, p.minimum_stock_level,
+        p.image_url, p.instruction_pdf, p.drawing_pdf, p.assembly_notes, p.safety_notes,
+        COALESCE(p.track_lots, 0) AS track_lots
+      FROM set_parts sp
+      JOIN parts p ON sp.part_id = p.part_id
+      WHERE sp.set_id IN (${placeholders})`,
+      setIds
+    );
+    const { rows: toolRows } = await db.query(
+      `SELECT st.set_id, COALESCE(st.quantity, 1) AS quantity_per_set, COALESCE(st.is_required, 1) AS is_required,
+        COALESCE(st.is_optional, 0) AS is_optional, st.notes,
+        t.tool_id, t.tool_number, COALESCE(t.tool_name, t.tool_number) AS tool_name, t.translations,
+        t.description AS tool_description, t.category AS tool_category, t.tool_type, t.condition_status, t.location,
+        t.location_id, t.purchase_date, t.last_maintenance_date, t.next_maintenance_date, t.notes AS tool_maintenance_notes,
+        t.image_url, t.safety_instructions
+      FROM set_tools st
+      JOIN tools t ON st.tool_id = t.tool_id
+      WHERE st.set_id IN (${placeholders})`,
+      setIds
+    );
+    const picks = await this.getPicks(orderId);
+    const breakdowns = await stockLocationService.getBreakdowns(partRows.map((row) => row.part_id));
+    const orderLots = await partLotService.getOrderLots(orderId);
+    const toolAvailability = await toolMaintenanceService.getAvailability(
+      [...new Set(toolRows.map((row) => Number(row.tool_id)))],
+      orderId
+    );
+
+    const lines = new Map();
+    const addUsage = (key, base, row, optional) => {
+      if (!lines.has(key)) {
+        lines.set(key, { ...base, total_quantity_needed: 0, picked_quantity: picks.get(key) || 0, used_in_sets: [] });
+      }
+      const line = lines.get(key);
+      setItems.filter((item) => Number(item.set_id) === Number(row.set_id)).forEach((item) => {
+        const total = Number(row.quantity_per_set) * Number(item.quantity);
+        line.total_quantity_needed += total;
+        line.used_in_sets.push({
+          set_id: row.set_id,
+          set_name: item.set_name,
+          quantity_per_set: row.quantity_per_set,
+          order_quantity: item.quantity,
+          total_for_set: total,
+          is_optional: optional,
+          is_required: !optional,
+          notes: row.notes,
+        });
+      });
+    };
+
+    partRows.forEach((row) => {
+      addUsage(`part:${row.part_id}`, {
+        type: 'part',
+        ...pickFields(row, PART_FIELDS),
+        part_name: translatedName(row.translations, language, 'part_name', row.part_name),
+      }, row, Boolean(Number(row.is_optional)));
+    });
+    toolRows.forEach((row) => {
+      addUsage(`tool:${row.tool_id}`, {
+        type: 'tool',
+        ...pickFields(row, TOOL_FIELDS),
+        tool_name: translatedName(row.translations, language, 'tool_name', row.tool_name),
+      }, row, Boolean(Number(row.is_optional)) || !Number(row.is_required));
+    });
+
+    const packingList = [...lines.values()]
+      .filter((line) => line.total_quantity_needed > 0)
+      .map((line) => {
+        const optional = line.used_in_sets.every((usage) => usage.is_optional);
+        if (line.type === 'tool') {
+          // Whether the tool can actually go out: not checked out elsewhere or overdue for maintenance
+          const availability = toolAvailability.get(Number(line.tool_id)) || {};
+          return {
+            ...line,
+            is_optional: optional,
+            is_required: !optional,
+            availability_status: availability.status || 'available',
+            is_available: availability.available !== false,
+            availability_reason: availability.reason || null,
+            checkout: availability.checkout || null,
+          };
+        }
+        // Where to pick the part from, in pick order
+        const plan = pickPlan(breakdowns.get(Number(line.part_id)) || { locations: [] }, line.total_quantity_needed);
+        return {
+          ...line,
+          is_optional: optional,
+          pick_locations: plan.locations,
+          short_quantity: plan.short_quantity,
+          lots: orderLots.get(Number(line.part_id)) || [],
+        };
+      })
+      // Parts first, then tools, each by number
+      .sort((a, b) => a.type.localeCompare(b.type)
+        || String(lineCode(a)).localeCompare(String(lineCode(b))));
+
+    return { order, items, packingList, picking: pickingProgress(packingList) };
+  }
+
+  /** Picked quantities of an order by line key ('part:<id>' / 'tool:<id>'). */
+  async getPicks(orderId) {
+    const { rows } = await db.query(
+      'SELECT item_type, item_id, picked_quantity FROM order_picks WHERE order_id = ?',
+      [orderId]
+    );
+    return new Map(rows.map((row) => [`${row.item_type}:${row.item_id}`, Number(row.picked_quantity) || 0]));
+  }
+
+  async savePick(orderId, type, itemId, quantity, userId = null) {
+    await db.run(
+      `INSERT INTO order_picks (order_id, item_type, item_id, picked_quantity, updated_by, updated_at)
+      VALUES (?, ?, ?, ?, ?, datetime('now'))
+      ON CONFLICT(order_id, item_type, item_id) DO UPDATE SET
+        picked_quantity = excluded.picked_quantity,
+        updated_by = excluded.updated_by,
+        updated_at = excluded.updated_at`,
+      [orderId, type, itemId, quantity, userId]
+    );
+  }
+
+  async getOpenPackingList(orderId, language) {
+    const packing = await this.getPackingList(orderId, language);
+    if (packing.order.packed_at) {
+      throw validationError('Order is already packed; reset picking to pack it again');
+    }
+    return packing;
+  }
+
+  /**
+   * Scanner input: count `quantity` (default 1) of the scanned part or tool
+   * number. Wrong items and excess quantities are not counted; the result
+   * says why ({ status: 'wrong_item' | 'unknown_code' | 'excess' | ... }).
+   */
+  async scan(orderId, { code, quantity = 1 } = {}, userId = null, language = 'en') {
+    const scanQuantity = Number(quantity);
+    if (!String(code || '').trim()) {
+      throw validationError('code is required');
+    }
+    if (!Number.isInteger(scanQuantity) || scanQuantity < 1) {
+      throw validationError('quantity must be a whole number of 1 or more');
+    }
+    const packing = await this.getOpenPackingList(orderId, language);
+    const result = evaluateScan(packing.packingList, code, scanQuantity);
+
+    if (result.status === 'not_in_order') {
+      const known = await this.findItemByCode(code);
+      return {
+        ...result,
+        status: known ? 'wrong_item' : 'unknown_code',
+        message: known
+          ? `Wrong item: ${known.code} (${known.name}) is not part of this order`
+          : `Unknown code: ${String(code).trim()}`,
+        picking: packing.picking,
+      };
+    }
+    if (!result.accepted) {
+      return { ...result, picking: packing.picking };
+    }
+
+    await this.savePick(orderId, result.line.type, lineItemId(result.line), result.picked_quantity, userId);
+    result.line.picked_quantity = result.picked_quantity;
+    return { ...result, line: result.line, picking: pickingProgress(packing.packingList) };
+  }
+
+  /** Set a line's picked count directly (manual entry or correction), 0 to the needed quantity. */
+  async setPicked(orderId, { type, item_id: itemId, code, picked_quantity: pickedQuantity } = {}, userId = null, language = 'en') {
+    const packing = await this.getOpenPackingList(orderId, language);
+    let line = null;
+    if (code) {
+      line = findLineByCode(packing.packingList, code);
+    } else if (ITEM_TYPES.includes(type)) {
+      line = packing.packingList.find((l) => l.type === type && Number(lineItemId(l)) === Number(itemId)) || null;
+    } else {
+      throw validationError('type (part or tool) and item_id, or code, are required');
+    }
+    if (!line) {
+      throw validationError('Item is not on this packing list');
+    }
+    const quantity = Number(pickedQuantity);
+    if (!Number.isInteger(quantity) || quantity < 0 || quantity > line.total_quantity_needed) {
+      throw validationError(`picked_quantity must be a whole number from 0 to ${line.total_quantity_needed}`);
+    }
+    await this.savePick(orderId, line.type, lineItemId(line), quantity, userId);
+    line.picked_quantity = quantity;
+    return { line, picking: pickingProgress(packing.packingList) };
+  }
+
+  /** Clear all picks of an order and its packed mark, to start packing over. */
+  async resetPicking(orderId) {
+    await this.getOrder(orderId);
+    await db.run('DELETE FROM order_picks WHERE order_id = ?', [orderId]);
+    await db.run('UPDATE orders SET packed_at = NULL, packed_by = NULL WHERE order_id = ?', [orderId]);
+  }
+
+  /** Mark the order packed; every required line must be fully picked. */
+  async markPacked(orderId, userId = null, language = 'en') {
+    const packing = await this.getOpenPackingList(orderId, language);
+    if (!packing.picking.complete) {
+      const missing = packing.picking.missing;
+      throw conflictError(
+        missing.length > 0
+          ? `${missing.length} required line(s) not fully picked: ${missing.map((m) => `${m.code} (${m.picked_quantity}/${m.needed_quantity})`).join(', ')}`
+          : 'Nothing to pack on this order',
+        missing
+      );
+    }
+    await db.run(
+      'UPDATE orders SET packed_at = datetime(\'now\'), packed_by = ? WHERE order_id = ?',
+      [userId, orderId]
+    );
+    return this.getPackingList(orderId, language);
+  }
+
+  /** Part or tool with this number, regardless of the order: { type, code, name } or null. */
+  async findItemByCode(code) {
+    const value = String(code).trim();
+    const { rows: parts } = await db.query(
+      'SELECT part_number AS code, COALESCE(name, part_number) AS name FROM parts WHERE UPPER(part_number) = UPPER(?) LIMIT 1',
+      [value]
+    );
+    if (parts.length > 0) {
+      return { type: 'part', ...parts[0] };
+    }
+    const { rows: tools } = await db.query(
+      'SELECT tool_number AS code, COALESCE(tool_name, tool_number) AS name FROM tools WHERE UPPER(tool_number) = UPPER(?) LIMIT 1',
+      [value]
+    );
+    return tools.length > 0 ? { type: 'tool', ...tools[0] } : null;
+  }
+}
+
+module.exports = new PackingService();
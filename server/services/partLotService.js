@@ -0,0 +1,273 @@
+/**
+ * Part Lot Service
+ *
+ * Lots of lot-tracked parts (part_lots) and which lots went into which
+ * order (order_lot_allocations). Income and receipts book stock into a lot;
+ * order stock is taken from the lots first-expired-first-out, skipping
+ * expired lots, and given back when the order is cancelled. A lot can be
+ * traced to the orders and customers it went to, for recalls.
+ */
+
+const db = require('../utils/sqliteConnectionManager');
+const { toDateOnly, isExpired, reconcileLots, allocateFefo } = require('../utils/partLots');
+
+function validationError(message) {
+  const error = new Error(message);
+  error.name = 'ValidationError';
+  return error;
+}
+
+function notFoundError(message) {
+  const error = new Error(message);
+  error.name = 'NotFoundError';
+  return error;
+}
+
+class PartLotService {
+  async getPart(partId) {
+    const { rows } = await db.query(
+      'SELECT part_id, part_number, name, stock_quantity, COALESCE(track_lots, 0) AS track_lots FROM parts WHERE part_id = ?',
+      [partId]
+    );
+    if (rows.length === 0) {
+      throw notFoundError('Part not found');
+    }
+    return rows[0];
+  }
+
+  /**
+   * Lot of an income or receipt line: { lot_number, expiry_date } or null
+   * when none is given. Parts with track_lots require a lot number.
+   */
+  async validateLot(partId, { lot_number: lotNumber, expiry_date: expiryDate } = {}) {
+    const part = await this.getPart(partId);
+    const number = String(lotNumber || '').trim();
+    if (!number) {
+      if (Number(part.track_lots) === 1) {
+        throw validationError(`Part ${part.part_number} is lot-tracked; a lot number is required`);
+      }
+      if (expiryDate) {
+        throw validationError('An expiry date needs a lot number');
+      }
+      return null;
+    }
+    const expiry = expiryDate ? toDateOnly(expiryDate) : null;
+    if (expiryDate && !expiry) {
+      throw validationError('expiry_date must be a date (YYYY-MM-DD)');
+    }
+    const { rows } = await db.query('SELECT expiry_date FROM part_lots WHERE part_id = ? AND lot_number = ?', [partId, number]);
+    if (rows.length > 0 && expiry && rows[0].expiry_date && rows[0].expiry_date !== expiry) {
+      throw validationError(`Lot ${number} is already recorded with expiry date ${rows[0].expiry_date}`);
+    }
+    return { lot_number: number, expiry_date: expiry };
+  }
+
+  /**
+   * Write back lots that hold more than the part's total (stock removed
+   * without naming a lot), taking the excess out in FEFO order. Stock
+   * changes that lower a total call it; reads reconcile in memory.
+   */
+  async normalize(partId) {
+    const part = await this.getPart(partId);
+    const { rows } = await db.query('SELECT * FROM part_lots WHERE part_id = ?', [partId]);
+    const { lots } = reconcileLots(rows, part.stock_quantity);
+    const remaining = new Map(lots.map((lot) => [Number(lot.lot_id), lot.quantity]));
+    for (const row of rows) {
+      const quantity = remaining.get(Number(row.lot_id)) || 0;
+      if (quantity !== Number(row.quantity)) {
+        await db.run('UPDATE part_lots SET quantity = ?, updated_at = datetime(\'now\') WHERE lot_id = ?', [quantity, row.lot_id]);
+      }
+    }
+  }
+
+  /** Normalize every part whose lots hold more than its total. Run at startup. */
+  async normalizeOverallocated() {
+    const { rows } = await db.query(
+      `SELECT pl.part_id
+      FROM part_lots pl
+      JOIN parts p ON pl.part_id = p.part_id
+      WHERE pl.quantity > 0
+      GROUP BY pl.part_id
+      HAVING SUM(pl.quantity) > MAX(COALESCE(p.stock_quantity, 0))`
+    );
+    for (const row of rows) {
+      await this.normalize(row.part_id);
+    }
+  }
+
+  /**
+   * Book `quantity` received units into a lot (created on first receipt).
+   * Call it before the part's total is raised, so the lots are reconciled
+   * against the stock they were counted in. Returns the lot.
+   */
+  async receive(partId, lot, quantity, { supplier = null, sourceType = null, sourceId = null, notes = null } = {}) {
+    await this.normalize(partId);
+    const { rows } = await db.query('SELECT * FROM part_lots WHERE part_id = ? AND lot_number = ?', [partId, lot.lot_number]);
+    if (rows.length > 0) {
+      await db.run(
+        `UPDATE part_lots
+        SET quantity = quantity + ?, received_quantity = received_quantity + ?,
+          expiry_date = COALESCE(expiry_date, ?), updated_at = datetime('now')
+        WHERE lot_id = ?`,
+        [quantity, quantity, lot.expiry_date, rows[0].lot_id]
+      );
+      return this.getLot(rows[0].lot_id);
+    }
+    const result = await db.run(
+      `INSERT INTO part_lots (part_id, lot_number, expiry_date, received_quantity, quantity, supplier, source_type, source_id, notes)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [partId, lot.lot_number, lot.expiry_date, quantity, quantity, supplier || null, sourceType, sourceId, notes]
+    );
+    return this.getLot(result.lastID);
+  }
+
+  /** Take received units back out of a lot (receipt reversal); returns the lot or null. */
+  async reverse(partId, lotNumber, quantity) {
+    const { rows } = await db.query('SELECT * FROM part_lots WHERE part_id = ? AND lot_number = ?', [partId, lotNumber]);
+    if (rows.length === 0) {
+      return null;
+    }
+    await db.run(
+      `UPDATE part_lots
+      SET quantity = MAX(quantity - ?, 0), received_quantity = MAX(received_quantity - ?, 0), updated_at = datetime('now')
+      WHERE lot_id = ?`,
+      [quantity, quantity, rows[0].lot_id]
+    );
+    return this.getLot(rows[0].lot_id);
+  }
+
+  async getLot(lotId) {
+    const { rows } = await db.query(
+      `SELECT pl.*, p.part_number, COALESCE(p.name, p.part_number) AS part_name
+      FROM part_lots pl
+      JOIN parts p ON pl.part_id = p.part_id
+      WHERE pl.lot_id = ?`,
+      [lotId]
+    );
+    if (rows.length === 0) {
+      throw notFoundError('Lot not found');
+    }
+    return { ...rows[0], is_expired: isExpired(rows[0]) };
+  }
+
+  /**
+   * Take `quantity` units of a part for an order from its lots (FEFO, not
+   * expired) and record the allocations. The order's stock deduction has
+   * already lowered the total, so the lots are not reconciled first; what
+   * the lots cannot cover came from untracked stock. Returns the allocations.
+   */
+  async allocateForOrder(orderId, partId, quantity) {
+    const { rows } = await db.query('SELECT * FROM part_lots WHERE part_id = ? AND quantity > 0', [partId]);
+    if (rows.length === 0) {
+      return [];
+    }
+    const { allocations } = allocateFefo(rows, quantity);
+    for (const allocation of allocations) {
+      await db.run(
+        'UPDATE part_lots SET quantity = quantity - ?, updated_at = datetime(\'now\') WHERE lot_id = ?',
+        [allocation.quantity, allocation.lot_id]
+      );
+      await db.run(
+        'INSERT INTO order_lot_allocations (order_id, part_id, lot_id, quantity) VALUES (?, ?, ?, ?)',
+        [orderId, partId, allocation.lot_id, allocation.quantity]
+      );
+    }
+    return allocations;
+  }
+
+  /** Give a cancelled order's lot quantities back to their lots and drop the allocations. */
+  async releaseOrder(orderId) {
+    const { rows } = await db.query('SELECT * FROM order_lot_allocations WHERE order_id = ?', [orderId]);
+    for (const allocation of rows) {
+      await db.run(
+        'UPDATE part_lots SET quantity = quantity + ?, updated_at = datetime(\'now\') WHERE lot_id = ?',
+        [allocation.quantity, allocation.lot_id]
+      );
+    }
+    await db.run('DELETE FROM order_lot_allocations WHERE order_id = ?', [orderId]);
+    return rows.length;
+  }
+
+  /** Lots of an order by part id: Map<part_id, [{ lot_id, lot_number, expiry_date, quantity }]>. */
+  async getOrderLots(orderId) {
+    const { rows } = await db.query(
+      `SELECT ola.part_id, ola.lot_id, pl.lot_number, pl.expiry_date, SUM(ola.quantity) AS quantity
+      FROM order_lot_allocations ola
+      JOIN part_lots pl ON ola.lot_id = pl.lot_id
+      WHERE ola.order_id = ?
+      GROUP BY ola.part_id, ola.lot_id
+      ORDER BY pl.expiry_date IS NULL, pl.expiry_date, pl.lot_id`,
+      [orderId]
+    );
+    const byPart = new Map();
+    rows.forEach((row) => {
+      const partId = Number(row.part_id);
+      if (!byPart.has(partId)) {
+        byPart.set(partId, []);
+      }
+      byPart.get(partId).push({
+        lot_id: row.lot_id,
+        lot_number: row.lot_number,
+        expiry_date: row.expiry_date,
+        quantity: Number(row.quantity) || 0,
+      });
+    });
+    return byPart;
+  }
+
+  /**
+   * Lots of a part in FEFO order with what they still hold, plus the
+   * untracked stock, reconciled with the total without writing it back.
+   */
+  async getPartLots(partId) {
+    const part = await this.getPart(partId);
+    const { rows } = await db.query('SELECT * FROM part_lots WHERE part_id = ?', [partId]);
+    const breakdown = reconcileLots(rows, part.stock_quantity);
+    return {
+      part_id: part.part_id,
+      part_number: part.part_number,
+      track_lots: Number(part.track_lots) === 1,
+      ...breakdown,
+      lots: breakdown.lots.map((lot) => ({ ...lot, is_expired: isExpired(lot) })),
+    };
+  }
+
+  /** Lots matching a lot number (any part), newest first, for finding a recalled batch. */
+  async searchLots(search = '') {
+    const { rows } = await db.query(
+      `SELECT pl.*, p.part_number, COALESCE(p.name, p.part_number) AS part_name
+      FROM part_lots pl
+      JOIN parts p ON pl.part_id = p.part_id
+      WHERE pl.lot_number LIKE ? OR p.part_number LIKE ?
+      ORDER BY pl.received_at DESC, pl.lot_id DESC
+      LIMIT 100`,
+      [`%${search}%`, `%${search}%`]
+    );
+    return rows.map((row) => ({ ...row, is_expired: isExpired(row) }));
+  }
+
+  /** A lot and every order (with its customer) that received units from it. */
+  async traceLot(lotId) {
+    const lot = await this.getLot(lotId);
+    const { rows: orders } = await db.query(
+      `SELECT o.order_id, o.order_number, o.status, o.created_at, o.packed_at,
+        COALESCE(o.customer_email, u.email) AS customer_email, u.first_name AS customer_first_name,
+        u.last_name AS customer_last_name, u.company_name AS customer_company_name,
+        SUM(ola.quantity) AS quantity
+      FROM order_lot_allocations ola
+      JOIN orders o ON ola.order_id = o.order_id
+      LEFT JOIN users u ON o.customer_id = u.user_id
+      WHERE ola.lot_id = ?
+      GROUP BY o.order_id
+      ORDER BY o.created_at DESC`,
+      [lotId]
+    );
+    return {
+      lot,
+      orders: orders.map((order) => ({ ...order, quantity: Number(order.quantity) || 0 })),
+      total_allocated: orders.reduce((sum, order) => sum + (Number(order.quantity) || 0), 0),
+    };
+  }
+}
+
+module.exports = new PartLotService();
@@ -0,0 +1,395 @@
+/**
+ * Provider Payout Service
+ *
+ * Calculates what each provider is owed for a month and turns an approved
+ * month into a payout batch: a SEPA credit transfer file (pain.001) with one
+ * payment per provider, paid to the IBAN on the provider's profile.
+ *
+ * Batches move draft -> approved -> paid. A draft can be recreated or
+ * cancelled freely; approving it snapshots the IBANs and generates the XML,
+ * after which the batch is fixed and only marked paid once the bank has
+ * executed it.
+ */
+
+const db = require('../utils/sqliteConnectionManager');
+const invoiceService = require('./invoiceService');
+const { validateIban, validateBic, buildPain001 } = require('../utils/sepaPain001');
+
+const PAYABLE_STATUSES = ['confirmed', 'in_production', 'shipped', 'delivered', 'payment_completed'];
+const PLATFORM_FEE_PERCENTAGE = 20;
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+function roundMoney(value) {
+  return Math.round((Number(value) || 0) * 100) / 100;
+}
+
+function validationError(message) {
+  const error = new Error(message);
+  error.name = 'ValidationError';
+  return error;
+}
+
+function periodOf(year, month) {
+  const targetYear = Number(year);
+  const targetMonth = Number(month);
+  if (!Number.isInteger(targetYear) || !Number.isInteger(targetMonth) || targetMonth < 1 || targetMonth > 12) {
+    throw validationError('A valid year and month are required');
+  }
+  return `${targetYear}-${String(targetMonth).padStart(2, '0')}`;
+}
+
+/** The first weekday after the given date, as YYYY-MM-DD. */
+function nextBusinessDay(from = new Date()) {
+  const date = new Date(Date.UTC(from.getFullYear(), from.getMonth(), from.getDate()));
+  do {
+    date.setUTCDate(date.getUTCDate() + 1);
+  } while (date.getUTCDay() === 0 || date.getUTCDay() === 6);
+  return date.toISOString().slice(0, 10);
+}
+
+class ProviderPayoutService {
+  /**
+   * Credit notes issued in a month on a provider's orders. A refund is deducted
+   * from the month the credit note is issued, but only for orders whose revenue
+   * was counted: orders from earlier months, or orders still in a payable
+   * status (a same-month cancellation is already left out of revenue).
+   */
+  async getProviderRefunds(providerId, yearStr, monthStr, payableStatuses) {
+    const result = await db.query(
+      `SELECT i.invoice_number, i.issued_at, o.order_id, o.order_number, -i.total AS amount
+       FROM invoices i
+       JOIN orders o ON i.order_id = o.order_id
+       WHERE i.invoice_type = 'credit_note'
+         AND o.provider_id = ?
+         AND strftime('%Y', i.issued_at) = ? AND strftime('%m', i.issued_at) = ?
+         AND (o.status IN (${payableStatuses.map(() => '?').join(', ')})
+           OR strftime('%Y-%m', COALESCE(o.order_date, o.created_at)) < ?)
+       ORDER BY i.issued_at`,
+      [providerId, yearStr, monthStr, ...payableStatuses, `${yearStr}-${monthStr}`]
+    );
+    // A split order is credited on its parent; each line counts for the sub-order its item is on
+    const subOrderResult = await db.query(
+      `SELECT i.invoice_number, i.issued_at, o.order_id, o.order_number, SUM(cl.amount) AS amount
+       FROM credit_note_lines cl
+       JOIN invoices i ON i.invoice_id = cl.invoice_id
+       JOIN order_items oi ON oi.order_item_id = cl.order_item_id
+       JOIN orders o ON o.order_id = oi.order_id
+       WHERE o.parent_order_id IS NOT NULL
+         AND o.provider_id = ?
+         AND strftime('%Y', i.issued_at) = ? AND strftime('%m', i.issued_at) = ?
+         AND (o.status IN (${payableStatuses.map(() => '?').join(', ')})
+           OR strftime('%Y-%m', COALESCE(o.order_date, o.created_at)) < ?)
+       GROUP BY i.invoice_id, o.order_id
+       ORDER BY i.issued_at`,
+      [providerId, yearStr, monthStr, ...payableStatuses, `${yearStr}-${monthStr}`]
+    );
+    const creditNotes = [...(result.rows || []), ...(subOrderResult.rows || [])]
+      .map((row) => ({ ...row, amount: parseFloat(row.amount) || 0 }));
+    return {
+      creditNotes,
+      total: creditNotes.reduce((sum, row) => sum + row.amount, 0),
+    };
+  }
+
+  /**
+   * Revenue, refunds, platform fee and payout per provider for a month.
+   * Providers are paid their share of net revenue (revenue minus credit notes).
+   */
+  async calculateMonthlyReport(year, month) {
+    const period = periodOf(year, month);
+    const [yearStr, monthStr] = period.split('-');
+    const targetMonth = Number(monthStr);
+
+    const { rows: providerRows } = await db.query(`
+      SELECT DISTINCT u.user_id, u.username, u.company_name, u.email, u.iban, u.bic
+      FROM users u
+      JOIN provider_sets ps ON u.user_id = ps.provider_id
+      WHERE u.role = 'provider' AND (u.is_active = 1 OR u.is_active IS NULL)
+    `, []);
+
+    const providers = [];
+    let total_revenue = 0;
+    let total_refunds = 0;
+    let total_platform_fees = 0;
+    let total_provider_payments = 0;
+
+    for (const p of providerRows) {
+      const ordersResult = await db.query(
+        `SELECT o.order_id, o.order_number, o.order_date, o.total_amount, o.status
+         FROM orders o
+         WHERE o.provider_id = ? AND strftime('%Y', o.order_date) = ? AND strftime('%m', o.order_date) = ?
+         AND o.status IN (${PAYABLE_STATUSES.map(() => '?').join(', ')})`,
+        [p.user_id, yearStr, monthStr, ...PAYABLE_STATUSES]
+      );
+      const orders = ordersResult.rows || [];
+      const rev = orders.reduce((sum, o) => sum + (parseFloat(o.total_amount) || 0), 0);
+      // Credit notes reduce the revenue the fee split is applied to
+      const refunds = await this.getProviderRefunds(p.user_id, yearStr, monthStr, PAYABLE_STATUSES);
+      const netRevenue = rev - refunds.total;
+      const platformPct = PLATFORM_FEE_PERCENTAGE;
+      const providerPct = 100 - PLATFORM_FEE_PERCENTAGE;
+      const platform_fee_amount = netRevenue * (platformPct / 100);
+      const provider_payment = netRevenue * (providerPct / 100);
+      total_revenue += rev;
+      total_refunds += refunds.total;
+      total_platform_fees += platform_fee_amount;
+      total_provider_payments += provider_payment;
+      providers.push({
+        provider_id: p.user_id,
+        provider_name: p.username || '',
+        provider_company: p.company_name || '',
+        provider_email: p.email || '',
+        provider_has_iban: validateIban(p.iban).valid,
+        provider_markup_percentage: providerPct,
+        total_orders: orders.length,
+        total_revenue: rev,
+        total_refunds: refunds.total,
+        platform_fee_percentage: platformPct,
+        platform_fee_amount,
+        provider_payment,
+        orders: orders.map((o) => ({
+          order_id: o.order_id,
+          order_number: o.order_number,
+          order_date: o.order_date,
+          total_amount: parseFloat(o.total_amount) || 0,
+          status: o.status,
+          payment_status: o.status,
+        })),
+        credit_notes: refunds.creditNotes,
+      });
+    }
+
+    return {
+      month: MONTH_NAMES[targetMonth - 1],
+      year: Number(yearStr),
+      total_providers: providers.length,
+      total_revenue,
+      total_refunds,
+      total_platform_fees,
+      total_provider_payments,
+      providers,
+    };
+  }
+
+  /** The batch for a period that is not cancelled, if any. */
+  async getActiveBatch(year, month) {
+    const { rows } = await db.query(
+      `SELECT * FROM payout_batches WHERE period = ? AND status <> 'cancelled'
+      ORDER BY batch_id DESC LIMIT 1`,
+      [periodOf(year, month)]
+    );
+    return rows[0] ? this.getBatch(rows[0].batch_id) : null;
+  }
+
+  /** A batch with its items; the XML itself is only returned by getPain001. */
+  async getBatch(batchId) {
+    const { rows } = await db.query('SELECT * FROM payout_batches WHERE batch_id = ?', [batchId]);
+    if (rows.length === 0) {
+      return null;
+    }
+    const { pain001_xml: xml, ...batch } = rows[0];
+    const { rows: items } = await db.query(
+      `SELECT i.*, u.iban AS profile_iban, u.bic AS profile_bic
+      FROM payout_batch_items i
+      LEFT JOIN users u ON u.user_id = i.provider_id
+      WHERE i.batch_id = ?
+      ORDER BY i.provider_name, i.item_id`,
+      [batchId]
+    );
+    return {
+      ...batch,
+      has_file: Boolean(xml),
+      items: items.map(({ profile_iban: profileIban, profile_bic: profileBic, ...item }) => {
+        // Drafts read bank details from the profile, so fixing a profile fixes the draft
+        const iban = batch.status === 'draft' ? profileIban : item.iban;
+        const bic = batch.status === 'draft' ? profileBic : item.bic;
+        return {
+          ...item,
+          iban: iban || null,
+          bic: bic || null,
+          iban_valid: validateIban(iban).valid,
+        };
+      }),
+    };
+  }
+
+  async listBatches({ year = null, month = null } = {}) {
+    const conditions = [];
+    const params = [];
+    if (year && month) {
+      conditions.push('period = ?');
+      params.push(periodOf(year, month));
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const { rows } = await db.query(
+      `SELECT batch_id FROM payout_batches ${where} ORDER BY period DESC, batch_id DESC`,
+      params
+    );
+    return Promise.all(rows.map((row) => this.getBatch(row.batch_id)));
+  }
+
+  /**
+   * Create the draft payout batch for a month from its report. An existing
+   * draft is replaced; an approved or paid batch blocks a new one.
+   */
+  async createDraftBatch(year, month, createdBy = null) {
+    const period = periodOf(year, month);
+    const existing = await this.getActiveBatch(year, month);
+    if (existing && existing.status !== 'draft') {
+      throw validationError(`Payouts for ${period} are already ${existing.status} (${existing.batch_reference})`);
+    }
+
+    const report = await this.calculateMonthlyReport(year, month);
+    const payable = report.providers
+      .map((provider) => ({ ...provider, amount: roundMoney(provider.provider_payment) }))
+      .filter((provider) => provider.amount > 0);
+    if (payable.length === 0) {
+      throw validationError(`No provider payouts for ${period}`);
+    }
+
+    if (existing) {
+      await db.run('DELETE FROM payout_batch_items WHERE batch_id = ?', [existing.batch_id]);
+      await db.run('DELETE FROM payout_batches WHERE batch_id = ?', [existing.batch_id]);
+    }
+
+    const total = roundMoney(payable.reduce((sum, provider) => sum + provider.amount, 0));
+    const result = await db.run(
+      `INSERT INTO payout_batches (period, status, total_amount, payment_count, created_by)
+      VALUES (?, 'draft', ?, ?, ?)`,
+      [period, total, payable.length, createdBy]
+    );
+    const batchId = result.lastID;
+    const batchReference = `PAYOUT-${period}-${String(batchId).padStart(4, '0')}`;
+    await db.run('UPDATE payout_batches SET batch_reference = ? WHERE batch_id = ?', [batchReference, batchId]);
+
+    for (const provider of payable) {
+      await db.run(
+        `INSERT INTO payout_batch_items (batch_id, provider_id, provider_name, amount, end_to_end_id, remittance_info)
+        VALUES (?, ?, ?, ?, ?, ?)`,
+        [
+          batchId,
+          provider.provider_id,
+          provider.provider_company || provider.provider_name,
+          provider.amount,
+          `${batchReference}-${provider.provider_id}`,
+          `${report.month} ${report.year} payout ${batchReference}`,
+        ]
+      );
+    }
+    return this.getBatch(batchId);
+  }
+
+  /**
+   * Approve a draft: snapshot the providers' bank details and generate the
+   * pain.001 file. Every provider needs a valid IBAN, and so does the company.
+   */
+  async approveBatch(batchId, { executionDate = null, approvedBy = null } = {}) {
+    const batch = await this.getBatch(batchId);
+    if (!batch) {
+      return null;
+    }
+    if (batch.status !== 'draft') {
+      throw validationError(`Batch has already been ${batch.status}`);
+    }
+
+    const date = executionDate || nextBusinessDay();
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || Number.isNaN(Date.parse(date))) {
+      throw validationError('Execution date must be a date (YYYY-MM-DD)');
+    }
+
+    const missing = batch.items.filter((item) => !item.iban_valid).map((item) => item.provider_name);
+    if (missing.length > 0) {
+      throw validationError(`Missing or invalid IBAN for: ${missing.join(', ')}`);
+    }
+
+    const settings = await invoiceService.getSettings();
+    const companyIban = validateIban(settings.bank_iban);
+    if (!companyIban.valid) {
+      throw validationError('The company bank IBAN in settings is not a valid IBAN');
+    }
+    const companyBic = validateBic(settings.bank_swift);
+
+    const payments = batch.items.map((item) => {
+      const bic = validateBic(item.bic);
+      return {
+        endToEndId: item.end_to_end_id,
+        amount: item.amount,
+        name: item.provider_name,
+        iban: validateIban(item.iban).iban,
+        bic: bic.valid ? bic.bic : null,
+        remittanceInformation: item.remittance_info,
+      };
+    });
+    const xml = buildPain001({
+      messageId: batch.batch_reference,
+      executionDate: date,
+      debtor: {
+        name: settings.company_name,
+        iban: companyIban.iban,
+        bic: companyBic.valid ? companyBic.bic : null,
+      },
+      payments,
+    });
+
+    for (let i = 0; i < batch.items.length; i++) {
+      await db.run(
+        'UPDATE payout_batch_items SET iban = ?, bic = ? WHERE item_id = ?',
+        [payments[i].iban, payments[i].bic, batch.items[i].item_id]
+      );
+    }
+    await db.run(
+      `UPDATE payout_batches
+      SET status = 'approved', execution_date = ?, message_id = ?, pain001_xml = ?,
+        approved_by = ?, approved_at = CURRENT_TIMESTAMP
+      WHERE batch_id = ?`,
+      [date, batch.batch_reference, xml, approvedBy, batchId]
+    );
+    return this.getBatch(batchId);
+  }
+
+  /** The generated pain.001 file of an approved or paid batch. */
+  async getPain001(batchId) {
+    const { rows } = await db.query(
+      'SELECT batch_reference, status, pain001_xml FROM payout_batches WHERE batch_id = ?',
+      [batchId]
+    );
+    if (rows.length === 0) {
+      return null;
+    }
+    if (!rows[0].pain001_xml) {
+      throw validationError('Approve the batch to generate its payment file');
+    }
+    return { filename: `${rows[0].batch_reference}.xml`, xml: rows[0].pain001_xml };
+  }
+
+  /** Record that the bank has executed an approved batch. */
+  async markPaid(batchId) {
+    const batch = await this.getBatch(batchId);
+    if (!batch) {
+      return null;
+    }
+    if (batch.status !== 'approved') {
+      throw validationError('Only approved batches can be marked as paid');
+    }
+    await db.run(
+      'UPDATE payout_batches SET status = \'paid\', paid_at = CURRENT_TIMESTAMP WHERE batch_id = ?',
+      [batchId]
+    );
+    return this.getBatch(batchId);
+  }
+
+  /** Cancel a draft; approved batches may already be at the bank. */
+  async cancelBatch(batchId) {
+    const batch = await this.getBatch(batchId);
+    if (!batch) {
+      return null;
+    }
+    if (batch.status !== 'draft') {
+      throw validationError('Only draft batches can be cancelled');
+    }
+    await db.run('UPDATE payout_batches SET status = \'cancelled\' WHERE batch_id = ?', [batchId]);
+    return this.getBatch(batchId);
+  }
+}
+
+module.exports = new ProviderPayoutService();
@@ -0,0 +1,507 @@
+/**
+ * Purchase Order Service
+ *
+ * Purchase orders to suppliers: draft -> sent -> partially_received ->
+ * received (or cancelled before anything arrives). Drafts can be generated
+ * from parts at or below their reorder point (see utils/purchasePlanning;
+ * parts with order history use the demand forecast over the supplier's lead
+ * time), one per supplier. Receiving goods against a sent order creates a confirmed
+ * receipt, which posts the stock income; the quantities received per line
+ * are counted from the confirmed receipts linked to the order, so cancelling
+ * or editing such a receipt is reflected in the order status.
+ */
+
+const db = require('../utils/sqliteConnectionManager');
+const receiptService = require('./receiptService');
+const { PURCHASE_ORDER_STATUSES, DEFAULT_LEAD_TIME_DAYS, reorderPlan, receivingStatus } = require('../utils/purchasePlanning');
+const inventoryAI = require('../ai/inventory-optimization');
+
+const RECEIVABLE_STATUSES = ['sent', 'partially_received'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function roundMoney(value) {
+  return Math.round((Number(value) || 0) * 100) / 100;
+}
+
+function today() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function addDays(date, days) {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().slice(0, 10);
+}
+
+function validationError(message) {
+  const error = new Error(message);
+  error.name = 'ValidationError';
+  return error;
+}
+
+function notFoundError(message) {
+  const error = new Error(message);
+  error.name = 'NotFoundError';
+  return error;
+}
+
+function checkDate(value, field) {
+  if (value && !DATE_PATTERN.test(value)) {
+    throw validationError(`${field} must be a date (YYYY-MM-DD)`);
+  }
+}
+
+/** Validate order lines and compute their totals. */
+function normalizeItems(items) {
+  if (!Array.isArray(items)) {
+    throw validationError('items must be a list');
+  }
+  return items.map((item, index) => {
+    const quantity = Number(item.quantity_ordered ?? item.quantity);
+    const unitPrice = Number(item.unit_price ?? 0);
+    if (!item.part_id) {
+      throw validationError(`Line ${index + 1}: part_id is required`);
+    }
+    if (!Number.isFinite(quantity) || quantity <= 0) {
+      throw validationError(`Line ${index + 1}: quantity must be greater than 0`);
+    }
+    if (!Number.isFinite(unitPrice) || unitPrice < 0) {
+      throw validationError(`Line ${index + 1}: unit_price must be 0 or more`);
+    }
+    return {
+      part_id: Number(item.part_id),
+      quantity_ordered: quantity,
+      unit_price: unitPrice,
+      line_total: roundMoney(quantity * unitPrice),
+      notes: item.notes || null,
+    };
+  });
+}
+
+class PurchaseOrderService {
+  async listPurchaseOrders({ page = 1, limit = 20, status, supplierId } = {}) {
+    const conditions = [];
+    const params = [];
+    if (status) {
+      if (!PURCHASE_ORDER_STATUSES.includes(status)) {
+        throw validationError(`status must be one of: ${PURCHASE_ORDER_STATUSES.join(', ')}`);
+      }
+      conditions.push('po.status = ?');
+      params.push(status);
+    }
+    if (supplierId) {
+      conditions.push('po.supplier_id = ?');
+      params.push(supplierId);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const pageSize = Math.min(Math.max(parseInt(limit) || 20, 1), 200);
+    const pageNumber = Math.max(parseInt(page) || 1, 1);
+
+    const { rows } = await db.query(
+      `SELECT po.*, s.name AS supplier_name, COUNT(poi.po_item_id) AS item_count
+      FROM purchase_orders po
+      LEFT JOIN suppliers s ON po.supplier_id = s.supplier_id
+      LEFT JOIN purchase_order_items poi ON poi.po_id = po.po_id
+      ${where}
+      GROUP BY po.po_id
+      ORDER BY po.created_at DESC, po.po_id DESC
+      LIMIT ? OFFSET ?`,
+      [...params, pageSize, (pageNumber - 1) * pageSize]
+    );
+    const { rows: countRows } = await db.query(`SELECT COUNT(*) AS total FROM purchase_orders po ${where}`, params);
+    const total = Number(countRows[0].total) || 0;
+
+    return {
+      purchase_orders: rows,
+      pagination: { page: pageNumber, limit: pageSize, total, pages: Math.ceil(total / pageSize) },
+    };
+  }
+
+  /** Purchase order with its supplier, lines and the receipts posted against it. */
+  async getPurchaseOrder(poId) {
+    const { rows } = await db.query(
+      `SELECT po.*, s.name AS supplier_name, s.email AS supplier_email, s.contact_name AS supplier_contact_name,
+        s.lead_time_days, s.minimum_order_quantity
+      FROM purchase_orders po
+      LEFT JOIN suppliers s ON po.supplier_id = s.supplier_id
+      WHERE po.po_id = ?`,
+      [poId]
+    );
+    if (rows.length === 0) {
+      throw notFoundError('Purchase order not found');
+    }
+    const { rows: items } = await db.query(
+      `SELECT poi.*, p.part_number, p.name AS part_name, p.unit_of_measure, p.supplier_part_number, p.stock_quantity
+      FROM purchase_order_items poi
+      LEFT JOIN parts p ON poi.part_id = p.part_id
+      WHERE poi.po_id = ?
+      ORDER BY poi.po_item_id`,
+      [poId]
+    );
+    const { rows: receipts } = await db.query(
+      `SELECT receipt_id, receipt_number, purchase_date, total_amount, status
+      FROM receipts
+      WHERE purchase_order_id = ?
+      ORDER BY receipt_id`,
+      [poId]
+    );
+    return { ...rows[0], items, receipts };
+  }
+
+  /** Next free number of the form PO-<year>-0001. */
+  async getNextNumber() {
+    const prefix = `PO-${new Date().getFullYear()}-`;
+    const { rows } = await db.query(
+      'SELECT po_number FROM purchase_orders WHERE po_number LIKE ? ORDER BY po_number DESC LIMIT 1',
+      [`${prefix}%`]
+    );
+    const last = rows.length > 0 ? parseInt(rows[0].po_number.slice(prefix.length)) || 0 : 0;
+    return `${prefix}${String(last + 1).padStart(4, '0')}`;
+  }
+
+  async createPurchaseOrder(data, userId = null) {
+    const supplier = await this.getActiveSupplier(data.supplier_id);
+    const items = normalizeItems(data.items || []);
+    await this.checkPartsExist(items);
+    checkDate(data.order_date, 'order_date');
+    checkDate(data.expected_date, 'expected_date');
+
+    const { lastID: poId } = await db.run(
+      `INSERT INTO purchase_orders (
+        po_number, supplier_id, status, order_date, expected_date, currency, total_amount, notes,
+        created_by, created_at, updated_at
+      ) VALUES (?, ?, 'draft', ?, ?, ?, ?, ?, ?, datetime('now'), datetime('now'))`,
+      [
+        data.po_number || (await this.getNextNumber()),
+        supplier.supplier_id,
+        data.order_date || null,
+        data.expected_date || null,
+        data.currency || supplier.currency || 'EUR',
+        roundMoney(items.reduce((sum, item) => sum + item.line_total, 0)),
+        data.notes || null,
+        userId,
+      ]
+    );
+    await this.insertItems(poId, items);
+    return this.getPurchaseOrder(poId);
+  }
+
+  /** Update a draft: header fields and, when `items` is given, its lines. */
+  async updatePurchaseOrder(poId, data) {
+    const order = await this.getPurchaseOrder(poId);
+    if (order.status !== 'draft') {
+      throw validationError(`Only draft purchase orders can be edited (this one is ${order.status})`);
+    }
+    if (data.supplier_id !== undefined && Number(data.supplier_id) !== order.supplier_id) {
+      await this.getActiveSupplier(data.supplier_id);
+    }
+    checkDate(data.order_date, 'order_date');
+    checkDate(data.expected_date, 'expected_date');
+    const items = data.items !== undefined ? normalizeItems(data.items) : null;
+    if (items) {
+      await this.checkPartsExist(items);
+    }
+
+    const fields = ['po_number', 'supplier_id', 'order_date', 'expected_date', 'currency', 'notes'];
+    const updates = fields.filter((field) => data[field] !== undefined);
+    const values = updates.map((field) => data[field]);
+    if (items) {
+      updates.push('total_amount');
+      values.push(roundMoney(items.reduce((sum, item) => sum + item.line_total, 0)));
+    }
+    if (updates.includes('po_number') && !data.po_number) {
+      throw validationError('po_number is required');
+    }
+    await db.run(
+      `UPDATE purchase_orders SET ${updates.map((field) => `${field} = ?, `).join('')}updated_at = datetime('now')
+      WHERE po_id = ?`,
+      [...values, poId]
+    );
+    if (items) {
+      await db.run('DELETE FROM purchase_order_items WHERE po_id = ?', [poId]);
+      await this.insertItems(poId, items);
+    }
+    return this.getPurchaseOrder(poId);
+  }
+
+  /**
+   * Mark a draft as sent to the supplier. The order date defaults to today
+   * and the expected date to the order date plus the supplier's lead time.
+   */
+  async sendPurchaseOrder(poId) {
+    const order = await this.getPurchaseOrder(poId);
+    if (order.status !== 'draft') {
+      throw validationError(`Only draft purchase orders can be sent (this one is ${order.status})`);
+    }
+    if (order.items.length === 0) {
+      throw validationError('The purchase order has no lines');
+    }
+    const orderDate = order.order_date || today();
+    const expectedDate = order.expected_date || addDays(orderDate, Number(order.lead_time_days) || 0);
+    await db.run(
+      `UPDATE purchase_orders SET status = 'sent', order_date = ?, expected_date = ?,
+        sent_at = datetime('now'), updated_at = datetime('now')
+      WHERE po_id = ?`,
+      [orderDate, expectedDate, poId]
+    );
+    return this.getPurchaseOrder(poId);
+  }
+
+  /** Cancel an order nothing has been received against yet. */
+  async cancelPurchaseOrder(poId) {
+    const order = await this.getPurchaseOrder(poId);
+    if (!['draft', 'sent'].includes(order.status)) {
+      throw validationError(`A ${order.status.replace('_', ' ')} purchase order cannot be cancelled`);
+    }
+    await db.run(
+      `UPDATE purchase_orders SET status = 'cancelled', cancelled_at = datetime('now'), updated_at = datetime('now')
+      WHERE po_id = ?`,
+      [poId]
+    );
+    return this.getPurchaseOrder(poId);
+  }
+
+  /** Delete a draft or cancelled order that has no receipts. */
+  async deletePurchaseOrder(poId) {
+    const order = await this.getPurchaseOrder(poId);
+    if (!['draft', 'cancelled'].includes(order.status) || order.receipts.length > 0) {
+      throw validationError('Only draft or cancelled purchase orders without receipts can be deleted');
+    }
+    await db.run('DELETE FROM purchase_order_items WHERE po_id = ?', [poId]);
+    await db.run('DELETE FROM purchase_orders WHERE po_id = ?', [poId]);
+  }
+
+  /**
+   * Receive goods against a sent order: creates a confirmed receipt (posting
+   * the stock income and part costs) and updates the received quantities and
+   * status. `data.items` lists { po_item_id, quantity, unit_price? }; without
+   * it everything still outstanding is received.
+   */
+  async receivePurchaseOrder(poId, data = {}, userId = null) {
+    const order = await this.getPurchaseOrder(poId);
+    if (!RECEIVABLE_STATUSES.includes(order.status)) {
+      throw validationError(`Goods can only be received on sent purchase orders (this one is ${order.status})`);
+    }
+    checkDate(data.purchase_date, 'purchase_date');
+    const lines = new Map(order.items.map((item) => [item.po_item_id, item]));
+    const requested = data.items !== undefined
+      ? data.items
+      : order.items.map((item) => ({
+        po_item_id: item.po_item_id,
+        quantity: Number(item.quantity_ordered) - (Number(item.quantity_received) || 0),
+      })).filter((item) => item.quantity > 0);
+    if (!Array.isArray(requested) || requested.length === 0) {
+      throw validationError('Nothing to receive');
+    }
+
+    const items = requested.map((item, index) => {
+      const line = lines.get(Number(item.po_item_id));
+      if (!line) {
+        throw validationError(`Line ${index + 1}: not a line of purchase order ${order.po_number}`);
+      }
+      return {
+        part_id: line.part_id,
+        po_item_id: line.po_item_id,
+        quantity: item.quantity,
+        unit_price: item.unit_price ?? line.unit_price,
+        lot_number: item.lot_number,
+        expiry_date: item.expiry_date,
+        notes: item.notes || null,
+      };
+    });
+
+    const receipt = await receiptService.createReceipt({
+      receipt_number: data.receipt_number,
+      supplier: order.supplier_name,
+      purchase_date: data.purchase_date || today(),
+      currency: order.currency,
+      tax_amount: data.tax_amount,
+      notes: data.notes || `Purchase order ${order.po_number}`,
+      purchase_order_id: order.po_id,
+      status: 'confirmed',
+      items,
+    }, userId);
+    const purchaseOrder = await this.refreshReceiving(poId);
+    return { purchase_order: purchaseOrder, receipt };
+  }
+
+  /**
+   * Recount the quantities received per line from the confirmed receipts
+   * linked to the order and update its status. Called after receiving, and
+   * after a linked receipt is edited, cancelled or deleted.
+   */
+  async refreshReceiving(poId) {
+    await db.run(
+      `UPDATE purchase_order_items SET quantity_received = (
+        SELECT COALESCE(SUM(ri.quantity), 0)
+        FROM receipt_items ri
+        INNER JOIN receipts r ON ri.receipt_id = r.receipt_id
+        WHERE ri.po_item_id = purchase_order_items.po_item_id AND r.status = 'confirmed'
+      )
+      WHERE po_id = ?`,
+      [poId]
+    );
+    const order = await this.getPurchaseOrder(poId);
+    if (![...RECEIVABLE_STATUSES, 'received'].includes(order.status)) {
+      return order;
+    }
+    const status = receivingStatus(order.items);
+    if (status !== order.status) {
+      await db.run(
+        `UPDATE purchase_orders SET status = ?,
+          received_at = CASE WHEN ? = 'received' THEN datetime('now') ELSE NULL END,
+          updated_at = datetime('now')
+        WHERE po_id = ?`,
+        [status, status, poId]
+      );
+      return this.getPurchaseOrder(poId);
+    }
+    return order;
+  }
+
+  /**
+   * Reorder plan of every part: reorder point, quantity to order and whether
+   * it needs reordering. Stock on open purchase orders (drafts included)
+   * counts towards the stock position, so generating orders twice does not
+   * double them. Parts link to a supplier through supplier_id, or by the
+   * free-text supplier name.
+   */
+  async getReorderPlans() {
+    const { rows } = await db.query(
+      `SELECT p.part_id, p.part_number, p.name AS part_name, p.unit_of_measure, p.unit_cost,
+        p.stock_quantity, p.minimum_stock_level, p.supplier_part_number,
+        s.supplier_id, s.name AS supplier_name, s.lead_time_days, s.minimum_order_quantity,
+        COALESCE((
+          SELECT SUM(sp.quantity * oi.quantity)
+          FROM set_parts sp
+          INNER JOIN order_items oi ON oi.set_id = sp.set_id
+          INNER JOIN orders o ON oi.order_id = o.order_id
+          WHERE sp.part_id = p.part_id AND o.status != 'cancelled'
+            AND o.order_date >= datetime('now', '-180 days')
+        ), 0) AS usage_6_months,
+        COALESCE((
+          SELECT SUM(MAX(poi.quantity_ordered - poi.quantity_received, 0))
+          FROM purchase_order_items poi
+          INNER JOIN purchase_orders po ON poi.po_id = po.po_id
+          WHERE poi.part_id = p.part_id AND po.status IN ('draft', 'sent', 'partially_received')
+        ), 0) AS on_order
+      FROM parts p
+      LEFT JOIN suppliers s ON s.supplier_id = COALESCE(
+        p.supplier_id,
+        (SELECT s2.supplier_id FROM suppliers s2 WHERE s2.name = TRIM(p.supplier))
+      )
+      WHERE p.stock_quantity IS NOT NULL
+      ORDER BY p.part_number`
+    );
+    const demand = await inventoryAI.getDemandModels();
+
+    return rows
+      .map((part) => {
+        const leadTime = Number(part.lead_time_days) > 0 ? Number(part.lead_time_days) : DEFAULT_LEAD_TIME_DAYS;
+        const forecast = inventoryAI.leadTimeForecast(demand, part.part_id, leadTime);
+        const plan = reorderPlan({
+          stock: part.stock_quantity,
+          minimumStockLevel: part.minimum_stock_level,
+          usage: part.usage_6_months,
+          unitCost: part.unit_cost,
+          leadTimeDays: part.lead_time_days,
+          minimumOrderQuantity: part.minimum_order_quantity,
+          onOrder: part.on_order,
+          leadTimeForecast: forecast,
+        });
+        return {
+          ...part,
+          daily_usage: plan.dailyUsage,
+          reorder_point: plan.reorderPoint,
+          lead_time_demand: forecast ? forecast.point : null,
+          safety_stock: forecast ? Math.max(plan.reorderPoint - forecast.point, 0) : null,
+          economic_order_quantity: plan.economicOrderQuantity,
+          needs_reorder: plan.needsReorder,
+          suggested_quantity: plan.orderQuantity,
+        };
+      });
+  }
+
+  /** Parts at or below their reorder point, with the quantity to order. */
+  async getReorderSuggestions() {
+    return (await this.getReorderPlans()).filter((part) => part.needs_reorder);
+  }
+
+  /**
+   * Create one draft purchase order per (active) supplier for the parts that
+   * need reordering, priced at the parts' current unit cost. Parts without a
+   * supplier are returned in `unassigned`.
+   */
+  async generateFromLowStock(userId = null, { supplierIds } = {}) {
+    const suggestions = await this.getReorderSuggestions();
+    const wanted = Array.isArray(supplierIds) && supplierIds.length > 0 ? supplierIds.map(Number) : null;
+    const bySupplier = new Map();
+    const unassigned = [];
+    suggestions.forEach((part) => {
+      if (!part.supplier_id) {
+        unassigned.push(part);
+        return;
+      }
+      if (wanted && !wanted.includes(part.supplier_id)) {
+        return;
+      }
+      if (!bySupplier.has(part.supplier_id)) {
+        bySupplier.set(part.supplier_id, []);
+      }
+      bySupplier.get(part.supplier_id).push(part);
+    });
+
+    const purchaseOrders = [];
+    for (const [supplierId, parts] of bySupplier) {
+      const { rows } = await db.query('SELECT is_active FROM suppliers WHERE supplier_id = ?', [supplierId]);
+      if (rows.length === 0 || !rows[0].is_active) {
+        continue;
+      }
+      purchaseOrders.push(await this.createPurchaseOrder({
+        supplier_id: supplierId,
+        notes: 'Generated from low stock',
+        items: parts.map((part) => ({
+          part_id: part.part_id,
+          quantity: part.suggested_quantity,
+          unit_price: Number(part.unit_cost) || 0,
+        })),
+      }, userId));
+    }
+    return { purchase_orders: purchaseOrders, unassigned };
+  }
+
+  async getActiveSupplier(supplierId) {
+    if (!supplierId) {
+      throw validationError('supplier_id is required');
+    }
+    const { rows } = await db.query('SELECT * FROM suppliers WHERE supplier_id = ?', [supplierId]);
+    if (rows.length === 0) {
+      throw validationError(`Supplier ${supplierId} does not exist`);
+    }
+    if (!rows[0].is_active) {
+      throw validationError(`Supplier ${rows[0].name} is inactive`);
+    }
+    return rows[0];
+  }
+
+  async insertItems(poId, items) {
+    for (const item of items) {
+      await db.run(
+        `INSERT INTO purchase_order_items (po_id, part_id, quantity_ordered, unit_price, line_total, notes)
+        VALUES (?, ?, ?, ?, ?, ?)`,
+        [poId, item.part_id, item.quantity_ordered, item.unit_price, item.line_total, item.notes]
+      );
+    }
+  }
+
+  async checkPartsExist(items) {
+    for (const item of items) {
+      const { rows } = await db.query('SELECT 1 FROM parts WHERE part_id = ?', [item.part_id]);
+      if (rows.length === 0) {
+        throw validationError(`Part ${item.part_id} does not exist`);
+      }
+    }
+  }
+}
+
+module.exports = new PurchaseOrderService();
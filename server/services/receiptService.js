@@ -0,0 +1,419 @@
+/**
+ * Receipt Service
+ *
+ * Purchase receipts for parts. A receipt is entered as a draft; confirming
+ * it posts one 'income' inventory transaction per line (reference_type
+ * 'receipt_item') and blends the purchase price into the part's unit_cost
+ * at weighted-average cost. Cancelling a confirmed receipt posts
+ * 'income_reversal' transactions that take the same quantity and value back
+ * out; editing the lines of a confirmed receipt reverses the old lines and
+ * posts the new ones, so stock always matches the confirmed purchases.
+ * Lines may name a lot number and expiry date; the income is then booked
+ * into that lot (required for lot-tracked parts) and reversed out of it.
+ */
+
+const db = require('../utils/sqliteConnectionManager');
+const { receiveAtAverageCost, reverseAtAverageCost } = require('../utils/stockCosting');
+const { toDateOnly } = require('../utils/partLots');
+const partLotService = require('./partLotService');
+
+const SORT_COLUMNS = ['purchase_date', 'receipt_number', 'supplier', 'total_amount', 'status', 'created_at'];
+
+function roundMoney(value) {
+  return Math.round((Number(value) || 0) * 100) / 100;
+}
+
+function validationError(message) {
+  const error = new Error(message);
+  error.name = 'ValidationError';
+  return error;
+}
+
+function notFoundError(message) {
+  const error = new Error(message);
+  error.name = 'NotFoundError';
+  return error;
+}
+
+/** Validate receipt lines and compute their totals. */
+function normalizeItems(items) {
+  if (!Array.isArray(items)) {
+    throw validationError('items must be a list');
+  }
+  return items.map((item, index) => {
+    const quantity = Number(item.quantity);
+    const unitPrice = Number(item.unit_price);
+    if (!Number.isFinite(quantity) || quantity <= 0) {
+      throw validationError(`Line ${index + 1}: quantity must be greater than 0`);
+    }
+    if (!Number.isFinite(unitPrice) || unitPrice < 0) {
+      throw validationError(`Line ${index + 1}: unit_price must be 0 or more`);
+    }
+    if (item.expiry_date && !toDateOnly(item.expiry_date)) {
+      throw validationError(`Line ${index + 1}: expiry_date must be a date (YYYY-MM-DD)`);
+    }
+    return {
+      part_id: item.part_id ? Number(item.part_id) : null,
+      po_item_id: item.po_item_id ? Number(item.po_item_id) : null,
+      quantity,
+      unit_price: unitPrice,
+      line_total: roundMoney(quantity * unitPrice),
+      lot_number: String(item.lot_number || '').trim() || null,
+      expiry_date: item.expiry_date ? toDateOnly(item.expiry_date) : null,
+      notes: item.notes || null,
+    };
+  });
+}
+
+/** Quantity per part that lines add to stock. */
+function quantityByPart(items) {
+  const totals = new Map();
+  items.filter((item) => item.part_id).forEach((item) => {
+    totals.set(item.part_id, (totals.get(item.part_id) || 0) + Number(item.quantity));
+  });
+  return totals;
+}
+
+class ReceiptService {
+  async listReceipts({ page = 1, limit = 20, supplier, startDate, endDate, status, sortBy = 'purchase_date', sortOrder = 'DESC' } = {}) {
+    const conditions = [];
+    const params = [];
+    if (supplier) {
+      conditions.push('r.supplier LIKE ?');
+      params.push(`%${supplier}%`);
+    }
+    if (startDate) {
+      conditions.push('r.purchase_date >= ?');
+      params.push(startDate);
+    }
+    if (endDate) {
+      conditions.push('r.purchase_date <= ?');
+      params.push(endDate);
+    }
+    if (status) {
+      conditions.push('r.status = ?');
+      params.push(status);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const column = SORT_COLUMNS.includes(sortBy) ? sortBy : 'purchase_date';
+    const direction = String(sortOrder).toUpperCase() === 'ASC' ? 'ASC' : 'DESC';
+    const pageSize = Math.min(Math.max(parseInt(limit) || 20, 1), 200);
+    const pageNumber = Math.max(parseInt(page) || 1, 1);
+
+    const { rows } = await db.query(
+      `SELECT r.*, COUNT(ri.receipt_item_id) AS item_count
+      FROM receipts r
+      LEFT JOIN receipt_items ri ON ri.receipt_id = r.receipt_id
+      ${where}
+      GROUP BY r.receipt_id
+      ORDER BY r.${column} ${direction}, r.receipt_id DESC
+      LIMIT ? OFFSET ?`,
+      [...params, pageSize, (pageNumber - 1) * pageSize]
+    );
+    const { rows: countRows } = await db.query(`SELECT COUNT(*) AS total FROM receipts r ${where}`, params);
+    const total = Number(countRows[0].total) || 0;
+
+    return {
+      receipts: rows,
+      pagination: { page: pageNumber, limit: pageSize, total, pages: Math.ceil(total / pageSize) },
+    };
+  }
+
+  async getReceipt(receiptId) {
+    const { rows } = await db.query('SELECT * FROM receipts WHERE receipt_id = ?', [receiptId]);
+    if (rows.length === 0) {
+      throw notFoundError('Receipt not found');
+    }
+    const { rows: items } = await db.query(
+      `SELECT ri.*, p.part_number, p.name AS part_name, p.category, p.unit_of_measure,
+        p.supplier, p.supplier_part_number
+      FROM receipt_items ri
+      LEFT JOIN parts p ON ri.part_id = p.part_id
+      WHERE ri.receipt_id = ?
+      ORDER BY ri.receipt_item_id`,
+      [receiptId]
+    );
+    return { ...rows[0], items };
+  }
+
+  /** Next free number of the form RCP-<year>-0001. */
+  async getNextNumber() {
+    const prefix = `RCP-${new Date().getFullYear()}-`;
+    const { rows } = await db.query(
+      'SELECT receipt_number FROM receipts WHERE receipt_number LIKE ? ORDER BY receipt_number DESC LIMIT 1',
+      [`${prefix}%`]
+    );
+    const last = rows.length > 0 ? parseInt(rows[0].receipt_number.slice(prefix.length)) || 0 : 0;
+    return `${prefix}${String(last + 1).padStart(4, '0')}`;
+  }
+
+  /**
+   * Create a draft receipt with its lines. Passing status 'confirmed'
+   * confirms it straight away (posting the stock).
+   */
+  async createReceipt(data, userId = null) {
+    if (!data.purchase_date) {
+      throw validationError('purchase_date is required');
+    }
+    const items = normalizeItems(data.items || []);
+    await this.checkPartsExist(items);
+    if (data.status === 'confirmed') {
+      await this.checkLots(items);
+    }
+    const receiptNumber = data.receipt_number || (await this.getNextNumber());
+    const totalAmount = data.total_amount !== undefined && data.total_amount !== null
+      ? roundMoney(data.total_amount)
+      : roundMoney(items.reduce((sum, item) => sum + item.line_total, 0));
+
+    const { lastID: receiptId } = await db.run(
+      `INSERT INTO receipts (
+        receipt_number, supplier, purchase_date, total_amount, tax_amount, currency,
+        payment_method, notes, receipt_image_url, purchase_order_id, status, created_by, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'draft', ?, datetime('now'), datetime('now'))`,
+      [
+        receiptNumber,
+        data.supplier || null,
+        data.purchase_date,
+        totalAmount,
+        data.tax_amount !== undefined && data.tax_amount !== null ? roundMoney(data.tax_amount) : null,
+        data.currency || 'EUR',
+        data.payment_method || null,
+        data.notes || null,
+        data.receipt_image_url || null,
+        data.purchase_order_id || null,
+        userId,
+      ]
+    );
+    await this.insertItems(receiptId, items);
+
+    if (data.status === 'confirmed') {
+      return this.confirmReceipt(receiptId);
+    }
+    return this.getReceipt(receiptId);
+  }
+
+  /**
+   * Update the header and, when `items` is given, replace the lines. On a
+   * confirmed receipt the old lines are reversed and the new ones posted.
+   */
+  async updateReceipt(receiptId, data) {
+    const receipt = await this.getReceipt(receiptId);
+    if (receipt.status === 'cancelled') {
+      throw validationError('A cancelled receipt cannot be edited');
+    }
+    const items = data.items !== undefined ? normalizeItems(data.items) : null;
+    if (items) {
+      await this.checkPartsExist(items);
+    }
+    if (items && receipt.status === 'confirmed') {
+      await this.checkStockForReversal(receipt.items, items);
+      await this.checkLots(items);
+    }
+
+    const fields = ['receipt_number', 'supplier', 'purchase_date', 'total_amount', 'tax_amount', 'currency', 'payment_method', 'notes', 'receipt_image_url'];
+    const updates = fields.filter((field) => data[field] !== undefined);
+    const values = updates.map((field) => (field === 'total_amount' || field === 'tax_amount') && data[field] !== null
+      ? roundMoney(data[field])
+      : data[field]);
+    if (items && data.total_amount === undefined) {
+      updates.push('total_amount');
+      values.push(roundMoney(items.reduce((sum, item) => sum + item.line_total, 0)));
+    }
+    if (updates.includes('purchase_date') && !data.purchase_date) {
+      throw validationError('purchase_date is required');
+    }
+    updates.push('updated_at');
+    await db.run(
+      `UPDATE receipts SET ${updates.map((field) => (field === 'updated_at' ? `${field} = datetime('now')` : `${field} = ?`)).join(', ')}
+      WHERE receipt_id = ?`,
+      [...values, receiptId]
+    );
+
+    if (items) {
+      if (receipt.status === 'confirmed') {
+        await this.reverseItems(receipt, receipt.items, 'Receipt edited');
+      }
+      await db.run('DELETE FROM receipt_items WHERE receipt_id = ?', [receiptId]);
+      await this.insertItems(receiptId, items);
+      if (receipt.status === 'confirmed') {
+        const updated = await this.getReceipt(receiptId);
+        await this.postItems(updated, updated.items);
+      }
+    }
+    return this.getReceipt(receiptId);
+  }
+
+  /** Post the stock income of a draft receipt. */
+  async confirmReceipt(receiptId) {
+    const receipt = await this.getReceipt(receiptId);
+    if (receipt.status !== 'draft') {
+      throw validationError(`Only draft receipts can be confirmed (this one is ${receipt.status})`);
+    }
+    if (!receipt.items.some((item) => item.part_id)) {
+      throw validationError('The receipt has no part lines to post');
+    }
+    await this.checkLots(receipt.items);
+    await this.postItems(receipt, receipt.items);
+    await db.run(
+      `UPDATE receipts SET status = 'confirmed', confirmed_at = datetime('now'), updated_at = datetime('now')
+      WHERE receipt_id = ?`,
+      [receiptId]
+    );
+    return this.getReceipt(receiptId);
+  }
+
+  /** Cancel a receipt; a confirmed one has its stock income reversed. */
+  async cancelReceipt(receiptId) {
+    const receipt = await this.getReceipt(receiptId);
+    if (receipt.status === 'cancelled') {
+      throw validationError('The receipt is already cancelled');
+    }
+    if (receipt.status === 'confirmed') {
+      await this.checkStockForReversal(receipt.items, []);
+      await this.reverseItems(receipt, receipt.items, 'Receipt cancelled');
+    }
+    await db.run(
+      `UPDATE receipts SET status = 'cancelled', cancelled_at = datetime('now'), updated_at = datetime('now')
+      WHERE receipt_id = ?`,
+      [receiptId]
+    );
+    return this.getReceipt(receiptId);
+  }
+
+  /** Delete a draft or cancelled receipt (its inventory transactions stay in the log). */
+  async deleteReceipt(receiptId) {
+    const receipt = await this.getReceipt(receiptId);
+    if (receipt.status === 'confirmed') {
+      throw validationError('Cancel the receipt before deleting it, so its stock is reversed');
+    }
+    await db.run('DELETE FROM receipt_items WHERE receipt_id = ?', [receiptId]);
+    await db.run('DELETE FROM receipts WHERE receipt_id = ?', [receiptId]);
+  }
+
+  async insertItems(receiptId, items) {
+    for (const item of items) {
+      await db.run(
+        `INSERT INTO receipt_items (receipt_id, part_id, po_item_id, quantity, unit_price, line_total, lot_number, expiry_date, notes)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          receiptId, item.part_id, item.po_item_id, item.quantity, item.unit_price, item.line_total,
+          item.lot_number, item.expiry_date, item.notes,
+        ]
+      );
+    }
+  }
+
+  async checkPartsExist(items) {
+    for (const partId of quantityByPart(items).keys()) {
+      const { rows } = await db.query('SELECT 1 FROM parts WHERE part_id = ?', [partId]);
+      if (rows.length === 0) {
+        throw validationError(`Part ${partId} does not exist`);
+      }
+    }
+  }
+
+  /** Lot-tracked parts need a lot number on every line before the receipt posts stock. */
+  async checkLots(items) {
+    for (const item of items.filter((line) => line.part_id)) {
+      await partLotService.validateLot(item.part_id, item);
+    }
+  }
+
+  /**
+   * Reversing must not take a part below zero: stock that has been used
+   * since the receipt cannot be un-received. `newItems` are posted again
+   * right after (edits), so only the net decrease per part counts.
+   */
+  async checkStockForReversal(oldItems, newItems) {
+    const removed = quantityByPart(oldItems);
+    const added = quantityByPart(newItems);
+    for (const [partId, quantity] of removed) {
+      const decrease = quantity - (added.get(partId) || 0);
+      if (decrease <= 0) {
+        continue;
+      }
+      const { rows } = await db.query('SELECT part_number, stock_quantity FROM parts WHERE part_id = ?', [partId]);
+      const stock = rows.length > 0 ? Number(rows[0].stock_quantity) || 0 : 0;
+      if (stock < decrease) {
+        const partNumber = rows.length > 0 ? rows[0].part_number : partId;
+        throw validationError(`Only ${stock} of part ${partNumber} in stock; ${decrease} would have to be taken back`);
+      }
+    }
+  }
+
+  async postItems(receipt, items) {
+    for (const item of items.filter((line) => line.part_id)) {
+      const { rows } = await db.query('SELECT stock_quantity, unit_cost FROM parts WHERE part_id = ?', [item.part_id]);
+      const previousStock = Number(rows[0].stock_quantity) || 0;
+      const { stock, unitCost } = receiveAtAverageCost({
+        stock: previousStock,
+        unitCost: rows[0].unit_cost,
+        quantity: Number(item.quantity),
+        unitPrice: Number(item.unit_price),
+      });
+      const lot = item.lot_number
+        ? await partLotService.receive(item.part_id, { lot_number: item.lot_number, expiry_date: item.expiry_date }, Number(item.quantity), {
+          supplier: receipt.supplier,
+          sourceType: 'receipt_item',
+          sourceId: item.receipt_item_id,
+        })
+        : null;
+
+      await db.run('UPDATE parts SET stock_quantity = ?, unit_cost = ? WHERE part_id = ?', [stock, unitCost, item.part_id]);
+      await db.run(
+        `INSERT INTO inventory_transactions (
+          part_id, transaction_type, quantity, previous_stock, new_stock, reason, supplier,
+          cost_per_unit, purchase_date, reference_id, reference_type, lot_id
+        ) VALUES (?, 'income', ?, ?, ?, ?, ?, ?, ?, ?, 'receipt_item', ?)`,
+        [
+          item.part_id,
+          item.quantity,
+          previousStock,
+          stock,
+          `Receipt ${receipt.receipt_number}`,
+          receipt.supplier || '',
+          item.unit_price,
+          receipt.purchase_date,
+          item.receipt_item_id,
+          lot ? lot.lot_id : null,
+        ]
+      );
+    }
+  }
+
+  async reverseItems(receipt, items, reason) {
+    for (const item of items.filter((line) => line.part_id)) {
+      const { rows } = await db.query('SELECT stock_quantity, unit_cost FROM parts WHERE part_id = ?', [item.part_id]);
+      const previousStock = Number(rows[0].stock_quantity) || 0;
+      const { stock, unitCost } = reverseAtAverageCost({
+        stock: previousStock,
+        unitCost: rows[0].unit_cost,
+        quantity: Number(item.quantity),
+        unitPrice: Number(item.unit_price),
+      });
+      const lot = item.lot_number ? await partLotService.reverse(item.part_id, item.lot_number, Number(item.quantity)) : null;
+
+      await db.run('UPDATE parts SET stock_quantity = ?, unit_cost = ? WHERE part_id = ?', [stock, unitCost, item.part_id]);
+      await db.run(
+        `INSERT INTO inventory_transactions (
+          part_id, transaction_type, quantity, previous_stock, new_stock, reason, supplier,
+          cost_per_unit, purchase_date, reference_id, reference_type, lot_id
+        ) VALUES (?, 'income_reversal', ?, ?, ?, ?, ?, ?, ?, ?, 'receipt_item', ?)`,
+        [
+          item.part_id,
+          item.quantity,
+          previousStock,
+          stock,
+          `${reason}: ${receipt.receipt_number}`,
+          receipt.supplier || '',
+          item.unit_price,
+          receipt.purchase_date,
+          item.receipt_item_id,
+          lot ? lot.lot_id : null,
+        ]
+      );
+    }
+  }
+}
+
+module.exports = new ReceiptService();
@@ -0,0 +1,649 @@
+/**
+ * Return Service
+ *
+ * Return requests (RMAs) following utils/returnRequests. A customer reports
+ * order items or packing list parts of a shipped order with a reason and
+ * photos uploaded through /api/media; production approves the request with
+ * a resolution or rejects it, and completing an approved request carries
+ * the resolution out:
+ * - refund: a credit note on the order's invoice (creditNoteService), the
+ *   sets' parts optionally back to stock with it
+ * - replacement: the items or parts go out again, taken from stock and
+ *   booked as a parcel to the order's address (shipmentService)
+ * - restock: what the customer sent back goes back to stock
+ * Every status change is kept in return_request_history and both sides are
+ * notified. Requests for a split order are made on the parent order, whose
+ * sub-orders hold the items.
+ */
+
+const fs = require('fs').promises;
+const db = require('../utils/sqliteConnectionManager');
+const orderStatusService = require('./orderStatusService');
+const packingService = require('./packingService');
+const creditNoteService = require('./creditNoteService');
+const shipmentService = require('./shipmentService');
+const shippingService = require('./shippingService');
+const partLotService = require('./partLotService');
+const { normalizeStatus } = require('../utils/orderLifecycle');
+const { PICKUP_METHOD } = require('../utils/shippingRates');
+const {
+  INITIAL_RETURN_STATUS,
+  RETURN_REASONS,
+  RESOLUTIONS,
+  RETURNABLE_ORDER_STATUSES,
+  getReturnTransition,
+  allowedReturnTransitions,
+  returnableLines,
+  checkReturnLines,
+  allowedResolutions,
+  returnNumber,
+} = require('../utils/returnRequests');
+
+const MAX_PHOTOS = 10;
+
+const REASON_LABELS = {
+  missing_part: 'missing part',
+  damaged: 'damaged',
+  wrong_item: 'wrong item',
+  not_needed: 'not needed',
+  other: 'other',
+};
+
+function roundMoney(value) {
+  return Math.round((Number(value) || 0) * 100) / 100;
+}
+
+function validationError(message) {
+  const error = new Error(message);
+  error.name = 'ValidationError';
+  return error;
+}
+
+function notFoundError(message) {
+  const error = new Error(message);
+  error.name = 'NotFoundError';
+  return error;
+}
+
+function forbiddenError(message) {
+  const error = new Error(message);
+  error.name = 'ForbiddenError';
+  return error;
+}
+
+function conflictError(message, details) {
+  const error = new Error(message);
+  error.name = 'ConflictError';
+  error.details = details;
+  return error;
+}
+
+class ReturnService {
+  constructor() {
+    this.notificationService = null;
+  }
+
+  // Loaded on first use: the notification service opens its own connection to the database file
+  getNotificationService() {
+    if (!this.notificationService) {
+      const NotificationService = require('../utils/notificationService');
+      this.notificationService = new NotificationService();
+    }
+    return this.notificationService;
+  }
+
+  /** Whether a user may see and act on a request: customers only on their own. */
+  canActOn(request, { role, userId }) {
+    if (role === 'admin' || role === 'production') {
+      return true;
+    }
+    return role === 'customer' && Number(request.customer_id) === Number(userId);
+  }
+
+  /** The order a customer reports on, checked for ownership; sub-orders are reported on their parent. */
+  async getCustomerOrder(orderId, user) {
+    const order = await orderStatusService.getOrder(orderId);
+    if (!orderStatusService.canActOn(order, user) || user.role === 'provider') {
+      throw forbiddenError('You can only report problems with your own orders');
+    }
+    if (order.parent_order_id) {
+      const parent = await orderStatusService.getOrder(order.parent_order_id);
+      throw validationError(`Order ${order.order_number} is part of order ${parent.order_number}; report it there`);
+    }
+    return order;
+  }
+
+  /**
+   * Items and packing list parts of the order's shipped (or delivered)
+   * orders, as lines { type, id, quantity, description, ... }.
+   */
+  async getOrderLines(order, language = 'en') {
+    const orders = [order, ...await orderStatusService.getSubOrders(order.order_id)]
+      .filter((candidate) => RETURNABLE_ORDER_STATUSES.includes(normalizeStatus(candidate.status)));
+    const items = [];
+    const parts = new Map();
+    for (const shipped of orders) {
+      const { rows } = await db.query(
+        `SELECT oi.order_item_id, oi.set_id, oi.quantity, oi.unit_price, s.name AS set_name
+        FROM order_items oi
+        JOIN sets s ON s.set_id = oi.set_id
+        WHERE oi.order_id = ?
+        ORDER BY oi.order_item_id`,
+        [shipped.order_id]
+      );
+      rows.forEach((row) => items.push({
+        type: 'item',
+        id: row.order_item_id,
+        quantity: Number(row.quantity),
+        description: row.set_name,
+        set_id: row.set_id,
+        unit_price: row.unit_price,
+        order_number: shipped.order_number,
+      }));
+      const { packingList } = await packingService.getPackingList(shipped.order_id, language);
+      packingList.filter((line) => line.type === 'part').forEach((line) => {
+        const partId = Number(line.part_id);
+        const part = parts.get(partId) || {
+          type: 'part',
+          id: partId,
+          quantity: 0,
+          description: line.part_name,
+          part_number: line.part_number,
+          image_url: line.image_url,
+          used_in_sets: [],
+        };
+        part.quantity += Number(line.total_quantity_needed);
+        part.used_in_sets.push(...line.used_in_sets.map((usage) => usage.set_name));
+        parts.set(partId, part);
+      });
+    }
+    return [...items, ...parts.values()];
+  }
+
+  /** Lines of the order's requests that still count against what can be reported. */
+  async getClaimedLines(orderId) {
+    const { rows } = await db.query(
+      `SELECT l.line_type AS type, COALESCE(l.order_item_id, l.part_id) AS id, l.quantity
+      FROM return_request_lines l
+      JOIN return_requests r ON r.return_id = l.return_id
+      WHERE r.order_id = ? AND r.status NOT IN ('rejected', 'cancelled')`,
+      [orderId]
+    );
+    return rows;
+  }
+
+  /** What the user can report on an order: { order, lines, reasons } with returnable quantities. */
+  async getReturnable(orderId, user, language = 'en') {
+    const order = await this.getCustomerOrder(orderId, user);
+    const lines = returnableLines(await this.getOrderLines(order, language), await this.getClaimedLines(order.order_id));
+    return { order, lines, reasons: RETURN_REASONS };
+  }
+
+  /**
+   * Open a return request on an order.
+   *
+   * @param {number} orderId
+   * @param {Object} request
+   * @param {string} request.reason - one of RETURN_REASONS
+   * @param {string} [request.description]
+   * @param {Array<{type: string, id: number, quantity: number}>} request.lines - order items (type item, id
+   *   order_item_id) and packing list parts (type part, id part_id)
+   * @param {number[]} [request.photoIds] - media_files ids from /api/media/upload
+   * @param {Object} user - { role, userId }
+   * @returns {Promise<Object>} the request as getRequest returns it
+   */
+  async createRequest(orderId, { reason, description = null, lines, photoIds = [] }, user, language = 'en') {
+    const order = await this.getCustomerOrder(orderId, user);
+    if (!RETURN_REASONS.includes(reason)) {
+      throw validationError(`Unknown reason: ${reason || '(none)'}. Use one of ${RETURN_REASONS.join(', ')}`);
+    }
+    const text = description ? String(description).trim() : '';
+    if (reason === 'other' && !text) {
+      throw validationError('Describe the problem');
+    }
+
+    const orderLines = await this.getOrderLines(order, language);
+    if (orderLines.length === 0) {
+      throw validationError(`Order ${order.order_number} has not been shipped yet`);
+    }
+    const returnable = returnableLines(orderLines, await this.getClaimedLines(order.order_id));
+    const checked = checkReturnLines(lines, returnable);
+    if (checked.errors.length > 0) {
+      throw validationError(checked.errors.join('; '));
+    }
+
+    const photos = [...new Set((photoIds || []).map(Number))];
+    if (photos.length > MAX_PHOTOS) {
+      throw validationError(`Attach at most ${MAX_PHOTOS} photos`);
+    }
+    if (photos.length > 0) {
+      const { rows } = await db.query(
+        `SELECT media_id FROM media_files WHERE media_id IN (${photos.map(() => '?').join(', ')})`,
+        photos
+      );
+      const missing = photos.filter((id) => !rows.some((row) => Number(row.media_id) === id));
+      if (missing.length > 0) {
+        throw validationError(`Photo ${missing.join(', ')} was not uploaded`);
+      }
+    }
+
+    const { rows: existing } = await db.query('SELECT COUNT(*) AS count FROM return_requests WHERE order_id = ?', [order.order_id]);
+    const { lastID: returnId } = await db.run(
+      `INSERT INTO return_requests (return_number, order_id, customer_id, status, reason, description)
+      VALUES (?, ?, ?, ?, ?, ?)`,
+      [returnNumber(order.order_number, Number(existing[0].count)), order.order_id, order.customer_id,
+        INITIAL_RETURN_STATUS, reason, text || null]
+    );
+    for (const line of checked.lines) {
+      await db.run(
+        `INSERT INTO return_request_lines (return_id, line_type, order_item_id, part_id, description, quantity)
+        VALUES (?, ?, ?, ?, ?, ?)`,
+        [returnId, line.type, line.type === 'item' ? line.id : null, line.type === 'part' ? line.id : null,
+          line.line.description, line.quantity]
+      );
+    }
+    for (const mediaId of photos) {
+      await db.run('INSERT INTO return_request_photos (return_id, media_id) VALUES (?, ?)', [returnId, mediaId]);
+    }
+    await this.addHistory(returnId, null, INITIAL_RETURN_STATUS, user.userId, text || REASON_LABELS[reason]);
+
+    const created = await this.getRequest(returnId);
+    await this.notify(created, { to: INITIAL_RETURN_STATUS, notify: ['production'] });
+    return created;
+  }
+
+  /** Requests, newest first; customers see only their own. Filters: status, orderId. */
+  async listRequests({ status = null, orderId = null } = {}, user) {
+    const conditions = [];
+    const params = [];
+    if (user.role === 'customer') {
+      conditions.push('r.customer_id = ?');
+      params.push(user.userId);
+    } else if (user.role !== 'admin' && user.role !== 'production') {
+      throw forbiddenError('You may not view return requests');
+    }
+    if (status) {
+      conditions.push('r.status = ?');
+      params.push(status);
+    }
+    if (orderId) {
+      conditions.push('r.order_id = ?');
+      params.push(orderId);
+    }
+    const { rows } = await db.query(
+      `${this.requestQuery()}
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY r.created_at DESC, r.return_id DESC`,
+      params
+    );
+    return Promise.all(rows.map((row) => this.withDetails(row, user)));
+  }
+
+  requestQuery() {
+    return `SELECT r.*, o.order_number, o.shipping_method, c.first_name AS customer_first_name,
+        c.last_name AS customer_last_name, COALESCE(o.customer_email, c.email) AS customer_email,
+        i.invoice_number AS credit_note_number
+      FROM return_requests r
+      JOIN orders o ON o.order_id = r.order_id
+      LEFT JOIN users c ON c.user_id = r.customer_id
+      LEFT JOIN invoices i ON i.invoice_id = r.credit_note_id`;
+  }
+
+  /** A request with its lines, photos and history; with a user, checked and with what they may do next. */
+  async getRequest(returnId, user = null) {
+    const { rows } = await db.query(`${this.requestQuery()} WHERE r.return_id = ?`, [returnId]);
+    if (rows.length === 0) {
+      throw notFoundError('Return request not found');
+    }
+    if (user && !this.canActOn(rows[0], user)) {
+      throw forbiddenError('You can only view your own return requests');
+    }
+    return this.withDetails(rows[0], user);
+  }
+
+  async withDetails(request, user = null) {
+    const { rows: lines } = await db.query(
+      `SELECT l.*, p.part_number, oi.set_id, oi.unit_price, oi.order_id AS item_order_id
+      FROM return_request_lines l
+      LEFT JOIN parts p ON p.part_id = l.part_id
+      LEFT JOIN order_items oi ON oi.order_item_id = l.order_item_id
+      WHERE l.return_id = ?
+      ORDER BY l.line_id`,
+      [request.return_id]
+    );
+    const { rows: photos } = await db.query(
+      `SELECT m.media_id, m.file_name, m.mime_type
+      FROM return_request_photos rp
+      JOIN media_files m ON m.media_id = rp.media_id
+      WHERE rp.return_id = ?
+      ORDER BY m.media_id`,
+      [request.return_id]
+    );
+    const { rows: history } = await db.query(
+      `SELECT h.*, u.first_name, u.last_name, u.role
+      FROM return_request_history h
+      LEFT JOIN users u ON u.user_id = h.changed_by
+      WHERE h.return_id = ?
+      ORDER BY h.changed_at, h.history_id`,
+      [request.return_id]
+    );
+    const { label_path: labelPath, ...rest } = request;
+    return {
+      ...rest,
+      has_label: Boolean(labelPath),
+      lines,
+      photos,
+      history,
+      allowed_transitions: user && this.canActOn(request, user) ? allowedReturnTransitions(request.status, user.role) : [],
+      allowed_resolutions: allowedResolutions(lines.map((line) => ({ type: line.line_type }))),
+    };
+  }
+
+  async addHistory(returnId, oldStatus, newStatus, changedBy, notes) {
+    await db.run(
+      `INSERT INTO return_request_history (return_id, old_status, new_status, changed_by, notes)
+      VALUES (?, ?, ?, ?, ?)`,
+      [returnId, oldStatus || null, newStatus, changedBy || null, notes || null]
+    );
+  }
+
+  /**
+   * Move a request to `status` as `user` ({ role, userId }).
+   * - approved needs a resolution (see allowedResolutions); a refund may set
+   *   lower amounts per line (`amounts`: [{ line_id, amount }]) and restock
+   * - rejected needs notes telling the customer why
+   * - completed carries the approved resolution out
+   * Returns the updated request.
+   */
+  async transition(returnId, status, { user, notes = null, resolution = null, restock = false, amounts = [], language = null }) {
+    const request = await this.getRequest(returnId);
+    const transition = getReturnTransition(request.status, status);
+    if (!transition) {
+      throw conflictError(
+        `Return request ${request.return_number} cannot go from ${request.status} to ${status || '(none)'}`,
+        { allowed: this.canActOn(request, user) ? allowedReturnTransitions(request.status, user.role) : [] }
+      );
+    }
+    if (!transition.roles.includes(user.role) || !this.canActOn(request, user)) {
+      throw forbiddenError(`You may not mark return request ${request.return_number} as ${status}`);
+    }
+    const text = notes ? String(notes).trim() : '';
+
+    const decision = status === 'approved' ? await this.checkApproval(request, { resolution, restock, amounts }) : null;
+    if (status === 'rejected' && !text) {
+      throw validationError('Tell the customer why the request is rejected');
+    }
+
+    // Guarded by the status read above, so two concurrent changes cannot both apply
+    const result = await db.run(
+      `UPDATE return_requests
+      SET status = ?, ${transition.timestamp} = datetime('now'), decided_by = COALESCE(?, decided_by),
+        resolution = COALESCE(?, resolution), restock = COALESCE(?, restock),
+        resolution_notes = COALESCE(?, resolution_notes), updated_at = datetime('now')
+      WHERE return_id = ? AND status = ?`,
+      [status, user.role === 'customer' ? null : user.userId, decision ? decision.resolution : null,
+        decision ? decision.restock : null, text || null, returnId, request.status]
+    );
+    if (!result.changes) {
+      throw conflictError(`Return request ${request.return_number} was changed meanwhile; reload and try again`);
+    }
+    if (decision) {
+      for (const { lineId, amount } of decision.amounts) {
+        await db.run('UPDATE return_request_lines SET amount = ? WHERE line_id = ?', [amount, lineId]);
+      }
+    }
+
+    let outcome = null;
+    if (status === 'completed') {
+      try {
+        outcome = await this.carryOut(request, { user, language });
+      } catch (error) {
+        // Steps that went through are recorded and skipped when completing is retried
+        await db.run(
+          `UPDATE return_requests SET status = ?, completed_at = NULL, updated_at = datetime('now')
+          WHERE return_id = ?`,
+          [request.status, returnId]
+        );
+        throw error;
+      }
+    }
+
+    await this.addHistory(returnId, request.status, status, user.userId, [outcome, text].filter(Boolean).join('. '));
+    const updated = await this.getRequest(returnId, user);
+    await this.notify(updated, transition, text);
+    return updated;
+  }
+
+  /**
+   * Check the resolution an approval decides on can be carried out. Returns
+   * { resolution, restock, amounts: [{ lineId, amount }] } to store.
+   */
+  async checkApproval(request, { resolution, restock, amounts }) {
+    const allowed = allowedResolutions(request.lines.map((line) => ({ type: line.line_type })));
+    if (!allowed.includes(resolution)) {
+      throw validationError(resolution && RESOLUTIONS.includes(resolution)
+        ? 'Only whole order items can be refunded; send a replacement for missing parts'
+        : `Choose a resolution: ${allowed.join(', ')}`);
+    }
+    const lineAmounts = [];
+    if (resolution === 'refund') {
+      const creditable = await creditNoteService.getCreditableItems(request.order_id);
+      if (!creditable) {
+        throw validationError(`Order ${request.order_number} has no invoice to credit; issue the invoice first`);
+      }
+      for (const { line_id: lineId, amount } of amounts || []) {
+        const line = request.lines.find((candidate) => Number(candidate.line_id) === Number(lineId));
+        if (!line) {
+          throw validationError(`Line ${lineId} is not on return request ${request.return_number}`);
+        }
+        if (amount === undefined || amount === null || amount === '') {
+          continue;
+        }
+        if (!(roundMoney(amount) > 0)) {
+          throw validationError(`Amount for "${line.description}" must be greater than zero`);
+        }
+        lineAmounts.push({ lineId: line.line_id, amount: roundMoney(amount) });
+      }
+    }
+    return {
+      resolution,
+      restock: resolution === 'restock' || (resolution === 'refund' && restock) ? 1 : 0,
+      amounts: lineAmounts,
+    };
+  }
+
+  /**
+   * Carry out an approved request's resolution; returns a note for the history.
+   * Each step is recorded as it is done (the credit note and the parcel on the
+   * request, stock moves in inventory_transactions), so a retry after a failed
+   * step carries on from there instead of repeating the earlier ones.
+   */
+  async carryOut(request, { user, language }) {
+    if (request.resolution === 'refund') {
+      if (request.credit_note_id) {
+        return `Credit note ${request.credit_note_number} issued`;
+      }
+      const creditNote = await creditNoteService.issueCreditNote(request.order_id, {
+        lines: request.lines.map((line) => ({ orderItemId: line.order_item_id, quantity: line.quantity, amount: line.amount })),
+        reason: `Return ${request.return_number}: ${REASON_LABELS[request.reason] || request.reason}`,
+        restock: Boolean(request.restock),
+        createdBy: user.userId,
+        language,
+      });
+      if (!creditNote) {
+        throw validationError(`Order ${request.order_number} has no invoice to credit`);
+      }
+      await db.run('UPDATE return_requests SET credit_note_id = ? WHERE return_id = ?', [creditNote.invoiceId, request.return_id]);
+      return `Credit note ${creditNote.invoiceNumber} issued`;
+    }
+
+    const parts = await this.getLineParts(request.lines);
+    if (request.resolution === 'restock') {
+      await this.moveStock(parts, 'in', request);
+      return 'Returned parts restocked';
+    }
+
+    const order = await orderStatusService.getOrder(request.order_id);
+    let trackingNumber = request.tracking_number;
+    if (!trackingNumber && order.shipping_method !== PICKUP_METHOD) {
+      const parcel = await shippingService.getParcel(
+        request.lines.filter((line) => line.line_type === 'item').map((line) => ({ set_id: line.set_id, quantity: line.quantity })),
+        request.lines.filter((line) => line.line_type === 'part').map((line) => ({ part_id: line.part_id, quantity: line.quantity }))
+      );
+      const booked = await shipmentService.bookParcel(order, { reference: request.return_number, weightG: parcel.weight_g || null });
+      // Stored before anything else can fail, so a retry does not book a second parcel
+      await db.run(
+        'UPDATE return_requests SET tracking_number = ?, weight_g = ?, label_path = ? WHERE return_id = ?',
+        [booked.trackingNumber, booked.weightG, booked.labelPath, request.return_id]
+      );
+      trackingNumber = booked.trackingNumber;
+      try {
+        const manifest = await shipmentService.getTodaysManifest(booked.adapter);
+        await db.run('UPDATE return_requests SET manifest_id = ? WHERE return_id = ?', [manifest.manifest_id, request.return_id]);
+        await shipmentService.writeManifest(manifest, booked.adapter);
+      } catch (error) {
+        console.error(`Error adding return ${request.return_number} to the manifest:`, error);
+      }
+    }
+    await this.moveStock(parts, 'out', request);
+    return trackingNumber
+      ? `Replacement shipped, tracking number ${trackingNumber}`
+      : 'Replacement ready for pickup from the lab';
+  }
+
+  /**
+   * Parts the request's lines stand for: a set's required parts per item, the
+   * part itself per part line. One entry per part, so each is moved in one go.
+   */
+  async getLineParts(lines) {
+    const parts = new Map();
+    const add = (partId, quantity, label) => {
+      const part = parts.get(Number(partId));
+      if (part) {
+        part.quantity += quantity;
+        part.label = `${part.label}, ${label}`;
+      } else {
+        parts.set(Number(partId), { part_id: partId, quantity, label });
+      }
+    };
+    for (const line of lines) {
+      if (line.line_type === 'part') {
+        add(line.part_id, Number(line.quantity), line.description);
+        continue;
+      }
+      const { rows } = await db.query(
+        'SELECT part_id, quantity FROM set_parts WHERE set_id = ? AND is_optional = 0',
+        [line.set_id]
+      );
+      rows.forEach((row) => add(row.part_id, Math.ceil(Number(line.quantity) * Number(row.quantity)), `${line.description} - Set ${line.set_id}`));
+    }
+    return [...parts.values()];
+  }
+
+  /**
+   * Take parts out of stock for a replacement ('out') or put returned ones
+   * back ('in'). Parts this request already moved that way are left alone.
+   */
+  async moveStock(parts, direction, request) {
+    const { rows: moved } = await db.query(
+      `SELECT DISTINCT part_id FROM inventory_transactions
+      WHERE reference_type = 'return_request' AND reference_id = ? AND transaction_type = ?`,
+      [request.return_id, direction]
+    );
+    const done = new Set(moved.map((row) => Number(row.part_id)));
+    for (const part of parts) {
+      if (done.has(Number(part.part_id))) {
+        continue;
+      }
+      const stockResult = await db.query('SELECT stock_quantity FROM parts WHERE part_id = ?', [part.part_id]);
+      if (stockResult.rows.length === 0) {
+        continue;
+      }
+      const currentStock = Number(stockResult.rows[0].stock_quantity) || 0;
+      const newStock = direction === 'in' ? currentStock + part.quantity : Math.max(0, currentStock - part.quantity);
+      await db.run('UPDATE parts SET stock_quantity = ? WHERE part_id = ?', [newStock, part.part_id]);
+      await db.run(`
+        INSERT INTO inventory_transactions (
+          part_id, transaction_type, quantity, previous_stock, new_stock, reason, reference_id, reference_type
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, 'return_request')
+      `, [
+        part.part_id,
+        direction,
+        part.quantity,
+        currentStock,
+        newStock,
+        `Return ${request.return_number} ${direction === 'in' ? 'restocked' : 'replacement'} - ${part.label}`,
+        request.return_id,
+      ]);
+      if (direction === 'out') {
+        // Replacement parts from lot-tracked stock are recorded on the order for recalls
+        await partLotService.allocateForOrder(request.order_id, part.part_id, part.quantity);
+      }
+    }
+  }
+
+  /** Notify the transition's audience; a failed notification does not undo the change. */
+  async notify(request, transition, notes = '') {
+    const audience = transition.notify || [];
+    const data = { return_id: request.return_id, return_number: request.return_number, order_id: request.order_id, to: transition.to };
+    const customerMessages = {
+      approved: `Your return request ${request.return_number} is approved: ${request.resolution}.`,
+      rejected: `Your return request ${request.return_number} was rejected.`,
+      completed: request.tracking_number
+        ? `The replacement for return request ${request.return_number} is on its way. Tracking number: ${request.tracking_number}`
+        : `Your return request ${request.return_number} is completed.`,
+    };
+    const recipients = [];
+    if (audience.includes('customer') && request.customer_id) {
+      const message = customerMessages[transition.to] || `Your return request ${request.return_number} is ${transition.to}.`;
+      recipients.push({ createdFor: request.customer_id, message: notes ? `${message} ${notes}` : message });
+    }
+    if (audience.includes('production')) {
+      recipients.push({
+        createdFor: null,
+        message: transition.to === INITIAL_RETURN_STATUS
+          ? `Order ${request.order_number}: return request ${request.return_number} (${REASON_LABELS[request.reason]}) waits for review.`
+          : `Return request ${request.return_number} for order ${request.order_number} is ${transition.to}.`,
+      });
+    }
+    for (const recipient of recipients) {
+      try {
+        await this.getNotificationService().createNotification({
+          type: `return_${transition.to}`,
+          title: `Return request ${request.return_number} ${transition.to}`,
+          message: recipient.message,
+          data,
+          createdFor: recipient.createdFor,
+          priority: transition.to === INITIAL_RETURN_STATUS ? 'high' : 'normal',
+        });
+      } catch (error) {
+        console.error('Error sending return request notification:', error);
+      }
+    }
+  }
+
+  /** The replacement parcel's label PDF: { request, content }. */
+  async getLabel(returnId, user) {
+    const { rows } = await db.query('SELECT * FROM return_requests WHERE return_id = ?', [returnId]);
+    const request = rows[0];
+    if (!request) {
+      throw notFoundError('Return request not found');
+    }
+    if (!this.canActOn(request, user) || user.role === 'customer') {
+      throw forbiddenError('Only production can print replacement labels');
+    }
+    if (!request.label_path) {
+      throw notFoundError('This return request has no shipping label');
+    }
+    try {
+      return { request, content: await fs.readFile(request.label_path) };
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        throw notFoundError(`The label file of ${request.tracking_number} is missing`);
+      }
+      throw error;
+    }
+  }
+}
+
+module.exports = new ReturnService();
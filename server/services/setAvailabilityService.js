@@ -0,0 +1,131 @@
+/**
+ * Set Availability Service
+ *
+ * Buildable quantity of sets from their bill of materials (set_parts), the
+ * current parts stock and the active cart holds. Set listings, the shop,
+ * stock validation and cart reservations all read availability from here.
+ */
+
+const db = require('../utils/sqliteConnectionManager');
+const { heldPartQuantitySql } = require('../utils/stockReservations');
+const { buildableFromParts, partShortfalls } = require('../utils/setAvailability');
+
+class SetAvailabilityService {
+  /**
+   * Required parts of the given sets with their stock and held quantity,
+   * grouped by set id. With `excludeOwner` ({ userId, sessionId, setId? })
+   * that cart's own holds (only those on setId, when given) do not count as
+   * held.
+   */
+  async getPartsBySet(setIds, { excludeOwner = null } = {}) {
+    const ids = [...new Set((setIds || []).map(Number).filter((id) => id > 0))];
+    const partsBySet = new Map(ids.map((id) => [id, []]));
+    if (ids.length === 0) {
+      return partsBySet;
+    }
+    let ownerCondition = '';
+    const params = [];
+    if (excludeOwner) {
+      ownerCondition = excludeOwner.setId
+        ? 'NOT (r.user_id IS ? AND r.session_id = ? AND r.set_id = ?)'
+        : 'NOT (r.user_id IS ? AND r.session_id = ?)';
+      params.push(excludeOwner.userId, excludeOwner.sessionId, ...(excludeOwner.setId ? [excludeOwner.setId] : []));
+    }
+    const { rows } = await db.query(
+      `SELECT sp.set_id, sp.part_id, sp.quantity AS required_quantity, COALESCE(sp.is_optional, 0) AS is_optional,
+        p.part_number, COALESCE(p.name, p.part_number) AS part_name, p.stock_quantity,
+        ${heldPartQuantitySql('sp.part_id', ownerCondition)} AS held_quantity
+      FROM set_parts sp
+      JOIN parts p ON sp.part_id = p.part_id
+      WHERE sp.set_id IN (${ids.map(() => '?').join(', ')}) AND COALESCE(sp.is_optional, 0) = 0
+      ORDER BY sp.set_id, p.part_number`,
+      [...params, ...ids]
+    );
+    rows.forEach((row) => partsBySet.get(Number(row.set_id)).push(row));
+    return partsBySet;
+  }
+
+  /** Availability per set id: { buildable_quantity, limiting_part, parts_configured }. */
+  async getAvailability(setIds, options = {}) {
+    const partsBySet = await this.getPartsBySet(setIds, options);
+    const availability = new Map();
+    partsBySet.forEach((parts, setId) => availability.set(setId, buildableFromParts(parts)));
+    return availability;
+  }
+
+  async getSetAvailability(setId, options = {}) {
+    const availability = await this.getAvailability([setId], options);
+    return availability.get(Number(setId)) || buildableFromParts([]);
+  }
+
+  /**
+   * Set rows with their availability: available_quantity and
+   * buildable_quantity are the buildable kits, limiting_part the part that
+   * caps them.
+   */
+  async attachAvailability(sets, options = {}) {
+    const availability = await this.getAvailability(sets.map((set) => set.set_id), options);
+    return sets.map((set) => {
+      const { buildable_quantity: buildable, limiting_part: limitingPart } =
+        availability.get(Number(set.set_id)) || buildableFromParts([]);
+      return { ...set, available_quantity: buildable, buildable_quantity: buildable, limiting_part: limitingPart };
+    });
+  }
+
+  /**
+   * Check cart or order lines ({ set_id, quantity }) against the buildable
+   * quantities, taken together: lines whose sets share a part must fit in
+   * its free stock between them. Returns the result per line in the
+   * /api/sets/validate-stock shape; the handling fee line (set_id -1) is
+   * always valid.
+   */
+  async validateLines(lines, options = {}) {
+    const setIds = lines.filter((line) => line && line.set_id !== null && line.set_id !== undefined).map((line) => line.set_id);
+    const partsBySet = await this.getPartsBySet(setIds, options);
+
+    // What each line needs of each part, to add the other lines' needs to every check
+    const demand = new Map();
+    const lineDemand = lines.map((line) => {
+      const needs = new Map();
+      const quantity = Number(line && line.quantity) || 0;
+      (partsBySet.get(Number(line && line.set_id)) || []).forEach((part) => {
+        const partId = Number(part.part_id);
+        const required = Number(part.required_quantity) * quantity;
+        needs.set(partId, (needs.get(partId) || 0) + required);
+        demand.set(partId, (demand.get(partId) || 0) + required);
+      });
+      return needs;
+    });
+
+    return lines.map((line, index) => {
+      const { set_id: setId, quantity } = line || {};
+      if (setId === null || setId === undefined || quantity === null || quantity === undefined) {
+        return { set_id: setId ?? 0, valid: false, error: 'Missing set_id or quantity' };
+      }
+      if (Number(setId) === -1) {
+        return { set_id: setId, valid: true, parts_configured: true };
+      }
+      const parts = partsBySet.get(Number(setId)) || [];
+      const { buildable_quantity: buildable, limiting_part: limitingPart, parts_configured: configured } =
+        buildableFromParts(parts);
+      if (!configured) {
+        return { set_id: setId, valid: false, parts_configured: false, error: 'No parts configured for this set' };
+      }
+      const otherDemand = new Map();
+      demand.forEach((required, partId) => {
+        otherDemand.set(partId, required - (lineDemand[index].get(partId) || 0));
+      });
+      const insufficientParts = partShortfalls(parts, Number(quantity), otherDemand);
+      return {
+        set_id: setId,
+        valid: insufficientParts.length === 0,
+        parts_configured: true,
+        buildable_quantity: buildable,
+        limiting_part: limitingPart,
+        ...(insufficientParts.length > 0 ? { insufficient_parts: insufficientParts } : {}),
+      };
+    });
+  }
+}
+
+module.exports = new SetAvailabilityService();
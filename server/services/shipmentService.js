@@ -0,0 +1,298 @@
+/**
+ * Shipment Service
+ *
+ * Ships orders from production. The parcel is booked with the carrier
+ * adapter chosen in the shipping_carrier_adapter setting (see carriers/),
+ * which returns the tracking number and the printable label; the order then
+ * moves to shipped with that tracking number and the parcel joins the day's
+ * manifest for the adapter, whose PDF is rewritten with every parcel added.
+ * Orders picked up from the lab are marked shipped without a parcel.
+ * Replacement parcels of return requests (see returnService) are booked the
+ * same way and listed on the manifest under the return number.
+ */
+
+const fs = require('fs').promises;
+const path = require('path');
+const db = require('../utils/sqliteConnectionManager');
+const orderStatusService = require('./orderStatusService');
+const shippingService = require('./shippingService');
+const systemSettingsService = require('./systemSettingsService');
+const { getCarrier } = require('../carriers');
+const { countryToCode } = require('../utils/vatEngine');
+const { PICKUP_METHOD } = require('../utils/shippingRates');
+
+function validationError(message) {
+  const error = new Error(message);
+  error.name = 'ValidationError';
+  return error;
+}
+
+function notFoundError(message) {
+  const error = new Error(message);
+  error.name = 'NotFoundError';
+  return error;
+}
+
+function conflictError(message) {
+  const error = new Error(message);
+  error.name = 'ConflictError';
+  return error;
+}
+
+function carrierError(message) {
+  const error = new Error(message);
+  error.name = 'CarrierError';
+  return error;
+}
+
+function today() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+class ShipmentService {
+  constructor() {
+    this.outputDir = path.join(__dirname, '..', 'generated-shipping');
+  }
+
+  async getShipment(orderId) {
+    const { rows } = await db.query(
+      `SELECT s.*, m.manifest_number
+      FROM shipments s
+      LEFT JOIN shipping_manifests m ON m.manifest_id = s.manifest_id
+      WHERE s.order_id = ?`,
+      [orderId]
+    );
+    return rows[0] || null;
+  }
+
+  async getSender() {
+    const settings = await systemSettingsService.getSettings();
+    return {
+      name: settings.company_name,
+      address: settings.company_address,
+      city: '',
+      postal_code: '',
+      country: countryToCode(settings.company_country) || 'EE',
+      phone: settings.company_phone,
+      email: settings.company_email,
+    };
+  }
+
+  async getRecipient(order) {
+    const { rows } = await db.query(
+      'SELECT first_name, last_name, company_name, phone, email FROM users WHERE user_id = ?',
+      [order.customer_id]
+    );
+    const customer = rows[0] || {};
+    const name = [customer.first_name, customer.last_name].filter(Boolean).join(' ');
+    return {
+      name: name || customer.company_name || order.customer_email || '',
+      address: order.shipping_address || '',
+      city: '',
+      postal_code: '',
+      country: order.shipping_country || '',
+      phone: order.customer_phone || customer.phone || '',
+      email: order.customer_email || customer.email || '',
+    };
+  }
+
+  /**
+   * Mark an order shipped for production: book the parcel, store its label,
+   * move the order to shipped with the tracking number and add the parcel to
+   * today's manifest. Returns { order, shipment } (shipment null for pickup).
+   */
+  async shipOrder(orderId, { user, notes = null }) {
+    const order = await orderStatusService.getOrder(orderId);
+    // Refuse before booking a parcel the order could not be shipped with
+    orderStatusService.checkTransition(order, 'shipped', user);
+
+    if ((await orderStatusService.getSubOrders(orderId)).length > 0) {
+      throw validationError(`Order ${order.order_number} ships as its sub-orders; ship those`);
+    }
+
+    if (order.shipping_method === PICKUP_METHOD) {
+      const result = await orderStatusService.transition(orderId, 'shipped', {
+        user, notes: notes || 'Ready for pickup from the lab',
+      });
+      return { order: result.order, shipment: null };
+    }
+    if (await this.getShipment(orderId)) {
+      throw conflictError(`Order ${order.order_number} already has a shipment`);
+    }
+
+    const { adapter, terminal, weightG, trackingNumber, labelPath } = await this.bookParcel(order, {
+      weightG: Number(order.shipping_weight_g) || null,
+    });
+    const { lastID: shipmentId } = await db.run(
+      `INSERT INTO shipments (order_id, adapter, carrier, tracking_number, terminal_id, weight_g, label_path, created_by)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [orderId, adapter.key, order.shipping_carrier || null, trackingNumber, terminal ? terminal.terminal_id : null,
+        weightG, labelPath, user ? user.userId : null]
+    );
+
+    let result;
+    try {
+      result = await orderStatusService.transition(orderId, 'shipped', { user, notes, trackingNumber });
+    } catch (error) {
+      // The order did not ship after all; the booked label is not used
+      await db.run('DELETE FROM shipments WHERE shipment_id = ?', [shipmentId]);
+      await fs.unlink(labelPath).catch(() => {});
+      throw error;
+    }
+
+    try {
+      await this.addToManifest(shipmentId, adapter);
+    } catch (error) {
+      console.error(`Error adding order ${order.order_number} to the manifest:`, error);
+    }
+    return { order: result.order, shipment: await this.getShipment(orderId) };
+  }
+
+  /**
+   * Book a parcel to the order's address (or terminal) with the configured
+   * adapter and store its label as generated-shipping/labels/<reference>.pdf.
+   * `reference` is what the label and the carrier know the parcel by, the
+   * order number unless the parcel is a replacement. Returns
+   * { adapter, terminal, weightG, trackingNumber, labelPath }.
+   */
+  async bookParcel(order, { reference = order.order_number, weightG = null } = {}) {
+    const settings = await systemSettingsService.getSettings();
+    const adapter = getCarrier(settings.shipping_carrier_adapter);
+    const terminal = order.shipping_terminal_id ? await shippingService.getTerminal(order.shipping_terminal_id) : null;
+    const rateMatch = /^rate:(\d+)$/.exec(order.shipping_option || '');
+    const rate = rateMatch ? await shippingService.getRate(rateMatch[1]).catch(() => null) : null;
+
+    let booked;
+    try {
+      booked = await adapter.createShipment({
+        order: { ...order, order_number: reference },
+        parcel: { weight_g: weightG },
+        sender: await this.getSender(),
+        recipient: await this.getRecipient(order),
+        terminal,
+        service: { carrier: order.shipping_carrier, name: rate ? rate.name : null, service_level: order.shipping_method },
+      });
+    } catch (error) {
+      console.error(`Carrier ${adapter.key} rejected parcel ${reference}:`, error);
+      throw carrierError(`${adapter.name}: ${error.message}`);
+    }
+
+    const labelPath = path.join(this.outputDir, 'labels', `${reference}.pdf`);
+    await fs.mkdir(path.dirname(labelPath), { recursive: true });
+    await fs.writeFile(labelPath, booked.label);
+    return { adapter, terminal, weightG, trackingNumber: booked.trackingNumber, labelPath };
+  }
+
+  /** Today's manifest for an adapter, opened on the first parcel of the day. */
+  async getTodaysManifest(adapter) {
+    const date = today();
+    const manifestNumber = `MF-${adapter.key.toUpperCase()}-${date.replace(/-/g, '')}`;
+    await db.run(
+      `INSERT INTO shipping_manifests (manifest_number, adapter, manifest_date)
+      VALUES (?, ?, ?)
+      ON CONFLICT (adapter, manifest_date) DO NOTHING`,
+      [manifestNumber, adapter.key, date]
+    );
+    const { rows } = await db.query(
+      'SELECT * FROM shipping_manifests WHERE adapter = ? AND manifest_date = ?',
+      [adapter.key, date]
+    );
+    return rows[0];
+  }
+
+  /** Put a shipment on today's manifest for its adapter and rewrite the manifest PDF. */
+  async addToManifest(shipmentId, adapter) {
+    const manifest = await this.getTodaysManifest(adapter);
+    await db.run('UPDATE shipments SET manifest_id = ? WHERE shipment_id = ?', [manifest.manifest_id, shipmentId]);
+    return this.writeManifest(manifest, adapter);
+  }
+
+  async writeManifest(manifest, adapter = getCarrier(manifest.adapter)) {
+    const { rows: shipments } = await db.query(
+      `SELECT * FROM (
+        SELECT s.created_at AS booked_at, s.tracking_number, s.weight_g, o.order_number, o.shipping_country,
+          o.shipping_terminal, o.customer_email, u.first_name, u.last_name
+        FROM shipments s
+        JOIN orders o ON o.order_id = s.order_id
+        LEFT JOIN users u ON u.user_id = o.customer_id
+        WHERE s.manifest_id = ?
+        UNION ALL
+        SELECT r.completed_at, r.tracking_number, r.weight_g, r.return_number, o.shipping_country,
+          o.shipping_terminal, o.customer_email, u.first_name, u.last_name
+        FROM return_requests r
+        JOIN orders o ON o.order_id = r.order_id
+        LEFT JOIN users u ON u.user_id = o.customer_id
+        WHERE r.manifest_id = ?
+      )
+      ORDER BY booked_at`,
+      [manifest.manifest_id, manifest.manifest_id]
+    );
+    const { pdf } = await adapter.createManifest({
+      manifestNumber: manifest.manifest_number,
+      date: manifest.manifest_date,
+      sender: await this.getSender(),
+      shipments: shipments.map((shipment) => ({
+        tracking_number: shipment.tracking_number,
+        order_number: shipment.order_number,
+        recipient: [shipment.first_name, shipment.last_name].filter(Boolean).join(' ') || shipment.customer_email || '',
+        destination: shipment.shipping_terminal || shipment.shipping_country || '',
+        weight_g: shipment.weight_g,
+      })),
+    });
+    const filePath = path.join(this.outputDir, 'manifests', `${manifest.manifest_number}.pdf`);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, pdf);
+    await db.run(
+      `UPDATE shipping_manifests SET file_path = ?, shipment_count = ?, updated_at = datetime('now')
+      WHERE manifest_id = ?`,
+      [filePath, shipments.length, manifest.manifest_id]
+    );
+    return pdf;
+  }
+
+  /** The label PDF of an order's shipment: { shipment, content }. */
+  async getLabel(orderId) {
+    const shipment = await this.getShipment(orderId);
+    if (!shipment || !shipment.label_path) {
+      throw notFoundError('This order has no shipping label');
+    }
+    try {
+      return { shipment, content: await fs.readFile(shipment.label_path) };
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        throw notFoundError(`The label file of ${shipment.tracking_number} is missing`);
+      }
+      throw error;
+    }
+  }
+
+  /** Manifests, newest first. */
+  async listManifests({ limit = 60 } = {}) {
+    const { rows } = await db.query(
+      'SELECT * FROM shipping_manifests ORDER BY manifest_date DESC, manifest_id DESC LIMIT ?',
+      [Math.min(Number(limit) || 60, 365)]
+    );
+    return rows;
+  }
+
+  /** A manifest's PDF: { manifest, content }, rewritten when the file is gone. */
+  async getManifestPdf(manifestId) {
+    const { rows } = await db.query('SELECT * FROM shipping_manifests WHERE manifest_id = ?', [manifestId]);
+    const manifest = rows[0];
+    if (!manifest) {
+      throw notFoundError('Manifest not found');
+    }
+    if (manifest.file_path) {
+      try {
+        return { manifest, content: await fs.readFile(manifest.file_path) };
+      } catch (error) {
+        if (error.code !== 'ENOENT') {
+          throw error;
+        }
+      }
+    }
+    return { manifest, content: await this.writeManifest(manifest) };
+  }
+}
+
+module.exports = new ShipmentService();
@@ -0,0 +1,465 @@
+/**
+ * Shipping Service
+ *
+ * Shipping zones and rates, and shipping quotes for carts and orders. The
+ * parcel is built from the weight and size of the required parts of the
+ * sets being shipped; utils/shippingRates prices it against the rates of
+ * the destination's zone and adds the free-shipping threshold, the flat
+ * handling fee for destinations no zone covers and pickup from the lab.
+ * Rates delivering to parcel terminals are offered where the carrier has
+ * terminals in the destination country, from the lists imported here.
+ */
+
+const db = require('../utils/sqliteConnectionManager');
+const systemSettingsService = require('./systemSettingsService');
+const { countryToCode } = require('../utils/vatEngine');
+const {
+  SERVICE_LEVELS,
+  zoneCountries,
+  findZone,
+  parcelFor,
+  quoteOptions,
+} = require('../utils/shippingRates');
+const { parseTerminalList, terminalLabel } = require('../utils/parcelTerminals');
+
+const DELIVERY_TYPES = ['courier', 'terminal'];
+const TERMINAL_SEARCH_LIMIT = 200;
+
+function validationError(message) {
+  const error = new Error(message);
+  error.name = 'ValidationError';
+  return error;
+}
+
+function notFoundError(message) {
+  const error = new Error(message);
+  error.name = 'NotFoundError';
+  return error;
+}
+
+/** A non-negative number, or null when empty. */
+function optionalAmount(value, field) {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < 0) {
+    throw validationError(`${field} must be a number of 0 or more`);
+  }
+  return number;
+}
+
+class ShippingService {
+  /** Zones in display order, each with its rates. */
+  async listZones({ includeInactive = false } = {}) {
+    const { rows: zones } = await db.query('SELECT * FROM shipping_zones ORDER BY sort_order, name');
+    const { rows: rates } = await db.query('SELECT * FROM shipping_rates ORDER BY base_price, rate_id');
+    return zones
+      .filter((zone) => includeInactive || Number(zone.is_active) === 1)
+      .map((zone) => ({
+        ...zone,
+        rates: rates.filter((rate) => Number(rate.zone_id) === Number(zone.zone_id)
+          && (includeInactive || Number(rate.is_active) === 1)),
+      }));
+  }
+
+  async getZone(zoneId) {
+    const { rows } = await db.query('SELECT * FROM shipping_zones WHERE zone_id = ?', [zoneId]);
+    if (rows.length === 0) {
+      throw notFoundError('Shipping zone not found');
+    }
+    return rows[0];
+  }
+
+  async getRate(rateId) {
+    const { rows } = await db.query('SELECT * FROM shipping_rates WHERE rate_id = ?', [rateId]);
+    if (rows.length === 0) {
+      throw notFoundError('Shipping rate not found');
+    }
+    return rows[0];
+  }
+
+  async validateZone(data, zoneId = null) {
+    const code = String(data.code || '').trim().toUpperCase();
+    const name = String(data.name || '').trim();
+    if (!code || !name) {
+      throw validationError('code and name are required');
+    }
+    const countries = zoneCountries(data).map((country) => (country === '*' ? '*' : countryToCode(country) || country));
+    const invalid = countries.find((country) => country !== '*' && !/^[A-Z]{2}$/.test(country));
+    if (invalid) {
+      throw validationError(`Unknown country: ${invalid}. Use two-letter country codes or * for the rest of the world`);
+    }
+    if (countries.length === 0) {
+      throw validationError('A zone needs at least one country');
+    }
+    const { rows } = await db.query(
+      'SELECT zone_id FROM shipping_zones WHERE UPPER(code) = ? AND zone_id IS NOT ?',
+      [code, zoneId ? Number(zoneId) : null]
+    );
+    if (rows.length > 0) {
+      throw validationError(`Zone code ${code} is already used`);
+    }
+    return {
+      code,
+      name,
+      countries: [...new Set(countries)].join(','),
+      is_active: data.is_active === undefined ? 1 : (data.is_active ? 1 : 0),
+      sort_order: Number(data.sort_order) || 0,
+    };
+  }
+
+  async createZone(data) {
+    const zone = await this.validateZone(data || {});
+    const result = await db.run(
+      'INSERT INTO shipping_zones (code, name, countries, is_active, sort_order) VALUES (?, ?, ?, ?, ?)',
+      [zone.code, zone.name, zone.countries, zone.is_active, zone.sort_order]
+    );
+    return this.getZone(result.lastID);
+  }
+
+  async updateZone(zoneId, data) {
+    const existing = await this.getZone(zoneId);
+    const zone = await this.validateZone({ ...existing, ...(data || {}) }, zoneId);
+    await db.run(
+      `UPDATE shipping_zones
+      SET code = ?, name = ?, countries = ?, is_active = ?, sort_order = ?, updated_at = datetime('now')
+      WHERE zone_id = ?`,
+      [zone.code, zone.name, zone.countries, zone.is_active, zone.sort_order, zoneId]
+    );
+    return this.getZone(zoneId);
+  }
+
+  /** Delete a zone and its rates; orders keep the zone code they were quoted with. */
+  async deleteZone(zoneId) {
+    const zone = await this.getZone(zoneId);
+    await db.run('DELETE FROM shipping_rates WHERE zone_id = ?', [zoneId]);
+    await db.run('DELETE FROM shipping_zones WHERE zone_id = ?', [zoneId]);
+    return zone;
+  }
+
+  async validateRate(data) {
+    await this.getZone(data.zone_id);
+    const name = String(data.name || '').trim();
+    const serviceLevel = data.service_level || 'standard';
+    const deliveryType = data.delivery_type || 'courier';
+    if (!name) {
+      throw validationError('name is required');
+    }
+    if (!SERVICE_LEVELS.includes(serviceLevel)) {
+      throw validationError(`service_level must be one of: ${SERVICE_LEVELS.join(', ')}`);
+    }
+    if (!DELIVERY_TYPES.includes(deliveryType)) {
+      throw validationError(`delivery_type must be one of: ${DELIVERY_TYPES.join(', ')}`);
+    }
+    if (deliveryType === 'terminal' && !data.carrier) {
+      throw validationError('Parcel terminal rates need the carrier whose terminals they deliver to');
+    }
+    const rate = {
+      zone_id: Number(data.zone_id),
+      carrier: data.carrier ? String(data.carrier).trim() : null,
+      name,
+      service_level: serviceLevel,
+      delivery_type: deliveryType,
+      max_weight_g: optionalAmount(data.max_weight_g, 'max_weight_g'),
+      max_length_mm: optionalAmount(data.max_length_mm, 'max_length_mm'),
+      base_price: optionalAmount(data.base_price, 'base_price') || 0,
+      price_per_kg: optionalAmount(data.price_per_kg, 'price_per_kg') || 0,
+      free_over: optionalAmount(data.free_over, 'free_over'),
+      delivery_days_min: optionalAmount(data.delivery_days_min, 'delivery_days_min'),
+      delivery_days_max: optionalAmount(data.delivery_days_max, 'delivery_days_max'),
+      is_active: data.is_active === undefined ? 1 : (data.is_active ? 1 : 0),
+    };
+    if (rate.delivery_days_min !== null && rate.delivery_days_max !== null && rate.delivery_days_max < rate.delivery_days_min) {
+      throw validationError('delivery_days_max cannot be less than delivery_days_min');
+    }
+    return rate;
+  }
+
+  async createRate(data) {
+    const rate = await this.validateRate(data || {});
+    const result = await db.run(
+      `INSERT INTO shipping_rates (
+        zone_id, carrier, name, service_level, delivery_type, max_weight_g, max_length_mm, base_price,
+        price_per_kg, free_over, delivery_days_min, delivery_days_max, is_active
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        rate.zone_id, rate.carrier, rate.name, rate.service_level, rate.delivery_type, rate.max_weight_g, rate.max_length_mm, rate.base_price,
+        rate.price_per_kg, rate.free_over, rate.delivery_days_min, rate.delivery_days_max, rate.is_active,
+      ]
+    );
+    return this.getRate(result.lastID);
+  }
+
+  async updateRate(rateId, data) {
+    const existing = await this.getRate(rateId);
+    const rate = await this.validateRate({ ...existing, ...(data || {}) });
+    await db.run(
+      `UPDATE shipping_rates
+      SET zone_id = ?, carrier = ?, name = ?, service_level = ?, delivery_type = ?, max_weight_g = ?, max_length_mm = ?,
+        base_price = ?, price_per_kg = ?, free_over = ?, delivery_days_min = ?, delivery_days_max = ?, is_active = ?,
+        updated_at = datetime('now')
+      WHERE rate_id = ?`,
+      [
+        rate.zone_id, rate.carrier, rate.name, rate.service_level, rate.delivery_type, rate.max_weight_g, rate.max_length_mm, rate.base_price,
+        rate.price_per_kg, rate.free_over, rate.delivery_days_min, rate.delivery_days_max, rate.is_active, rateId,
+      ]
+    );
+    return this.getRate(rateId);
+  }
+
+  async deleteRate(rateId) {
+    const rate = await this.getRate(rateId);
+    await db.run('DELETE FROM shipping_rates WHERE rate_id = ?', [rateId]);
+    return rate;
+  }
+
+  /**
+   * Required parts of the sets in `items` ({ set_id, quantity }) plus the
+   * loose `parts` ({ part_id, quantity }) with their weight and size.
+   */
+  async getParcelLines(items, parts = []) {
+    const quantities = new Map();
+    (items || []).forEach((item) => {
+      const setId = Number(item.set_id);
+      const quantity = Number(item.quantity);
+      if (setId > 0 && quantity > 0) {
+        quantities.set(setId, (quantities.get(setId) || 0) + quantity);
+      }
+    });
+    const looseParts = (parts || []).filter((part) => Number(part.part_id) > 0 && Number(part.quantity) > 0);
+    if (quantities.size === 0 && looseParts.length === 0) {
+      return [];
+    }
+    const setIds = [...quantities.keys()];
+    const { rows } = setIds.length === 0 ? { rows: [] } : await db.query(
+      `SELECT sp.set_id, sp.part_id, sp.quantity, p.weight_g, p.length_mm, p.width_mm, p.height_mm
+      FROM set_parts sp
+      JOIN parts p ON p.part_id = sp.part_id
+      WHERE sp.is_optional = 0 AND sp.set_id IN (${setIds.map(() => '?').join(', ')})`,
+      setIds
+    );
+    const byPart = new Map();
+    rows.forEach((row) => {
+      const line = byPart.get(row.part_id) || { ...row, quantity: 0 };
+      line.quantity += Number(row.quantity) * quantities.get(Number(row.set_id));
+      byPart.set(row.part_id, line);
+    });
+    if (looseParts.length > 0) {
+      const partIds = [...new Set(looseParts.map((part) => Number(part.part_id)))];
+      const { rows: partRows } = await db.query(
+        `SELECT part_id, weight_g, length_mm, width_mm, height_mm FROM parts
+        WHERE part_id IN (${partIds.map(() => '?').join(', ')})`,
+        partIds
+      );
+      looseParts.forEach((part) => {
+        const row = partRows.find((candidate) => Number(candidate.part_id) === Number(part.part_id));
+        if (!row) {
+          return;
+        }
+        const line = byPart.get(row.part_id) || { ...row, quantity: 0 };
+        line.quantity += Number(part.quantity);
+        byPart.set(row.part_id, line);
+      });
+    }
+    return [...byPart.values()];
+  }
+
+  /** The parcel the sets in `items` and loose `parts` ship in, packaging included (see parcelFor). */
+  async getParcel(items, parts = []) {
+    const settings = await systemSettingsService.getSettings();
+    return parcelFor(await this.getParcelLines(items, parts), { packagingWeightG: settings.shipping_packaging_weight_g });
+  }
+
+  /**
+   * Shipping options for sets to a country (name or code; the company's own
+   * country when empty). `subtotal` is the goods total the free-shipping
+   * threshold is checked against. Returns { country, zone, parcel, options }.
+   */
+  async quote({ items, country = null, subtotal = 0 }) {
+    const settings = await systemSettingsService.getSettings();
+    const destination = countryToCode(country) || countryToCode(settings.company_country) || 'EE';
+    const zone = findZone(await this.listZones(), destination);
+    const parcel = await this.getParcel(items);
+    // Terminal delivery only where the carrier has terminals in the destination country
+    const terminalCarriers = await this.getTerminalCarriers(destination);
+    const rates = (zone ? zone.rates : []).filter((rate) => rate.delivery_type !== 'terminal'
+      || terminalCarriers.includes(String(rate.carrier || '').toLowerCase()));
+    const options = quoteOptions({
+      zone,
+      rates,
+      parcel,
+      subtotal: Number(subtotal) || 0,
+      freeShippingThreshold: settings.free_shipping_threshold,
+      flatCost: settings.shipping_handling_cost,
+      pickup: settings.shipping_pickup_enabled
+        ? { address: settings.shipping_pickup_address || settings.company_address }
+        : null,
+    });
+    return {
+      country: destination,
+      zone: zone ? { zone_id: zone.zone_id, code: zone.code, name: zone.name } : null,
+      parcel,
+      options,
+    };
+  }
+
+  /**
+   * The option `optionId` of a quote; without one, the cheapest delivery that
+   * needs no parcel terminal chosen.
+   */
+  chooseOption(quote, optionId = null) {
+    const option = optionId
+      ? quote.options.find((candidate) => candidate.id === optionId)
+      : quote.options.find((candidate) => candidate.delivery_type !== 'terminal') || quote.options[0];
+    if (!option) {
+      throw validationError(optionId
+        ? `Shipping option ${optionId} is not available to ${quote.country}; quote shipping again`
+        : `Nothing ships to ${quote.country}`);
+    }
+    return option;
+  }
+
+  /**
+   * The terminal chosen for a shipping option: required for terminal
+   * delivery, where it must be an active terminal of the option's carrier in
+   * the destination country. Null for other options.
+   */
+  async chooseTerminal(option, terminalId, country) {
+    if (option.delivery_type !== 'terminal') {
+      return null;
+    }
+    if (!terminalId) {
+      throw validationError(`Choose the ${option.carrier} parcel terminal to deliver to`);
+    }
+    const { rows } = await db.query('SELECT * FROM parcel_terminals WHERE terminal_id = ? AND is_active = 1', [terminalId]);
+    const terminal = rows[0];
+    if (!terminal
+      || String(terminal.carrier).toLowerCase() !== String(option.carrier || '').toLowerCase()
+      || terminal.country !== country) {
+      throw validationError(`Parcel terminal ${terminalId} is not an active ${option.carrier} terminal in ${country}`);
+    }
+    return { ...terminal, label: terminalLabel(terminal) };
+  }
+
+  /** Carriers (lower case) with active terminals in a country. */
+  async getTerminalCarriers(country) {
+    const { rows } = await db.query(
+      'SELECT DISTINCT LOWER(carrier) AS carrier FROM parcel_terminals WHERE country = ? AND is_active = 1',
+      [country]
+    );
+    return rows.map((row) => row.carrier);
+  }
+
+  async getTerminal(terminalId) {
+    const { rows } = await db.query('SELECT * FROM parcel_terminals WHERE terminal_id = ?', [terminalId]);
+    if (rows.length === 0) {
+      throw notFoundError('Parcel terminal not found');
+    }
+    return rows[0];
+  }
+
+  /**
+   * Active terminals by carrier and country, matching `search` against the
+   * name, city, address and postal code; sorted by city and name.
+   */
+  async listTerminals({ carrier = null, country = null, search = null } = {}) {
+    const where = ['is_active = 1'];
+    const params = [];
+    if (carrier) {
+      where.push('LOWER(carrier) = LOWER(?)');
+      params.push(carrier);
+    }
+    if (country) {
+      where.push('country = ?');
+      params.push(countryToCode(country) || String(country).toUpperCase());
+    }
+    if (search) {
+      where.push('(name LIKE ? OR city LIKE ? OR address LIKE ? OR postal_code LIKE ?)');
+      const pattern = `%${String(search).trim()}%`;
+      params.push(pattern, pattern, pattern, pattern);
+    }
+    const { rows } = await db.query(
+      `SELECT * FROM parcel_terminals WHERE ${where.join(' AND ')} ORDER BY city, name LIMIT ${TERMINAL_SEARCH_LIMIT}`,
+      params
+    );
+    return rows;
+  }
+
+  /** Terminal count per carrier and country, inactive ones included. */
+  async getTerminalSummary() {
+    const { rows } = await db.query(
+      `SELECT carrier, country, SUM(is_active) AS active, COUNT(*) AS total, MAX(updated_at) AS updated_at
+      FROM parcel_terminals
+      GROUP BY carrier, country
+      ORDER BY carrier, country`
+    );
+    return rows;
+  }
+
+  /**
+   * Import a carrier's terminal list (see utils/parcelTerminals). Terminals
+   * are matched by carrier and code; with `replace`, the carrier's terminals
+   * missing from the list are deactivated (orders keep pointing at them).
+   * Returns { imported, deactivated, skipped }.
+   */
+  async importTerminals({ carrier, content, defaultCountry = null, replace = false }) {
+    const carrierName = String(carrier || '').trim();
+    if (!carrierName) {
+      throw validationError('carrier is required');
+    }
+    let parsed;
+    try {
+      parsed = parseTerminalList(content, { defaultCountry: countryToCode(defaultCountry) || defaultCountry || '' });
+    } catch (error) {
+      throw validationError(error.message);
+    }
+    const terminals = parsed.terminals.map((terminal) => ({
+      ...terminal,
+      country: countryToCode(terminal.country) || terminal.country,
+    }));
+    const invalid = terminals.find((terminal) => !/^[A-Z]{2}$/.test(terminal.country));
+    if (invalid) {
+      throw validationError(`Terminal ${invalid.code} has no country; set the list's country`);
+    }
+    if (terminals.length === 0) {
+      throw validationError('The list has no parcel terminals');
+    }
+
+    for (const terminal of terminals) {
+      await db.run(
+        `INSERT INTO parcel_terminals (
+          carrier, code, name, address, city, postal_code, country, latitude, longitude
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT (carrier, code) DO UPDATE SET
+          name = excluded.name, address = excluded.address, city = excluded.city,
+          postal_code = excluded.postal_code, country = excluded.country, latitude = excluded.latitude,
+          longitude = excluded.longitude, is_active = 1, updated_at = datetime('now')`,
+        [
+          carrierName, terminal.code, terminal.name, terminal.address || null, terminal.city || null,
+          terminal.postal_code || null, terminal.country, terminal.latitude, terminal.longitude,
+        ]
+      );
+    }
+
+    let deactivated = 0;
+    if (replace) {
+      const codes = terminals.map((terminal) => terminal.code);
+      const result = await db.run(
+        `UPDATE parcel_terminals SET is_active = 0, updated_at = datetime('now')
+        WHERE carrier = ? AND is_active = 1 AND code NOT IN (${codes.map(() => '?').join(', ')})`,
+        [carrierName, ...codes]
+      );
+      deactivated = result.changes || 0;
+    }
+    return { imported: terminals.length, deactivated, skipped: parsed.skipped };
+  }
+
+  /** Countries some zone ships to; includes '*' when every country is covered. */
+  async listCountries() {
+    const zones = await this.listZones();
+    return [...new Set(zones.flatMap((zone) => zoneCountries(zone)))].sort();
+  }
+}
+
+module.exports = new ShippingService();
@@ -0,0 +1,445 @@
+/**
+ * Stock Location Service
+ *
+ * Storage locations (rooms, warehouses and the bins inside them) and the
+ * stock of each part per location (part_stock). parts.stock_quantity stays
+ * the part's total; this service keeps the per-location split consistent
+ * with it and moves stock between locations as 'transfer' inventory
+ * transactions, which leave the total unchanged.
+ */
+
+const db = require('../utils/sqliteConnectionManager');
+const {
+  LOCATION_TYPES,
+  locationPath,
+  createsCycle,
+  reconcileBreakdown,
+} = require('../utils/stockLocations');
+
+function validationError(message) {
+  const error = new Error(message);
+  error.name = 'ValidationError';
+  return error;
+}
+
+function notFoundError(message) {
+  const error = new Error(message);
+  error.name = 'NotFoundError';
+  return error;
+}
+
+function conflictError(message) {
+  const error = new Error(message);
+  error.name = 'ConflictError';
+  return error;
+}
+
+function parseQuantity(value) {
+  const quantity = Number(value);
+  if (!Number.isFinite(quantity) || quantity <= 0) {
+    throw validationError('quantity must be greater than 0');
+  }
+  return quantity;
+}
+
+class StockLocationService {
+  /** All locations by id, with their full path. */
+  async getLocationMap() {
+    const { rows } = await db.query('SELECT * FROM storage_locations');
+    const byId = new Map(rows.map((row) => [Number(row.location_id), row]));
+    rows.forEach((row) => {
+      row.path = locationPath(row, byId);
+    });
+    return byId;
+  }
+
+  /**
+   * Locations with their path and how many parts and units they hold, in
+   * pick order. The counts are reconciled with the parts' totals as read;
+   * the stored split is left to the next stock change.
+   */
+  async listLocations({ includeInactive = false } = {}) {
+    const byId = await this.getLocationMap();
+    const { rows: stocked } = await db.query('SELECT DISTINCT part_id FROM part_stock WHERE quantity > 0');
+    const breakdowns = await this.getBreakdowns(stocked.map((row) => row.part_id));
+    const totalsById = new Map();
+    breakdowns.forEach((breakdown) => breakdown.locations.forEach((location) => {
+      const totals = totalsById.get(Number(location.location_id)) || { part_count: 0, total_quantity: 0 };
+      totals.part_count += 1;
+      totals.total_quantity += location.quantity;
+      totalsById.set(Number(location.location_id), totals);
+    }));
+    return [...byId.values()]
+      .filter((location) => includeInactive || Number(location.is_active) === 1)
+      .map((location) => ({
+        ...location,
+        parent_path: location.parent_id && byId.has(Number(location.parent_id))
+          ? byId.get(Number(location.parent_id)).path
+          : null,
+        part_count: Number((totalsById.get(Number(location.location_id)) || {}).part_count) || 0,
+        total_quantity: Number((totalsById.get(Number(location.location_id)) || {}).total_quantity) || 0,
+      }))
+      .sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  async getLocation(locationId) {
+    const byId = await this.getLocationMap();
+    const location = byId.get(Number(locationId));
+    if (!location) {
+      throw notFoundError('Location not found');
+    }
+    return location;
+  }
+
+  /** An active location to put stock in or take it from. */
+  async getActiveLocation(locationId) {
+    const location = await this.getLocation(locationId);
+    if (Number(location.is_active) !== 1) {
+      throw validationError(`Location ${location.code} is not active`);
+    }
+    return location;
+  }
+
+  async validateLocation(data, locationId = null) {
+    const code = String(data.code || '').trim();
+    const name = String(data.name || '').trim();
+    const type = data.location_type || 'room';
+    if (!code || !name) {
+      throw validationError('code and name are required');
+    }
+    if (!LOCATION_TYPES.includes(type)) {
+      throw validationError(`location_type must be one of: ${LOCATION_TYPES.join(', ')}`);
+    }
+    const byId = await this.getLocationMap();
+    const parentId = data.parent_id ? Number(data.parent_id) : null;
+    if (type === 'bin' && !parentId) {
+      throw validationError('A bin must belong to a room or warehouse');
+    }
+    if (parentId) {
+      const parent = byId.get(parentId);
+      if (!parent) {
+        throw validationError('Parent location not found');
+      }
+      if (locationId && createsCycle(locationId, parentId, byId)) {
+        throw validationError('A location cannot be inside itself');
+      }
+    }
+    const duplicate = [...byId.values()].find(
+      (location) => location.code.toUpperCase() === code.toUpperCase() && Number(location.location_id) !== Number(locationId)
+    );
+    if (duplicate) {
+      throw validationError(`Location code ${code} is already used`);
+    }
+    return {
+      code,
+      name,
+      location_type: type,
+      parent_id: parentId,
+      pick_sequence: Number(data.pick_sequence) || 0,
+      notes: data.notes || null,
+    };
+  }
+
+  async createLocation(data) {
+    const location = await this.validateLocation(data || {});
+    const result = await db.run(
+      `INSERT INTO storage_locations (code, name, location_type, parent_id, pick_sequence, notes)
+      VALUES (?, ?, ?, ?, ?, ?)`,
+      [location.code, location.name, location.location_type, location.parent_id, location.pick_sequence, location.notes]
+    );
+    return this.getLocation(result.lastID);
+  }
+
+  async updateLocation(locationId, data) {
+    const current = await this.getLocation(locationId);
+    const location = await this.validateLocation({ ...current, ...(data || {}) }, locationId);
+    await db.run(
+      `UPDATE storage_locations
+      SET code = ?, name = ?, location_type = ?, parent_id = ?, pick_sequence = ?, notes = ?, updated_at = datetime('now')
+      WHERE location_id = ?`,
+      [location.code, location.name, location.location_type, location.parent_id, location.pick_sequence, location.notes, locationId]
+    );
+    await this.syncToolLocationText(locationId);
+    return this.getLocation(locationId);
+  }
+
+  /** Deactivate a location; it must be empty and have no active bins. */
+  async deactivateLocation(locationId) {
+    const location = await this.getLocation(locationId);
+    await this.normalizeOverallocated();
+    const { rows: stock } = await db.query(
+      'SELECT COUNT(*) AS count FROM part_stock WHERE location_id = ? AND quantity > 0',
+      [locationId]
+    );
+    if (Number(stock[0].count) > 0) {
+      throw conflictError(`Location ${location.code} still holds stock; transfer it first`);
+    }
+    const { rows: children } = await db.query(
+      'SELECT COUNT(*) AS count FROM storage_locations WHERE parent_id = ? AND is_active = 1',
+      [locationId]
+    );
+    if (Number(children[0].count) > 0) {
+      throw conflictError(`Location ${location.code} has active bins`);
+    }
+    await db.run(
+      'UPDATE storage_locations SET is_active = 0, updated_at = datetime(\'now\') WHERE location_id = ?',
+      [locationId]
+    );
+    return this.getLocation(locationId);
+  }
+
+  /** Parts held at a location, reconciled like listLocations: [{ part_id, part_number, part_name, quantity }]. */
+  async getLocationStock(locationId) {
+    await this.getLocation(locationId);
+    const { rows } = await db.query(
+      `SELECT ps.part_id, ps.quantity, p.part_number, COALESCE(p.name, p.part_number) AS part_name, p.unit_of_measure
+      FROM part_stock ps
+      JOIN parts p ON ps.part_id = p.part_id
+      WHERE ps.location_id = ? AND ps.quantity > 0
+      ORDER BY p.part_number`,
+      [locationId]
+    );
+    const breakdowns = await this.getBreakdowns(rows.map((row) => row.part_id));
+    return rows
+      .map((row) => {
+        const held = breakdowns.get(Number(row.part_id)).locations
+          .find((location) => Number(location.location_id) === Number(locationId));
+        return { ...row, quantity: held ? held.quantity : 0 };
+      })
+      .filter((row) => row.quantity > 0);
+  }
+
+  /**
+   * Per-location stock of the given parts, reconciled with their totals:
+   * part id -> { locations: [{ location_id, code, name, path, quantity }], unassigned_quantity, total }.
+   */
+  async getBreakdowns(partIds) {
+    const ids = [...new Set((partIds || []).map(Number).filter((id) => id > 0))];
+    const breakdowns = new Map();
+    if (ids.length === 0) {
+      return breakdowns;
+    }
+    const placeholders = ids.map(() => '?').join(', ');
+    const byId = await this.getLocationMap();
+    const { rows: parts } = await db.query(
+      `SELECT part_id, stock_quantity FROM parts WHERE part_id IN (${placeholders})`,
+      ids
+    );
+    const { rows } = await db.query(
+      `SELECT part_id, location_id, quantity FROM part_stock WHERE part_id IN (${placeholders}) AND quantity > 0`,
+      ids
+    );
+    parts.forEach((part) => {
+      const partRows = rows
+        .filter((row) => Number(row.part_id) === Number(part.part_id))
+        .map((row) => {
+          const location = byId.get(Number(row.location_id)) || {};
+          return {
+            location_id: row.location_id,
+            code: location.code,
+            name: location.name,
+            path: location.path,
+            location_type: location.location_type,
+            pick_sequence: location.pick_sequence,
+            quantity: row.quantity,
+          };
+        });
+      breakdowns.set(Number(part.part_id), reconcileBreakdown(partRows, part.stock_quantity));
+    });
+    return breakdowns;
+  }
+
+  async getBreakdown(partId) {
+    const breakdowns = await this.getBreakdowns([partId]);
+    const breakdown = breakdowns.get(Number(partId));
+    if (!breakdown) {
+      throw notFoundError('Part not found');
+    }
+    return breakdown;
+  }
+
+  /** Store a part's reconciled per-location stock, dropping what its total no longer covers. */
+  async normalizePart(partId) {
+    const breakdown = await this.getBreakdown(partId);
+    await db.run('DELETE FROM part_stock WHERE part_id = ?', [partId]);
+    for (const location of breakdown.locations) {
+      await db.run(
+        'INSERT INTO part_stock (part_id, location_id, quantity, updated_at) VALUES (?, ?, ?, datetime(\'now\'))',
+        [partId, location.location_id, location.quantity]
+      );
+    }
+    return breakdown;
+  }
+
+  /**
+   * Normalize every part whose locations hold more than its total (stock
+   * sold or removed since). Run at startup and before a location is
+   * deactivated; single stock changes normalize their own part.
+   */
+  async normalizeOverallocated() {
+    const { rows } = await db.query(
+      `SELECT ps.part_id
+      FROM part_stock ps
+      JOIN parts p ON ps.part_id = p.part_id
+      GROUP BY ps.part_id
+      HAVING SUM(ps.quantity) > MAX(COALESCE(p.stock_quantity, 0))`
+    );
+    for (const row of rows) {
+      await this.normalizePart(row.part_id);
+    }
+  }
+
+  /**
+   * Move the free-text parts.location of older databases into storage
+   * locations: the text names a location by code, name or path, or becomes
+   * a new room; the part's stock goes there unless it already has a
+   * per-location split, and the text is cleared. Run at startup.
+   */
+  async migratePartLocationText() {
+    const { rows: columns } = await db.query('PRAGMA table_info(parts)');
+    if (!columns.some((column) => column.name === 'location')) {
+      return;
+    }
+    const { rows: parts } = await db.query(
+      'SELECT part_id, location, stock_quantity FROM parts WHERE location IS NOT NULL AND TRIM(location) != \'\''
+    );
+    for (const part of parts) {
+      const location = await this.findOrCreateLocation(part.location);
+      const { rows: stocked } = await db.query('SELECT COUNT(*) AS count FROM part_stock WHERE part_id = ?', [part.part_id]);
+      if (Number(stocked[0].count) === 0 && Number(part.stock_quantity) > 0) {
+        await this.changeLocationQuantity(part.part_id, location.location_id, Number(part.stock_quantity));
+      }
+      await db.run('UPDATE parts SET location = NULL WHERE part_id = ?', [part.part_id]);
+    }
+  }
+
+  /** The location a text names (code, name or path, in any case); a new room when none does. */
+  async findOrCreateLocation(text) {
+    const wanted = String(text).trim();
+    const byId = await this.getLocationMap();
+    const match = [...byId.values()].find((location) => [location.code, location.name, location.path]
+      .some((value) => String(value).toUpperCase() === wanted.toUpperCase()));
+    if (match) {
+      return match;
+    }
+    const base = wanted.toUpperCase().replace(/[^A-Z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 30) || 'LOCATION';
+    const taken = new Set([...byId.values()].map((location) => location.code.toUpperCase()));
+    let code = base;
+    for (let n = 2; taken.has(code); n++) {
+      code = `${base}-${n}`;
+    }
+    return this.createLocation({ code, name: wanted, location_type: 'room' });
+  }
+
+  async changeLocationQuantity(partId, locationId, delta) {
+    await db.run(
+      `INSERT INTO part_stock (part_id, location_id, quantity, updated_at) VALUES (?, ?, ?, datetime('now'))
+      ON CONFLICT(part_id, location_id) DO UPDATE SET
+        quantity = quantity + excluded.quantity,
+        updated_at = excluded.updated_at`,
+      [partId, locationId, delta]
+    );
+    await db.run('DELETE FROM part_stock WHERE part_id = ? AND location_id = ? AND quantity <= 0', [partId, locationId]);
+  }
+
+  /**
+   * Place stock that was just added to the part's total at a location
+   * (income or an 'add' adjustment naming where it went).
+   */
+  async addAt(partId, locationId, quantity) {
+    await this.getActiveLocation(locationId);
+    await this.normalizePart(partId);
+    await this.changeLocationQuantity(partId, locationId, parseQuantity(quantity));
+  }
+
+  /**
+   * Take stock out of a location before it is removed from the part's
+   * total, so the removal does not come out of the other locations.
+   */
+  async removeAt(partId, locationId, quantity) {
+    const location = await this.getLocation(locationId);
+    const amount = parseQuantity(quantity);
+    const breakdown = await this.normalizePart(partId);
+    const held = (breakdown.locations.find((l) => Number(l.location_id) === Number(locationId)) || {}).quantity || 0;
+    if (held < amount) {
+      throw validationError(`Only ${held} in ${location.code}`);
+    }
+    await this.changeLocationQuantity(partId, locationId, -amount);
+  }
+
+  /**
+   * Apply a counted difference to the stock at a location, before the
+   * part's total changes by the same amount (stocktake posting). A loss
+   * larger than the location holds empties it.
+   */
+  async adjustAt(partId, locationId, delta) {
+    await this.normalizePart(partId);
+    await this.changeLocationQuantity(partId, locationId, delta);
+  }
+
+  /**
+   * Move stock of a part between locations; a null from/to location is the
+   * unassigned stock. Recorded as a 'transfer' inventory transaction.
+   * Body: { from_location_id, to_location_id, quantity, notes }.
+   */
+  async transfer(partId, { from_location_id: fromId, to_location_id: toId, quantity, notes } = {}) {
+    const amount = parseQuantity(quantity);
+    const from = fromId ? await this.getLocation(fromId) : null;
+    const to = toId ? await this.getActiveLocation(toId) : null;
+    if (!from && !to) {
+      throw validationError('from_location_id or to_location_id is required');
+    }
+    if (from && to && Number(from.location_id) === Number(to.location_id)) {
+      throw validationError('Source and destination are the same location');
+    }
+
+    const breakdown = await this.normalizePart(partId);
+    const available = from
+      ? (breakdown.locations.find((l) => Number(l.location_id) === Number(from.location_id)) || {}).quantity || 0
+      : breakdown.unassigned_quantity;
+    if (available < amount) {
+      throw validationError(`Only ${available} available in ${from ? from.code : 'unassigned stock'}`);
+    }
+    if (from) {
+      await this.changeLocationQuantity(partId, from.location_id, -amount);
+    }
+    if (to) {
+      await this.changeLocationQuantity(partId, to.location_id, amount);
+    }
+
+    const fromLabel = from ? from.path : 'Unassigned';
+    const toLabel = to ? to.path : 'Unassigned';
+    await db.run(
+      `INSERT INTO inventory_transactions (
+        part_id, transaction_type, quantity, previous_stock, new_stock, reason, notes,
+        from_location_id, to_location_id, reference_type, created_at
+      ) VALUES (?, 'transfer', ?, ?, ?, ?, ?, ?, ?, 'transfer', CURRENT_TIMESTAMP)`,
+      [
+        partId, amount, breakdown.total, breakdown.total, `Transfer ${fromLabel} → ${toLabel}`, notes || '',
+        from ? from.location_id : null, to ? to.location_id : null,
+      ]
+    );
+    return this.getBreakdown(partId);
+  }
+
+  /** Location text of a tool kept in step with its location_id (the location path). */
+  async toolLocationText(locationId) {
+    if (!locationId) {
+      return null;
+    }
+    return (await this.getActiveLocation(locationId)).path;
+  }
+
+  async syncToolLocationText(locationId) {
+    const location = await this.getLocation(locationId);
+    const byId = await this.getLocationMap();
+    // Renaming a room also renames the paths of the bins inside it (the
+    // location itself and every location it is an ancestor of)
+    const affected = [...byId.values()].filter((l) => createsCycle(location.location_id, l.location_id, byId));
+    for (const l of affected) {
+      await db.run('UPDATE tools SET location = ? WHERE location_id = ?', [l.path, l.location_id]);
+    }
+  }
+}
+
+module.exports = new StockLocationService();
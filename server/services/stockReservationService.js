@@ -0,0 +1,258 @@
+/**
+ * Stock Reservation Service
+ *
+ * Server-side cart holds. Adding a set to the cart reserves it for the user's
+ * cart session for cart_reservation_minutes (renewed on every change); holds
+ * that run out stop counting at once and are marked 'expired' by the
+ * scheduler. Reserving and checking out go through one queue, so two carts
+ * cannot both take the last kit: whoever comes second sees the first hold.
+ * Placing an order turns the cart's holds into 'converted' once the order has
+ * taken its stock.
+ */
+
+const db = require('../utils/sqliteConnectionManager');
+const systemSettingsService = require('./systemSettingsService');
+const setAvailabilityService = require('./setAvailabilityService');
+const { ACTIVE_HOLD_SQL } = require('../utils/stockReservations');
+
+const DEFAULT_TTL_MINUTES = 30;
+
+function validationError(message) {
+  const error = new Error(message);
+  error.name = 'ValidationError';
+  return error;
+}
+
+function conflictError(message, details) {
+  const error = new Error(message);
+  error.name = 'ConflictError';
+  Object.assign(error, details);
+  return error;
+}
+
+/** Owner of a cart: the user and the browser cart session ('' when none). */
+function normalizeOwner({ userId, sessionId }) {
+  return {
+    userId: userId ? Number(userId) : null,
+    sessionId: sessionId ? String(sessionId).slice(0, 64) : '',
+  };
+}
+
+/** Total quantity per set (and provider set) of order or cart lines; fees and blank lines are skipped. */
+function quantityBySet(items) {
+  const totals = new Map();
+  (items || []).forEach((item) => {
+    const setId = Number(item.set_id);
+    const quantity = Number(item.quantity);
+    if (!setId || setId < 0 || !(quantity > 0)) {
+      return;
+    }
+    const current = totals.get(setId) || { set_id: setId, provider_set_id: null, quantity: 0 };
+    current.quantity += quantity;
+    current.provider_set_id = current.provider_set_id || (item.provider_set_id ? Number(item.provider_set_id) : null);
+    totals.set(setId, current);
+  });
+  return [...totals.values()];
+}
+
+let stockQueue = Promise.resolve();
+
+/** Run `task` after every earlier reservation or checkout check has finished. */
+function withStockLock(task) {
+  const run = stockQueue.then(task, task);
+  stockQueue = run.catch(() => {});
+  return run;
+}
+
+class StockReservationService {
+  async getTtlMinutes() {
+    const settings = await systemSettingsService.getSettings();
+    return Number(settings.cart_reservation_minutes) || DEFAULT_TTL_MINUTES;
+  }
+
+  /** Active holds of a cart, with set names. */
+  async listReservations(owner) {
+    const { userId, sessionId } = normalizeOwner(owner);
+    const { rows } = await db.query(
+      `SELECT r.reservation_id, r.set_id, r.provider_set_id, r.quantity, r.expires_at, r.created_at, r.updated_at,
+        s.name AS set_name
+      FROM stock_reservations r
+      LEFT JOIN sets s ON r.set_id = s.set_id
+      WHERE r.user_id = ? AND r.session_id = ? AND ${ACTIVE_HOLD_SQL}
+      ORDER BY r.created_at`,
+      [userId, sessionId]
+    );
+    return rows;
+  }
+
+  /**
+   * Kits of a set still buildable for a cart: every active hold counts
+   * against the parts stock except the cart's own hold on this set. Returns
+   * null when the set has no required parts, so nothing limits it.
+   */
+  async getAvailableQuantity(setId, owner = {}) {
+    const availability = await setAvailabilityService.getSetAvailability(setId, {
+      excludeOwner: { ...normalizeOwner(owner), setId: Number(setId) },
+    });
+    return availability.parts_configured ? availability.buildable_quantity : null;
+  }
+
+  /**
+   * Hold `quantity` of a set for the cart. Mode 'add' adds to an existing
+   * hold (adding to cart), 'set' replaces it (changing the quantity; 0
+   * releases it). Throws ConflictError when the stock is not there.
+   */
+  async reserve(owner, { set_id: setId, provider_set_id: providerSetId = null, quantity }, { mode = 'add' } = {}) {
+    const { userId, sessionId } = normalizeOwner(owner);
+    const amount = Number(quantity);
+    if (!setId || !Number.isInteger(amount) || amount < (mode === 'set' ? 0 : 1)) {
+      throw validationError('set_id and a whole, positive quantity are required');
+    }
+    if (mode === 'set' && amount === 0) {
+      await this.release({ userId, sessionId }, setId);
+      return null;
+    }
+    const ttl = await this.getTtlMinutes();
+
+    return withStockLock(async() => {
+      const { rows: sets } = await db.query('SELECT name FROM sets WHERE set_id = ?', [setId]);
+      if (sets.length === 0) {
+        throw validationError(`Set ${setId} does not exist`);
+      }
+      const existing = await this.findActiveHold(userId, sessionId, setId);
+      const total = mode === 'add' && existing ? Number(existing.quantity) + amount : amount;
+      const available = await this.getAvailableQuantity(setId, { userId, sessionId });
+      if (available !== null && total > available) {
+        throw conflictError(
+          available > 0 ? `Only ${available} of "${sets[0].name}" available` : `"${sets[0].name}" is out of stock`,
+          { setId: Number(setId), available }
+        );
+      }
+
+      if (existing) {
+        await db.run(
+          `UPDATE stock_reservations SET quantity = ?, provider_set_id = COALESCE(?, provider_set_id),
+            expires_at = datetime('now', ?), updated_at = datetime('now')
+          WHERE reservation_id = ?`,
+          [total, providerSetId, `+${ttl} minutes`, existing.reservation_id]
+        );
+      } else {
+        await db.run(
+          `INSERT INTO stock_reservations (
+            user_id, session_id, set_id, provider_set_id, quantity, status, expires_at, created_at, updated_at
+          ) VALUES (?, ?, ?, ?, ?, 'active', datetime('now', ?), datetime('now'), datetime('now'))`,
+          [userId, sessionId, setId, providerSetId, total, `+${ttl} minutes`]
+        );
+      }
+      return this.findActiveHold(userId, sessionId, setId);
+    });
+  }
+
+  /** Release the cart's hold on one set. */
+  async release(owner, setId) {
+    const { userId, sessionId } = normalizeOwner(owner);
+    const { changes } = await db.run(
+      `UPDATE stock_reservations SET status = 'released', released_at = datetime('now'), updated_at = datetime('now')
+      WHERE user_id = ? AND session_id = ? AND set_id = ? AND status = 'active'`,
+      [userId, sessionId, setId]
+    );
+    return changes || 0;
+  }
+
+  /** Release every hold of the cart. */
+  async releaseAll(owner) {
+    const { userId, sessionId } = normalizeOwner(owner);
+    const { changes } = await db.run(
+      `UPDATE stock_reservations SET status = 'released', released_at = datetime('now'), updated_at = datetime('now')
+      WHERE user_id = ? AND session_id = ? AND status = 'active'`,
+      [userId, sessionId]
+    );
+    return changes || 0;
+  }
+
+  /** Mark holds past their expiry as 'expired' (scheduler job). */
+  async releaseExpired() {
+    const { changes } = await db.run(
+      `UPDATE stock_reservations SET status = 'expired', released_at = datetime('now'), updated_at = datetime('now')
+      WHERE status = 'active' AND expires_at <= datetime('now')`
+    );
+    return changes || 0;
+  }
+
+  /**
+   * At checkout: check the order's sets together against the parts stock
+   * not held by other carts, then hold the ordered quantities for this cart
+   * until the order has taken its stock (see convertToOrder). Orders without
+   * a customer are only checked. Throws ConflictError for the first set short.
+   */
+  async claimForCheckout(owner, items) {
+    const { userId, sessionId } = normalizeOwner(owner);
+    const lines = quantityBySet(items);
+    if (lines.length === 0) {
+      return;
+    }
+    const ttl = await this.getTtlMinutes();
+
+    await withStockLock(async() => {
+      const results = await setAvailabilityService.validateLines(lines, { excludeOwner: { userId, sessionId } });
+      const short = results.find((result) => result.parts_configured && !result.valid);
+      if (short) {
+        const line = lines.find((candidate) => candidate.set_id === Number(short.set_id));
+        const { rows } = await db.query('SELECT name FROM sets WHERE set_id = ?', [short.set_id]);
+        const name = rows.length > 0 ? rows[0].name : `Set ${short.set_id}`;
+        const available = short.buildable_quantity;
+        let message = available > 0 ? `Only ${available} of "${name}" available` : `"${name}" is out of stock`;
+        if (available >= line.quantity) {
+          message = `Not enough parts for "${name}" together with the rest of the order`;
+        }
+        throw conflictError(message, { setId: line.set_id, available });
+      }
+      if (!userId) {
+        return;
+      }
+      for (const line of lines) {
+        const existing = await this.findActiveHold(userId, sessionId, line.set_id);
+        if (existing) {
+          await db.run(
+            `UPDATE stock_reservations SET quantity = ?, expires_at = datetime('now', ?), updated_at = datetime('now')
+            WHERE reservation_id = ?`,
+            [line.quantity, `+${ttl} minutes`, existing.reservation_id]
+          );
+        } else {
+          await db.run(
+            `INSERT INTO stock_reservations (
+              user_id, session_id, set_id, provider_set_id, quantity, status, expires_at, created_at, updated_at
+            ) VALUES (?, ?, ?, ?, ?, 'active', datetime('now', ?), datetime('now'), datetime('now'))`,
+            [userId, sessionId, line.set_id, line.provider_set_id, line.quantity, `+${ttl} minutes`]
+          );
+        }
+      }
+    });
+  }
+
+  /** The order has taken its stock: its cart's holds are converted, not released. */
+  async convertToOrder(owner, orderId) {
+    const { userId, sessionId } = normalizeOwner(owner);
+    if (!userId) {
+      return 0;
+    }
+    const { changes } = await db.run(
+      `UPDATE stock_reservations SET status = 'converted', order_id = ?, released_at = datetime('now'), updated_at = datetime('now')
+      WHERE user_id = ? AND session_id = ? AND status = 'active'`,
+      [orderId, userId, sessionId]
+    );
+    return changes || 0;
+  }
+
+  async findActiveHold(userId, sessionId, setId) {
+    const { rows } = await db.query(
+      `SELECT * FROM stock_reservations r
+      WHERE r.user_id = ? AND r.session_id = ? AND r.set_id = ? AND ${ACTIVE_HOLD_SQL}
+      ORDER BY r.reservation_id DESC LIMIT 1`,
+      [userId, sessionId, setId]
+    );
+    return rows[0] || null;
+  }
+}
+
+module.exports = new StockReservationService();
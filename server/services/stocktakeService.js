@@ -0,0 +1,431 @@
+/**
+ * Stocktake Service
+ *
+ * Stocktake sessions (cycle counts) for parts and tools: counting -> review
+ * -> posted (or cancelled). Starting a stocktake freezes the expected
+ * quantity and unit cost of every part or tool in scope; parts are counted
+ * per storage location (part_stock), so a posted variance changes both the
+ * part's total and the stock at that location. Counts are entered
+ * in batches or one scan at a time; once submitted, the variances are
+ * approved or rejected line by line and posting applies the approved ones
+ * together. Parts get one 'stocktake' inventory transaction per line,
+ * referencing the stocktake; tools counted missing (or found again) have
+ * their condition updated.
+ */
+
+const db = require('../utils/sqliteConnectionManager');
+const stockLocationService = require('./stockLocationService');
+const partLotService = require('./partLotService');
+const { createsCycle } = require('../utils/stockLocations');
+const {
+  STOCKTAKE_STATUSES,
+  STOCKTAKE_SCOPES,
+  lineVariance,
+  summarizeLines,
+  stockAfterVariance,
+} = require('../utils/stocktake');
+
+function validationError(message) {
+  const error = new Error(message);
+  error.name = 'ValidationError';
+  return error;
+}
+
+function notFoundError(message) {
+  const error = new Error(message);
+  error.name = 'NotFoundError';
+  return error;
+}
+
+/** Counted quantity from user input: a whole or decimal number, 0 or more. */
+function parseCount(value, label) {
+  const quantity = Number(value);
+  if (value === null || value === undefined || value === '' || !Number.isFinite(quantity) || quantity < 0) {
+    throw validationError(`${label}: counted_quantity must be 0 or more`);
+  }
+  return quantity;
+}
+
+const LINE_SELECT = `SELECT l.*,
+    p.part_number, p.name AS part_name, p.unit_of_measure, p.stock_quantity AS current_stock,
+    t.tool_number, t.tool_name, t.condition_status, sl.code AS location_code
+  FROM stocktake_lines l
+  LEFT JOIN parts p ON l.part_id = p.part_id
+  LEFT JOIN tools t ON l.tool_id = t.tool_id
+  LEFT JOIN storage_locations sl ON l.location_id = sl.location_id`;
+
+class StocktakeService {
+  async listStocktakes({ page = 1, limit = 20, status } = {}) {
+    const params = [];
+    let where = '';
+    if (status) {
+      if (!STOCKTAKE_STATUSES.includes(status)) {
+        throw validationError(`status must be one of: ${STOCKTAKE_STATUSES.join(', ')}`);
+      }
+      where = 'WHERE st.status = ?';
+      params.push(status);
+    }
+    const pageSize = Math.min(Math.max(parseInt(limit) || 20, 1), 200);
+    const pageNumber = Math.max(parseInt(page) || 1, 1);
+
+    const { rows } = await db.query(
+      `SELECT st.*,
+        COUNT(l.line_id) AS line_count,
+        SUM(CASE WHEN l.counted_quantity IS NOT NULL THEN 1 ELSE 0 END) AS counted_count,
+        SUM(CASE WHEN l.counted_quantity IS NOT NULL AND l.counted_quantity != l.expected_quantity THEN 1 ELSE 0 END)
+          AS variance_count
+      FROM stocktakes st
+      LEFT JOIN stocktake_lines l ON l.stocktake_id = st.stocktake_id
+      ${where}
+      GROUP BY st.stocktake_id
+      ORDER BY st.created_at DESC, st.stocktake_id DESC
+      LIMIT ? OFFSET ?`,
+      [...params, pageSize, (pageNumber - 1) * pageSize]
+    );
+    const { rows: countRows } = await db.query(`SELECT COUNT(*) AS total FROM stocktakes st ${where}`, params);
+    const total = Number(countRows[0].total) || 0;
+
+    return {
+      stocktakes: rows,
+      pagination: { page: pageNumber, limit: pageSize, total, pages: Math.ceil(total / pageSize) },
+    };
+  }
+
+  /** Stocktake with its lines (variance and value impact per line) and totals. */
+  async getStocktake(stocktakeId, { varianceOnly = false } = {}) {
+    const { rows } = await db.query('SELECT * FROM stocktakes WHERE stocktake_id = ?', [stocktakeId]);
+    if (rows.length === 0) {
+      throw notFoundError('Stocktake not found');
+    }
+    const { rows: lineRows } = await db.query(
+      `${LINE_SELECT}
+      WHERE l.stocktake_id = ?
+      ORDER BY l.location, l.item_type, COALESCE(p.part_number, t.tool_number)`,
+      [stocktakeId]
+    );
+    const lines = lineRows.map((line) => ({ ...line, ...lineVariance(line) }));
+    return {
+      ...rows[0],
+      summary: summarizeLines(lines),
+      lines: varianceOnly ? lines.filter((line) => line.variance) : lines,
+    };
+  }
+
+  async getNextNumber() {
+    const prefix = `ST-${new Date().getFullYear()}-`;
+    const { rows } = await db.query(
+      'SELECT stocktake_number FROM stocktakes WHERE stocktake_number LIKE ? ORDER BY stocktake_number DESC LIMIT 1',
+      [`${prefix}%`]
+    );
+    const last = rows.length > 0 ? parseInt(rows[0].stocktake_number.slice(prefix.length)) || 0 : 0;
+    return `${prefix}${String(last + 1).padStart(4, '0')}`;
+  }
+
+  /**
+   * Start a stocktake: snapshot the parts and/or active tools in scope,
+   * optionally limited to one storage location (and the bins inside it) or
+   * category. A part gets a line per location holding it, and one for its
+   * unassigned stock when it has some or no location at all.
+   */
+  async createStocktake(data, userId = null) {
+    const scope = data.scope || 'parts';
+    if (!STOCKTAKE_SCOPES.includes(scope)) {
+      throw validationError(`scope must be one of: ${STOCKTAKE_SCOPES.join(', ')}`);
+    }
+    const category = data.category ? String(data.category).trim() : null;
+    let location = null;
+    let locationIds = null;
+    if (data.location_id) {
+      const byId = await stockLocationService.getLocationMap();
+      location = byId.get(Number(data.location_id));
+      if (!location) {
+        throw validationError('Location not found');
+      }
+      locationIds = new Set([...byId.values()]
+        .filter((candidate) => createsCycle(location.location_id, candidate.location_id, byId))
+        .map((candidate) => Number(candidate.location_id)));
+    }
+    const inScope = (locationId) => !locationIds || locationIds.has(Number(locationId));
+
+    const parts = [];
+    if (scope !== 'tools') {
+      const { rows } = await db.query(
+        `SELECT p.part_id, p.stock_quantity, p.unit_cost FROM parts p
+        ${category ? 'WHERE p.category = ?' : ''}
+        ORDER BY p.part_number`,
+        category ? [category] : []
+      );
+      const breakdowns = await stockLocationService.getBreakdowns(rows.map((row) => row.part_id));
+      rows.forEach((row) => {
+        const breakdown = breakdowns.get(Number(row.part_id));
+        const held = breakdown.locations.map((at) => ({ location_id: at.location_id, location: at.path, quantity: at.quantity }));
+        if (breakdown.unassigned_quantity > 0 || held.length === 0) {
+          held.push({ location_id: null, location: null, quantity: breakdown.unassigned_quantity });
+        }
+        held.filter((at) => inScope(at.location_id)).forEach((at) => {
+          parts.push({ ...at, part_id: row.part_id, unit_cost: Number(row.unit_cost) || 0 });
+        });
+      });
+    }
+    let tools = [];
+    if (scope !== 'parts') {
+      const conditions = ['(t.active = 1 OR t.active IS NULL)'];
+      if (category) {
+        conditions.push('t.category = ?');
+      }
+      const { rows } = await db.query(
+        `SELECT t.tool_id, t.location_id, t.location, t.condition_status FROM tools t
+        WHERE ${conditions.join(' AND ')}
+        ORDER BY t.location, t.tool_number`,
+        category ? [category] : []
+      );
+      tools = rows.filter((tool) => inScope(tool.location_id));
+    }
+    if (parts.length + tools.length === 0) {
+      throw validationError('Nothing to count for this scope, location and category');
+    }
+
+    const { lastID: stocktakeId } = await db.run(
+      `INSERT INTO stocktakes (
+        stocktake_number, name, scope, location, category, status, notes, created_by, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, 'counting', ?, ?, datetime('now'), datetime('now'))`,
+      [await this.getNextNumber(), data.name || null, scope, location ? location.path : null, category, data.notes || null, userId]
+    );
+    for (const part of parts) {
+      await db.run(
+        `INSERT INTO stocktake_lines (stocktake_id, item_type, part_id, location_id, location, expected_quantity, unit_cost)
+        VALUES (?, 'part', ?, ?, ?, ?, ?)`,
+        [stocktakeId, part.part_id, part.location_id, part.location, part.quantity, part.unit_cost]
+      );
+    }
+    // A tool is expected once, unless it is already recorded as missing
+    for (const tool of tools) {
+      await db.run(
+        `INSERT INTO stocktake_lines (stocktake_id, item_type, tool_id, location_id, location, expected_quantity, unit_cost)
+        VALUES (?, 'tool', ?, ?, ?, ?, 0)`,
+        [stocktakeId, tool.tool_id, tool.location_id || null, tool.location || null, tool.condition_status === 'missing' ? 0 : 1]
+      );
+    }
+    return this.getStocktake(stocktakeId);
+  }
+
+  /**
+   * Enter counted quantities. Each count names its line by line_id,
+   * part_id, tool_id or code (part or tool number) and gives
+   * counted_quantity, optionally the location it was found at (location_id,
+   * or location as a code or path, which picks the part's line there).
+   */
+  async recordCounts(stocktakeId, counts, userId = null) {
+    await this.getStocktakeIn(stocktakeId, ['counting'], 'Counts can only be entered while counting');
+    if (!Array.isArray(counts) || counts.length === 0) {
+      throw validationError('counts must be a non-empty list');
+    }
+    const updates = [];
+    for (const [index, count] of counts.entries()) {
+      const label = `Count ${index + 1}`;
+      const line = await this.findLine(stocktakeId, count, label);
+      updates.push({ line, quantity: parseCount(count.counted_quantity, label), count });
+    }
+    for (const { line, quantity, count } of updates) {
+      await this.saveCount(line, quantity, count, userId);
+    }
+    return this.getStocktake(stocktakeId);
+  }
+
+  /** Scanner input: each scan of a part or tool number adds `quantity` (default 1) to its count. */
+  async scan(stocktakeId, { code, quantity = 1, location } = {}, userId = null) {
+    await this.getStocktakeIn(stocktakeId, ['counting'], 'Counts can only be entered while counting');
+    if (!code) {
+      throw validationError('code is required');
+    }
+    const line = await this.findLine(stocktakeId, { code, location }, `Code ${code}`);
+    const added = parseCount(quantity, `Code ${code}`);
+    await this.saveCount(line, (Number(line.counted_quantity) || 0) + added, { location }, userId);
+    const { rows } = await db.query(`${LINE_SELECT} WHERE l.line_id = ?`, [line.line_id]);
+    return { ...rows[0], ...lineVariance(rows[0]) };
+  }
+
+  /** Finish counting; the variances go to review. */
+  async submitStocktake(stocktakeId) {
+    const stocktake = await this.getStocktakeIn(stocktakeId, ['counting'], 'Only a stocktake being counted can be submitted');
+    const { rows } = await db.query(
+      'SELECT COUNT(*) AS count FROM stocktake_lines WHERE stocktake_id = ? AND counted_quantity IS NOT NULL',
+      [stocktakeId]
+    );
+    if (Number(rows[0].count) === 0) {
+      throw validationError('Nothing has been counted yet');
+    }
+    await db.run(
+      `UPDATE stocktakes SET status = 'review', submitted_at = datetime('now'), updated_at = datetime('now')
+      WHERE stocktake_id = ?`,
+      [stocktake.stocktake_id]
+    );
+    return this.getStocktake(stocktakeId);
+  }
+
+  /** Back to counting, e.g. to recount lines; earlier approvals are cleared. */
+  async reopenStocktake(stocktakeId) {
+    await this.getStocktakeIn(stocktakeId, ['review'], 'Only a stocktake in review can be reopened');
+    await db.run(
+      `UPDATE stocktake_lines SET status = 'counted'
+      WHERE stocktake_id = ? AND status IN ('approved', 'rejected')`,
+      [stocktakeId]
+    );
+    await db.run(
+      `UPDATE stocktakes SET status = 'counting', submitted_at = NULL, updated_at = datetime('now')
+      WHERE stocktake_id = ?`,
+      [stocktakeId]
+    );
+    return this.getStocktake(stocktakeId);
+  }
+
+  /** Approve or reject variance lines (all counted variance lines when no line_ids are given). */
+  async reviewLines(stocktakeId, { line_ids: lineIds, approved }) {
+    await this.getStocktakeIn(stocktakeId, ['review'], 'Variances can only be approved in review');
+    const status = approved === false ? 'rejected' : 'approved';
+    const params = [status, stocktakeId];
+    let lineCondition = '';
+    if (lineIds !== undefined) {
+      if (!Array.isArray(lineIds) || lineIds.length === 0) {
+        throw validationError('line_ids must be a non-empty list');
+      }
+      lineCondition = `AND line_id IN (${lineIds.map(() => '?').join(', ')})`;
+      params.push(...lineIds);
+    }
+    await db.run(
+      `UPDATE stocktake_lines SET status = ?
+      WHERE stocktake_id = ? AND counted_quantity IS NOT NULL AND counted_quantity != expected_quantity ${lineCondition}`,
+      params
+    );
+    return this.getStocktake(stocktakeId);
+  }
+
+  /**
+   * Post the approved variances as one batch: each part's variance is added
+   * to its current stock and to the stock at the line's location, and
+   * recorded as a 'stocktake' inventory
+   * transaction of this stocktake; tools counted missing get condition
+   * 'missing', missing tools found again 'good'.
+   */
+  async postStocktake(stocktakeId, userId = null) {
+    const stocktake = await this.getStocktakeIn(stocktakeId, ['review'], 'Only a stocktake in review can be posted');
+    const { rows: lines } = await db.query(
+      `${LINE_SELECT}
+      WHERE l.stocktake_id = ? AND l.status = 'approved'`,
+      [stocktakeId]
+    );
+    const reason = `Stocktake ${stocktake.stocktake_number}`;
+
+    for (const line of lines) {
+      const { variance } = lineVariance(line);
+      if (line.item_type === 'part' && line.part_id) {
+        const { rows } = await db.query('SELECT stock_quantity FROM parts WHERE part_id = ?', [line.part_id]);
+        const previousStock = Number(rows[0] && rows[0].stock_quantity) || 0;
+        const newStock = stockAfterVariance(previousStock, variance);
+        if (line.location_id) {
+          await stockLocationService.adjustAt(line.part_id, line.location_id, newStock - previousStock);
+        }
+        await db.run('UPDATE parts SET stock_quantity = ? WHERE part_id = ?', [newStock, line.part_id]);
+        if (newStock < previousStock) {
+          await partLotService.normalize(line.part_id);
+        }
+        await db.run(
+          `INSERT INTO inventory_transactions (
+            part_id, transaction_type, quantity, previous_stock, new_stock, reason, notes,
+            cost_per_unit, reference_id, reference_type
+          ) VALUES (?, 'stocktake', ?, ?, ?, ?, ?, ?, ?, 'stocktake')`,
+          [line.part_id, variance, previousStock, newStock, reason, line.notes || '', line.unit_cost, stocktakeId]
+        );
+      } else if (line.item_type === 'tool' && line.tool_id) {
+        const condition = Number(line.counted_quantity) > 0 ? 'good' : 'missing';
+        await db.run(
+          `UPDATE tools SET condition_status = ?, location = COALESCE(?, location), updated_at = datetime('now')
+          WHERE tool_id = ?`,
+          [condition, line.counted_location || null, line.tool_id]
+        );
+      }
+      await db.run('UPDATE stocktake_lines SET status = \'posted\' WHERE line_id = ?', [line.line_id]);
+    }
+
+    await db.run(
+      `UPDATE stocktakes SET status = 'posted', posted_by = ?, posted_at = datetime('now'), updated_at = datetime('now')
+      WHERE stocktake_id = ?`,
+      [userId, stocktakeId]
+    );
+    return this.getStocktake(stocktakeId);
+  }
+
+  async cancelStocktake(stocktakeId) {
+    await this.getStocktakeIn(stocktakeId, ['counting', 'review'], 'A posted or cancelled stocktake cannot be cancelled');
+    await db.run(
+      `UPDATE stocktakes SET status = 'cancelled', cancelled_at = datetime('now'), updated_at = datetime('now')
+      WHERE stocktake_id = ?`,
+      [stocktakeId]
+    );
+    return this.getStocktake(stocktakeId);
+  }
+
+  async getStocktakeIn(stocktakeId, statuses, message) {
+    const { rows } = await db.query('SELECT * FROM stocktakes WHERE stocktake_id = ?', [stocktakeId]);
+    if (rows.length === 0) {
+      throw notFoundError('Stocktake not found');
+    }
+    if (!statuses.includes(rows[0].status)) {
+      throw validationError(`${message} (status: ${rows[0].status})`);
+    }
+    return rows[0];
+  }
+
+  /** The stocktake line a count refers to; a code matches the part or tool number. */
+  async findLine(stocktakeId, count, label) {
+    let condition;
+    let value;
+    if (count.line_id) {
+      condition = 'l.line_id = ?';
+      value = count.line_id;
+    } else if (count.part_id) {
+      condition = 'l.part_id = ?';
+      value = count.part_id;
+    } else if (count.tool_id) {
+      condition = 'l.tool_id = ?';
+      value = count.tool_id;
+    } else if (count.code) {
+      condition = '(p.part_number = ? OR t.tool_number = ?)';
+      value = String(count.code).trim();
+    } else {
+      throw validationError(`${label}: line_id, part_id, tool_id or code is required`);
+    }
+    const params = condition.includes('OR') ? [stocktakeId, value, value] : [stocktakeId, value];
+    if (count.location_id) {
+      condition += ' AND l.location_id = ?';
+      params.push(count.location_id);
+    }
+    // A part held at several locations: the line where it was found, else its first line
+    const foundAt = count.location ? String(count.location).trim() : '';
+    const { rows } = await db.query(
+      `${LINE_SELECT} WHERE l.stocktake_id = ? AND ${condition}
+      ORDER BY CASE WHEN UPPER(sl.code) = UPPER(?) OR UPPER(l.location) = UPPER(?) THEN 0 ELSE 1 END, l.line_id
+      LIMIT 1`,
+      [...params, foundAt, foundAt]
+    );
+    if (rows.length === 0) {
+      throw validationError(`${label}: not part of this stocktake`);
+    }
+    return rows[0];
+  }
+
+  async saveCount(line, quantity, { location, notes } = {}, userId = null) {
+    // Noted only when found somewhere other than the line's own location
+    const foundAt = location ? String(location).trim() : null;
+    const elsewhere = foundAt && ![line.location, line.location_code]
+      .some((value) => value && value.toUpperCase() === foundAt.toUpperCase());
+    await db.run(
+      `UPDATE stocktake_lines SET counted_quantity = ?, counted_location = COALESCE(?, counted_location),
+        notes = COALESCE(?, notes), counted_by = ?, counted_at = datetime('now'), status = 'counted'
+      WHERE line_id = ?`,
+      [quantity, elsewhere ? foundAt : null, notes || null, userId, line.line_id]
+    );
+  }
+}
+
+module.exports = new StocktakeService();
@@ -0,0 +1,174 @@
+/**
+ * Supplier Service
+ *
+ * Suppliers of parts, with contact details, lead time and minimum order
+ * quantity. Parts link to their supplier through parts.supplier_id; the
+ * free-text parts.supplier is kept in step with the supplier name so older
+ * screens and reports keep showing it.
+ */
+
+const db = require('../utils/sqliteConnectionManager');
+
+const TEXT_FIELDS = ['name', 'contact_name', 'email', 'phone', 'address', 'website', 'vat_number', 'currency', 'notes'];
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function validationError(message) {
+  const error = new Error(message);
+  error.name = 'ValidationError';
+  return error;
+}
+
+function notFoundError(message) {
+  const error = new Error(message);
+  error.name = 'NotFoundError';
+  return error;
+}
+
+/** Validate the supplier fields present in `data`; returns column -> value. */
+function normalizeSupplier(data, { requireName }) {
+  const values = {};
+  TEXT_FIELDS.filter((field) => data[field] !== undefined).forEach((field) => {
+    const value = data[field] === null ? null : String(data[field]).trim();
+    values[field] = value === '' ? null : value;
+  });
+  if ((requireName || values.name !== undefined) && !values.name) {
+    throw validationError('Supplier name is required');
+  }
+  if (values.email && !EMAIL_PATTERN.test(values.email)) {
+    throw validationError('Supplier email is not a valid email address');
+  }
+  if (values.currency) {
+    values.currency = values.currency.toUpperCase();
+  }
+  ['lead_time_days', 'minimum_order_quantity'].filter((field) => data[field] !== undefined).forEach((field) => {
+    const value = data[field] === null || data[field] === '' ? 0 : Number(data[field]);
+    if (!Number.isInteger(value) || value < 0) {
+      throw validationError(`${field} must be a whole number, 0 or more`);
+    }
+    values[field] = value;
+  });
+  if (data.is_active !== undefined) {
+    values.is_active = data.is_active ? 1 : 0;
+  }
+  return values;
+}
+
+class SupplierService {
+  async listSuppliers({ search, includeInactive = false } = {}) {
+    const conditions = [];
+    const params = [];
+    if (!includeInactive) {
+      conditions.push('s.is_active = 1');
+    }
+    if (search) {
+      conditions.push('(s.name LIKE ? OR s.contact_name LIKE ? OR s.email LIKE ?)');
+      params.push(`%${search}%`, `%${search}%`, `%${search}%`);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const { rows } = await db.query(
+      `SELECT s.*,
+        (SELECT COUNT(*) FROM parts p WHERE p.supplier_id = s.supplier_id) AS part_count,
+        (SELECT COUNT(*) FROM purchase_orders po
+          WHERE po.supplier_id = s.supplier_id AND po.status IN ('draft', 'sent', 'partially_received')) AS open_order_count
+      FROM suppliers s
+      ${where}
+      ORDER BY s.name`,
+      params
+    );
+    return rows;
+  }
+
+  /** Supplier with the parts it supplies. */
+  async getSupplier(supplierId) {
+    const { rows } = await db.query('SELECT * FROM suppliers WHERE supplier_id = ?', [supplierId]);
+    if (rows.length === 0) {
+      throw notFoundError('Supplier not found');
+    }
+    const { rows: parts } = await db.query(
+      `SELECT part_id, part_number, name AS part_name, category, unit_of_measure, unit_cost,
+        supplier_part_number, stock_quantity, minimum_stock_level
+      FROM parts
+      WHERE supplier_id = ?
+      ORDER BY part_number`,
+      [supplierId]
+    );
+    return { ...rows[0], parts };
+  }
+
+  async createSupplier(data) {
+    const values = normalizeSupplier(data, { requireName: true });
+    await this.checkNameFree(values.name);
+    const columns = Object.keys(values);
+    const { lastID } = await db.run(
+      `INSERT INTO suppliers (${columns.join(', ')}, created_at, updated_at)
+      VALUES (${columns.map(() => '?').join(', ')}, datetime('now'), datetime('now'))`,
+      columns.map((column) => values[column])
+    );
+    return this.getSupplier(lastID);
+  }
+
+  async updateSupplier(supplierId, data) {
+    const supplier = await this.getSupplier(supplierId);
+    const values = normalizeSupplier(data, { requireName: false });
+    if (values.name && values.name !== supplier.name) {
+      await this.checkNameFree(values.name, supplierId);
+    }
+    const columns = Object.keys(values);
+    if (columns.length > 0) {
+      await db.run(
+        `UPDATE suppliers SET ${columns.map((column) => `${column} = ?`).join(', ')}, updated_at = datetime('now')
+        WHERE supplier_id = ?`,
+        [...columns.map((column) => values[column]), supplierId]
+      );
+    }
+    if (values.name && values.name !== supplier.name) {
+      await db.run('UPDATE parts SET supplier = ? WHERE supplier_id = ?', [values.name, supplierId]);
+    }
+    return this.getSupplier(supplierId);
+  }
+
+  /**
+   * Delete a supplier that has no purchase orders (its parts are unlinked;
+   * their free-text supplier stays). Suppliers with orders can only be
+   * deactivated, so the order history keeps its supplier.
+   */
+  async deleteSupplier(supplierId) {
+    await this.getSupplier(supplierId);
+    const { rows } = await db.query('SELECT COUNT(*) AS count FROM purchase_orders WHERE supplier_id = ?', [supplierId]);
+    if (Number(rows[0].count) > 0) {
+      throw validationError('The supplier has purchase orders; deactivate it instead');
+    }
+    await db.run('UPDATE parts SET supplier_id = NULL WHERE supplier_id = ?', [supplierId]);
+    await db.run('DELETE FROM suppliers WHERE supplier_id = ?', [supplierId]);
+  }
+
+  /** Make this the supplier of the given parts. */
+  async assignParts(supplierId, partIds) {
+    const supplier = await this.getSupplier(supplierId);
+    if (!Array.isArray(partIds) || partIds.length === 0) {
+      throw validationError('part_ids must be a non-empty list');
+    }
+    for (const partId of partIds) {
+      const { changes } = await db.run(
+        'UPDATE parts SET supplier_id = ?, supplier = ? WHERE part_id = ?',
+        [supplierId, supplier.name, partId]
+      );
+      if (!changes) {
+        throw validationError(`Part ${partId} does not exist`);
+      }
+    }
+    return this.getSupplier(supplierId);
+  }
+
+  async checkNameFree(name, exceptSupplierId = null) {
+    const { rows } = await db.query(
+      'SELECT supplier_id FROM suppliers WHERE LOWER(name) = LOWER(?) AND supplier_id != ?',
+      [name, exceptSupplierId || 0]
+    );
+    if (rows.length > 0) {
+      throw validationError(`A supplier named "${name}" already exists`);
+    }
+  }
+}
+
+module.exports = new SupplierService();
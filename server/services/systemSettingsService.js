@@ -9,12 +9,63 @@ const fs = require('fs').promises;
 const path = require('path');
 const { exec } = require('child_process');
 const { promisify } = require('util');
+const {
+  SETTINGS_SCHEMA,
+  SECRET_MASK,
+  settingType,
+  canChangeSetting,
+  maskSecrets,
+  settingDefaults,
+  parseSettingValue,
+  serializeSettingValue,
+  validateSetting,
+} = require('../utils/settingsSchema');
+const {
+  MANIFEST_FILE,
+  DATABASE_FILE,
+  UPLOADS_FOLDER,
+  sha256File,
+  buildManifest,
+  verifyManifest,
+  createArchive,
+  extractArchive,
+  backupsToPrune,
+} = require('../utils/backupArchive');
 
 const execAsync = promisify(exec);
 
+async function pathExists(target) {
+  try {
+    await fs.access(target);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Make dir hold exactly the files of source (dir is created if missing). */
+async function replaceDirectoryContents(dir, source) {
+  await fs.mkdir(dir, { recursive: true });
+  for (const entry of await fs.readdir(dir)) {
+    await fs.rm(path.join(dir, entry), { recursive: true, force: true });
+  }
+  if (await pathExists(source)) {
+    await fs.cp(source, dir, { recursive: true });
+  }
+}
+
+function validationError(message) {
+  const error = new Error(message);
+  error.name = 'ValidationError';
+  return error;
+}
+
 class SystemSettingsService {
   constructor() {
     this.backupDir = path.join(__dirname, '../backups');
+    this.uploadsDir = process.env.UPLOADS_DIR
+      ? path.resolve(process.env.UPLOADS_DIR)
+      : path.join(__dirname, '../uploads');
     this.ensureBackupDir();
   }
 
@@ -27,37 +78,25 @@ class SystemSettingsService {
   }
 
   /**
-   * Get all system settings
+   * Get all system settings: declared settings typed and defaulted by the
+   * schema, other stored keys converted by their stored type. Secret values
+   * are masked unless `includeSecrets` is set (server-side use only).
    */
-  async getSettings() {
+  async getSettings({ includeSecrets = false } = {}) {
     try {
       const result = await pool.query('SELECT * FROM system_settings ORDER BY category, setting_key');
-      const settings = {};
+      const settings = settingDefaults();
       
       result.rows.forEach(row => {
-        let value = row.setting_value;
-        
-        // Convert value based on type
-        switch (row.setting_type) {
-          case 'number':
-            value = parseFloat(value);
-            break;
-          case 'boolean':
-            value = value === 'true';
-            break;
-          case 'json':
-            try {
-              value = JSON.parse(value);
-            } catch {
-              value = value;
-            }
-            break;
+        const type = SETTINGS_SCHEMA[row.setting_key] ? settingType(row.setting_key) : row.setting_type;
+        const value = parseSettingValue(row.setting_value, type);
+        if (SETTINGS_SCHEMA[row.setting_key] && (value === null || value === '')) {
+          return;
         }
-        
         settings[row.setting_key] = value;
       });
       
-      return settings;
+      return includeSecrets ? settings : maskSecrets(settings);
     } catch (error) {
       console.error('Error fetching system settings:', error);
       throw error;
@@ -65,186 +104,382 @@ class SystemSettingsService {
   }
 
   /**
-   * Update system settings
+   * Update system settings. Every key must be declared in the settings schema,
+   * pass its validation and be changeable by the user's role; nothing is
+   * written if any key fails (ValidationError / ForbiddenError with `details`).
+   * A secret sent back as its mask is left unchanged. Each changed value gets
+   * the next version number in system_settings_audit.
+   * @param {object|null} user - { user_id, role } of the admin making the change
+   * @returns {Promise<{ changed: string[], settings: object }>}
    */
-  async updateSettings(settings) {
-    const client = await pool.connect();
+  async updateSettings(settings, user = null, { rollbackTo = null } = {}) {
+    const errors = [];
+    const forbidden = [];
+    const updates = [];
+    for (const [key, value] of Object.entries(settings || {})) {
+      if (SETTINGS_SCHEMA[key] && SETTINGS_SCHEMA[key].secret && value === SECRET_MASK) {
+        continue;
+      }
+      const checked = validateSetting(key, value);
+      if (checked.error) {
+        errors.push(checked.error);
+      } else if (user && !canChangeSetting(key, user.role)) {
+        forbidden.push(`${key} cannot be changed by ${user.role} users`);
+      } else {
+        updates.push({ key, value: checked.value });
+      }
+    }
+    if (errors.length > 0) {
+      const error = validationError('Invalid settings');
+      error.details = errors;
+      throw error;
+    }
+    if (forbidden.length > 0) {
+      const error = new Error('Not allowed to change these settings');
+      error.name = 'ForbiddenError';
+      error.details = forbidden;
+      throw error;
+    }
+
     try {
-      await client.query('BEGIN');
-      
-      for (const [key, value] of Object.entries(settings)) {
-        let stringValue = value;
-        let type = 'string';
-        
-        if (typeof value === 'boolean') {
-          stringValue = value.toString();
-          type = 'boolean';
-        } else if (typeof value === 'number') {
-          stringValue = value.toString();
-          type = 'number';
-        } else if (typeof value === 'object') {
-          stringValue = JSON.stringify(value);
-          type = 'json';
+      const changed = [];
+      for (const update of updates) {
+        const newValue = serializeSettingValue(update.value);
+        const { rows } = await pool.query('SELECT setting_value FROM system_settings WHERE setting_key = ?', [update.key]);
+        const oldValue = rows.length > 0 ? rows[0].setting_value : null;
+        if (oldValue === newValue) {
+          continue;
         }
         
-        await client.query(`
-          INSERT INTO system_settings (setting_key, setting_value, setting_type, updated_at)
-          VALUES ($1, $2, $3, CURRENT_TIMESTAMP)
-          ON CONFLICT (setting_key) 
-          DO UPDATE SET 
-            setting_value = EXCLUDED.setting_value,
-            setting_type = EXCLUDED.setting_type,
-            updated_at = CURRENT_TIMESTAMP
-        `, [key, stringValue, type]);
+        await pool.run(`
+          INSERT INTO system_settings (setting_key, setting_value, setting_type, category, updated_at)
+          VALUES (?, ?, ?, ?, datetime('now'))
+          ON CONFLICT(setting_key) DO UPDATE SET
+            setting_value = excluded.setting_value,
+            setting_type = excluded.setting_type,
+            updated_at = datetime('now')
+        `, [update.key, newValue, settingType(update.key), SETTINGS_SCHEMA[update.key].category]);
+        const { rows: versionRows } = await pool.query(
+          'SELECT COALESCE(MAX(version), 0) AS version FROM system_settings_audit WHERE setting_key = ?',
+          [update.key]
+        );
+        await pool.run(
+          'INSERT INTO system_settings_audit (setting_key, version, old_value, new_value, changed_by, rollback_to) VALUES (?, ?, ?, ?, ?, ?)',
+          [update.key, versionRows[0].version + 1, oldValue, newValue, user ? user.user_id : null, rollbackTo]
+        );
+        changed.push(update.key);
       }
       
-      await client.query('COMMIT');
-      return { success: true, message: 'Settings updated successfully' };
+      return { changed, settings: await this.getSettings() };
     } catch (error) {
-      await client.query('ROLLBACK');
       console.error('Error updating system settings:', error);
       throw error;
-    } finally {
-      client.release();
     }
   }
 
   /**
-   * Create database backup
+   * Who changed which setting, newest first (secret values masked)
+   */
+  async getSettingsHistory({ key = null, limit = 50 } = {}) {
+    const params = [];
+    let where = '';
+    if (key) {
+      where = 'WHERE a.setting_key = ?';
+      params.push(key);
+    }
+    params.push(limit);
+    const result = await pool.query(`
+      SELECT a.audit_id, a.setting_key, a.version, a.old_value, a.new_value, a.rollback_to,
+             a.changed_by, a.changed_at, u.username AS changed_by_username
+      FROM system_settings_audit a
+      LEFT JOIN users u ON a.changed_by = u.user_id
+      ${where}
+      ORDER BY a.changed_at DESC, a.audit_id DESC
+      LIMIT ?
+    `, params);
+    return result.rows.map(row => {
+      if (!SETTINGS_SCHEMA[row.setting_key] || !SETTINGS_SCHEMA[row.setting_key].secret) {
+        return row;
+      }
+      return {
+        ...row,
+        old_value: row.old_value ? SECRET_MASK : row.old_value,
+        new_value: row.new_value ? SECRET_MASK : row.new_value,
+      };
+    });
+  }
+
+  /**
+   * Restore a setting to the value it had at `version` (0 = before its first
+   * recorded change, which restores the default if it had never been stored).
+   * The restored value is validated against the current schema and recorded
+   * as a new version.
+   */
+  async rollbackSetting(key, version, user = null) {
+    const target = Number(version);
+    if (!SETTINGS_SCHEMA[key]) {
+      throw validationError(`${key} is not a known setting`);
+    }
+    if (!Number.isInteger(target) || target < 0) {
+      throw validationError('A valid version is required');
+    }
+
+    const { rows } = await pool.query(
+      'SELECT version, old_value, new_value FROM system_settings_audit WHERE setting_key = ? AND version = ?',
+      [key, target === 0 ? 1 : target]
+    );
+    if (rows.length === 0) {
+      throw validationError(`${key} has no version ${target}`);
+    }
+    const stored = target === 0 ? rows[0].old_value : rows[0].new_value;
+    const value = stored === null ? SETTINGS_SCHEMA[key].default : stored;
+    const result = await this.updateSettings({ [key]: value }, user, { rollbackTo: target });
+    if (result.changed.length === 0) {
+      throw validationError(`${key} already has the value of version ${target}`);
+    }
+    return result;
+  }
+
+  /**
+   * Create a backup: an online snapshot of the SQLite database and a copy of
+   * the uploads folder, packed with a checksummed manifest into a .tar.gz.
+   * The archive's sha256 is stored with the backup record.
    */
   async createBackup(backupName, backupType = 'manual', userId = null) {
+    await this.ensureBackupDir();
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const safeName = String(backupName || 'backup').replace(/[^A-Za-z0-9_-]+/g, '_').slice(0, 60);
+    const fileName = `${safeName || 'backup'}_${timestamp}.tar.gz`;
+    const filePath = path.join(this.backupDir, fileName);
+
+    const { lastID: backupId } = await pool.run(
+      `INSERT INTO backup_history (backup_name, backup_type, file_path, status, created_by)
+       VALUES (?, ?, ?, 'pending', ?)`,
+      [backupName || fileName, backupType, filePath, userId]
+    );
+
+    const stagingDir = path.join(this.backupDir, `.staging-${backupId}`);
     try {
-      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-      const fileName = `${backupName || 'backup'}_${timestamp}.sql`;
-      const filePath = path.join(this.backupDir, fileName);
-      
-      // Insert backup record
-      const backupResult = await pool.query(`
-        INSERT INTO backup_history (backup_name, backup_type, file_path, status, created_by)
-        VALUES ($1, $2, $3, 'pending', $4)
-        RETURNING id
-      `, [backupName || fileName, backupType, filePath, userId]);
-      
-      const backupId = backupResult.rows[0].id;
-      
-      // Create backup using pg_dump
-      const dbConfig = await this.getDatabaseConfig();
-      const pgDumpCmd = `pg_dump -h ${dbConfig.host} -p ${dbConfig.port} -U ${dbConfig.user} -d ${dbConfig.database} -f "${filePath}"`;
-      
-      console.log('Creating backup:', pgDumpCmd);
-      
-      try {
-        await execAsync(pgDumpCmd);
-        
-        // Get file size
-        const stats = await fs.stat(filePath);
-        const fileSize = stats.size;
-        
-        // Update backup record
-        await pool.query(`
-          UPDATE backup_history 
-          SET status = 'completed', file_size = $1, completed_at = CURRENT_TIMESTAMP
-          WHERE id = $2
-        `, [fileSize, backupId]);
-        
-        return {
-          success: true,
-          backupId,
-          fileName,
-          filePath,
-          fileSize,
-          message: 'Backup created successfully'
-        };
-      } catch (execError) {
-        // Update backup record with error
-        await pool.query(`
-          UPDATE backup_history 
-          SET status = 'failed', error_message = $1, completed_at = CURRENT_TIMESTAMP
-          WHERE id = $2
-        `, [execError.message, backupId]);
-        
-        throw execError;
+      await fs.mkdir(path.join(stagingDir, UPLOADS_FOLDER), { recursive: true });
+      await pool.snapshot(path.join(stagingDir, DATABASE_FILE));
+      if (await pathExists(this.uploadsDir)) {
+        await fs.cp(this.uploadsDir, path.join(stagingDir, UPLOADS_FOLDER), { recursive: true });
       }
+
+      const manifest = await buildManifest(stagingDir, {
+        backup_name: backupName || fileName,
+        backup_type: backupType,
+      });
+      await fs.writeFile(path.join(stagingDir, MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+      await createArchive(stagingDir, filePath);
+
+      const checksum = await sha256File(filePath);
+      const { size: fileSize } = await fs.stat(filePath);
+      const summary = {
+        database: manifest.database,
+        uploads: {
+          files: manifest.uploads.length,
+          size: manifest.uploads.reduce((sum, file) => sum + file.size, 0),
+        },
+      };
+      await pool.run(
+        `UPDATE backup_history
+         SET status = 'completed', file_size = ?, checksum = ?, manifest = ?, completed_at = datetime('now')
+         WHERE id = ?`,
+        [fileSize, checksum, JSON.stringify(summary), backupId]
+      );
+
+      return {
+        success: true,
+        backupId,
+        fileName,
+        filePath,
+        fileSize,
+        checksum,
+        message: 'Backup created successfully'
+      };
     } catch (error) {
       console.error('Error creating backup:', error);
+      await pool.run(
+        `UPDATE backup_history
+         SET status = 'failed', error_message = ?, completed_at = datetime('now')
+         WHERE id = ?`,
+        [error.message, backupId]
+      );
+      await fs.rm(filePath, { force: true });
       throw error;
+    } finally {
+      await fs.rm(stagingDir, { recursive: true, force: true });
+    }
+  }
+
+  async getBackup(backupId) {
+    const { rows } = await pool.query('SELECT * FROM backup_history WHERE id = ?', [backupId]);
+    if (rows.length === 0) {
+      throw validationError('Backup not found');
     }
+    return rows[0];
+  }
+
+  /** Archive of a completed backup, for download. */
+  async getBackupFile(backupId) {
+    const backup = await this.getBackup(backupId);
+    if (backup.status !== 'completed') {
+      throw validationError('Backup is not completed');
+    }
+    if (!this.isInBackupDir(backup.file_path) || !(await pathExists(backup.file_path))) {
+      throw validationError('Backup file not found');
+    }
+    return { filePath: backup.file_path, fileName: path.basename(backup.file_path) };
   }
 
   /**
-   * Restore database from backup
+   * Restore the database and uploads from a backup. Nothing live is touched
+   * until the archive checksum, every file in the manifest and the SQLite
+   * integrity check of the snapshot have passed; the current state is then
+   * saved as a 'pre_restore' backup before it is replaced.
    */
   async restoreBackup(backupId, userId = null) {
+    const startTime = Date.now();
+    const backup = await this.getBackup(backupId);
+    if (backup.status !== 'completed') {
+      throw validationError('Only completed backups can be restored');
+    }
+
+    const stagingDir = path.join(this.backupDir, `.restore-${backup.id}-${startTime}`);
     try {
-      // Get backup record
-      const backupResult = await pool.query(`
-        SELECT * FROM backup_history WHERE id = $1
-      `, [backupId]);
-      
-      if (backupResult.rows.length === 0) {
-        throw new Error('Backup not found');
-      }
-      
-      const backup = backupResult.rows[0];
-      
-      if (backup.status !== 'completed') {
-        throw new Error('Backup is not completed');
-      }
-      
-      // Check if file exists
-      try {
-        await fs.access(backup.file_path);
-      } catch {
-        throw new Error('Backup file not found');
-      }
-      
-      // Create restore log entry
-      const restoreLogResult = await pool.query(`
-        INSERT INTO maintenance_logs (operation, status, details, executed_by)
-        VALUES ('restore_backup', 'pending', $1, $2)
-        RETURNING id
-      `, [`Restoring from backup: ${backup.backup_name}`, userId]);
-      
-      const logId = restoreLogResult.rows[0].id;
-      
-      // Restore using psql
-      const dbConfig = await this.getDatabaseConfig();
-      const psqlCmd = `psql -h ${dbConfig.host} -p ${dbConfig.port} -U ${dbConfig.user} -d ${dbConfig.database} -f "${backup.file_path}"`;
-      
-      console.log('Restoring backup:', psqlCmd);
-      
-      try {
-        await execAsync(psqlCmd);
-        
-        // Update restore log
-        await pool.query(`
-          UPDATE maintenance_logs 
-          SET status = 'completed', completed_at = CURRENT_TIMESTAMP,
-              duration_ms = EXTRACT(EPOCH FROM (CURRENT_TIMESTAMP - started_at)) * 1000
-          WHERE id = $1
-        `, [logId]);
-        
-        return {
-          success: true,
-          message: 'Database restored successfully',
-          backupName: backup.backup_name
-        };
-      } catch (execError) {
-        // Update restore log with error
-        await pool.query(`
-          UPDATE maintenance_logs 
-          SET status = 'failed', error_message = $1, completed_at = CURRENT_TIMESTAMP
-          WHERE id = $2
-        `, [execError.message, logId]);
-        
-        throw execError;
-      }
+      await this.verifyBackupArchive(backup, stagingDir);
+
+      const safetyBackup = await this.createBackup(`Before restore of ${backup.backup_name}`, 'pre_restore', userId);
+      // The restored database has the backup list of its own time; keep the archives made since
+      const { rows: backupHistory } = await pool.query('SELECT * FROM backup_history');
+
+      await pool.restoreFrom(path.join(stagingDir, DATABASE_FILE));
+      await this.restoreBackupHistory(backupHistory);
+      await replaceDirectoryContents(this.uploadsDir, path.join(stagingDir, UPLOADS_FOLDER));
+
+      const duration = Date.now() - startTime;
+      await this.logMaintenance('restore_backup', 'completed', `Restored from backup: ${backup.backup_name}`, userId, duration);
+
+      return {
+        success: true,
+        message: 'Database restored successfully',
+        backupName: backup.backup_name,
+        safetyBackupId: safetyBackup.backupId,
+        duration
+      };
     } catch (error) {
       console.error('Error restoring backup:', error);
+      await this.logMaintenance('restore_backup', 'failed', `Restoring from backup: ${backup.backup_name}`, userId,
+        Date.now() - startTime, error.message).catch((logError) => console.error('Error logging restore:', logError));
       throw error;
+    } finally {
+      await fs.rm(stagingDir, { recursive: true, force: true });
     }
   }
 
+  /**
+   * Check a backup archive against its recorded checksum, extract it into
+   * stagingDir and verify the manifest and the database snapshot.
+   * Throws a ValidationError listing every problem found.
+   */
+  async verifyBackupArchive(backup, stagingDir) {
+    if (!this.isInBackupDir(backup.file_path) || !(await pathExists(backup.file_path))) {
+      throw validationError('Backup file not found');
+    }
+    if (!backup.checksum) {
+      throw validationError('Backup has no checksum and cannot be verified');
+    }
+    if (await sha256File(backup.file_path) !== backup.checksum) {
+      throw validationError('Backup archive does not match its checksum');
+    }
+
+    await fs.mkdir(stagingDir, { recursive: true });
+    await extractArchive(backup.file_path, stagingDir);
+
+    let manifest = null;
+    try {
+      manifest = JSON.parse(await fs.readFile(path.join(stagingDir, MANIFEST_FILE), 'utf8'));
+    } catch {
+      // reported by verifyManifest
+    }
+    const problems = await verifyManifest(manifest, stagingDir);
+    if (problems.length === 0) {
+      problems.push(...(await this.checkDatabaseFile(path.join(stagingDir, DATABASE_FILE))));
+    }
+    if (problems.length > 0) {
+      const error = validationError('Backup failed the integrity check');
+      error.details = problems;
+      throw error;
+    }
+    return manifest;
+  }
+
+  /** PRAGMA integrity_check of a database file; returns the problems it reports. */
+  async checkDatabaseFile(filePath) {
+    try {
+      await pool.run('ATTACH DATABASE ? AS backup_check', [filePath]);
+    } catch (error) {
+      return [`${DATABASE_FILE} cannot be opened: ${error.message}`];
+    }
+    try {
+      const { rows } = await pool.query('PRAGMA backup_check.integrity_check');
+      const messages = rows.map((row) => Object.values(row)[0]);
+      return messages.length === 1 && messages[0] === 'ok' ? [] : messages.map((message) => `${DATABASE_FILE}: ${message}`);
+    } catch (error) {
+      return [`${DATABASE_FILE}: ${error.message}`];
+    } finally {
+      await pool.run('DETACH DATABASE backup_check');
+    }
+  }
+
+  async restoreBackupHistory(rows) {
+    for (const row of rows) {
+      const columns = Object.keys(row);
+      await pool.run(
+        `INSERT OR REPLACE INTO backup_history (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+        columns.map((column) => row[column])
+      );
+    }
+  }
+
+  async logMaintenance(operation, status, details, userId, durationMs, errorMessage = null) {
+    await pool.run(
+      `INSERT INTO maintenance_logs (operation, status, details, executed_by, completed_at, duration_ms, error_message)
+       VALUES (?, ?, ?, ?, datetime('now'), ?, ?)`,
+      [operation, status, details, userId, durationMs, errorMessage]
+    );
+  }
+
+  /**
+   * Delete backups outside the retention policy (backup_retention_count /
+   * backup_retention_days settings): their archive and their history row.
+   */
+  async pruneBackups() {
+    const settings = await this.getSettings();
+    const { rows } = await pool.query(
+      `SELECT id, backup_name, status, file_path, created_at
+       FROM backup_history
+       WHERE status IN ('completed', 'failed')`
+    );
+    const prune = backupsToPrune(rows, {
+      keepCount: settings.backup_retention_count,
+      keepDays: settings.backup_retention_days,
+    });
+
+    for (const backup of prune) {
+      if (backup.file_path && this.isInBackupDir(backup.file_path)) {
+        await fs.rm(backup.file_path, { force: true });
+      }
+      await pool.run('DELETE FROM backup_history WHERE id = ?', [backup.id]);
+    }
+    return { pruned: prune.map((backup) => backup.backup_name), kept: rows.length - prune.length };
+  }
+
+  isInBackupDir(filePath) {
+    return Boolean(filePath) && path.dirname(path.resolve(filePath)) === path.resolve(this.backupDir);
+  }
+
   /**
    * Get backup history
    */
@@ -254,11 +489,14 @@ class SystemSettingsService {
         SELECT bh.*, u.email as created_by_email
         FROM backup_history bh
         LEFT JOIN users u ON bh.created_by = u.user_id
-        ORDER BY bh.created_at DESC
-        LIMIT $1
+        ORDER BY bh.created_at DESC, bh.id DESC
+        LIMIT ?
       `, [limit]);
-      
-      return result.rows;
+
+      return result.rows.map((row) => ({
+        ...row,
+        manifest: row.manifest ? JSON.parse(row.manifest) : null
+      }));
     } catch (error) {
       console.error('Error fetching backup history:', error);
       throw error;
@@ -411,18 +649,6 @@ class SystemSettingsService {
     }
   }
 
-  /**
-   * Get database configuration
-   */
-  async getDatabaseConfig() {
-    return {
-      host: process.env.DB_HOST || 'localhost',
-      port: process.env.DB_PORT || '5433',
-      user: process.env.DB_USER || 'lauri',
-      database: process.env.DB_NAME || 'makerset_db'
-    };
-  }
-
   /**
    * Check database health
    */
@@ -0,0 +1,396 @@
+/**
+ * Tool Maintenance Service
+ *
+ * Maintenance plans and the maintenance log of tools, and tool check-outs
+ * against an order or a workshop. Logging maintenance restarts the plans it
+ * covers and moves tools.last_maintenance_date / next_maintenance_date;
+ * checking a tool back in counts one use. Overdue plans are reported once
+ * through the notification service until the maintenance is logged.
+ */
+
+const db = require('../utils/sqliteConnectionManager');
+const { planStatus, nextDueDate, toolAvailability, toDateOnly } = require('../utils/toolMaintenance');
+
+function validationError(message) {
+  const error = new Error(message);
+  error.name = 'ValidationError';
+  return error;
+}
+
+function notFoundError(message) {
+  const error = new Error(message);
+  error.name = 'NotFoundError';
+  return error;
+}
+
+function conflictError(message) {
+  const error = new Error(message);
+  error.name = 'ConflictError';
+  return error;
+}
+
+/** Whole number interval from user input; empty means "not used". */
+function parseInterval(value, label) {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+  const interval = Number(value);
+  if (!Number.isInteger(interval) || interval <= 0) {
+    throw validationError(`${label} must be a whole number greater than 0`);
+  }
+  return interval;
+}
+
+const CHECKOUT_SELECT = `SELECT c.*, o.order_number,
+    u.first_name AS checked_out_by_first_name, u.last_name AS checked_out_by_last_name
+  FROM tool_checkouts c
+  LEFT JOIN orders o ON c.order_id = o.order_id
+  LEFT JOIN users u ON c.checked_out_by = u.user_id`;
+
+class ToolMaintenanceService {
+  constructor() {
+    this.notificationService = null;
+  }
+
+  // Loaded on first use: the notification service opens its own connection to the database file
+  getNotificationService() {
+    if (!this.notificationService) {
+      const NotificationService = require('../utils/notificationService');
+      this.notificationService = new NotificationService();
+    }
+    return this.notificationService;
+  }
+
+  async getTool(toolId) {
+    const { rows } = await db.query(
+      `SELECT tool_id, tool_number, tool_name, condition_status, location, active, use_count,
+        last_maintenance_date, next_maintenance_date
+      FROM tools WHERE tool_id = ?`,
+      [toolId]
+    );
+    if (rows.length === 0) {
+      throw notFoundError('Tool not found');
+    }
+    return rows[0];
+  }
+
+  /** Active plans of the given tools with their status: tool id -> [plan]. */
+  async getPlanStatuses(toolIds, today = new Date()) {
+    const ids = [...new Set((toolIds || []).map(Number).filter((id) => id > 0))];
+    const byTool = new Map(ids.map((id) => [id, []]));
+    if (ids.length === 0) {
+      return byTool;
+    }
+    const placeholders = ids.map(() => '?').join(', ');
+    const { rows } = await db.query(
+      `SELECT p.*, COALESCE(t.use_count, 0) AS tool_use_count
+      FROM tool_maintenance_plans p
+      JOIN tools t ON p.tool_id = t.tool_id
+      WHERE p.tool_id IN (${placeholders}) AND p.is_active = 1
+      ORDER BY p.plan_id`,
+      ids
+    );
+    rows.forEach((plan) => {
+      const { tool_use_count: useCount, ...fields } = plan;
+      byTool.get(Number(plan.tool_id)).push({ ...fields, ...planStatus(plan, { useCount, today }) });
+    });
+    return byTool;
+  }
+
+  /** Open check-outs of the given tools: tool id -> check-out. */
+  async getOpenCheckouts(toolIds) {
+    const ids = [...new Set((toolIds || []).map(Number).filter((id) => id > 0))];
+    if (ids.length === 0) {
+      return new Map();
+    }
+    const placeholders = ids.map(() => '?').join(', ');
+    const { rows } = await db.query(
+      `${CHECKOUT_SELECT} WHERE c.tool_id IN (${placeholders}) AND c.checked_in_at IS NULL`,
+      ids
+    );
+    return new Map(rows.map((row) => [Number(row.tool_id), row]));
+  }
+
+  /**
+   * Availability of the given tools for an order: tool id -> { status,
+   * available, reason, checkout, maintenance_overdue }.
+   */
+  async getAvailability(toolIds, orderId = null) {
+    const { rows: tools } = toolIds.length > 0
+      ? await db.query(
+        `SELECT tool_id, condition_status, active FROM tools WHERE tool_id IN (${toolIds.map(() => '?').join(', ')})`,
+        toolIds
+      )
+      : { rows: [] };
+    const plans = await this.getPlanStatuses(toolIds);
+    const checkouts = await this.getOpenCheckouts(toolIds);
+    return new Map(tools.map((tool) => {
+      const checkout = checkouts.get(Number(tool.tool_id)) || null;
+      const overduePlans = (plans.get(Number(tool.tool_id)) || []).filter((plan) => plan.is_overdue);
+      return [Number(tool.tool_id), {
+        ...toolAvailability(tool, { checkout, overduePlans, orderId }),
+        checkout,
+        maintenance_overdue: overduePlans.length > 0,
+      }];
+    }));
+  }
+
+  /** Every active tool with its plans, open check-out and availability. */
+  async getOverview() {
+    const { rows: tools } = await db.query(
+      `SELECT tool_id, tool_number, tool_name, category, condition_status, location, active, use_count,
+        last_maintenance_date, next_maintenance_date
+      FROM tools WHERE active = 1
+      ORDER BY tool_number`
+    );
+    const ids = tools.map((tool) => tool.tool_id);
+    const plans = await this.getPlanStatuses(ids);
+    const availability = await this.getAvailability(ids);
+    return tools.map((tool) => {
+      const toolPlans = plans.get(Number(tool.tool_id)) || [];
+      return {
+        ...tool,
+        plans: toolPlans,
+        maintenance_overdue: toolPlans.some((plan) => plan.is_overdue),
+        maintenance_due_soon: toolPlans.some((plan) => plan.is_due_soon),
+        availability: availability.get(Number(tool.tool_id)),
+      };
+    });
+  }
+
+  /** A tool with its plans, maintenance log, check-outs and availability. */
+  async getToolMaintenance(toolId) {
+    const tool = await this.getTool(toolId);
+    const plans = (await this.getPlanStatuses([toolId])).get(Number(toolId)) || [];
+    const { rows: log } = await db.query(
+      `SELECT l.*, p.name AS plan_name, u.first_name AS performed_by_first_name, u.last_name AS performed_by_last_name
+      FROM tool_maintenance_log l
+      LEFT JOIN tool_maintenance_plans p ON l.plan_id = p.plan_id
+      LEFT JOIN users u ON l.performed_by = u.user_id
+      WHERE l.tool_id = ?
+      ORDER BY l.performed_at DESC, l.log_id DESC`,
+      [toolId]
+    );
+    const { rows: checkouts } = await db.query(
+      `${CHECKOUT_SELECT} WHERE c.tool_id = ? ORDER BY c.checked_out_at DESC, c.checkout_id DESC LIMIT 50`,
+      [toolId]
+    );
+    const availability = (await this.getAvailability([Number(toolId)])).get(Number(toolId));
+    return { tool, plans, log, checkouts, availability };
+  }
+
+  /** Keep tools.next_maintenance_date on the earliest due date of its plans. */
+  async syncNextMaintenanceDate(toolId) {
+    const plans = (await this.getPlanStatuses([toolId])).get(Number(toolId)) || [];
+    const dueDate = nextDueDate(plans);
+    if (dueDate) {
+      await db.run(
+        'UPDATE tools SET next_maintenance_date = ?, updated_at = datetime(\'now\') WHERE tool_id = ?',
+        [dueDate, toolId]
+      );
+    }
+  }
+
+  validatePlan(data) {
+    const name = String(data.name || '').trim();
+    if (!name) {
+      throw validationError('name is required');
+    }
+    const intervalDays = parseInterval(data.interval_days, 'interval_days');
+    const intervalUses = parseInterval(data.interval_uses, 'interval_uses');
+    if (!intervalDays && !intervalUses) {
+      throw validationError('A plan needs interval_days, interval_uses or both');
+    }
+    return { name, intervalDays, intervalUses, notes: data.notes || null };
+  }
+
+  async createPlan(toolId, data) {
+    const tool = await this.getTool(toolId);
+    const plan = this.validatePlan(data);
+    // Counting starts now (or from the last logged maintenance, if given)
+    const lastPerformed = toDateOnly(data.last_performed_at) || toDateOnly(tool.last_maintenance_date);
+    const result = await db.run(
+      `INSERT INTO tool_maintenance_plans (
+        tool_id, name, interval_days, interval_uses, last_performed_at, use_count_at_service, notes
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [toolId, plan.name, plan.intervalDays, plan.intervalUses, lastPerformed, Number(tool.use_count) || 0, plan.notes]
+    );
+    await this.syncNextMaintenanceDate(toolId);
+    return this.getPlan(result.lastID);
+  }
+
+  async getPlan(planId) {
+    const { rows } = await db.query('SELECT * FROM tool_maintenance_plans WHERE plan_id = ?', [planId]);
+    if (rows.length === 0) {
+      throw notFoundError('Maintenance plan not found');
+    }
+    return rows[0];
+  }
+
+  async updatePlan(planId, data) {
+    const existing = await this.getPlan(planId);
+    const plan = this.validatePlan({ ...existing, ...data });
+    await db.run(
+      `UPDATE tool_maintenance_plans
+      SET name = ?, interval_days = ?, interval_uses = ?, notes = ?, overdue_notified_at = NULL, updated_at = datetime('now')
+      WHERE plan_id = ?`,
+      [plan.name, plan.intervalDays, plan.intervalUses, plan.notes, planId]
+    );
+    await this.syncNextMaintenanceDate(existing.tool_id);
+    return this.getPlan(planId);
+  }
+
+  async deactivatePlan(planId) {
+    const plan = await this.getPlan(planId);
+    await db.run(
+      'UPDATE tool_maintenance_plans SET is_active = 0, updated_at = datetime(\'now\') WHERE plan_id = ?',
+      [planId]
+    );
+    await this.syncNextMaintenanceDate(plan.tool_id);
+    return this.getPlan(planId);
+  }
+
+  /**
+   * Log maintenance done on a tool. With plan_id it restarts that plan;
+   * without, it restarts every active plan of the tool (a full service).
+   */
+  async logMaintenance(toolId, data = {}, userId = null) {
+    const tool = await this.getTool(toolId);
+    const performedAt = toDateOnly(data.performed_at || new Date());
+    if (!performedAt) {
+      throw validationError('performed_at must be a date');
+    }
+    const cost = data.cost === null || data.cost === undefined || data.cost === '' ? null : Number(data.cost);
+    if (cost !== null && (!Number.isFinite(cost) || cost < 0)) {
+      throw validationError('cost must be 0 or more');
+    }
+    let planIds;
+    if (data.plan_id) {
+      const plan = await this.getPlan(data.plan_id);
+      if (Number(plan.tool_id) !== Number(toolId)) {
+        throw validationError('The maintenance plan belongs to another tool');
+      }
+      planIds = [plan.plan_id];
+    } else {
+      const { rows } = await db.query(
+        'SELECT plan_id FROM tool_maintenance_plans WHERE tool_id = ? AND is_active = 1',
+        [toolId]
+      );
+      planIds = rows.map((row) => row.plan_id);
+    }
+
+    const result = await db.run(
+      `INSERT INTO tool_maintenance_log (tool_id, plan_id, performed_at, performed_by, condition_status, cost, notes)
+      VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [toolId, data.plan_id || null, performedAt, userId, data.condition_status || null, cost, data.notes || null]
+    );
+    for (const planId of planIds) {
+      await db.run(
+        `UPDATE tool_maintenance_plans
+        SET last_performed_at = ?, use_count_at_service = ?, overdue_notified_at = NULL, updated_at = datetime('now')
+        WHERE plan_id = ?`,
+        [performedAt, Number(tool.use_count) || 0, planId]
+      );
+    }
+    await db.run(
+      `UPDATE tools SET last_maintenance_date = ?, condition_status = COALESCE(?, condition_status), updated_at = datetime('now')
+      WHERE tool_id = ?`,
+      [performedAt, data.condition_status || null, toolId]
+    );
+    await this.syncNextMaintenanceDate(toolId);
+    const { rows } = await db.query('SELECT * FROM tool_maintenance_log WHERE log_id = ?', [result.lastID]);
+    return rows[0];
+  }
+
+  /** Check a tool out to an order or a workshop; a tool can only be out once. */
+  async checkOut(toolId, data = {}, userId = null) {
+    const tool = await this.getTool(toolId);
+    const workshop = String(data.workshop || '').trim();
+    if (!data.order_id && !workshop) {
+      throw validationError('order_id or workshop is required');
+    }
+    if (data.order_id) {
+      const { rows } = await db.query('SELECT order_id FROM orders WHERE order_id = ?', [data.order_id]);
+      if (rows.length === 0) {
+        throw notFoundError('Order not found');
+      }
+    }
+    const availability = (await this.getAvailability([Number(toolId)], data.order_id)).get(Number(toolId));
+    if (availability.checkout) {
+      throw conflictError(`${tool.tool_number || tool.tool_name}: ${availability.reason}`);
+    }
+    if (!availability.available) {
+      throw conflictError(`${tool.tool_number || tool.tool_name} is not available: ${availability.reason}`);
+    }
+    const result = await db.run(
+      `INSERT INTO tool_checkouts (tool_id, order_id, workshop, checked_out_by, checked_out_at, due_back_at, notes)
+      VALUES (?, ?, ?, ?, datetime('now'), ?, ?)`,
+      [toolId, data.order_id || null, workshop || null, userId, toDateOnly(data.due_back_at), data.notes || null]
+    );
+    const { rows } = await db.query(`${CHECKOUT_SELECT} WHERE c.checkout_id = ?`, [result.lastID]);
+    return rows[0];
+  }
+
+  /** Check a tool back in; counts one use and records the condition it came back in. */
+  async checkIn(toolId, data = {}, userId = null) {
+    await this.getTool(toolId);
+    const checkout = (await this.getOpenCheckouts([toolId])).get(Number(toolId));
+    if (!checkout) {
+      throw conflictError('Tool is not checked out');
+    }
+    await db.run(
+      `UPDATE tool_checkouts
+      SET checked_in_at = datetime('now'), checked_in_by = ?, condition_in = ?,
+        notes = COALESCE(?, notes)
+      WHERE checkout_id = ?`,
+      [userId, data.condition_status || null, data.notes || null, checkout.checkout_id]
+    );
+    await db.run(
+      `UPDATE tools SET use_count = COALESCE(use_count, 0) + 1, condition_status = COALESCE(?, condition_status),
+        updated_at = datetime('now')
+      WHERE tool_id = ?`,
+      [data.condition_status || null, toolId]
+    );
+    const { rows } = await db.query(`${CHECKOUT_SELECT} WHERE c.checkout_id = ?`, [checkout.checkout_id]);
+    return rows[0];
+  }
+
+  /**
+   * Notify about tools whose plans became overdue since the last run; each
+   * plan is reported once until its maintenance is logged. Returns the
+   * number of tools notified.
+   */
+  async notifyOverdue(today = new Date()) {
+    const { rows: tools } = await db.query(
+      `SELECT DISTINCT t.tool_id, t.tool_number, t.tool_name
+      FROM tools t
+      JOIN tool_maintenance_plans p ON p.tool_id = t.tool_id
+      WHERE t.active = 1 AND p.is_active = 1 AND p.overdue_notified_at IS NULL`
+    );
+    const plans = await this.getPlanStatuses(tools.map((tool) => tool.tool_id), today);
+    let notified = 0;
+    for (const tool of tools) {
+      const overdue = (plans.get(Number(tool.tool_id)) || [])
+        .filter((plan) => plan.is_overdue && !plan.overdue_notified_at);
+      if (overdue.length === 0) {
+        continue;
+      }
+      await this.getNotificationService().notifyToolMaintenanceOverdue(tool, overdue.map((plan) => ({
+        plan_id: plan.plan_id,
+        name: plan.name,
+        due_date: plan.due_date,
+        uses_since_service: plan.uses_since_service,
+      })));
+      for (const plan of overdue) {
+        await db.run(
+          'UPDATE tool_maintenance_plans SET overdue_notified_at = datetime(\'now\') WHERE plan_id = ?',
+          [plan.plan_id]
+        );
+      }
+      notified += 1;
+    }
+    return notified;
+  }
+}
+
+module.exports = new ToolMaintenanceService();
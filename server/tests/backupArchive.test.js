@@ -0,0 +1,108 @@
+/**
+ * Backup Archive Test Suite
+ *
+ * Tests for database + uploads backup archives:
+ * - Manifest checksums and verification of extracted files
+ * - tar.gz round trip
+ * - Retention policy (count and age)
+ */
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const {
+  buildManifest,
+  verifyManifest,
+  createArchive,
+  extractArchive,
+  backupsToPrune
+} = require('../utils/backupArchive');
+
+describe('Backup Archive Tests', () => {
+  let workDir;
+  let stagingDir;
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'backup-test-'));
+    stagingDir = path.join(workDir, 'staging');
+    fs.mkdirSync(path.join(stagingDir, 'uploads', 'sets'), { recursive: true });
+    fs.writeFileSync(path.join(stagingDir, 'database.sqlite'), 'SQLite format 3\0snapshot');
+    fs.writeFileSync(path.join(stagingDir, 'uploads', 'sets', 'robot.jpg'), 'jpeg bytes');
+    fs.writeFileSync(path.join(stagingDir, 'uploads', 'manual.pdf'), 'pdf bytes');
+  });
+
+  afterEach(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it('should list the database and every upload with size and sha256', async() => {
+    const manifest = await buildManifest(stagingDir, { backup_type: 'manual' });
+
+    expect(manifest).toMatchObject({ format: 'makerset-backup', version: 1, backup_type: 'manual' });
+    expect(manifest.database).toMatchObject({ path: 'database.sqlite', size: 24 });
+    expect(manifest.database.sha256).toMatch(/^[0-9a-f]{64}$/);
+    expect(manifest.uploads.map((file) => file.path)).toEqual(['uploads/manual.pdf', 'uploads/sets/robot.jpg']);
+    expect(await verifyManifest(manifest, stagingDir)).toEqual([]);
+  });
+
+  it('should report changed, missing and unlisted files', async() => {
+    const manifest = await buildManifest(stagingDir);
+    fs.writeFileSync(path.join(stagingDir, 'database.sqlite'), 'SQLite format 3\0tampered');
+    fs.unlinkSync(path.join(stagingDir, 'uploads', 'manual.pdf'));
+    fs.writeFileSync(path.join(stagingDir, 'uploads', 'extra.png'), 'png');
+
+    expect(await verifyManifest(manifest, stagingDir)).toEqual([
+      'database.sqlite does not match its checksum',
+      'uploads/manual.pdf is missing',
+      'uploads/extra.png is not listed in the manifest'
+    ]);
+    expect(await verifyManifest({ format: 'other' }, stagingDir)).toEqual(['Not a MakerSet backup archive']);
+    expect(await verifyManifest(null, stagingDir)).toEqual(['Not a MakerSet backup archive']);
+  });
+
+  it('should restore an identical tree from the archive', async() => {
+    const manifest = await buildManifest(stagingDir);
+    const archivePath = path.join(workDir, 'backup.tar.gz');
+    const extractDir = path.join(workDir, 'extract');
+    fs.mkdirSync(extractDir);
+
+    await createArchive(stagingDir, archivePath);
+    await extractArchive(archivePath, extractDir);
+
+    expect(await verifyManifest(manifest, extractDir)).toEqual([]);
+    expect(fs.readFileSync(path.join(extractDir, 'uploads', 'sets', 'robot.jpg'), 'utf8')).toBe('jpeg bytes');
+  });
+
+  describe('retention', () => {
+    const now = new Date('2026-03-31T12:00:00Z');
+    const backup = (id, date, status = 'completed') => ({ id, status, created_at: `${date} 03:00:00` });
+
+    it('should keep the newest backups up to the count', () => {
+      const backups = [
+        backup(1, '2026-03-27'),
+        backup(2, '2026-03-28'),
+        backup(3, '2026-03-29'),
+        backup(4, '2026-03-30')
+      ];
+      expect(backupsToPrune(backups, { keepCount: 2, now }).map((b) => b.id)).toEqual([2, 1]);
+      expect(backupsToPrune(backups, { keepCount: 10, now })).toEqual([]);
+    });
+
+    it('should drop backups older than the age limit but always keep the newest', () => {
+      const backups = [backup(1, '2026-01-05'), backup(2, '2026-02-01'), backup(3, '2026-03-20')];
+      expect(backupsToPrune(backups, { keepCount: 10, keepDays: 30, now }).map((b) => b.id)).toEqual([2, 1]);
+      expect(backupsToPrune([backup(1, '2025-01-01')], { keepCount: 5, keepDays: 30, now })).toEqual([]);
+    });
+
+    it('should drop failed backups outside the age limit and ignore running ones', () => {
+      const backups = [
+        backup(1, '2026-01-05', 'failed'),
+        backup(2, '2026-03-30', 'failed'),
+        backup(3, '2026-03-31', 'pending'),
+        backup(4, '2026-03-30')
+      ];
+      expect(backupsToPrune(backups, { keepCount: 5, keepDays: 30, now }).map((b) => b.id)).toEqual([1]);
+      expect(backupsToPrune(backups, { keepCount: 5, keepDays: 0, now }).map((b) => b.id)).toEqual([2, 1]);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Bank Confirmation Test Suite
+ *
+ * Tests against an in-memory database with the startup schema:
+ * - Sub-orders and cancelled orders are refused before anything is recorded
+ * - A payment that fails partway leaves the transaction pending and unpaid
+ * - Confirming again pays each order once and notifies after the commit
+ */
+
+const mockCreateNotification = jest.fn().mockResolvedValue(null);
+jest.mock('../utils/notificationService', () => jest.fn().mockImplementation(() => ({
+  createNotification: mockCreateNotification,
+})));
+
+const db = require('../utils/sqliteConnectionManager');
+const { startup } = require('../scripts/startup');
+const bankImportService = require('../services/bankImportService');
+const orderPaymentService = require('../services/orderPaymentService');
+
+async function orderOf(orderId) {
+  const { rows } = await db.query('SELECT status, payment_amount, payment_status FROM orders WHERE order_id = ?', [orderId]);
+  return rows[0];
+}
+
+describe('Bank Confirmation Tests', () => {
+  beforeAll(async() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    db.dbPath = ':memory:';
+    await startup();
+
+    await db.run('INSERT INTO users (user_id, username, email, password_hash, role) VALUES (2, \'pupil\', \'pupil@example.com\', \'x\', \'customer\')');
+    await db.run('INSERT INTO orders (order_id, order_number, customer_id, status, total_amount) VALUES (50, \'ORD-50\', 2, \'pending\', 30)');
+    await db.run('INSERT INTO orders (order_id, order_number, customer_id, status, total_amount) VALUES (60, \'ORD-60\', 2, \'pending\', 20)');
+    await db.run('INSERT INTO orders (order_id, order_number, customer_id, status, total_amount, parent_order_id) VALUES (61, \'ORD-60-1\', 2, \'pending\', 20, 60)');
+    await db.run('INSERT INTO orders (order_id, order_number, customer_id, status, total_amount) VALUES (70, \'ORD-70\', 2, \'payment_failed\', 20)');
+    await db.run('INSERT INTO bank_imports (import_id, format) VALUES (1, \'csv\')');
+    await db.run(
+      'INSERT INTO bank_transactions (transaction_id, import_id, dedupe_key, booking_date, amount, bank_reference) VALUES (1, 1, \'ref:B-1\', \'2026-10-15\', 50, \'B-1\')'
+    );
+  });
+
+  afterAll(async() => {
+    await new Promise((resolve) => db.getConnection().close(resolve));
+  });
+
+  it('should refuse a sub-order before recording any payment', async() => {
+    await expect(bankImportService.confirmTransaction(1, [
+      { order_id: 50, amount: 30 },
+      { order_id: 61, amount: 20 },
+    ])).rejects.toThrow('Order ORD-60-1 is part of order ORD-60; record the payment there');
+
+    expect(await orderOf(50)).toMatchObject({ status: 'pending', payment_amount: 0 });
+  });
+
+  it('should refuse an order with a legacy cancelled status', async() => {
+    await expect(bankImportService.confirmTransaction(1, [
+      { order_id: 50, amount: 30 },
+      { order_id: 70, amount: 20 },
+    ])).rejects.toThrow('Order ORD-70 is cancelled');
+
+    expect(await orderOf(50)).toMatchObject({ status: 'pending', payment_amount: 0 });
+  });
+
+  it('should record nothing when a payment fails partway', async() => {
+    const recordPayment = orderPaymentService.recordPayment.bind(orderPaymentService);
+    jest.spyOn(orderPaymentService, 'recordPayment')
+      .mockImplementationOnce(recordPayment)
+      .mockRejectedValueOnce(new Error('disk I/O error'));
+
+    await expect(bankImportService.confirmTransaction(1, [
+      { order_id: 50, amount: 30 },
+      { order_id: 60, amount: 20 },
+    ])).rejects.toThrow('disk I/O error');
+    orderPaymentService.recordPayment.mockRestore();
+
+    expect((await bankImportService.getTransaction(1)).status).toBe('pending');
+    expect(await orderOf(50)).toMatchObject({ status: 'pending', payment_amount: 0 });
+    const { rows } = await db.query('SELECT COUNT(*) AS count FROM bank_transaction_allocations');
+    expect(rows[0].count).toBe(0);
+    expect(mockCreateNotification).not.toHaveBeenCalled();
+  });
+
+  it('should pay each order once when confirmed again', async() => {
+    const transaction = await bankImportService.confirmTransaction(1, [
+      { order_id: 50, amount: 30 },
+      { order_id: 60, amount: 20 },
+    ], 1);
+
+    expect(transaction.status).toBe('confirmed');
+    expect(await orderOf(50)).toEqual({ status: 'confirmed', payment_amount: 30, payment_status: 'confirmed' });
+    expect(await orderOf(61)).toMatchObject({ payment_amount: 20, payment_status: 'confirmed' });
+    expect(mockCreateNotification).toHaveBeenCalledWith(expect.objectContaining({ type: 'order_confirmed', createdFor: 2 }));
+    await expect(bankImportService.confirmTransaction(1, [{ order_id: 50, amount: 30 }])).rejects.toThrow('Transaction has already been confirmed');
+  });
+});
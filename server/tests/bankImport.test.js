@@ -0,0 +1,210 @@
+/**
+ * Bank Import Test Suite
+ *
+ * Tests for bank statement parsing and payment matching:
+ * - camt.053 entries, batch bookings and pending entries
+ * - Estonian, Finnish and generic CSV exports
+ * - Order number, amount and name matching, and split suggestions
+ */
+
+const {
+  parseAmount,
+  parseDate,
+  parseBankStatement
+} = require('../utils/bankStatementParser');
+const { nameSimilarity, matchTransaction } = require('../utils/paymentMatcher');
+
+const CAMT_053 = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <Stmt>
+      <Id>STMT-2026-10</Id>
+      <Acct><Id><IBAN>EE382200221020145685</IBAN></Id></Acct>
+      <Ntry>
+        <Amt Ccy="EUR">49.90</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2026-10-14</Dt></BookgDt>
+        <AcctSvcrRef>2026101400001</AcctSvcrRef>
+        <NtryDtls><TxDtls>
+          <RltdPties><Dbtr><Nm>MARI MAASIKAS</Nm></Dbtr><DbtrAcct><Id><IBAN>EE471000001020145685</IBAN></Id></DbtrAcct></RltdPties>
+          <RmtInf><Ustrd>Tellimus ORD-1760000000000-AB12C &amp; aitäh</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">30.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2026-10-15</Dt></BookgDt>
+        <NtryDtls>
+          <TxDtls><Refs><AcctSvcrRef>B-1</AcctSvcrRef></Refs><Amt Ccy="EUR">10.00</Amt>
+            <RltdPties><Dbtr><Nm>Jaan Tamm</Nm></Dbtr></RltdPties></TxDtls>
+          <TxDtls><Refs><AcctSvcrRef>B-2</AcctSvcrRef></Refs><Amt Ccy="EUR">20.00</Amt>
+            <RmtInf><Strd><CdtrRefInf><Ref>12345</Ref></CdtrRefInf></Strd></RmtInf></TxDtls>
+        </NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">15.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2026-10-15</Dt></BookgDt>
+        <NtryDtls><TxDtls><RltdPties><Cdtr><Nm>Bank fees</Nm></Cdtr></RltdPties></TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">99.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Sts>PDNG</Sts>
+        <BookgDt><Dt>2026-10-16</Dt></BookgDt>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+
+function order(overrides) {
+  return {
+    order_id: 1,
+    order_number: 'ORD-1760000000000-AB12C',
+    total_amount: 49.9,
+    payment_amount: 0,
+    customer_first_name: 'Mari',
+    customer_last_name: 'Maasikas',
+    customer_company_name: null,
+    invoice_number: 'INV-2026-000042',
+    ...overrides
+  };
+}
+
+describe('Bank Import Tests', () => {
+  describe('value parsing', () => {
+    it('should parse amounts with either decimal separator', () => {
+      expect(parseAmount('1 234,56')).toBe(1234.56);
+      expect(parseAmount('1,234.56')).toBe(1234.56);
+      expect(parseAmount('-12,30')).toBe(-12.3);
+      expect(parseAmount('abc')).toBeNaN();
+    });
+
+    it('should parse ISO, European and compact dates', () => {
+      expect(parseDate('2026-10-14T08:00:00')).toBe('2026-10-14');
+      expect(parseDate('4.10.2026')).toBe('2026-10-04');
+      expect(parseDate('20261014')).toBe('2026-10-14');
+      expect(parseDate('')).toBeNull();
+    });
+  });
+
+  describe('camt.053', () => {
+    it('should read booked entries and split batch bookings', () => {
+      const statement = parseBankStatement(Buffer.from(CAMT_053));
+      expect(statement.format).toBe('camt.053');
+      expect(statement.statementId).toBe('STMT-2026-10');
+      expect(statement.account).toBe('EE382200221020145685');
+      expect(statement.skipped).toBe(1);
+
+      const credits = statement.transactions.filter((tx) => tx.direction === 'credit');
+      expect(credits.map((tx) => tx.amount)).toEqual([49.9, 10, 20]);
+      expect(credits[0]).toEqual({
+        bookingDate: '2026-10-14',
+        amount: 49.9,
+        currency: 'EUR',
+        direction: 'credit',
+        counterpartyName: 'MARI MAASIKAS',
+        counterpartyAccount: 'EE471000001020145685',
+        reference: '',
+        description: 'Tellimus ORD-1760000000000-AB12C & aitäh',
+        bankReference: '2026101400001'
+      });
+      expect(credits[2].reference).toBe('12345');
+      expect(credits[2].bankReference).toBe('B-2');
+    });
+
+    it('should report malformed XML', () => {
+      expect(() => parseBankStatement('<Document><BkToCstmrStmt></Document>')).toThrow(/Malformed XML/);
+    });
+  });
+
+  describe('CSV', () => {
+    it('should read a Swedbank export and skip balance rows', () => {
+      const csv = [
+        '"Kliendi konto";"Reatüüp";"Kuupäev";"Saaja/Maksja";"Selgitus";"Summa";"Valuuta";"Deebet/Kreedit";"Arhiveerimistunnus";"Tehingu tüüp";"Viitenumber";"Dokumendi number";',
+        '"EE382200221020145685";"10";"01.10.2026";"";"Algsaldo";"100,00";"EUR";"K";"";"AS";"";"";',
+        '"EE382200221020145685";"20";"14.10.2026";"JAAN TAMM";"ORD-1760000000000-AB12C";"49,90";"EUR";"K";"2026101400099";"MK";"";"";',
+        '"EE382200221020145685";"20";"14.10.2026";"TELIA";"Arve";"12,00";"EUR";"D";"2026101400100";"MK";"";"";'
+      ].join('\r\n');
+      const statement = parseBankStatement(Buffer.from(csv));
+      expect(statement.format).toBe('csv');
+      expect(statement.skipped).toBe(1);
+      expect(statement.transactions).toHaveLength(2);
+      expect(statement.transactions[0]).toMatchObject({
+        bookingDate: '2026-10-14',
+        amount: 49.9,
+        direction: 'credit',
+        counterpartyName: 'JAAN TAMM',
+        bankReference: '2026101400099'
+      });
+      expect(statement.transactions[1].direction).toBe('debit');
+    });
+
+    it('should read signed amounts from a Finnish export', () => {
+      const csv = 'Kirjauspäivä;Määrä;Maksaja;Viitenumero;Viesti\n14.10.2026;-5,00;;;\n15.10.2026;"1 020,50";Matti Meikäläinen;1232;"Tilaus, kiitos"\n';
+      const { transactions } = parseBankStatement(csv);
+      expect(transactions.map((tx) => [tx.direction, tx.amount])).toEqual([['debit', 5], ['credit', 1020.5]]);
+      expect(transactions[1].reference).toBe('1232');
+      expect(transactions[1].description).toBe('Tilaus, kiitos');
+    });
+
+    it('should reject CSV without date and amount columns', () => {
+      expect(() => parseBankStatement('foo,bar\n1,2')).toThrow(/date and an amount/);
+    });
+  });
+
+  describe('matching', () => {
+    it('should compare names regardless of order and accents', () => {
+      expect(nameSimilarity('MAASIKAS MARI', 'Mari Maasikas')).toBe(1);
+      expect(nameSimilarity('Matti Meikalainen', 'Matti Meikäläinen')).toBe(1);
+      expect(nameSimilarity('Jaan Tamm', 'Mari Maasikas')).toBeLessThan(0.5);
+    });
+
+    it('should rank the order named in the payment text first', () => {
+      const orders = [
+        order({ order_id: 2, order_number: 'ORD-1760000000001-ZZZZZ', customer_first_name: 'Jaan', customer_last_name: 'Tamm' }),
+        order()
+      ];
+      const { suggestions, split } = matchTransaction(
+        { amount: 49.9, counterpartyName: 'MARI MAASIKAS', description: 'Tellimus 1760000000000' },
+        orders
+      );
+      expect(suggestions[0]).toMatchObject({ order_id: 1, confidence: 'high', outstanding: 49.9 });
+      expect(suggestions[0].reasons).toEqual(['order_number', 'exact_amount', 'name']);
+      expect(suggestions[1]).toMatchObject({ order_id: 2, confidence: 'low' });
+      expect(split).toBeNull();
+    });
+
+    it('should match against the unpaid remainder of partly paid orders', () => {
+      const { suggestions } = matchTransaction(
+        { amount: 19.9, reference: 'INV-2026-000042' },
+        [order({ payment_amount: 30 })]
+      );
+      expect(suggestions[0].reasons).toEqual(['invoice_number', 'exact_amount']);
+    });
+
+    it('should propose a split when one transfer pays several orders', () => {
+      const orders = [
+        order({ order_id: 1, order_number: 'ORD-1760000000001-AAAAA', total_amount: 20 }),
+        order({ order_id: 2, order_number: 'ORD-1760000000002-BBBBB', total_amount: 35.5 }),
+        order({ order_id: 3, order_number: 'ORD-1760000000003-CCCCC', total_amount: 99 })
+      ];
+      const { split } = matchTransaction(
+        { amount: 55.5, description: 'ORD-1760000000001-AAAAA ORD-1760000000002-BBBBB' },
+        orders
+      );
+      expect(split).toEqual([
+        { order_id: 1, order_number: 'ORD-1760000000001-AAAAA', amount: 20 },
+        { order_id: 2, order_number: 'ORD-1760000000002-BBBBB', amount: 35.5 }
+      ]);
+    });
+
+    it('should not suggest orders on a similar name alone', () => {
+      const { suggestions } = matchTransaction({ amount: 5, counterpartyName: 'Mari Maasikas' }, [order()]);
+      expect(suggestions).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,35 @@
+/**
+ * Barcode Test Suite
+ *
+ * Tests for the Code 128 encoder used on part and tool labels:
+ * - Symbol values with start, checksum and stop
+ * - Bar layout and quiet zone
+ * - Characters outside code set B
+ */
+
+const { code128Values, code128Bars } = require('../utils/barcode');
+
+describe('Barcode Tests', () => {
+  describe('code128Values', () => {
+    it('should wrap the data in start B, the mod 103 checksum and stop', () => {
+      // 'A' = 33, '1' = 17; checksum (104 + 33 * 1 + 17 * 2) % 103 = 68
+      expect(code128Values('A1')).toEqual([104, 33, 17, 68, 106]);
+    });
+
+    it('should refuse empty input and characters outside set B', () => {
+      expect(() => code128Values('')).toThrow('Nothing to encode');
+      expect(() => code128Values('PÄRT-1')).toThrow('cannot be encoded');
+    });
+  });
+
+  describe('code128Bars', () => {
+    it('should lay out 11 modules per symbol, 13 for stop, between quiet zones', () => {
+      const symbol = code128Bars('EL-001');
+      // start + 6 data + checksum = 8 symbols of 11 modules, stop 13, quiet zones 2 x 10
+      expect(symbol.width).toBe(8 * 11 + 13 + 20);
+      expect(symbol.bars[0]).toEqual({ x: 10, width: 2 });
+      const last = symbol.bars[symbol.bars.length - 1];
+      expect(last.x + last.width).toBe(symbol.width - 10);
+    });
+  });
+});
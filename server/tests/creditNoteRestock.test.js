@@ -0,0 +1,103 @@
+/**
+ * Credit Note Restock Test Suite
+ *
+ * Tests against an in-memory database with the startup schema:
+ * - Cancelling a split order puts its sub-orders' parts back once
+ * - A restocking credit note on that order is refused
+ */
+
+jest.mock('../utils/notificationService', () => jest.fn().mockImplementation(() => ({
+  createNotification: jest.fn().mockResolvedValue(null),
+})));
+
+const os = require('os');
+const path = require('path');
+const fs = require('fs');
+const db = require('../utils/sqliteConnectionManager');
+const { startup } = require('../scripts/startup');
+const invoiceService = require('../services/invoiceService');
+const creditNoteService = require('../services/creditNoteService');
+const orderStatusService = require('../services/orderStatusService');
+
+async function stockOf(partId) {
+  const { rows } = await db.query('SELECT stock_quantity FROM parts WHERE part_id = ?', [partId]);
+  return rows[0].stock_quantity;
+}
+
+describe('Credit Note Restock Tests', () => {
+  let outputDir;
+  let parentId;
+  let itemId;
+
+  beforeAll(async() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    db.dbPath = ':memory:';
+    await startup();
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'credit-notes-'));
+    invoiceService.outputDir = outputDir;
+
+    await db.run('INSERT INTO users (user_id, username, email, password_hash, role) VALUES (2, \'pupil\', \'pupil@example.com\', \'x\', \'customer\')');
+    await db.run('INSERT INTO users (user_id, username, email, password_hash, role) VALUES (3, \'maker\', \'maker@example.com\', \'x\', \'provider\')');
+    await db.run('INSERT INTO parts (part_id, part_number, name, stock_quantity) VALUES (101, \'P-101\', \'Motor\', 10)');
+    await db.run('INSERT INTO parts (part_id, part_number, name, stock_quantity) VALUES (102, \'P-102\', \'Wheel\', 10)');
+    await db.run('INSERT INTO sets (set_id, name, base_price) VALUES (11, \'Rover\', 20)');
+    await db.run('INSERT INTO sets (set_id, name, base_price) VALUES (12, \'Buggy\', 30)');
+    await db.run('INSERT INTO set_parts (set_id, part_id, quantity, is_optional) VALUES (11, 101, 2, 0)');
+    await db.run('INSERT INTO set_parts (set_id, part_id, quantity, is_optional) VALUES (12, 102, 4, 0)');
+
+    // Parent order with one sub-order per provider, each holding one set
+    parentId = (await db.run(
+      'INSERT INTO orders (order_number, customer_id, status, total_amount) VALUES (\'ORD-1\', 2, \'pending\', 50)'
+    )).lastID;
+    const ownId = (await db.run(
+      'INSERT INTO orders (order_number, customer_id, status, total_amount, parent_order_id) VALUES (\'ORD-1-A\', 2, \'pending\', 20, ?)',
+      [parentId]
+    )).lastID;
+    const providerId = (await db.run(
+      'INSERT INTO orders (order_number, customer_id, provider_id, status, total_amount, parent_order_id) VALUES (\'ORD-1-B\', 2, 3, \'pending\', 30, ?)',
+      [parentId]
+    )).lastID;
+    itemId = (await db.run(
+      'INSERT INTO order_items (order_id, set_id, quantity, unit_price, line_total) VALUES (?, 11, 1, 20, 20)',
+      [ownId]
+    )).lastID;
+    await db.run('INSERT INTO order_items (order_id, set_id, quantity, unit_price, line_total) VALUES (?, 12, 1, 30, 30)', [providerId]);
+    await orderStatusService.recordCreated(ownId);
+    await orderStatusService.recordCreated(providerId);
+    await invoiceService.issueOrderInvoice(parentId);
+  });
+
+  afterAll(async() => {
+    await new Promise((resolve) => db.getConnection().close(resolve));
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it('should put the parts back once when a split order is cancelled', async() => {
+    expect(await stockOf(101)).toBe(8);
+    expect(await stockOf(102)).toBe(6);
+
+    const { order } = await orderStatusService.transition(parentId, 'cancelled', { user: { role: 'admin', userId: 1 } });
+
+    expect(order.status).toBe('cancelled');
+    expect(await stockOf(101)).toBe(10);
+    expect(await stockOf(102)).toBe(10);
+  });
+
+  it('should refuse to restock a cancelled split order again', async() => {
+    await expect(creditNoteService.stockRestoredOnCancel(parentId)).resolves.toBe(true);
+    await expect(creditNoteService.issueCreditNote(parentId, {
+      lines: [{ orderItemId: itemId, quantity: 1 }],
+      restock: true,
+    })).rejects.toMatchObject({ name: 'ValidationError' });
+    expect(await stockOf(101)).toBe(10);
+  });
+
+  it('should still credit the cancelled split order without restocking', async() => {
+    const creditNote = await creditNoteService.issueCreditNote(parentId, {
+      lines: [{ orderItemId: itemId, quantity: 1 }],
+    });
+
+    expect(creditNote.total).toBe(-20);
+    expect(await stockOf(101)).toBe(10);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Credit Notes Test Suite
+ *
+ * Tests against an in-memory database with the startup schema:
+ * - Partial credits leave the rest of a line creditable
+ * - Concurrent credit notes cannot credit more than was invoiced
+ * - Returned sets go back to stock only once the order has been shipped
+ */
+
+const os = require('os');
+const path = require('path');
+const fs = require('fs');
+const db = require('../utils/sqliteConnectionManager');
+const { startup } = require('../scripts/startup');
+const invoiceService = require('../services/invoiceService');
+const creditNoteService = require('../services/creditNoteService');
+
+async function stockOf(partId) {
+  const { rows } = await db.query('SELECT stock_quantity FROM parts WHERE part_id = ?', [partId]);
+  return rows[0].stock_quantity;
+}
+
+async function itemOf(orderId) {
+  const { rows } = await db.query('SELECT order_item_id FROM order_items WHERE order_id = ?', [orderId]);
+  return rows[0].order_item_id;
+}
+
+describe('Credit Notes Tests', () => {
+  let outputDir;
+
+  beforeAll(async() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    db.dbPath = ':memory:';
+    await startup();
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'credit-notes-'));
+    invoiceService.outputDir = outputDir;
+
+    await db.run('INSERT INTO parts (part_id, part_number, name, stock_quantity) VALUES (101, \'P-101\', \'Motor\', 10)');
+    await db.run('INSERT INTO sets (set_id, name, base_price) VALUES (11, \'Rover\', 20)');
+    await db.run('INSERT INTO set_parts (set_id, part_id, quantity, is_optional) VALUES (11, 101, 2, 0)');
+    await db.run('INSERT INTO orders (order_id, order_number, customer_id, status, total_amount) VALUES (50, \'ORD-50\', 1, \'delivered\', 60)');
+    await db.run('INSERT INTO order_items (order_id, set_id, quantity, unit_price, line_total) VALUES (50, 11, 3, 20, 60)');
+    await db.run('INSERT INTO orders (order_id, order_number, customer_id, status, total_amount) VALUES (60, \'ORD-60\', 1, \'pending\', 40)');
+    await db.run('INSERT INTO order_items (order_id, set_id, quantity, unit_price, line_total) VALUES (60, 11, 2, 20, 40)');
+    await invoiceService.issueOrderInvoice(50);
+    await invoiceService.issueOrderInvoice(60);
+  });
+
+  afterAll(async() => {
+    await new Promise((resolve) => db.getConnection().close(resolve));
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it('should credit part of an invoiced line', async() => {
+    const creditNote = await creditNoteService.issueCreditNote(50, {
+      lines: [{ orderItemId: await itemOf(50), quantity: 1, amount: 5 }],
+    });
+
+    expect(creditNote.total).toBe(-5);
+    const { items } = await creditNoteService.getCreditableItems(50);
+    expect(items[0]).toMatchObject({ creditedQuantity: 1, remainingQuantity: 2, remainingAmount: 55 });
+  });
+
+  it('should not credit more than was invoiced when two credit notes race', async() => {
+    const line = { orderItemId: await itemOf(50), quantity: 2 };
+    const results = await Promise.allSettled([
+      creditNoteService.issueCreditNote(50, { lines: [line] }),
+      creditNoteService.issueCreditNote(50, { lines: [line] }),
+    ]);
+
+    expect(results.map((result) => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(results.find((result) => result.status === 'rejected').reason.name).toBe('ValidationError');
+    const { rows } = await db.query('SELECT SUM(quantity) AS quantity, SUM(amount) AS amount FROM credit_note_lines WHERE order_id = 50');
+    expect(rows[0]).toEqual({ quantity: 3, amount: 60 });
+  });
+
+  it('should refuse to restock an order that has not been shipped', async() => {
+    await expect(creditNoteService.issueCreditNote(60, {
+      lines: [{ orderItemId: await itemOf(60), quantity: 1 }],
+      restock: true,
+    })).rejects.toMatchObject({ name: 'ValidationError' });
+
+    expect(await stockOf(101)).toBe(10);
+    const { rows } = await db.query('SELECT COUNT(*) AS count FROM invoices WHERE order_id = 60 AND invoice_type = \'credit_note\'');
+    expect(rows[0].count).toBe(0);
+  });
+
+  it('should restock the returned sets of a shipped order', async() => {
+    await db.run('UPDATE orders SET status = \'shipped\' WHERE order_id = 60');
+
+    await creditNoteService.issueCreditNote(60, {
+      lines: [{ orderItemId: await itemOf(60), quantity: 1 }],
+      restock: true,
+    });
+
+    expect(await stockOf(101)).toBe(12);
+    const { rows } = await db.query('SELECT restocked FROM credit_note_lines WHERE order_id = 60');
+    expect(rows).toEqual([{ restocked: 1 }]);
+  });
+});
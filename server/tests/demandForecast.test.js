@@ -0,0 +1,122 @@
+/**
+ * Demand Forecast Test Suite
+ *
+ * Tests for the school-year demand model:
+ * - School years and monthly series from daily demand
+ * - Seasonal indices per school year, shrunk towards a prior
+ * - Forecasts with confidence intervals
+ * - Rolling-origin back-test against a naive average
+ */
+
+const {
+  schoolYearOf,
+  schoolPhase,
+  monthlySeries,
+  seasonalIndices,
+  fitDemandModel,
+  forecastRange,
+  forecastMonths,
+  backtest,
+} = require('../utils/demandForecast');
+
+// Two school years of demand: busy at the start of term, quiet over the summer
+const PROFILE = { 1: 1, 2: 1, 3: 1, 4: 1, 5: 0.8, 6: 0.5, 7: 0.1, 8: 1.5, 9: 2, 10: 1.2, 11: 1, 12: 0.9 };
+const seasonalSeries = () => {
+  const series = [];
+  for (let i = 0; i < 24; i++) {
+    const date = new Date(Date.UTC(2024, 8 + i, 1));
+    const month = date.toISOString().slice(0, 7);
+    const days = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+    series.push({ month, days, quantity: Math.round(2 * PROFILE[date.getUTCMonth() + 1] * days) });
+  }
+  return series;
+};
+
+describe('Demand Forecast Tests', () => {
+  describe('school year and monthly series', () => {
+    it('should run the school year from September to August', () => {
+      expect(schoolYearOf('2025-09')).toBe('2025/26');
+      expect(schoolYearOf('2026-08')).toBe('2025/26');
+      expect(schoolPhase(7)).toBe('summer_break');
+      expect(schoolPhase(9)).toBe('back_to_school');
+      expect(schoolPhase(11)).toBe('term');
+    });
+
+    it('should sum daily demand per month and fill months without demand', () => {
+      const series = monthlySeries([
+        { date: '2026-01-05', quantity: 3 },
+        { date: '2026-01-20', quantity: 2 },
+        { date: '2026-03-02', quantity: 4 },
+        { date: '2026-05-01', quantity: 9 },
+      ], '2026-04');
+      expect(series).toEqual([
+        { month: '2026-01', quantity: 5, days: 31 },
+        { month: '2026-02', quantity: 0, days: 28 },
+        { month: '2026-03', quantity: 4, days: 31 },
+        { month: '2026-04', quantity: 0, days: 30 },
+      ]);
+    });
+  });
+
+  describe('seasonalIndices', () => {
+    it('should find the start-of-term peak and the summer dip', () => {
+      const indices = seasonalIndices(seasonalSeries(), { shrinkage: 0 });
+      expect(indices[8]).toBeGreaterThan(1.8);
+      expect(indices[6]).toBeLessThan(0.2);
+      expect(indices.reduce((sum, value) => sum + value, 0) / 12).toBeCloseTo(1, 5);
+    });
+
+    it('should lean on the prior when a part has little history', () => {
+      const prior = Object.values(PROFILE);
+      const indices = seasonalIndices([{ month: '2026-01', quantity: 31, days: 31 }], { prior });
+      expect(indices[8]).toBeGreaterThan(indices[0]);
+      expect(indices[6]).toBeLessThan(0.2);
+    });
+  });
+
+  describe('fitDemandModel and forecasts', () => {
+    it('should forecast the seasonal pattern with an interval around it', () => {
+      const model = fitDemandModel(seasonalSeries());
+      expect(model.level).toBeGreaterThan(1.6);
+      expect(model.level).toBeLessThan(2.4);
+      const september = forecastRange(model, '2026-09-01', 30);
+      const july = forecastRange(model, '2026-07-01', 31);
+      expect(september.point).toBeGreaterThan(july.point * 3);
+      expect(september.lower).toBeLessThan(september.point);
+      expect(september.upper).toBeGreaterThan(september.point);
+      expect(july.lower).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should widen the interval with the horizon', () => {
+      const model = fitDemandModel(seasonalSeries());
+      const week = forecastRange(model, '2026-10-01', 7);
+      const quarter = forecastRange(model, '2026-10-01', 90);
+      expect(quarter.upper - quarter.point).toBeGreaterThan(week.upper - week.point);
+    });
+
+    it('should forecast per month with the school phase', () => {
+      const months = forecastMonths(fitDemandModel(seasonalSeries()), '2026-07', 3);
+      expect(months.map((m) => [m.month, m.school_phase])).toEqual([
+        ['2026-07', 'summer_break'], ['2026-08', 'back_to_school'], ['2026-09', 'back_to_school'],
+      ]);
+    });
+
+    it('should return nothing without history', () => {
+      expect(fitDemandModel([])).toBeNull();
+      expect(forecastRange(null, '2026-01-01', 30)).toEqual({ point: 0, lower: 0, upper: 0 });
+    });
+  });
+
+  describe('backtest', () => {
+    it('should beat the naive six-month average on seasonal demand', () => {
+      const result = backtest(seasonalSeries(), { holdout: 6 });
+      expect(result.months_tested).toBe(6);
+      expect(result.skill).toBeGreaterThan(0);
+      expect(result.mae).toBeLessThan(result.naive_mae);
+    });
+
+    it('should need enough history to test', () => {
+      expect(backtest(seasonalSeries().slice(0, 5))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * E-invoice XML Test Suite
+ *
+ * Tests for Estonian e-invoice (1.2) and Finvoice (3.0) export:
+ * - Totals, VAT rows and line amounts derived from the invoice snapshot
+ * - Credit notes
+ * - Schema checks reporting missing seller data
+ */
+
+const { renderEInvoice, splitAddress } = require('../utils/eInvoiceXml');
+const { xmlNode, serializeXml, validateXml } = require('../utils/xmlSchema');
+
+function invoice(overrides = {}) {
+  return {
+    invoiceType: 'order',
+    invoiceNumber: 'INV-2026-000042',
+    orderNumber: 'ORD-1760000000000-AB12C',
+    issueDate: '2026-10-18',
+    dueDate: '2026-11-01',
+    currency: 'EUR',
+    company: {
+      name: 'MakerSet Solutions OÜ',
+      address: 'Tartu mnt 1, 10111 Tallinn, Estonia',
+      email: 'info@makerset.com',
+      taxId: 'EE101234567',
+      regNumber: '12345678',
+      country: 'EE',
+      bankAccount: { bankName: 'Swedbank', iban: 'EE38 2200 2210 2014 5685', swift: 'HABAEE2X' }
+    },
+    customer: {
+      name: 'Mari Maasikas',
+      company: 'Helsingin Koulu',
+      email: 'koulu@example.fi',
+      address: 'Koulukatu 5, 00100 Helsinki',
+      country: 'FI',
+      vatId: 'FI12345678'
+    },
+    items: [
+      { description: 'Robot kit', quantity: 2, unitPrice: 50, total: 100, vatRate: 0 },
+      { description: 'Shipment handling and transport', quantity: 1, unitPrice: 15, total: 15, vatRate: 0 }
+    ],
+    subtotal: 115,
+    taxAmount: 0,
+    total: 115,
+    vat: { treatment: 'reverse_charge', breakdown: [{ rate: 0, net: 115, vat: 0, gross: 115 }] },
+    paymentReference: 'ORD-1760000000000-AB12C',
+    ...overrides
+  };
+}
+
+describe('E-invoice XML Tests', () => {
+  it('should split one-line addresses', () => {
+    expect(splitAddress('Tartu mnt 1, 10111 Tallinn, Estonia')).toEqual({ street: 'Tartu mnt 1', postCode: '10111', town: 'Tallinn' });
+    expect(splitAddress('123 Innovation Street, Tech City, TC 12345, Estonia')).toEqual({
+      street: '123 Innovation Street',
+      postCode: '12345',
+      town: 'Tech City'
+    });
+    expect(splitAddress('')).toEqual({ street: '', postCode: '', town: '' });
+  });
+
+  describe('schema checks', () => {
+    const schema = {
+      name: 'Doc',
+      children: [
+        { name: 'Id', pattern: /^\d+$/ },
+        { name: 'Line', min: 1, max: Infinity, type: 'decimal' },
+        { name: 'Note', min: 0, attrs: { lang: { required: true, values: ['et', 'fi'] } } }
+      ]
+    };
+
+    it('should accept a document that follows the sequence', () => {
+      const xml = serializeXml(xmlNode('Doc', {}, [
+        xmlNode('Id', {}, '7'),
+        xmlNode('Line', {}, '1.50'),
+        xmlNode('Line', {}, '-2'),
+        null,
+        xmlNode('Note', { lang: 'et' }, 'Tere & aitäh')
+      ]));
+      expect(validateXml(xml, schema)).toEqual([]);
+    });
+
+    it('should report missing, misplaced and malformed elements', () => {
+      expect(validateXml('<Doc><Line>x</Line><Id>7</Id><Note>a</Note></Doc>', schema)).toEqual([
+        'Doc/Id is required',
+        'Doc/Line must be a decimal, got "x"',
+        'Doc/Id is not allowed here'
+      ]);
+      expect(validateXml('<Doc><Id>7</Id><Line>1</Line><Note lang="ru">a</Note></Doc>', schema)).toEqual([
+        'Doc/Note@lang must be one of et, fi, got "ru"'
+      ]);
+      expect(validateXml('<Other/>', schema)).toEqual(['Root element must be <Doc>']);
+    });
+  });
+
+  describe('Estonian e-invoice', () => {
+    it('should render a valid invoice with net line amounts', () => {
+      const domestic = invoice({
+        customer: { name: 'Jaan Tamm', company: '', email: '', address: 'Kooli 5, Tartu, 50090', country: 'EE', vatId: '' },
+        items: [{ description: 'Robot kit', quantity: 2, unitPrice: 62, total: 124, vatRate: 24 }],
+        subtotal: 100,
+        taxAmount: 24,
+        total: 124,
+        vat: { treatment: 'domestic', breakdown: [{ rate: 24, net: 100, vat: 24, gross: 124 }] }
+      });
+      const { xml, errors } = renderEInvoice(domestic, 'e-invoice');
+      expect(errors).toEqual([]);
+      expect(xml).toContain('<Invoice invoiceId="INV-2026-000042" sellerRegnumber="12345678">');
+      expect(xml).toContain('<Type type="DEB"/>');
+      expect(xml).toContain('<ItemPrice>50.00</ItemPrice>');
+      expect(xml).toContain('<ItemSum>100.00</ItemSum>');
+      expect(xml).toContain('<VATSum>24.00</VATSum>');
+      expect(xml).toContain('<TotalToPay>124.00</TotalToPay>');
+      expect(xml).toContain('<PayToAccount>EE382200221020145685</PayToAccount>');
+      expect(xml).toContain('<Name>Jaan Tamm</Name>');
+    });
+
+    it('should mark credit notes with the credited invoice', () => {
+      const { xml, errors } = renderEInvoice(invoice({
+        invoiceType: 'credit_note',
+        invoiceNumber: 'INV-C-2026-000001',
+        creditedInvoiceNumber: 'INV-2026-000042',
+        items: [{ description: 'Robot kit', quantity: 1, unitPrice: -50, total: -50, vatRate: 0 }],
+        subtotal: -50,
+        total: -50
+      }), 'e-invoice');
+      expect(errors).toEqual([]);
+      expect(xml).toContain('<SourceInvoice>INV-2026-000042</SourceInvoice>');
+      expect(xml).toContain('<Payable>NO</Payable>');
+      expect(xml).toContain('<TotalSum>-50.00</TotalSum>');
+    });
+
+    it('should require the seller registry code', () => {
+      const { errors } = renderEInvoice(invoice({ company: { ...invoice().company, regNumber: '' } }), 'e-invoice');
+      expect(errors).toContain('E_Invoice/Invoice/InvoiceParties/SellerParty/RegNumber must not be empty');
+    });
+  });
+
+  describe('Finvoice', () => {
+    it('should render a valid reverse charge invoice with decimal commas', () => {
+      const { xml, errors } = renderEInvoice(invoice(), 'finvoice');
+      expect(errors).toEqual([]);
+      expect(xml).toContain('<Finvoice Version="3.0"');
+      expect(xml).toContain('<InvoiceTypeCode>INV01</InvoiceTypeCode>');
+      expect(xml).toContain('<InvoiceDate Format="CCYYMMDD">20261018</InvoiceDate>');
+      expect(xml).toContain('<InvoiceTotalVatIncludedAmount AmountCurrencyIdentifier="EUR">115,00</InvoiceTotalVatIncludedAmount>');
+      expect(xml).toContain('<VatCode>AE</VatCode>');
+      expect(xml).toContain('<BuyerOrganisationTaxCode>FI12345678</BuyerOrganisationTaxCode>');
+      expect(xml).toContain('<BuyerTownName>Helsinki</BuyerTownName>');
+      expect(xml.match(/<InvoiceRow>/g)).toHaveLength(2);
+      expect(xml).toContain('<EpiBfiIdentifier IdentificationSchemeName="BIC">HABAEE2X</EpiBfiIdentifier>');
+    });
+
+    it('should use the credit note type code', () => {
+      const { xml, errors } = renderEInvoice(invoice({ invoiceType: 'credit_note', creditedInvoiceNumber: 'INV-2026-000042' }), 'finvoice');
+      expect(errors).toEqual([]);
+      expect(xml).toContain('<InvoiceTypeCode>INV02</InvoiceTypeCode>');
+      expect(xml).toContain('<EpiInstructedAmount AmountCurrencyIdentifier="EUR">0,00</EpiInstructedAmount>');
+    });
+
+    it('should require the bank BIC', () => {
+      const company = { ...invoice().company, bankAccount: { iban: 'EE382200221020145685' } };
+      const { errors } = renderEInvoice(invoice({ company }), 'finvoice');
+      expect(errors).toContain('Finvoice/EpiDetails/EpiPartyDetails/EpiBfiPartyDetails/EpiBfiIdentifier must not be empty');
+    });
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Order Invoice Test Suite
+ *
+ * Tests against an in-memory database with the startup schema:
+ * - Concurrent calls issue one invoice for an order
+ * - Credit notes can still reference the invoiced order
+ */
+
+const os = require('os');
+const path = require('path');
+const fs = require('fs');
+const db = require('../utils/sqliteConnectionManager');
+const { startup } = require('../scripts/startup');
+const invoiceService = require('../services/invoiceService');
+
+describe('Order Invoice Tests', () => {
+  let outputDir;
+
+  beforeAll(async() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    db.dbPath = ':memory:';
+    await startup();
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'invoices-'));
+    invoiceService.outputDir = outputDir;
+
+    await db.run('INSERT INTO sets (set_id, name, base_price) VALUES (11, \'Rover\', 20)');
+    await db.run('INSERT INTO orders (order_id, order_number, customer_id, status, total_amount) VALUES (50, \'ORD-50\', 1, \'pending\', 20)');
+    await db.run('INSERT INTO order_items (order_id, set_id, quantity, unit_price, line_total) VALUES (50, 11, 1, 20, 20)');
+  });
+
+  afterAll(async() => {
+    await new Promise((resolve) => db.getConnection().close(resolve));
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it('should issue one invoice when two calls race', async() => {
+    const [first, second] = await Promise.all([
+      invoiceService.issueOrderInvoice(50),
+      invoiceService.issueOrderInvoice(50),
+    ]);
+
+    expect(first.invoiceNumber).toBe(second.invoiceNumber);
+    const { rows } = await db.query('SELECT COUNT(*) AS count FROM invoices WHERE order_id = 50');
+    expect(rows[0].count).toBe(1);
+  });
+
+  it('should return the issued invoice on later calls', async() => {
+    const issued = await invoiceService.getInvoiceForOrder(50);
+
+    expect((await invoiceService.issueOrderInvoice(50)).invoiceNumber).toBe(issued.invoiceNumber);
+  });
+
+  it('should still allow credit notes on the order', async() => {
+    await db.run(
+      `INSERT INTO invoices (invoice_number, invoice_type, order_id, issued_at, subtotal, total, snapshot, content_hash)
+      VALUES ('INV-C-TEST', 'credit_note', 50, '2026-01-01', -20, -20, '{}', 'x')`
+    );
+
+    const { rows } = await db.query('SELECT COUNT(*) AS count FROM invoices WHERE order_id = 50');
+    expect(rows[0].count).toBe(2);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Order Lifecycle Test Suite
+ *
+ * Tests for the order state machine:
+ * - Legacy statuses mapped onto the lifecycle
+ * - Allowed and rejected transitions
+ * - Roles per transition and the side effects attached to them
+ */
+
+const { normalizeStatus, getTransition, allowedTransitions } = require('../utils/orderLifecycle');
+
+describe('Order Lifecycle Tests', () => {
+  describe('normalizeStatus', () => {
+    it('should map legacy statuses onto the lifecycle', () => {
+      expect(normalizeStatus('pending_payment')).toBe('pending');
+      expect(normalizeStatus('payment_received')).toBe('confirmed');
+      expect(normalizeStatus('processing')).toBe('in_production');
+      expect(normalizeStatus('payment_completed')).toBe('delivered');
+      expect(normalizeStatus('Shipped')).toBe('shipped');
+    });
+
+    it('should return null for unknown statuses', () => {
+      expect(normalizeStatus('teleported')).toBeNull();
+      expect(normalizeStatus('')).toBeNull();
+    });
+  });
+
+  describe('getTransition', () => {
+    it('should follow the lifecycle step by step', () => {
+      expect(getTransition('pending', 'confirmed')).toMatchObject({ from: 'pending', to: 'confirmed', timestamp: 'confirmed_at' });
+      expect(getTransition('confirmed', 'in_production')).not.toBeNull();
+      expect(getTransition('in_production', 'shipped')).toMatchObject({ timestamp: 'shipped_at', notify: ['customer'] });
+      expect(getTransition('shipped', 'delivered')).not.toBeNull();
+    });
+
+    it('should let confirmed orders ship without a production step', () => {
+      expect(getTransition('payment_received', 'shipped')).toMatchObject({ from: 'confirmed', to: 'shipped' });
+    });
+
+    it('should reject jumps and moves out of end states', () => {
+      expect(getTransition('pending', 'shipped')).toBeNull();
+      expect(getTransition('pending', 'delivered')).toBeNull();
+      expect(getTransition('delivered', 'shipped')).toBeNull();
+      expect(getTransition('cancelled', 'pending')).toBeNull();
+      expect(getTransition('returned', 'delivered')).toBeNull();
+    });
+
+    it('should restore stock only when an order is cancelled', () => {
+      expect(getTransition('confirmed', 'cancelled').restoreStock).toBe(true);
+      expect(getTransition('shipped', 'returned').restoreStock).toBe(false);
+      expect(getTransition('shipped', 'cancelled')).toBeNull();
+    });
+  });
+
+  describe('allowedTransitions', () => {
+    it('should limit transitions to the roles that may perform them', () => {
+      expect(allowedTransitions('pending')).toEqual(['confirmed', 'cancelled']);
+      expect(allowedTransitions('pending', 'customer')).toEqual(['cancelled']);
+      expect(allowedTransitions('pending', 'provider')).toEqual([]);
+      expect(allowedTransitions('confirmed', 'provider')).toEqual(['in_production', 'shipped']);
+      expect(allowedTransitions('shipped', 'production')).toEqual(['delivered']);
+      expect(allowedTransitions('cancelled', 'admin')).toEqual([]);
+    });
+  });
+});
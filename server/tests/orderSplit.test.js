@@ -0,0 +1,67 @@
+/**
+ * Order Split Test Suite
+ *
+ * Tests for splitting a mixed cart into per-provider sub-orders:
+ * - Grouping items by provider, platform sets on their own
+ * - Allocating shipping over the sub-orders to the cent
+ * - The parent order's status from its sub-orders
+ */
+
+const { groupByProvider, allocateAmount, subOrderNumber, rollupStatus } = require('../utils/orderSplit');
+
+describe('Order Split Tests', () => {
+  describe('groupByProvider', () => {
+    it('should group items by provider in cart order with platform sets apart', () => {
+      const groups = groupByProvider([
+        { set_id: 1, quantity: 2, price: 10, provider_id: 7 },
+        { set_id: 2, quantity: 1, price: 25.5, provider_id: null },
+        { set_id: 3, quantity: 1, unit_price: 4.99, provider_id: '7' },
+      ]);
+      expect(groups).toHaveLength(2);
+      expect(groups[0]).toMatchObject({ provider_id: 7, set_type: 'provider', subtotal: 24.99 });
+      expect(groups[0].items.map((item) => item.set_id)).toEqual([1, 3]);
+      expect(groups[1]).toMatchObject({ provider_id: null, set_type: 'admin', subtotal: 25.5 });
+    });
+
+    it('should give items without a provider field the fallback provider', () => {
+      const groups = groupByProvider([{ set_id: 1, quantity: 1, price: 5 }], { fallbackProviderId: 3 });
+      expect(groups).toEqual([expect.objectContaining({ provider_id: 3, set_type: 'provider' })]);
+    });
+  });
+
+  describe('allocateAmount', () => {
+    it('should split proportionally and sum to the total', () => {
+      const shares = allocateAmount(10, [1, 1, 1]);
+      expect(shares).toEqual([3.34, 3.33, 3.33]);
+      expect(allocateAmount(4.99, [30, 10])).toEqual([3.74, 1.25]);
+    });
+
+    it('should split evenly without weights and handle nothing to split', () => {
+      expect(allocateAmount(1, [0, 0])).toEqual([0.5, 0.5]);
+      expect(allocateAmount(0, [5, 5])).toEqual([0, 0]);
+      expect(allocateAmount(5, [])).toEqual([]);
+    });
+  });
+
+  describe('subOrderNumber', () => {
+    it('should number sub-orders after the parent from 1', () => {
+      expect(subOrderNumber('ORD-1700000000000-ABCDE', 0)).toBe('ORD-1700000000000-ABCDE-1');
+    });
+  });
+
+  describe('rollupStatus', () => {
+    it('should follow the least advanced sub-order', () => {
+      expect(rollupStatus(['shipped', 'in_production'])).toBe('in_production');
+      expect(rollupStatus(['delivered', 'shipped'])).toBe('shipped');
+      expect(rollupStatus(['payment_received', 'pending'])).toBe('pending');
+    });
+
+    it('should leave cancelled and returned sub-orders out', () => {
+      expect(rollupStatus(['cancelled', 'shipped'])).toBe('shipped');
+      expect(rollupStatus(['returned', 'delivered'])).toBe('delivered');
+      expect(rollupStatus(['cancelled', 'returned'])).toBe('returned');
+      expect(rollupStatus(['cancelled', 'cancelled'])).toBe('cancelled');
+      expect(rollupStatus([])).toBeNull();
+    });
+  });
+});
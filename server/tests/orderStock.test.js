@@ -0,0 +1,57 @@
+/**
+ * Order Stock Test Suite
+ *
+ * Tests against an in-memory database with the startup schema:
+ * - A new order takes no more than is in stock and records what it took
+ * - Cancelling gives back what was taken, not what the order needed
+ */
+
+jest.mock('../utils/notificationService', () => jest.fn().mockImplementation(() => ({
+  createNotification: jest.fn().mockResolvedValue(null),
+})));
+
+const db = require('../utils/sqliteConnectionManager');
+const { startup } = require('../scripts/startup');
+const orderStatusService = require('../services/orderStatusService');
+
+async function stockOf(partId) {
+  const { rows } = await db.query('SELECT stock_quantity FROM parts WHERE part_id = ?', [partId]);
+  return rows[0].stock_quantity;
+}
+
+describe('Order Stock Tests', () => {
+  beforeAll(async() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    db.dbPath = ':memory:';
+    await startup();
+
+    // Two rovers need four motors; only three are left
+    await db.run('INSERT INTO parts (part_id, part_number, name, stock_quantity) VALUES (101, \'P-101\', \'Motor\', 3)');
+    await db.run('INSERT INTO sets (set_id, name, base_price) VALUES (11, \'Rover\', 20)');
+    await db.run('INSERT INTO set_parts (set_id, part_id, quantity, is_optional) VALUES (11, 101, 2, 0)');
+    await db.run('INSERT INTO orders (order_id, order_number, customer_id, status, total_amount) VALUES (50, \'ORD-50\', 1, \'pending\', 40)');
+    await db.run('INSERT INTO order_items (order_id, set_id, quantity, unit_price, line_total) VALUES (50, 11, 2, 20, 40)');
+  });
+
+  afterAll(async() => {
+    await new Promise((resolve) => db.getConnection().close(resolve));
+  });
+
+  it('should record only the stock it could take', async() => {
+    await orderStatusService.recordCreated(50);
+
+    expect(await stockOf(101)).toBe(0);
+    const { rows } = await db.query('SELECT quantity FROM inventory_transactions WHERE reference_type = \'order\' AND reference_id = 50');
+    expect(rows).toEqual([{ quantity: 3 }]);
+  });
+
+  it('should give back what was taken when cancelled', async() => {
+    await db.run('UPDATE parts SET stock_quantity = 5 WHERE part_id = 101');
+
+    await orderStatusService.transition(50, 'cancelled', { changedBy: 1 });
+
+    expect(await stockOf(101)).toBe(8);
+    const { rows } = await db.query('SELECT quantity FROM inventory_transactions WHERE reference_type = \'order_cancellation\' AND reference_id = 50');
+    expect(rows).toEqual([{ quantity: 3 }]);
+  });
+});
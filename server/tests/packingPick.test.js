@@ -0,0 +1,63 @@
+/**
+ * Packing Pick Test Suite
+ *
+ * Tests for scan-driven picking against a packing list:
+ * - Scans counted against total_quantity_needed
+ * - Wrong and excess scans refused
+ * - Packed only when every required line is complete
+ */
+
+const { evaluateScan, pickingProgress } = require('../utils/packingPick');
+
+const lines = () => [
+  { type: 'part', part_id: 1, part_number: 'EL-001', part_name: 'LED', total_quantity_needed: 3, picked_quantity: 2, is_optional: false },
+  { type: 'part', part_id: 2, part_number: 'EL-002', part_name: 'Resistor', total_quantity_needed: 2, picked_quantity: 0, is_optional: true },
+  { type: 'tool', tool_id: 5, tool_number: 'T-010', tool_name: 'Screwdriver', total_quantity_needed: 1, picked_quantity: 0, is_required: true },
+];
+
+describe('Packing Pick Tests', () => {
+  describe('evaluateScan', () => {
+    it('should count a scan against the line with that number, ignoring case and whitespace', () => {
+      const result = evaluateScan(lines(), ' el-001 ');
+      expect(result).toMatchObject({ status: 'line_complete', accepted: true, picked_quantity: 3, remaining_quantity: 0 });
+      expect(result.line.part_id).toBe(1);
+
+      expect(evaluateScan(lines(), 'T-010')).toMatchObject({ status: 'line_complete', accepted: true });
+      expect(evaluateScan(lines(), 'EL-002')).toMatchObject({ status: 'picked', picked_quantity: 1, remaining_quantity: 1 });
+    });
+
+    it('should refuse codes not on the list and quantities over what is needed', () => {
+      expect(evaluateScan(lines(), 'EL-999')).toMatchObject({ status: 'not_in_order', accepted: false, line: null });
+      expect(evaluateScan(lines(), 'EL-001', 2)).toMatchObject({ status: 'excess', accepted: false, picked_quantity: 2, remaining_quantity: 1 });
+
+      const complete = lines();
+      complete[0].picked_quantity = 3;
+      expect(evaluateScan(complete, 'EL-001').message).toBe('EL-001 is already complete (3 of 3)');
+    });
+  });
+
+  describe('pickingProgress', () => {
+    it('should list the required lines still missing and ignore optional ones', () => {
+      const progress = pickingProgress(lines());
+      expect(progress).toMatchObject({
+        total_lines: 3,
+        completed_lines: 0,
+        required_lines: 2,
+        completed_required_lines: 0,
+        needed_units: 6,
+        picked_units: 2,
+        complete: false,
+      });
+      expect(progress.missing.map((m) => m.code)).toEqual(['EL-001', 'T-010']);
+
+      const picked = lines();
+      picked[0].picked_quantity = 3;
+      picked[2].picked_quantity = 1;
+      expect(pickingProgress(picked)).toMatchObject({ complete: true, completed_required_lines: 2, missing: [] });
+    });
+
+    it('should not consider an empty packing list packable', () => {
+      expect(pickingProgress([]).complete).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Parcel Terminals Test Suite
+ *
+ * Tests for importing downloaded parcel terminal lists:
+ * - Omniva locations JSON, keeping terminals and skipping post offices
+ * - Generic CSV with comma or semicolon separators and quoted fields
+ * - Rows without a code or name, duplicate codes and the default country
+ */
+
+const { parseTerminalList, terminalLabel } = require('../utils/parcelTerminals');
+
+describe('Parcel Terminals Tests', () => {
+  describe('parseTerminalList', () => {
+    it('should read Omniva terminals and skip post offices', () => {
+      const content = JSON.stringify([
+        {
+          ZIP: '96331', NAME: 'Tartu Lõunakeskus pakiautomaat', TYPE: '0', A0_NAME: 'EE', A1_NAME: 'Tartu maakond',
+          A2_NAME: 'Tartu linn', A5_NAME: 'Ringtee tn', A7_NAME: '75', X_COORDINATE: '26.6914', Y_COORDINATE: '58.3565',
+        },
+        { ZIP: '51003', NAME: 'Tartu postkontor', TYPE: '1', A0_NAME: 'EE', A2_NAME: 'Tartu linn' },
+      ]);
+      const { terminals, skipped } = parseTerminalList(content);
+      expect(skipped).toBe(1);
+      expect(terminals).toEqual([{
+        code: '96331',
+        name: 'Tartu Lõunakeskus pakiautomaat',
+        address: 'Ringtee tn 75',
+        city: 'Tartu linn',
+        postal_code: '96331',
+        country: 'EE',
+        latitude: 58.3565,
+        longitude: 26.6914,
+      }]);
+    });
+
+    it('should read semicolon CSV with quoted fields and decimal commas', () => {
+      const content = [
+        'Code;Name;Address;City;Postal code;Country;Latitude;Longitude',
+        'SP101;"Rimi; Kristiine";Endla 45;Tallinn;10615;ee;59,4270;24,7210',
+      ].join('\r\n');
+      const { terminals } = parseTerminalList(content);
+      expect(terminals[0]).toMatchObject({
+        code: 'SP101', name: 'Rimi; Kristiine', postal_code: '10615', country: 'EE', latitude: 59.427, longitude: 24.721,
+      });
+    });
+
+    it('should skip rows without a code or name and keep the last row of a duplicate code', () => {
+      const content = [
+        'code,name,city',
+        'A1,Old name,Tallinn',
+        ',No code,Tallinn',
+        'A2,,Tartu',
+        'A1,New name,Tallinn',
+      ].join('\n');
+      const { terminals, skipped } = parseTerminalList(content, { defaultCountry: 'lv' });
+      expect(skipped).toBe(2);
+      expect(terminals).toHaveLength(1);
+      expect(terminals[0]).toMatchObject({ code: 'A1', name: 'New name', country: 'LV', latitude: null });
+    });
+
+    it('should reject empty lists and broken JSON', () => {
+      expect(() => parseTerminalList('  ')).toThrow('The terminal list is empty');
+      expect(() => parseTerminalList('[{"code": ')).toThrow('not valid JSON');
+    });
+  });
+
+  describe('terminalLabel', () => {
+    it('should describe a terminal with its address', () => {
+      expect(terminalLabel({ name: 'Rimi', address: 'Endla 45', postal_code: '10615', city: 'Tallinn' }))
+        .toBe('Rimi (Endla 45, 10615 Tallinn)');
+      expect(terminalLabel({ name: 'Rimi' })).toBe('Rimi');
+    });
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Part Lot Stock Test Suite
+ *
+ * Tests against an in-memory database with the startup schema:
+ * - Reading a part's lots reconciles them without writing them back
+ * - Normalizing takes stock removed without a lot off the lots, FEFO
+ */
+
+const db = require('../utils/sqliteConnectionManager');
+const { startup } = require('../scripts/startup');
+const partLotService = require('../services/partLotService');
+
+async function storedLots() {
+  const { rows } = await db.query('SELECT lot_number, quantity FROM part_lots WHERE part_id = 101 ORDER BY lot_number');
+  return rows;
+}
+
+describe('Part Lot Stock Tests', () => {
+  beforeAll(async() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    db.dbPath = ':memory:';
+    await startup();
+
+    // 10 received into two lots, then 4 removed without naming a lot
+    await db.run('INSERT INTO parts (part_id, part_number, name, stock_quantity, track_lots) VALUES (101, \'P-101\', \'Resin\', 6, 1)');
+    await db.run('INSERT INTO part_lots (part_id, lot_number, expiry_date, received_quantity, quantity) VALUES (101, \'A\', \'2030-01-01\', 5, 5)');
+    await db.run('INSERT INTO part_lots (part_id, lot_number, expiry_date, received_quantity, quantity) VALUES (101, \'B\', \'2031-01-01\', 5, 5)');
+  });
+
+  afterAll(async() => {
+    await new Promise((resolve) => db.getConnection().close(resolve));
+  });
+
+  it('should reconcile lots on read without updating them', async() => {
+    const lots = await partLotService.getPartLots(101);
+
+    expect(lots.lots.map((lot) => [lot.lot_number, lot.quantity])).toEqual([['A', 1], ['B', 5]]);
+    expect(lots.untracked_quantity).toBe(0);
+    expect(await storedLots()).toEqual([{ lot_number: 'A', quantity: 5 }, { lot_number: 'B', quantity: 5 }]);
+  });
+
+  it('should write back the lots of parts holding more than their total', async() => {
+    await partLotService.normalizeOverallocated();
+
+    expect(await storedLots()).toEqual([{ lot_number: 'A', quantity: 1 }, { lot_number: 'B', quantity: 5 }]);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Part Lots Test Suite
+ *
+ * Tests for lot and expiry tracking:
+ * - FEFO order (earliest expiry first, no expiry last)
+ * - Lots reconciled with the part's total stock
+ * - FEFO allocation skipping expired lots
+ */
+
+const { compareFefo, isExpired, reconcileLots, allocateFefo } = require('../utils/partLots');
+
+const today = new Date('2026-03-15T10:00:00Z');
+
+const lots = () => [
+  { lot_id: 1, lot_number: 'NOEXP', expiry_date: null, received_at: '2026-01-01', quantity: 10 },
+  { lot_id: 2, lot_number: 'B-JUN', expiry_date: '2026-06-30', received_at: '2026-02-01', quantity: 5 },
+  { lot_id: 3, lot_number: 'B-APR', expiry_date: '2026-04-30', received_at: '2026-03-01', quantity: 4 },
+  { lot_id: 4, lot_number: 'B-OLD', expiry_date: '2026-03-01', received_at: '2025-09-01', quantity: 3 },
+];
+
+describe('Part Lots Tests', () => {
+  describe('compareFefo and isExpired', () => {
+    it('should order by expiry with lots without an expiry date last', () => {
+      expect(lots().sort(compareFefo).map((lot) => lot.lot_number)).toEqual(['B-OLD', 'B-APR', 'B-JUN', 'NOEXP']);
+    });
+
+    it('should use the oldest receipt first when expiry dates match', () => {
+      const sorted = [
+        { lot_id: 2, expiry_date: null, received_at: '2026-02-01' },
+        { lot_id: 1, expiry_date: null, received_at: '2026-01-01' },
+      ].sort(compareFefo);
+      expect(sorted.map((lot) => lot.lot_id)).toEqual([1, 2]);
+    });
+
+    it('should treat a lot as expired only after its expiry date', () => {
+      expect(isExpired({ expiry_date: '2026-03-14' }, today)).toBe(true);
+      expect(isExpired({ expiry_date: '2026-03-15' }, today)).toBe(false);
+      expect(isExpired({ expiry_date: null }, today)).toBe(false);
+    });
+  });
+
+  describe('reconcileLots', () => {
+    it('should report stock not in any lot as untracked', () => {
+      const result = reconcileLots(lots(), 30);
+      expect(result.untracked_quantity).toBe(8);
+      expect(result.lots.map((lot) => lot.lot_number)).toEqual(['B-OLD', 'B-APR', 'B-JUN', 'NOEXP']);
+    });
+
+    it('should take stock removed without a lot out of the lots in FEFO order', () => {
+      const result = reconcileLots(lots(), 15);
+      expect(result.lots.map((lot) => [lot.lot_number, lot.quantity])).toEqual([['B-JUN', 5], ['NOEXP', 10]]);
+      expect(result.untracked_quantity).toBe(0);
+    });
+  });
+
+  describe('allocateFefo', () => {
+    it('should allocate the earliest expiring lots first and skip expired ones', () => {
+      expect(allocateFefo(lots(), 6, { today })).toEqual({
+        allocations: [
+          { lot_id: 3, lot_number: 'B-APR', expiry_date: '2026-04-30', quantity: 4 },
+          { lot_id: 2, lot_number: 'B-JUN', expiry_date: '2026-06-30', quantity: 2 },
+        ],
+        short: 0,
+      });
+    });
+
+    it('should report what the lots cannot cover as short', () => {
+      const result = allocateFefo(lots(), 25, { today });
+      expect(result.allocations.reduce((sum, a) => sum + a.quantity, 0)).toBe(19);
+      expect(result.short).toBe(6);
+    });
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Purchase Planning Test Suite
+ *
+ * Tests for reorder planning and purchase order status:
+ * - Reorder point from usage, lead time and minimum stock level
+ * - Order quantity (economic order quantity, supplier MOQ, stock on order)
+ * - Reorder point from a lead-time demand forecast
+ * - Receiving status of a purchase order
+ */
+
+const { reorderPlan, receivingStatus } = require('../utils/purchasePlanning');
+
+describe('Purchase Planning Tests', () => {
+  describe('reorderPlan', () => {
+    it('should not plan parts with neither usage nor a minimum level', () => {
+      const plan = reorderPlan({ stock: 0 });
+      expect(plan.reorderPoint).toBe(0);
+      expect(plan.needsReorder).toBe(false);
+      expect(plan.orderQuantity).toBe(0);
+    });
+
+    it('should reorder up past the minimum level when there is no usage', () => {
+      const plan = reorderPlan({ stock: 2, minimumStockLevel: 5 });
+      expect(plan.reorderPoint).toBe(5);
+      expect(plan.needsReorder).toBe(true);
+      expect(plan.orderQuantity).toBe(4);
+    });
+
+    it('should scale the reorder point with the supplier lead time', () => {
+      // 360 used in 180 days = 2 a day; 1.5 safety multiplier with a minimum level
+      expect(reorderPlan({ stock: 50, minimumStockLevel: 1, usage: 360 }).reorderPoint).toBe(21);
+      expect(reorderPlan({ stock: 50, minimumStockLevel: 1, usage: 360, leadTimeDays: 14 }).reorderPoint).toBe(42);
+    });
+
+    it('should order the economic order quantity, at least the supplier MOQ', () => {
+      // 2 a day, cost 2.4: sqrt(2 * 2 * 30 * 10 / 2.4) = 22.36
+      const plan = reorderPlan({ stock: 10, minimumStockLevel: 1, usage: 360, unitCost: 2.4 });
+      expect(plan.economicOrderQuantity).toBe(23);
+      expect(plan.orderQuantity).toBe(23);
+      expect(reorderPlan({ stock: 10, minimumStockLevel: 1, usage: 360, unitCost: 2.4, minimumOrderQuantity: 100 }).orderQuantity).toBe(100);
+    });
+
+    it('should count stock already on order', () => {
+      expect(reorderPlan({ stock: 2, minimumStockLevel: 5, onOrder: 4 }).needsReorder).toBe(false);
+      const plan = reorderPlan({ stock: 2, minimumStockLevel: 5, onOrder: 2 });
+      expect(plan.position).toBe(4);
+      expect(plan.orderQuantity).toBe(2);
+    });
+
+    it('should use the upper bound of a lead-time demand forecast as the reorder point', () => {
+      // 14 expected over 7 days (2 a day), 19.6 at the upper bound
+      const plan = reorderPlan({ stock: 30, minimumStockLevel: 1, usage: 36, leadTimeForecast: { point: 14, upper: 19.6 } });
+      expect(plan.reorderPoint).toBe(20);
+      expect(plan.dailyUsage).toBe(2);
+      expect(reorderPlan({ stock: 30, minimumStockLevel: 5, leadTimeForecast: { point: 0, upper: 0 } }).reorderPoint).toBe(5);
+    });
+  });
+
+  describe('receivingStatus', () => {
+    it('should follow the quantities received', () => {
+      expect(receivingStatus([{ quantity_ordered: 10, quantity_received: 0 }])).toBe('sent');
+      expect(receivingStatus([
+        { quantity_ordered: 10, quantity_received: 10 },
+        { quantity_ordered: 5, quantity_received: 0 },
+      ])).toBe('partially_received');
+      expect(receivingStatus([
+        { quantity_ordered: 10, quantity_received: 12 },
+        { quantity_ordered: 5, quantity_received: 5 },
+      ])).toBe('received');
+    });
+  });
+});
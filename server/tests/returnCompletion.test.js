@@ -0,0 +1,82 @@
+/**
+ * Return Completion Test Suite
+ *
+ * Tests against an in-memory database with the startup schema:
+ * - A replacement that fails partway goes back to approved
+ * - Completing it again books no second parcel and moves each part once
+ */
+
+jest.mock('../utils/notificationService', () => jest.fn().mockImplementation(() => ({
+  createNotification: jest.fn().mockResolvedValue(null),
+})));
+
+const db = require('../utils/sqliteConnectionManager');
+const { startup } = require('../scripts/startup');
+const returnService = require('../services/returnService');
+const shipmentService = require('../services/shipmentService');
+const shippingService = require('../services/shippingService');
+const partLotService = require('../services/partLotService');
+
+const admin = { role: 'admin', userId: 1 };
+
+async function stockOf(partId) {
+  const { rows } = await db.query('SELECT stock_quantity FROM parts WHERE part_id = ?', [partId]);
+  return rows[0].stock_quantity;
+}
+
+describe('Return Completion Tests', () => {
+  let returnId;
+
+  beforeAll(async() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    db.dbPath = ':memory:';
+    await startup();
+
+    jest.spyOn(shippingService, 'getParcel').mockResolvedValue({ weight_g: 400 });
+    jest.spyOn(shipmentService, 'bookParcel').mockResolvedValue({
+      adapter: 'manual', weightG: 400, trackingNumber: 'TRK-1', labelPath: null,
+    });
+    jest.spyOn(shipmentService, 'getTodaysManifest').mockResolvedValue({ manifest_id: null });
+    jest.spyOn(shipmentService, 'writeManifest').mockResolvedValue(null);
+
+    await db.run('INSERT INTO users (user_id, username, email, password_hash, role) VALUES (2, \'pupil\', \'pupil@example.com\', \'x\', \'customer\')');
+    await db.run('INSERT INTO parts (part_id, part_number, name, stock_quantity) VALUES (101, \'P-101\', \'Motor\', 10)');
+    await db.run('INSERT INTO parts (part_id, part_number, name, stock_quantity) VALUES (102, \'P-102\', \'Wheel\', 10)');
+    const orderId = (await db.run(
+      'INSERT INTO orders (order_number, customer_id, status, total_amount, shipping_method) VALUES (\'ORD-7\', 2, \'shipped\', 40, \'parcel_terminal\')'
+    )).lastID;
+    returnId = (await db.run(
+      'INSERT INTO return_requests (return_number, order_id, customer_id, status, reason, resolution) VALUES (\'RMA-7-1\', ?, 2, \'approved\', \'missing_parts\', \'replacement\')',
+      [orderId]
+    )).lastID;
+    await db.run('INSERT INTO return_request_lines (return_id, line_type, part_id, description, quantity) VALUES (?, \'part\', 101, \'Motor\', 2)', [returnId]);
+    await db.run('INSERT INTO return_request_lines (return_id, line_type, part_id, description, quantity) VALUES (?, \'part\', 102, \'Wheel\', 3)', [returnId]);
+  });
+
+  afterAll(async() => {
+    await new Promise((resolve) => db.getConnection().close(resolve));
+  });
+
+  it('should keep the request approved when a step fails', async() => {
+    jest.spyOn(partLotService, 'allocateForOrder').mockRejectedValueOnce(new Error('lot table locked'));
+
+    await expect(returnService.transition(returnId, 'completed', { user: admin })).rejects.toThrow('lot table locked');
+
+    const request = await returnService.getRequest(returnId);
+    expect(request.status).toBe('approved');
+    expect(request.tracking_number).toBe('TRK-1');
+    expect(await stockOf(101)).toBe(8);
+    expect(await stockOf(102)).toBe(10);
+  });
+
+  it('should finish the remaining steps on the next try', async() => {
+    const request = await returnService.transition(returnId, 'completed', { user: admin });
+
+    expect(request.status).toBe('completed');
+    expect(shipmentService.bookParcel).toHaveBeenCalledTimes(1);
+    expect(await stockOf(101)).toBe(8);
+    expect(await stockOf(102)).toBe(7);
+    expect(request.history[request.history.length - 1].notes).toBe('Replacement shipped, tracking number TRK-1');
+  });
+});
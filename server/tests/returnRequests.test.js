@@ -0,0 +1,103 @@
+/**
+ * Return Requests Test Suite
+ *
+ * Tests for the return request (RMA) rules:
+ * - Which status changes each role may make
+ * - What is left to report per order item and part
+ * - Checking a new request's lines and the resolutions it allows
+ */
+
+const {
+  getReturnTransition,
+  allowedReturnTransitions,
+  returnableLines,
+  checkReturnLines,
+  allowedResolutions,
+  returnNumber,
+} = require('../utils/returnRequests');
+
+describe('Return Requests Tests', () => {
+  const orderLines = [
+    { type: 'item', id: 11, quantity: 2, description: 'Robot Arm Kit' },
+    { type: 'part', id: 5, quantity: 8, description: 'M3 screw' },
+  ];
+
+  describe('transitions', () => {
+    it('should let production approve or reject and the customer cancel a new request', () => {
+      expect(allowedReturnTransitions('requested', 'production')).toEqual(['approved', 'rejected']);
+      expect(allowedReturnTransitions('requested', 'customer')).toEqual(['cancelled']);
+      expect(allowedReturnTransitions('approved', 'customer')).toEqual([]);
+      expect(getReturnTransition('approved', 'completed')).toMatchObject({
+        roles: ['admin', 'production'],
+        notify: ['customer'],
+        timestamp: 'completed_at',
+      });
+    });
+
+    it('should not allow leaving a final status', () => {
+      expect(getReturnTransition('rejected', 'approved')).toBeNull();
+      expect(getReturnTransition('completed', 'approved')).toBeNull();
+      expect(allowedReturnTransitions('cancelled')).toEqual([]);
+    });
+  });
+
+  describe('returnableLines', () => {
+    it('should take quantities already claimed off what is returnable', () => {
+      const lines = returnableLines(orderLines, [
+        { type: 'part', id: 5, quantity: 3 },
+        { type: 'part', id: '5', quantity: 1 },
+        { type: 'item', id: 12, quantity: 1 },
+      ]);
+      expect(lines.map((line) => [line.claimed_quantity, line.returnable_quantity])).toEqual([[0, 2], [4, 4]]);
+    });
+  });
+
+  describe('checkReturnLines', () => {
+    const returnable = returnableLines(orderLines, [{ type: 'part', id: 5, quantity: 6 }]);
+
+    it('should add up lines for the same item or part', () => {
+      const { lines, errors } = checkReturnLines([
+        { type: 'item', id: 11, quantity: 1 },
+        { type: 'part', id: '5', quantity: 1 },
+        { type: 'part', id: 5, quantity: 1 },
+      ], returnable);
+      expect(errors).toEqual([]);
+      expect(lines.map(({ type, id, quantity }) => ({ type, id, quantity }))).toEqual([
+        { type: 'item', id: 11, quantity: 1 },
+        { type: 'part', id: 5, quantity: 2 },
+      ]);
+    });
+
+    it('should report unknown lines, bad quantities and more than is left', () => {
+      const { errors } = checkReturnLines([
+        { type: 'tool', id: 1, quantity: 1 },
+        { type: 'item', id: 99, quantity: 1 },
+        { type: 'item', id: 11, quantity: 0.5 },
+        { type: 'part', id: 5, quantity: 3 },
+      ], returnable);
+      expect(errors).toEqual([
+        'Unknown line type: tool. Use item or part',
+        'Order item 99 is not on this order',
+        'Quantity for "Robot Arm Kit" must be a whole number above zero',
+        'At most 2 of "M3 screw" can be reported',
+      ]);
+    });
+
+    it('should require at least one line', () => {
+      expect(checkReturnLines([], returnable).errors).toEqual(['Select at least one item or part']);
+    });
+  });
+
+  describe('allowedResolutions', () => {
+    it('should only refund requests for whole order items', () => {
+      expect(allowedResolutions([{ type: 'item' }])).toEqual(['replacement', 'refund', 'restock']);
+      expect(allowedResolutions([{ type: 'item' }, { type: 'part' }])).toEqual(['replacement', 'restock']);
+    });
+  });
+
+  describe('returnNumber', () => {
+    it('should number requests after the order from 1', () => {
+      expect(returnNumber('ORD-1700000000000-ABCDE', 1)).toBe('ORD-1700000000000-ABCDE-R2');
+    });
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * SEPA pain.001 Test Suite
+ *
+ * Tests for provider payout files:
+ * - IBAN checksum and length validation, BIC format
+ * - SEPA character set transliteration
+ * - Group header totals and credit transfer entries
+ */
+
+const { validateIban, validateBic, sepaText, buildPain001 } = require('../utils/sepaPain001');
+
+describe('SEPA pain.001 Tests', () => {
+  describe('account validation', () => {
+    it('should accept valid IBANs and normalise spacing', () => {
+      expect(validateIban('ee38 2200 2210 2014 5685')).toEqual({
+        valid: true,
+        iban: 'EE382200221020145685',
+        country: 'EE'
+      });
+      expect(validateIban('FI2112345600000785').valid).toBe(true);
+      expect(validateIban('DE89 3704 0044 0532 0130 00').valid).toBe(true);
+    });
+
+    it('should reject bad checksums, wrong lengths and empty values', () => {
+      expect(validateIban('EE382200221020145686').valid).toBe(false);
+      expect(validateIban('EE3822002210201456').valid).toBe(false);
+      expect(validateIban('EE123456789012345678').valid).toBe(false);
+      expect(validateIban('').valid).toBe(false);
+      expect(validateIban(null).valid).toBe(false);
+    });
+
+    it('should validate 8 and 11 character BICs', () => {
+      expect(validateBic('habaee2x')).toEqual({ valid: true, bic: 'HABAEE2X' });
+      expect(validateBic('NDEAFIHHXXX').valid).toBe(true);
+      expect(validateBic('HABA').valid).toBe(false);
+    });
+  });
+
+  it('should restrict text to the SEPA character set', () => {
+    expect(sepaText('Jüri Õun & Pöö OÜ', 70)).toBe('Juri Oun + Poo OU');
+    expect(sepaText('Straße 1; "quoted"', 70)).toBe('Strasse 1 quoted');
+    expect(sepaText('a'.repeat(50), 35)).toHaveLength(35);
+  });
+
+  describe('document', () => {
+    const xml = buildPain001({
+      messageId: 'PAYOUT-2026-09-0001',
+      executionDate: '2026-10-02',
+      createdAt: new Date('2026-10-01T09:00:00.000Z'),
+      debtor: { name: 'MakerSet Solutions OÜ', iban: 'EE382200221020145685', bic: 'HABAEE2X' },
+      payments: [
+        {
+          endToEndId: 'PAYOUT-2026-09-0001-7',
+          amount: 120.5,
+          name: 'Tööriistad & Co',
+          iban: 'FI21 1234 5600 0007 85',
+          bic: 'NDEAFIHH',
+          remittanceInformation: 'September 2026 payout PAYOUT-2026-09-0001'
+        },
+        { endToEndId: 'PAYOUT-2026-09-0001-9', amount: 79.56, name: 'Jaan Tamm', iban: 'EE382200221020145685' }
+      ]
+    });
+
+    it('should write the group header with count and control sum', () => {
+      expect(xml).toContain('xmlns="urn:iso:std:iso:20022:tech:xsd:pain.001.001.03"');
+      expect(xml).toContain('<MsgId>PAYOUT-2026-09-0001</MsgId>');
+      expect(xml).toContain('<CreDtTm>2026-10-01T09:00:00</CreDtTm>');
+      expect(xml.match(/<NbOfTxs>2<\/NbOfTxs>/g)).toHaveLength(2);
+      expect(xml.match(/<CtrlSum>200\.06<\/CtrlSum>/g)).toHaveLength(2);
+      expect(xml).toContain('<ReqdExctnDt>2026-10-02</ReqdExctnDt>');
+      expect(xml).toContain('<Dbtr><Nm>MakerSet Solutions OU</Nm></Dbtr>');
+      expect(xml).toContain('<DbtrAgt><FinInstnId><BIC>HABAEE2X</BIC></FinInstnId></DbtrAgt>');
+    });
+
+    it('should write one credit transfer per payment', () => {
+      expect(xml.match(/<CdtTrfTxInf>/g)).toHaveLength(2);
+      expect(xml).toContain('<InstdAmt Ccy="EUR">120.50</InstdAmt>');
+      expect(xml).toContain('<Cdtr><Nm>Tooriistad + Co</Nm></Cdtr>');
+      expect(xml).toContain('<IBAN>FI2112345600000785</IBAN>');
+      expect(xml).toContain('<CdtrAgt><FinInstnId><BIC>NDEAFIHH</BIC></FinInstnId></CdtrAgt>');
+      expect(xml).toContain('<Ustrd>September 2026 payout PAYOUT-2026-09-0001</Ustrd>');
+      expect(xml.match(/<CdtrAgt>/g)).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Set Availability Test Suite
+ *
+ * Tests for the buildable quantity of a set from its bill of materials:
+ * - Scarcest required part limits the set and is reported
+ * - Cart holds and optional parts
+ * - Parts short for a requested quantity
+ */
+
+const { buildableFromParts, partShortfalls } = require('../utils/setAvailability');
+
+const motor = { part_id: 1, part_number: 'MOT-1', part_name: 'Motor', stock_quantity: 7, held_quantity: 0, required_quantity: 2 };
+const wheel = { part_id: 2, part_number: 'WHL-1', part_name: 'Wheel', stock_quantity: 20, held_quantity: 0, required_quantity: 4 };
+
+describe('Set Availability Tests', () => {
+  it('should build as many kits as the scarcest part allows and report it', () => {
+    const result = buildableFromParts([wheel, motor]);
+    expect(result.buildable_quantity).toBe(3);
+    expect(result.parts_configured).toBe(true);
+    expect(result.limiting_part).toMatchObject({
+      part_id: 1,
+      part_name: 'Motor',
+      available_quantity: 7,
+      required_quantity: 2,
+      buildable_quantity: 3,
+    });
+  });
+
+  it('should take held parts off the stock and not go below zero', () => {
+    const result = buildableFromParts([wheel, { ...motor, held_quantity: 4 }]);
+    expect(result.buildable_quantity).toBe(1);
+    expect(result.limiting_part.held_quantity).toBe(4);
+    expect(buildableFromParts([{ ...motor, held_quantity: 9 }]).buildable_quantity).toBe(0);
+  });
+
+  it('should ignore optional parts', () => {
+    const optionalScrew = { part_id: 3, part_name: 'Screw', stock_quantity: 0, required_quantity: 1, is_optional: 1 };
+    expect(buildableFromParts([motor, optionalScrew]).buildable_quantity).toBe(3);
+  });
+
+  it('should not build a set without required parts', () => {
+    expect(buildableFromParts([])).toEqual({ buildable_quantity: 0, limiting_part: null, parts_configured: false });
+    expect(buildableFromParts([{ ...motor, required_quantity: 0 }]).parts_configured).toBe(false);
+  });
+
+  it('should list the parts short for the requested kits', () => {
+    expect(partShortfalls([wheel, motor], 3)).toEqual([]);
+    expect(partShortfalls([wheel, { ...motor, held_quantity: 2 }], 4)).toEqual([
+      { part_id: 1, part_number: 'MOT-1', part_name: 'Motor', required: 8, available: 5, shortfall: 3 },
+    ]);
+  });
+});
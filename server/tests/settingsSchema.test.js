@@ -0,0 +1,127 @@
+/**
+ * Settings Schema Test Suite
+ *
+ * Tests for the declared system settings:
+ * - Type, range, enum, format and JSON shape validation of written values
+ * - Secret masking and per-role write permissions
+ * - Typed reads of stored text values
+ */
+
+const {
+  SETTINGS_SCHEMA,
+  validateSetting,
+  canChangeSetting,
+  maskSecrets,
+  describeSchema,
+  parseSettingValue,
+  serializeSettingValue,
+  settingDefaults
+} = require('../utils/settingsSchema');
+
+describe('Settings Schema Tests', () => {
+  it('should accept numbers and their text form within range', () => {
+    expect(validateSetting('shipping_handling_cost', 12.5)).toEqual({ value: 12.5, error: null });
+    expect(validateSetting('shipping_handling_cost', '9.90')).toEqual({ value: 9.9, error: null });
+    expect(validateSetting('free_shipping_threshold', '0').error).toBeNull();
+  });
+
+  it('should reject non-numeric and out of range numbers', () => {
+    expect(validateSetting('shipping_handling_cost', 'fifteen').error).toBe('shipping_handling_cost must be a number');
+    expect(validateSetting('shipping_handling_cost', '').error).toBe('shipping_handling_cost must be a number');
+    expect(validateSetting('shipping_handling_cost', -1).error).toBe('shipping_handling_cost must be at least 0');
+    expect(validateSetting('invoice_due_days', 400).error).toBe('invoice_due_days must be at most 365');
+  });
+
+  it('should trim text and check required values and formats', () => {
+    expect(validateSetting('company_name', '  MakerSet OÜ ')).toEqual({ value: 'MakerSet OÜ', error: null });
+    expect(validateSetting('company_name', ' ').error).toBe('company_name is required');
+    expect(validateSetting('company_reg_number', '').error).toBeNull();
+    expect(validateSetting('bank_swift', 'HABAEE2X').error).toBeNull();
+    expect(validateSetting('bank_swift', 'HABA').error).toBe('bank_swift has an invalid format');
+    expect(validateSetting('company_email', 'not-an-email').error).toBe('company_email has an invalid format');
+    expect(validateSetting('company_tax_id', { id: 1 }).error).toBe('company_tax_id must be text');
+  });
+
+  it('should reject unknown keys, values outside the enum and fractional integers', () => {
+    expect(validateSetting('handling_fee', 15).error).toBe('handling_fee is not a known setting');
+    expect(validateSetting('payment_terms', 'net30').error).toBeNull();
+    expect(validateSetting('payment_terms', 'net90').error).toBe(
+      'payment_terms must be one of prepayment, net7, net14, net30, net60, due_on_receipt'
+    );
+    expect(validateSetting('invoice_language', '').error).toBe('invoice_language is required');
+    expect(validateSetting('credit_validity_days', '30')).toEqual({ value: 30, error: null });
+    expect(validateSetting('credit_validity_days', 1.5).error).toBe('credit_validity_days must be a whole number');
+  });
+
+  it('should accept booleans and their text form', () => {
+    expect(validateSetting('automatic_report_enabled', 'false')).toEqual({ value: false, error: null });
+    expect(validateSetting('automatic_report_enabled', true)).toEqual({ value: true, error: null });
+    expect(validateSetting('automatic_report_enabled', 'yes').error).toBe('automatic_report_enabled must be true or false');
+  });
+
+  it('should parse VAT rate overrides and check their shape', () => {
+    expect(validateSetting('vat_rates', '{"EE": {"standard": 22, "reduced": 9}}')).toEqual({
+      value: { EE: { standard: 22, reduced: 9 } },
+      error: null,
+    });
+    expect(validateSetting('vat_rates', '')).toEqual({ value: '', error: null });
+    expect(validateSetting('vat_rates', '{"EE": {"standard": 22}').error).toBe('vat_rates must be valid JSON');
+    expect(validateSetting('vat_rates', '[22]').error).toMatch(/^vat_rates must map country codes to rates/);
+    expect(validateSetting('vat_rates', { Estonia: { standard: 22 } }).error).toBe('vat_rates has an invalid country code: Estonia');
+    expect(validateSetting('vat_rates', { EE: 22 }).error).toBe('vat_rates must give the rates of EE as an object');
+    expect(validateSetting('vat_rates', { EE: { standart: 22 } }).error).toBe(
+      'vat_rates has an unknown rate for EE: standart (use standard or reduced)'
+    );
+    expect(validateSetting('vat_rates', { EE: { standard: '22' } }).error).toBe(
+      'vat_rates must give the standard rate of EE as a number from 0 to 100'
+    );
+    expect(validateSetting('vat_rates', { EE: { standard: 120 } }).error).toBe(
+      'vat_rates must give the standard rate of EE as a number from 0 to 100'
+    );
+  });
+
+  describe('secrets', () => {
+    beforeAll(() => {
+      SETTINGS_SCHEMA.test_api_key = { category: 'general', default: 'built-in', secret: true, roles: ['admin', 'production'] };
+    });
+
+    afterAll(() => {
+      delete SETTINGS_SCHEMA.test_api_key;
+    });
+
+    it('should mask or drop secret values', () => {
+      expect(maskSecrets({ test_api_key: 'abc', currency: 'EUR' })).toEqual({ test_api_key: '********', currency: 'EUR' });
+      expect(maskSecrets({ test_api_key: '' })).toEqual({ test_api_key: '' });
+      expect(maskSecrets({ test_api_key: 'abc', currency: 'EUR' }, { drop: true })).toEqual({ currency: 'EUR' });
+      expect(describeSchema().test_api_key).toMatchObject({ default: null, secret: true, roles: ['admin', 'production'] });
+    });
+  });
+
+  it('should declare no current setting secret', () => {
+    expect(Object.keys(describeSchema()).filter((key) => describeSchema()[key].secret)).toEqual([]);
+  });
+
+  it('should allow changes only by the declared roles', () => {
+    expect(canChangeSetting('shipping_packaging_weight_g', 'production')).toBe(true);
+    expect(canChangeSetting('shipping_handling_cost', 'admin')).toBe(true);
+    expect(canChangeSetting('shipping_handling_cost', 'production')).toBe(false);
+    expect(canChangeSetting('shipping_handling_cost', 'provider')).toBe(false);
+    expect(canChangeSetting('unknown_key', 'admin')).toBe(false);
+    expect(describeSchema().shipping_pickup_address).toMatchObject({ roles: ['admin', 'production'] });
+    expect(describeSchema().vat_rates).toMatchObject({ type: 'json', default: '' });
+  });
+
+  it('should convert stored text to typed values', () => {
+    expect(parseSettingValue('15', 'number')).toBe(15);
+    expect(parseSettingValue('abc', 'number')).toBeNull();
+    expect(parseSettingValue('1', 'boolean')).toBe(true);
+    expect(parseSettingValue('{"a":1}', 'json')).toEqual({ a: 1 });
+    expect(serializeSettingValue(12.5)).toBe('12.5');
+    expect(serializeSettingValue(null)).toBe('');
+  });
+
+  it('should provide defaults for declared settings', () => {
+    expect(settingDefaults(['shipping_handling_cost', 'currency'])).toEqual({ shipping_handling_cost: 15, currency: 'EUR' });
+    expect(settingDefaults().invoice_prefix).toBe('INV');
+  });
+});
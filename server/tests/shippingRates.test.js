@@ -0,0 +1,101 @@
+/**
+ * Shipping Rates Test Suite
+ *
+ * Tests for shipping quotes:
+ * - Destination country to zone, with a rest-of-world zone
+ * - Parcel weight from parts, packaging and volumetric size
+ * - Rate prices per started kilogram, weight and size limits
+ * - Free-shipping thresholds, the flat fallback fee and lab pickup
+ */
+
+const { findZone, parcelFor, rateCost, quoteOptions } = require('../utils/shippingRates');
+
+const zones = [
+  { zone_id: 1, code: 'EE', countries: 'EE', is_active: 1 },
+  { zone_id: 2, code: 'EU', countries: 'LV, LT, FI, DE', is_active: 1 },
+  { zone_id: 3, code: 'WORLD', countries: '*', is_active: 1 },
+];
+
+const rates = [
+  { rate_id: 1, zone_id: 1, carrier: 'Omniva', service_level: 'standard', base_price: 4.9, price_per_kg: 1, max_weight_g: 30000, is_active: 1 },
+  { rate_id: 2, zone_id: 1, carrier: 'DPD', service_level: 'express', base_price: 9.9, price_per_kg: 1.5, max_weight_g: 20000, max_length_mm: 1000, is_active: 1 },
+  { rate_id: 3, zone_id: 1, carrier: 'Omniva', service_level: 'economy', base_price: 3.5, price_per_kg: 0.5, is_active: 0 },
+];
+
+describe('Shipping Rates Tests', () => {
+  describe('findZone', () => {
+    it('should prefer a zone listing the country over the rest-of-world zone', () => {
+      expect(findZone(zones, 'ee').code).toBe('EE');
+      expect(findZone(zones, 'FI').code).toBe('EU');
+      expect(findZone(zones, 'US').code).toBe('WORLD');
+    });
+
+    it('should skip inactive zones and return null when none ships there', () => {
+      expect(findZone(zones.slice(0, 2), 'US')).toBeNull();
+      expect(findZone([{ ...zones[0], is_active: 0 }], 'EE')).toBeNull();
+    });
+  });
+
+  describe('parcelFor', () => {
+    it('should add packaging to the parts weight', () => {
+      const parcel = parcelFor([
+        { quantity: 4, weight_g: 100, length_mm: 100, width_mm: 50, height_mm: 20 },
+        { quantity: 1, weight_g: 300, length_mm: 250, width_mm: 100, height_mm: 100 },
+      ], { packagingWeightG: 250 });
+      expect(parcel.weight_g).toBe(950);
+      expect(parcel.longest_mm).toBe(250);
+      expect(parcel.unknown_parts).toBe(0);
+    });
+
+    it('should charge bulky light parcels by volumetric weight', () => {
+      const parcel = parcelFor([{ quantity: 2, weight_g: 200, length_mm: 400, width_mm: 300, height_mm: 200 }]);
+      expect(parcel.volume_cm3).toBe(60000);
+      expect(parcel.volumetric_weight_g).toBe(12000);
+      expect(parcel.chargeable_weight_g).toBe(12000);
+    });
+
+    it('should report parts without weight or size', () => {
+      expect(parcelFor([{ quantity: 3, weight_g: null }]).unknown_parts).toBe(1);
+      expect(parcelFor([]).weight_g).toBe(0);
+    });
+  });
+
+  describe('rateCost', () => {
+    it('should charge the base for the first kilogram and per started kilogram after', () => {
+      expect(rateCost(rates[0], 800)).toBe(4.9);
+      expect(rateCost(rates[0], 1000)).toBe(4.9);
+      expect(rateCost(rates[0], 2100)).toBe(6.9);
+    });
+  });
+
+  describe('quoteOptions', () => {
+    const parcel = { chargeable_weight_g: 1500, longest_mm: 300 };
+
+    it('should list the active rates that fit, cheapest first, with pickup last', () => {
+      const options = quoteOptions({ zone: zones[0], rates, parcel, subtotal: 50, pickup: { address: 'Lab' } });
+      expect(options.map((option) => option.id)).toEqual(['rate:1', 'rate:2', 'pickup']);
+      expect(options[0]).toMatchObject({ cost: 5.9, free: false, service_level: 'standard', carrier: 'Omniva' });
+      expect(options[2]).toMatchObject({ cost: 0, method: 'pickup', address: 'Lab' });
+    });
+
+    it('should leave out rates the parcel is too heavy or long for', () => {
+      const options = quoteOptions({ zone: zones[0], rates, parcel: { chargeable_weight_g: 25000, longest_mm: 300 } });
+      expect(options.map((option) => option.id)).toEqual(['rate:1']);
+      expect(quoteOptions({ zone: zones[0], rates, parcel: { chargeable_weight_g: 500, longest_mm: 1200 } })
+        .map((option) => option.id)).toEqual(['rate:1']);
+    });
+
+    it('should make shipping free over the threshold, a rate threshold overriding the global one', () => {
+      const withRateThreshold = [{ ...rates[0], free_over: 200 }, rates[1]];
+      const options = quoteOptions({ zone: zones[0], rates: withRateThreshold, parcel, subtotal: 150, freeShippingThreshold: 100 });
+      expect(options.find((option) => option.id === 'rate:1')).toMatchObject({ cost: 5.9, free: false, amount_to_free: 50 });
+      expect(options.find((option) => option.id === 'rate:2')).toMatchObject({ cost: 0, original_cost: 11.4, free: true });
+    });
+
+    it('should fall back to the flat fee when no zone ships to the country', () => {
+      const options = quoteOptions({ zone: null, rates, parcel, subtotal: 20, freeShippingThreshold: 0, flatCost: 15 });
+      expect(options).toHaveLength(1);
+      expect(options[0]).toMatchObject({ id: 'flat', cost: 15, free: false, amount_to_free: null });
+    });
+  });
+});
@@ -0,0 +1,33 @@
+/**
+ * Stock Costing Test Suite
+ *
+ * Tests for weighted-average part costs:
+ * - Blending receipts into the cost of stock on hand
+ * - Reversing a receipt (cancelled or edited)
+ */
+
+const { receiveAtAverageCost, reverseAtAverageCost } = require('../utils/stockCosting');
+
+describe('Stock Costing Tests', () => {
+  it('should blend a receipt into the cost of the stock on hand', () => {
+    expect(receiveAtAverageCost({ stock: 10, unitCost: 2, quantity: 30, unitPrice: 3 })).toEqual({ stock: 40, unitCost: 2.75 });
+    expect(receiveAtAverageCost({ stock: 3, unitCost: 1, quantity: 3, unitPrice: 0.3333 })).toEqual({ stock: 6, unitCost: 0.66665 });
+  });
+
+  it('should take the purchase price when there is no stock or no cost yet', () => {
+    expect(receiveAtAverageCost({ stock: 0, unitCost: 5, quantity: 10, unitPrice: 2.5 })).toEqual({ stock: 10, unitCost: 2.5 });
+    expect(receiveAtAverageCost({ stock: -2, unitCost: 5, quantity: 10, unitPrice: 2.5 })).toEqual({ stock: 8, unitCost: 2.5 });
+    expect(receiveAtAverageCost({ stock: 4, unitCost: null, quantity: 1, unitPrice: 7 })).toEqual({ stock: 5, unitCost: 7 });
+  });
+
+  it('should restore the previous cost when a receipt is reversed', () => {
+    const received = receiveAtAverageCost({ stock: 10, unitCost: 2, quantity: 30, unitPrice: 3 });
+    expect(reverseAtAverageCost({ ...received, quantity: 30, unitPrice: 3 })).toEqual({ stock: 10, unitCost: 2 });
+  });
+
+  it('should keep the cost when nothing remains or the remaining value would be negative', () => {
+    expect(reverseAtAverageCost({ stock: 30, unitCost: 3, quantity: 30, unitPrice: 3 })).toEqual({ stock: 0, unitCost: 3 });
+    expect(reverseAtAverageCost({ stock: 5, unitCost: 1, quantity: 4, unitPrice: 10 })).toEqual({ stock: 1, unitCost: 1 });
+    expect(reverseAtAverageCost({ stock: 5, unitCost: null, quantity: 2, unitPrice: 10 })).toEqual({ stock: 3, unitCost: null });
+  });
+});
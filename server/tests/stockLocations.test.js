@@ -0,0 +1,69 @@
+/**
+ * Stock Locations Test Suite
+ *
+ * Tests for per-location part stock:
+ * - Location paths and parent cycles
+ * - Locations reconciled with the part's total stock
+ * - Pick plans in pick order, then unassigned stock
+ */
+
+const { locationPath, createsCycle, reconcileBreakdown, pickPlan } = require('../utils/stockLocations');
+
+const byId = new Map([
+  [1, { location_id: 1, code: 'WH', name: 'Warehouse', parent_id: null }],
+  [2, { location_id: 2, code: 'WH-A', name: 'Shelf A', parent_id: 1 }],
+  [3, { location_id: 3, code: 'WH-A-3', name: 'Bin 3', parent_id: 2 }],
+  [4, { location_id: 4, code: 'LAB', name: 'Lab room', parent_id: null }],
+]);
+
+const rows = () => [
+  { location_id: 3, code: 'WH-A-3', pick_sequence: 20, quantity: 10 },
+  { location_id: 4, code: 'LAB', pick_sequence: 10, quantity: 5 },
+];
+
+describe('Stock Locations Tests', () => {
+  describe('locationPath and createsCycle', () => {
+    it('should build the path from the outermost location down', () => {
+      expect(locationPath(byId.get(3), byId)).toBe('Warehouse / Shelf A / Bin 3');
+      expect(locationPath(byId.get(4), byId)).toBe('Lab room');
+    });
+
+    it('should refuse a location as parent of itself or of its ancestors', () => {
+      expect(createsCycle(1, 3, byId)).toBe(true);
+      expect(createsCycle(2, 2, byId)).toBe(true);
+      expect(createsCycle(3, 4, byId)).toBe(false);
+      expect(createsCycle(4, null, byId)).toBe(false);
+    });
+  });
+
+  describe('reconcileBreakdown', () => {
+    it('should report stock not in any location as unassigned, in pick order', () => {
+      const breakdown = reconcileBreakdown(rows(), 20);
+      expect(breakdown.locations.map((l) => [l.code, l.quantity])).toEqual([['LAB', 5], ['WH-A-3', 10]]);
+      expect(breakdown.unassigned_quantity).toBe(5);
+      expect(breakdown.total).toBe(20);
+    });
+
+    it('should take stock removed from the total out of the locations in pick order', () => {
+      const breakdown = reconcileBreakdown(rows(), 8);
+      expect(breakdown.locations.map((l) => [l.code, l.quantity])).toEqual([['WH-A-3', 8]]);
+      expect(breakdown.unassigned_quantity).toBe(0);
+
+      expect(reconcileBreakdown(rows(), 0).locations).toEqual([]);
+    });
+  });
+
+  describe('pickPlan', () => {
+    it('should pick from locations in order, then unassigned stock, and report what is short', () => {
+      const breakdown = reconcileBreakdown(rows(), 17);
+      expect(pickPlan(breakdown, 3)).toEqual({
+        locations: [{ location_id: 4, code: 'LAB', path: undefined, quantity: 3 }],
+        short_quantity: 0,
+      });
+
+      const plan = pickPlan(breakdown, 20);
+      expect(plan.locations.map((l) => [l.location_id, l.quantity])).toEqual([[4, 5], [3, 10], [null, 2]]);
+      expect(plan.short_quantity).toBe(3);
+    });
+  });
+});
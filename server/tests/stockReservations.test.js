@@ -0,0 +1,110 @@
+/**
+ * Stock Reservations Test Suite
+ *
+ * Tests against an in-memory database with the startup schema:
+ * - A held set ties up its required parts, not its optional ones
+ * - A second cart cannot hold more than is left (409 from the cart API)
+ * - Released and expired holds stop counting
+ */
+
+const express = require('express');
+const jwt = require('jsonwebtoken');
+const request = require('supertest');
+const db = require('../utils/sqliteConnectionManager');
+const { startup } = require('../scripts/startup');
+const stockReservationService = require('../services/stockReservationService');
+
+const firstCart = { userId: 2, sessionId: 'cart-a' };
+const secondCart = { userId: 3, sessionId: 'cart-b' };
+const otherCart = { userId: 4, sessionId: 'cart-c' };
+
+function tokenFor(userId) {
+  return `Bearer ${jwt.sign({ userId, role: 'customer' }, process.env.JWT_SECRET || 'your-super-secret-jwt-key-here')}`;
+}
+
+async function holdsOf(owner) {
+  const { rows } = await db.query(
+    'SELECT set_id, quantity, status FROM stock_reservations WHERE user_id = ? AND session_id = ? ORDER BY reservation_id',
+    [owner.userId, owner.sessionId]
+  );
+  return rows;
+}
+
+describe('Stock Reservations Tests', () => {
+  let app;
+
+  beforeAll(async() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    db.dbPath = ':memory:';
+    await startup();
+
+    for (const userId of [2, 3, 4]) {
+      await db.run(
+        'INSERT INTO users (user_id, username, email, password_hash, role) VALUES (?, ?, ?, \'x\', \'customer\')',
+        [userId, `pupil${userId}`, `pupil${userId}@example.com`]
+      );
+    }
+    // Six motors make three rovers; the optional sensor is out of stock
+    await db.run('INSERT INTO parts (part_id, part_number, name, stock_quantity) VALUES (101, \'P-101\', \'Motor\', 6)');
+    await db.run('INSERT INTO parts (part_id, part_number, name, stock_quantity) VALUES (102, \'P-102\', \'Sensor\', 0)');
+    await db.run('INSERT INTO sets (set_id, name, base_price) VALUES (11, \'Rover\', 20)');
+    await db.run('INSERT INTO set_parts (set_id, part_id, quantity, is_optional) VALUES (11, 101, 2, 0)');
+    await db.run('INSERT INTO set_parts (set_id, part_id, quantity, is_optional) VALUES (11, 102, 1, 1)');
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/cart', require('../routes/cart-sqlite'));
+  });
+
+  afterAll(async() => {
+    await new Promise((resolve) => db.getConnection().close(resolve));
+  });
+
+  it('should hold the required parts of a reserved set', async() => {
+    await stockReservationService.reserve(firstCart, { set_id: 11, quantity: 2 });
+
+    expect(await holdsOf(firstCart)).toEqual([{ set_id: 11, quantity: 2, status: 'active' }]);
+    expect(await stockReservationService.getAvailableQuantity(11, secondCart)).toBe(1);
+    // The cart's own hold does not count against it
+    expect(await stockReservationService.getAvailableQuantity(11, firstCart)).toBe(3);
+  });
+
+  it('should refuse a second cart more than is left', async() => {
+    const refused = await request(app)
+      .post('/api/cart/reserve')
+      .set('Authorization', tokenFor(secondCart.userId))
+      .send({ set_id: 11, quantity: 2, session_id: secondCart.sessionId });
+
+    expect(refused.status).toBe(409);
+    expect(refused.body).toMatchObject({ error: 'Only 1 of "Rover" available', set_id: 11, available: 1 });
+    expect(await holdsOf(secondCart)).toEqual([]);
+
+    const held = await request(app)
+      .post('/api/cart/reserve')
+      .set('Authorization', tokenFor(secondCart.userId))
+      .send({ set_id: 11, quantity: 1, session_id: secondCart.sessionId });
+
+    expect(held.status).toBe(200);
+    expect(await stockReservationService.getAvailableQuantity(11, otherCart)).toBe(0);
+  });
+
+  it('should give the stock back when a hold is released', async() => {
+    expect(await stockReservationService.release(firstCart, 11)).toBe(1);
+
+    expect(await holdsOf(firstCart)).toEqual([{ set_id: 11, quantity: 2, status: 'released' }]);
+    expect(await stockReservationService.getAvailableQuantity(11, otherCart)).toBe(2);
+  });
+
+  it('should stop counting a hold once it has expired', async() => {
+    await db.run(
+      'UPDATE stock_reservations SET expires_at = datetime(\'now\', \'-1 minutes\') WHERE user_id = ? AND session_id = ?',
+      [secondCart.userId, secondCart.sessionId]
+    );
+
+    expect(await stockReservationService.getAvailableQuantity(11, otherCart)).toBe(3);
+    expect(await stockReservationService.listReservations(secondCart)).toEqual([]);
+    expect(await stockReservationService.releaseExpired()).toBe(1);
+    expect(await holdsOf(secondCart)).toEqual([{ set_id: 11, quantity: 1, status: 'expired' }]);
+  });
+});
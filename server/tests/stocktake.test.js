@@ -0,0 +1,55 @@
+/**
+ * Stocktake Test Suite
+ *
+ * Tests for stocktake variances:
+ * - Variance and value impact per line
+ * - Totals over a stocktake
+ * - Posting a variance onto stock that moved during the count
+ */
+
+const { lineVariance, summarizeLines, stockAfterVariance } = require('../utils/stocktake');
+
+describe('Stocktake Tests', () => {
+  describe('lineVariance', () => {
+    it('should value the difference at the snapshot unit cost', () => {
+      expect(lineVariance({ expected_quantity: 10, counted_quantity: 7, unit_cost: 1.25 }))
+        .toEqual({ variance: -3, value_impact: -3.75 });
+      expect(lineVariance({ expected_quantity: 0, counted_quantity: 2, unit_cost: 0.333 }))
+        .toEqual({ variance: 2, value_impact: 0.67 });
+    });
+
+    it('should have no variance for lines not counted yet', () => {
+      expect(lineVariance({ expected_quantity: 4, counted_quantity: null, unit_cost: 2 }))
+        .toEqual({ variance: null, value_impact: null });
+    });
+  });
+
+  describe('summarizeLines', () => {
+    it('should count lines and total gains and losses', () => {
+      const summary = summarizeLines([
+        { expected_quantity: 10, counted_quantity: 7, unit_cost: 2, status: 'approved' },
+        { expected_quantity: 5, counted_quantity: 6, unit_cost: 1.5, status: 'counted' },
+        { expected_quantity: 3, counted_quantity: 3, unit_cost: 4, status: 'counted' },
+        { expected_quantity: 8, counted_quantity: null, unit_cost: 1, status: 'pending' },
+      ]);
+      expect(summary).toEqual({
+        total_lines: 4,
+        counted_lines: 3,
+        uncounted_lines: 1,
+        variance_lines: 2,
+        approved_lines: 1,
+        value_gain: 1.5,
+        value_loss: -6,
+        net_value_impact: -4.5,
+      });
+    });
+  });
+
+  describe('stockAfterVariance', () => {
+    it('should apply the variance to the current stock, not reset it to the count', () => {
+      // Snapshot 10, counted 8 (-2); 3 were sold while counting, so 7 are left
+      expect(stockAfterVariance(7, -2)).toBe(5);
+      expect(stockAfterVariance(1, -2)).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Stocktake Locations Test Suite
+ *
+ * Tests against an in-memory database with the startup schema:
+ * - Free-text part locations become storage locations holding the part's stock
+ * - A stocktake of one location counts only the stock held there
+ * - Posting a count changes the stock at the counted location
+ */
+
+const db = require('../utils/sqliteConnectionManager');
+const { startup } = require('../scripts/startup');
+const stockLocationService = require('../services/stockLocationService');
+const stocktakeService = require('../services/stocktakeService');
+
+async function stockAt(partId) {
+  const { rows } = await db.query(
+    `SELECT sl.code, ps.quantity FROM part_stock ps
+    JOIN storage_locations sl ON ps.location_id = sl.location_id
+    WHERE ps.part_id = ? ORDER BY sl.code`,
+    [partId]
+  );
+  return rows;
+}
+
+describe('Stocktake Locations Tests', () => {
+  beforeAll(async() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    db.dbPath = ':memory:';
+    await startup();
+
+    // A database from before storage locations still has the free-text column
+    await db.run('ALTER TABLE parts ADD COLUMN location TEXT');
+    await db.run('INSERT INTO parts (part_id, part_number, name, stock_quantity, location) VALUES (101, \'P-101\', \'Motor\', 5, \'Shelf A\')');
+    await db.run('INSERT INTO parts (part_id, part_number, name, stock_quantity, location) VALUES (102, \'P-102\', \'Wheel\', 3, \'shelf a\')');
+    await db.run('INSERT INTO parts (part_id, part_number, name, stock_quantity, location) VALUES (103, \'P-103\', \'Axle\', 0, \'Drawer 2\')');
+  });
+
+  afterAll(async() => {
+    await new Promise((resolve) => db.getConnection().close(resolve));
+  });
+
+  it('should move free-text locations into storage locations', async() => {
+    await stockLocationService.migratePartLocationText();
+
+    expect(await stockAt(101)).toEqual([{ code: 'SHELF-A', quantity: 5 }]);
+    expect(await stockAt(102)).toEqual([{ code: 'SHELF-A', quantity: 3 }]);
+    expect(await stockAt(103)).toEqual([]);
+    const { rows: locations } = await db.query('SELECT code, name FROM storage_locations ORDER BY code');
+    expect(locations).toEqual([{ code: 'DRAWER-2', name: 'Drawer 2' }, { code: 'SHELF-A', name: 'Shelf A' }]);
+    const { rows } = await db.query('SELECT COUNT(*) AS count FROM parts WHERE location IS NOT NULL');
+    expect(rows[0].count).toBe(0);
+  });
+
+  it('should count only the stock held at the chosen location', async() => {
+    const lab = await stockLocationService.createLocation({ code: 'LAB', name: 'Lab', location_type: 'room' });
+    await db.run('UPDATE parts SET stock_quantity = 7 WHERE part_id = 101');
+    await stockLocationService.changeLocationQuantity(101, lab.location_id, 2);
+    const shelf = await stockLocationService.findOrCreateLocation('SHELF-A');
+
+    const stocktake = await stocktakeService.createStocktake({ scope: 'parts', location_id: shelf.location_id });
+
+    expect(stocktake.location).toBe('Shelf A');
+    expect(stocktake.lines.map((line) => [line.part_id, line.location_code, line.expected_quantity]))
+      .toEqual([[101, 'SHELF-A', 5], [102, 'SHELF-A', 3]]);
+  });
+
+  it('should post a count onto the stock at its location', async() => {
+    const { stocktakes } = await stocktakeService.listStocktakes();
+    const stocktakeId = stocktakes[0].stocktake_id;
+
+    await stocktakeService.recordCounts(stocktakeId, [{ code: 'P-101', counted_quantity: 4 }, { code: 'P-102', counted_quantity: 3 }]);
+    await stocktakeService.submitStocktake(stocktakeId);
+    await stocktakeService.reviewLines(stocktakeId, { approved: true });
+    await stocktakeService.postStocktake(stocktakeId, 1);
+
+    expect(await stockAt(101)).toEqual([{ code: 'LAB', quantity: 2 }, { code: 'SHELF-A', quantity: 4 }]);
+    const { rows } = await db.query('SELECT stock_quantity FROM parts WHERE part_id = 101');
+    expect(rows[0].stock_quantity).toBe(6);
+  });
+});
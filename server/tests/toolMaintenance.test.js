@@ -0,0 +1,70 @@
+/**
+ * Tool Maintenance Test Suite
+ *
+ * Tests for tool maintenance plans and availability:
+ * - Plans due by days, by uses, or whichever comes first
+ * - Next maintenance date over several plans
+ * - Availability for an order (checked out, overdue, out of service)
+ */
+
+const { planStatus, nextDueDate, toolAvailability } = require('../utils/toolMaintenance');
+
+const today = new Date('2026-03-15T10:00:00Z');
+
+describe('Tool Maintenance Tests', () => {
+  describe('planStatus', () => {
+    it('should fall due interval_days after the last maintenance', () => {
+      const plan = { interval_days: 30, last_performed_at: '2026-02-20' };
+      expect(planStatus(plan, { today })).toMatchObject({
+        due_date: '2026-03-22', days_remaining: 7, is_overdue: false, is_due_soon: true, uses_remaining: null,
+      });
+      expect(planStatus({ ...plan, last_performed_at: '2026-02-01' }, { today })).toMatchObject({
+        due_date: '2026-03-03', days_remaining: -12, is_overdue: true,
+      });
+    });
+
+    it('should count uses since the last maintenance and take whichever interval comes first', () => {
+      const plan = { interval_days: 90, interval_uses: 10, last_performed_at: '2026-03-01', use_count_at_service: 4 };
+      expect(planStatus(plan, { useCount: 10, today })).toMatchObject({
+        uses_since_service: 6, uses_remaining: 4, is_overdue: false, is_due_soon: false,
+      });
+      expect(planStatus(plan, { useCount: 14, today })).toMatchObject({ uses_remaining: 0, is_overdue: true });
+    });
+
+    it('should count a plan never performed from when it was created', () => {
+      expect(planStatus({ interval_days: 10, created_at: '2026-03-01 08:00:00' }, { today }).due_date).toBe('2026-03-11');
+    });
+  });
+
+  describe('nextDueDate', () => {
+    it('should return the earliest due date, ignoring use-only plans', () => {
+      expect(nextDueDate([{ due_date: '2026-05-01' }, { due_date: null }, { due_date: '2026-04-01' }])).toBe('2026-04-01');
+      expect(nextDueDate([{ due_date: null }])).toBeNull();
+    });
+  });
+
+  describe('toolAvailability', () => {
+    const tool = { tool_id: 1, condition_status: 'good', active: 1 };
+
+    it('should be available when not checked out, not overdue and in service', () => {
+      expect(toolAvailability(tool)).toEqual({ status: 'available', available: true, reason: null });
+    });
+
+    it('should count a check-out to the same order as available and any other as not', () => {
+      const checkout = { order_id: 7, order_number: 'ORD-7' };
+      expect(toolAvailability(tool, { checkout, orderId: 7 })).toMatchObject({ status: 'checked_out_to_order', available: true });
+      expect(toolAvailability(tool, { checkout, orderId: 8 })).toMatchObject({
+        status: 'checked_out', available: false, reason: 'Checked out to order ORD-7',
+      });
+      expect(toolAvailability(tool, { checkout: { order_id: null, workshop: 'Robotics club' } }).reason)
+        .toBe('Checked out to Robotics club');
+    });
+
+    it('should block tools overdue for maintenance or out of service', () => {
+      expect(toolAvailability(tool, { overduePlans: [{ name: 'Blade check' }] })).toMatchObject({
+        status: 'maintenance_overdue', available: false, reason: 'Maintenance overdue: Blade check',
+      });
+      expect(toolAvailability({ ...tool, condition_status: 'needs_repair' })).toMatchObject({ status: 'out_of_service', available: false });
+    });
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * VAT Engine Test Suite
+ *
+ * Tests for EU VAT treatment and per-rate breakdowns:
+ * - Domestic, distance sale, reverse charge, exempt and export
+ * - VAT ID format validation
+ * - Rounding of mixed-rate invoices
+ */
+
+const {
+  countryToCode,
+  validateVatId,
+  determineTreatment,
+  summarizeVat,
+  calculateVat
+} = require('../utils/vatEngine');
+
+describe('VAT Engine Tests', () => {
+  describe('countryToCode', () => {
+    it('should map country names and codes to ISO codes', () => {
+      expect(countryToCode('Estonia')).toBe('EE');
+      expect(countryToCode('fi')).toBe('FI');
+      expect(countryToCode('EL')).toBe('GR');
+      expect(countryToCode('')).toBeNull();
+    });
+  });
+
+  describe('validateVatId', () => {
+    it('should accept and normalise valid VAT IDs', () => {
+      expect(validateVatId('fi 1234-5678')).toEqual({ valid: true, vatId: 'FI12345678', country: 'FI' });
+      expect(validateVatId('EL123456789').country).toBe('GR');
+    });
+
+    it('should reject malformed VAT IDs', () => {
+      expect(validateVatId('FI1234').valid).toBe(false);
+      expect(validateVatId('XX123456789').valid).toBe(false);
+    });
+  });
+
+  describe('determineTreatment', () => {
+    it('should choose the treatment from customer country, VAT ID and type', () => {
+      const base = { sellerCountry: 'EE' };
+      expect(determineTreatment({ ...base, customerCountry: 'Estonia' }).treatment).toBe('domestic');
+      expect(determineTreatment({ ...base, customerCountry: 'Finland' }).treatment).toBe('distance_sale');
+      expect(determineTreatment({ ...base, customerCountry: 'Finland', customerVatId: 'FI12345678' }).treatment)
+        .toBe('reverse_charge');
+      expect(determineTreatment({ ...base, customerCountry: 'Norway' }).treatment).toBe('export');
+      expect(determineTreatment({ ...base, customerCountry: 'Estonia', customerType: 'education' }).treatment)
+        .toBe('exempt');
+    });
+
+    it('should not apply reverse charge for a domestic VAT ID or an invalid one', () => {
+      expect(determineTreatment({ sellerCountry: 'EE', customerCountry: 'EE', customerVatId: 'EE123456789' }).treatment)
+        .toBe('domestic');
+      expect(determineTreatment({ sellerCountry: 'EE', customerCountry: 'FI', customerVatId: 'FI1' }).treatment)
+        .toBe('distance_sale');
+    });
+  });
+
+  describe('summarizeVat', () => {
+    it('should break down negative (credit note) lines per rate', () => {
+      const result = summarizeVat([
+        { total: -124, vatRate: 24 },
+        { total: -5, vatRate: 9 }
+      ]);
+      expect(result.breakdown).toEqual([
+        { rate: 24, net: -100, vat: -24, gross: -124 },
+        { rate: 9, net: -4.59, vat: -0.41, gross: -5 }
+      ]);
+      expect(result.gross).toBe(-129);
+    });
+  });
+
+  describe('calculateVat', () => {
+    it('should split VAT-inclusive lines per rate', () => {
+      const result = calculateVat(
+        [{ total: 124 }, { total: 10.9, vatCategory: 'reduced' }],
+        { sellerCountry: 'EE', customerCountry: 'EE' }
+      );
+
+      expect(result.breakdown).toEqual([
+        { rate: 24, net: 100, vat: 24, gross: 124 },
+        { rate: 9, net: 10, vat: 0.9, gross: 10.9 }
+      ]);
+      expect(result.net).toBe(110);
+      expect(result.vat).toBe(24.9);
+      expect(result.gross).toBe(134.9);
+    });
+
+    it('should use the customer country rate for distance sales', () => {
+      const result = calculateVat([{ total: 125.5 }], { sellerCountry: 'EE', customerCountry: 'Finland' });
+      expect(result.lines[0].vatRate).toBe(25.5);
+      expect(result.net).toBe(100);
+    });
+
+    it('should carry no VAT for zero-rated treatments', () => {
+      const result = calculateVat(
+        [{ total: 100 }],
+        { sellerCountry: 'EE', customerCountry: 'FI', customerVatId: 'FI12345678' }
+      );
+      expect(result.treatment).toBe('reverse_charge');
+      expect(result.vat).toBe(0);
+      expect(result.gross).toBe(100);
+    });
+
+    it('should apply rate overrides', () => {
+      const result = calculateVat(
+        [{ total: 122 }],
+        { sellerCountry: 'EE', customerCountry: 'EE', rateOverrides: { EE: { standard: 22 } } }
+      );
+      expect(result.breakdown).toEqual([{ rate: 22, net: 100, vat: 22, gross: 122 }]);
+    });
+
+    it('should keep the breakdown consistent with the gross total', () => {
+      const lines = [{ total: 0.1 }, { total: 0.2 }, { total: 19.99 }, { total: 3.33, vatCategory: 'reduced' }];
+      const result = calculateVat(lines, { sellerCountry: 'EE', customerCountry: 'EE' });
+      expect(result.gross).toBe(23.62);
+      result.breakdown.forEach((row) => {
+        expect(Math.round((row.net + row.vat) * 100) / 100).toBe(row.gross);
+      });
+    });
+  });
+});
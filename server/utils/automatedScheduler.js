@@ -4,6 +4,10 @@ const path = require('path');
 const PDFGenerator = require('./pdfGenerator');
 const NotificationService = require('./notificationService');
 const AIMotivationAssistant = require('./aiMotivationAssistant');
+const providerPayoutService = require('../services/providerPayoutService');
+const systemSettingsService = require('../services/systemSettingsService');
+const stockReservationService = require('../services/stockReservationService');
+const toolMaintenanceService = require('../services/toolMaintenanceService');
 
 // Initialize database connection
 const dbPath = path.join(__dirname, '..', 'database', 'makerset.db');
@@ -45,10 +49,38 @@ class AutomatedScheduler {
       timezone: "Europe/Helsinki"
     });
 
+    // Schedule nightly backup of the database and uploads, then apply the retention policy
+    cron.schedule('0 3 * * *', () => {
+      console.log('💾 Nightly backup triggered by cron');
+      this.runScheduledBackup();
+    }, {
+      scheduled: true,
+      timezone: "Europe/Helsinki"
+    });
+
+    // Release cart stock holds that have run out, every 5 minutes
+    cron.schedule('*/5 * * * *', () => {
+      this.releaseExpiredReservations();
+    }, {
+      scheduled: true,
+      timezone: 'Europe/Helsinki'
+    });
+
+    // Notify about tools that became overdue for maintenance, every morning at 7:00 AM
+    cron.schedule('0 7 * * *', () => {
+      this.checkToolMaintenance();
+    }, {
+      scheduled: true,
+      timezone: 'Europe/Helsinki'
+    });
+
     this.isRunning = true;
     console.log('✅ Automated scheduler started successfully');
     console.log('📅 Monthly reports will be generated on the 1st of each month at 9:00 AM');
     console.log('🧹 Daily cleanup will run at 2:00 AM');
+    console.log('💾 Nightly backup will run at 3:00 AM');
+    console.log('🛒 Expired cart reservations will be released every 5 minutes');
+    console.log('🔧 Tool maintenance will be checked daily at 7:00 AM');
   }
 
   // Stop the automated scheduler
@@ -81,6 +113,14 @@ class AutomatedScheduler {
       // Save report to database
       const reportId = await this.saveMonthlyReport(reportData);
       
+      // Prepare the SEPA payout batch; an admin approves it before the file is generated
+      try {
+        const batch = await providerPayoutService.createDraftBatch(year, previousMonth);
+        console.log(`💶 Draft payout batch ${batch.batch_reference} created`);
+      } catch (error) {
+        console.error('⚠️ Could not create payout batch:', error.message);
+      }
+      
       // Generate PDFs for each provider
       await this.generateProviderPDFs(reportData, reportId);
       
@@ -284,6 +324,62 @@ class AutomatedScheduler {
     });
   }
 
+  // Nightly backup (unless disabled by backup_schedule_enabled), then prune old backups
+  async runScheduledBackup() {
+    try {
+      const settings = await systemSettingsService.getSettings();
+      if (settings.backup_schedule_enabled) {
+        const backup = await systemSettingsService.createBackup('Automated Backup', 'automated');
+        console.log(`💾 Backup ${backup.fileName} created (${backup.fileSize} bytes)`);
+      }
+    } catch (error) {
+      console.error('❌ Error creating scheduled backup:', error);
+      await this.notificationService.createNotification(
+        'system_error',
+        'Scheduled Backup Failed',
+        `Failed to create the nightly backup: ${error.message}`,
+        { error: error.message, timestamp: new Date().toISOString() },
+        null,
+        'high'
+      );
+    }
+
+    try {
+      const result = await systemSettingsService.pruneBackups();
+      console.log(`🧹 Pruned ${result.pruned.length} old backups, ${result.kept} kept`);
+    } catch (error) {
+      console.error('❌ Error pruning backups:', error);
+    }
+  }
+
+  // Mark cart reservations past their expiry as expired (they already stopped holding stock)
+  async releaseExpiredReservations() {
+    try {
+      const released = await stockReservationService.releaseExpired();
+      if (released > 0) {
+        console.log(`🛒 Released ${released} expired cart reservations`);
+      }
+      return released;
+    } catch (error) {
+      console.error('❌ Error releasing expired reservations:', error);
+      return 0;
+    }
+  }
+
+  // Notify admins about tools overdue for maintenance (each plan once until it is logged)
+  async checkToolMaintenance() {
+    try {
+      const notified = await toolMaintenanceService.notifyOverdue();
+      if (notified > 0) {
+        console.log(`🔧 ${notified} tools overdue for maintenance`);
+      }
+      return notified;
+    } catch (error) {
+      console.error('❌ Error checking tool maintenance:', error);
+      return 0;
+    }
+  }
+
   // Notify providers about their monthly reports
   async notifyProvidersAboutReports(reportData, reportId) {
     for (const provider of reportData.providers) {
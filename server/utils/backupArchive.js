@@ -0,0 +1,177 @@
+/**
+ * Backup archives
+ *
+ * A backup is a gzip-compressed tar of a staging directory holding:
+ * - manifest.json: format version, creation time and a sha256 + size for
+ *   every file in the archive
+ * - database.sqlite: consistent snapshot of the SQLite database
+ * - uploads/: copy of the media folder
+ *
+ * The sha256 of the archive itself is stored with the backup record; the
+ * manifest lets a restore check every extracted file before anything live is
+ * replaced.
+ */
+
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+const { execFile } = require('child_process');
+const { promisify } = require('util');
+
+const execFileAsync = promisify(execFile);
+
+const BACKUP_FORMAT = 'makerset-backup';
+const BACKUP_FORMAT_VERSION = 1;
+const MANIFEST_FILE = 'manifest.json';
+const DATABASE_FILE = 'database.sqlite';
+const UPLOADS_FOLDER = 'uploads';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Hex sha256 of a file, streamed so large archives are not read into memory. */
+function sha256File(filePath) {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fs.createReadStream(filePath)
+      .on('error', reject)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')));
+  });
+}
+
+/** Files below dir as sorted '/'-separated relative paths ([] if dir is missing). */
+async function listFiles(dir, prefix = '') {
+  let entries;
+  try {
+    entries = await fs.promises.readdir(path.join(dir, prefix), { withFileTypes: true });
+  } catch (error) {
+    if (error.code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+  const files = [];
+  for (const entry of entries) {
+    const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...(await listFiles(dir, relative)));
+    } else if (entry.isFile()) {
+      files.push(relative);
+    }
+  }
+  return files.sort();
+}
+
+async function describeFile(rootDir, relativePath) {
+  const filePath = path.join(rootDir, ...relativePath.split('/'));
+  const stats = await fs.promises.stat(filePath);
+  return { path: relativePath, size: stats.size, sha256: await sha256File(filePath) };
+}
+
+/**
+ * Manifest for a staging directory that already holds database.sqlite and
+ * uploads/. `meta` (backup name, type, ...) is copied in as-is.
+ */
+async function buildManifest(rootDir, meta = {}) {
+  const database = await describeFile(rootDir, DATABASE_FILE);
+  const uploads = [];
+  for (const file of await listFiles(path.join(rootDir, UPLOADS_FOLDER))) {
+    uploads.push(await describeFile(rootDir, `${UPLOADS_FOLDER}/${file}`));
+  }
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_FORMAT_VERSION,
+    created_at: new Date().toISOString(),
+    ...meta,
+    database,
+    uploads,
+  };
+}
+
+/**
+ * Compare an extracted backup against its manifest.
+ * @returns {string[]} one message per problem (empty when the backup is intact)
+ */
+async function verifyManifest(manifest, rootDir) {
+  if (!manifest || manifest.format !== BACKUP_FORMAT) {
+    return ['Not a MakerSet backup archive'];
+  }
+  if (manifest.version > BACKUP_FORMAT_VERSION) {
+    return [`Backup format version ${manifest.version} is newer than this server supports`];
+  }
+
+  const problems = [];
+  const expected = [manifest.database, ...(manifest.uploads || [])];
+  for (const file of expected) {
+    let actual;
+    try {
+      actual = await describeFile(rootDir, file.path);
+    } catch (error) {
+      problems.push(`${file.path} is missing`);
+      continue;
+    }
+    if (actual.size !== file.size || actual.sha256 !== file.sha256) {
+      problems.push(`${file.path} does not match its checksum`);
+    }
+  }
+
+  const listed = new Set((manifest.uploads || []).map((file) => file.path));
+  (await listFiles(path.join(rootDir, UPLOADS_FOLDER)))
+    .map((file) => `${UPLOADS_FOLDER}/${file}`)
+    .filter((file) => !listed.has(file))
+    .forEach((file) => problems.push(`${file} is not listed in the manifest`));
+
+  return problems;
+}
+
+/** tar.gz the contents of rootDir into archivePath. */
+async function createArchive(rootDir, archivePath) {
+  await execFileAsync('tar', ['-czf', archivePath, '-C', rootDir, '.']);
+  return archivePath;
+}
+
+/** Unpack archivePath into targetDir (which must exist). */
+async function extractArchive(archivePath, targetDir) {
+  await execFileAsync('tar', ['-xzf', archivePath, '-C', targetDir]);
+  return targetDir;
+}
+
+// SQLite datetime('now') is UTC without a zone designator
+function timestampMs(value) {
+  const text = String(value);
+  return new Date(/^\d{4}-\d\d-\d\d \d\d:\d\d:\d\d$/.test(text) ? `${text.replace(' ', 'T')}Z` : text).getTime();
+}
+
+/**
+ * Backups the retention policy removes. The newest `keepCount` completed
+ * backups are kept unless they are older than `keepDays` (0 = no age limit);
+ * the newest completed backup is always kept. Failed backups are removed once
+ * they fall outside the age limit (or straight away when it is 0).
+ * @param {Array<{id, status, created_at}>} backups
+ */
+function backupsToPrune(backups, { keepCount, keepDays = 0, now = new Date() }) {
+  const cutoff = keepDays > 0 ? now.getTime() - keepDays * DAY_MS : null;
+  const createdAt = (backup) => timestampMs(backup.created_at);
+  const isOld = (backup) => cutoff !== null && createdAt(backup) < cutoff;
+
+  const newestFirst = [...backups].sort((a, b) => createdAt(b) - createdAt(a) || b.id - a.id);
+  const completed = newestFirst.filter((backup) => backup.status === 'completed');
+
+  const prune = completed.filter((backup, index) => index > 0 && (index >= keepCount || isOld(backup)));
+  newestFirst
+    .filter((backup) => backup.status === 'failed' && (cutoff === null || isOld(backup)))
+    .forEach((backup) => prune.push(backup));
+  return prune;
+}
+
+module.exports = {
+  MANIFEST_FILE,
+  DATABASE_FILE,
+  UPLOADS_FOLDER,
+  sha256File,
+  listFiles,
+  buildManifest,
+  verifyManifest,
+  createArchive,
+  extractArchive,
+  backupsToPrune,
+};
@@ -0,0 +1,376 @@
+/**
+ * Bank Statement Parser
+ *
+ * Turns uploaded bank statements into a flat list of transactions:
+ * - ISO 20022 camt.053 (BkToCstmrStmt) XML, any schema version
+ * - CSV exports of the banks our customers pay from (Swedbank, SEB, LHV,
+ *   Nordea, OP) and generic CSV with English headers
+ *
+ * Every transaction has the same shape regardless of the source:
+ * { bookingDate, amount, currency, direction, counterpartyName,
+ *   counterpartyAccount, reference, description, bankReference }
+ * `amount` is always positive; `direction` is 'credit' (incoming) or 'debit'.
+ */
+
+// ---------------------------------------------------------------------------
+// Shared value parsing
+// ---------------------------------------------------------------------------
+
+function roundMoney(value) {
+  return Math.round((Number(value) || 0) * 100) / 100;
+}
+
+/** Parse "1 234,56", "1,234.56", "-12.30" or "12,30" into a number (NaN when not a number). */
+function parseAmount(value) {
+  if (value === undefined || value === null) {
+    return NaN;
+  }
+  let text = String(value).replace(/[\s'€]/g, '');
+  if (!text) {
+    return NaN;
+  }
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+  if (lastComma > -1 && lastDot > -1) {
+    // Whichever separator comes last is the decimal one
+    text = lastComma > lastDot
+      ? text.replace(/\./g, '').replace(',', '.')
+      : text.replace(/,/g, '');
+  } else if (lastComma > -1) {
+    text = text.replace(',', '.');
+  }
+  return /^[+-]?\d+(\.\d+)?$/.test(text) ? Number(text) : NaN;
+}
+
+/** Parse YYYY-MM-DD, DD.MM.YYYY, DD/MM/YYYY or YYYYMMDD (optionally with a time) into YYYY-MM-DD. */
+function parseDate(value) {
+  const text = String(value || '').trim();
+  let match = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (match) {
+    return `${match[1]}-${match[2]}-${match[3]}`;
+  }
+  match = text.match(/^(\d{1,2})[./-](\d{1,2})[./-](\d{4})/);
+  if (match) {
+    return `${match[3]}-${match[2].padStart(2, '0')}-${match[1].padStart(2, '0')}`;
+  }
+  match = text.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (match) {
+    return `${match[1]}-${match[2]}-${match[3]}`;
+  }
+  return null;
+}
+
+function parseDirection(value) {
+  const text = String(value || '').trim().toUpperCase();
+  if (['C', 'K', 'CR', 'CRDT', 'CREDIT', 'KREEDIT'].includes(text)) {
+    return 'credit';
+  }
+  if (['D', 'DR', 'DBIT', 'DEBIT', 'DEEBET'].includes(text)) {
+    return 'debit';
+  }
+  return null;
+}
+
+function clean(value) {
+  return String(value || '').replace(/\s+/g, ' ').trim();
+}
+
+// ---------------------------------------------------------------------------
+// camt.053
+// ---------------------------------------------------------------------------
+
+const XML_ENTITIES = { amp: '&', lt: '<', gt: '>', quot: '"', apos: '\'' };
+
+function decodeEntities(text) {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) ? String.fromCodePoint(point) : entity;
+    }
+    return XML_ENTITIES[code] !== undefined ? XML_ENTITIES[code] : entity;
+  });
+}
+
+/**
+ * Minimal XML reader for bank statements: elements, attributes and text.
+ * Namespace prefixes are dropped so camt.053.001.02 and .08 read the same.
+ */
+function parseXml(xml) {
+  const root = { name: '#document', attrs: {}, children: [], text: '' };
+  const stack = [root];
+  const tokens = /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<\/\s*([^\s>]+)\s*>|<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+  let token;
+
+  while ((token = tokens.exec(xml)) !== null) {
+    const current = stack[stack.length - 1];
+    const [, cdata, closing, opening, attrText, selfClosing, text] = token;
+    if (cdata !== undefined) {
+      current.text += cdata;
+    } else if (closing) {
+      const name = closing.replace(/^.*:/, '');
+      if (stack.length > 1 && current.name === name) {
+        stack.pop();
+      } else {
+        throw new Error(`Malformed XML: unexpected </${closing}>`);
+      }
+    } else if (opening) {
+      const node = { name: opening.replace(/^.*:/, ''), attrs: {}, children: [], text: '' };
+      (attrText || '').replace(/([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g, (all, key, dq, sq) => {
+        node.attrs[key.replace(/^.*:/, '')] = decodeEntities(dq !== undefined ? dq : sq);
+        return all;
+      });
+      current.children.push(node);
+      if (!selfClosing) {
+        stack.push(node);
+      }
+    } else if (text !== undefined) {
+      current.text += decodeEntities(text);
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Malformed XML: <${stack[stack.length - 1].name}> is not closed`);
+  }
+  return root;
+}
+
+/** All descendants reached by a slash-separated path of element names. */
+function findAll(node, path) {
+  return path.split('/').reduce(
+    (nodes, name) => nodes.flatMap((candidate) => candidate.children.filter((child) => child.name === name)),
+    node ? [node] : []
+  );
+}
+
+function find(node, path) {
+  return findAll(node, path)[0] || null;
+}
+
+function textAt(node, ...paths) {
+  for (const path of paths) {
+    const found = find(node, path);
+    if (found && found.text.trim()) {
+      return found.text.trim();
+    }
+  }
+  return '';
+}
+
+function camtTransaction(entry, details, entryAmount) {
+  const txAmount = find(details, 'Amt') || find(details, 'AmtDtls/TxAmt/Amt');
+  const amountNode = txAmount || find(entry, 'Amt');
+  const amount = txAmount ? parseAmount(txAmount.text) : entryAmount;
+  const direction = parseDirection(textAt(details, 'CdtDbtInd') || textAt(entry, 'CdtDbtInd'));
+  // For incoming payments the counterparty is the debtor, for outgoing ones the creditor
+  const party = direction === 'debit' ? 'Cdtr' : 'Dbtr';
+  const unstructured = findAll(details, 'RmtInf/Ustrd').map((node) => node.text.trim()).filter(Boolean);
+
+  return {
+    bookingDate: parseDate(textAt(entry, 'BookgDt/Dt', 'BookgDt/DtTm', 'ValDt/Dt', 'ValDt/DtTm')),
+    amount: roundMoney(amount),
+    currency: (amountNode && amountNode.attrs.Ccy) || 'EUR',
+    direction,
+    counterpartyName: clean(textAt(details, `RltdPties/${party}/Nm`, `RltdPties/${party}/Pty/Nm`)),
+    counterpartyAccount: clean(textAt(details, `RltdPties/${party}Acct/Id/IBAN`, `RltdPties/${party}Acct/Id/Othr/Id`)),
+    reference: clean(textAt(details, 'RmtInf/Strd/CdtrRefInf/Ref', 'Refs/EndToEndId')).replace(/^NOTPROVIDED$/i, ''),
+    description: clean(unstructured.join(' ') || textAt(entry, 'AddtlNtryInf')),
+    bankReference: clean(textAt(details, 'Refs/AcctSvcrRef') || textAt(entry, 'AcctSvcrRef', 'NtryRef')),
+  };
+}
+
+function parseCamt053(xml) {
+  const document = parseXml(xml);
+  const statements = findAll(document, 'Document/BkToCstmrStmt/Stmt');
+  if (statements.length === 0) {
+    throw new Error('Not a camt.053 statement: BkToCstmrStmt/Stmt not found');
+  }
+
+  const transactions = [];
+  let skipped = 0;
+  for (const statement of statements) {
+    for (const entry of findAll(statement, 'Ntry')) {
+      const status = textAt(entry, 'Sts', 'Sts/Cd');
+      if (status && !['BOOK', 'BOOKED'].includes(status.toUpperCase())) {
+        skipped++;
+        continue;
+      }
+      const entryAmount = parseAmount(textAt(entry, 'Amt'));
+      // Batch bookings list each underlying payment as its own TxDtls
+      const details = findAll(entry, 'NtryDtls/TxDtls');
+      if (details.length === 0) {
+        transactions.push(camtTransaction(entry, null, entryAmount));
+      } else {
+        details.forEach((detail) => transactions.push(camtTransaction(entry, detail, entryAmount)));
+      }
+    }
+  }
+
+  const first = statements[0];
+  return {
+    format: 'camt.053',
+    statementId: textAt(first, 'Id') || null,
+    account: textAt(first, 'Acct/Id/IBAN', 'Acct/Id/Othr/Id') || null,
+    transactions: transactions.filter((tx) => tx.bookingDate && tx.amount > 0 && tx.direction),
+    skipped,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+/** Header names per field, compared lowercased with collapsed whitespace. */
+const CSV_COLUMNS = {
+  bookingDate: ['date', 'booking date', 'transaction date', 'transaction_date', 'payment_date', 'value date',
+    'kuupäev', 'kirjauspäivä', 'maksupäivä', 'arvopäivä', 'дата'],
+  amount: ['amount', 'sum', 'value', 'summa', 'määrä', 'määrä euroa', 'сумма'],
+  direction: ['deebet/kreedit', 'deebet/kreedit (d/c)', 'd/c', 'c/d', 'debit/credit', 'cdtdbtind'],
+  currency: ['currency', 'valuuta', 'valuutta', 'валюта'],
+  counterpartyName: ['saaja/maksja', 'saaja/maksja nimi', 'saaja/maksaja', 'maksaja', 'nimi', 'name', 'payer',
+    'payer name', 'counterparty', 'counterparty name', 'customer_name', 'remitter'],
+  counterpartyAccount: ['saaja/maksja konto', 'saajan tilinumero', 'maksajan tilinumero', 'iban', 'account',
+    'counterparty account', 'payer account'],
+  reference: ['reference', 'ref', 'payment_reference', 'reference number', 'viitenumber', 'viitenumero', 'viite'],
+  description: ['description', 'memo', 'note', 'message', 'details', 'selgitus', 'viesti', 'selitys', 'otsikko',
+    'назначение'],
+  bankReference: ['arhiveerimistunnus', 'arkistointitunnus', 'archive id', 'transaction id', 'bank reference', 'id'],
+  rowType: ['reatüüp'],
+};
+
+/** Swedbank exports balances and turnovers as rows too; only type 20 rows are transactions. */
+const SWEDBANK_TRANSACTION_ROW = '20';
+
+function detectDelimiter(headerLine) {
+  const counts = [';', ',', '\t'].map((delimiter) => ({
+    delimiter,
+    count: headerLine.split(delimiter).length - 1,
+  }));
+  counts.sort((a, b) => b.count - a.count);
+  return counts[0].count > 0 ? counts[0].delimiter : ',';
+}
+
+/** RFC 4180 rows: quoted fields may contain delimiters, doubled quotes and line breaks. */
+function parseCsvRows(text, delimiter) {
+  const rows = [];
+  let row = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+function parseBankCsv(text) {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const rows = parseCsvRows(text, detectDelimiter(firstLine));
+  if (rows.length === 0) {
+    throw new Error('The CSV file is empty');
+  }
+
+  const headers = rows[0].map((header) => header.trim().toLowerCase().replace(/\s+/g, ' '));
+  const columns = {};
+  Object.entries(CSV_COLUMNS).forEach(([field, aliases]) => {
+    const index = headers.findIndex((header) => aliases.includes(header));
+    if (index > -1) {
+      columns[field] = index;
+    }
+  });
+  if (columns.bookingDate === undefined || columns.amount === undefined) {
+    throw new Error('Unrecognised CSV format: a date and an amount column are required');
+  }
+
+  const cell = (cells, field) => (columns[field] === undefined ? '' : clean(cells[columns[field]]));
+  const transactions = [];
+  let skipped = 0;
+
+  rows.slice(1).forEach((cells) => {
+    const rowType = cell(cells, 'rowType');
+    const bookingDate = parseDate(cell(cells, 'bookingDate'));
+    const signedAmount = parseAmount(cell(cells, 'amount'));
+    if ((rowType && rowType !== SWEDBANK_TRANSACTION_ROW) || !bookingDate || !Number.isFinite(signedAmount)) {
+      skipped++;
+      return;
+    }
+    transactions.push({
+      bookingDate,
+      amount: roundMoney(Math.abs(signedAmount)),
+      currency: cell(cells, 'currency') || 'EUR',
+      direction: parseDirection(cell(cells, 'direction')) || (signedAmount < 0 ? 'debit' : 'credit'),
+      counterpartyName: cell(cells, 'counterpartyName'),
+      counterpartyAccount: cell(cells, 'counterpartyAccount'),
+      reference: cell(cells, 'reference'),
+      description: cell(cells, 'description'),
+      bankReference: cell(cells, 'bankReference'),
+    });
+  });
+
+  return {
+    format: 'csv',
+    statementId: null,
+    account: null,
+    transactions: transactions.filter((tx) => tx.amount > 0),
+    skipped,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Entry point
+// ---------------------------------------------------------------------------
+
+/** Bank exports are UTF-8 or, from older online banks, Latin-1/Windows-1257. */
+function decodeStatement(buffer) {
+  const utf8 = buffer.toString('utf8');
+  const text = utf8.includes('\uFFFD') ? buffer.toString('latin1') : utf8;
+  return text.replace(/^\uFEFF/, '');
+}
+
+/**
+ * Parse an uploaded statement, detecting camt.053 XML vs CSV from its content.
+ *
+ * @param {Buffer|string} input - file contents
+ * @returns {{format: string, statementId: string|null, account: string|null, transactions: Array, skipped: number}}
+ */
+function parseBankStatement(input) {
+  const text = Buffer.isBuffer(input) ? decodeStatement(input) : String(input).replace(/^\uFEFF/, '');
+  return text.trimStart().startsWith('<') ? parseCamt053(text) : parseBankCsv(text);
+}
+
+module.exports = {
+  parseAmount,
+  parseDate,
+  parseXml,
+  parseCamt053,
+  parseBankCsv,
+  parseBankStatement,
+};
@@ -0,0 +1,73 @@
+/**
+ * Barcode
+ *
+ * Code 128 (code set B) symbols for part and tool numbers. The encoder only
+ * produces the bar pattern; labelRenderer draws it (and the QR codes) onto
+ * the printable label sheet. Scanners read code set B back as the plain
+ * text, so a scanned label arrives as the part_number or tool_number.
+ */
+
+// Bar/space widths (in modules) of the Code 128 symbol values 0-106
+const CODE128_PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112',
+];
+
+const START_B = 104;
+const STOP = 106;
+const QUIET_ZONE_MODULES = 10;
+
+/**
+ * Symbol values of `text` in code set B, including the start, checksum and
+ * stop symbols. Only printable ASCII (space to ~) can be encoded.
+ */
+function code128Values(text) {
+  const value = String(text === null || text === undefined ? '' : text);
+  if (value.length === 0) {
+    throw new Error('Nothing to encode');
+  }
+  const data = Array.from(value).map((char) => {
+    const code = char.charCodeAt(0);
+    if (code < 32 || code > 126) {
+      throw new Error(`Character "${char}" cannot be encoded in Code 128 set B`);
+    }
+    return code - 32;
+  });
+  const checksum = data.reduce((sum, symbol, index) => sum + symbol * (index + 1), START_B) % 103;
+  return [START_B, ...data, checksum, STOP];
+}
+
+/**
+ * Bars of the symbol for `text`, in module units with the quiet zone on
+ * both sides: { bars: [{ x, width }], width }.
+ */
+function code128Bars(text) {
+  const bars = [];
+  let x = QUIET_ZONE_MODULES;
+  code128Values(text).forEach((symbol) => {
+    Array.from(CODE128_PATTERNS[symbol]).forEach((digit, index) => {
+      const width = Number(digit);
+      // Patterns alternate bar, space, bar, ... starting with a bar
+      if (index % 2 === 0) {
+        bars.push({ x, width });
+      }
+      x += width;
+    });
+  });
+  return { bars, width: x + QUIET_ZONE_MODULES };
+}
+
+module.exports = {
+  CODE128_PATTERNS,
+  code128Values,
+  code128Bars,
+};
@@ -0,0 +1,243 @@
+/**
+ * Demand forecast
+ *
+ * Per-part demand model over monthly demand (order_items exploded through
+ * set_parts). Demand follows the school year (September to August): each
+ * calendar month gets a seasonal index, its demand relative to the average
+ * month of the same school year, shrunk towards a prior profile (all parts
+ * pooled) when a part has little history. The deseasonalized daily rate is
+ * exponentially smoothed into a level; forecasts are level x index per day,
+ * with intervals from the in-sample one-month-ahead errors (or Poisson noise
+ * when there are too few of them), widening with the square root of the
+ * horizon. A rolling-origin back-test measures how well the model would have
+ * forecast the last months against a naive six-month average.
+ */
+
+const DAYS_PER_MONTH = 365.25 / 12;
+const SCHOOL_YEAR_START_MONTH = 9;
+const DEFAULT_ALPHA = 0.3;
+// Months of evidence a seasonal index is worth before it outweighs the prior
+const DEFAULT_SHRINKAGE = 1;
+// z for a 90% two-sided interval
+const DEFAULT_Z = 1.645;
+const MIN_INDEX = 0.05;
+
+function round(value, places = 2) {
+  const factor = 10 ** places;
+  return Math.round((Number(value) || 0) * factor) / factor;
+}
+
+/** 'YYYY-MM' of a date, date string or month string. */
+function monthKey(value) {
+  if (typeof value === 'string' && /^\d{4}-\d{2}/.test(value)) {
+    return value.slice(0, 7);
+  }
+  return new Date(value).toISOString().slice(0, 7);
+}
+
+function addMonths(month, count) {
+  const [year, mon] = month.split('-').map(Number);
+  const date = new Date(Date.UTC(year, mon - 1 + count, 1));
+  return date.toISOString().slice(0, 7);
+}
+
+function daysInMonth(month) {
+  const [year, mon] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, mon, 0)).getUTCDate();
+}
+
+/** Calendar month number (1-12) of 'YYYY-MM'. */
+function monthNumber(month) {
+  return Number(month.slice(5, 7));
+}
+
+/** School year a month belongs to, e.g. '2025/26' for 2025-09 to 2026-08. */
+function schoolYearOf(month) {
+  const year = Number(month.slice(0, 4));
+  const start = monthNumber(month) >= SCHOOL_YEAR_START_MONTH ? year : year - 1;
+  return `${start}/${String((start + 1) % 100).padStart(2, '0')}`;
+}
+
+/** Where in the school year a calendar month (1-12) falls. */
+function schoolPhase(monthOfYear) {
+  if (monthOfYear === 7) {
+    return 'summer_break';
+  }
+  if (monthOfYear === 8 || monthOfYear === 9) {
+    return 'back_to_school';
+  }
+  if (monthOfYear === 6) {
+    return 'year_end';
+  }
+  return 'term';
+}
+
+/**
+ * Monthly demand from daily demand ([{ date: 'YYYY-MM-DD', quantity }]):
+ * [{ month, quantity, days }] from the first month with demand up to and
+ * including `lastMonth`, months without demand as 0.
+ */
+function monthlySeries(daily, lastMonth) {
+  const totals = new Map();
+  (daily || []).forEach((point) => {
+    const month = monthKey(point.date);
+    totals.set(month, (totals.get(month) || 0) + (Number(point.quantity) || 0));
+  });
+  const months = [...totals.keys()].filter((month) => month <= lastMonth).sort();
+  if (months.length === 0) {
+    return [];
+  }
+  const series = [];
+  for (let month = months[0]; month <= lastMonth; month = addMonths(month, 1)) {
+    series.push({ month, quantity: totals.get(month) || 0, days: daysInMonth(month) });
+  }
+  return series;
+}
+
+/**
+ * Seasonal index per calendar month (array of 12, January first, mean 1):
+ * each month's daily rate relative to its school year's average, averaged
+ * over the years and shrunk towards `prior` (default flat).
+ */
+function seasonalIndices(series, { prior = null, shrinkage = DEFAULT_SHRINKAGE } = {}) {
+  const byYear = new Map();
+  (series || []).forEach((point) => {
+    const year = schoolYearOf(point.month);
+    if (!byYear.has(year)) {
+      byYear.set(year, []);
+    }
+    byYear.get(year).push(point);
+  });
+  const sums = new Array(12).fill(0);
+  const counts = new Array(12).fill(0);
+  byYear.forEach((points) => {
+    const mean = points.reduce((sum, point) => sum + point.quantity / point.days, 0) / points.length;
+    if (mean <= 0) {
+      return;
+    }
+    points.forEach((point) => {
+      const m = monthNumber(point.month) - 1;
+      sums[m] += point.quantity / point.days / mean;
+      counts[m] += 1;
+    });
+  });
+  const raw = sums.map((sum, m) => {
+    const priorIndex = prior ? prior[m] : 1;
+    return (sum + shrinkage * priorIndex) / (counts[m] + shrinkage);
+  });
+  const mean = raw.reduce((sum, value) => sum + value, 0) / 12;
+  return raw.map((value) => (mean > 0 ? value / mean : 1));
+}
+
+/**
+ * Fit the model to a monthly series. Returns { level (units per day),
+ * indices, sigma (one-month error, units), months, fitted_from } or null
+ * without history.
+ */
+function fitDemandModel(series, { prior = null, alpha = DEFAULT_ALPHA, shrinkage = DEFAULT_SHRINKAGE } = {}) {
+  if (!series || series.length === 0) {
+    return null;
+  }
+  const indices = seasonalIndices(series, { prior, shrinkage });
+  const indexOf = (point) => Math.max(indices[monthNumber(point.month) - 1], MIN_INDEX);
+  let level = null;
+  const errors = [];
+  series.forEach((point) => {
+    const rate = point.quantity / point.days / indexOf(point);
+    if (level === null) {
+      level = rate;
+      return;
+    }
+    errors.push(point.quantity - level * indexOf(point) * point.days);
+    level = alpha * rate + (1 - alpha) * level;
+  });
+  const poisson = Math.sqrt(Math.max(level, 0) * DAYS_PER_MONTH);
+  const sigma = errors.length >= 3
+    ? Math.max(Math.sqrt(errors.reduce((sum, error) => sum + error * error, 0) / errors.length), poisson)
+    : poisson;
+  return { level, indices, sigma, months: series.length, fitted_from: series[0].month };
+}
+
+/**
+ * Expected demand over `days` days starting `from`: { point, lower, upper }
+ * with a two-sided interval of z standard errors (lower never below 0).
+ */
+function forecastRange(model, from, days, { z = DEFAULT_Z } = {}) {
+  if (!model || days <= 0) {
+    return { point: 0, lower: 0, upper: 0 };
+  }
+  const start = new Date(`${String(from instanceof Date ? from.toISOString() : from).slice(0, 10)}T00:00:00Z`);
+  let point = 0;
+  for (let i = 0; i < days; i++) {
+    const day = new Date(start.getTime() + i * 86400000);
+    point += model.level * model.indices[day.getUTCMonth()];
+  }
+  const spread = z * model.sigma * Math.sqrt(days / DAYS_PER_MONTH);
+  return { point: round(point), lower: round(Math.max(point - spread, 0)), upper: round(point + spread) };
+}
+
+/** Forecast per calendar month for `count` months starting at `month`. */
+function forecastMonths(model, month, count, options = {}) {
+  const months = [];
+  for (let i = 0; i < count; i++) {
+    const current = addMonths(month, i);
+    months.push({
+      month: current,
+      school_phase: schoolPhase(monthNumber(current)),
+      ...forecastRange(model, `${current}-01`, daysInMonth(current), options),
+    });
+  }
+  return months;
+}
+
+/**
+ * Rolling-origin back-test: refit on the history before each of the last
+ * `holdout` months (given at least `minHistory` months) and forecast that
+ * month. Returns { months_tested, mae, mape, bias, interval_coverage,
+ * naive_mae, skill } or null when there is too little history. skill is
+ * 1 - mae / naive_mae (above 0: better than the six-month average).
+ */
+function backtest(series, { holdout = 6, minHistory = 6, ...options } = {}) {
+  const results = [];
+  for (let i = Math.max(minHistory, (series || []).length - holdout); i < (series || []).length; i++) {
+    const history = series.slice(0, i);
+    const actual = series[i];
+    const model = fitDemandModel(history, options);
+    const forecast = forecastRange(model, `${actual.month}-01`, actual.days, options);
+    const recent = history.slice(-6);
+    const naive = recent.reduce((sum, point) => sum + point.quantity / point.days, 0) / recent.length * actual.days;
+    results.push({ actual: actual.quantity, ...forecast, naive });
+  }
+  if (results.length === 0) {
+    return null;
+  }
+  const mean = (values) => values.reduce((sum, value) => sum + value, 0) / values.length;
+  const mae = mean(results.map((r) => Math.abs(r.point - r.actual)));
+  const naiveMae = mean(results.map((r) => Math.abs(r.naive - r.actual)));
+  const withDemand = results.filter((r) => r.actual > 0);
+  return {
+    months_tested: results.length,
+    mae: round(mae),
+    mape: withDemand.length > 0 ? round(mean(withDemand.map((r) => Math.abs(r.point - r.actual) / r.actual)) * 100, 1) : null,
+    bias: round(mean(results.map((r) => r.point - r.actual))),
+    interval_coverage: round(results.filter((r) => r.actual >= r.lower && r.actual <= r.upper).length / results.length, 2),
+    naive_mae: round(naiveMae),
+    skill: naiveMae > 0 ? round(1 - mae / naiveMae, 2) : null,
+  };
+}
+
+module.exports = {
+  DAYS_PER_MONTH,
+  DEFAULT_Z,
+  monthKey,
+  addMonths,
+  daysInMonth,
+  schoolYearOf,
+  schoolPhase,
+  monthlySeries,
+  seasonalIndices,
+  fitDemandModel,
+  forecastRange,
+  forecastMonths,
+  backtest,
+};
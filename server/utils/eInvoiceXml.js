@@ -0,0 +1,711 @@
+/**
+ * E-invoice XML
+ *
+ * Renders a stored invoice snapshot (see InvoiceService) as machine-readable
+ * e-invoices:
+ * - Estonian e-invoice standard 1.2 ("e-arve"), amounts with a decimal point
+ * - Finvoice 3.0, amounts with a decimal comma and CCYYMMDD dates
+ *
+ * Snapshot line totals include VAT; net amounts per line are derived from the
+ * line's VAT rate, while invoice totals and the per-rate VAT breakdown are
+ * taken from the snapshot as issued. Every document is checked against the
+ * format's schema rules before it is returned.
+ */
+
+const { xmlNode: node, serializeXml, validateXml } = require('./xmlSchema');
+const { countryToCode } = require('./vatEngine');
+
+const STANDARDS = ['e-invoice', 'finvoice'];
+
+// Finvoice VAT category codes per VAT treatment (see utils/vatEngine)
+const FINVOICE_VAT_CODES = {
+  domestic: 'S',
+  distance_sale: 'S',
+  reverse_charge: 'AE',
+  exempt: 'E',
+  export: 'G',
+};
+
+function roundMoney(value) {
+  return Math.round((Number(value) || 0) * 100) / 100;
+}
+
+function isCreditNote(invoice) {
+  return invoice.invoiceType === 'credit_note';
+}
+
+/**
+ * Best-effort split of a one-line address ("Street 1, Town, 10111, Estonia")
+ * into street, post code and town.
+ */
+function splitAddress(address) {
+  const parts = String(address || '').split(/[,\n]/).map((part) => part.trim()).filter(Boolean);
+  if (parts.length > 1 && countryToCode(parts[parts.length - 1])) {
+    parts.pop();
+  }
+  const street = parts.shift() || '';
+  let postCode = '';
+  let town = '';
+  parts.forEach((part) => {
+    const code = part.match(/\b\d{4,6}\b/);
+    if (code && !postCode) {
+      postCode = code[0];
+    }
+    const name = part.replace(/\b\d{4,6}\b/, '').replace(/\b[A-Z]{1,3}-?\s*$/, '').trim();
+    if (!town && /[^\W\d_]{2,}/.test(name)) {
+      town = name;
+    }
+  });
+  return { street, postCode, town };
+}
+
+/** Net and VAT per line, derived from the VAT-inclusive line total. */
+function lineAmounts(item) {
+  const rate = Number(item.vatRate) || 0;
+  const gross = roundMoney(item.total);
+  const net = roundMoney(gross / (1 + rate / 100));
+  const quantity = Number(item.quantity) || 1;
+  return {
+    rate,
+    quantity,
+    unitNet: roundMoney(net / quantity),
+    net,
+    vat: roundMoney(gross - net),
+    gross,
+  };
+}
+
+/** Per-rate VAT rows; invoices issued before the VAT engine carry only taxRate. */
+function vatBreakdown(invoice) {
+  if (invoice.vat && Array.isArray(invoice.vat.breakdown) && invoice.vat.breakdown.length > 0) {
+    return invoice.vat.breakdown;
+  }
+  return [{
+    rate: Number(invoice.taxRate) || 0,
+    net: roundMoney(invoice.subtotal),
+    vat: roundMoney(invoice.taxAmount),
+    gross: roundMoney(invoice.total),
+  }];
+}
+
+function partyName(party) {
+  return party.company || party.name || '';
+}
+
+/* ---------------------------- Estonian e-invoice ---------------------------- */
+
+const EE_DECIMAL = (name, extra = {}) => ({ name, type: 'decimal', ...extra });
+const EE_TEXT = (name, maxLength, extra = {}) => ({ name, maxLength, ...extra });
+
+const EE_ADDRESS = (name) => ({
+  name,
+  min: 0,
+  children: [
+    EE_TEXT('PostalAddress1', 100),
+    EE_TEXT('PostalAddress2', 100, { min: 0 }),
+    EE_TEXT('City', 35),
+    EE_TEXT('PostalCode', 20, { min: 0 }),
+    EE_TEXT('Country', 35, { min: 0 }),
+  ],
+});
+
+const EE_CONTACT = {
+  name: 'ContactData',
+  min: 0,
+  children: [
+    EE_TEXT('PhoneNumber', 35, { min: 0 }),
+    EE_TEXT('E-mailAddress', 100, { min: 0 }),
+    EE_ADDRESS('LegalAddress'),
+  ],
+};
+
+const EE_VAT = (lineLevel) => ({
+  name: 'VAT',
+  max: lineLevel ? 1 : Infinity,
+  attrs: { vatId: { required: true, values: ['TAX', 'NOTTAX'] } },
+  children: [
+    ...(lineLevel ? [] : [EE_DECIMAL('SumBeforeVAT')]),
+    EE_DECIMAL('VATRate'),
+    EE_DECIMAL('VATSum'),
+  ],
+});
+
+const E_INVOICE_SCHEMA = {
+  name: 'E_Invoice',
+  children: [
+    {
+      name: 'Header',
+      children: [
+        { name: 'Date', type: 'date' },
+        EE_TEXT('FileId', 20),
+        { name: 'Version', pattern: /^1\.2$/ },
+      ],
+    },
+    {
+      name: 'Invoice',
+      attrs: {
+        invoiceId: { required: true },
+        regNumber: {},
+        sellerRegnumber: { required: true },
+      },
+      children: [
+        {
+          name: 'InvoiceParties',
+          children: [
+            {
+              name: 'SellerParty',
+              children: [
+                EE_TEXT('Name', 100),
+                EE_TEXT('RegNumber', 20),
+                EE_TEXT('VATRegNumber', 20, { min: 0 }),
+                EE_CONTACT,
+                {
+                  name: 'AccountInfo',
+                  min: 0,
+                  children: [
+                    EE_TEXT('AccountNumber', 35),
+                    EE_TEXT('IBAN', 35, { min: 0, pattern: /^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/ }),
+                    EE_TEXT('BIC', 11, { min: 0, pattern: /^[A-Z0-9]{8}([A-Z0-9]{3})?$/ }),
+                    EE_TEXT('BankName', 100, { min: 0 }),
+                  ],
+                },
+              ],
+            },
+            {
+              name: 'BuyerParty',
+              children: [
+                EE_TEXT('Name', 100),
+                EE_TEXT('RegNumber', 20, { min: 0 }),
+                EE_TEXT('VATRegNumber', 20, { min: 0 }),
+                EE_CONTACT,
+              ],
+            },
+          ],
+        },
+        {
+          name: 'InvoiceInformation',
+          children: [
+            {
+              name: 'Type',
+              attrs: { type: { required: true, values: ['DEB', 'CRE'] } },
+              children: [EE_TEXT('SourceInvoice', 20, { min: 0 })],
+            },
+            EE_TEXT('DocumentName', 100),
+            EE_TEXT('InvoiceNumber', 20),
+            EE_TEXT('PaymentReferenceNumber', 20, { min: 0, pattern: /^\d{2,20}$/ }),
+            { name: 'InvoiceDate', type: 'date' },
+            { name: 'DueDate', type: 'date', min: 0 },
+          ],
+        },
+        {
+          name: 'InvoiceSumGroup',
+          children: [
+            EE_DECIMAL('InvoiceSum'),
+            EE_VAT(false),
+            EE_DECIMAL('TotalVATSum'),
+            EE_DECIMAL('TotalSum'),
+            EE_DECIMAL('TotalToPay'),
+            EE_TEXT('Currency', 3, { pattern: /^[A-Z]{3}$/ }),
+          ],
+        },
+        {
+          name: 'InvoiceItem',
+          children: [
+            {
+              name: 'InvoiceItemGroup',
+              children: [
+                {
+                  name: 'ItemEntry',
+                  max: Infinity,
+                  children: [
+                    EE_TEXT('Description', 500),
+                    {
+                      name: 'ItemDetailInfo',
+                      children: [
+                        EE_TEXT('ItemUnit', 35),
+                        EE_DECIMAL('ItemAmount'),
+                        EE_DECIMAL('ItemPrice'),
+                      ],
+                    },
+                    EE_DECIMAL('ItemSum'),
+                    EE_VAT(true),
+                    EE_DECIMAL('ItemTotal'),
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+        {
+          name: 'PaymentInfo',
+          children: [
+            EE_TEXT('Currency', 3, { pattern: /^[A-Z]{3}$/ }),
+            EE_TEXT('PaymentDescription', 210),
+            { name: 'Payable', pattern: /^(YES|NO)$/ },
+            { name: 'PayDueDate', type: 'date', min: 0 },
+            EE_DECIMAL('PaymentTotalSum'),
+            EE_TEXT('PayerName', 100),
+            EE_TEXT('PaymentId', 20),
+            EE_TEXT('PayToAccount', 35, { pattern: /^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/ }),
+            EE_TEXT('PayToName', 100),
+          ],
+        },
+      ],
+    },
+    {
+      name: 'Footer',
+      children: [
+        { name: 'TotalNumberInvoices', type: 'integer' },
+        EE_DECIMAL('TotalAmount'),
+      ],
+    },
+  ],
+};
+
+function eeAmount(value) {
+  return roundMoney(value).toFixed(2);
+}
+
+function eeContact(party) {
+  const address = splitAddress(party.address);
+  const legalAddress = address.street && address.town
+    ? node('LegalAddress', {}, [
+      node('PostalAddress1', {}, address.street),
+      node('City', {}, address.town),
+      address.postCode && node('PostalCode', {}, address.postCode),
+      party.country && node('Country', {}, party.country),
+    ])
+    : null;
+  if (!party.phone && !party.email && !legalAddress) {
+    return null;
+  }
+  return node('ContactData', {}, [
+    party.phone && node('PhoneNumber', {}, party.phone),
+    party.email && node('E-mailAddress', {}, party.email),
+    legalAddress,
+  ]);
+}
+
+function buildEstonianEInvoice(invoice) {
+  const { company, customer } = invoice;
+  const bank = company.bankAccount || {};
+  const iban = String(bank.iban || '').replace(/\s/g, '').toUpperCase();
+  const creditNote = isCreditNote(invoice);
+  const exempt = invoice.vat && invoice.vat.treatment === 'exempt';
+  const vatId = exempt ? 'NOTTAX' : 'TAX';
+  // Estonian reference numbers are digits only (7-3-1 check digit)
+  const referenceNumber = /^\d{2,20}$/.test(String(invoice.paymentReference || '')) ? invoice.paymentReference : null;
+
+  const document = node('E_Invoice', {
+    'xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
+    'xsi:noNamespaceSchemaLocation': 'e-invoice_ver1.2.xsd',
+  }, [
+    node('Header', {}, [
+      node('Date', {}, invoice.issueDate),
+      node('FileId', {}, invoice.invoiceNumber),
+      node('Version', {}, '1.2'),
+    ]),
+    node('Invoice', {
+      invoiceId: invoice.invoiceNumber,
+      regNumber: customer.regNumber || null,
+      sellerRegnumber: company.regNumber || '',
+    }, [
+      node('InvoiceParties', {}, [
+        node('SellerParty', {}, [
+          node('Name', {}, company.name || ''),
+          node('RegNumber', {}, company.regNumber || ''),
+          company.taxId && node('VATRegNumber', {}, company.taxId),
+          eeContact(company),
+          iban && node('AccountInfo', {}, [
+            node('AccountNumber', {}, iban),
+            node('IBAN', {}, iban),
+            bank.swift && node('BIC', {}, bank.swift),
+            bank.bankName && node('BankName', {}, bank.bankName),
+          ]),
+        ]),
+        node('BuyerParty', {}, [
+          node('Name', {}, partyName(customer)),
+          customer.regNumber && node('RegNumber', {}, customer.regNumber),
+          customer.vatId && node('VATRegNumber', {}, customer.vatId),
+          eeContact(customer),
+        ]),
+      ]),
+      node('InvoiceInformation', {}, [
+        node('Type', { type: creditNote ? 'CRE' : 'DEB' }, [
+          creditNote && invoice.creditedInvoiceNumber && node('SourceInvoice', {}, invoice.creditedInvoiceNumber),
+        ]),
+        node('DocumentName', {}, creditNote ? 'Kreeditarve' : 'Arve'),
+        node('InvoiceNumber', {}, invoice.invoiceNumber),
+        referenceNumber && node('PaymentReferenceNumber', {}, referenceNumber),
+        node('InvoiceDate', {}, invoice.issueDate),
+        invoice.dueDate && node('DueDate', {}, invoice.dueDate),
+      ]),
+      node('InvoiceSumGroup', {}, [
+        node('InvoiceSum', {}, eeAmount(invoice.subtotal)),
+        ...vatBreakdown(invoice).map((row) => node('VAT', { vatId }, [
+          node('SumBeforeVAT', {}, eeAmount(row.net)),
+          node('VATRate', {}, String(row.rate)),
+          node('VATSum', {}, eeAmount(row.vat)),
+        ])),
+        node('TotalVATSum', {}, eeAmount(invoice.taxAmount)),
+        node('TotalSum', {}, eeAmount(invoice.total)),
+        node('TotalToPay', {}, eeAmount(invoice.total)),
+        node('Currency', {}, invoice.currency),
+      ]),
+      node('InvoiceItem', {}, [
+        node('InvoiceItemGroup', {}, invoice.items.map((item) => {
+          const amounts = lineAmounts(item);
+          return node('ItemEntry', {}, [
+            node('Description', {}, item.description),
+            node('ItemDetailInfo', {}, [
+              node('ItemUnit', {}, 'tk'),
+              node('ItemAmount', {}, String(amounts.quantity)),
+              node('ItemPrice', {}, eeAmount(amounts.unitNet)),
+            ]),
+            node('ItemSum', {}, eeAmount(amounts.net)),
+            node('VAT', { vatId }, [
+              node('VATRate', {}, String(amounts.rate)),
+              node('VATSum', {}, eeAmount(amounts.vat)),
+            ]),
+            node('ItemTotal', {}, eeAmount(amounts.gross)),
+          ]);
+        })),
+      ]),
+      node('PaymentInfo', {}, [
+        node('Currency', {}, invoice.currency),
+        node('PaymentDescription', {}, `${invoice.invoiceNumber} ${invoice.orderNumber || ''}`.trim()),
+        node('Payable', {}, !creditNote && invoice.total > 0 ? 'YES' : 'NO'),
+        invoice.dueDate && node('PayDueDate', {}, invoice.dueDate),
+        node('PaymentTotalSum', {}, eeAmount(invoice.total)),
+        node('PayerName', {}, partyName(customer)),
+        node('PaymentId', {}, invoice.invoiceNumber),
+        node('PayToAccount', {}, iban),
+        node('PayToName', {}, company.name || ''),
+      ]),
+    ]),
+    node('Footer', {}, [
+      node('TotalNumberInvoices', {}, '1'),
+      node('TotalAmount', {}, eeAmount(invoice.total)),
+    ]),
+  ]);
+  return serializeXml(document);
+}
+
+/* ------------------------------- Finvoice 3.0 ------------------------------- */
+
+const FI_AMOUNT_PATTERN = /^-?\d{1,15}(,\d{2,5})?$/;
+const FI_AMOUNT = (name, extra = {}) => ({
+  name,
+  pattern: FI_AMOUNT_PATTERN,
+  attrs: { AmountCurrencyIdentifier: { required: true, pattern: /^[A-Z]{3}$/ } },
+  ...extra,
+});
+const FI_DATE = (name, extra = {}) => ({
+  name,
+  pattern: /^\d{8}$/,
+  attrs: { Format: { required: true, values: ['CCYYMMDD'] } },
+  ...extra,
+});
+const FI_TEXT = (name, maxLength, extra = {}) => ({ name, maxLength, ...extra });
+
+const FI_ADDRESS = (prefix) => ({
+  name: `${prefix}PostalAddressDetails`,
+  min: 0,
+  children: [
+    FI_TEXT(`${prefix}StreetName`, 35, { max: 3 }),
+    FI_TEXT(`${prefix}TownName`, 35),
+    FI_TEXT(`${prefix}PostCodeIdentifier`, 35),
+    FI_TEXT('CountryCode', 2, { min: 0, pattern: /^[A-Z]{2}$/ }),
+  ],
+});
+
+const FINVOICE_SCHEMA = {
+  name: 'Finvoice',
+  attrs: { Version: { required: true, values: ['3.0'] } },
+  children: [
+    {
+      name: 'SellerPartyDetails',
+      children: [
+        FI_TEXT('SellerPartyIdentifier', 35),
+        FI_TEXT('SellerOrganisationName', 70, { max: Infinity }),
+        FI_TEXT('SellerOrganisationTaxCode', 35, { min: 0 }),
+        FI_ADDRESS('Seller'),
+      ],
+    },
+    {
+      name: 'SellerInformationDetails',
+      min: 0,
+      children: [
+        FI_TEXT('SellerPhoneNumberIdentifier', 35, { min: 0 }),
+        FI_TEXT('SellerCommonEmailaddressIdentifier', 70, { min: 0 }),
+        {
+          name: 'SellerAccountDetails',
+          min: 0,
+          max: Infinity,
+          children: [
+            FI_TEXT('SellerAccountID', 35, { attrs: { IdentificationSchemeName: { required: true, values: ['IBAN'] } } }),
+            FI_TEXT('SellerBic', 11, { attrs: { IdentificationSchemeName: { required: true, values: ['BIC'] } } }),
+          ],
+        },
+      ],
+    },
+    {
+      name: 'BuyerPartyDetails',
+      children: [
+        FI_TEXT('BuyerPartyIdentifier', 35, { min: 0 }),
+        FI_TEXT('BuyerOrganisationName', 70, { max: Infinity }),
+        FI_TEXT('BuyerOrganisationTaxCode', 35, { min: 0 }),
+        FI_ADDRESS('Buyer'),
+      ],
+    },
+    {
+      name: 'BuyerCommunicationDetails',
+      min: 0,
+      children: [FI_TEXT('BuyerEmailaddressIdentifier', 70)],
+    },
+    {
+      name: 'InvoiceDetails',
+      children: [
+        { name: 'InvoiceTypeCode', pattern: /^INV0[12]$/ },
+        FI_TEXT('InvoiceTypeText', 35),
+        { name: 'OriginCode', pattern: /^(Original|Copy|Cancel)$/ },
+        FI_TEXT('InvoiceNumber', 20),
+        FI_DATE('InvoiceDate'),
+        FI_TEXT('OrderIdentifier', 70, { min: 0 }),
+        FI_AMOUNT('InvoiceTotalVatExcludedAmount'),
+        FI_AMOUNT('InvoiceTotalVatAmount'),
+        FI_AMOUNT('InvoiceTotalVatIncludedAmount'),
+        {
+          name: 'VatSpecificationDetails',
+          max: Infinity,
+          children: [
+            FI_AMOUNT('VatBaseAmount'),
+            { name: 'VatRatePercent', pattern: /^\d{1,2}(,\d{1,2})?$/ },
+            { name: 'VatCode', min: 0, pattern: /^(S|Z|E|AE|K|G|O)$/ },
+            FI_AMOUNT('VatRateAmount'),
+          ],
+        },
+        FI_TEXT('InvoiceFreeText', 512, { min: 0 }),
+        {
+          name: 'PaymentTermsDetails',
+          min: 0,
+          children: [
+            FI_TEXT('PaymentTermsFreeText', 70, { min: 0 }),
+            FI_DATE('InvoiceDueDate', { min: 0 }),
+          ],
+        },
+      ],
+    },
+    {
+      name: 'InvoiceRow',
+      max: Infinity,
+      children: [
+        FI_TEXT('ArticleName', 100),
+        {
+          name: 'DeliveredQuantity',
+          pattern: /^-?\d{1,14}(,\d{1,4})?$/,
+          attrs: { QuantityUnitCode: { required: true } },
+        },
+        FI_AMOUNT('UnitPriceAmount'),
+        { name: 'RowVatRatePercent', pattern: /^\d{1,2}(,\d{1,2})?$/ },
+        { name: 'RowVatCode', min: 0, pattern: /^(S|Z|E|AE|K|G|O)$/ },
+        FI_AMOUNT('RowVatAmount'),
+        FI_AMOUNT('RowVatExcludedAmount'),
+        FI_AMOUNT('RowAmount'),
+      ],
+    },
+    {
+      name: 'EpiDetails',
+      children: [
+        {
+          name: 'EpiIdentificationDetails',
+          children: [FI_DATE('EpiDate'), FI_TEXT('EpiReference', 35)],
+        },
+        {
+          name: 'EpiPartyDetails',
+          children: [
+            {
+              name: 'EpiBfiPartyDetails',
+              children: [
+                FI_TEXT('EpiBfiIdentifier', 11, {
+                  pattern: /^[A-Z0-9]{8}([A-Z0-9]{3})?$/,
+                  attrs: { IdentificationSchemeName: { required: true, values: ['BIC'] } },
+                }),
+              ],
+            },
+            {
+              name: 'EpiBeneficiaryPartyDetails',
+              children: [
+                FI_TEXT('EpiNameAddressDetails', 35),
+                FI_TEXT('EpiAccountID', 34, {
+                  pattern: /^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/,
+                  attrs: { IdentificationSchemeName: { required: true, values: ['IBAN'] } },
+                }),
+              ],
+            },
+          ],
+        },
+        {
+          name: 'EpiPaymentInstructionDetails',
+          children: [
+            FI_TEXT('EpiRemittanceInfoIdentifier', 35, {
+              min: 0,
+              attrs: { IdentificationSchemeName: { required: true, values: ['SPY', 'ISO'] } },
+            }),
+            FI_AMOUNT('EpiInstructedAmount'),
+            { name: 'EpiCharge', attrs: { ChargeOption: { required: true, values: ['SHA'] } } },
+            FI_DATE('EpiDateOptionDate'),
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+function fiAmount(value) {
+  return roundMoney(value).toFixed(2).replace('.', ',');
+}
+
+function fiDate(isoDate) {
+  return String(isoDate || '').replace(/-/g, '');
+}
+
+function fiPercent(rate) {
+  return String(Number(rate) || 0).replace('.', ',');
+}
+
+function fiAddress(prefix, party) {
+  const address = splitAddress(party.address);
+  if (!address.street || !address.town || !address.postCode) {
+    return null;
+  }
+  return node(`${prefix}PostalAddressDetails`, {}, [
+    node(`${prefix}StreetName`, {}, address.street),
+    node(`${prefix}TownName`, {}, address.town),
+    node(`${prefix}PostCodeIdentifier`, {}, address.postCode),
+    party.country && node('CountryCode', {}, party.country),
+  ]);
+}
+
+function buildFinvoice(invoice) {
+  const { company, customer } = invoice;
+  const currency = invoice.currency;
+  const amount = (name, value) => node(name, { AmountCurrencyIdentifier: currency }, fiAmount(value));
+  const bank = company.bankAccount || {};
+  const iban = String(bank.iban || '').replace(/\s/g, '').toUpperCase();
+  const bic = String(bank.swift || '').replace(/\s/g, '').toUpperCase();
+  const creditNote = isCreditNote(invoice);
+  const vatCode = FINVOICE_VAT_CODES[invoice.vat && invoice.vat.treatment] || 'S';
+  const dueDate = invoice.dueDate || invoice.issueDate;
+
+  const document = node('Finvoice', {
+    Version: '3.0',
+    'xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
+    'xsi:noNamespaceSchemaLocation': 'Finvoice3.0.xsd',
+  }, [
+    node('SellerPartyDetails', {}, [
+      node('SellerPartyIdentifier', {}, company.regNumber || ''),
+      node('SellerOrganisationName', {}, company.name || ''),
+      company.taxId && node('SellerOrganisationTaxCode', {}, company.taxId),
+      fiAddress('Seller', company),
+    ]),
+    node('SellerInformationDetails', {}, [
+      company.phone && node('SellerPhoneNumberIdentifier', {}, company.phone),
+      company.email && node('SellerCommonEmailaddressIdentifier', {}, company.email),
+      iban && node('SellerAccountDetails', {}, [
+        node('SellerAccountID', { IdentificationSchemeName: 'IBAN' }, iban),
+        node('SellerBic', { IdentificationSchemeName: 'BIC' }, bic),
+      ]),
+    ]),
+    node('BuyerPartyDetails', {}, [
+      customer.regNumber && node('BuyerPartyIdentifier', {}, customer.regNumber),
+      node('BuyerOrganisationName', {}, partyName(customer)),
+      customer.vatId && node('BuyerOrganisationTaxCode', {}, customer.vatId),
+      fiAddress('Buyer', customer),
+    ]),
+    customer.email && node('BuyerCommunicationDetails', {}, [
+      node('BuyerEmailaddressIdentifier', {}, customer.email),
+    ]),
+    node('InvoiceDetails', {}, [
+      node('InvoiceTypeCode', {}, creditNote ? 'INV02' : 'INV01'),
+      node('InvoiceTypeText', {}, creditNote ? 'HYVITYSLASKU' : 'LASKU'),
+      node('OriginCode', {}, 'Original'),
+      node('InvoiceNumber', {}, invoice.invoiceNumber),
+      node('InvoiceDate', { Format: 'CCYYMMDD' }, fiDate(invoice.issueDate)),
+      invoice.orderNumber && node('OrderIdentifier', {}, invoice.orderNumber),
+      amount('InvoiceTotalVatExcludedAmount', invoice.subtotal),
+      amount('InvoiceTotalVatAmount', invoice.taxAmount),
+      amount('InvoiceTotalVatIncludedAmount', invoice.total),
+      ...vatBreakdown(invoice).map((row) => node('VatSpecificationDetails', {}, [
+        amount('VatBaseAmount', row.net),
+        node('VatRatePercent', {}, fiPercent(row.rate)),
+        node('VatCode', {}, vatCode),
+        amount('VatRateAmount', row.vat),
+      ])),
+      creditNote && invoice.creditedInvoiceNumber
+        && node('InvoiceFreeText', {}, `Credit note for invoice ${invoice.creditedInvoiceNumber}`),
+      node('PaymentTermsDetails', {}, [
+        node('InvoiceDueDate', { Format: 'CCYYMMDD' }, fiDate(dueDate)),
+      ]),
+    ]),
+    ...invoice.items.map((item) => {
+      const amounts = lineAmounts(item);
+      return node('InvoiceRow', {}, [
+        node('ArticleName', {}, item.description),
+        node('DeliveredQuantity', { QuantityUnitCode: 'kpl' }, String(amounts.quantity).replace('.', ',')),
+        amount('UnitPriceAmount', amounts.unitNet),
+        node('RowVatRatePercent', {}, fiPercent(amounts.rate)),
+        node('RowVatCode', {}, vatCode),
+        amount('RowVatAmount', amounts.vat),
+        amount('RowVatExcludedAmount', amounts.net),
+        amount('RowAmount', amounts.gross),
+      ]);
+    }),
+    node('EpiDetails', {}, [
+      node('EpiIdentificationDetails', {}, [
+        node('EpiDate', { Format: 'CCYYMMDD' }, fiDate(invoice.issueDate)),
+        node('EpiReference', {}, invoice.invoiceNumber),
+      ]),
+      node('EpiPartyDetails', {}, [
+        node('EpiBfiPartyDetails', {}, [
+          node('EpiBfiIdentifier', { IdentificationSchemeName: 'BIC' }, bic),
+        ]),
+        node('EpiBeneficiaryPartyDetails', {}, [
+          node('EpiNameAddressDetails', {}, (company.name || '').slice(0, 35)),
+          node('EpiAccountID', { IdentificationSchemeName: 'IBAN' }, iban),
+        ]),
+      ]),
+      node('EpiPaymentInstructionDetails', {}, [
+        amount('EpiInstructedAmount', creditNote ? 0 : invoice.total),
+        node('EpiCharge', { ChargeOption: 'SHA' }, 'SHA'),
+        node('EpiDateOptionDate', { Format: 'CCYYMMDD' }, fiDate(dueDate)),
+      ]),
+    ]),
+  ]);
+  return serializeXml(document);
+}
+
+/**
+ * Render an invoice as e-invoice XML and check it against the format's schema.
+ *
+ * @param {Object} invoice - stored invoice snapshot
+ * @param {'e-invoice'|'finvoice'} standard
+ * @returns {{ xml: string, errors: string[] }} errors is empty when the document is valid
+ */
+function renderEInvoice(invoice, standard) {
+  if (standard === 'finvoice') {
+    const xml = buildFinvoice(invoice);
+    return { xml, errors: validateXml(xml, FINVOICE_SCHEMA) };
+  }
+  if (standard === 'e-invoice') {
+    const xml = buildEstonianEInvoice(invoice);
+    return { xml, errors: validateXml(xml, E_INVOICE_SCHEMA) };
+  }
+  throw new Error(`Unknown e-invoice standard: ${standard}`);
+}
+
+module.exports = {
+  STANDARDS,
+  splitAddress,
+  renderEInvoice,
+};
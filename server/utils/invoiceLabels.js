@@ -0,0 +1,111 @@
+/**
+ * Invoice Labels
+ *
+ * Invoice wording in the UI languages. The labels live in the client
+ * translation files (client/src/translations/<lang>.json, "invoice" section)
+ * so the shop and its invoices use the same vocabulary. In the Docker image
+ * the files are copied next to the server and located via
+ * INVOICE_TRANSLATIONS_DIR.
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const SUPPORTED_LANGUAGES = ['et', 'en', 'ru', 'fi'];
+const DEFAULT_LANGUAGE = 'en';
+
+// Used only when the translation files cannot be read
+const FALLBACK_LABELS = {
+  title: 'INVOICE',
+  providerPaymentTitle: 'PROVIDER PAYMENT INVOICE',
+  creditNoteTitle: 'CREDIT NOTE',
+  invoiceNumber: 'Invoice #',
+  creditedInvoice: 'Credited invoice',
+  orderNumber: 'Order #',
+  period: 'Period',
+  date: 'Date',
+  dueDate: 'Due Date',
+  billTo: 'Bill To',
+  phone: 'Phone',
+  email: 'Email',
+  website: 'Website',
+  taxId: 'Tax ID',
+  description: 'Description',
+  quantity: 'Qty',
+  unitPrice: 'Unit Price',
+  total: 'Total',
+  subtotal: 'Subtotal excl. VAT',
+  tax: 'Tax',
+  refunds: 'Refunds (credit notes)',
+  vatRate: 'VAT %',
+  vat: 'VAT',
+  taxableAmount: 'taxable',
+  customerVatId: 'VAT ID',
+  reverseChargeNote: 'Reverse charge – VAT to be accounted for by the recipient (Art. 196 Directive 2006/112/EC)',
+  exemptNote: 'VAT exempt supply to an educational institution (Art. 132(1)(i) Directive 2006/112/EC)',
+  exportNote: 'Export outside the EU – VAT 0% (Art. 146 Directive 2006/112/EC)',
+  grandTotal: 'Total',
+  broughtForward: 'Brought forward',
+  carriedForward: 'Carried forward',
+  paymentInformation: 'Payment Information',
+  bank: 'Bank',
+  account: 'Account',
+  iban: 'IBAN',
+  swift: 'SWIFT',
+  reference: 'Reference',
+  paymentTerms: 'Payment Terms',
+  notes: 'Notes',
+  thankYou: 'Thank you for your business!',
+  documentHash: 'Document hash',
+  pageOf: 'Page {page} of {pages}',
+};
+
+const cache = {};
+
+function translationsDir() {
+  return process.env.INVOICE_TRANSLATIONS_DIR
+    ? path.resolve(process.env.INVOICE_TRANSLATIONS_DIR)
+    : path.join(__dirname, '..', '..', 'client', 'src', 'translations');
+}
+
+function loadLanguage(language) {
+  if (!(language in cache)) {
+    try {
+      const raw = fs.readFileSync(path.join(translationsDir(), `${language}.json`), 'utf8');
+      cache[language] = JSON.parse(raw).invoice || {};
+    } catch (error) {
+      console.warn(`⚠️ Invoice labels for "${language}" not available:`, error.message);
+      cache[language] = {};
+    }
+  }
+  return cache[language];
+}
+
+function normalizeLanguage(language) {
+  const code = String(language || '').toLowerCase().slice(0, 2);
+  return SUPPORTED_LANGUAGES.includes(code) ? code : DEFAULT_LANGUAGE;
+}
+
+/**
+ * Labels for a language, falling back to English per key.
+ */
+function getInvoiceLabels(language) {
+  const code = normalizeLanguage(language);
+  return {
+    ...FALLBACK_LABELS,
+    ...loadLanguage(DEFAULT_LANGUAGE),
+    ...(code === DEFAULT_LANGUAGE ? {} : loadLanguage(code)),
+  };
+}
+
+/** Fill {name} placeholders, e.g. formatLabel(labels.pageOf, { page: 1, pages: 3 }). */
+function formatLabel(template, values) {
+  return String(template).replace(/\{(\w+)\}/g, (match, key) => (key in values ? String(values[key]) : match));
+}
+
+module.exports = {
+  SUPPORTED_LANGUAGES,
+  normalizeLanguage,
+  getInvoiceLabels,
+  formatLabel,
+};
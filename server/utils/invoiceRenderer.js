@@ -0,0 +1,538 @@
+/**
+ * Invoice Renderer
+ *
+ * Single rendering pipeline for every invoice the platform issues (customer
+ * order invoices and monthly provider payment invoices). Both the HTML and
+ * the PDF output are produced from the same stored invoice model, so the two
+ * formats of one invoice can never disagree.
+ *
+ * Labels come from invoiceLabels (et/en/ru/fi). PDF item tables paginate:
+ * each continuation page repeats the table header and opens with the
+ * subtotal brought forward from the previous page.
+ */
+
+const fs = require('fs');
+const PDFDocument = require('pdfkit');
+const { getInvoiceTemplate } = require('./invoiceTemplates');
+const { getInvoiceLabels, normalizeLanguage, formatLabel } = require('./invoiceLabels');
+
+// The PDF standard fonts only cover Latin-1; a Unicode TTF is needed for
+// Russian labels and Estonian/Finnish letters such as š and ž.
+const FONT_REGULAR_PATH = process.env.INVOICE_FONT_PATH || '/usr/share/fonts/truetype/dejavu/DejaVuSans.ttf';
+const FONT_BOLD_PATH = process.env.INVOICE_FONT_BOLD_PATH || '/usr/share/fonts/truetype/dejavu/DejaVuSans-Bold.ttf';
+
+const PAGE_MARGIN = 40;
+const FOOTER_HEIGHT = 30;
+const ROW_PADDING = 4;
+const CONTINUATION_ROW_HEIGHT = 20;
+
+function escapeHtml(value) {
+  return String(value === null || value === undefined ? '' : value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatMoney(amount, currency = 'EUR') {
+  const symbol = currency === 'EUR' ? '€' : `${currency} `;
+  const value = Number(amount) || 0;
+  return `${value < 0 ? '-' : ''}${symbol}${Math.abs(value).toFixed(2)}`;
+}
+
+/** Format an ISO date (YYYY-MM-DD...) as DD.MM.YYYY. */
+function formatDate(value) {
+  if (!value) {
+    return '';
+  }
+  const match = String(value).match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) {
+    return String(value);
+  }
+  return `${match[3]}.${match[2]}.${match[1]}`;
+}
+
+function multiline(value) {
+  return escapeHtml(value).replace(/\n/g, '<br>');
+}
+
+const VAT_NOTE_LABELS = {
+  reverse_charge: 'reverseChargeNote',
+  exempt: 'exemptNote',
+  export: 'exportNote',
+};
+
+function formatRate(rate) {
+  return rate === null || rate === undefined ? '' : `${Number(rate)}%`;
+}
+
+/** Legal note for zero-rated VAT treatments, '' otherwise. */
+function vatNote(invoice, labels) {
+  const key = invoice.vat && VAT_NOTE_LABELS[invoice.vat.treatment];
+  return key ? labels[key] : '';
+}
+
+/**
+ * Tax rows for the totals block: one per VAT rate when the invoice carries a
+ * VAT breakdown, otherwise the single legacy tax line.
+ */
+function taxRows(invoice, labels) {
+  const money = (amount) => formatMoney(amount, invoice.currency);
+  if (invoice.vat && Array.isArray(invoice.vat.breakdown)) {
+    return invoice.vat.breakdown.map((row) => ({
+      label: `${labels.vat} ${formatRate(row.rate)} (${labels.taxableAmount} ${money(row.net)})`,
+      amount: row.vat,
+    }));
+  }
+  return [{ label: `${labels.tax} (${(Number(invoice.taxRate) || 0).toFixed(1)}%)`, amount: invoice.taxAmount }];
+}
+
+function documentTitle(invoice, labels) {
+  if (invoice.invoiceType === 'credit_note') {
+    return labels.creditNoteTitle;
+  }
+  return invoice.invoiceType === 'provider_payout' ? labels.providerPaymentTitle : labels.title;
+}
+
+/**
+ * Render an invoice model as a standalone HTML document. `language`
+ * overrides the language stored on the invoice.
+ */
+function renderInvoiceHTML(invoice, language) {
+  const lang = normalizeLanguage(language || invoice.language);
+  const labels = getInvoiceLabels(lang);
+  const template = getInvoiceTemplate(invoice.template);
+  const company = invoice.company || {};
+  const customer = invoice.customer || {};
+  const bank = company.bankAccount;
+  const money = (amount) => formatMoney(amount, invoice.currency);
+
+  return `<!DOCTYPE html>
+<html lang="${lang}">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(documentTitle(invoice, labels))} ${escapeHtml(invoice.invoiceNumber)}</title>
+  <style>
+    ${template.css}
+    .items-table thead {
+      display: table-header-group;
+    }
+    .items-table tr {
+      page-break-inside: avoid;
+    }
+    @media print {
+      .invoice-container {
+        margin: 0;
+        padding: 0;
+        box-shadow: none;
+      }
+    }
+  </style>
+</head>
+<body>
+  <div class="invoice-container">
+    <div class="invoice-header">
+      <div class="company-info">
+        <h1>${escapeHtml(company.name)}</h1>
+        <div class="company-details">
+          ${multiline(company.address)}<br>
+          ${company.phone ? `${escapeHtml(labels.phone)}: ${escapeHtml(company.phone)}<br>` : ''}
+          ${company.email ? `${escapeHtml(labels.email)}: ${escapeHtml(company.email)}<br>` : ''}
+          ${company.website ? `${escapeHtml(labels.website)}: ${escapeHtml(company.website)}<br>` : ''}
+          ${company.taxId ? `${escapeHtml(labels.taxId)}: ${escapeHtml(company.taxId)}<br>` : ''}
+        </div>
+      </div>
+      <div class="invoice-details">
+        <h2>${escapeHtml(documentTitle(invoice, labels))}</h2>
+        <div class="invoice-meta">
+          ${escapeHtml(labels.invoiceNumber)}: ${escapeHtml(invoice.invoiceNumber)}<br>
+          ${invoice.creditedInvoiceNumber ? `${escapeHtml(labels.creditedInvoice)}: ${escapeHtml(invoice.creditedInvoiceNumber)}<br>` : ''}
+          ${invoice.orderNumber ? `${escapeHtml(labels.orderNumber)}: ${escapeHtml(invoice.orderNumber)}<br>` : ''}
+          ${invoice.period ? `${escapeHtml(labels.period)}: ${escapeHtml(invoice.period)}<br>` : ''}
+          ${escapeHtml(labels.date)}: ${formatDate(invoice.issueDate)}<br>
+          ${escapeHtml(labels.dueDate)}: ${formatDate(invoice.dueDate)}
+        </div>
+      </div>
+    </div>
+
+    <div class="customer-section">
+      <h3>${escapeHtml(labels.billTo)}:</h3>
+      <div>
+        <strong>${escapeHtml(customer.name)}</strong><br>
+        ${customer.company ? `${escapeHtml(customer.company)}<br>` : ''}
+        ${customer.email ? `${escapeHtml(customer.email)}<br>` : ''}
+        ${multiline(customer.address)}
+        ${customer.vatId ? `<br>${escapeHtml(labels.customerVatId)}: ${escapeHtml(customer.vatId)}` : ''}
+      </div>
+    </div>
+
+    <table class="items-table">
+      <thead>
+        <tr>
+          <th>${escapeHtml(labels.description)}</th>
+          <th>${escapeHtml(labels.quantity)}</th>
+          <th>${escapeHtml(labels.unitPrice)}</th>
+          <th>${escapeHtml(labels.vatRate)}</th>
+          <th>${escapeHtml(labels.total)}</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${(invoice.items || []).map((item) => `
+        <tr>
+          <td>${escapeHtml(item.description)}</td>
+          <td>${item.quantity}</td>
+          <td>${money(item.unitPrice)}</td>
+          <td>${formatRate(item.vatRate)}</td>
+          <td>${money(item.total)}</td>
+        </tr>`).join('')}
+      </tbody>
+    </table>
+
+    <div class="totals-section">
+      <table class="totals-table">
+        <tr>
+          <td>${escapeHtml(labels.subtotal)}:</td>
+          <td>${money(invoice.subtotal)}</td>
+        </tr>
+        ${taxRows(invoice, labels).map((row) => `
+        <tr>
+          <td>${escapeHtml(row.label)}:</td>
+          <td>${money(row.amount)}</td>
+        </tr>`).join('')}
+        <tr class="total-row">
+          <td>${escapeHtml(labels.grandTotal)}:</td>
+          <td>${money(invoice.total)}</td>
+        </tr>
+      </table>
+    </div>
+
+    ${vatNote(invoice, labels) ? `
+    <div class="notes-section">
+      <p><strong>${escapeHtml(vatNote(invoice, labels))}</strong></p>
+    </div>` : ''}
+
+    ${bank ? `
+    <div class="notes-section">
+      <h3>${escapeHtml(labels.paymentInformation)}</h3>
+      <p>
+        ${escapeHtml(labels.bank)}: ${escapeHtml(bank.bankName)}<br>
+        ${bank.accountNumber ? `${escapeHtml(labels.account)}: ${escapeHtml(bank.accountNumber)}<br>` : ''}
+        ${escapeHtml(labels.iban)}: ${escapeHtml(bank.iban)}<br>
+        ${escapeHtml(labels.swift)}: ${escapeHtml(bank.swift)}<br>
+        ${escapeHtml(labels.reference)}: ${escapeHtml(invoice.paymentReference || invoice.invoiceNumber)}
+      </p>
+    </div>` : ''}
+
+    ${invoice.notes ? `
+    <div class="notes-section">
+      <h3>${escapeHtml(labels.notes)}</h3>
+      <p>${multiline(invoice.notes)}</p>
+    </div>` : ''}
+
+    <div class="footer">
+      ${invoice.paymentTerms ? `<p>${escapeHtml(labels.paymentTerms)}: ${escapeHtml(invoice.paymentTerms)}</p>` : ''}
+      <p>${escapeHtml(labels.thankYou)}</p>
+      <p>${escapeHtml(labels.documentHash)}: ${escapeHtml(invoice.contentHash || '')}</p>
+    </div>
+  </div>
+</body>
+</html>
+`;
+}
+
+/**
+ * Register the Unicode fonts when available; otherwise fall back to the
+ * built-in Helvetica (Latin-1 only).
+ */
+function setupFonts(doc) {
+  if (fs.existsSync(FONT_REGULAR_PATH) && fs.existsSync(FONT_BOLD_PATH)) {
+    doc.registerFont('InvoiceRegular', FONT_REGULAR_PATH);
+    doc.registerFont('InvoiceBold', FONT_BOLD_PATH);
+    return { regular: 'InvoiceRegular', bold: 'InvoiceBold' };
+  }
+  return { regular: 'Helvetica', bold: 'Helvetica-Bold' };
+}
+
+/** Lowest y that content may use before the page footer. */
+function contentBottom(doc) {
+  return doc.page.height - doc.page.margins.bottom - FOOTER_HEIGHT;
+}
+
+function drawHeader(ctx) {
+  const { doc, invoice, labels, fonts } = ctx;
+  const company = invoice.company || {};
+  const left = doc.page.margins.left;
+  const right = doc.page.width - doc.page.margins.right;
+
+  doc.font(fonts.bold).fontSize(20).text(company.name || '', left, 40, { width: 300 });
+  doc.font(fonts.regular).fontSize(9);
+  const contactLines = [
+    company.address,
+    company.phone && `${labels.phone}: ${company.phone}`,
+    company.email && `${labels.email}: ${company.email}`,
+    company.website && `${labels.website}: ${company.website}`,
+    company.taxId && `${labels.taxId}: ${company.taxId}`,
+  ].filter(Boolean);
+  doc.text(contactLines.join('\n'), left, 68, { width: 300 });
+
+  doc.font(fonts.bold).fontSize(16).text(documentTitle(invoice, labels), right - 220, 40, { width: 220, align: 'right' });
+  doc.font(fonts.regular).fontSize(9);
+  const meta = [
+    `${labels.invoiceNumber}: ${invoice.invoiceNumber}`,
+    invoice.creditedInvoiceNumber && `${labels.creditedInvoice}: ${invoice.creditedInvoiceNumber}`,
+    invoice.orderNumber && `${labels.orderNumber}: ${invoice.orderNumber}`,
+    invoice.period && `${labels.period}: ${invoice.period}`,
+    `${labels.date}: ${formatDate(invoice.issueDate)}`,
+    `${labels.dueDate}: ${formatDate(invoice.dueDate)}`,
+  ].filter(Boolean);
+  doc.text(meta.join('\n'), right - 220, 64, { width: 220, align: 'right' });
+
+  doc.moveTo(left, 150).lineTo(right, 150).lineWidth(1.5).stroke();
+}
+
+function drawParties(ctx) {
+  const { doc, invoice, labels, fonts } = ctx;
+  const customer = invoice.customer || {};
+  const left = doc.page.margins.left;
+
+  doc.font(fonts.bold).fontSize(11).text(`${labels.billTo}:`, left, 165);
+  doc.font(fonts.regular).fontSize(10);
+  const lines = [
+    customer.name,
+    customer.company,
+    customer.email,
+    customer.address,
+    customer.vatId && `${labels.customerVatId}: ${customer.vatId}`,
+  ].filter(Boolean);
+  doc.text(lines.join('\n'), left, 182, { width: 300 });
+  return Math.max(doc.y + 20, 280);
+}
+
+/**
+ * Start a continuation page with a compact header. Returns the first free y.
+ */
+function addContinuationPage(ctx) {
+  const { doc, invoice, labels, fonts } = ctx;
+  doc.addPage();
+  const left = doc.page.margins.left;
+  const right = doc.page.width - doc.page.margins.right;
+  const top = doc.page.margins.top;
+
+  doc.font(fonts.bold).fontSize(11).text((invoice.company && invoice.company.name) || '', left, top, { width: 300 });
+  doc.font(fonts.regular).fontSize(9)
+    .text(`${labels.invoiceNumber}: ${invoice.invoiceNumber}`, right - 220, top + 2, { width: 220, align: 'right' });
+  doc.moveTo(left, top + 20).lineTo(right, top + 20).lineWidth(1).stroke();
+  return top + 30;
+}
+
+const COLUMNS = [
+  { key: 'description', label: 'description', x: 0, width: 225, align: 'left' },
+  { key: 'quantity', label: 'quantity', x: 230, width: 45, align: 'right' },
+  { key: 'unitPrice', label: 'unitPrice', x: 280, width: 80, align: 'right' },
+  { key: 'vatRate', label: 'vatRate', x: 365, width: 50, align: 'right' },
+  { key: 'total', label: 'total', x: 420, width: 95, align: 'right' },
+];
+
+function cellText(invoice, item, key) {
+  if (key === 'unitPrice' || key === 'total') {
+    return formatMoney(item[key], invoice.currency);
+  }
+  if (key === 'vatRate') {
+    return formatRate(item.vatRate);
+  }
+  return String(item[key] === null || item[key] === undefined ? '' : item[key]);
+}
+
+function drawTableHeader(ctx, y) {
+  const { doc, labels, fonts } = ctx;
+  const left = doc.page.margins.left;
+  const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+
+  doc.rect(left, y, width, 20).fill('#000000');
+  doc.fillColor('#ffffff').font(fonts.bold).fontSize(10);
+  COLUMNS.forEach((col) => {
+    doc.text(labels[col.label], left + col.x + 5, y + 6, { width: col.width - 5, align: col.align, lineBreak: false });
+  });
+  doc.fillColor('#000000').font(fonts.regular).fontSize(10);
+  return y + 24;
+}
+
+/** "Carried forward" / "Brought forward" row with the running line total. */
+function drawContinuationRow(ctx, y, label, amount) {
+  const { doc, invoice, fonts } = ctx;
+  const left = doc.page.margins.left;
+  const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+  const totalCol = COLUMNS[COLUMNS.length - 1];
+
+  doc.rect(left, y, width, CONTINUATION_ROW_HEIGHT - 2).fill('#f0f0f0');
+  doc.fillColor('#000000').font(fonts.bold).fontSize(9);
+  doc.text(label, left + 5, y + 5, { width: totalCol.x - 10, lineBreak: false });
+  doc.text(formatMoney(amount, invoice.currency), left + totalCol.x + 5, y + 5, {
+    width: totalCol.width - 5,
+    align: 'right',
+    lineBreak: false,
+  });
+  doc.font(fonts.regular).fontSize(10);
+  return y + CONTINUATION_ROW_HEIGHT;
+}
+
+function drawItemsTable(ctx, startY) {
+  const { doc, invoice, labels, fonts } = ctx;
+  const left = doc.page.margins.left;
+  const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+  const items = invoice.items || [];
+  let y = drawTableHeader(ctx, startY);
+  let runningTotal = 0;
+
+  items.forEach((item, index) => {
+    doc.font(fonts.regular).fontSize(10);
+    const rowHeight = doc.heightOfString(item.description || '', { width: COLUMNS[0].width - 5 }) + ROW_PADDING * 2;
+    // Keep room for the carried-forward row unless this is the last line
+    const reserve = index < items.length - 1 ? CONTINUATION_ROW_HEIGHT : 0;
+    if (y + rowHeight + reserve > contentBottom(doc) && index > 0) {
+      drawContinuationRow(ctx, y + 2, labels.carriedForward, runningTotal);
+      y = addContinuationPage(ctx);
+      y = drawTableHeader(ctx, y);
+      y = drawContinuationRow(ctx, y, labels.broughtForward, runningTotal);
+    }
+    COLUMNS.forEach((col) => {
+      doc.text(cellText(invoice, item, col.key), left + col.x + 5, y + ROW_PADDING, { width: col.width - 5, align: col.align });
+    });
+    y += rowHeight;
+    runningTotal += Number(item.total) || 0;
+    doc.moveTo(left, y).lineTo(left + width, y).lineWidth(0.5).strokeColor('#cccccc').stroke().strokeColor('#000000');
+  });
+
+  return y;
+}
+
+function drawTotals(ctx, startY) {
+  const { doc, invoice, labels, fonts } = ctx;
+  const right = doc.page.width - doc.page.margins.right;
+  const x = right - 300;
+  const rows = taxRows(invoice, labels);
+  let y = startY;
+  if (y + 54 + rows.length * 16 > contentBottom(doc)) {
+    y = addContinuationPage(ctx);
+  }
+  const money = (amount) => formatMoney(amount, invoice.currency);
+
+  doc.font(fonts.regular).fontSize(10);
+  doc.text(`${labels.subtotal}:`, x, y, { width: 200 });
+  doc.text(money(invoice.subtotal), x + 200, y, { width: 100, align: 'right' });
+  y += 16;
+  rows.forEach((row) => {
+    doc.text(`${row.label}:`, x, y, { width: 200 });
+    doc.text(money(row.amount), x + 200, y, { width: 100, align: 'right' });
+    y += 16;
+  });
+  y += 2;
+  doc.moveTo(x, y).lineTo(right, y).lineWidth(1.5).stroke();
+  y += 6;
+  doc.font(fonts.bold).fontSize(13);
+  doc.text(`${labels.grandTotal}:`, x, y, { width: 200 });
+  doc.text(money(invoice.total), x + 200, y, { width: 100, align: 'right' });
+  return y + 24;
+}
+
+function drawPaymentInfo(ctx, startY) {
+  const { doc, invoice, labels, fonts } = ctx;
+  const left = doc.page.margins.left;
+  const bank = invoice.company && invoice.company.bankAccount;
+  const lines = [];
+  const note = vatNote(invoice, labels);
+  if (note) {
+    lines.push(note, '');
+  }
+  if (invoice.paymentTerms) {
+    lines.push(`${labels.paymentTerms}: ${invoice.paymentTerms}`);
+  }
+  if (bank) {
+    lines.push(`${labels.bank}: ${bank.bankName}`);
+    if (bank.accountNumber) {
+      lines.push(`${labels.account}: ${bank.accountNumber}`);
+    }
+    lines.push(`${labels.iban}: ${bank.iban}`, `${labels.swift}: ${bank.swift}`);
+    lines.push(`${labels.reference}: ${invoice.paymentReference || invoice.invoiceNumber}`);
+  }
+  if (invoice.notes) {
+    lines.push('', `${labels.notes}: ${invoice.notes}`);
+  }
+  lines.push('', labels.thankYou, `${labels.documentHash}: ${invoice.contentHash || ''}`);
+
+  let y = startY;
+  doc.font(fonts.regular).fontSize(9);
+  const height = doc.heightOfString(lines.join('\n'), { width: 400 });
+  if (y + height > contentBottom(doc)) {
+    y = addContinuationPage(ctx);
+  }
+  doc.text(lines.join('\n'), left, y, { width: 400 });
+}
+
+/** Write "page X of Y" on every buffered page once the page count is known. */
+function drawPageNumbers(ctx) {
+  const { doc, labels, fonts } = ctx;
+  const range = doc.bufferedPageRange();
+  for (let i = range.start; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+    const bottomMargin = doc.page.margins.bottom;
+    // Writing inside the bottom margin would otherwise trigger a new page
+    doc.page.margins.bottom = 0;
+    doc.font(fonts.regular).fontSize(8).fillColor('#666666').text(
+      formatLabel(labels.pageOf, { page: i - range.start + 1, pages: range.count }),
+      doc.page.margins.left,
+      doc.page.height - bottomMargin - 12,
+      { width: doc.page.width - doc.page.margins.left - doc.page.margins.right, align: 'center', lineBreak: false }
+    );
+    doc.fillColor('#000000');
+    doc.page.margins.bottom = bottomMargin;
+  }
+}
+
+/**
+ * Render an invoice model as an A4 PDF. Resolves with the PDF bytes.
+ * `language` overrides the language stored on the invoice.
+ */
+function renderInvoicePDF(invoice, language) {
+  return new Promise((resolve, reject) => {
+    try {
+      const labels = getInvoiceLabels(language || invoice.language);
+      const doc = new PDFDocument({
+        size: 'A4',
+        margin: PAGE_MARGIN,
+        bufferPages: true,
+        info: {
+          Title: `${labels.title} ${invoice.invoiceNumber}`,
+          Author: (invoice.company && invoice.company.name) || 'MakerSet',
+          // Fixed creation date keeps re-renders of the same invoice byte-identical
+          CreationDate: new Date(`${invoice.issueDate}T00:00:00Z`),
+        },
+      });
+      const chunks = [];
+      doc.on('data', (chunk) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+
+      const ctx = { doc, invoice, labels, fonts: setupFonts(doc) };
+      drawHeader(ctx);
+      const tableStart = drawParties(ctx);
+      const tableEnd = drawItemsTable(ctx, tableStart);
+      const totalsEnd = drawTotals(ctx, tableEnd + 10);
+      drawPaymentInfo(ctx, totalsEnd + 10);
+      drawPageNumbers(ctx);
+
+      doc.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+module.exports = {
+  renderInvoiceHTML,
+  renderInvoicePDF,
+  formatMoney,
+  formatDate,
+};
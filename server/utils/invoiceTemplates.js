@@ -0,0 +1,358 @@
+/**
+ * Invoice HTML templates
+ *
+ * Stylesheets for the invoice templates selectable in System Settings
+ * (default_invoice_template). Used by invoiceRenderer for the HTML output.
+ */
+
+const INVOICE_TEMPLATES = {
+  modern: {
+    name: 'Modern',
+    description: 'Clean, modern design with subtle colors',
+    css: `
+      .invoice-container {
+        font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
+        max-width: 800px;
+        margin: 0 auto;
+        padding: 20px;
+        background: #ffffff;
+        color: #333;
+      }
+      .invoice-header {
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+        margin-bottom: 30px;
+        padding-bottom: 20px;
+        border-bottom: 2px solid #e0e0e0;
+      }
+      .company-info h1 {
+        color: #2c3e50;
+        margin: 0;
+        font-size: 28px;
+        font-weight: 300;
+      }
+      .company-details {
+        color: #7f8c8d;
+        font-size: 14px;
+        line-height: 1.4;
+      }
+      .invoice-details {
+        text-align: right;
+        color: #34495e;
+      }
+      .invoice-details h2 {
+        margin: 0 0 10px 0;
+        color: #2c3e50;
+        font-size: 24px;
+      }
+      .invoice-meta {
+        font-size: 14px;
+        line-height: 1.6;
+      }
+      .customer-section {
+        margin: 30px 0;
+        padding: 20px;
+        background: #f8f9fa;
+        border-radius: 8px;
+      }
+      .customer-section h3 {
+        margin: 0 0 15px 0;
+        color: #2c3e50;
+        font-size: 18px;
+      }
+      .items-table {
+        width: 100%;
+        border-collapse: collapse;
+        margin: 30px 0;
+      }
+      .items-table th {
+        background: #34495e;
+        color: white;
+        padding: 15px;
+        text-align: left;
+        font-weight: 500;
+      }
+      .items-table td {
+        padding: 15px;
+        border-bottom: 1px solid #e0e0e0;
+      }
+      .items-table tr:nth-child(even) {
+        background: #f8f9fa;
+      }
+      .totals-section {
+        margin-top: 30px;
+        text-align: right;
+      }
+      .totals-table {
+        display: inline-block;
+        min-width: 300px;
+      }
+      .totals-table td {
+        padding: 8px 15px;
+        border-bottom: 1px solid #e0e0e0;
+      }
+      .totals-table .total-row {
+        font-weight: bold;
+        font-size: 18px;
+        background: #34495e;
+        color: white;
+      }
+      .notes-section {
+        margin-top: 30px;
+        padding: 20px;
+        background: #f8f9fa;
+        border-radius: 8px;
+      }
+      .notes-section h3 {
+        margin: 0 0 15px 0;
+        color: #2c3e50;
+      }
+      .footer {
+        margin-top: 40px;
+        text-align: center;
+        color: #7f8c8d;
+        font-size: 12px;
+        border-top: 1px solid #e0e0e0;
+        padding-top: 20px;
+      }
+    `
+  },
+  classic: {
+    name: 'Classic',
+    description: 'Traditional business invoice design',
+    css: `
+      .invoice-container {
+        font-family: 'Times New Roman', serif;
+        max-width: 800px;
+        margin: 0 auto;
+        padding: 20px;
+        background: #ffffff;
+        color: #000;
+      }
+      .invoice-header {
+        display: flex;
+        justify-content: space-between;
+        align-items: flex-start;
+        margin-bottom: 30px;
+        padding-bottom: 20px;
+        border-bottom: 3px solid #000;
+      }
+      .company-info h1 {
+        color: #000;
+        margin: 0;
+        font-size: 32px;
+        font-weight: bold;
+        text-transform: uppercase;
+        letter-spacing: 2px;
+      }
+      .company-details {
+        color: #333;
+        font-size: 14px;
+        line-height: 1.5;
+        margin-top: 10px;
+      }
+      .invoice-details {
+        text-align: right;
+        color: #000;
+      }
+      .invoice-details h2 {
+        margin: 0 0 15px 0;
+        color: #000;
+        font-size: 28px;
+        font-weight: bold;
+      }
+      .invoice-meta {
+        font-size: 14px;
+        line-height: 1.8;
+      }
+      .customer-section {
+        margin: 30px 0;
+        padding: 20px;
+        border: 2px solid #000;
+      }
+      .customer-section h3 {
+        margin: 0 0 15px 0;
+        color: #000;
+        font-size: 20px;
+        font-weight: bold;
+        text-transform: uppercase;
+      }
+      .items-table {
+        width: 100%;
+        border-collapse: collapse;
+        margin: 30px 0;
+        border: 2px solid #000;
+      }
+      .items-table th {
+        background: #000;
+        color: white;
+        padding: 15px;
+        text-align: left;
+        font-weight: bold;
+        text-transform: uppercase;
+      }
+      .items-table td {
+        padding: 15px;
+        border-bottom: 1px solid #000;
+        border-right: 1px solid #000;
+      }
+      .items-table td:last-child {
+        border-right: none;
+      }
+      .totals-section {
+        margin-top: 30px;
+        text-align: right;
+      }
+      .totals-table {
+        display: inline-block;
+        min-width: 300px;
+        border: 2px solid #000;
+      }
+      .totals-table td {
+        padding: 10px 15px;
+        border-bottom: 1px solid #000;
+      }
+      .totals-table .total-row {
+        font-weight: bold;
+        font-size: 20px;
+        background: #000;
+        color: white;
+      }
+      .notes-section {
+        margin-top: 30px;
+        padding: 20px;
+        border: 2px solid #000;
+      }
+      .notes-section h3 {
+        margin: 0 0 15px 0;
+        color: #000;
+        font-size: 18px;
+        font-weight: bold;
+        text-transform: uppercase;
+      }
+      .footer {
+        margin-top: 40px;
+        text-align: center;
+        color: #666;
+        font-size: 12px;
+        border-top: 2px solid #000;
+        padding-top: 20px;
+      }
+    `
+  },
+  minimal: {
+    name: 'Minimal',
+    description: 'Simple, clean design with minimal styling',
+    css: `
+      .invoice-container {
+        font-family: Arial, sans-serif;
+        max-width: 800px;
+        margin: 0 auto;
+        padding: 20px;
+        background: #ffffff;
+        color: #333;
+      }
+      .invoice-header {
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+        margin-bottom: 40px;
+        padding-bottom: 20px;
+        border-bottom: 1px solid #ddd;
+      }
+      .company-info h1 {
+        color: #333;
+        margin: 0;
+        font-size: 24px;
+        font-weight: normal;
+      }
+      .company-details {
+        color: #666;
+        font-size: 14px;
+        line-height: 1.4;
+        margin-top: 5px;
+      }
+      .invoice-details {
+        text-align: right;
+        color: #333;
+      }
+      .invoice-details h2 {
+        margin: 0 0 10px 0;
+        color: #333;
+        font-size: 20px;
+        font-weight: normal;
+      }
+      .invoice-meta {
+        font-size: 14px;
+        line-height: 1.6;
+      }
+      .customer-section {
+        margin: 30px 0;
+      }
+      .customer-section h3 {
+        margin: 0 0 15px 0;
+        color: #333;
+        font-size: 16px;
+        font-weight: normal;
+      }
+      .items-table {
+        width: 100%;
+        border-collapse: collapse;
+        margin: 30px 0;
+      }
+      .items-table th {
+        background: #f5f5f5;
+        color: #333;
+        padding: 12px;
+        text-align: left;
+        font-weight: normal;
+        border-bottom: 1px solid #ddd;
+      }
+      .items-table td {
+        padding: 12px;
+        border-bottom: 1px solid #eee;
+      }
+      .totals-section {
+        margin-top: 30px;
+        text-align: right;
+      }
+      .totals-table {
+        display: inline-block;
+        min-width: 250px;
+      }
+      .totals-table td {
+        padding: 8px 12px;
+        border-bottom: 1px solid #eee;
+      }
+      .totals-table .total-row {
+        font-weight: bold;
+        font-size: 16px;
+        border-top: 2px solid #333;
+      }
+      .notes-section {
+        margin-top: 30px;
+      }
+      .notes-section h3 {
+        margin: 0 0 15px 0;
+        color: #333;
+        font-size: 16px;
+        font-weight: normal;
+      }
+      .footer {
+        margin-top: 40px;
+        text-align: center;
+        color: #999;
+        font-size: 12px;
+        border-top: 1px solid #eee;
+        padding-top: 20px;
+      }
+    `
+  }
+};
+
+function getInvoiceTemplate(id) {
+  return INVOICE_TEMPLATES[id] || INVOICE_TEMPLATES.modern;
+}
+
+module.exports = { INVOICE_TEMPLATES, getInvoiceTemplate };
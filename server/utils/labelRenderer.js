@@ -0,0 +1,130 @@
+/**
+ * Label Renderer
+ *
+ * Printable A4 label sheets for parts and tools: 3 x 8 labels of 70 x 37 mm
+ * (the common adhesive sheet layout), each with the part or tool number as
+ * a Code 128 barcode or a QR code, the number in plain text, the name and
+ * the storage location. The barcode carries only the number, which is what
+ * the packing list and stocktake scan inputs look up.
+ */
+
+const fs = require('fs');
+const PDFDocument = require('pdfkit');
+const QRCode = require('qrcode');
+const { code128Bars } = require('./barcode');
+
+const FONT_REGULAR_PATH = process.env.INVOICE_FONT_PATH || '/usr/share/fonts/truetype/dejavu/DejaVuSans.ttf';
+const FONT_BOLD_PATH = process.env.INVOICE_FONT_BOLD_PATH || '/usr/share/fonts/truetype/dejavu/DejaVuSans-Bold.ttf';
+
+const MM = 72 / 25.4;
+const COLUMNS = 3;
+const ROWS = 8;
+const LABEL_WIDTH = 70 * MM;
+const LABEL_HEIGHT = 37 * MM;
+const LABEL_PADDING = 3 * MM;
+const SYMBOLOGIES = ['code128', 'qr'];
+
+function setupFonts(doc) {
+  if (fs.existsSync(FONT_REGULAR_PATH) && fs.existsSync(FONT_BOLD_PATH)) {
+    doc.registerFont('LabelRegular', FONT_REGULAR_PATH);
+    doc.registerFont('LabelBold', FONT_BOLD_PATH);
+    return { regular: 'LabelRegular', bold: 'LabelBold' };
+  }
+  return { regular: 'Helvetica', bold: 'Helvetica-Bold' };
+}
+
+function drawCode128(doc, text, x, y, width, height) {
+  const symbol = code128Bars(text);
+  const module = width / symbol.width;
+  symbol.bars.forEach((bar) => {
+    doc.rect(x + bar.x * module, y, bar.width * module, height);
+  });
+  doc.fill('#000000');
+}
+
+function drawQr(doc, text, x, y, size) {
+  const { modules } = QRCode.create(text, { errorCorrectionLevel: 'M' });
+  // One module of quiet zone on each side keeps neighbouring text out of the code
+  const module = size / (modules.size + 2);
+  for (let row = 0; row < modules.size; row += 1) {
+    for (let col = 0; col < modules.size; col += 1) {
+      if (modules.get(row, col)) {
+        doc.rect(x + (col + 1) * module, y + (row + 1) * module, module, module);
+      }
+    }
+  }
+  doc.fill('#000000');
+}
+
+function drawText(doc, fonts, label, x, y, width) {
+  doc.font(fonts.bold).fontSize(10).fillColor('#000000')
+    .text(label.code, x, y, { width, lineBreak: false, ellipsis: true });
+  if (label.name) {
+    doc.font(fonts.regular).fontSize(7)
+      .text(label.name, x, y + 13, { width, height: 18, ellipsis: true });
+  }
+  if (label.location) {
+    doc.font(fonts.regular).fontSize(6).fillColor('#555555')
+      .text(label.location, x, y + 32, { width, lineBreak: false, ellipsis: true });
+  }
+}
+
+function drawLabel(doc, fonts, label, symbology, x, y) {
+  const innerX = x + LABEL_PADDING;
+  const innerY = y + LABEL_PADDING;
+  const innerWidth = LABEL_WIDTH - 2 * LABEL_PADDING;
+  const innerHeight = LABEL_HEIGHT - 2 * LABEL_PADDING;
+
+  if (symbology === 'qr') {
+    drawQr(doc, label.code, innerX, innerY, innerHeight);
+    drawText(doc, fonts, label, innerX + innerHeight + 2 * MM, innerY + 2 * MM, innerWidth - innerHeight - 2 * MM);
+    return;
+  }
+  drawText(doc, fonts, label, innerX, innerY, innerWidth);
+  drawCode128(doc, label.code, innerX, innerY + innerHeight - 12 * MM, innerWidth, 12 * MM);
+}
+
+/**
+ * Render labels ({ code, name?, location? }) onto A4 sheets, `copies` of
+ * each. Resolves with the PDF bytes.
+ */
+function renderLabelSheet(labels, { symbology = 'code128', copies = 1, title = 'Labels' } = {}) {
+  return new Promise((resolve, reject) => {
+    try {
+      if (!SYMBOLOGIES.includes(symbology)) {
+        throw new Error(`symbology must be one of: ${SYMBOLOGIES.join(', ')}`);
+      }
+      const doc = new PDFDocument({ size: 'A4', margin: 0, autoFirstPage: false, info: { Title: title } });
+      const chunks = [];
+      doc.on('data', (chunk) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+
+      const fonts = setupFonts(doc);
+      const expanded = labels.flatMap((label) => Array(copies).fill(label));
+      const perPage = COLUMNS * ROWS;
+      expanded.forEach((label, index) => {
+        const slot = index % perPage;
+        if (slot === 0) {
+          doc.addPage();
+        }
+        const left = (doc.page.width - COLUMNS * LABEL_WIDTH) / 2;
+        const top = (doc.page.height - ROWS * LABEL_HEIGHT) / 2;
+        drawLabel(doc, fonts, label, symbology,
+          left + (slot % COLUMNS) * LABEL_WIDTH, top + Math.floor(slot / COLUMNS) * LABEL_HEIGHT);
+      });
+      if (expanded.length === 0) {
+        doc.addPage();
+      }
+
+      doc.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+module.exports = {
+  SYMBOLOGIES,
+  renderLabelSheet,
+};
@@ -170,6 +170,23 @@ class NotificationService {
       'normal'
     );
   }
+
+  // Create tool maintenance overdue notification
+  async notifyToolMaintenanceOverdue(tool, plans) {
+    const title = `Maintenance Overdue - ${tool.tool_number || tool.tool_name}`;
+    const message = `${tool.tool_name || tool.tool_number} is overdue for maintenance: ` +
+                   plans.map((plan) => (plan.due_date ? `${plan.name} (due ${plan.due_date})` : `${plan.name} (${plan.uses_since_service} uses)`)).join(', ') +
+                   '. It cannot be picked for orders until the maintenance is logged.';
+
+    return await this.createNotification(
+      'tool_maintenance_overdue',
+      title,
+      message,
+      { tool_id: tool.tool_id, tool_number: tool.tool_number, plans },
+      null, // For all admins
+      'high'
+    );
+  }
 }
 
 module.exports = NotificationService;
@@ -0,0 +1,116 @@
+/**
+ * Order lifecycle
+ *
+ * The statuses an order moves through and the transitions allowed between
+ * them: pending -> confirmed -> in_production -> shipped -> delivered, with
+ * cancelled (before shipping) and returned (after shipping) as end states.
+ * Each transition names the roles that may perform it and its side effects:
+ * the timestamp column it sets, whether the order's stock goes back, and who
+ * is notified. Providers and customers may only act on their own orders
+ * (checked by services/orderStatusService). Statuses written before the
+ * lifecycle existed map onto it; the provider payout markers
+ * payment_pending/payment_completed count as delivered.
+ */
+
+const ORDER_STATUSES = ['pending', 'confirmed', 'in_production', 'shipped', 'delivered', 'cancelled', 'returned'];
+const INITIAL_STATUS = 'pending';
+const FINAL_STATUSES = ['cancelled', 'returned'];
+
+const LEGACY_STATUSES = {
+  pending_payment: 'pending',
+  payment_received: 'confirmed',
+  processing: 'in_production',
+  failed: 'cancelled',
+  payment_failed: 'cancelled',
+  refunded: 'cancelled',
+  completed: 'delivered',
+  payment_pending: 'delivered',
+  payment_completed: 'delivered',
+};
+
+const STATUS_TIMESTAMPS = {
+  confirmed: 'confirmed_at',
+  in_production: 'in_production_at',
+  shipped: 'shipped_at',
+  delivered: 'delivered_at',
+  cancelled: 'cancelled_at',
+  returned: 'returned_at',
+};
+
+const FULFILMENT_ROLES = ['admin', 'production', 'provider'];
+
+// from -> to -> { roles, restoreStock, notify (customer | provider | production) }
+const TRANSITIONS = {
+  pending: {
+    confirmed: { roles: ['admin'], notify: ['customer', 'provider', 'production'] },
+    cancelled: { roles: ['admin', 'customer'], restoreStock: true, notify: ['customer', 'provider'] },
+  },
+  confirmed: {
+    in_production: { roles: FULFILMENT_ROLES, notify: [] },
+    shipped: { roles: FULFILMENT_ROLES, notify: ['customer'] },
+    cancelled: { roles: ['admin', 'production'], restoreStock: true, notify: ['customer', 'provider'] },
+  },
+  in_production: {
+    shipped: { roles: FULFILMENT_ROLES, notify: ['customer'] },
+    cancelled: { roles: ['admin', 'production'], restoreStock: true, notify: ['customer', 'provider'] },
+  },
+  shipped: {
+    delivered: { roles: FULFILMENT_ROLES, notify: ['customer'] },
+    returned: { roles: ['admin'], notify: ['customer', 'provider'] },
+  },
+  delivered: {
+    returned: { roles: ['admin'], notify: ['customer', 'provider'] },
+  },
+};
+
+/** Lifecycle status of a stored status (legacy values mapped), or null when unknown. */
+function normalizeStatus(status) {
+  if (!status) {
+    return null;
+  }
+  const value = String(status).trim().toLowerCase();
+  if (ORDER_STATUSES.includes(value)) {
+    return value;
+  }
+  return LEGACY_STATUSES[value] || null;
+}
+
+/**
+ * The transition from one status to another with its timestamp column:
+ * { from, to, roles, restoreStock, notify, timestamp } or null when the
+ * lifecycle does not allow it.
+ */
+function getTransition(from, to) {
+  const fromStatus = normalizeStatus(from);
+  const toStatus = normalizeStatus(to);
+  const transition = fromStatus && toStatus && TRANSITIONS[fromStatus] ? TRANSITIONS[fromStatus][toStatus] : null;
+  if (!transition) {
+    return null;
+  }
+  return {
+    from: fromStatus,
+    to: toStatus,
+    roles: transition.roles,
+    restoreStock: Boolean(transition.restoreStock),
+    notify: transition.notify || [],
+    timestamp: STATUS_TIMESTAMPS[toStatus] || null,
+  };
+}
+
+/** Statuses an order can move to from `from`; with a role, only those that role may perform. */
+function allowedTransitions(from, role = null) {
+  const fromStatus = normalizeStatus(from);
+  const targets = (fromStatus && TRANSITIONS[fromStatus]) || {};
+  return Object.keys(targets).filter((to) => !role || targets[to].roles.includes(role));
+}
+
+module.exports = {
+  ORDER_STATUSES,
+  INITIAL_STATUS,
+  FINAL_STATUSES,
+  LEGACY_STATUSES,
+  STATUS_TIMESTAMPS,
+  normalizeStatus,
+  getTransition,
+  allowedTransitions,
+};
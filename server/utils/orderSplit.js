@@ -0,0 +1,105 @@
+/**
+ * Order split
+ *
+ * A cart may mix platform sets with sets of several providers. Checkout
+ * turns such a cart into one parent order, which the customer sees and pays,
+ * and one sub-order per provider that is packed, shipped and paid out on its
+ * own. Platform sets (no provider) form a sub-order of their own. The parent
+ * carries the totals and the payment; its status follows its sub-orders.
+ */
+
+const { normalizeStatus } = require('./orderLifecycle');
+
+// How far an order has come; the parent is as far as its least advanced sub-order
+const PROGRESS = ['pending', 'confirmed', 'in_production', 'shipped', 'delivered'];
+
+function roundMoney(value) {
+  return Math.round((Number(value) || 0) * 100) / 100;
+}
+
+function providerOf(item, fallbackProviderId = null) {
+  const providerId = item.provider_id !== undefined ? item.provider_id : fallbackProviderId;
+  return providerId ? Number(providerId) : null;
+}
+
+/**
+ * Group order items by the provider of their set, in cart order. Items are
+ * { set_id, quantity, price | unit_price, provider_id? }; items without a
+ * provider_id field belong to `fallbackProviderId`. Returns
+ * [{ provider_id, set_type, items, subtotal }] with provider_id null and
+ * set_type 'admin' for platform sets.
+ */
+function groupByProvider(items, { fallbackProviderId = null } = {}) {
+  const groups = new Map();
+  (items || []).forEach((item) => {
+    const providerId = providerOf(item, fallbackProviderId);
+    if (!groups.has(providerId)) {
+      groups.set(providerId, {
+        provider_id: providerId,
+        set_type: providerId === null ? 'admin' : 'provider',
+        items: [],
+        subtotal: 0,
+      });
+    }
+    const group = groups.get(providerId);
+    group.items.push(item);
+    group.subtotal += Number(item.price ?? item.unit_price ?? 0) * Number(item.quantity);
+  });
+  return [...groups.values()].map((group) => ({ ...group, subtotal: roundMoney(group.subtotal) }));
+}
+
+/**
+ * Split `total` over parts proportional to `weights`, to the cent and
+ * summing exactly to `total` (largest remainders get the leftover cents).
+ * Zero weights everywhere split evenly.
+ */
+function allocateAmount(total, weights) {
+  if (weights.length === 0) {
+    return [];
+  }
+  const cents = Math.round((Number(total) || 0) * 100);
+  const values = weights.map((weight) => Math.max(0, Number(weight) || 0));
+  const sum = values.reduce((acc, value) => acc + value, 0);
+  const shares = values.map((value) => (sum > 0 ? (cents * value) / sum : cents / values.length));
+  const allocated = shares.map(Math.floor);
+  let left = cents - allocated.reduce((acc, value) => acc + value, 0);
+  shares
+    .map((share, index) => ({ index, remainder: share - Math.floor(share) }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index)
+    .forEach(({ index }) => {
+      if (left > 0) {
+        allocated[index] += 1;
+        left -= 1;
+      }
+    });
+  return allocated.map((value) => value / 100);
+}
+
+/** Order number of the `index`th (0-based) sub-order of a parent order. */
+function subOrderNumber(parentNumber, index) {
+  return `${parentNumber}-${index + 1}`;
+}
+
+/**
+ * Status of a parent order from its sub-orders' statuses: cancelled when
+ * every sub-order is, returned when every one still standing is, otherwise
+ * the least advanced status of the sub-orders that are neither.
+ */
+function rollupStatus(statuses) {
+  const standing = statuses.map(normalizeStatus).filter((status) => status && status !== 'cancelled');
+  if (standing.length === 0) {
+    return statuses.length > 0 ? 'cancelled' : null;
+  }
+  const open = standing.filter((status) => status !== 'returned');
+  if (open.length === 0) {
+    return 'returned';
+  }
+  return PROGRESS[Math.min(...open.map((status) => PROGRESS.indexOf(status)))];
+}
+
+module.exports = {
+  groupByProvider,
+  allocateAmount,
+  subOrderNumber,
+  rollupStatus,
+};
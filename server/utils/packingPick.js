@@ -0,0 +1,138 @@
+/**
+ * Packing pick
+ *
+ * Scan-driven picking against an order's packing list. Every line (one part
+ * or tool with its total_quantity_needed) keeps a picked count; a scanned
+ * code adds to the line with that part or tool number. Scans of codes that
+ * are not on the list, or that would pick more than needed, are refused
+ * with a warning instead of being counted. The order can be marked packed
+ * once every required line is fully picked; optional lines do not block it.
+ */
+
+function normalizeCode(code) {
+  return String(code === null || code === undefined ? '' : code).trim().toUpperCase();
+}
+
+function lineCode(line) {
+  return line.type === 'tool' ? line.tool_number : line.part_number;
+}
+
+function lineName(line) {
+  return line.type === 'tool' ? line.tool_name : line.part_name;
+}
+
+function lineItemId(line) {
+  return line.type === 'tool' ? line.tool_id : line.part_id;
+}
+
+/** A line is required unless every set it comes from has it as optional. */
+function isRequiredLine(line) {
+  if (line.type === 'tool') {
+    return line.is_required !== false && !line.is_optional;
+  }
+  return !line.is_optional;
+}
+
+function findLineByCode(lines, code) {
+  const wanted = normalizeCode(code);
+  return (lines || []).find((line) => wanted !== '' && normalizeCode(lineCode(line)) === wanted) || null;
+}
+
+/**
+ * Outcome of scanning `code` (`quantity` units) against the packing lines
+ * ({ type, part_number | tool_number, total_quantity_needed, picked_quantity }):
+ * { status: 'picked' | 'line_complete' | 'excess' | 'not_in_order', accepted,
+ *   line, picked_quantity, remaining_quantity, message }.
+ * Only accepted scans should be stored.
+ */
+function evaluateScan(lines, code, quantity = 1) {
+  const line = findLineByCode(lines, code);
+  if (!line) {
+    return {
+      status: 'not_in_order',
+      accepted: false,
+      line: null,
+      picked_quantity: null,
+      remaining_quantity: null,
+      message: `${String(code || '').trim()} is not on this packing list`,
+    };
+  }
+  const needed = Number(line.total_quantity_needed) || 0;
+  const picked = Number(line.picked_quantity) || 0;
+  if (picked + quantity > needed) {
+    return {
+      status: 'excess',
+      accepted: false,
+      line,
+      picked_quantity: picked,
+      remaining_quantity: Math.max(needed - picked, 0),
+      message: picked >= needed
+        ? `${lineCode(line)} is already complete (${needed} of ${needed})`
+        : `${lineCode(line)}: only ${needed - picked} more needed, scanned ${quantity}`,
+    };
+  }
+  const pickedAfter = picked + quantity;
+  return {
+    status: pickedAfter === needed ? 'line_complete' : 'picked',
+    accepted: true,
+    line,
+    picked_quantity: pickedAfter,
+    remaining_quantity: needed - pickedAfter,
+    message: `${lineCode(line)}: ${pickedAfter} of ${needed} picked`,
+  };
+}
+
+/**
+ * Picking progress over the packing lines: counts, picked vs needed units,
+ * the required lines still missing and whether the order can be packed.
+ */
+function pickingProgress(lines) {
+  const progress = {
+    total_lines: 0,
+    completed_lines: 0,
+    required_lines: 0,
+    completed_required_lines: 0,
+    needed_units: 0,
+    picked_units: 0,
+    missing: [],
+    complete: false,
+  };
+  (lines || []).forEach((line) => {
+    const needed = Number(line.total_quantity_needed) || 0;
+    const picked = Math.min(Number(line.picked_quantity) || 0, needed);
+    const done = picked >= needed;
+    progress.total_lines += 1;
+    progress.needed_units += needed;
+    progress.picked_units += picked;
+    if (done) {
+      progress.completed_lines += 1;
+    }
+    if (isRequiredLine(line)) {
+      progress.required_lines += 1;
+      if (done) {
+        progress.completed_required_lines += 1;
+      } else {
+        progress.missing.push({
+          type: line.type,
+          item_id: lineItemId(line),
+          code: lineCode(line),
+          name: lineName(line),
+          needed_quantity: needed,
+          picked_quantity: picked,
+        });
+      }
+    }
+  });
+  progress.complete = progress.total_lines > 0 && progress.missing.length === 0;
+  return progress;
+}
+
+module.exports = {
+  normalizeCode,
+  lineCode,
+  lineItemId,
+  isRequiredLine,
+  findLineByCode,
+  evaluateScan,
+  pickingProgress,
+};
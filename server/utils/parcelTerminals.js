@@ -0,0 +1,143 @@
+/**
+ * Parcel terminals
+ *
+ * Reads parcel terminal (locker) lists downloaded from the carriers so they
+ * can be imported without calling the carriers' APIs: Omniva's locations
+ * JSON (ZIP, NAME, A0_NAME ... X/Y_COORDINATE; TYPE 0 are terminals, 1 post
+ * offices), or a generic JSON array / CSV file with the columns code, name,
+ * address, city, postal_code, country, latitude and longitude (comma or
+ * semicolon separated, first row the header). Rows without a code or name,
+ * or of another type, are skipped.
+ */
+
+const TERMINAL_FIELDS = ['code', 'name', 'address', 'city', 'postal_code', 'country', 'latitude', 'longitude'];
+
+function text(value) {
+  return value === undefined || value === null ? '' : String(value).trim();
+}
+
+function coordinate(value) {
+  const number = Number(String(value === undefined || value === null ? '' : value).replace(',', '.'));
+  return text(value) && Number.isFinite(number) ? number : null;
+}
+
+/** Split one CSV line, honouring double-quoted fields. */
+function splitCsvLine(line, delimiter) {
+  const cells = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i += 1) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells.map((value) => value.trim());
+}
+
+function parseCsv(content) {
+  const lines = content.split(/\r?\n/).filter((line) => line.trim());
+  if (lines.length === 0) {
+    return [];
+  }
+  const delimiter = (lines[0].match(/;/g) || []).length > (lines[0].match(/,/g) || []).length ? ';' : ',';
+  const header = splitCsvLine(lines[0], delimiter).map((name) => name.toLowerCase().replace(/[\s-]+/g, '_'));
+  return lines.slice(1).map((line) => {
+    const cells = splitCsvLine(line, delimiter);
+    return Object.fromEntries(header.map((name, index) => [name, cells[index]]));
+  });
+}
+
+function isOmnivaRow(row) {
+  return row && typeof row === 'object' && 'ZIP' in row && 'NAME' in row;
+}
+
+function fromOmniva(row) {
+  if (text(row.TYPE) && text(row.TYPE) !== '0') {
+    return null;
+  }
+  const street = [text(row.A5_NAME), text(row.A7_NAME)].filter(Boolean).join(' ');
+  return {
+    code: text(row.ZIP),
+    name: text(row.NAME),
+    address: street || text(row.A1_NAME),
+    city: text(row.A2_NAME) || text(row.A1_NAME),
+    postal_code: text(row.ZIP),
+    country: text(row.A0_NAME).toUpperCase(),
+    latitude: coordinate(row.Y_COORDINATE),
+    longitude: coordinate(row.X_COORDINATE),
+  };
+}
+
+function fromGeneric(row) {
+  const terminal = Object.fromEntries(TERMINAL_FIELDS.map((field) => [field, text(row[field])]));
+  terminal.country = terminal.country.toUpperCase();
+  terminal.latitude = coordinate(row.latitude);
+  terminal.longitude = coordinate(row.longitude);
+  return terminal;
+}
+
+/**
+ * Terminals of a downloaded list (JSON or CSV text): { terminals, skipped }.
+ * Terminals are { code, name, address, city, postal_code, country, latitude,
+ * longitude }; a code listed twice keeps its last row. Rows without a
+ * country get `defaultCountry`.
+ */
+function parseTerminalList(content, { defaultCountry = '' } = {}) {
+  const source = text(content).replace(/^\uFEFF/, '');
+  if (!source) {
+    throw new Error('The terminal list is empty');
+  }
+  let rows;
+  if (source.startsWith('[') || source.startsWith('{')) {
+    let parsed;
+    try {
+      parsed = JSON.parse(source);
+    } catch (error) {
+      throw new Error(`The terminal list is not valid JSON: ${error.message}`);
+    }
+    rows = Array.isArray(parsed) ? parsed : parsed.terminals || parsed.locations || [];
+  } else {
+    rows = parseCsv(source);
+  }
+
+  const byCode = new Map();
+  let skipped = 0;
+  rows.forEach((row) => {
+    const terminal = isOmnivaRow(row) ? fromOmniva(row) : fromGeneric(row || {});
+    if (!terminal || !terminal.code || !terminal.name) {
+      skipped += 1;
+      return;
+    }
+    terminal.country = terminal.country || text(defaultCountry).toUpperCase();
+    byCode.set(terminal.code, terminal);
+  });
+  return { terminals: [...byCode.values()], skipped };
+}
+
+/** One-line description of a terminal for labels, orders and emails. */
+function terminalLabel(terminal) {
+  const place = [terminal.address, [terminal.postal_code, terminal.city].filter(Boolean).join(' ')].filter(Boolean).join(', ');
+  return place ? `${terminal.name} (${place})` : terminal.name;
+}
+
+module.exports = {
+  TERMINAL_FIELDS,
+  parseTerminalList,
+  terminalLabel,
+};
@@ -0,0 +1,99 @@
+/**
+ * Part lots
+ *
+ * Batch/lot tracking for consumables (batteries, glue, sensors on a given
+ * firmware). Each lot of a part keeps its remaining quantity; the part's
+ * total stays parts.stock_quantity. Stock not booked to any lot (received
+ * before tracking started, or without a lot number) is "untracked". Lots are
+ * used first-expired-first-out (FEFO): earliest expiry first, lots without
+ * an expiry date last, then oldest received. Expired lots are never picked.
+ */
+
+/** YYYY-MM-DD of a date or date-time value, or null. */
+function toDateOnly(value) {
+  if (!value) {
+    return null;
+  }
+  const date = value instanceof Date ? value : new Date(String(value).replace(' ', 'T'));
+  return Number.isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10);
+}
+
+/** FEFO order: expiry ascending (none last), then received_at, then lot_id. */
+function compareFefo(a, b) {
+  const expiryA = toDateOnly(a.expiry_date);
+  const expiryB = toDateOnly(b.expiry_date);
+  if (expiryA !== expiryB) {
+    if (!expiryA) {
+      return 1;
+    }
+    if (!expiryB) {
+      return -1;
+    }
+    return expiryA.localeCompare(expiryB);
+  }
+  return String(a.received_at || '').localeCompare(String(b.received_at || ''))
+    || (Number(a.lot_id) || 0) - (Number(b.lot_id) || 0);
+}
+
+/** True when the lot's expiry date is before `today`. */
+function isExpired(lot, today = new Date()) {
+  const expiry = toDateOnly(lot.expiry_date);
+  return Boolean(expiry) && expiry < toDateOnly(today);
+}
+
+/**
+ * Lots of one part reconciled with its total: when the lots hold more than
+ * `total` (stock removed without naming a lot), the difference comes out of
+ * them in FEFO order, the way it would have been picked. Returns { lots
+ * (FEFO, quantity > 0), untracked_quantity, total }.
+ */
+function reconcileLots(lots, total) {
+  const stock = Math.max(Number(total) || 0, 0);
+  const sorted = (lots || [])
+    .map((lot) => ({ ...lot, quantity: Math.max(Number(lot.quantity) || 0, 0) }))
+    .sort(compareFefo);
+  let excess = sorted.reduce((sum, lot) => sum + lot.quantity, 0) - stock;
+  sorted.forEach((lot) => {
+    if (excess > 0) {
+      const taken = Math.min(lot.quantity, excess);
+      lot.quantity -= taken;
+      excess -= taken;
+    }
+  });
+  const tracked = sorted.reduce((sum, lot) => sum + lot.quantity, 0);
+  return {
+    lots: sorted.filter((lot) => lot.quantity > 0),
+    untracked_quantity: stock - tracked,
+    total: stock,
+  };
+}
+
+/**
+ * Which lots `quantity` units come out of, FEFO, skipping expired lots:
+ * { allocations: [{ lot_id, lot_number, expiry_date, quantity }], short }
+ * where short is what the lots could not cover.
+ */
+function allocateFefo(lots, quantity, { today = new Date() } = {}) {
+  let remaining = Math.max(Number(quantity) || 0, 0);
+  const allocations = [];
+  [...(lots || [])]
+    .filter((lot) => !isExpired(lot, today))
+    .sort(compareFefo)
+    .forEach((lot) => {
+      const available = Math.max(Number(lot.quantity) || 0, 0);
+      if (remaining > 0 && available > 0) {
+        const taken = Math.min(available, remaining);
+        allocations.push({ lot_id: lot.lot_id, lot_number: lot.lot_number, expiry_date: lot.expiry_date || null, quantity: taken });
+        remaining -= taken;
+      }
+    });
+  return { allocations, short: remaining };
+}
+
+module.exports = {
+  toDateOnly,
+  compareFefo,
+  isExpired,
+  reconcileLots,
+  allocateFefo,
+};
@@ -0,0 +1,233 @@
+/**
+ * Payment Matcher
+ *
+ * Scores open orders against an incoming bank transaction so an admin only
+ * has to review the suggestions. Signals, strongest first:
+ * - the order number (or its numeric part) in the reference or description
+ * - the invoice number in the reference or description
+ * - the amount, exact or within 1%, against what is still unpaid
+ * - the payer name against the customer's name or company
+ * When one transfer pays several orders, a split across them is proposed.
+ */
+
+const SCORES = {
+  orderNumber: 60,
+  invoiceNumber: 50,
+  exactAmount: 30,
+  closeAmount: 15,
+  name: 20,
+};
+
+/** Suggestions below this are noise (e.g. only a similar name). */
+const MIN_SCORE = 30;
+const MAX_SUGGESTIONS = 5;
+const MAX_SPLIT_ORDERS = 8;
+
+function roundMoney(value) {
+  return Math.round((Number(value) || 0) * 100) / 100;
+}
+
+function normalizeText(value) {
+  return String(value || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+}
+
+/** "MEIE MARI" and "Mari Meie" compare equal: tokens are sorted. */
+function nameKey(value) {
+  return normalizeText(value)
+    .replace(/\b(as|ou|oy|ab|ltd|llc|gmbh|mtu|sa)\b/g, ' ')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .sort()
+    .join(' ');
+}
+
+function bigrams(text) {
+  const grams = [];
+  for (let i = 0; i < text.length - 1; i++) {
+    grams.push(text.slice(i, i + 2));
+  }
+  return grams;
+}
+
+/** Dice coefficient of the character bigrams of two names, 0..1. */
+function nameSimilarity(a, b) {
+  const left = nameKey(a);
+  const right = nameKey(b);
+  if (!left || !right) {
+    return 0;
+  }
+  if (left === right) {
+    return 1;
+  }
+  const leftGrams = bigrams(left);
+  const rightGrams = bigrams(right);
+  if (leftGrams.length === 0 || rightGrams.length === 0) {
+    return 0;
+  }
+  const remaining = [...rightGrams];
+  let shared = 0;
+  leftGrams.forEach((gram) => {
+    const index = remaining.indexOf(gram);
+    if (index > -1) {
+      shared++;
+      remaining.splice(index, 1);
+    }
+  });
+  return (2 * shared) / (leftGrams.length + rightGrams.length);
+}
+
+function outstanding(order) {
+  return roundMoney((Number(order.total_amount) || 0) - (Number(order.payment_amount) || 0));
+}
+
+function customerNames(order) {
+  const person = [order.customer_first_name, order.customer_last_name].filter(Boolean).join(' ');
+  return [person, order.customer_company_name].filter(Boolean);
+}
+
+/** Does the payment text mention this order, either in full or by its unique numeric part? */
+function mentionsOrder(text, orderNumber) {
+  if (!orderNumber) {
+    return false;
+  }
+  const compact = text.replace(/\s+/g, '');
+  if (compact.includes(orderNumber.toLowerCase())) {
+    return true;
+  }
+  const digits = orderNumber.match(/\d{10,}/);
+  return Boolean(digits && new RegExp(`(^|\\D)${digits[0]}(\\D|$)`).test(compact));
+}
+
+/**
+ * Score one order against a transaction.
+ *
+ * @param {Object} transaction - { amount, counterpartyName, reference, description }
+ * @param {Object} order - open order with total_amount, payment_amount, order_number,
+ *   invoice_number and customer_first_name / customer_last_name / customer_company_name
+ * @returns {{score: number, reasons: string[]}}
+ */
+function scoreOrder(transaction, order) {
+  const text = normalizeText(`${transaction.reference || ''} ${transaction.description || ''}`);
+  const reasons = [];
+  let score = 0;
+
+  if (mentionsOrder(text, normalizeText(order.order_number))) {
+    score += SCORES.orderNumber;
+    reasons.push('order_number');
+  }
+  if (order.invoice_number && text.replace(/\s+/g, '').includes(normalizeText(order.invoice_number))) {
+    score += SCORES.invoiceNumber;
+    reasons.push('invoice_number');
+  }
+
+  const due = outstanding(order);
+  const amount = roundMoney(transaction.amount);
+  if (due > 0 && Math.abs(amount - due) < 0.005) {
+    score += SCORES.exactAmount;
+    reasons.push('exact_amount');
+  } else if (due > 0 && Math.abs(amount - due) <= due * 0.01) {
+    score += SCORES.closeAmount;
+    reasons.push('close_amount');
+  }
+
+  const similarity = Math.max(0, ...customerNames(order).map((name) => nameSimilarity(transaction.counterpartyName, name)));
+  if (similarity >= 0.5) {
+    score += Math.round(SCORES.name * similarity);
+    reasons.push('name');
+  }
+
+  return { score, reasons };
+}
+
+function confidence(score) {
+  if (score >= 80) {
+    return 'high';
+  }
+  if (score >= 50) {
+    return 'medium';
+  }
+  return 'low';
+}
+
+/** First subset of `orders` whose unpaid amounts add up exactly to `amount`. */
+function findExactSubset(orders, amount) {
+  const candidates = orders.slice(0, MAX_SPLIT_ORDERS);
+  const target = Math.round(amount * 100);
+  for (let mask = 1; mask < (1 << candidates.length); mask++) {
+    const picked = candidates.filter((order, index) => mask & (1 << index));
+    if (picked.length < 2) {
+      continue;
+    }
+    const sum = picked.reduce((total, order) => total + Math.round(outstanding(order) * 100), 0);
+    if (sum === target) {
+      return picked;
+    }
+  }
+  return null;
+}
+
+/**
+ * A split over several orders when no single order takes the whole amount:
+ * orders the payment text names, or else orders of the same payer.
+ */
+function suggestSplit(transaction, scored) {
+  const mentioned = scored.filter((entry) => entry.reasons.includes('order_number') || entry.reasons.includes('invoice_number'));
+  const samePayer = scored.filter((entry) => entry.reasons.includes('name'));
+  for (const group of [mentioned, samePayer]) {
+    const subset = findExactSubset(group.map((entry) => entry.order), transaction.amount);
+    if (subset) {
+      return subset.map((order) => ({
+        order_id: order.order_id,
+        order_number: order.order_number,
+        amount: outstanding(order),
+      }));
+    }
+  }
+  return null;
+}
+
+/**
+ * Rank open orders for a transaction.
+ *
+ * @param {Object} transaction
+ * @param {Array<Object>} orders - open orders (see scoreOrder)
+ * @returns {{suggestions: Array<Object>, split: Array<{order_id, order_number, amount}>|null}}
+ */
+function matchTransaction(transaction, orders) {
+  const scored = orders
+    .filter((order) => outstanding(order) > 0)
+    .map((order) => ({ order, ...scoreOrder(transaction, order) }))
+    .filter((entry) => entry.score > 0)
+    .sort((a, b) => b.score - a.score);
+
+  const suggestions = scored
+    .filter((entry) => entry.score >= MIN_SCORE)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ order, score, reasons }) => ({
+      order_id: order.order_id,
+      order_number: order.order_number,
+      invoice_number: order.invoice_number || null,
+      customer_name: customerNames(order)[0] || order.customer_email || '',
+      order_total: roundMoney(order.total_amount),
+      outstanding: outstanding(order),
+      score,
+      confidence: confidence(score),
+      reasons,
+    }));
+
+  const fullMatch = suggestions.some((suggestion) => suggestion.reasons.includes('exact_amount'));
+  return {
+    suggestions,
+    split: fullMatch ? null : suggestSplit(transaction, scored),
+  };
+}
+
+module.exports = {
+  nameSimilarity,
+  scoreOrder,
+  matchTransaction,
+  outstanding,
+};
@@ -0,0 +1,114 @@
+/**
+ * Purchase planning
+ *
+ * Reorder points and order quantities for parts, using the same rules as
+ * InventoryOptimizationAI.calculateOptimalReorderPoints (daily usage over six
+ * months, lead time times a safety multiplier, simplified economic order
+ * quantity), but with the supplier's own lead time and minimum order
+ * quantity, and counting stock already on order. When a demand forecast
+ * over the lead time is available (utils/demandForecast), the reorder point
+ * is its upper bound instead: expected demand plus safety stock. Also derives
+ * the status of a purchase order from what has been received against it.
+ */
+
+const DEFAULT_LEAD_TIME_DAYS = 7;
+const USAGE_WINDOW_DAYS = 180;
+// Fixed cost of placing one order, in the economic order quantity formula
+const ORDERING_COST = 10;
+
+const PURCHASE_ORDER_STATUSES = ['draft', 'sent', 'partially_received', 'received', 'cancelled'];
+
+/**
+ * Reorder plan for one part.
+ * @param {object} part
+ * @param {number} part.stock - stock on hand
+ * @param {number} [part.minimumStockLevel]
+ * @param {number} [part.usage] - units used in the last 180 days
+ * @param {number|null} [part.unitCost]
+ * @param {number|null} [part.leadTimeDays] - supplier lead time (default 7)
+ * @param {number|null} [part.minimumOrderQuantity] - supplier MOQ
+ * @param {number} [part.onOrder] - quantity on open purchase orders
+ * @param {{ point: number, upper: number }|null} [part.leadTimeForecast] - forecast demand over the lead time
+ * @returns {{ dailyUsage: number, reorderPoint: number, economicOrderQuantity: number,
+ *   position: number, needsReorder: boolean, orderQuantity: number }}
+ */
+function reorderPlan({
+  stock,
+  minimumStockLevel = 0,
+  usage = 0,
+  unitCost = null,
+  leadTimeDays = null,
+  minimumOrderQuantity = null,
+  onOrder = 0,
+  leadTimeForecast = null,
+}) {
+  const onHand = Number(stock) || 0;
+  const minimum = Math.max(Number(minimumStockLevel) || 0, 0);
+  const used = Math.max(Number(usage) || 0, 0);
+  const cost = Number(unitCost) || 0;
+  const leadTime = Number(leadTimeDays) > 0 ? Number(leadTimeDays) : DEFAULT_LEAD_TIME_DAYS;
+
+  const forecastDemand = leadTimeForecast ? Math.max(Number(leadTimeForecast.point) || 0, 0) : 0;
+  const useForecast = forecastDemand > 0;
+  let dailyUsage = used === 0 ? 0 : Math.max(0.1, used / USAGE_WINDOW_DAYS);
+  if (useForecast) {
+    dailyUsage = forecastDemand / leadTime;
+  }
+  let safetyMultiplier = 1;
+  if (onHand === 0 && minimum === 0) {
+    safetyMultiplier = 2;
+  } else if (minimum > 0) {
+    safetyMultiplier = 1.5;
+  }
+
+  // Parts with neither usage nor a minimum level are not stocked to a target
+  let reorderPoint = used === 0 ? minimum : Math.max(minimum, Math.ceil(dailyUsage * leadTime * safetyMultiplier));
+  if (useForecast) {
+    reorderPoint = Math.max(minimum, Math.ceil(Math.max(Number(leadTimeForecast.upper) || 0, forecastDemand)));
+  }
+  let economicOrderQuantity = 1;
+  if (used > 0 || useForecast) {
+    economicOrderQuantity = cost > 0
+      ? Math.ceil(Math.sqrt((2 * dailyUsage * 30 * ORDERING_COST) / cost))
+      : Math.ceil(dailyUsage * 30);
+  }
+
+  const position = onHand + (Number(onOrder) || 0);
+  const needsReorder = reorderPoint > 0 && position <= reorderPoint;
+  let orderQuantity = 0;
+  if (needsReorder) {
+    // Enough to lift the stock position above the reorder point, at least one EOQ and the supplier's MOQ
+    orderQuantity = Math.max(economicOrderQuantity, reorderPoint - position + 1, Number(minimumOrderQuantity) || 0);
+  }
+
+  return {
+    dailyUsage: Math.round(dailyUsage * 1000) / 1000,
+    reorderPoint,
+    economicOrderQuantity,
+    position,
+    needsReorder,
+    orderQuantity,
+  };
+}
+
+/**
+ * Status of a sent purchase order from its lines
+ * ({ quantity_ordered, quantity_received }).
+ * @returns {'sent'|'partially_received'|'received'}
+ */
+function receivingStatus(items) {
+  const lines = items || [];
+  const received = lines.filter((item) => (Number(item.quantity_received) || 0) > 0);
+  if (received.length === 0) {
+    return 'sent';
+  }
+  const complete = lines.every((item) => (Number(item.quantity_received) || 0) >= Number(item.quantity_ordered));
+  return complete ? 'received' : 'partially_received';
+}
+
+module.exports = {
+  DEFAULT_LEAD_TIME_DAYS,
+  PURCHASE_ORDER_STATUSES,
+  reorderPlan,
+  receivingStatus,
+};
@@ -0,0 +1,159 @@
+/**
+ * Return requests
+ *
+ * A customer reports a problem with a shipped order (a missing part, a
+ * damaged or wrong item, or sets to send back) as a return request, naming
+ * order items and/or parts from the order's packing list. Production
+ * approves it with a resolution or rejects it; an approved request is
+ * completed once the resolution is carried out:
+ *
+ *   requested -> approved -> completed
+ *   requested -> rejected | cancelled (by the customer)
+ *
+ * Resolutions: a replacement parcel with the same items or parts, a refund
+ * (credit note on the order's invoice, which credits whole order items, so
+ * only for requests without loose parts) or a restock of what was sent back.
+ */
+
+const RETURN_STATUSES = ['requested', 'approved', 'rejected', 'completed', 'cancelled'];
+const INITIAL_RETURN_STATUS = 'requested';
+const OPEN_RETURN_STATUSES = ['requested', 'approved'];
+const RETURN_REASONS = ['missing_part', 'damaged', 'wrong_item', 'not_needed', 'other'];
+const RESOLUTIONS = ['replacement', 'refund', 'restock'];
+// Order statuses in which an order's items can be reported
+const RETURNABLE_ORDER_STATUSES = ['shipped', 'delivered'];
+const LINE_TYPES = ['item', 'part'];
+
+const RETURN_TIMESTAMPS = {
+  approved: 'approved_at',
+  rejected: 'rejected_at',
+  completed: 'completed_at',
+  cancelled: 'cancelled_at',
+};
+
+const PRODUCTION_ROLES = ['admin', 'production'];
+
+// from -> to -> { roles, notify (customer | production) }
+const RETURN_TRANSITIONS = {
+  requested: {
+    approved: { roles: PRODUCTION_ROLES, notify: ['customer'] },
+    rejected: { roles: PRODUCTION_ROLES, notify: ['customer'] },
+    cancelled: { roles: ['admin', 'customer'], notify: ['production'] },
+  },
+  approved: {
+    completed: { roles: PRODUCTION_ROLES, notify: ['customer'] },
+  },
+};
+
+/**
+ * The transition of a return request from one status to another:
+ * { from, to, roles, notify, timestamp } or null when it is not allowed.
+ */
+function getReturnTransition(from, to) {
+  const transition = RETURN_TRANSITIONS[from] ? RETURN_TRANSITIONS[from][to] : null;
+  if (!transition) {
+    return null;
+  }
+  return { from, to, roles: transition.roles, notify: transition.notify, timestamp: RETURN_TIMESTAMPS[to] };
+}
+
+/** Statuses a request can move to from `from`; with a role, only those that role may perform. */
+function allowedReturnTransitions(from, role = null) {
+  const targets = RETURN_TRANSITIONS[from] || {};
+  return Object.keys(targets).filter((to) => !role || targets[to].roles.includes(role));
+}
+
+function lineKey(type, id) {
+  return `${type}:${Number(id)}`;
+}
+
+/**
+ * What is left to report per line: `lines` are the order's items and parts
+ * ({ type, id, quantity, ... }), `claimed` the lines of its open and
+ * completed requests ({ type, id, quantity }). Returns the lines with
+ * claimed_quantity and returnable_quantity.
+ */
+function returnableLines(lines, claimed = []) {
+  const claimedByKey = new Map();
+  claimed.forEach((line) => {
+    const key = lineKey(line.type, line.id);
+    claimedByKey.set(key, (claimedByKey.get(key) || 0) + (Number(line.quantity) || 0));
+  });
+  return lines.map((line) => {
+    const claimedQuantity = claimedByKey.get(lineKey(line.type, line.id)) || 0;
+    return {
+      ...line,
+      claimed_quantity: claimedQuantity,
+      returnable_quantity: Math.max(0, (Number(line.quantity) || 0) - claimedQuantity),
+    };
+  });
+}
+
+/**
+ * Check the lines of a new request ({ type, id, quantity }) against what is
+ * returnable (see returnableLines). Lines for the same item or part are
+ * added up. Returns { lines, errors }: the lines to store with their
+ * returnable line, and one message per problem.
+ */
+function checkReturnLines(requested, returnable) {
+  const errors = [];
+  const byKey = new Map();
+  (requested || []).forEach((line) => {
+    const type = line && line.type;
+    if (!LINE_TYPES.includes(type)) {
+      errors.push(`Unknown line type: ${type || '(none)'}. Use item or part`);
+      return;
+    }
+    const key = lineKey(type, line.id);
+    const available = returnable.find((candidate) => lineKey(candidate.type, candidate.id) === key);
+    if (!available) {
+      errors.push(`${type === 'item' ? 'Order item' : 'Part'} ${line.id} is not on this order`);
+      return;
+    }
+    const quantity = Number(line.quantity);
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      errors.push(`Quantity for "${available.description}" must be a whole number above zero`);
+      return;
+    }
+    const entry = byKey.get(key) || { type, id: Number(line.id), quantity: 0, line: available };
+    entry.quantity += quantity;
+    byKey.set(key, entry);
+  });
+  byKey.forEach((entry) => {
+    if (entry.quantity > entry.line.returnable_quantity) {
+      errors.push(entry.line.returnable_quantity > 0
+        ? `At most ${entry.line.returnable_quantity} of "${entry.line.description}" can be reported`
+        : `"${entry.line.description}" has already been reported`);
+    }
+  });
+  if (errors.length === 0 && byKey.size === 0) {
+    errors.push('Select at least one item or part');
+  }
+  return { lines: [...byKey.values()], errors };
+}
+
+/** Resolutions production can choose for a request with these lines ({ type }). */
+function allowedResolutions(lines) {
+  const hasParts = lines.some((line) => line.type === 'part');
+  return hasParts ? RESOLUTIONS.filter((resolution) => resolution !== 'refund') : [...RESOLUTIONS];
+}
+
+/** Number of the `index`th (0-based) return request of an order. */
+function returnNumber(orderNumber, index) {
+  return `${orderNumber}-R${index + 1}`;
+}
+
+module.exports = {
+  RETURN_STATUSES,
+  INITIAL_RETURN_STATUS,
+  OPEN_RETURN_STATUSES,
+  RETURN_REASONS,
+  RESOLUTIONS,
+  RETURNABLE_ORDER_STATUSES,
+  getReturnTransition,
+  allowedReturnTransitions,
+  returnableLines,
+  checkReturnLines,
+  allowedResolutions,
+  returnNumber,
+};
@@ -0,0 +1,152 @@
+/**
+ * SEPA Credit Transfer (pain.001.001.03)
+ *
+ * Builds the XML payment file banks accept for batch SEPA credit transfers,
+ * plus the IBAN/BIC validation it relies on. Version .03 is used because
+ * every SEPA bank still accepts it. Text fields are limited to the SEPA
+ * character set and field lengths, so the bank does not reject the file.
+ */
+
+/** IBAN lengths of SEPA countries; other countries get the generic format check. */
+const IBAN_LENGTHS = {
+  AD: 24, AT: 20, BE: 16, BG: 22, CH: 21, CY: 28, CZ: 24, DE: 22, DK: 18, EE: 20,
+  ES: 24, FI: 18, FR: 27, GB: 22, GI: 23, GR: 27, HR: 21, HU: 28, IE: 22, IS: 26,
+  IT: 27, LI: 21, LT: 20, LU: 20, LV: 21, MC: 27, MT: 31, NL: 18, NO: 15, PL: 28,
+  PT: 25, RO: 24, SE: 24, SI: 19, SK: 24, SM: 27, VA: 22,
+};
+
+const BIC_PATTERN = /^[A-Z]{6}[A-Z0-9]{2}([A-Z0-9]{3})?$/;
+
+function normalizeIban(iban) {
+  return String(iban || '').replace(/[\s-]/g, '').toUpperCase();
+}
+
+/** ISO 13616 mod-97 check, computed piecewise so long IBANs fit in a number. */
+function ibanChecksumValid(iban) {
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  const digits = rearranged.replace(/[A-Z]/g, (letter) => String(letter.charCodeAt(0) - 55));
+  let remainder = 0;
+  for (let i = 0; i < digits.length; i += 7) {
+    remainder = Number(String(remainder) + digits.slice(i, i + 7)) % 97;
+  }
+  return remainder === 1;
+}
+
+/**
+ * Validate and normalise an IBAN.
+ * @returns {{valid: boolean, iban: string, country: string|null}}
+ */
+function validateIban(value) {
+  const iban = normalizeIban(value);
+  const country = /^[A-Z]{2}/.test(iban) ? iban.slice(0, 2) : null;
+  const formatOk = /^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)
+    && (!IBAN_LENGTHS[country] || IBAN_LENGTHS[country] === iban.length);
+  return { valid: formatOk && ibanChecksumValid(iban), iban, country };
+}
+
+function validateBic(value) {
+  const bic = String(value || '').replace(/\s/g, '').toUpperCase();
+  return { valid: BIC_PATTERN.test(bic), bic };
+}
+
+/** Transliterate to the SEPA character set (a-z A-Z 0-9 / - ? : ( ) . , ' + space) and cut to length. */
+function sepaText(value, maxLength) {
+  return String(value || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/\u00df/g, 'ss')
+    .replace(/&/g, '+')
+    .replace(/[^A-Za-z0-9/\-?:().,'+ ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, maxLength)
+    .trim();
+}
+
+function escapeXml(value) {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function amountText(value) {
+  return (Math.round(Number(value) * 100) / 100).toFixed(2);
+}
+
+function agentXml(tag, bic, indent) {
+  const id = bic
+    ? `<BIC>${escapeXml(bic)}</BIC>`
+    : '<Othr><Id>NOTPROVIDED</Id></Othr>';
+  return `${indent}<${tag}><FinInstnId>${id}</FinInstnId></${tag}>`;
+}
+
+/**
+ * Build a pain.001.001.03 document with one payment information block.
+ *
+ * @param {Object} batch
+ * @param {string} batch.messageId - unique per file, max 35 characters
+ * @param {string} batch.executionDate - YYYY-MM-DD
+ * @param {{name: string, iban: string, bic?: string}} batch.debtor - the paying company account
+ * @param {Array<{endToEndId: string, amount: number, name: string, iban: string, bic?: string, remittanceInformation?: string}>} batch.payments
+ * @param {Date} [batch.createdAt]
+ * @returns {string} XML
+ */
+function buildPain001({ messageId, executionDate, debtor, payments, createdAt = new Date() }) {
+  const count = payments.length;
+  const controlSum = amountText(payments.reduce((sum, payment) => sum + Number(payment.amount), 0));
+  const creationTime = createdAt.toISOString().replace(/\.\d{3}Z$/, '');
+  const debtorName = sepaText(debtor.name, 70);
+
+  const transactions = payments.map((payment) => [
+    '      <CdtTrfTxInf>',
+    `        <PmtId><EndToEndId>${escapeXml(sepaText(payment.endToEndId, 35))}</EndToEndId></PmtId>`,
+    `        <Amt><InstdAmt Ccy="EUR">${amountText(payment.amount)}</InstdAmt></Amt>`,
+    ...(payment.bic ? [agentXml('CdtrAgt', payment.bic, '        ')] : []),
+    `        <Cdtr><Nm>${escapeXml(sepaText(payment.name, 70))}</Nm></Cdtr>`,
+    `        <CdtrAcct><Id><IBAN>${escapeXml(normalizeIban(payment.iban))}</IBAN></Id></CdtrAcct>`,
+    ...(payment.remittanceInformation
+      ? [`        <RmtInf><Ustrd>${escapeXml(sepaText(payment.remittanceInformation, 140))}</Ustrd></RmtInf>`]
+      : []),
+    '      </CdtTrfTxInf>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<Document xmlns="urn:iso:std:iso:20022:tech:xsd:pain.001.001.03" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">',
+    '  <CstmrCdtTrfInitn>',
+    '    <GrpHdr>',
+    `      <MsgId>${escapeXml(sepaText(messageId, 35))}</MsgId>`,
+    `      <CreDtTm>${creationTime}</CreDtTm>`,
+    `      <NbOfTxs>${count}</NbOfTxs>`,
+    `      <CtrlSum>${controlSum}</CtrlSum>`,
+    `      <InitgPty><Nm>${escapeXml(debtorName)}</Nm></InitgPty>`,
+    '    </GrpHdr>',
+    '    <PmtInf>',
+    `      <PmtInfId>${escapeXml(sepaText(messageId, 35))}</PmtInfId>`,
+    '      <PmtMtd>TRF</PmtMtd>',
+    '      <BtchBookg>true</BtchBookg>',
+    `      <NbOfTxs>${count}</NbOfTxs>`,
+    `      <CtrlSum>${controlSum}</CtrlSum>`,
+    '      <PmtTpInf><SvcLvl><Cd>SEPA</Cd></SvcLvl></PmtTpInf>',
+    `      <ReqdExctnDt>${executionDate}</ReqdExctnDt>`,
+    `      <Dbtr><Nm>${escapeXml(debtorName)}</Nm></Dbtr>`,
+    `      <DbtrAcct><Id><IBAN>${escapeXml(normalizeIban(debtor.iban))}</IBAN></Id><Ccy>EUR</Ccy></DbtrAcct>`,
+    agentXml('DbtrAgt', debtor.bic, '      '),
+    '      <ChrgBr>SLEV</ChrgBr>',
+    ...transactions,
+    '    </PmtInf>',
+    '  </CstmrCdtTrfInitn>',
+    '</Document>',
+    '',
+  ].join('\n');
+}
+
+module.exports = {
+  validateIban,
+  validateBic,
+  sepaText,
+  buildPain001,
+};
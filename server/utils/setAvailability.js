@@ -0,0 +1,73 @@
+/**
+ * Set availability
+ *
+ * How many kits of a set can be built right now, from its bill of materials:
+ * for every required part (optional parts are ignored) the free stock, i.e.
+ * parts stock less the active cart holds on it, divided by the quantity the
+ * set needs. The part that gives the fewest kits is the limiting part.
+ */
+
+/**
+ * Buildable kits from the set's parts
+ * ({ part_id, part_number, part_name, stock_quantity, held_quantity, required_quantity, is_optional }).
+ * Returns { buildable_quantity, limiting_part, parts_configured }; a set
+ * without required parts is not buildable and has no limiting part.
+ */
+function buildableFromParts(parts) {
+  const required = (parts || []).filter(
+    (part) => !Number(part.is_optional) && Number(part.required_quantity) > 0
+  );
+  if (required.length === 0) {
+    return { buildable_quantity: 0, limiting_part: null, parts_configured: false };
+  }
+
+  let limiting = null;
+  required.forEach((part) => {
+    const stock = Number(part.stock_quantity) || 0;
+    const held = Number(part.held_quantity) || 0;
+    const requiredQuantity = Number(part.required_quantity);
+    const buildable = Math.max(Math.floor((stock - held) / requiredQuantity), 0);
+    if (!limiting || buildable < limiting.buildable_quantity) {
+      limiting = {
+        part_id: part.part_id,
+        part_number: part.part_number || '',
+        part_name: part.part_name || part.part_number || '',
+        stock_quantity: stock,
+        held_quantity: held,
+        available_quantity: Math.max(stock - held, 0),
+        required_quantity: requiredQuantity,
+        buildable_quantity: buildable,
+      };
+    }
+  });
+
+  return { buildable_quantity: limiting.buildable_quantity, limiting_part: limiting, parts_configured: true };
+}
+
+/**
+ * Required parts short for building `quantity` kits: one entry per part
+ * whose free stock is below what the kits need. `otherDemand` (part id ->
+ * quantity) adds what other lines of the same order need of a part.
+ */
+function partShortfalls(parts, quantity, otherDemand = new Map()) {
+  return (parts || [])
+    .filter((part) => !Number(part.is_optional) && Number(part.required_quantity) > 0)
+    .map((part) => {
+      const required = Number(part.required_quantity) * quantity + (otherDemand.get(Number(part.part_id)) || 0);
+      const available = Math.max((Number(part.stock_quantity) || 0) - (Number(part.held_quantity) || 0), 0);
+      return {
+        part_id: part.part_id,
+        part_number: part.part_number || '',
+        part_name: part.part_name || part.part_number || '',
+        required,
+        available,
+        shortfall: required - available,
+      };
+    })
+    .filter((part) => part.shortfall > 0);
+}
+
+module.exports = {
+  buildableFromParts,
+  partShortfalls,
+};
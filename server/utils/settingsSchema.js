@@ -0,0 +1,263 @@
+/**
+ * System settings schema
+ *
+ * One declaration per setting the platform depends on: its type, category,
+ * default and the values it accepts. The server validates writes against it
+ * and fills in defaults on read, so every admin browser, invoice and cart
+ * works from the same company, bank, tax and handling-fee values. Keys that
+ * are not declared here cannot be written.
+ *
+ * Setting definition: { type, category, default, required, min, max, maxLength, pattern, values, check, secret, roles }
+ * - type: 'string' (default), 'number', 'integer', 'boolean' or 'json'
+ * - values: allowed values (enum)
+ * - check: further check of a parsed 'json' value, returning an error or null
+ * - secret: never returned by public endpoints, masked for admins and in history
+ * - roles: user roles that may change the setting (default: admin only)
+ * - values are stored as text in system_settings.setting_value
+ */
+
+const { checkRateOverrides } = require('./vatEngine');
+
+const SETTINGS_SCHEMA = {
+  // Company
+  company_name: { category: 'company', default: 'MakerSet Solutions', required: true, maxLength: 140 },
+  company_address: { category: 'company', default: '123 Innovation Street, Tech City, TC 12345, Estonia', required: true, maxLength: 300 },
+  company_phone: { category: 'company', default: '+372 123 4567', maxLength: 50 },
+  company_email: { category: 'company', default: 'info@makerset.com', pattern: /^[^\s@]+@[^\s@]+\.[^\s@]+$/ },
+  company_website: { category: 'company', default: 'www.makerset.com', maxLength: 200 },
+  company_tax_id: { category: 'company', default: 'EE123456789', maxLength: 20 },
+  company_reg_number: { category: 'company', default: '', maxLength: 20 },
+  company_country: { category: 'company', default: 'EE', maxLength: 60 },
+
+  // Bank
+  bank_name: { category: 'bank', default: 'Estonian Bank', maxLength: 140 },
+  bank_account_number: { category: 'bank', default: '1234567890', maxLength: 34 },
+  bank_iban: { category: 'bank', default: 'EE123456789012345678', pattern: /^[A-Z]{2}\d{2}[A-Z0-9 ]{10,36}$/ },
+  bank_swift: { category: 'bank', default: 'ESTBEE2X', pattern: /^[A-Z]{6}[A-Z0-9]{2}([A-Z0-9]{3})?$/ },
+
+  // Invoice and tax
+  invoice_prefix: { category: 'invoice', default: 'INV', required: true, pattern: /^[A-Z0-9-]{1,10}$/ },
+  invoice_due_days: { type: 'number', category: 'invoice', default: 14, min: 0, max: 365 },
+  invoice_language: { category: 'invoice', default: 'en', values: ['et', 'en', 'ru', 'fi'] },
+  default_invoice_template: { category: 'invoice', default: 'modern', values: ['modern', 'classic', 'minimal'] },
+  payment_terms: {
+    category: 'invoice',
+    default: 'prepayment',
+    values: ['prepayment', 'net7', 'net14', 'net30', 'net60', 'due_on_receipt'],
+  },
+  // Overrides of the VAT engine's rates, e.g. {"EE": {"standard": 24}}
+  vat_rates: { type: 'json', category: 'invoice', default: '', check: checkRateOverrides },
+  currency: { category: 'invoice', default: 'EUR', pattern: /^[A-Z]{3}$/ },
+
+  // Cart
+  shipping_handling_cost: { type: 'number', category: 'cart', default: 15, min: 0, max: 1000 },
+  handling_fee_description: { category: 'cart', default: 'Handling, Packaging & Transport', required: true, maxLength: 100 },
+  minimum_order_amount: { type: 'number', category: 'cart', default: 0, min: 0 },
+  free_shipping_threshold: { type: 'number', category: 'cart', default: 0, min: 0 },
+  credit_validity_days: { type: 'integer', category: 'cart', default: 90, min: 1, max: 3650 },
+  cart_reservation_minutes: { type: 'integer', category: 'cart', default: 30, min: 5, max: 1440 },
+  shipping_pickup_enabled: { type: 'boolean', category: 'cart', default: true },
+  // Production packs the parcels and hands out pickups
+  shipping_pickup_address: { category: 'cart', default: '', maxLength: 300, roles: ['admin', 'production'] },
+  shipping_packaging_weight_g: { type: 'integer', category: 'cart', default: 250, min: 0, max: 10000, roles: ['admin', 'production'] },
+  shipping_carrier_adapter: { category: 'cart', default: 'mock', values: ['mock'] },
+
+  // Social sharing rewards
+  social_share_required: { type: 'integer', category: 'social', default: 3, min: 1, max: 50 },
+  social_share_reward_amount: { type: 'number', category: 'social', default: 5, min: 0, max: 500 },
+  social_share_message: { category: 'social', default: '📱 Share 3 sets & get €5 off!', maxLength: 200 },
+  social_twitter_message: { category: 'social', default: '', maxLength: 500 },
+  social_facebook_message: { category: 'social', default: '', maxLength: 500 },
+  social_whatsapp_message: { category: 'social', default: '', maxLength: 500 },
+  social_tiktok_message: { category: 'social', default: '', maxLength: 500 },
+  social_email_message: { category: 'social', default: '', maxLength: 2000 },
+
+  // Backups (nightly archive of the database and uploads, pruned by count and age)
+  backup_schedule_enabled: { type: 'boolean', category: 'backup', default: true },
+  backup_retention_count: { type: 'integer', category: 'backup', default: 14, min: 1, max: 365 },
+  backup_retention_days: { type: 'integer', category: 'backup', default: 30, min: 0, max: 3650 },
+
+  // Platform
+  automatic_report_enabled: { type: 'boolean', category: 'general', default: true },
+  default_provider_set_visible: { type: 'boolean', category: 'general', default: true },
+  public_url: { category: 'general', default: '', pattern: /^https?:\/\/[^\s/]+(\/\S*)?$/ },
+};
+
+const SECRET_MASK = '********';
+
+function settingType(key) {
+  const definition = SETTINGS_SCHEMA[key];
+  return (definition && definition.type) || 'string';
+}
+
+/** Whether a user with `role` may change the setting. */
+function canChangeSetting(key, role) {
+  const definition = SETTINGS_SCHEMA[key];
+  return Boolean(definition) && (definition.roles || ['admin']).includes(role);
+}
+
+/** Copy of `settings` with secret values replaced by the mask (or dropped). */
+function maskSecrets(settings, { drop = false } = {}) {
+  const masked = { ...settings };
+  Object.keys(masked).forEach((key) => {
+    if (SETTINGS_SCHEMA[key] && SETTINGS_SCHEMA[key].secret) {
+      if (drop) {
+        delete masked[key];
+      } else if (masked[key] !== '' && masked[key] !== null && masked[key] !== undefined) {
+        masked[key] = SECRET_MASK;
+      }
+    }
+  });
+  return masked;
+}
+
+/** Defaults for the given keys (all declared settings when omitted). */
+function settingDefaults(keys = Object.keys(SETTINGS_SCHEMA)) {
+  const defaults = {};
+  keys.forEach((key) => {
+    defaults[key] = SETTINGS_SCHEMA[key].default;
+  });
+  return defaults;
+}
+
+/** Convert a stored text value to the setting's type. */
+function parseSettingValue(value, type) {
+  if (value === null || value === undefined) {
+    return value;
+  }
+  if (type === 'number' || type === 'integer') {
+    const number = parseFloat(value);
+    return Number.isFinite(number) ? number : null;
+  }
+  if (type === 'boolean') {
+    return value === true || value === 'true' || value === '1';
+  }
+  if (type === 'json') {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }
+  return value;
+}
+
+/** Text stored in system_settings for a (validated) value. */
+function serializeSettingValue(value) {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Check a value for a declared setting.
+ * Numbers, booleans and JSON may arrive as their text form (single-key
+ * writes send strings); strings are trimmed.
+ * @returns {{ value: *, error: string|null }} the normalised value or an error
+ */
+function validateSetting(key, value) {
+  const definition = SETTINGS_SCHEMA[key];
+  if (!definition) {
+    return { value, error: `${key} is not a known setting` };
+  }
+  const type = settingType(key);
+
+  if (type === 'number' || type === 'integer') {
+    const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    if (typeof number !== 'number' || !Number.isFinite(number)) {
+      return { value, error: `${key} must be a number` };
+    }
+    if (type === 'integer' && !Number.isInteger(number)) {
+      return { value, error: `${key} must be a whole number` };
+    }
+    if (definition.min !== undefined && number < definition.min) {
+      return { value, error: `${key} must be at least ${definition.min}` };
+    }
+    if (definition.max !== undefined && number > definition.max) {
+      return { value, error: `${key} must be at most ${definition.max}` };
+    }
+    return { value: number, error: null };
+  }
+
+  if (type === 'boolean') {
+    if (typeof value === 'boolean') {
+      return { value, error: null };
+    }
+    if (['true', 'false', '1', '0'].includes(String(value))) {
+      return { value: value === 'true' || value === '1' || value === 1, error: null };
+    }
+    return { value, error: `${key} must be true or false` };
+  }
+
+  if (type === 'json') {
+    if (value === null || value === undefined || (typeof value === 'string' && value.trim() === '')) {
+      return definition.required ? { value: '', error: `${key} is required` } : { value: '', error: null };
+    }
+    let parsed = value;
+    if (typeof value === 'string') {
+      try {
+        parsed = JSON.parse(value);
+      } catch {
+        return { value, error: `${key} must be valid JSON` };
+      }
+    }
+    const problem = definition.check ? definition.check(parsed) : null;
+    return problem ? { value, error: `${key} ${problem}` } : { value: parsed, error: null };
+  }
+
+  if (value !== null && value !== undefined && typeof value === 'object') {
+    return { value, error: `${key} must be text` };
+  }
+  const text = value === null || value === undefined ? '' : String(value).trim();
+  if (text === '') {
+    return definition.required || definition.values ? { value: text, error: `${key} is required` } : { value: text, error: null };
+  }
+  if (definition.values && !definition.values.includes(text)) {
+    return { value: text, error: `${key} must be one of ${definition.values.join(', ')}` };
+  }
+  if (definition.maxLength && text.length > definition.maxLength) {
+    return { value: text, error: `${key} must be at most ${definition.maxLength} characters` };
+  }
+  if (definition.pattern && !definition.pattern.test(text)) {
+    return { value: text, error: `${key} has an invalid format` };
+  }
+  return { value: text, error: null };
+}
+
+/**
+ * Schema as plain data for clients (form hints): patterns become their source
+ * text and secret defaults are not included.
+ */
+function describeSchema() {
+  const description = {};
+  Object.entries(SETTINGS_SCHEMA).forEach(([key, definition]) => {
+    description[key] = {
+      type: settingType(key),
+      category: definition.category,
+      default: definition.secret ? null : definition.default,
+      required: Boolean(definition.required),
+      min: definition.min,
+      max: definition.max,
+      maxLength: definition.maxLength,
+      pattern: definition.pattern ? definition.pattern.source : undefined,
+      values: definition.values,
+      secret: Boolean(definition.secret),
+      roles: definition.roles || ['admin'],
+    };
+  });
+  return description;
+}
+
+module.exports = {
+  SETTINGS_SCHEMA,
+  SECRET_MASK,
+  settingType,
+  canChangeSetting,
+  maskSecrets,
+  describeSchema,
+  settingDefaults,
+  parseSettingValue,
+  serializeSettingValue,
+  validateSetting,
+};
@@ -0,0 +1,207 @@
+/**
+ * Shipping Label Renderer
+ *
+ * PDFs for parcels handed to a carrier: an A6 shipping label (sender,
+ * recipient or parcel terminal, order number, weight and the tracking number
+ * as a Code 128 barcode) and the A4 manifest listing the day's parcels for
+ * the courier to sign on pickup. Carrier adapters that do not get labels
+ * from the carrier itself render them here.
+ */
+
+const fs = require('fs');
+const PDFDocument = require('pdfkit');
+const { code128Bars } = require('./barcode');
+
+const FONT_REGULAR_PATH = process.env.INVOICE_FONT_PATH || '/usr/share/fonts/truetype/dejavu/DejaVuSans.ttf';
+const FONT_BOLD_PATH = process.env.INVOICE_FONT_BOLD_PATH || '/usr/share/fonts/truetype/dejavu/DejaVuSans-Bold.ttf';
+
+const MM = 72 / 25.4;
+const LABEL_SIZE = [105 * MM, 148 * MM];
+const LABEL_MARGIN = 6 * MM;
+const MANIFEST_MARGIN = 15 * MM;
+const MANIFEST_ROW_HEIGHT = 22;
+const MANIFEST_COLUMNS = [
+  { title: '#', width: 8 * MM },
+  { title: 'Tracking number', width: 42 * MM },
+  { title: 'Order', width: 38 * MM },
+  { title: 'Recipient', width: 37 * MM },
+  { title: 'Destination', width: 40 * MM },
+  { title: 'kg', width: 15 * MM, align: 'right' },
+];
+
+function setupFonts(doc) {
+  if (fs.existsSync(FONT_REGULAR_PATH) && fs.existsSync(FONT_BOLD_PATH)) {
+    doc.registerFont('LabelRegular', FONT_REGULAR_PATH);
+    doc.registerFont('LabelBold', FONT_BOLD_PATH);
+    return { regular: 'LabelRegular', bold: 'LabelBold' };
+  }
+  return { regular: 'Helvetica', bold: 'Helvetica-Bold' };
+}
+
+function drawCode128(doc, text, x, y, width, height) {
+  const symbol = code128Bars(text);
+  const module = width / symbol.width;
+  symbol.bars.forEach((bar) => {
+    doc.rect(x + bar.x * module, y, bar.width * module, height);
+  });
+  doc.fill('#000000');
+}
+
+/** Collect a pdfkit document into a Buffer; `draw` fills it. */
+function renderPdf(options, draw) {
+  return new Promise((resolve, reject) => {
+    try {
+      const doc = new PDFDocument(options);
+      const chunks = [];
+      doc.on('data', (chunk) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+      draw(doc, setupFonts(doc));
+      doc.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+function addressLines(party) {
+  if (!party) {
+    return [];
+  }
+  return [
+    party.name,
+    party.address,
+    [party.postal_code, party.city].filter(Boolean).join(' '),
+    party.country,
+  ].filter(Boolean);
+}
+
+function kilograms(weightG) {
+  return weightG ? (Number(weightG) / 1000).toFixed(2) : '';
+}
+
+/**
+ * A6 label for one parcel: { trackingNumber, orderNumber, carrier, service,
+ * weightG, sender, recipient, terminal? }. Resolves with the PDF bytes.
+ */
+function renderShippingLabel(label) {
+  return renderPdf({ size: LABEL_SIZE, margin: 0, info: { Title: `Shipping label ${label.trackingNumber}` } }, (doc, fonts) => {
+    const x = LABEL_MARGIN;
+    const width = doc.page.width - 2 * LABEL_MARGIN;
+    let y = LABEL_MARGIN;
+
+    doc.font(fonts.bold).fontSize(12).fillColor('#000000')
+      .text(label.carrier || '', x, y, { width: width / 2, lineBreak: false, ellipsis: true });
+    doc.font(fonts.regular).fontSize(8)
+      .text(label.service || '', x + width / 2, y + 2, { width: width / 2, align: 'right', lineBreak: false, ellipsis: true });
+    y += 18;
+    doc.moveTo(x, y).lineTo(x + width, y).lineWidth(1).stroke('#000000');
+    y += 6;
+
+    doc.font(fonts.bold).fontSize(7).text('FROM', x, y);
+    doc.font(fonts.regular).fontSize(8).text(addressLines(label.sender).join('\n'), x, y + 9, { width, height: 40 });
+    y += 52;
+
+    doc.font(fonts.bold).fontSize(7).text(label.terminal ? 'TO PARCEL TERMINAL' : 'TO', x, y);
+    y += 10;
+    if (label.terminal) {
+      doc.font(fonts.bold).fontSize(12).text(label.terminal.name, x, y, { width });
+      y = doc.y + 2;
+      doc.font(fonts.regular).fontSize(9)
+        .text(addressLines({ ...label.terminal, name: null }).join(', '), x, y, { width });
+      y = doc.y + 6;
+      doc.font(fonts.bold).fontSize(10)
+        .text([label.recipient.name, label.recipient.phone].filter(Boolean).join(' · '), x, y, { width });
+    } else {
+      const [name, ...rest] = addressLines(label.recipient);
+      doc.font(fonts.bold).fontSize(12).text(name || '', x, y, { width });
+      y = doc.y + 2;
+      doc.font(fonts.regular).fontSize(10).text(rest.join('\n'), x, y, { width });
+      if (label.recipient.phone) {
+        doc.fontSize(9).text(label.recipient.phone, x, doc.y + 2, { width });
+      }
+    }
+
+    const barcodeHeight = 22 * MM;
+    const bottom = doc.page.height - LABEL_MARGIN;
+    const barcodeY = bottom - barcodeHeight - 30;
+    doc.moveTo(x, barcodeY - 8).lineTo(x + width, barcodeY - 8).lineWidth(1).stroke('#000000');
+    drawCode128(doc, label.trackingNumber, x, barcodeY, width, barcodeHeight);
+    doc.font(fonts.bold).fontSize(11)
+      .text(label.trackingNumber, x, barcodeY + barcodeHeight + 3, { width, align: 'center', lineBreak: false });
+    doc.font(fonts.regular).fontSize(8)
+      .text(`Order ${label.orderNumber || ''}`, x, bottom - 10, { width: width * 0.75, height: 10, ellipsis: true })
+      .text(label.weightG ? `${kilograms(label.weightG)} kg` : '', x + width * 0.75, bottom - 10,
+        { width: width * 0.25, height: 10, align: 'right', ellipsis: true });
+  });
+}
+
+function drawManifestRow(doc, font, cells, y) {
+  let x = MANIFEST_MARGIN;
+  doc.font(font).fontSize(8).fillColor('#000000');
+  MANIFEST_COLUMNS.forEach((column, index) => {
+    doc.text(String(cells[index] ?? ''), x + 2, y, {
+      width: column.width - 4, height: MANIFEST_ROW_HEIGHT - 2, align: column.align || 'left', ellipsis: true,
+    });
+    x += column.width;
+  });
+  // Cells move the cursor; the row's height is fixed
+  doc.y = y;
+}
+
+/**
+ * A4 manifest: { manifestNumber, date, carrier, sender, shipments } with
+ * shipments { tracking_number, order_number, recipient, destination,
+ * weight_g }. Resolves with the PDF bytes.
+ */
+function renderManifest(manifest) {
+  return renderPdf({ size: 'A4', margin: MANIFEST_MARGIN, info: { Title: `Manifest ${manifest.manifestNumber}` } }, (doc, fonts) => {
+    const width = doc.page.width - 2 * MANIFEST_MARGIN;
+    const header = () => {
+      drawManifestRow(doc, fonts.bold, MANIFEST_COLUMNS.map((column) => column.title), doc.y);
+      const lineY = doc.y + 11;
+      doc.moveTo(MANIFEST_MARGIN, lineY).lineTo(MANIFEST_MARGIN + width, lineY).lineWidth(0.5).stroke('#000000');
+      doc.y = lineY + 4;
+    };
+
+    doc.font(fonts.bold).fontSize(16).fillColor('#000000').text(`Shipping manifest ${manifest.manifestNumber}`);
+    doc.font(fonts.regular).fontSize(10)
+      .text(`Carrier: ${manifest.carrier || ''}`)
+      .text(`Date: ${manifest.date}`)
+      .text(`Sender: ${addressLines(manifest.sender).join(', ')}`, { width });
+    doc.moveDown();
+    header();
+
+    let totalWeight = 0;
+    manifest.shipments.forEach((shipment, index) => {
+      if (doc.y + MANIFEST_ROW_HEIGHT > doc.page.height - MANIFEST_MARGIN - 60) {
+        doc.addPage();
+        header();
+      }
+      totalWeight += Number(shipment.weight_g) || 0;
+      drawManifestRow(doc, fonts.regular, [
+        index + 1,
+        shipment.tracking_number,
+        shipment.order_number,
+        shipment.recipient,
+        shipment.destination,
+        kilograms(shipment.weight_g),
+      ], doc.y);
+      doc.y += MANIFEST_ROW_HEIGHT;
+    });
+
+    doc.moveDown();
+    doc.font(fonts.bold).fontSize(10)
+      .text(`Parcels: ${manifest.shipments.length}    Total weight: ${(totalWeight / 1000).toFixed(2)} kg`, MANIFEST_MARGIN);
+    doc.moveDown(3);
+    doc.font(fonts.regular).fontSize(9)
+      .text('Handed over by (name, signature): ______________________________', MANIFEST_MARGIN)
+      .moveDown(1.5)
+      .text('Received by courier (name, signature, time): ______________________________', MANIFEST_MARGIN);
+  });
+}
+
+module.exports = {
+  renderShippingLabel,
+  renderManifest,
+};
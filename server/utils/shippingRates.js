@@ -0,0 +1,175 @@
+/**
+ * Shipping rates
+ *
+ * Quotes shipping for a cart from the destination country, the parcel and
+ * the shipping rules. Countries belong to zones ('*' covers every country no
+ * other zone lists); each zone has rates per carrier and service level with
+ * a weight and size limit, a base price covering the first kilogram and a
+ * price for every further started kilogram. The parcel weight is the larger
+ * of the parts' weight plus packaging and the volumetric weight of their
+ * boxed size. Shipping is free once the order subtotal reaches the rate's
+ * threshold (or the global one), and pickup from the lab costs nothing.
+ * Destinations no zone covers get the flat handling fee.
+ */
+
+const SERVICE_LEVELS = ['economy', 'standard', 'express'];
+const PICKUP_METHOD = 'pickup';
+const FLAT_METHOD = 'flat';
+// Courier convention: 5000 cm³ weigh as one kilogram
+const VOLUMETRIC_DIVISOR = 5000;
+// Parts do not pack without gaps; the parcel is this much larger than their boxes
+const PACKING_FACTOR = 1.25;
+
+function roundMoney(value) {
+  return Math.round((Number(value) || 0) * 100) / 100;
+}
+
+function toNumber(value) {
+  const number = Number(value);
+  return Number.isFinite(number) && number > 0 ? number : 0;
+}
+
+/** Country codes of a zone: a list or comma-separated text, upper-cased. */
+function zoneCountries(zone) {
+  const countries = Array.isArray(zone.countries) ? zone.countries : String(zone.countries || '').split(',');
+  return countries.map((country) => String(country).trim().toUpperCase()).filter(Boolean);
+}
+
+/** Zone that ships to `country`: one listing it, else a '*' zone, else null. */
+function findZone(zones, country) {
+  const code = String(country || '').trim().toUpperCase();
+  const active = zones.filter((zone) => zone.is_active === undefined || Number(zone.is_active) === 1);
+  return active.find((zone) => code && zoneCountries(zone).includes(code))
+    || active.find((zone) => zoneCountries(zone).includes('*'))
+    || null;
+}
+
+/**
+ * Parcel of the parts to ship. `lines` are { quantity, weight_g, length_mm,
+ * width_mm, height_mm } with the total quantity of each part. Parts without
+ * a weight or size count as zero and are reported in unknown_parts.
+ */
+function parcelFor(lines, { packagingWeightG = 0 } = {}) {
+  let weight = 0;
+  let volumeMm3 = 0;
+  let longest = 0;
+  let unknownParts = 0;
+  lines.forEach((line) => {
+    const quantity = toNumber(line.quantity);
+    const sides = [line.length_mm, line.width_mm, line.height_mm].map(toNumber);
+    if (!toNumber(line.weight_g) || sides.some((side) => side === 0)) {
+      unknownParts += 1;
+    }
+    weight += quantity * toNumber(line.weight_g);
+    volumeMm3 += quantity * sides[0] * sides[1] * sides[2];
+    longest = Math.max(longest, ...sides);
+  });
+  const weightG = Math.round(weight + (lines.length > 0 ? toNumber(packagingWeightG) : 0));
+  const volumeCm3 = Math.round((volumeMm3 / 1000) * PACKING_FACTOR);
+  const volumetricWeightG = Math.round((volumeCm3 / VOLUMETRIC_DIVISOR) * 1000);
+  return {
+    weight_g: weightG,
+    volume_cm3: volumeCm3,
+    longest_mm: Math.round(longest),
+    volumetric_weight_g: volumetricWeightG,
+    chargeable_weight_g: Math.max(weightG, volumetricWeightG),
+    unknown_parts: unknownParts,
+  };
+}
+
+/** Whether the parcel is within the rate's weight and length limits. */
+function rateFits(rate, parcel) {
+  const maxWeight = toNumber(rate.max_weight_g);
+  const maxLength = toNumber(rate.max_length_mm);
+  return (!maxWeight || parcel.chargeable_weight_g <= maxWeight) && (!maxLength || parcel.longest_mm <= maxLength);
+}
+
+/** Price of a rate for a weight: the base covers the first kilogram, each further started one adds price_per_kg. */
+function rateCost(rate, weightG) {
+  const extraKg = Math.max(0, Math.ceil(toNumber(weightG) / 1000) - 1);
+  return roundMoney(toNumber(rate.base_price) + extraKg * toNumber(rate.price_per_kg));
+}
+
+/** Apply a free-shipping threshold (0 / none = never free) to an option's cost. */
+function withThreshold(option, cost, threshold, subtotal) {
+  const freeOver = toNumber(threshold);
+  const free = freeOver > 0 && roundMoney(subtotal) >= freeOver;
+  return {
+    ...option,
+    original_cost: cost,
+    cost: free ? 0 : cost,
+    free,
+    free_over: freeOver || null,
+    amount_to_free: freeOver > 0 && !free ? roundMoney(freeOver - subtotal) : null,
+  };
+}
+
+/**
+ * Shipping options for a parcel to a zone, cheapest delivery first, pickup
+ * last. Option: { id, method, service_level, carrier, name, cost,
+ * original_cost, free, free_over, amount_to_free, delivery_days_min,
+ * delivery_days_max, address? }. Without a zone the flat fee is the only
+ * delivery option.
+ */
+function quoteOptions({ zone = null, rates = [], parcel, subtotal = 0, freeShippingThreshold = 0, flatCost = 0, pickup = null }) {
+  const delivery = zone
+    ? rates
+      .filter((rate) => (rate.is_active === undefined || Number(rate.is_active) === 1) && rateFits(rate, parcel))
+      .map((rate) => withThreshold({
+        id: `rate:${rate.rate_id}`,
+        rate_id: rate.rate_id,
+        method: rate.service_level,
+        service_level: rate.service_level,
+        carrier: rate.carrier || null,
+        delivery_type: rate.delivery_type || 'courier',
+        name: rate.name || `${rate.carrier ? `${rate.carrier} ` : ''}${rate.service_level}`,
+        delivery_days_min: rate.delivery_days_min ?? null,
+        delivery_days_max: rate.delivery_days_max ?? null,
+      }, rateCost(rate, parcel.chargeable_weight_g), rate.free_over ?? freeShippingThreshold, subtotal))
+    : [withThreshold({
+      id: FLAT_METHOD,
+      rate_id: null,
+      method: FLAT_METHOD,
+      service_level: 'standard',
+      carrier: null,
+      delivery_type: 'courier',
+      name: 'Handling, packaging & transport',
+      delivery_days_min: null,
+      delivery_days_max: null,
+    }, roundMoney(flatCost), freeShippingThreshold, subtotal)];
+  delivery.sort((a, b) => a.cost - b.cost || SERVICE_LEVELS.indexOf(a.service_level) - SERVICE_LEVELS.indexOf(b.service_level));
+
+  const options = [...delivery];
+  if (pickup) {
+    options.push({
+      id: PICKUP_METHOD,
+      rate_id: null,
+      method: PICKUP_METHOD,
+      service_level: null,
+      carrier: null,
+      delivery_type: PICKUP_METHOD,
+      name: 'Pickup from the lab',
+      address: pickup.address || '',
+      cost: 0,
+      original_cost: 0,
+      free: true,
+      free_over: null,
+      amount_to_free: null,
+      delivery_days_min: null,
+      delivery_days_max: null,
+    });
+  }
+  return options;
+}
+
+module.exports = {
+  SERVICE_LEVELS,
+  PICKUP_METHOD,
+  FLAT_METHOD,
+  zoneCountries,
+  findZone,
+  parcelFor,
+  rateFits,
+  rateCost,
+  quoteOptions,
+};
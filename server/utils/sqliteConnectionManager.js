@@ -6,6 +6,7 @@
 
 const sqlite3 = require('sqlite3').verbose();
 const path = require('path');
+const { AsyncLocalStorage } = require('async_hooks');
 
 class SQLiteConnectionManager {
   constructor() {
@@ -14,6 +15,9 @@ class SQLiteConnectionManager {
     this.dbPath = process.env.DB_FILE
       ? path.resolve(process.env.DB_FILE)
       : path.join(__dirname, '..', 'database', 'makerset.db');
+    // The running transaction (see transaction()) and the async context of its task
+    this.activeTransaction = null;
+    this.transactionScope = new AsyncLocalStorage();
   }
 
   /**
@@ -68,6 +72,10 @@ class SQLiteConnectionManager {
    * Execute query with error handling
    */
   async query(text, params = []) {
+    // Re-checked right before the statement is queued, with no await in between
+    while (this.transactionOfOthers()) {
+      await this.activeTransaction;
+    }
     return new Promise((resolve, reject) => {
       if (!this.isConnected || !this.db) {
         reject(new Error('Database not connected'));
@@ -105,6 +113,10 @@ class SQLiteConnectionManager {
    * Execute INSERT/UPDATE/DELETE query with lastID support
    */
   async run(text, params = []) {
+    // Re-checked right before the statement is queued, with no await in between
+    while (this.transactionOfOthers()) {
+      await this.activeTransaction;
+    }
     return new Promise((resolve, reject) => {
       if (!this.isConnected || !this.db) {
         reject(new Error('Database not connected'));
@@ -141,6 +153,124 @@ class SQLiteConnectionManager {
     });
   }
 
+  /**
+   * Run `task` in one transaction: committed when it resolves, rolled back
+   * when it throws. Every request shares this connection, so statements from
+   * outside the task wait until it has finished rather than landing in the
+   * transaction; transactions run one after another and a nested call joins
+   * the running one.
+   */
+  async transaction(task) {
+    if (this.transactionScope.getStore()) {
+      return task();
+    }
+    // Checked and claimed without an await in between, so two callers cannot both start
+    while (this.activeTransaction) {
+      await this.activeTransaction;
+    }
+    let finished;
+    this.activeTransaction = new Promise((resolve) => {
+      finished = resolve;
+    });
+    const scope = { committed: [] };
+    let result;
+    try {
+      result = await this.transactionScope.run(scope, async() => {
+        await this.run('BEGIN IMMEDIATE');
+        try {
+          const value = await task();
+          await this.run('COMMIT');
+          return value;
+        } catch (error) {
+          await this.run('ROLLBACK').catch(() => {});
+          throw error;
+        }
+      });
+    } finally {
+      this.activeTransaction = null;
+      finished();
+    }
+    for (const callback of scope.committed) {
+      try {
+        await callback();
+      } catch (error) {
+        console.error('Error after committing a transaction:', error);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Run `callback` once the running transaction has committed, or right away
+   * outside one. For work that must not happen if the transaction rolls back,
+   * or that cannot run while it holds the write lock, such as notifications
+   * written through their own connection.
+   */
+  async afterCommit(callback) {
+    const scope = this.transactionScope.getStore();
+    if (!scope) {
+      return callback();
+    }
+    scope.committed.push(callback);
+    return undefined;
+  }
+
+  /** True while a transaction runs that the caller is not part of. */
+  transactionOfOthers() {
+    return Boolean(this.activeTransaction) && !this.transactionScope.getStore();
+  }
+
+  /**
+   * Write a consistent copy of the live database to targetPath (VACUUM INTO).
+   * Runs online: readers and writers on other connections are not blocked.
+   */
+  async snapshot(targetPath) {
+    return new Promise((resolve, reject) => {
+      if (!this.isConnected || !this.db) {
+        reject(new Error('Database not connected'));
+        return;
+      }
+
+      this.db.run('VACUUM INTO ?', [targetPath], (err) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(targetPath);
+        }
+      });
+    });
+  }
+
+  /**
+   * Replace the content of the live database with the database file at
+   * sourcePath using the SQLite online backup API, so open connections keep
+   * working and see the restored data.
+   */
+  async restoreFrom(sourcePath) {
+    return new Promise((resolve, reject) => {
+      if (!this.isConnected || !this.db) {
+        reject(new Error('Database not connected'));
+        return;
+      }
+
+      const backup = this.db.backup(sourcePath, 'main', 'main', false, (err) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+        backup.step(-1, (stepErr) => {
+          backup.finish((finishErr) => {
+            if (stepErr || finishErr) {
+              reject(stepErr || finishErr);
+            } else {
+              resolve(true);
+            }
+          });
+        });
+      });
+    });
+  }
+
   /**
    * Get database connection
    */
@@ -0,0 +1,52 @@
+/**
+ * Stock costing
+ *
+ * Parts are valued at weighted-average cost: every receipt of goods blends
+ * its purchase price into the unit cost of the stock already on hand, and
+ * reversing a receipt takes the same quantity and value back out.
+ */
+
+function roundCost(value) {
+  return Math.round(value * 1000000) / 1000000;
+}
+
+/**
+ * Stock and unit cost after receiving `quantity` units at `unitPrice`.
+ * Stock that is empty (or negative) or has no cost yet does not weigh in.
+ * @returns {{ stock: number, unitCost: number }}
+ */
+function receiveAtAverageCost({ stock, unitCost, quantity, unitPrice }) {
+  const onHand = Number(stock) || 0;
+  const cost = unitCost === null || unitCost === undefined ? null : Number(unitCost);
+  const newStock = onHand + quantity;
+  if (onHand <= 0 || cost === null || !Number.isFinite(cost)) {
+    return { stock: newStock, unitCost: roundCost(unitPrice) };
+  }
+  return { stock: newStock, unitCost: roundCost((onHand * cost + quantity * unitPrice) / newStock) };
+}
+
+/**
+ * Stock and unit cost after taking back `quantity` units received at
+ * `unitPrice`. The cost stays as it was when no stock remains or when the
+ * remaining value would go negative (the stock received has partly been used
+ * at a different cost).
+ * @returns {{ stock: number, unitCost: number|null }}
+ */
+function reverseAtAverageCost({ stock, unitCost, quantity, unitPrice }) {
+  const onHand = Number(stock) || 0;
+  const cost = unitCost === null || unitCost === undefined ? null : Number(unitCost);
+  const newStock = onHand - quantity;
+  if (newStock <= 0 || cost === null || !Number.isFinite(cost)) {
+    return { stock: newStock, unitCost: cost };
+  }
+  const remainingValue = onHand * cost - quantity * unitPrice;
+  if (remainingValue < 0) {
+    return { stock: newStock, unitCost: cost };
+  }
+  return { stock: newStock, unitCost: roundCost(remainingValue / newStock) };
+}
+
+module.exports = {
+  receiveAtAverageCost,
+  reverseAtAverageCost,
+};
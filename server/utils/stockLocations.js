@@ -0,0 +1,106 @@
+/**
+ * Stock locations
+ *
+ * Where a part's stock is: rooms and warehouses, and bins inside them. A
+ * part's total stays parts.stock_quantity (what sales, receipts and
+ * stocktakes change); part_stock splits it over locations. Stock not placed
+ * anywhere yet is "unassigned". When the total drops below what the
+ * locations hold (stock sold or removed without naming a location), the
+ * difference comes out of the locations in pick order, the way it is picked.
+ */
+
+const LOCATION_TYPES = ['room', 'warehouse', 'bin'];
+
+/** Pick order: lower pick_sequence first, then by code. */
+function comparePickOrder(a, b) {
+  return (Number(a.pick_sequence) || 0) - (Number(b.pick_sequence) || 0)
+    || String(a.code || '').localeCompare(String(b.code || ''));
+}
+
+/**
+ * Full path of a location ("Warehouse / Shelf A / Bin 3") from a map of
+ * location id -> { name, parent_id }.
+ */
+function locationPath(location, byId) {
+  const names = [];
+  const seen = new Set();
+  let current = location;
+  while (current && !seen.has(current.location_id)) {
+    seen.add(current.location_id);
+    names.unshift(current.name || current.code);
+    current = current.parent_id ? byId.get(Number(current.parent_id)) : null;
+  }
+  return names.join(' / ');
+}
+
+/** True when making `parentId` the parent of `locationId` would create a loop. */
+function createsCycle(locationId, parentId, byId) {
+  let current = parentId ? byId.get(Number(parentId)) : null;
+  const seen = new Set();
+  while (current && !seen.has(current.location_id)) {
+    if (Number(current.location_id) === Number(locationId)) {
+      return true;
+    }
+    seen.add(current.location_id);
+    current = current.parent_id ? byId.get(Number(current.parent_id)) : null;
+  }
+  return false;
+}
+
+/**
+ * Per-location stock of one part reconciled with its total: rows
+ * ({ location_id, code, pick_sequence, quantity }) are trimmed in pick order
+ * until they fit in `total`; what the rows do not cover is unassigned.
+ * Returns { locations (pick order, quantity > 0), unassigned_quantity, total }.
+ */
+function reconcileBreakdown(rows, total) {
+  const stock = Math.max(Number(total) || 0, 0);
+  const sorted = (rows || [])
+    .map((row) => ({ ...row, quantity: Math.max(Number(row.quantity) || 0, 0) }))
+    .sort(comparePickOrder);
+  let excess = sorted.reduce((sum, row) => sum + row.quantity, 0) - stock;
+  sorted.forEach((row) => {
+    if (excess > 0) {
+      const taken = Math.min(row.quantity, excess);
+      row.quantity -= taken;
+      excess -= taken;
+    }
+  });
+  const placed = sorted.reduce((sum, row) => sum + row.quantity, 0);
+  return {
+    locations: sorted.filter((row) => row.quantity > 0),
+    unassigned_quantity: stock - placed,
+    total: stock,
+  };
+}
+
+/**
+ * Where to pick `needed` units from, in pick order: [{ location_id, code,
+ * path, quantity }], then the unassigned stock, then whatever is short.
+ */
+function pickPlan(breakdown, needed) {
+  let remaining = Math.max(Number(needed) || 0, 0);
+  const plan = [];
+  (breakdown.locations || []).forEach((location) => {
+    if (remaining > 0 && location.quantity > 0) {
+      const quantity = Math.min(location.quantity, remaining);
+      plan.push({ location_id: location.location_id, code: location.code, path: location.path, quantity });
+      remaining -= quantity;
+    }
+  });
+  const unassigned = Math.min(Number(breakdown.unassigned_quantity) || 0, remaining);
+  if (unassigned > 0) {
+    plan.push({ location_id: null, code: null, path: 'Unassigned', quantity: unassigned });
+    remaining -= unassigned;
+  }
+  return { locations: plan, short_quantity: remaining };
+}
+
+module.exports = {
+  LOCATION_TYPES,
+  comparePickOrder,
+  locationPath,
+  createsCycle,
+  reconcileBreakdown,
+  pickPlan,
+};
@@ -0,0 +1,27 @@
+/**
+ * Stock reservations
+ *
+ * Carts hold stock for a limited time (stock_reservations rows, status
+ * 'active' until expires_at). A held set ties up its required parts, so
+ * those parts count as taken when working out what can still be built
+ * (see utils/setAvailability.js).
+ */
+
+/** SQL condition for a reservation row (alias r) that still holds stock. */
+const ACTIVE_HOLD_SQL = 'r.status = \'active\' AND r.expires_at > datetime(\'now\')';
+
+/**
+ * SQL expression: quantity of a part held by active reservations of sets
+ * that require it. `extraCondition` narrows the reservations further (alias r).
+ */
+function heldPartQuantitySql(partIdExpr, extraCondition = '') {
+  return `(SELECT COALESCE(SUM(r.quantity * rsp.quantity), 0)
+    FROM stock_reservations r
+    JOIN set_parts rsp ON rsp.set_id = r.set_id AND COALESCE(rsp.is_optional, 0) = 0
+    WHERE rsp.part_id = ${partIdExpr} AND ${ACTIVE_HOLD_SQL}${extraCondition ? ` AND ${extraCondition}` : ''})`;
+}
+
+module.exports = {
+  ACTIVE_HOLD_SQL,
+  heldPartQuantitySql,
+};
@@ -0,0 +1,74 @@
+/**
+ * Stocktake
+ *
+ * Variances of a stocktake (cycle count): what was counted against the
+ * snapshot taken when the count started, and what that difference is worth
+ * at the snapshot unit cost. Posting applies the variance to the current
+ * stock, so goods that moved while the count was running are not undone.
+ */
+
+const STOCKTAKE_STATUSES = ['counting', 'review', 'posted', 'cancelled'];
+const STOCKTAKE_SCOPES = ['parts', 'tools', 'all'];
+const LINE_STATUSES = ['pending', 'counted', 'approved', 'rejected', 'posted'];
+
+function roundMoney(value) {
+  return Math.round((Number(value) || 0) * 100) / 100;
+}
+
+/**
+ * Variance of one line ({ expected_quantity, counted_quantity, unit_cost }).
+ * Lines not counted yet have no variance (null).
+ */
+function lineVariance(line) {
+  if (line.counted_quantity === null || line.counted_quantity === undefined) {
+    return { variance: null, value_impact: null };
+  }
+  const variance = Number(line.counted_quantity) - (Number(line.expected_quantity) || 0);
+  return { variance, value_impact: roundMoney(variance * (Number(line.unit_cost) || 0)) };
+}
+
+/** Counts and value totals over the lines of a stocktake. */
+function summarizeLines(lines) {
+  return (lines || []).reduce((summary, line) => {
+    const { variance, value_impact: valueImpact } = lineVariance(line);
+    summary.total_lines += 1;
+    if (variance === null) {
+      summary.uncounted_lines += 1;
+      return summary;
+    }
+    summary.counted_lines += 1;
+    if (variance !== 0) {
+      summary.variance_lines += 1;
+      summary.value_gain = roundMoney(summary.value_gain + Math.max(valueImpact, 0));
+      summary.value_loss = roundMoney(summary.value_loss + Math.min(valueImpact, 0));
+      summary.net_value_impact = roundMoney(summary.net_value_impact + valueImpact);
+      if (line.status === 'approved' || line.status === 'posted') {
+        summary.approved_lines += 1;
+      }
+    }
+    return summary;
+  }, {
+    total_lines: 0,
+    counted_lines: 0,
+    uncounted_lines: 0,
+    variance_lines: 0,
+    approved_lines: 0,
+    value_gain: 0,
+    value_loss: 0,
+    net_value_impact: 0,
+  });
+}
+
+/** Stock after posting a variance onto the current stock (never below zero). */
+function stockAfterVariance(currentStock, variance) {
+  return Math.max((Number(currentStock) || 0) + (Number(variance) || 0), 0);
+}
+
+module.exports = {
+  STOCKTAKE_STATUSES,
+  STOCKTAKE_SCOPES,
+  LINE_STATUSES,
+  lineVariance,
+  summarizeLines,
+  stockAfterVariance,
+};
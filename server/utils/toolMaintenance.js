@@ -0,0 +1,104 @@
+/**
+ * Tool maintenance
+ *
+ * Maintenance plans fall due every N days and/or every N uses (whichever
+ * comes first); a use is one check-out returned. A tool can be picked for an
+ * order only when it is not checked out elsewhere, not overdue for
+ * maintenance and not in an out-of-service condition.
+ */
+
+const UNAVAILABLE_CONDITIONS = ['needs_repair', 'broken', 'missing', 'out_of_service'];
+const DUE_SOON_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** YYYY-MM-DD of a date (or date string), or null. */
+function toDateOnly(value) {
+  if (!value) {
+    return null;
+  }
+  const date = value instanceof Date ? value : new Date(String(value).replace(' ', 'T'));
+  return Number.isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10);
+}
+
+function addDays(dateOnly, days) {
+  const date = new Date(`${dateOnly}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+function daysBetween(fromDateOnly, toDateOnlyValue) {
+  return Math.round((new Date(`${toDateOnlyValue}T00:00:00Z`) - new Date(`${fromDateOnly}T00:00:00Z`)) / DAY_MS);
+}
+
+/**
+ * Where a plan ({ interval_days, interval_uses, last_performed_at,
+ * use_count_at_service, created_at }) stands for a tool used `useCount`
+ * times so far: { due_date, days_remaining, uses_since_service,
+ * uses_remaining, is_overdue, is_due_soon }. A plan never performed counts
+ * from when it was created.
+ */
+function planStatus(plan, { useCount = 0, today = new Date() } = {}) {
+  const intervalDays = Number(plan.interval_days) || 0;
+  const intervalUses = Number(plan.interval_uses) || 0;
+  const todayDate = toDateOnly(today);
+  const since = toDateOnly(plan.last_performed_at) || toDateOnly(plan.created_at) || todayDate;
+
+  const dueDate = intervalDays > 0 ? addDays(since, intervalDays) : null;
+  const daysRemaining = dueDate ? daysBetween(todayDate, dueDate) : null;
+  const usesSinceService = Math.max((Number(useCount) || 0) - (Number(plan.use_count_at_service) || 0), 0);
+  const usesRemaining = intervalUses > 0 ? intervalUses - usesSinceService : null;
+
+  const isOverdue = (daysRemaining !== null && daysRemaining < 0) || (usesRemaining !== null && usesRemaining <= 0);
+  return {
+    due_date: dueDate,
+    days_remaining: daysRemaining,
+    uses_since_service: usesSinceService,
+    uses_remaining: usesRemaining,
+    is_overdue: isOverdue,
+    is_due_soon: !isOverdue && ((daysRemaining !== null && daysRemaining <= DUE_SOON_DAYS)
+      || (usesRemaining !== null && usesRemaining <= 1)),
+  };
+}
+
+/** Earliest due date over a tool's plan statuses (its next_maintenance_date), or null. */
+function nextDueDate(statuses) {
+  const dates = (statuses || []).map((status) => status.due_date).filter(Boolean).sort();
+  return dates.length > 0 ? dates[0] : null;
+}
+
+/**
+ * Whether a tool can be picked for `orderId`: { status, available, reason }.
+ * status is 'available', 'checked_out_to_order' (already out for this
+ * order, so it counts as available), 'checked_out', 'maintenance_overdue'
+ * or 'out_of_service'.
+ */
+function toolAvailability(tool, { checkout = null, overduePlans = [], orderId = null } = {}) {
+  if (UNAVAILABLE_CONDITIONS.includes(tool.condition_status) || Number(tool.active) === 0) {
+    return { status: 'out_of_service', available: false, reason: `Condition: ${tool.condition_status || 'inactive'}` };
+  }
+  if (checkout) {
+    if (orderId && Number(checkout.order_id) === Number(orderId)) {
+      return { status: 'checked_out_to_order', available: true, reason: 'Checked out for this order' };
+    }
+    const target = checkout.order_id
+      ? `order ${checkout.order_number || checkout.order_id}`
+      : checkout.workshop || 'another use';
+    return { status: 'checked_out', available: false, reason: `Checked out to ${target}` };
+  }
+  if (overduePlans.length > 0) {
+    return {
+      status: 'maintenance_overdue',
+      available: false,
+      reason: `Maintenance overdue: ${overduePlans.map((plan) => plan.name).join(', ')}`,
+    };
+  }
+  return { status: 'available', available: true, reason: null };
+}
+
+module.exports = {
+  UNAVAILABLE_CONDITIONS,
+  toDateOnly,
+  planStatus,
+  nextDueDate,
+  toolAvailability,
+};
@@ -0,0 +1,243 @@
+/**
+ * VAT Engine
+ *
+ * Decides how VAT applies to a sale and splits VAT-inclusive line amounts
+ * into net + VAT per rate. Pure functions only; rates can be overridden via
+ * the vat_rates system setting (JSON, e.g. {"EE": {"standard": 24}}).
+ *
+ * Treatments:
+ * - domestic:       seller and customer in the same country, seller's rate
+ * - distance_sale:  B2C to another EU country, customer country's rate (OSS)
+ * - reverse_charge: B2B to another EU country with a valid VAT ID, 0%
+ * - exempt:         educational institutions (Art. 132(1)(i) Directive 2006/112/EC), 0%
+ * - export:         customer outside the EU, 0%
+ */
+
+// Standard and main reduced rates (percent)
+const EU_VAT_RATES = {
+  AT: { standard: 20, reduced: 10 },
+  BE: { standard: 21, reduced: 6 },
+  BG: { standard: 20, reduced: 9 },
+  CY: { standard: 19, reduced: 5 },
+  CZ: { standard: 21, reduced: 12 },
+  DE: { standard: 19, reduced: 7 },
+  DK: { standard: 25, reduced: 25 },
+  EE: { standard: 24, reduced: 9 },
+  ES: { standard: 21, reduced: 10 },
+  FI: { standard: 25.5, reduced: 14 },
+  FR: { standard: 20, reduced: 5.5 },
+  GR: { standard: 24, reduced: 13 },
+  HR: { standard: 25, reduced: 13 },
+  HU: { standard: 27, reduced: 5 },
+  IE: { standard: 23, reduced: 13.5 },
+  IT: { standard: 22, reduced: 10 },
+  LT: { standard: 21, reduced: 9 },
+  LU: { standard: 17, reduced: 8 },
+  LV: { standard: 21, reduced: 12 },
+  MT: { standard: 18, reduced: 7 },
+  NL: { standard: 21, reduced: 9 },
+  PL: { standard: 23, reduced: 8 },
+  PT: { standard: 23, reduced: 6 },
+  RO: { standard: 21, reduced: 11 },
+  SE: { standard: 25, reduced: 12 },
+  SI: { standard: 22, reduced: 9.5 },
+  SK: { standard: 23, reduced: 19 },
+};
+
+// Rates a country has (sets with vat_category 'zero' are always 0%)
+const RATE_CATEGORIES = ['standard', 'reduced'];
+
+// Country names as stored on user profiles → ISO 3166-1 alpha-2
+const COUNTRY_CODES = {
+  austria: 'AT', belgium: 'BE', bulgaria: 'BG', croatia: 'HR', cyprus: 'CY',
+  'czech republic': 'CZ', czechia: 'CZ', denmark: 'DK', estonia: 'EE', finland: 'FI',
+  france: 'FR', germany: 'DE', greece: 'GR', hungary: 'HU', ireland: 'IE',
+  italy: 'IT', latvia: 'LV', lithuania: 'LT', luxembourg: 'LU', malta: 'MT',
+  netherlands: 'NL', poland: 'PL', portugal: 'PT', romania: 'RO', slovakia: 'SK',
+  slovenia: 'SI', spain: 'ES', sweden: 'SE',
+  norway: 'NO', switzerland: 'CH', 'united kingdom': 'GB', iceland: 'IS',
+  'united states': 'US', canada: 'CA', ukraine: 'UA',
+};
+
+// VAT ID formats (without the country prefix); Greece uses the EL prefix
+const VAT_ID_PATTERNS = {
+  AT: /^U\d{8}$/, BE: /^[01]\d{9}$/, BG: /^\d{9,10}$/, CY: /^\d{8}[A-Z]$/,
+  CZ: /^\d{8,10}$/, DE: /^\d{9}$/, DK: /^\d{8}$/, EE: /^\d{9}$/,
+  EL: /^\d{9}$/, ES: /^[A-Z0-9]\d{7}[A-Z0-9]$/, FI: /^\d{8}$/, FR: /^[A-HJ-NP-Z0-9]{2}\d{9}$/,
+  HR: /^\d{11}$/, HU: /^\d{8}$/, IE: /^\d[A-Z0-9+*]\d{5}[A-Z]{1,2}$/, IT: /^\d{11}$/,
+  LT: /^(\d{9}|\d{12})$/, LU: /^\d{8}$/, LV: /^\d{11}$/, MT: /^\d{8}$/,
+  NL: /^\d{9}B\d{2}$/, PL: /^\d{10}$/, PT: /^\d{9}$/, RO: /^\d{2,10}$/,
+  SE: /^\d{12}$/, SI: /^\d{8}$/, SK: /^\d{10}$/,
+};
+
+const ZERO_RATED_TREATMENTS = ['reverse_charge', 'exempt', 'export'];
+
+function roundMoney(value) {
+  return Math.round((Number(value) || 0) * 100) / 100;
+}
+
+/** ISO code for a country name or code ('Estonia', 'ee', 'EE' → 'EE'). */
+function countryToCode(country) {
+  if (!country) {
+    return null;
+  }
+  const value = String(country).trim();
+  if (/^[A-Za-z]{2}$/.test(value)) {
+    const code = value.toUpperCase();
+    return code === 'EL' ? 'GR' : code;
+  }
+  return COUNTRY_CODES[value.toLowerCase()] || null;
+}
+
+function isEuCountry(code) {
+  return Boolean(code && EU_VAT_RATES[code]);
+}
+
+/**
+ * Normalise and check a VAT ID's format. Returns { valid, vatId, country }.
+ * Only the format is checked (no VIES lookup).
+ */
+function validateVatId(vatId) {
+  const normalized = String(vatId || '').toUpperCase().replace(/[\s.-]/g, '');
+  const prefix = normalized.slice(0, 2);
+  const pattern = VAT_ID_PATTERNS[prefix];
+  if (!pattern || !pattern.test(normalized.slice(2))) {
+    return { valid: false, vatId: normalized, country: null };
+  }
+  return { valid: true, vatId: normalized, country: prefix === 'EL' ? 'GR' : prefix };
+}
+
+/**
+ * Problem with rate overrides as stored in the vat_rates setting, or null:
+ * country codes, each with standard and/or reduced rates from 0 to 100.
+ */
+function checkRateOverrides(overrides) {
+  if (!overrides || typeof overrides !== 'object' || Array.isArray(overrides)) {
+    return 'must map country codes to rates, e.g. {"EE": {"standard": 24}}';
+  }
+  for (const [country, rates] of Object.entries(overrides)) {
+    if (!/^[A-Z]{2}$/.test(country)) {
+      return `has an invalid country code: ${country}`;
+    }
+    if (!rates || typeof rates !== 'object' || Array.isArray(rates)) {
+      return `must give the rates of ${country} as an object`;
+    }
+    for (const [category, rate] of Object.entries(rates)) {
+      if (!RATE_CATEGORIES.includes(category)) {
+        return `has an unknown rate for ${country}: ${category} (use ${RATE_CATEGORIES.join(' or ')})`;
+      }
+      if (typeof rate !== 'number' || !Number.isFinite(rate) || rate < 0 || rate > 100) {
+        return `must give the ${category} rate of ${country} as a number from 0 to 100`;
+      }
+    }
+  }
+  return null;
+}
+
+function getRates(country, overrides = {}) {
+  return { ...(EU_VAT_RATES[country] || {}), ...(overrides[country] || {}) };
+}
+
+/**
+ * Decide the VAT treatment for a customer.
+ *
+ * @param {Object} params
+ * @param {string} params.sellerCountry - seller country code (e.g. 'EE')
+ * @param {string} [params.customerCountry] - country name or code
+ * @param {string} [params.customerVatId]
+ * @param {string} [params.customerType] - 'private' | 'business' | 'education'
+ * @returns {{ treatment: string, rateCountry: string|null, customerCountry: string, customerVatId: string|null }}
+ */
+function determineTreatment({ sellerCountry, customerCountry, customerVatId, customerType }) {
+  const seller = countryToCode(sellerCountry) || 'EE';
+  const vat = customerVatId ? validateVatId(customerVatId) : { valid: false, vatId: null, country: null };
+  // Without an explicit country, a valid VAT ID tells us where the customer is
+  const customer = countryToCode(customerCountry) || vat.country || seller;
+  const result = { customerCountry: customer, customerVatId: vat.valid ? vat.vatId : null };
+
+  if (customerType === 'education') {
+    return { ...result, treatment: 'exempt', rateCountry: null };
+  }
+  if (!isEuCountry(customer)) {
+    return { ...result, treatment: 'export', rateCountry: null };
+  }
+  if (customer === seller) {
+    return { ...result, treatment: 'domestic', rateCountry: seller };
+  }
+  if (vat.valid && vat.country === customer) {
+    return { ...result, treatment: 'reverse_charge', rateCountry: null };
+  }
+  return { ...result, treatment: 'distance_sale', rateCountry: customer };
+}
+
+/**
+ * Per-rate breakdown of VAT-inclusive lines that already carry a `vatRate`
+ * (negative totals for credit notes work the same way).
+ *
+ * @param {Array<{total: number, vatRate: number}>} lines
+ * @returns {{ breakdown: Array<{rate, net, vat, gross}>, net, vat, gross }}
+ */
+function summarizeVat(lines) {
+  const byRate = new Map();
+  lines.forEach((line) => {
+    const rate = Number(line.vatRate) || 0;
+    byRate.set(rate, (byRate.get(rate) || 0) + roundMoney(line.total));
+  });
+
+  // Round per rate group (not per line) so the breakdown adds up exactly
+  const breakdown = [...byRate.entries()]
+    .sort((a, b) => b[0] - a[0])
+    .map(([rate, grossSum]) => {
+      const gross = roundMoney(grossSum);
+      const net = roundMoney(gross / (1 + rate / 100));
+      return { rate, net, vat: roundMoney(gross - net), gross };
+    });
+
+  const net = roundMoney(breakdown.reduce((sum, row) => sum + row.net, 0));
+  const vat = roundMoney(breakdown.reduce((sum, row) => sum + row.vat, 0));
+  return { breakdown, net, vat, gross: roundMoney(net + vat) };
+}
+
+/**
+ * Split VAT-inclusive lines into net and VAT.
+ *
+ * Shop prices include VAT, so the customer pays the same gross amount under
+ * every treatment; zero-rated treatments simply carry no VAT.
+ *
+ * @param {Array<{total: number, vatCategory?: string}>} lines
+ * @param {Object} params - see determineTreatment, plus `rateOverrides`
+ * @returns {{ treatment, customerCountry, customerVatId, lines, breakdown, net, vat, gross }}
+ */
+function calculateVat(lines, params) {
+  const decision = determineTreatment(params);
+  const rates = decision.rateCountry ? getRates(decision.rateCountry, params.rateOverrides) : {};
+  const zeroRated = ZERO_RATED_TREATMENTS.includes(decision.treatment);
+
+  const resultLines = lines.map((line) => {
+    const category = line.vatCategory || 'standard';
+    let rate = 0;
+    if (!zeroRated) {
+      rate = category === 'zero' ? 0 : Number(rates[category] !== undefined ? rates[category] : rates.standard) || 0;
+    }
+    return { ...line, vatRate: rate };
+  });
+
+  return {
+    treatment: decision.treatment,
+    customerCountry: decision.customerCountry,
+    customerVatId: decision.customerVatId,
+    lines: resultLines,
+    ...summarizeVat(resultLines),
+  };
+}
+
+module.exports = {
+  EU_VAT_RATES,
+  countryToCode,
+  isEuCountry,
+  validateVatId,
+  checkRateOverrides,
+  determineTreatment,
+  summarizeVat,
+  calculateVat,
+};
@@ -0,0 +1,159 @@
+/**
+ * XML building and schema checks
+ *
+ * A small element builder for generated documents, and a validator that checks
+ * a document against a schema written as plain data: element order, occurrence
+ * counts, required attributes and value formats. The schemas cover the rules
+ * of the published XSDs that the generated documents depend on, so a broken
+ * document is caught before it is sent without needing an XSD engine.
+ *
+ * Schema element: { name, min = 1, max = 1, type, pattern, maxLength, attrs, children }
+ * - type: 'text' (default), 'decimal', 'date' (YYYY-MM-DD) or 'integer'
+ * - attrs: { name: { required, values, pattern } }
+ * - children: sequence of schema elements; elements with children hold no text
+ */
+
+const { parseXml } = require('./bankStatementParser');
+
+const TYPE_PATTERNS = {
+  decimal: /^-?\d+(\.\d+)?$/,
+  integer: /^-?\d+$/,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+};
+
+function escapeXml(value) {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Build an element. `content` is text, or an array of child elements where
+ * null/undefined entries (optional elements without a value) are dropped.
+ */
+function xmlNode(name, attrs = {}, content = []) {
+  return { name, attrs, content };
+}
+
+function serializeNode(node, indent) {
+  const attrs = Object.entries(node.attrs)
+    .filter(([, value]) => value !== null && value !== undefined)
+    .map(([key, value]) => ` ${key}="${escapeXml(value)}"`)
+    .join('');
+  if (!Array.isArray(node.content)) {
+    return `${indent}<${node.name}${attrs}>${escapeXml(node.content)}</${node.name}>`;
+  }
+  const children = node.content.filter(Boolean);
+  if (children.length === 0) {
+    return `${indent}<${node.name}${attrs}/>`;
+  }
+  return [
+    `${indent}<${node.name}${attrs}>`,
+    ...children.map((child) => serializeNode(child, `${indent}  `)),
+    `${indent}</${node.name}>`,
+  ].join('\n');
+}
+
+function serializeXml(root) {
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${serializeNode(root, '')}\n`;
+}
+
+function checkValue(path, value, definition, errors) {
+  const type = definition.type || 'text';
+  if (value === '') {
+    errors.push(`${path} must not be empty`);
+    return;
+  }
+  if (TYPE_PATTERNS[type] && !TYPE_PATTERNS[type].test(value)) {
+    errors.push(`${path} must be a ${type}, got "${value}"`);
+  } else if (type === 'date' && Number.isNaN(Date.parse(value))) {
+    errors.push(`${path} is not a valid date: "${value}"`);
+  }
+  if (definition.pattern && !definition.pattern.test(value)) {
+    errors.push(`${path} has an invalid format: "${value}"`);
+  }
+  if (definition.maxLength && value.length > definition.maxLength) {
+    errors.push(`${path} is longer than ${definition.maxLength} characters`);
+  }
+}
+
+function checkAttributes(path, node, definition, errors) {
+  const allowed = definition.attrs || {};
+  Object.entries(allowed).forEach(([name, rule]) => {
+    const value = node.attrs[name];
+    if (value === undefined || value === '') {
+      if (rule.required) {
+        errors.push(`${path} is missing attribute ${name}`);
+      }
+      return;
+    }
+    if (rule.values && !rule.values.includes(value)) {
+      errors.push(`${path}@${name} must be one of ${rule.values.join(', ')}, got "${value}"`);
+    }
+    if (rule.pattern && !rule.pattern.test(value)) {
+      errors.push(`${path}@${name} has an invalid format: "${value}"`);
+    }
+  });
+}
+
+function checkElement(path, node, definition, errors) {
+  checkAttributes(path, node, definition, errors);
+  if (!definition.children) {
+    if (node.children.length > 0) {
+      errors.push(`${path} must not contain elements`);
+    }
+    checkValue(path, node.text.trim(), definition, errors);
+    return;
+  }
+
+  // Walk the sequence: each definition consumes its run of matching elements
+  const children = node.children;
+  let index = 0;
+  definition.children.forEach((childDefinition) => {
+    const min = childDefinition.min === undefined ? 1 : childDefinition.min;
+    const max = childDefinition.max === undefined ? 1 : childDefinition.max;
+    let count = 0;
+    while (index < children.length && children[index].name === childDefinition.name) {
+      count++;
+      checkElement(`${path}/${childDefinition.name}`, children[index], childDefinition, errors);
+      index++;
+    }
+    if (count < min) {
+      errors.push(`${path}/${childDefinition.name} is required`);
+    }
+    if (count > max) {
+      errors.push(`${path}/${childDefinition.name} may occur at most ${max} time(s)`);
+    }
+  });
+  if (index < children.length) {
+    errors.push(`${path}/${children[index].name} is not allowed here`);
+  }
+}
+
+/**
+ * Validate an XML string against a schema definition.
+ * @returns {string[]} human-readable errors; empty when the document is valid
+ */
+function validateXml(xml, schema) {
+  let document;
+  try {
+    document = parseXml(xml);
+  } catch (error) {
+    return [error.message];
+  }
+  const root = document.children[0];
+  if (!root || root.name !== schema.name || document.children.length > 1) {
+    return [`Root element must be <${schema.name}>`];
+  }
+  const errors = [];
+  checkElement(schema.name, root, schema, errors);
+  return errors;
+}
+
+module.exports = {
+  xmlNode,
+  serializeXml,
+  validateXml,
+};